@@ -78,6 +78,14 @@ public class MockSqlCommandWrapper : ISqlCommandWrapper
         return Task.FromResult<object?>(null);
     }
 
+    public void AddParameter(string name, object? value)
+    {
+    }
+
+    public void Cancel()
+    {
+    }
+
     public void Dispose()
     {
     }
@@ -129,6 +137,11 @@ public class MockSqlDataReaderWrapper : ISqlDataReaderWrapper
         return Task.FromResult(_rowIndex < _data.Count);
     }
 
+    public Task<bool> NextResultAsync()
+    {
+        return Task.FromResult(false);
+    }
+
     public void Dispose()
     {
     }
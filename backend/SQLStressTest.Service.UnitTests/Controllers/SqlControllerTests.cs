@@ -20,6 +20,7 @@ public class SqlControllerTests : TestBase, IDisposable
     private readonly Mock<IConnectionCacheService> _mockConnectionCacheService;
     private readonly Mock<IQueryExecutionOrchestrator> _mockQueryExecutionOrchestrator;
     private readonly Mock<IStressTestOrchestrator> _mockStressTestOrchestrator;
+    private readonly Mock<IDatabaseObjectsOrchestrator> _mockDatabaseObjectsOrchestrator;
     private readonly Mock<ILogger<SqlController>> _mockLogger;
     private readonly SqlController _controller;
 
@@ -39,12 +40,14 @@ public class SqlControllerTests : TestBase, IDisposable
         _mockConnectionCacheService.Setup(x => x.GetCachedConnections()).Returns((List<ConnectionConfigDto>?)null);
         _mockQueryExecutionOrchestrator = new Mock<IQueryExecutionOrchestrator>();
         _mockStressTestOrchestrator = new Mock<IStressTestOrchestrator>();
+        _mockDatabaseObjectsOrchestrator = new Mock<IDatabaseObjectsOrchestrator>();
         _mockLogger = new Mock<ILogger<SqlController>>();
         _controller = new SqlController(
             _mockSqlConnectionService.Object, 
             _mockConnectionCacheService.Object,
             _mockQueryExecutionOrchestrator.Object,
             _mockStressTestOrchestrator.Object,
+            _mockDatabaseObjectsOrchestrator.Object,
             _mockLogger.Object);
     }
     
@@ -69,7 +72,7 @@ public class SqlControllerTests : TestBase, IDisposable
     {
         // Act & Assert
         Assert.Throws<ArgumentNullException>(() => 
-            new SqlController(null!, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, _mockLogger.Object));
+            new SqlController(null!, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, _mockDatabaseObjectsOrchestrator.Object, _mockLogger.Object));
     }
 
     [Fact]
@@ -77,7 +80,7 @@ public class SqlControllerTests : TestBase, IDisposable
     {
         // Act & Assert
         Assert.Throws<ArgumentNullException>(() => 
-            new SqlController(_mockSqlConnectionService.Object, null!, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, _mockLogger.Object));
+            new SqlController(_mockSqlConnectionService.Object, null!, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, _mockDatabaseObjectsOrchestrator.Object, _mockLogger.Object));
     }
 
     [Fact]
@@ -85,7 +88,7 @@ public class SqlControllerTests : TestBase, IDisposable
     {
         // Act & Assert
         Assert.Throws<ArgumentNullException>(() => 
-            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, null!, _mockStressTestOrchestrator.Object, _mockLogger.Object));
+            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, null!, _mockStressTestOrchestrator.Object, _mockDatabaseObjectsOrchestrator.Object, _mockLogger.Object));
     }
 
     [Fact]
@@ -93,7 +96,15 @@ public class SqlControllerTests : TestBase, IDisposable
     {
         // Act & Assert
         Assert.Throws<ArgumentNullException>(() => 
-            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, null!, _mockLogger.Object));
+            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, null!, _mockDatabaseObjectsOrchestrator.Object, _mockLogger.Object));
+    }
+
+    [Fact]
+    public void Constructor_ThrowsArgumentNullException_WhenDatabaseObjectsOrchestratorIsNull()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentNullException>(() => 
+            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, null!, _mockLogger.Object));
     }
 
     [Fact]
@@ -101,7 +112,7 @@ public class SqlControllerTests : TestBase, IDisposable
     {
         // Act & Assert
         Assert.Throws<ArgumentNullException>(() => 
-            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, null!));
+            new SqlController(_mockSqlConnectionService.Object, _mockConnectionCacheService.Object, _mockQueryExecutionOrchestrator.Object, _mockStressTestOrchestrator.Object, _mockDatabaseObjectsOrchestrator.Object, null!));
     }
 
     [Fact]
@@ -752,6 +763,83 @@ public class SqlControllerTests : TestBase, IDisposable
             It.IsAny<Microsoft.AspNetCore.Mvc.ModelBinding.ModelStateDictionary>()), Times.Once);
     }
 
+    [Fact]
+    public async Task CancelStressTest_DelegatesToOrchestrator()
+    {
+        // Arrange
+        var testId = Guid.NewGuid().ToString();
+        var expectedResponse = new StressTestResponse
+        {
+            Success = true,
+            Cancelled = true,
+            TestId = testId,
+            Message = "Stress test cancelled"
+        };
+
+        _mockStressTestOrchestrator.Setup(x => x.CancelStressTestAsync(testId, It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new OkObjectResult(expectedResponse));
+
+        // Act
+        var result = await _controller.CancelStressTest(testId, CancellationToken.None);
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<StressTestResponse>(okResult.Value);
+        Assert.True(response.Cancelled);
+        Assert.Equal(testId, response.TestId);
+        _mockStressTestOrchestrator.Verify(x => x.CancelStressTestAsync(testId, It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task CancelStressTest_ReturnsNotFound_WhenTestIsNotRunning()
+    {
+        // Arrange
+        _mockStressTestOrchestrator.Setup(x => x.CancelStressTestAsync("unknown", It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new NotFoundObjectResult(new StressTestResponse
+            {
+                Success = false,
+                TestId = "unknown",
+                Error = "Stress test 'unknown' is not running"
+            }));
+
+        // Act
+        var result = await _controller.CancelStressTest("unknown", CancellationToken.None);
+
+        // Assert
+        var notFoundResult = Assert.IsType<NotFoundObjectResult>(result);
+        var response = Assert.IsType<StressTestResponse>(notFoundResult.Value);
+        Assert.False(response.Success);
+    }
+
+    [Fact]
+    public async Task GetDatabaseObjects_DelegatesToOrchestrator()
+    {
+        // Arrange
+        var request = new DatabaseObjectsRequest
+        {
+            ConnectionId = "test-connection",
+            ObjectType = "tables",
+            Database = "Shop",
+            Schema = "dbo"
+        };
+        _mockDatabaseObjectsOrchestrator.Setup(x => x.GetObjectsAsync(request))
+            .ReturnsAsync(new OkObjectResult(new DatabaseObjectsResponse
+            {
+                Success = true,
+                Objects = new List<DatabaseObject> { new() { Name = "Orders" } }
+            }));
+
+        // Act
+        var result = await _controller.GetDatabaseObjects(request);
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<DatabaseObjectsResponse>(okResult.Value);
+        Assert.True(response.Success);
+        Assert.Equal("Orders", Assert.Single(response.Objects!).Name);
+        _mockDatabaseObjectsOrchestrator.Verify(x => x.GetObjectsAsync(request), Times.Once);
+    }
+
     [Fact]
     public async Task ExecuteStressTest_ReturnsErrorResponse_WhenServiceFails()
     {
@@ -811,6 +899,7 @@ public class SqlControllerTests : TestBase, IDisposable
             _mockConnectionCacheService.Object,
             _mockQueryExecutionOrchestrator.Object,
             _mockStressTestOrchestrator.Object,
+            _mockDatabaseObjectsOrchestrator.Object,
             _mockLogger.Object
         );
 
@@ -890,6 +979,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
@@ -972,6 +1062,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
@@ -1053,6 +1144,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
@@ -1184,6 +1276,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
@@ -1299,6 +1392,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
@@ -1443,6 +1537,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
@@ -1576,6 +1671,7 @@ public class SqlControllerTests : TestBase, IDisposable
                 connectionCacheService,
                 _mockQueryExecutionOrchestrator.Object,
                 _mockStressTestOrchestrator.Object,
+                _mockDatabaseObjectsOrchestrator.Object,
                 _mockLogger.Object
             );
 
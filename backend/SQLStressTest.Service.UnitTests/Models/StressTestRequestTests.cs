@@ -53,6 +53,27 @@ public class StressTestRequestTests
         Assert.NotNull(queryError);
     }
 
+    [Fact]
+    public void Validation_AllowsScenarioWithoutQuery()
+    {
+        // Arrange
+        var request = new StressTestRequest
+        {
+            ConnectionId = "test-conn",
+            Queries = new List<ScenarioQuery>
+            {
+                new() { Name = "select", Query = "SELECT 1", Weight = 70 },
+                new() { Name = "update", Query = "UPDATE t SET c = 1", Weight = 30 }
+            }
+        };
+
+        // Act
+        var results = ValidateModel(request);
+
+        // Assert
+        Assert.Empty(results);
+    }
+
     [Fact]
     public void Validation_EnforcesParallelExecutionsRange()
     {
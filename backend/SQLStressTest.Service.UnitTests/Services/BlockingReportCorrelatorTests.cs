@@ -0,0 +1,92 @@
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class BlockingReportCorrelatorTests
+{
+    private readonly BlockingReportCorrelator _correlator = new();
+
+    private const string DeadlockReport = @"<deadlock>
+  <victim-list><victimProcess id=""process2"" /></victim-list>
+  <process-list>
+    <process id=""process1"" spid=""61"" lockMode=""X""><inputbuf>UPDATE Orders SET Status = 1</inputbuf></process>
+    <process id=""process2"" spid=""62"" lockMode=""X""><inputbuf>UPDATE Customers SET Name = 'x'</inputbuf></process>
+  </process-list>
+  <resource-list />
+</deadlock>";
+
+    private const string BlockedProcessReport = @"<blocked-process-report monitorLoop=""42"">
+  <blocked-process><process id=""process3"" spid=""70"" waitresource=""KEY: 5:72057594043236352 (8194443284a0)"" /></blocked-process>
+  <blocking-process><process status=""sleeping"" spid=""71"" /></blocking-process>
+</blocked-process-report>";
+
+    [Fact]
+    public void FindExecutionNumber_PrefersTheExecutionOfTheDeadlockVictim()
+    {
+        // Arrange
+        _correlator.RecordSession(61, 4);
+        _correlator.RecordSession(62, 9);
+
+        // Act
+        var executionNumber = _correlator.FindExecutionNumber(DeadlockReport);
+
+        // Assert
+        Assert.Equal(9, executionNumber);
+    }
+
+    [Fact]
+    public void FindExecutionNumber_FallsBackToAnotherParticipant_WhenTheVictimRanNoStressTest()
+    {
+        // Arrange
+        _correlator.RecordSession(61, 4);
+
+        // Act
+        var executionNumber = _correlator.FindExecutionNumber(DeadlockReport);
+
+        // Assert
+        Assert.Equal(4, executionNumber);
+    }
+
+    [Fact]
+    public void FindExecutionNumber_PrefersTheBlockedSession_ThenTheLatestExecutionOfTheSession()
+    {
+        // Arrange
+        _correlator.RecordSession(71, 2);
+        _correlator.RecordSession(70, 3);
+        _correlator.RecordSession(70, 8);
+
+        // Act
+        var executionNumber = _correlator.FindExecutionNumber(BlockedProcessReport);
+
+        // Assert
+        Assert.Equal(8, executionNumber);
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("<deadlock")]
+    [InlineData(DeadlockReport)]
+    public void FindExecutionNumber_ReturnsNull_WhenNoStressTestSessionIsInvolved(string? report)
+    {
+        // Arrange
+        _correlator.RecordSession(99, 1);
+
+        // Act
+        var executionNumber = _correlator.FindExecutionNumber(report);
+
+        // Assert
+        Assert.Null(executionNumber);
+    }
+
+    [Fact]
+    public void GetReportField_NamesTheXmlFieldOfEachReportEvent()
+    {
+        // Act & Assert
+        Assert.Equal("xml_report", BlockingReportCorrelator.GetReportField("xml_deadlock_report"));
+        Assert.Equal("blocked_process", BlockingReportCorrelator.GetReportField("blocked_process_report"));
+        Assert.Null(BlockingReportCorrelator.GetReportField("sql_batch_completed"));
+        Assert.False(BlockingReportCorrelator.IsReportEvent("lock_deadlock"));
+    }
+}
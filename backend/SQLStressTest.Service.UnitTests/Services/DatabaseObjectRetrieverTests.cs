@@ -0,0 +1,126 @@
+using Moq;
+using SQLStressTest.Service.Interfaces;
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class DatabaseObjectRetrieverTests
+{
+    private readonly DatabaseObjectRetriever _retriever = new();
+    private readonly Mock<ISqlConnectionWrapper> _mockConnection = new();
+    private readonly Mock<ISqlCommandWrapper> _mockCommand = new();
+    private string? _query;
+
+    private void SetupRows(params object?[][] rows)
+    {
+        var mockReader = new Mock<ISqlDataReaderWrapper>();
+        var index = -1;
+        mockReader.Setup(x => x.ReadAsync()).ReturnsAsync(() => ++index < rows.Length);
+        mockReader.Setup(x => x.GetValue(It.IsAny<int>())).Returns<int>(i => rows[index][i]);
+
+        _mockCommand.Setup(x => x.ExecuteReaderAsync()).ReturnsAsync(mockReader.Object);
+        _mockConnection.Setup(x => x.CreateCommand(It.IsAny<string>()))
+            .Callback<string>(query => _query = query)
+            .Returns(_mockCommand.Object);
+    }
+
+    private static DatabaseObjectsRequest Request(string objectType, string? objectName = null) => new()
+    {
+        ConnectionId = "test-connection",
+        ObjectType = objectType,
+        Database = "Shop",
+        Schema = "Sales",
+        ObjectName = objectName
+    };
+
+    [Fact]
+    public async Task GetObjectsAsync_ListsTheTablesOfTheSchema()
+    {
+        // Arrange
+        SetupRows(new object?[] { "Customers" }, new object?[] { "Orders" });
+
+        // Act
+        var objects = await _retriever.GetObjectsAsync(_mockConnection.Object, Request("Tables"));
+
+        // Assert
+        Assert.Equal(new[] { "Customers", "Orders" }, objects.Select(o => o.Name));
+        Assert.All(objects, o => Assert.Null(o.Detail));
+        Assert.Contains("sys.tables", _query);
+        _mockCommand.Verify(x => x.AddParameter("@schema", "Sales"), Times.Once);
+        _mockCommand.Verify(x => x.AddParameter("@objectName", It.IsAny<object?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task GetObjectsAsync_DescribesColumnsTheWayTheyAreDeclared()
+    {
+        // Arrange
+        SetupRows(
+            new object?[] { "Id", "int", (short)4, (byte)10, (byte)0, false, true },
+            new object?[] { "Name", "nvarchar", (short)100, (byte)0, (byte)0, false, false },
+            new object?[] { "Notes", "varchar", (short)-1, (byte)0, (byte)0, true, false },
+            new object?[] { "Total", "decimal", (short)9, (byte)18, (byte)2, true, false },
+            new object?[] { "ShippedAt", "datetime2", (short)8, (byte)27, (byte)7, true, false });
+
+        // Act
+        var objects = await _retriever.GetObjectsAsync(_mockConnection.Object, Request("columns", "Orders"));
+
+        // Assert
+        Assert.Equal(new[]
+        {
+            "PK, int, not null",
+            "nvarchar(50), not null",
+            "varchar(max), null",
+            "decimal(18,2), null",
+            "datetime2(7), null"
+        }, objects.Select(o => o.Detail));
+        Assert.Equal("nvarchar(50)", objects[1].DataType);
+        Assert.All(objects, o => Assert.Null(o.IsOutput));
+        _mockCommand.Verify(x => x.AddParameter("@schema", "Sales"), Times.Once);
+        _mockCommand.Verify(x => x.AddParameter("@objectName", "Orders"), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetObjectsAsync_MarksOutputParametersAndFunctionTypes()
+    {
+        // Arrange
+        SetupRows(
+            new object?[] { "@customerId", "int", (short)4, (byte)10, (byte)0, false },
+            new object?[] { "@orderCount", "int", (short)4, (byte)10, (byte)0, true });
+
+        // Act
+        var parameters = await _retriever.GetObjectsAsync(_mockConnection.Object, Request("parameters", "usp_CountOrders"));
+
+        SetupRows(
+            new object?[] { "fn_OrderTotal", "FN" },
+            new object?[] { "fn_OpenOrders", "IF" },
+            new object?[] { "fn_OrderLines", "TF" });
+        var functions = await _retriever.GetObjectsAsync(_mockConnection.Object, Request("functions"));
+
+        // Assert
+        Assert.Equal(new[] { "int", "int, output" }, parameters.Select(p => p.Detail));
+        Assert.Equal(new[] { "int", "int" }, parameters.Select(p => p.DataType));
+        Assert.Equal(new bool?[] { false, true }, parameters.Select(p => p.IsOutput));
+        Assert.Equal(new[] { "scalar", "inline table-valued", "table-valued" }, functions.Select(f => f.Detail));
+    }
+
+    [Fact]
+    public async Task GetObjectsAsync_Throws_WhenTheObjectTypeIsUnknown()
+    {
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() =>
+            _retriever.GetObjectsAsync(_mockConnection.Object, Request("triggers")));
+    }
+
+    [Theory]
+    [InlineData("databases", true)]
+    [InlineData("Procedures", true)]
+    [InlineData("triggers", false)]
+    [InlineData(null, false)]
+    public void IsSupportedObjectType_AcceptsTheExplorerNodeTypes(string? objectType, bool expected)
+    {
+        // Act & Assert
+        Assert.Equal(expected, DatabaseObjectRetriever.IsSupportedObjectType(objectType));
+    }
+}
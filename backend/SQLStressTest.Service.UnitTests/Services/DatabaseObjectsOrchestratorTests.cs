@@ -0,0 +1,117 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using SQLStressTest.Service.Interfaces;
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class DatabaseObjectsOrchestratorTests
+{
+    private readonly Mock<IConnectionCacheService> _mockConnectionCacheService = new();
+    private readonly Mock<IConnectionStringBuilder> _mockConnectionStringBuilder = new();
+    private readonly Mock<ISqlConnectionFactory> _mockConnectionFactory = new();
+    private readonly Mock<IDatabaseObjectRetriever> _mockObjectRetriever = new();
+    private readonly Mock<ISqlConnectionWrapper> _mockConnection = new();
+    private readonly DatabaseObjectsOrchestrator _orchestrator;
+
+    public DatabaseObjectsOrchestratorTests()
+    {
+        _mockConnectionStringBuilder.Setup(x => x.Build(It.IsAny<ConnectionConfig>()))
+            .Returns<ConnectionConfig>(config => $"Server={config.Server};Database={config.Database}");
+        _mockConnectionFactory.Setup(x => x.CreateConnection(It.IsAny<string>()))
+            .Returns(_mockConnection.Object);
+        _mockConnection.Setup(x => x.OpenAsync()).Returns(Task.CompletedTask);
+
+        _orchestrator = new DatabaseObjectsOrchestrator(
+            _mockConnectionCacheService.Object,
+            _mockConnectionStringBuilder.Object,
+            _mockConnectionFactory.Object,
+            _mockObjectRetriever.Object,
+            new Mock<ILogger<DatabaseObjectsOrchestrator>>().Object);
+    }
+
+    [Fact]
+    public async Task GetObjectsAsync_ReadsTheObjectsInTheRequestedDatabase()
+    {
+        // Arrange
+        var request = new DatabaseObjectsRequest { ConnectionId = "conn_1", ObjectType = "schemas", Database = "Shop" };
+        _mockConnectionCacheService.Setup(x => x.GetConnectionConfigAsync("conn_1"))
+            .ReturnsAsync(new ConnectionConfig { Id = "conn_1", Server = "localhost", Database = "master" });
+        _mockObjectRetriever.Setup(x => x.GetObjectsAsync(_mockConnection.Object, request))
+            .ReturnsAsync(new List<DatabaseObject> { new() { Name = "dbo" }, new() { Name = "Sales" } });
+
+        // Act
+        var result = await _orchestrator.GetObjectsAsync(request);
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<DatabaseObjectsResponse>(okResult.Value);
+        Assert.True(response.Success);
+        Assert.Equal(new[] { "dbo", "Sales" }, response.Objects!.Select(o => o.Name));
+        _mockConnectionFactory.Verify(x => x.CreateConnection("Server=localhost;Database=Shop"), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetObjectsAsync_ReturnsTheServerError_WhenTheObjectsCannotBeRead()
+    {
+        // Arrange
+        var request = new DatabaseObjectsRequest { ConnectionId = "conn_1", ObjectType = "databases" };
+        _mockConnectionCacheService.Setup(x => x.GetConnectionConfigAsync("conn_1"))
+            .ReturnsAsync(new ConnectionConfig { Id = "conn_1", Server = "localhost" });
+        _mockConnection.Setup(x => x.OpenAsync()).ThrowsAsync(new InvalidOperationException("Login failed for user 'stress'."));
+
+        // Act
+        var result = await _orchestrator.GetObjectsAsync(request);
+
+        // Assert
+        var okResult = Assert.IsType<OkObjectResult>(result);
+        var response = Assert.IsType<DatabaseObjectsResponse>(okResult.Value);
+        Assert.False(response.Success);
+        Assert.Equal("Login failed for user 'stress'.", response.Error);
+    }
+
+    [Fact]
+    public async Task GetObjectsAsync_ReturnsBadRequest_WhenTheConnectionIsUnknown()
+    {
+        // Arrange
+        _mockConnectionCacheService.Setup(x => x.GetConnectionConfigAsync("missing"))
+            .ReturnsAsync((ConnectionConfig?)null);
+
+        // Act
+        var result = await _orchestrator.GetObjectsAsync(
+            new DatabaseObjectsRequest { ConnectionId = "missing", ObjectType = "databases" });
+
+        // Assert
+        var badRequest = Assert.IsType<BadRequestObjectResult>(result);
+        var response = Assert.IsType<DatabaseObjectsResponse>(badRequest.Value);
+        Assert.Equal("Connection 'missing' not found", response.Error);
+    }
+
+    [Theory]
+    [InlineData("triggers", "Shop", "dbo", null, "Unsupported object type 'triggers'")]
+    [InlineData("schemas", null, null, null, "Database is required to list schemas")]
+    [InlineData("tables", "Shop", null, null, "Schema is required to list tables")]
+    [InlineData("columns", "Shop", "dbo", null, "ObjectName is required to list columns")]
+    public async Task GetObjectsAsync_ReturnsBadRequest_WhenTheParentNodeIsIncomplete(
+        string objectType, string? database, string? schema, string? objectName, string expectedError)
+    {
+        // Act
+        var result = await _orchestrator.GetObjectsAsync(new DatabaseObjectsRequest
+        {
+            ConnectionId = "conn_1",
+            ObjectType = objectType,
+            Database = database,
+            Schema = schema,
+            ObjectName = objectName
+        });
+
+        // Assert
+        var badRequest = Assert.IsType<BadRequestObjectResult>(result);
+        var response = Assert.IsType<DatabaseObjectsResponse>(badRequest.Value);
+        Assert.Equal(expectedError, response.Error);
+        _mockConnectionCacheService.Verify(x => x.GetConnectionConfigAsync(It.IsAny<string>()), Times.Never);
+    }
+}
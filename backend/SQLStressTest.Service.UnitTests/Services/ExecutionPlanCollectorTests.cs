@@ -0,0 +1,94 @@
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class ExecutionPlanCollectorTests
+{
+    private static ExecutionPlan CreatePlan(int executionNumber, double durationMs) => new()
+    {
+        ExecutionNumber = executionNumber,
+        DurationMs = durationMs,
+        ShowplanXml = new List<string> { "<ShowPlanXML />" }
+    };
+
+    [Fact]
+    public void Constructor_Throws_WhenModeIsUnknown()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => new ExecutionPlanCollector(new ExecutionPlanCapture { Mode = "all" }));
+    }
+
+    [Fact]
+    public void ShouldCapture_ReturnsFalse_WhenNoCaptureIsConfigured()
+    {
+        // Arrange
+        var collector = new ExecutionPlanCollector(null);
+
+        // Act
+        collector.Add(CreatePlan(1, 10));
+
+        // Assert
+        Assert.False(collector.ShouldCapture(1));
+        Assert.Empty(collector.GetPlans());
+    }
+
+    [Fact]
+    public void ShouldCapture_SamplesEveryIntervalUntilCountIsReached()
+    {
+        // Arrange
+        var collector = new ExecutionPlanCollector(new ExecutionPlanCapture
+        {
+            Mode = ExecutionPlanCapture.SampleMode,
+            SampleInterval = 10,
+            Count = 3
+        });
+
+        // Act
+        var sampled = Enumerable.Range(1, 100).Where(collector.ShouldCapture).ToList();
+
+        // Assert
+        Assert.Equal(new[] { 1, 11, 21 }, sampled);
+    }
+
+    [Fact]
+    public void Add_KeepsTheSlowestPlans_InExecutionOrder()
+    {
+        // Arrange
+        var collector = new ExecutionPlanCollector(new ExecutionPlanCapture
+        {
+            Mode = ExecutionPlanCapture.SlowestMode,
+            Count = 2
+        });
+
+        // Act
+        collector.Add(CreatePlan(1, 50));
+        collector.Add(CreatePlan(2, 10));
+        collector.Add(CreatePlan(3, 300));
+        collector.Add(CreatePlan(4, 20));
+
+        // Assert
+        Assert.True(collector.ShouldCapture(4));
+        Assert.Equal(new[] { 1, 3 }, collector.GetPlans().Select(p => p.ExecutionNumber));
+    }
+
+    [Fact]
+    public void Add_StopsAtCount_InSampleMode()
+    {
+        // Arrange
+        var collector = new ExecutionPlanCollector(new ExecutionPlanCapture
+        {
+            Mode = ExecutionPlanCapture.SampleMode,
+            SampleInterval = 1,
+            Count = 1
+        });
+
+        // Act
+        collector.Add(CreatePlan(1, 10));
+        collector.Add(CreatePlan(2, 500));
+
+        // Assert
+        Assert.Equal(new[] { 1 }, collector.GetPlans().Select(p => p.ExecutionNumber));
+    }
+}
@@ -0,0 +1,121 @@
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class LoadProfileScheduleTests
+{
+    [Fact]
+    public void Constructor_DefaultsToFixedMode_WhenProfileIsNull()
+    {
+        // Act
+        var schedule = new LoadProfileSchedule(null, 4, 100);
+
+        // Assert
+        Assert.Equal(LoadProfile.FixedMode, schedule.Mode);
+        Assert.Equal(100, schedule.ExecutionLimit);
+        Assert.Null(schedule.Duration);
+        Assert.Equal(4, schedule.GetConcurrency(TimeSpan.FromHours(1)));
+        Assert.False(schedule.IsComplete(TimeSpan.FromHours(1)));
+    }
+
+    [Fact]
+    public void Constructor_Throws_WhenProfileIsInvalid()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => new LoadProfileSchedule(new LoadProfile { Mode = "burst" }, 1, 1));
+        Assert.Throws<ArgumentException>(() => new LoadProfileSchedule(new LoadProfile { Mode = LoadProfile.DurationMode }, 1, 1));
+        Assert.Throws<ArgumentException>(() => new LoadProfileSchedule(
+            new LoadProfile { Mode = LoadProfile.RampMode, DurationSeconds = 60, StartWorkers = 10, MaxWorkers = 5 }, 1, 1));
+        Assert.Throws<ArgumentException>(() => new LoadProfileSchedule(
+            new LoadProfile { Mode = LoadProfile.TargetRateMode, DurationSeconds = 60 }, 1, 1));
+        Assert.Throws<ArgumentOutOfRangeException>(() => new LoadProfileSchedule(null, 0, 1));
+    }
+
+    [Fact]
+    public void Duration_IgnoresTotalExecutionsAndCompletesAfterRunLength()
+    {
+        // Arrange
+        var schedule = new LoadProfileSchedule(new LoadProfile { Mode = LoadProfile.DurationMode, DurationSeconds = 600 }, 8, 0);
+
+        // Assert
+        Assert.Null(schedule.ExecutionLimit);
+        Assert.Equal(8, schedule.GetConcurrency(TimeSpan.FromMinutes(5)));
+        Assert.False(schedule.IsComplete(TimeSpan.FromSeconds(599)));
+        Assert.True(schedule.IsComplete(TimeSpan.FromMinutes(10)));
+    }
+
+    [Fact]
+    public void GetConcurrency_SteppedRamp_AddsWorkersEachIntervalUpToMax()
+    {
+        // Arrange
+        var schedule = new LoadProfileSchedule(new LoadProfile
+        {
+            Mode = LoadProfile.RampMode,
+            DurationSeconds = 900,
+            StartWorkers = 5,
+            StepWorkers = 5,
+            StepIntervalSeconds = 30,
+            MaxWorkers = 100
+        }, 1, 1);
+
+        // Act & Assert
+        Assert.Equal(5, schedule.GetConcurrency(TimeSpan.Zero));
+        Assert.Equal(5, schedule.GetConcurrency(TimeSpan.FromSeconds(29)));
+        Assert.Equal(10, schedule.GetConcurrency(TimeSpan.FromSeconds(30)));
+        Assert.Equal(50, schedule.GetConcurrency(TimeSpan.FromSeconds(275)));
+        Assert.Equal(100, schedule.GetConcurrency(TimeSpan.FromMinutes(14)));
+        Assert.Equal(100, schedule.MaxConcurrency);
+    }
+
+    [Fact]
+    public void GetConcurrency_LinearRamp_AddsWorkersGradually()
+    {
+        // Arrange
+        var schedule = new LoadProfileSchedule(new LoadProfile
+        {
+            Mode = LoadProfile.RampMode,
+            RampShape = LoadProfile.LinearRamp,
+            DurationSeconds = 300,
+            StartWorkers = 1,
+            StepWorkers = 10,
+            StepIntervalSeconds = 10,
+            MaxWorkers = 20
+        }, 1, 1);
+
+        // Act & Assert
+        Assert.Equal(1, schedule.GetConcurrency(TimeSpan.Zero));
+        Assert.Equal(6, schedule.GetConcurrency(TimeSpan.FromSeconds(5)));
+        Assert.Equal(20, schedule.GetConcurrency(TimeSpan.FromSeconds(30)));
+    }
+
+    [Fact]
+    public void GetDueExecutions_TargetRate_StartsFirstExecutionImmediately()
+    {
+        // Arrange
+        var schedule = new LoadProfileSchedule(new LoadProfile
+        {
+            Mode = LoadProfile.TargetRateMode,
+            DurationSeconds = 60,
+            TargetRate = 20
+        }, 10, 1);
+
+        // Act & Assert
+        Assert.Equal(20, schedule.TargetRate);
+        Assert.Equal(10, schedule.MaxConcurrency);
+        Assert.Equal(1, schedule.GetDueExecutions(TimeSpan.Zero));
+        Assert.Equal(11, schedule.GetDueExecutions(TimeSpan.FromMilliseconds(500)));
+        Assert.Equal(201, schedule.GetDueExecutions(TimeSpan.FromSeconds(10)));
+    }
+
+    [Fact]
+    public void GetDueExecutions_Throws_WhenModeIsNotTargetRate()
+    {
+        // Arrange
+        var schedule = new LoadProfileSchedule(null, 1, 1);
+
+        // Act & Assert
+        Assert.Throws<InvalidOperationException>(() => schedule.GetDueExecutions(TimeSpan.Zero));
+    }
+}
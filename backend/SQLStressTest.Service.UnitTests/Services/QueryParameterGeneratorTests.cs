@@ -0,0 +1,102 @@
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class QueryParameterGeneratorTests
+{
+    [Fact]
+    public void Constructor_Throws_WhenParametersIsNull()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentNullException>(() => new QueryParameterGenerator(null!));
+    }
+
+    [Fact]
+    public void Constructor_Throws_WhenGeneratorIsUnknown()
+    {
+        // Arrange
+        var parameters = new List<QueryParameter> { new() { Name = "@id", Generator = "fibonacci" } };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => new QueryParameterGenerator(parameters));
+    }
+
+    [Fact]
+    public void Constructor_Throws_WhenLookupValuesAreMissing()
+    {
+        // Arrange
+        var parameters = new List<QueryParameter>
+        {
+            new() { Name = "@customerId", Generator = QueryParameter.LookupQueryGenerator, LookupQuery = "SELECT Id FROM Customers" }
+        };
+        var lookupValues = new Dictionary<string, IReadOnlyList<object?>> { ["@customerId"] = new List<object?>() };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => new QueryParameterGenerator(parameters, lookupValues));
+    }
+
+    [Fact]
+    public void Generate_Sequential_DerivesValueFromExecutionNumber()
+    {
+        // Arrange
+        var generator = new QueryParameterGenerator(new List<QueryParameter>
+        {
+            new() { Name = "id", Generator = QueryParameter.SequentialGenerator, Start = 100, Step = 5 }
+        });
+
+        // Act & Assert
+        Assert.Equal(100L, generator.Generate(1)["@id"]);
+        Assert.Equal(145L, generator.Generate(10)["@id"]);
+    }
+
+    [Fact]
+    public void Generate_RandomRange_StaysWithinInclusiveBounds()
+    {
+        // Arrange
+        var generator = new QueryParameterGenerator(new List<QueryParameter>
+        {
+            new() { Name = "@qty", Generator = QueryParameter.RandomRangeGenerator, Min = 1, Max = 3 }
+        });
+
+        // Act
+        var values = Enumerable.Range(1, 300).Select(n => (long)generator.Generate(n)["@qty"]!).ToHashSet();
+
+        // Assert
+        Assert.Equal(new HashSet<long> { 1, 2, 3 }, values);
+    }
+
+    [Fact]
+    public void Generate_Guid_IsUniquePerExecution()
+    {
+        // Arrange
+        var generator = new QueryParameterGenerator(new List<QueryParameter>
+        {
+            new() { Name = "@key", Generator = QueryParameter.GuidGenerator }
+        });
+
+        // Act & Assert
+        Assert.NotEqual(generator.Generate(1)["@key"], generator.Generate(2)["@key"]);
+    }
+
+    [Fact]
+    public void Generate_CsvListAndLookup_PickFromTheirValues()
+    {
+        // Arrange
+        var parameters = new List<QueryParameter>
+        {
+            new() { Name = "@city", Generator = QueryParameter.CsvListGenerator, Values = new List<string> { "Oslo", "Lima" } },
+            new() { Name = "@customerId", Generator = QueryParameter.LookupQueryGenerator, LookupQuery = "SELECT Id FROM Customers" }
+        };
+        var lookupValues = new Dictionary<string, IReadOnlyList<object?>> { ["@customerId"] = new List<object?> { 7, 9 } };
+        var generator = new QueryParameterGenerator(parameters, lookupValues);
+
+        // Act
+        var values = Enumerable.Range(1, 50).Select(generator.Generate).ToList();
+
+        // Assert
+        Assert.All(values, v => Assert.Contains(v["@city"], new object[] { "Oslo", "Lima" }));
+        Assert.All(values, v => Assert.Contains(v["@customerId"], new object[] { 7, 9 }));
+    }
+}
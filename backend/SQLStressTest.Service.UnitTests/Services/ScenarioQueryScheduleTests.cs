@@ -0,0 +1,92 @@
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class ScenarioQueryScheduleTests
+{
+    private static List<ScenarioQuery> CreateMix() => new()
+    {
+        new ScenarioQuery { Name = "select", Query = "SELECT 1", Weight = 70 },
+        new ScenarioQuery { Name = "update", Query = "UPDATE t SET c = 1", Weight = 20 },
+        new ScenarioQuery { Name = "insert", Query = "INSERT INTO t VALUES (1)", Weight = 10 }
+    };
+
+    [Fact]
+    public void Constructor_Throws_WhenQueriesIsNull()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentNullException>(() => new ScenarioQuerySchedule(null!));
+    }
+
+    [Fact]
+    public void Constructor_Throws_WhenQueriesIsEmpty()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => new ScenarioQuerySchedule(new List<ScenarioQuery>()));
+    }
+
+    [Fact]
+    public void Constructor_Throws_WhenWeightIsNotPositive()
+    {
+        // Arrange
+        var queries = new List<ScenarioQuery> { new() { Name = "a", Query = "SELECT 1", Weight = 0 } };
+
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => new ScenarioQuerySchedule(queries));
+    }
+
+    [Fact]
+    public void CycleLength_IsReducedByCommonDivisor()
+    {
+        // Act
+        var schedule = new ScenarioQuerySchedule(CreateMix());
+
+        // Assert
+        Assert.Equal(10, schedule.CycleLength);
+    }
+
+    [Fact]
+    public void GetQuery_FollowsWeights_ExactlyPerCycle()
+    {
+        // Arrange
+        var schedule = new ScenarioQuerySchedule(CreateMix());
+
+        // Act
+        var counts = Enumerable.Range(1, 100)
+            .Select(schedule.GetQuery)
+            .GroupBy(q => q.Name)
+            .ToDictionary(g => g.Key, g => g.Count());
+
+        // Assert
+        Assert.Equal(70, counts["select"]);
+        Assert.Equal(20, counts["update"]);
+        Assert.Equal(10, counts["insert"]);
+    }
+
+    [Fact]
+    public void GetQuery_InterleavesQueries_WithinACycle()
+    {
+        // Arrange
+        var schedule = new ScenarioQuerySchedule(CreateMix());
+
+        // Act
+        var names = Enumerable.Range(1, 10).Select(n => schedule.GetQuery(n).Name).ToList();
+
+        // Assert
+        Assert.Equal(
+            new[] { "select", "select", "update", "select", "select", "insert", "select", "select", "update", "select" },
+            names);
+    }
+
+    [Fact]
+    public void GetQuery_Throws_WhenExecutionNumberIsNotPositive()
+    {
+        // Arrange
+        var schedule = new ScenarioQuerySchedule(CreateMix());
+
+        // Act & Assert
+        Assert.Throws<ArgumentOutOfRangeException>(() => schedule.GetQuery(0));
+    }
+}
@@ -0,0 +1,91 @@
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class StressTestRegistryTests
+{
+    private readonly StressTestRegistry _registry = new();
+
+    [Fact]
+    public void Register_ReturnsUncancelledToken_AndMarksTestRunning()
+    {
+        // Act
+        var token = _registry.Register("test-1");
+
+        // Assert
+        Assert.False(token.IsCancellationRequested);
+        Assert.True(_registry.IsRunning("test-1"));
+    }
+
+    [Fact]
+    public void Register_Throws_WhenTestIdIsAlreadyRunning()
+    {
+        // Arrange
+        _registry.Register("test-1");
+
+        // Act & Assert
+        Assert.Throws<InvalidOperationException>(() => _registry.Register("test-1"));
+    }
+
+    [Fact]
+    public void Register_Throws_WhenTestIdIsEmpty()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentException>(() => _registry.Register(string.Empty));
+    }
+
+    [Fact]
+    public async Task CancelAsync_ReturnsFalse_WhenTestIsNotRunning()
+    {
+        // Act
+        var result = await _registry.CancelAsync("unknown");
+
+        // Assert
+        Assert.False(result);
+    }
+
+    [Fact]
+    public async Task CancelAsync_CancelsToken_AndWaitsForCompletion()
+    {
+        // Arrange
+        var token = _registry.Register("test-1");
+        var completedAfterCancel = false;
+        var run = Task.Run(async () =>
+        {
+            try
+            {
+                await Task.Delay(Timeout.Infinite, token);
+            }
+            catch (OperationCanceledException)
+            {
+                await Task.Delay(50);
+                completedAfterCancel = true;
+                _registry.Complete("test-1");
+            }
+        });
+
+        // Act
+        var result = await _registry.CancelAsync("test-1");
+
+        // Assert
+        Assert.True(result);
+        Assert.True(token.IsCancellationRequested);
+        Assert.True(completedAfterCancel);
+        Assert.False(_registry.IsRunning("test-1"));
+        await run;
+    }
+
+    [Fact]
+    public void Complete_RemovesTest()
+    {
+        // Arrange
+        _registry.Register("test-1");
+
+        // Act
+        _registry.Complete("test-1");
+
+        // Assert
+        Assert.False(_registry.IsRunning("test-1"));
+    }
+}
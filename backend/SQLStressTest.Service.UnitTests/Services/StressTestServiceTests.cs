@@ -273,6 +273,26 @@ public class StressTestServiceTests : TestBase
             _service.ExecuteStressTestAsync(config, "   ", 1, 1));
     }
 
+    [Fact]
+    public async Task ExecuteScenarioAsync_ThrowsArgumentException_WhenScenarioIsEmptyOrHasEmptyQuery()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+        var scenarioWithEmptyQuery = new List<ScenarioQuery>
+        {
+            new() { Name = "select", Query = "SELECT 1", Weight = 1 },
+            new() { Name = "empty", Query = "   ", Weight = 1 }
+        };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() =>
+            _service.ExecuteScenarioAsync(config, null!, 1, 1));
+        await Assert.ThrowsAsync<ArgumentException>(() =>
+            _service.ExecuteScenarioAsync(config, new List<ScenarioQuery>(), 1, 1));
+        await Assert.ThrowsAsync<ArgumentException>(() =>
+            _service.ExecuteScenarioAsync(config, scenarioWithEmptyQuery, 1, 1));
+    }
+
     [Fact]
     public async Task ExecuteStressTestAsync_CallsConnectionStringBuilder()
     {
@@ -314,7 +334,7 @@ public class StressTestServiceTests : TestBase
                 "SELECT 1",
                 1,
                 1,
-                cancellationTokenSource.Token);
+                cancellationToken: cancellationTokenSource.Token);
         }
         catch (OperationCanceledException)
         {
@@ -349,7 +369,7 @@ public class StressTestServiceTests : TestBase
             "SELECT 1",
             1,
             1,
-            cancellationTokenSource.Token);
+            cancellationToken: cancellationTokenSource.Token);
 
         // Assert
         // The result may be success=false if ExtendedEventsReader fails, or it may complete
@@ -385,7 +405,7 @@ public class StressTestServiceTests : TestBase
                 "SELECT 1",
                 1,
                 1,
-                cancellationTokenSource.Token);
+                cancellationToken: cancellationTokenSource.Token);
             
             // Method completed - data size calculation code path exists
             Assert.NotNull(result);
@@ -0,0 +1,87 @@
+using SQLStressTest.Service.Models;
+using SQLStressTest.Service.Services;
+using Xunit;
+
+namespace SQLStressTest.Service.Tests.Services;
+
+public class WaitStatisticsCalculatorTests
+{
+    private readonly WaitStatisticsCalculator _calculator = new();
+
+    private static WaitStatistic Wait(string waitType, long waitTimeMs, long waitingTasksCount = 1, long signalWaitTimeMs = 0) => new()
+    {
+        WaitType = waitType,
+        WaitTimeMs = waitTimeMs,
+        WaitingTasksCount = waitingTasksCount,
+        SignalWaitTimeMs = signalWaitTimeMs
+    };
+
+    [Fact]
+    public void CalculateDelta_ReturnsTheWaitsOfTheWindow_LongestFirst()
+    {
+        // Arrange
+        var before = new[] { Wait("PAGEIOLATCH_SH", 1000, 10, 5), Wait("LCK_M_X", 200, 2) };
+        var after = new[] { Wait("PAGEIOLATCH_SH", 1300, 40, 25), Wait("LCK_M_X", 900, 5), Wait("WRITELOG", 50, 3) };
+
+        // Act
+        var waits = _calculator.CalculateDelta(before, after);
+
+        // Assert
+        Assert.Equal(new[] { "LCK_M_X", "PAGEIOLATCH_SH", "WRITELOG" }, waits.Select(w => w.WaitType));
+        Assert.Equal(700, waits[0].WaitTimeMs);
+        Assert.Equal(3, waits[0].WaitingTasksCount);
+        Assert.Equal(30, waits[1].WaitingTasksCount);
+        Assert.Equal(20, waits[1].SignalWaitTimeMs);
+        Assert.Equal(50, waits[2].WaitTimeMs);
+    }
+
+    [Fact]
+    public void CalculateDelta_LeavesOutIdleWaitsAndWaitsWithoutNewWaitTime()
+    {
+        // Arrange
+        var before = new[] { Wait("SOS_SCHEDULER_YIELD", 400), Wait("LAZYWRITER_SLEEP", 1000) };
+        var after = new[] { Wait("SOS_SCHEDULER_YIELD", 400), Wait("LAZYWRITER_SLEEP", 9000), Wait("xe_timer_event", 500) };
+
+        // Act
+        var waits = _calculator.CalculateDelta(before, after);
+
+        // Assert
+        Assert.Empty(waits);
+    }
+
+    [Fact]
+    public void CalculateDelta_CountsFromZero_WhenTheStatisticsWereCleared()
+    {
+        // Arrange
+        var before = new[] { Wait("CXPACKET", 5000, 100) };
+        var after = new[] { Wait("CXPACKET", 300, 4) };
+
+        // Act
+        var waits = _calculator.CalculateDelta(before, after);
+
+        // Assert
+        var wait = Assert.Single(waits);
+        Assert.Equal(300, wait.WaitTimeMs);
+        Assert.Equal(4, wait.WaitingTasksCount);
+    }
+
+    [Fact]
+    public void CalculateDelta_KeepsTheTopCount()
+    {
+        // Arrange
+        var after = Enumerable.Range(1, 30).Select(i => Wait($"WAIT_{i:00}", i)).ToList();
+
+        // Act
+        var waits = _calculator.CalculateDelta(Array.Empty<WaitStatistic>(), after, 3);
+
+        // Assert
+        Assert.Equal(new[] { "WAIT_30", "WAIT_29", "WAIT_28" }, waits.Select(w => w.WaitType));
+    }
+
+    [Fact]
+    public void CalculateDelta_Throws_WhenASnapshotIsNull()
+    {
+        // Act & Assert
+        Assert.Throws<ArgumentNullException>(() => _calculator.CalculateDelta(null!, Array.Empty<WaitStatistic>()));
+    }
+}
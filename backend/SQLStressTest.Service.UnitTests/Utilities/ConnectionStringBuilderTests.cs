@@ -1,3 +1,4 @@
+using Microsoft.Data.SqlClient;
 using SQLStressTest.Service.Interfaces;
 using SQLStressTest.Service.Models;
 using SQLStressTest.Service.Utilities;
@@ -98,6 +99,146 @@ public class ConnectionStringBuilderTests : TestBase
         Assert.Contains("master", connectionString);
     }
 
+    [Fact]
+    public void Build_TrustsServerCertificate_WhenNotSpecified()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+
+        // Act
+        var builder = new SqlConnectionStringBuilder(_builder.Build(config));
+
+        // Assert
+        Assert.True(builder.TrustServerCertificate);
+    }
+
+    [Fact]
+    public void Build_AppliesAdvancedOptions()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+        config.Encrypt = "Strict";
+        config.TrustServerCertificate = false;
+        config.ConnectTimeout = 45;
+        config.CommandTimeout = 120;
+        config.ApplicationName = "Load Test";
+        config.ApplicationIntent = "ReadOnly";
+        config.MultiSubnetFailover = true;
+
+        // Act
+        var builder = new SqlConnectionStringBuilder(_builder.Build(config));
+
+        // Assert
+        Assert.Equal(SqlConnectionEncryptOption.Strict, builder.Encrypt);
+        Assert.False(builder.TrustServerCertificate);
+        Assert.Equal(45, builder.ConnectTimeout);
+        Assert.Equal(120, builder.CommandTimeout);
+        Assert.Equal("Load Test", builder.ApplicationName);
+        Assert.Equal(ApplicationIntent.ReadOnly, builder.ApplicationIntent);
+        Assert.True(builder.MultiSubnetFailover);
+    }
+
+    [Fact]
+    public void Build_AppliesAdditionalKeywords_BeforeTheConnectionOptions()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+        config.ApplicationName = "Load Test";
+        config.AdditionalKeywords = new Dictionary<string, string>
+        {
+            ["Packet Size"] = "8192",
+            ["Application Name"] = "Overridden"
+        };
+
+        // Act
+        var builder = new SqlConnectionStringBuilder(_builder.Build(config));
+
+        // Assert
+        Assert.Equal(8192, builder.PacketSize);
+        Assert.Equal("Load Test", builder.ApplicationName);
+    }
+
+    [Fact]
+    public void Build_SkipsAdditionalKeywords_SqlClientDoesNotSupport()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+        config.AdditionalKeywords = new Dictionary<string, string>
+        {
+            ["Provider"] = "SQLOLEDB",
+            ["Packet Size"] = "not a number",
+            ["Workstation ID"] = "loadgen-01"
+        };
+
+        // Act
+        var connectionString = _builder.Build(config);
+        var builder = new SqlConnectionStringBuilder(connectionString);
+
+        // Assert
+        Assert.DoesNotContain("Provider", connectionString);
+        Assert.Equal(8000, builder.PacketSize);
+        Assert.Equal("loadgen-01", builder.WorkstationID);
+    }
+
+    [Fact]
+    public void Build_IgnoresAdditionalKeywords_ThatReplaceServerDatabaseOrLogin()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig(server: "qa-sql", database: "LoadTest", integratedSecurity: false);
+        config.AdditionalKeywords = new Dictionary<string, string>
+        {
+            ["Server"] = "other-sql",
+            ["initial catalog"] = "Other",
+            ["UID"] = "sa",
+            ["Password"] = "leaked",
+            ["Integrated Security"] = "True",
+            ["Packet Size"] = "8192"
+        };
+
+        // Act
+        var builder = new SqlConnectionStringBuilder(_builder.Build(config));
+
+        // Assert
+        Assert.Equal("qa-sql", builder.DataSource);
+        Assert.Equal("LoadTest", builder.InitialCatalog);
+        Assert.Equal("testuser", builder.UserID);
+        Assert.Equal("testpass", builder.Password);
+        Assert.False(builder.IntegratedSecurity);
+        Assert.Equal(8192, builder.PacketSize);
+    }
+
+    [Fact]
+    public void Build_IgnoresEncryptAndApplicationIntent_SqlClientDoesNotKnow()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+        config.Encrypt = "Sometimes";
+        config.ApplicationIntent = "ReadMostly";
+
+        // Act
+        var builder = new SqlConnectionStringBuilder(_builder.Build(config));
+
+        // Assert
+        Assert.Equal(SqlConnectionEncryptOption.Mandatory, builder.Encrypt);
+        Assert.Equal(ApplicationIntent.ReadWrite, builder.ApplicationIntent);
+    }
+
+    [Fact]
+    public void BuildForExtendedEvents_UsesMandatoryEncryption_WhenStrictIsSpecified()
+    {
+        // Arrange
+        var config = CreateTestConnectionConfig();
+        config.Encrypt = "Strict";
+        config.CommandTimeout = 120;
+
+        // Act
+        var connectionString = _builder.BuildForExtendedEvents(config);
+
+        // Assert
+        Assert.Equal(SqlConnectionEncryptOption.Mandatory, new SqlConnectionStringBuilder(connectionString).Encrypt);
+        Assert.DoesNotContain("Command Timeout", connectionString);
+    }
+
     [Fact]
     public void BuildForExtendedEvents_DoesNotIncludeTrustServerCertificate()
     {
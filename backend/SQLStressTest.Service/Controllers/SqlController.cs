@@ -13,6 +13,7 @@ public class SqlController : ControllerBase
     private readonly ILogger<SqlController> _logger;
     private readonly IQueryExecutionOrchestrator _queryExecutionOrchestrator;
     private readonly IStressTestOrchestrator _stressTestOrchestrator;
+    private readonly IDatabaseObjectsOrchestrator _databaseObjectsOrchestrator;
     private readonly IConnectionCacheService _connectionCacheService;
     
     // Static reference for backward compatibility with SqlHub and ExtendedEventsService
@@ -24,12 +25,14 @@ public class SqlController : ControllerBase
         IConnectionCacheService connectionCacheService,
         IQueryExecutionOrchestrator queryExecutionOrchestrator,
         IStressTestOrchestrator stressTestOrchestrator,
+        IDatabaseObjectsOrchestrator databaseObjectsOrchestrator,
         ILogger<SqlController> logger)
     {
         _sqlConnectionService = sqlConnectionService ?? throw new ArgumentNullException(nameof(sqlConnectionService));
         _connectionCacheService = connectionCacheService ?? throw new ArgumentNullException(nameof(connectionCacheService));
         _queryExecutionOrchestrator = queryExecutionOrchestrator ?? throw new ArgumentNullException(nameof(queryExecutionOrchestrator));
         _stressTestOrchestrator = stressTestOrchestrator ?? throw new ArgumentNullException(nameof(stressTestOrchestrator));
+        _databaseObjectsOrchestrator = databaseObjectsOrchestrator ?? throw new ArgumentNullException(nameof(databaseObjectsOrchestrator));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
         
         // Set static reference for backward compatibility
@@ -135,5 +138,20 @@ public class SqlController : ControllerBase
     {
         return await _stressTestOrchestrator.ExecuteStressTestAsync(request, ModelState);
     }
+
+    [HttpPost("stress-test/{testId}/cancel")]
+    public async Task<IActionResult> CancelStressTest(string testId, CancellationToken cancellationToken)
+    {
+        return await _stressTestOrchestrator.CancelStressTestAsync(testId, cancellationToken);
+    }
+
+    /// <summary>
+    /// Lists databases, schemas, objects, columns or parameters for the SQL Servers explorer.
+    /// </summary>
+    [HttpPost("objects")]
+    public async Task<IActionResult> GetDatabaseObjects([FromBody] DatabaseObjectsRequest request)
+    {
+        return await _databaseObjectsOrchestrator.GetObjectsAsync(request);
+    }
 }
 
@@ -0,0 +1,11 @@
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Interfaces;
+
+/// <summary>
+/// Interface for database object retriever.
+/// </summary>
+public interface IDatabaseObjectRetriever
+{
+    Task<List<DatabaseObject>> GetObjectsAsync(ISqlConnectionWrapper connection, DatabaseObjectsRequest request);
+}
@@ -0,0 +1,12 @@
+using Microsoft.AspNetCore.Mvc;
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Interfaces;
+
+/// <summary>
+/// Interface for database objects orchestrator.
+/// </summary>
+public interface IDatabaseObjectsOrchestrator
+{
+    Task<IActionResult> GetObjectsAsync(DatabaseObjectsRequest? request);
+}
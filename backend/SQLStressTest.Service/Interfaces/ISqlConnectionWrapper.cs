@@ -11,6 +11,8 @@ public interface ISqlCommandWrapper : IDisposable
 {
     Task<ISqlDataReaderWrapper> ExecuteReaderAsync();
     Task<object?> ExecuteScalarAsync();
+    void AddParameter(string name, object? value);
+    void Cancel();
 }
 
 public interface ISqlDataReaderWrapper : IDisposable
@@ -20,5 +22,6 @@ public interface ISqlDataReaderWrapper : IDisposable
     bool IsDBNull(int i);
     object? GetValue(int i);
     Task<bool> ReadAsync();
+    Task<bool> NextResultAsync();
 }
 
@@ -10,5 +10,6 @@ namespace SQLStressTest.Service.Interfaces;
 public interface IStressTestOrchestrator
 {
     Task<IActionResult> ExecuteStressTestAsync(StressTestRequest? request, ModelStateDictionary? modelState = null);
+    Task<IActionResult> CancelStressTestAsync(string testId, CancellationToken cancellationToken = default);
 }
 
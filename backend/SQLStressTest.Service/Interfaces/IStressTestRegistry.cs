@@ -0,0 +1,25 @@
+namespace SQLStressTest.Service.Interfaces;
+
+/// <summary>
+/// Interface for the registry of running stress tests.
+/// </summary>
+public interface IStressTestRegistry
+{
+    /// <summary>
+    /// Registers a running test and returns the token that cancels it.
+    /// </summary>
+    CancellationToken Register(string testId);
+
+    /// <summary>
+    /// Marks a test as finished and releases any cancel requests waiting on it.
+    /// </summary>
+    void Complete(string testId);
+
+    /// <summary>
+    /// Cancels a running test and waits until it has finished.
+    /// Returns false if no test with the given ID is running.
+    /// </summary>
+    Task<bool> CancelAsync(string testId, CancellationToken cancellationToken = default);
+
+    bool IsRunning(string testId);
+}
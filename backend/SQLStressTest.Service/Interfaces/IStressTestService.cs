@@ -5,13 +5,38 @@ namespace SQLStressTest.Service.Interfaces;
 public interface IStressTestService
 {
     /// <summary>
-    /// Execute a stress test with parallel query executions and Extended Events monitoring
+    /// Execute a stress test with parallel query executions and Extended Events monitoring.
+    /// When testId is null a new ID is generated. Cancelling the token stops queued executions
+    /// and cancels in-flight queries; the response then has Cancelled set.
+    /// Parameters bind generated values to the query's @param placeholders on every execution.
+    /// A load profile other than the fixed one runs for a duration and ignores totalExecutions.
+    /// A plan capture collects the actual execution plans of a sample or of the slowest executions;
+    /// they are sent as ExecutionPlan messages before the test completes.
     /// </summary>
     Task<StressTestResponse> ExecuteStressTestAsync(
         ConnectionConfig config,
         string query,
         int parallelExecutions,
         int totalExecutions,
+        IReadOnlyList<QueryParameter>? parameters = null,
+        LoadProfile? loadProfile = null,
+        ExecutionPlanCapture? planCapture = null,
+        string? testId = null,
         CancellationToken cancellationToken = default);
-}
 
+    /// <summary>
+    /// Execute a stress test that shares the executions between weighted scenario queries.
+    /// Each execution boundary carries the name of the query it ran, so results can be
+    /// broken down per query by execution number.
+    /// </summary>
+    Task<StressTestResponse> ExecuteScenarioAsync(
+        ConnectionConfig config,
+        IReadOnlyList<ScenarioQuery> queries,
+        int parallelExecutions,
+        int totalExecutions,
+        IReadOnlyList<QueryParameter>? parameters = null,
+        LoadProfile? loadProfile = null,
+        ExecutionPlanCapture? planCapture = null,
+        string? testId = null,
+        CancellationToken cancellationToken = default);
+}
@@ -10,5 +10,39 @@ public class ConnectionConfig
     public string? Password { get; set; }
     public bool IntegratedSecurity { get; set; }
     public int? Port { get; set; }
+
+    /// <summary>
+    /// Encrypt keyword: Optional, Mandatory or Strict. SqlClient's default (Mandatory) when not set.
+    /// </summary>
+    public string? Encrypt { get; set; }
+
+    /// <summary>
+    /// Whether to trust the server certificate without validating it. Trusted when not set.
+    /// </summary>
+    public bool? TrustServerCertificate { get; set; }
+
+    /// <summary>
+    /// Seconds to wait for a connection to open. 30 when not set.
+    /// </summary>
+    public int? ConnectTimeout { get; set; }
+
+    /// <summary>
+    /// Default seconds a command may run before it times out. SqlClient's default (30) when not set.
+    /// </summary>
+    public int? CommandTimeout { get; set; }
+
+    public string? ApplicationName { get; set; }
+
+    /// <summary>
+    /// ApplicationIntent keyword: ReadWrite or ReadOnly.
+    /// </summary>
+    public string? ApplicationIntent { get; set; }
+
+    public bool? MultiSubnetFailover { get; set; }
+
+    /// <summary>
+    /// Further SqlClient connection string keywords and their values, e.g. "Packet Size" = "8192".
+    /// </summary>
+    public Dictionary<string, string>? AdditionalKeywords { get; set; }
 }
 
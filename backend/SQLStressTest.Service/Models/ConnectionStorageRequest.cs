@@ -59,5 +59,13 @@ public class ConnectionConfigDto
     public string? Password { get; set; }
     public bool IntegratedSecurity { get; set; }
     public int? Port { get; set; }
+    public string? Encrypt { get; set; }
+    public bool? TrustServerCertificate { get; set; }
+    public int? ConnectTimeout { get; set; }
+    public int? CommandTimeout { get; set; }
+    public string? ApplicationName { get; set; }
+    public string? ApplicationIntent { get; set; }
+    public bool? MultiSubnetFailover { get; set; }
+    public Dictionary<string, string>? AdditionalKeywords { get; set; }
 }
 
@@ -0,0 +1,25 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// A database, schema, object, column or parameter shown in the SQL Servers explorer.
+/// </summary>
+public class DatabaseObject
+{
+    public string Name { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Short description shown next to the name, e.g. "PK, int, not null" for a column
+    /// or "table-valued" for a function
+    /// </summary>
+    public string? Detail { get; set; }
+
+    /// <summary>
+    /// Declared type of a column or parameter, e.g. nvarchar(50)
+    /// </summary>
+    public string? DataType { get; set; }
+
+    /// <summary>
+    /// Whether a parameter is an OUTPUT parameter; null for everything but parameters
+    /// </summary>
+    public bool? IsOutput { get; set; }
+}
@@ -0,0 +1,34 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// Request for the children of a node in the SQL Servers explorer, e.g. the schemas of a database
+/// or the columns of a table.
+/// </summary>
+public class DatabaseObjectsRequest
+{
+    [Required(ErrorMessage = "ConnectionId is required", AllowEmptyStrings = false)]
+    public string ConnectionId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Kind of objects to list: databases, schemas, tables, views, procedures, functions, columns or parameters
+    /// </summary>
+    [Required(ErrorMessage = "ObjectType is required", AllowEmptyStrings = false)]
+    public string ObjectType { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Database to read the objects from. Required for everything but databases.
+    /// </summary>
+    public string? Database { get; set; }
+
+    /// <summary>
+    /// Schema of the objects. Required for tables, views, procedures, functions, columns and parameters.
+    /// </summary>
+    public string? Schema { get; set; }
+
+    /// <summary>
+    /// Table or view whose columns, or procedure or function whose parameters are listed
+    /// </summary>
+    public string? ObjectName { get; set; }
+}
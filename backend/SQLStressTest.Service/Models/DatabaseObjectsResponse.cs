@@ -0,0 +1,8 @@
+namespace SQLStressTest.Service.Models;
+
+public class DatabaseObjectsResponse
+{
+    public bool Success { get; set; }
+    public List<DatabaseObject>? Objects { get; set; }
+    public string? Error { get; set; }
+}
@@ -35,5 +35,15 @@ public class ExecutionBoundary
     /// Timestamp in milliseconds (Unix timestamp) for frontend compatibility
     /// </summary>
     public long TimestampMs { get; set; }
+    
+    /// <summary>
+    /// Name of the scenario query run by this execution
+    /// </summary>
+    public string? QueryName { get; set; }
+
+    /// <summary>
+    /// Parameter values bound for this execution, keyed by @name (start boundary only)
+    /// </summary>
+    public Dictionary<string, string?>? Parameters { get; set; }
 }
 
@@ -0,0 +1,43 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// Actual execution plan of one stress test execution, as returned by SET STATISTICS XML ON.
+/// Sent once the run decides to keep it, so a client can store it with the run.
+/// </summary>
+public class ExecutionPlan
+{
+    /// <summary>
+    /// Execution number (1-based index)
+    /// </summary>
+    public int ExecutionNumber { get; set; }
+
+    /// <summary>
+    /// Execution ID (GUID from context_info)
+    /// </summary>
+    public Guid ExecutionId { get; set; }
+
+    /// <summary>
+    /// Scenario query run by the execution
+    /// </summary>
+    public string? QueryName { get; set; }
+
+    /// <summary>
+    /// Wall-clock duration of the execution in milliseconds, including reading the results
+    /// </summary>
+    public double DurationMs { get; set; }
+
+    /// <summary>
+    /// One ShowPlanXML document per statement of the query
+    /// </summary>
+    public List<string> ShowplanXml { get; set; } = new();
+
+    /// <summary>
+    /// Timestamp when the execution finished
+    /// </summary>
+    public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Timestamp in milliseconds (Unix timestamp) for frontend compatibility
+    /// </summary>
+    public long TimestampMs { get; set; }
+}
@@ -0,0 +1,27 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// Which executions of a stress test collect their actual execution plan. The sample mode
+/// captures every SampleInterval-th execution until Count plans are collected; the slowest
+/// mode captures every execution and keeps the Count slowest, which adds the plan overhead
+/// to the whole run.
+/// </summary>
+public class ExecutionPlanCapture
+{
+    public const string SampleMode = "sample";
+    public const string SlowestMode = "slowest";
+
+    public static readonly IReadOnlyList<string> Modes = new[] { SampleMode, SlowestMode };
+
+    public string Mode { get; set; } = SampleMode;
+
+    /// <summary>
+    /// Executions between two sampled plans, starting with the first execution.
+    /// </summary>
+    public int SampleInterval { get; set; } = 10;
+
+    /// <summary>
+    /// Plans kept for the run.
+    /// </summary>
+    public int Count { get; set; } = 5;
+}
@@ -36,6 +36,7 @@ public class ExtendedEventData
     /// - wait_info: wait_type, wait_duration_ms, signal_duration_ms, etc.
     /// - lock events: lock_mode, database_name, object_id, etc.
     /// - deadlock events: deadlock_id, victim_process, etc.
+    /// - xml_deadlock_report: xml_report (deadlock graph); blocked_process_report: blocked_process (report XML), duration
     /// </summary>
     public Dictionary<string, object?> EventFields { get; set; } = new Dictionary<string, object?>();
     
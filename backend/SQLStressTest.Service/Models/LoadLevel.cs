@@ -0,0 +1,23 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// Concurrency of a running stress test, sent whenever it changes so the client can overlay
+/// the load level on its performance graph.
+/// </summary>
+public class LoadLevel
+{
+    /// <summary>
+    /// Workers running, or executions in flight for a target-rate profile
+    /// </summary>
+    public int Concurrency { get; set; }
+
+    /// <summary>
+    /// Timestamp when the load level changed
+    /// </summary>
+    public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Timestamp in milliseconds (Unix timestamp) for frontend compatibility
+    /// </summary>
+    public long TimestampMs { get; set; }
+}
@@ -0,0 +1,53 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// How load is applied over the course of a stress test. The fixed mode runs TotalExecutions
+/// with ParallelExecutions workers; the other modes run for DurationSeconds.
+/// </summary>
+public class LoadProfile
+{
+    public const string FixedMode = "fixed";
+    public const string DurationMode = "duration";
+    public const string RampMode = "ramp";
+    public const string TargetRateMode = "targetRate";
+
+    public const string SteppedRamp = "stepped";
+    public const string LinearRamp = "linear";
+
+    public static readonly IReadOnlyList<string> Modes = new[] { FixedMode, DurationMode, RampMode, TargetRateMode };
+
+    public string Mode { get; set; } = FixedMode;
+
+    /// <summary>
+    /// Run length of the duration, ramp and target-rate modes.
+    /// </summary>
+    public int DurationSeconds { get; set; }
+
+    /// <summary>
+    /// Workers at the start of a ramp.
+    /// </summary>
+    public int StartWorkers { get; set; } = 1;
+
+    /// <summary>
+    /// Workers added every StepIntervalSeconds of a ramp.
+    /// </summary>
+    public int StepWorkers { get; set; } = 1;
+
+    public int StepIntervalSeconds { get; set; } = 30;
+
+    /// <summary>
+    /// Workers at which a ramp levels off.
+    /// </summary>
+    public int MaxWorkers { get; set; } = 1;
+
+    /// <summary>
+    /// "stepped" adds StepWorkers at once every interval; "linear" adds them gradually.
+    /// </summary>
+    public string RampShape { get; set; } = SteppedRamp;
+
+    /// <summary>
+    /// Executions started per second in the target-rate mode. ParallelExecutions caps how many
+    /// of them may be in flight.
+    /// </summary>
+    public double TargetRate { get; set; }
+}
@@ -0,0 +1,69 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// A @param placeholder in the stress test query text and the generator that binds
+/// a value to it for every execution.
+/// </summary>
+public class QueryParameter
+{
+    public const string SequentialGenerator = "sequential";
+    public const string RandomRangeGenerator = "randomRange";
+    public const string GuidGenerator = "guid";
+    public const string CsvListGenerator = "csvList";
+    public const string LookupQueryGenerator = "lookupQuery";
+
+    public static readonly IReadOnlyList<string> Generators = new[]
+    {
+        SequentialGenerator,
+        RandomRangeGenerator,
+        GuidGenerator,
+        CsvListGenerator,
+        LookupQueryGenerator
+    };
+
+    /// <summary>
+    /// Placeholder name, with or without the leading '@'.
+    /// </summary>
+    [Required(ErrorMessage = "Parameter name is required", AllowEmptyStrings = false)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "Parameter generator is required", AllowEmptyStrings = false)]
+    public string Generator { get; set; } = SequentialGenerator;
+
+    /// <summary>
+    /// First value of a sequential generator (bound to execution 1).
+    /// </summary>
+    public long Start { get; set; } = 1;
+
+    /// <summary>
+    /// Increment between executions of a sequential generator.
+    /// </summary>
+    public long Step { get; set; } = 1;
+
+    /// <summary>
+    /// Inclusive lower bound of a random range generator.
+    /// </summary>
+    public long Min { get; set; }
+
+    /// <summary>
+    /// Inclusive upper bound of a random range generator.
+    /// </summary>
+    public long Max { get; set; }
+
+    /// <summary>
+    /// Values a csvList generator picks from. The extension reads them from the chosen CSV file.
+    /// </summary>
+    public List<string>? Values { get; set; }
+
+    /// <summary>
+    /// Query run once before the test; a lookupQuery generator samples from its first column.
+    /// </summary>
+    public string? LookupQuery { get; set; }
+
+    /// <summary>
+    /// Name as bound on the SQL command, always with the leading '@'.
+    /// </summary>
+    public string ParameterName => Name.StartsWith('@') ? Name : "@" + Name;
+}
@@ -0,0 +1,22 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// A named query in a stress test scenario. Executions are shared between the
+/// scenario's queries in proportion to their weights.
+/// </summary>
+public class ScenarioQuery
+{
+    [Required(ErrorMessage = "Scenario query name is required", AllowEmptyStrings = false)]
+    public string Name { get; set; } = string.Empty;
+
+    [Required(ErrorMessage = "Scenario query text is required", AllowEmptyStrings = false)]
+    public string Query { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Relative weight of the query, e.g. 70/20/10 for a 70% / 20% / 10% mix.
+    /// </summary>
+    [Range(1, 10000, ErrorMessage = "Scenario query weight must be between 1 and 10000")]
+    public int Weight { get; set; } = 1;
+}
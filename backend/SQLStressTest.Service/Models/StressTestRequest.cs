@@ -2,14 +2,40 @@ using System.ComponentModel.DataAnnotations;
 
 namespace SQLStressTest.Service.Models;
 
-public class StressTestRequest
+public class StressTestRequest : IValidatableObject
 {
     [Required(ErrorMessage = "ConnectionId is required", AllowEmptyStrings = false)]
     public string ConnectionId { get; set; } = string.Empty;
     
-    [Required(ErrorMessage = "Query is required", AllowEmptyStrings = false)]
+    /// <summary>
+    /// Query to run for every execution. Required unless Queries describes a scenario.
+    /// </summary>
     public string Query { get; set; } = string.Empty;
-    
+
+    /// <summary>
+    /// Optional weighted scenario. When provided, executions are shared between these
+    /// queries by weight and Query is ignored.
+    /// </summary>
+    public List<ScenarioQuery>? Queries { get; set; }
+
+    /// <summary>
+    /// Optional generators for the @param placeholders in the query text. A value is bound
+    /// to every placeholder on each execution.
+    /// </summary>
+    public List<QueryParameter>? Parameters { get; set; }
+
+    /// <summary>
+    /// Optional load profile. Null or the fixed mode runs TotalExecutions; the duration, ramp
+    /// and target-rate modes run for a set time instead.
+    /// </summary>
+    public LoadProfile? LoadProfile { get; set; }
+
+    /// <summary>
+    /// Optional capture of actual execution plans for a sample or the slowest executions.
+    /// Null captures no plans.
+    /// </summary>
+    public ExecutionPlanCapture? PlanCapture { get; set; }
+
     [Range(1, 1000, ErrorMessage = "ParallelExecutions must be between 1 and 1000")]
     public int ParallelExecutions { get; set; } = 1;
     
@@ -21,5 +47,17 @@ public class StressTestRequest
     /// If provided, queries will be executed in this database context.
     /// </summary>
     public string? Database { get; set; }
-}
 
+    public IEnumerable<ValidationResult> Validate(ValidationContext validationContext)
+    {
+        if (Queries is { Count: > 0 })
+        {
+            yield break;
+        }
+
+        if (string.IsNullOrWhiteSpace(Query))
+        {
+            yield return new ValidationResult("Query is required", new[] { nameof(Query) });
+        }
+    }
+}
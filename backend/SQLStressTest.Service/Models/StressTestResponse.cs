@@ -6,5 +6,6 @@ public class StressTestResponse
     public string? TestId { get; set; }
     public string? Error { get; set; }
     public string? Message { get; set; }
+    public bool Cancelled { get; set; }
 }
 
@@ -0,0 +1,28 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// Totals of one wait type from sys.dm_os_wait_stats, either as read from the server
+/// or as the difference between the snapshots before and after a stress test.
+/// </summary>
+public class WaitStatistic
+{
+    /// <summary>
+    /// Wait type, e.g. PAGEIOLATCH_SH or LCK_M_X
+    /// </summary>
+    public string WaitType { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Number of waits of this type
+    /// </summary>
+    public long WaitingTasksCount { get; set; }
+
+    /// <summary>
+    /// Total wait time in milliseconds, including the signal wait time
+    /// </summary>
+    public long WaitTimeMs { get; set; }
+
+    /// <summary>
+    /// Time in milliseconds between the wait being signalled and the task running again
+    /// </summary>
+    public long SignalWaitTimeMs { get; set; }
+}
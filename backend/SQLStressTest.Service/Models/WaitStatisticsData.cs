@@ -0,0 +1,28 @@
+namespace SQLStressTest.Service.Models;
+
+/// <summary>
+/// Wait statistics accumulated on the server during a stress test, sent when the run ends.
+/// sys.dm_os_wait_stats is server-wide, so waits of other workloads in the window are included.
+/// </summary>
+public class WaitStatisticsData
+{
+    /// <summary>
+    /// Timestamp of the snapshot taken before the first execution
+    /// </summary>
+    public DateTime StartTime { get; set; }
+
+    /// <summary>
+    /// Timestamp of the snapshot taken after the last execution
+    /// </summary>
+    public DateTime EndTime { get; set; }
+
+    /// <summary>
+    /// Wait types with wait time in the window, longest total wait time first
+    /// </summary>
+    public List<WaitStatistic> Waits { get; set; } = new();
+
+    /// <summary>
+    /// Timestamp in milliseconds (Unix timestamp) for frontend compatibility
+    /// </summary>
+    public long TimestampMs { get; set; }
+}
@@ -181,6 +181,7 @@ builder.Services.AddSingleton<IHeartbeatSender, HeartbeatSender>();
 builder.Services.AddSingleton<IServerVersionRetriever, ServerVersionRetriever>();
 builder.Services.AddSingleton<IUserInfoRetriever, UserInfoRetriever>();
 builder.Services.AddSingleton<IDatabaseListRetriever, DatabaseListRetriever>();
+builder.Services.AddSingleton<IDatabaseObjectRetriever, DatabaseObjectRetriever>();
 
 // Services with dependencies - scoped for per-request instances
 builder.Services.AddScoped<IQueryRequestValidator, QueryRequestValidator>();
@@ -190,6 +191,8 @@ builder.Services.AddScoped<IConnectionTester, ConnectionTester>();
 builder.Services.AddScoped<IStorageRequestHandler, StorageRequestHandler>();
 
 // Singleton services that maintain state
+// StressTestRegistry tracks running tests across requests so they can be cancelled
+builder.Services.AddSingleton<IStressTestRegistry, StressTestRegistry>();
 builder.Services.AddSingleton<IConnectionCacheService, ConnectionCacheService>(sp =>
 {
     var storageService = sp.GetService<IStorageService>();
@@ -207,13 +210,25 @@ builder.Services.AddScoped<IQueryExecutionOrchestrator, QueryExecutionOrchestrat
     return new QueryExecutionOrchestrator(sqlConnectionService, connectionCacheService, requestValidator, logger);
 });
 
+builder.Services.AddScoped<IDatabaseObjectsOrchestrator, DatabaseObjectsOrchestrator>(sp =>
+{
+    var connectionCacheService = sp.GetRequiredService<IConnectionCacheService>();
+    var connectionStringBuilder = sp.GetRequiredService<IConnectionStringBuilder>();
+    var connectionFactory = sp.GetRequiredService<ISqlConnectionFactory>();
+    var objectRetriever = sp.GetRequiredService<IDatabaseObjectRetriever>();
+    var logger = sp.GetRequiredService<ILogger<DatabaseObjectsOrchestrator>>();
+    return new DatabaseObjectsOrchestrator(connectionCacheService, connectionStringBuilder, connectionFactory, objectRetriever, logger);
+});
+
 builder.Services.AddScoped<IStressTestOrchestrator, StressTestOrchestrator>(sp =>
 {
-    var stressTestService = sp.GetRequiredService<IStressTestService>();
+    var scopeFactory = sp.GetRequiredService<IServiceScopeFactory>();
     var connectionCacheService = sp.GetRequiredService<IConnectionCacheService>();
     var requestValidator = sp.GetRequiredService<IQueryRequestValidator>();
+    var stressTestRegistry = sp.GetRequiredService<IStressTestRegistry>();
+    var messageSender = sp.GetRequiredService<SignalRMessageSender>();
     var logger = sp.GetRequiredService<ILogger<StressTestOrchestrator>>();
-    return new StressTestOrchestrator(stressTestService, connectionCacheService, requestValidator, logger);
+    return new StressTestOrchestrator(scopeFactory, connectionCacheService, requestValidator, stressTestRegistry, messageSender, logger);
 });
 
 // Scoped service for connection lifecycle
@@ -0,0 +1,92 @@
+using System.Collections.Concurrent;
+using System.Xml;
+using System.Xml.Linq;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Finds the stress test execution a deadlock or blocked process report belongs to.
+/// The reports are raised by the server's deadlock and blocking monitors, not by the sessions
+/// involved, so they carry no SQLSTRESSTEST_ context_info. Instead, the sessions named in the
+/// report are matched to the executions whose events were last seen on those sessions.
+/// Single Responsibility: Correlating blocking reports to executions only.
+/// </summary>
+public class BlockingReportCorrelator
+{
+    public const string DeadlockReportEvent = "xml_deadlock_report";
+    public const string BlockedProcessReportEvent = "blocked_process_report";
+
+    // Event field holding the XML report of each event
+    private static readonly Dictionary<string, string> ReportFields = new(StringComparer.Ordinal)
+    {
+        [DeadlockReportEvent] = "xml_report",
+        [BlockedProcessReportEvent] = "blocked_process"
+    };
+
+    private readonly ConcurrentDictionary<int, int> _sessionExecutions = new();
+
+    /// <summary>
+    /// Whether the event is a report this correlator attributes to executions.
+    /// </summary>
+    public static bool IsReportEvent(string eventName) => ReportFields.ContainsKey(eventName);
+
+    /// <summary>
+    /// The name of the event field holding the XML report, or null for other events.
+    /// </summary>
+    public static string? GetReportField(string eventName) =>
+        ReportFields.TryGetValue(eventName, out var field) ? field : null;
+
+    /// <summary>
+    /// Records that an event of the execution was raised on the session.
+    /// Pooled connections move between executions, so the latest execution wins.
+    /// </summary>
+    public void RecordSession(int sessionId, int executionNumber)
+    {
+        _sessionExecutions[sessionId] = executionNumber;
+    }
+
+    /// <summary>
+    /// Returns the execution of a session named in the report, or null when none of them ran a stress test.
+    /// The deadlock victim is preferred, then the sessions in the order they appear,
+    /// which puts the blocked session of a blocked process report before the blocking one.
+    /// </summary>
+    public int? FindExecutionNumber(string? reportXml)
+    {
+        if (string.IsNullOrWhiteSpace(reportXml))
+        {
+            return null;
+        }
+
+        XDocument report;
+        try
+        {
+            report = XDocument.Parse(reportXml);
+        }
+        catch (XmlException)
+        {
+            return null;
+        }
+
+        var victimIds = report.Descendants("victimProcess")
+            .Select(v => (string?)v.Attribute("id"))
+            .Concat(report.Descendants("deadlock").Select(d => (string?)d.Attribute("victim")))
+            .Where(id => !string.IsNullOrEmpty(id))
+            .ToHashSet(StringComparer.Ordinal);
+
+        var sessionIds = report.Descendants("process")
+            .OrderBy(p => victimIds.Contains((string?)p.Attribute("id") ?? string.Empty) ? 0 : 1)
+            .Select(p => int.TryParse((string?)p.Attribute("spid"), out var spid) ? spid : (int?)null)
+            .Where(spid => spid.HasValue)
+            .Select(spid => spid!.Value);
+
+        foreach (var sessionId in sessionIds)
+        {
+            if (_sessionExecutions.TryGetValue(sessionId, out var executionNumber))
+            {
+                return executionNumber;
+            }
+        }
+
+        return null;
+    }
+}
@@ -348,7 +348,15 @@ public class ConnectionCacheService : IConnectionCacheService
             Username = dto.Username,
             Password = dto.Password,
             IntegratedSecurity = dto.IntegratedSecurity,
-            Port = dto.Port
+            Port = dto.Port,
+            Encrypt = dto.Encrypt,
+            TrustServerCertificate = dto.TrustServerCertificate,
+            ConnectTimeout = dto.ConnectTimeout,
+            CommandTimeout = dto.CommandTimeout,
+            ApplicationName = dto.ApplicationName,
+            ApplicationIntent = dto.ApplicationIntent,
+            MultiSubnetFailover = dto.MultiSubnetFailover,
+            AdditionalKeywords = dto.AdditionalKeywords
         };
     }
 }
@@ -0,0 +1,206 @@
+using SQLStressTest.Service.Interfaces;
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Service responsible for reading databases, schemas, objects, columns and parameters from the catalog views.
+/// Runs in the database of the connection, so the caller connects to the requested database.
+/// Single Responsibility: Object explorer metadata retrieval only.
+/// </summary>
+public class DatabaseObjectRetriever : IDatabaseObjectRetriever
+{
+    public const string Databases = "databases";
+    public const string Schemas = "schemas";
+    public const string Tables = "tables";
+    public const string Views = "views";
+    public const string Procedures = "procedures";
+    public const string Functions = "functions";
+    public const string Columns = "columns";
+    public const string Parameters = "parameters";
+
+    // Object types that belong to a schema, with the catalog query listing them
+    private static readonly Dictionary<string, string> SchemaObjectQueries = new(StringComparer.OrdinalIgnoreCase)
+    {
+        [Tables] = "SELECT name FROM sys.tables WHERE schema_id = SCHEMA_ID(@schema) AND is_ms_shipped = 0 ORDER BY name",
+        [Views] = "SELECT name FROM sys.views WHERE schema_id = SCHEMA_ID(@schema) AND is_ms_shipped = 0 ORDER BY name",
+        [Procedures] = "SELECT name FROM sys.procedures WHERE schema_id = SCHEMA_ID(@schema) AND is_ms_shipped = 0 ORDER BY name",
+        [Functions] = "SELECT name, type FROM sys.objects WHERE schema_id = SCHEMA_ID(@schema) AND type IN ('FN', 'FS', 'IF', 'TF', 'FT') AND is_ms_shipped = 0 ORDER BY name"
+    };
+
+    // Schemas holding at least one table, view, procedure or function
+    private const string SchemasQuery = @"
+SELECT s.name
+FROM sys.schemas s
+WHERE EXISTS (
+    SELECT 1 FROM sys.objects o
+    WHERE o.schema_id = s.schema_id
+      AND o.is_ms_shipped = 0
+      AND o.type IN ('U', 'V', 'P', 'PC', 'FN', 'FS', 'IF', 'TF', 'FT'))
+ORDER BY s.name";
+
+    private const string ColumnsQuery = @"
+SELECT c.name, TYPE_NAME(c.user_type_id), c.max_length, c.precision, c.scale, c.is_nullable,
+    CAST(CASE WHEN EXISTS (
+        SELECT 1 FROM sys.index_columns ic
+        JOIN sys.indexes i ON i.object_id = ic.object_id AND i.index_id = ic.index_id
+        WHERE i.is_primary_key = 1 AND ic.object_id = c.object_id AND ic.column_id = c.column_id)
+    THEN 1 ELSE 0 END AS bit)
+FROM sys.columns c
+WHERE c.object_id = OBJECT_ID(QUOTENAME(@schema) + '.' + QUOTENAME(@objectName))
+ORDER BY c.column_id";
+
+    // parameter_id 0 is the return value of a scalar function
+    private const string ParametersQuery = @"
+SELECT p.name, TYPE_NAME(p.user_type_id), p.max_length, p.precision, p.scale, p.is_output
+FROM sys.parameters p
+WHERE p.object_id = OBJECT_ID(QUOTENAME(@schema) + '.' + QUOTENAME(@objectName)) AND p.parameter_id > 0
+ORDER BY p.parameter_id";
+
+    private static readonly HashSet<string> ObjectTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        Databases, Schemas, Tables, Views, Procedures, Functions, Columns, Parameters
+    };
+
+    public static bool IsSupportedObjectType(string? objectType)
+    {
+        return objectType != null && ObjectTypes.Contains(objectType);
+    }
+
+    /// <summary>
+    /// Lists the objects of the requested type. Errors are not caught, so the explorer can show them on the node.
+    /// </summary>
+    public async Task<List<DatabaseObject>> GetObjectsAsync(ISqlConnectionWrapper connection, DatabaseObjectsRequest request)
+    {
+        var objectType = request.ObjectType.ToLowerInvariant();
+        switch (objectType)
+        {
+            case Databases:
+                return await ReadObjectsAsync(connection, "SELECT name FROM sys.databases WHERE state = 0 ORDER BY name", request, ReadName); // state 0 = ONLINE
+            case Schemas:
+                return await ReadObjectsAsync(connection, SchemasQuery, request, ReadName);
+            case Functions:
+                return await ReadObjectsAsync(connection, SchemaObjectQueries[Functions], request, ReadFunction);
+            case Columns:
+                return await ReadObjectsAsync(connection, ColumnsQuery, request, ReadColumn);
+            case Parameters:
+                return await ReadObjectsAsync(connection, ParametersQuery, request, ReadParameter);
+            default:
+                if (SchemaObjectQueries.TryGetValue(objectType, out var query))
+                {
+                    return await ReadObjectsAsync(connection, query, request, ReadName);
+                }
+                throw new ArgumentException($"Unsupported object type '{request.ObjectType}'", nameof(request));
+        }
+    }
+
+    private static async Task<List<DatabaseObject>> ReadObjectsAsync(
+        ISqlConnectionWrapper connection,
+        string query,
+        DatabaseObjectsRequest request,
+        Func<ISqlDataReaderWrapper, DatabaseObject> readObject)
+    {
+        var objects = new List<DatabaseObject>();
+        using var command = connection.CreateCommand(query);
+        if (query.Contains("@schema"))
+        {
+            command.AddParameter("@schema", request.Schema);
+        }
+        if (query.Contains("@objectName"))
+        {
+            command.AddParameter("@objectName", request.ObjectName);
+        }
+
+        using var reader = await command.ExecuteReaderAsync();
+        while (await reader.ReadAsync())
+        {
+            objects.Add(readObject(reader));
+        }
+        return objects;
+    }
+
+    private static DatabaseObject ReadName(ISqlDataReaderWrapper reader)
+    {
+        return new DatabaseObject { Name = reader.GetValue(0)?.ToString() ?? string.Empty };
+    }
+
+    private static DatabaseObject ReadFunction(ISqlDataReaderWrapper reader)
+    {
+        var type = reader.GetValue(1)?.ToString()?.Trim();
+        return new DatabaseObject
+        {
+            Name = reader.GetValue(0)?.ToString() ?? string.Empty,
+            Detail = type switch
+            {
+                "IF" => "inline table-valued",
+                "TF" or "FT" => "table-valued",
+                _ => "scalar"
+            }
+        };
+    }
+
+    private static DatabaseObject ReadColumn(ISqlDataReaderWrapper reader)
+    {
+        var dataType = FormatDataType(reader, 1);
+        var details = new List<string>();
+        if (Convert.ToBoolean(reader.GetValue(6)))
+        {
+            details.Add("PK");
+        }
+        details.Add(dataType);
+        details.Add(Convert.ToBoolean(reader.GetValue(5)) ? "null" : "not null");
+        return new DatabaseObject
+        {
+            Name = reader.GetValue(0)?.ToString() ?? string.Empty,
+            Detail = string.Join(", ", details),
+            DataType = dataType
+        };
+    }
+
+    private static DatabaseObject ReadParameter(ISqlDataReaderWrapper reader)
+    {
+        var dataType = FormatDataType(reader, 1);
+        var isOutput = Convert.ToBoolean(reader.GetValue(5));
+        return new DatabaseObject
+        {
+            Name = reader.GetValue(0)?.ToString() ?? string.Empty,
+            Detail = isOutput ? $"{dataType}, output" : dataType,
+            DataType = dataType,
+            IsOutput = isOutput
+        };
+    }
+
+    /// <summary>
+    /// Formats the type name and the max_length, precision and scale columns that follow it the way
+    /// they are declared, e.g. nvarchar(50), varbinary(max) or decimal(18,2).
+    /// </summary>
+    private static string FormatDataType(ISqlDataReaderWrapper reader, int typeNameOrdinal)
+    {
+        var typeName = reader.GetValue(typeNameOrdinal)?.ToString() ?? string.Empty;
+        var maxLength = Convert.ToInt32(reader.GetValue(typeNameOrdinal + 1));
+        var precision = Convert.ToInt32(reader.GetValue(typeNameOrdinal + 2));
+        var scale = Convert.ToInt32(reader.GetValue(typeNameOrdinal + 3));
+
+        switch (typeName.ToLowerInvariant())
+        {
+            case "varchar":
+            case "char":
+            case "varbinary":
+            case "binary":
+                return maxLength == -1 ? $"{typeName}(max)" : $"{typeName}({maxLength})";
+            case "nvarchar":
+            case "nchar":
+                // max_length is in bytes, two per character
+                return maxLength == -1 ? $"{typeName}(max)" : $"{typeName}({maxLength / 2})";
+            case "decimal":
+            case "numeric":
+                return $"{typeName}({precision},{scale})";
+            case "datetime2":
+            case "datetimeoffset":
+            case "time":
+                return $"{typeName}({scale})";
+            default:
+                return typeName;
+        }
+    }
+}
@@ -0,0 +1,129 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using SQLStressTest.Service.Interfaces;
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Service responsible for orchestrating object explorer requests: validation, connection retrieval
+/// and reading the objects in the requested database.
+/// Single Responsibility: Object explorer request orchestration only.
+/// </summary>
+public class DatabaseObjectsOrchestrator : IDatabaseObjectsOrchestrator
+{
+    private readonly IConnectionCacheService _connectionCacheService;
+    private readonly IConnectionStringBuilder _connectionStringBuilder;
+    private readonly ISqlConnectionFactory _connectionFactory;
+    private readonly IDatabaseObjectRetriever _objectRetriever;
+    private readonly ILogger<DatabaseObjectsOrchestrator> _logger;
+
+    public DatabaseObjectsOrchestrator(
+        IConnectionCacheService connectionCacheService,
+        IConnectionStringBuilder connectionStringBuilder,
+        ISqlConnectionFactory connectionFactory,
+        IDatabaseObjectRetriever objectRetriever,
+        ILogger<DatabaseObjectsOrchestrator> logger)
+    {
+        _connectionCacheService = connectionCacheService ?? throw new ArgumentNullException(nameof(connectionCacheService));
+        _connectionStringBuilder = connectionStringBuilder ?? throw new ArgumentNullException(nameof(connectionStringBuilder));
+        _connectionFactory = connectionFactory ?? throw new ArgumentNullException(nameof(connectionFactory));
+        _objectRetriever = objectRetriever ?? throw new ArgumentNullException(nameof(objectRetriever));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Lists the objects of a request. Invalid requests and unknown connections are a bad request;
+    /// failures on the server are returned with Success = false so the explorer can show them on the node.
+    /// </summary>
+    public async Task<IActionResult> GetObjectsAsync(DatabaseObjectsRequest? request)
+    {
+        var validationError = Validate(request);
+        if (validationError != null)
+        {
+            return new BadRequestObjectResult(new DatabaseObjectsResponse
+            {
+                Success = false,
+                Error = validationError
+            });
+        }
+
+        var connectionConfig = await _connectionCacheService.GetConnectionConfigAsync(request!.ConnectionId);
+        if (connectionConfig == null)
+        {
+            _logger.LogWarning("GetObjects failed: Connection not found. ConnectionId: {ConnectionId}", request.ConnectionId);
+            return new BadRequestObjectResult(new DatabaseObjectsResponse
+            {
+                Success = false,
+                Error = $"Connection '{request.ConnectionId}' not found"
+            });
+        }
+
+        try
+        {
+            // Catalog views only show the objects of the current database
+            if (!string.IsNullOrEmpty(request.Database))
+            {
+                connectionConfig.Database = request.Database;
+            }
+
+            using var connection = _connectionFactory.CreateConnection(_connectionStringBuilder.Build(connectionConfig));
+            await connection.OpenAsync();
+            var objects = await _objectRetriever.GetObjectsAsync(connection, request);
+
+            _logger.LogDebug("GetObjects: {Count} {ObjectType} in {Database}.{Schema}.{ObjectName}",
+                objects.Count, request.ObjectType, request.Database, request.Schema, request.ObjectName);
+            return new OkObjectResult(new DatabaseObjectsResponse
+            {
+                Success = true,
+                Objects = objects
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "GetObjects failed. ConnectionId: {ConnectionId}, ObjectType: {ObjectType}, Database: {Database}",
+                request.ConnectionId, request.ObjectType, request.Database);
+            return new OkObjectResult(new DatabaseObjectsResponse
+            {
+                Success = false,
+                Error = ex.Message
+            });
+        }
+    }
+
+    private static string? Validate(DatabaseObjectsRequest? request)
+    {
+        if (request == null)
+        {
+            return "Request is required";
+        }
+        if (string.IsNullOrWhiteSpace(request.ConnectionId))
+        {
+            return "ConnectionId is required";
+        }
+        if (!DatabaseObjectRetriever.IsSupportedObjectType(request.ObjectType))
+        {
+            return $"Unsupported object type '{request.ObjectType}'";
+        }
+
+        var objectType = request.ObjectType.ToLowerInvariant();
+        if (objectType == DatabaseObjectRetriever.Databases)
+        {
+            return null;
+        }
+        if (string.IsNullOrWhiteSpace(request.Database))
+        {
+            return $"Database is required to list {objectType}";
+        }
+        if (objectType != DatabaseObjectRetriever.Schemas && string.IsNullOrWhiteSpace(request.Schema))
+        {
+            return $"Schema is required to list {objectType}";
+        }
+        if ((objectType == DatabaseObjectRetriever.Columns || objectType == DatabaseObjectRetriever.Parameters)
+            && string.IsNullOrWhiteSpace(request.ObjectName))
+        {
+            return $"ObjectName is required to list {objectType}";
+        }
+        return null;
+    }
+}
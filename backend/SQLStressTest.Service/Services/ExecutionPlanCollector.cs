@@ -0,0 +1,98 @@
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Decides which executions of a stress test capture their actual execution plan and keeps
+/// the plans of the run. The slowest mode only holds Count plans at a time, replacing the
+/// fastest kept plan when a slower one arrives. Safe to use from parallel executions.
+/// Single Responsibility: Execution plan selection only.
+/// </summary>
+public class ExecutionPlanCollector
+{
+    private readonly ExecutionPlanCapture? _capture;
+    private readonly List<ExecutionPlan> _plans = new();
+    private readonly object _lock = new();
+
+    public ExecutionPlanCollector(ExecutionPlanCapture? capture)
+    {
+        if (capture != null && !ExecutionPlanCapture.Modes.Contains(capture.Mode))
+        {
+            throw new ArgumentException($"Unknown execution plan capture mode '{capture.Mode}'", nameof(capture));
+        }
+
+        if (capture != null && (capture.Count < 1 || capture.SampleInterval < 1))
+        {
+            throw new ArgumentException("Execution plan count and sample interval must be positive", nameof(capture));
+        }
+
+        _capture = capture;
+    }
+
+    /// <summary>
+    /// Whether the execution runs with SET STATISTICS XML ON. Sampling is by execution number,
+    /// so the same executions are sampled however the load profile schedules them.
+    /// </summary>
+    public bool ShouldCapture(int executionNumber)
+    {
+        if (_capture == null)
+        {
+            return false;
+        }
+
+        if (_capture.Mode == ExecutionPlanCapture.SlowestMode)
+        {
+            return true;
+        }
+
+        var offset = executionNumber - 1;
+        return offset % _capture.SampleInterval == 0 && offset / _capture.SampleInterval < _capture.Count;
+    }
+
+    /// <summary>
+    /// Keeps the plan of a captured execution, unless the slowest mode already holds Count slower ones.
+    /// </summary>
+    public void Add(ExecutionPlan plan)
+    {
+        if (plan == null)
+        {
+            throw new ArgumentNullException(nameof(plan));
+        }
+
+        if (_capture == null)
+        {
+            return;
+        }
+
+        lock (_lock)
+        {
+            if (_plans.Count < _capture.Count)
+            {
+                _plans.Add(plan);
+                return;
+            }
+
+            if (_capture.Mode != ExecutionPlanCapture.SlowestMode)
+            {
+                return;
+            }
+
+            var fastest = _plans.MinBy(p => p.DurationMs)!;
+            if (plan.DurationMs > fastest.DurationMs)
+            {
+                _plans[_plans.IndexOf(fastest)] = plan;
+            }
+        }
+    }
+
+    /// <summary>
+    /// The kept plans in execution order.
+    /// </summary>
+    public IReadOnlyList<ExecutionPlan> GetPlans()
+    {
+        lock (_lock)
+        {
+            return _plans.OrderBy(p => p.ExecutionNumber).ToList();
+        }
+    }
+}
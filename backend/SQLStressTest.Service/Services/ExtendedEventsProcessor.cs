@@ -17,6 +17,7 @@ public class ExtendedEventsProcessor : IExtendedEventsProcessor
     private readonly ILogger<ExtendedEventsProcessor>? _logger;
     private readonly SignalRMessageSender? _messageSender;
     private readonly ExtendedEventConverter? _eventConverter;
+    private readonly BlockingReportCorrelator _reportCorrelator = new();
 
     public ExtendedEventsProcessor(
         ConcurrentDictionary<string, List<IXEvent>> events,
@@ -33,9 +34,16 @@ public class ExtendedEventsProcessor : IExtendedEventsProcessor
     /// <summary>
     /// Processes an event and adds it to the dictionary based on context_info.
     /// Also sends the event via SignalR in real-time if message sender is available.
+    /// Deadlock and blocked process reports have no context_info and are only sent, see ProcessReportEvent.
     /// </summary>
     public void ProcessEvent(IXEvent xevent)
     {
+        if (BlockingReportCorrelator.IsReportEvent(xevent.Name))
+        {
+            ProcessReportEvent(xevent);
+            return;
+        }
+
         if (!xevent.Actions.TryGetValue("context_info", out var context)) 
         {
             _logger?.LogDebug("Event received without context_info, skipping");
@@ -81,42 +89,82 @@ public class ExtendedEventsProcessor : IExtendedEventsProcessor
             _logger?.LogTrace("Event added to dictionary. EventName: {EventName}, ContextInfo: {ContextInfo}, ExecutionNumber: {ExecutionNumber}, TotalEvents: {TotalEvents}",
                 xevent.Name, contextInfoString, executionNumber, eventList.Count);
 
-            // Send event via SignalR in real-time if message sender is available
-            if (_messageSender != null && _eventConverter != null)
+            if (xevent.Actions.TryGetValue("session_id", out var sessionId) && sessionId != null)
+            {
+                _reportCorrelator.RecordSession(Convert.ToInt32(sessionId), executionNumber);
+            }
+
+            SendEvent(xevent, executionNumber);
+        }
+        catch (Exception ex)
+        {
+            _logger?.LogWarning(ex, "Failed to process event. EventName: {EventName}", xevent.Name);
+        }
+    }
+
+    /// <summary>
+    /// Sends a deadlock or blocked process report raised for a session of a stress test execution.
+    /// Reports are not added to the dictionary, which only holds the events of each execution's own session.
+    /// </summary>
+    private void ProcessReportEvent(IXEvent xevent)
+    {
+        try
+        {
+            var reportField = BlockingReportCorrelator.GetReportField(xevent.Name)!;
+            xevent.Fields.TryGetValue(reportField, out var report);
+            var executionNumber = _reportCorrelator.FindExecutionNumber(Convert.ToString(report));
+            if (executionNumber == null)
+            {
+                _logger?.LogDebug("{EventName} received for sessions of no stress test execution, skipping", xevent.Name);
+                return;
+            }
+
+            _logger?.LogInformation("{EventName} received for ExecutionNumber: {ExecutionNumber}", xevent.Name, executionNumber.Value);
+            SendEvent(xevent, executionNumber.Value);
+        }
+        catch (Exception ex)
+        {
+            _logger?.LogWarning(ex, "Failed to process report event. EventName: {EventName}", xevent.Name);
+        }
+    }
+
+    /// <summary>
+    /// Sends the event via SignalR without waiting, if message sender is available.
+    /// </summary>
+    private void SendEvent(IXEvent xevent, int executionNumber)
+    {
+        if (_messageSender == null || _eventConverter == null)
+        {
+            return;
+        }
+
+        try
+        {
+            // Convert execution number string back to Guid for compatibility with ExtendedEventData
+            // Use a deterministic Guid based on the execution number
+            var executionId = CreateGuidFromExecutionNumber(executionNumber);
+            var eventData = _eventConverter.ConvertToExtendedEventData(xevent, executionId, executionNumber);
+
+            // Send asynchronously without awaiting to avoid blocking the event processing
+            _ = Task.Run(async () =>
             {
                 try
                 {
-                    // Convert execution number string back to Guid for compatibility with ExtendedEventData
-                    // Use a deterministic Guid based on the execution number
-                    var executionId = CreateGuidFromExecutionNumber(executionNumber);
-                    var eventData = _eventConverter.ConvertToExtendedEventData(xevent, executionId, executionNumber);
-                    
-                    // Send asynchronously without awaiting to avoid blocking the event processing
-                    _ = Task.Run(async () =>
-                    {
-                        try
-                        {
-                            await _messageSender.SendExtendedEventDataAsync(eventData, CancellationToken.None);
-                            _logger?.LogTrace("Extended Event sent via SignalR. EventName: {EventName}, ExecutionNumber: {ExecutionNumber}",
-                                xevent.Name, executionNumber);
-                        }
-                        catch (Exception ex)
-                        {
-                            _logger?.LogWarning(ex, "Failed to send Extended Event via SignalR. EventName: {EventName}, ExecutionNumber: {ExecutionNumber}",
-                                xevent.Name, executionNumber);
-                        }
-                    });
+                    await _messageSender.SendExtendedEventDataAsync(eventData, CancellationToken.None);
+                    _logger?.LogTrace("Extended Event sent via SignalR. EventName: {EventName}, ExecutionNumber: {ExecutionNumber}",
+                        xevent.Name, executionNumber);
                 }
                 catch (Exception ex)
                 {
-                    _logger?.LogWarning(ex, "Failed to convert or send Extended Event. EventName: {EventName}, ExecutionNumber: {ExecutionNumber}",
+                    _logger?.LogWarning(ex, "Failed to send Extended Event via SignalR. EventName: {EventName}, ExecutionNumber: {ExecutionNumber}",
                         xevent.Name, executionNumber);
                 }
-            }
+            });
         }
         catch (Exception ex)
         {
-            _logger?.LogWarning(ex, "Failed to process event. EventName: {EventName}", xevent.Name);
+            _logger?.LogWarning(ex, "Failed to convert or send Extended Event. EventName: {EventName}, ExecutionNumber: {ExecutionNumber}",
+                xevent.Name, executionNumber);
         }
     }
 
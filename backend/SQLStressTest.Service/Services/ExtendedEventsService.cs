@@ -132,7 +132,15 @@ public class ExtendedEventsService : IHostedService, IDisposable
                             Username = firstConnection.Username,
                             Password = firstConnection.Password,
                             IntegratedSecurity = firstConnection.IntegratedSecurity,
-                            Port = firstConnection.Port
+                            Port = firstConnection.Port,
+                            Encrypt = firstConnection.Encrypt,
+                            TrustServerCertificate = firstConnection.TrustServerCertificate,
+                            ConnectTimeout = firstConnection.ConnectTimeout,
+                            CommandTimeout = firstConnection.CommandTimeout,
+                            ApplicationName = firstConnection.ApplicationName,
+                            ApplicationIntent = firstConnection.ApplicationIntent,
+                            MultiSubnetFailover = firstConnection.MultiSubnetFailover,
+                            AdditionalKeywords = firstConnection.AdditionalKeywords
                         };
                         
                         _logger.LogInformation("Found connection in cache: {ConnectionId} ({ConnectionName})", 
@@ -0,0 +1,187 @@
+using System.Diagnostics;
+using Microsoft.Extensions.Logging;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Drives the executions of a stress test according to its load profile. Worker modes keep
+/// the scheduled number of workers busy; the target-rate mode starts executions on a clock
+/// and skips starts while the concurrency cap is reached, so the rate never bursts to catch up.
+/// Single Responsibility: Execution dispatch over time only.
+/// </summary>
+public class LoadProfileRunner
+{
+    private static readonly TimeSpan TickInterval = TimeSpan.FromMilliseconds(100);
+
+    private readonly ILogger<LoadProfileRunner> _logger;
+
+    public LoadProfileRunner(ILogger<LoadProfileRunner> logger)
+    {
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Runs executions until the schedule completes and returns how many were started.
+    /// executeAsync receives 1-based execution numbers and handles its own query errors;
+    /// concurrencyChangedAsync is called whenever the number of workers (or, at a target rate,
+    /// executions in flight) changes.
+    /// Throws OperationCanceledException once in-flight executions have stopped after cancellation.
+    /// </summary>
+    public async Task<int> RunAsync(
+        LoadProfileSchedule schedule,
+        Func<int, CancellationToken, Task> executeAsync,
+        Func<int, CancellationToken, Task> concurrencyChangedAsync,
+        CancellationToken cancellationToken)
+    {
+        ArgumentNullException.ThrowIfNull(schedule);
+        ArgumentNullException.ThrowIfNull(executeAsync);
+        ArgumentNullException.ThrowIfNull(concurrencyChangedAsync);
+
+        var startedExecutions = schedule.TargetRate.HasValue
+            ? await RunAtTargetRateAsync(schedule, executeAsync, concurrencyChangedAsync, cancellationToken)
+            : await RunWorkersAsync(schedule, executeAsync, concurrencyChangedAsync, cancellationToken);
+
+        cancellationToken.ThrowIfCancellationRequested();
+        return startedExecutions;
+    }
+
+    private async Task<int> RunWorkersAsync(
+        LoadProfileSchedule schedule,
+        Func<int, CancellationToken, Task> executeAsync,
+        Func<int, CancellationToken, Task> concurrencyChangedAsync,
+        CancellationToken cancellationToken)
+    {
+        var stopwatch = Stopwatch.StartNew();
+        var workers = new List<Task>();
+        var lastExecutionNumber = 0;
+
+        bool TryTakeExecution(out int executionNumber)
+        {
+            executionNumber = 0;
+            if (cancellationToken.IsCancellationRequested || schedule.IsComplete(stopwatch.Elapsed))
+            {
+                return false;
+            }
+
+            executionNumber = Interlocked.Increment(ref lastExecutionNumber);
+            return schedule.ExecutionLimit is not { } limit || executionNumber <= limit;
+        }
+
+        async Task WorkerAsync()
+        {
+            while (TryTakeExecution(out var executionNumber))
+            {
+                await executeAsync(executionNumber, cancellationToken);
+            }
+        }
+
+        while (!cancellationToken.IsCancellationRequested && !schedule.IsComplete(stopwatch.Elapsed))
+        {
+            // Ramps only ever add workers
+            var concurrency = schedule.GetConcurrency(stopwatch.Elapsed);
+            if (concurrency != workers.Count)
+            {
+                _logger.LogInformation("Stress test concurrency set to {Concurrency} workers at {Elapsed}", concurrency, stopwatch.Elapsed);
+                await concurrencyChangedAsync(concurrency, cancellationToken);
+            }
+
+            while (workers.Count < concurrency)
+            {
+                workers.Add(Task.Run(WorkerAsync, CancellationToken.None));
+            }
+
+            // The fixed mode ends once every execution has been taken
+            if (schedule.ExecutionLimit is { } limit && Volatile.Read(ref lastExecutionNumber) >= limit)
+            {
+                break;
+            }
+
+            await DelayAsync(cancellationToken);
+        }
+
+        await Task.WhenAll(workers);
+        return schedule.ExecutionLimit is { } executionLimit
+            ? Math.Min(lastExecutionNumber, executionLimit)
+            : lastExecutionNumber;
+    }
+
+    private async Task<int> RunAtTargetRateAsync(
+        LoadProfileSchedule schedule,
+        Func<int, CancellationToken, Task> executeAsync,
+        Func<int, CancellationToken, Task> concurrencyChangedAsync,
+        CancellationToken cancellationToken)
+    {
+        var stopwatch = Stopwatch.StartNew();
+        var running = new List<Task>();
+        using var inFlight = new SemaphoreSlim(schedule.MaxConcurrency, schedule.MaxConcurrency);
+        var startedExecutions = 0;
+        long scheduledExecutions = 0;
+        long skippedExecutions = 0;
+        var reportedConcurrency = -1;
+
+        async Task ExecuteAndReleaseAsync(int executionNumber)
+        {
+            try
+            {
+                await executeAsync(executionNumber, cancellationToken);
+            }
+            finally
+            {
+                inFlight.Release();
+            }
+        }
+
+        while (!cancellationToken.IsCancellationRequested && !schedule.IsComplete(stopwatch.Elapsed))
+        {
+            var dueExecutions = schedule.GetDueExecutions(stopwatch.Elapsed);
+            while (scheduledExecutions < dueExecutions)
+            {
+                scheduledExecutions++;
+                if (!inFlight.Wait(0))
+                {
+                    skippedExecutions += dueExecutions - scheduledExecutions + 1;
+                    scheduledExecutions = dueExecutions;
+                    break;
+                }
+
+                startedExecutions++;
+                var executionNumber = startedExecutions;
+                running.Add(Task.Run(() => ExecuteAndReleaseAsync(executionNumber), CancellationToken.None));
+            }
+
+            // Completed executions are dropped from the list; failures other than cancellation are handled by executeAsync
+            running.RemoveAll(t => t.IsCompletedSuccessfully);
+
+            var concurrency = schedule.MaxConcurrency - inFlight.CurrentCount;
+            if (concurrency != reportedConcurrency)
+            {
+                reportedConcurrency = concurrency;
+                await concurrencyChangedAsync(concurrency, cancellationToken);
+            }
+
+            await DelayAsync(cancellationToken);
+        }
+
+        await Task.WhenAll(running);
+
+        if (skippedExecutions > 0)
+        {
+            _logger.LogWarning("Target rate of {TargetRate}/s not reached: {SkippedExecutions} executions skipped at the concurrency cap of {MaxConcurrency}",
+                schedule.TargetRate, skippedExecutions, schedule.MaxConcurrency);
+        }
+
+        return startedExecutions;
+    }
+
+    private static async Task DelayAsync(CancellationToken cancellationToken)
+    {
+        try
+        {
+            await Task.Delay(TickInterval, cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            // Cancellation is reported once the in-flight executions have stopped
+        }
+    }
+}
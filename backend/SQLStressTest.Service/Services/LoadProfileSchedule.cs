@@ -0,0 +1,130 @@
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Works out, for a point in time of a stress test, how many workers should be running and
+/// whether the test is over. Time is passed in so the schedule stays deterministic.
+/// Single Responsibility: Load profile arithmetic only.
+/// </summary>
+public class LoadProfileSchedule
+{
+    private readonly LoadProfile _profile;
+    private readonly int _parallelExecutions;
+
+    public LoadProfileSchedule(LoadProfile? profile, int parallelExecutions, int totalExecutions)
+    {
+        _profile = profile ?? new LoadProfile();
+
+        if (parallelExecutions < 1)
+        {
+            throw new ArgumentOutOfRangeException(nameof(parallelExecutions), "Parallel executions must be 1 or greater");
+        }
+
+        if (!LoadProfile.Modes.Contains(_profile.Mode))
+        {
+            throw new ArgumentException($"Unknown load profile mode '{_profile.Mode}'", nameof(profile));
+        }
+
+        if (_profile.Mode == LoadProfile.FixedMode)
+        {
+            if (totalExecutions < 1)
+            {
+                throw new ArgumentOutOfRangeException(nameof(totalExecutions), "Total executions must be 1 or greater");
+            }
+        }
+        else if (_profile.DurationSeconds < 1)
+        {
+            throw new ArgumentException("Duration must be at least one second", nameof(profile));
+        }
+
+        if (_profile.Mode == LoadProfile.RampMode)
+        {
+            if (_profile.StartWorkers < 1 || _profile.StepWorkers < 1 || _profile.StepIntervalSeconds < 1)
+            {
+                throw new ArgumentException("Ramp start workers, step workers and step interval must be positive", nameof(profile));
+            }
+
+            if (_profile.MaxWorkers < _profile.StartWorkers)
+            {
+                throw new ArgumentException("Ramp max workers must not be below start workers", nameof(profile));
+            }
+
+            if (_profile.RampShape != LoadProfile.SteppedRamp && _profile.RampShape != LoadProfile.LinearRamp)
+            {
+                throw new ArgumentException($"Unknown ramp shape '{_profile.RampShape}'", nameof(profile));
+            }
+        }
+
+        if (_profile.Mode == LoadProfile.TargetRateMode && _profile.TargetRate <= 0)
+        {
+            throw new ArgumentException("Target rate must be greater than zero", nameof(profile));
+        }
+
+        _parallelExecutions = parallelExecutions;
+        ExecutionLimit = _profile.Mode == LoadProfile.FixedMode ? totalExecutions : null;
+    }
+
+    public string Mode => _profile.Mode;
+
+    /// <summary>
+    /// Number of executions after which the test ends (fixed mode), otherwise null.
+    /// </summary>
+    public int? ExecutionLimit { get; }
+
+    /// <summary>
+    /// Run length after which no new executions start, or null for the fixed mode.
+    /// </summary>
+    public TimeSpan? Duration => _profile.Mode == LoadProfile.FixedMode
+        ? null
+        : TimeSpan.FromSeconds(_profile.DurationSeconds);
+
+    /// <summary>
+    /// Executions started per second, or null unless the mode is target-rate.
+    /// </summary>
+    public double? TargetRate => _profile.Mode == LoadProfile.TargetRateMode ? _profile.TargetRate : null;
+
+    /// <summary>
+    /// Most executions in flight at once over the whole test.
+    /// </summary>
+    public int MaxConcurrency => _profile.Mode == LoadProfile.RampMode ? _profile.MaxWorkers : _parallelExecutions;
+
+    /// <summary>
+    /// Whether the run length has elapsed. The fixed mode ends by execution count instead.
+    /// </summary>
+    public bool IsComplete(TimeSpan elapsed) => Duration is { } duration && elapsed >= duration;
+
+    /// <summary>
+    /// Workers that should be running at the given elapsed time.
+    /// </summary>
+    public int GetConcurrency(TimeSpan elapsed)
+    {
+        if (_profile.Mode != LoadProfile.RampMode)
+        {
+            return _parallelExecutions;
+        }
+
+        var steps = elapsed.TotalSeconds / _profile.StepIntervalSeconds;
+        if (_profile.RampShape == LoadProfile.SteppedRamp)
+        {
+            steps = Math.Floor(steps);
+        }
+
+        var workers = _profile.StartWorkers + (long)Math.Floor(steps * _profile.StepWorkers);
+        return (int)Math.Min(workers, _profile.MaxWorkers);
+    }
+
+    /// <summary>
+    /// Executions that should have started by the given elapsed time in the target-rate mode;
+    /// the first one starts straight away.
+    /// </summary>
+    public long GetDueExecutions(TimeSpan elapsed)
+    {
+        if (TargetRate is not { } rate)
+        {
+            throw new InvalidOperationException("Due executions only apply to the target-rate mode");
+        }
+
+        return (long)Math.Floor(elapsed.TotalSeconds * rate) + 1;
+    }
+}
@@ -1,4 +1,5 @@
 using SQLStressTest.Service.Interfaces;
+using SQLStressTest.Service.Models;
 
 namespace SQLStressTest.Service.Services;
 
@@ -8,6 +9,14 @@ namespace SQLStressTest.Service.Services;
 /// </summary>
 public class QueryExecutor
 {
+    /// <summary>
+    /// Column name of the result sets SET STATISTICS XML ON adds after each statement.
+    /// </summary>
+    public const string ShowplanColumnName = "Microsoft SQL Server 2005 XML Showplan";
+
+    private const string WaitStatisticsQuery =
+        "SELECT wait_type, waiting_tasks_count, wait_time_ms, signal_wait_time_ms FROM sys.dm_os_wait_stats WHERE wait_time_ms > 0";
+
     private readonly ISqlConnectionFactory _connectionFactory;
     private readonly ContextInfoSetter _contextInfoSetter;
     private readonly QueryDataSizeCalculator _dataSizeCalculator;
@@ -24,25 +33,178 @@ public class QueryExecutor
 
     /// <summary>
     /// Executes a query with context_info set and calculates the total data size returned.
+    /// Parameter values, keyed by @name, are bound to the query's placeholders.
+    /// When captureActualPlan is set, the query runs with SET STATISTICS XML ON and the
+    /// actual plan of each statement is returned alongside the data size.
     /// </summary>
-    public async Task<long> ExecuteQueryWithContextInfoAsync(
+    public async Task<QueryExecutionResult> ExecuteQueryWithContextInfoAsync(
         string connectionString,
         string query,
         int executionNumber,
-        CancellationToken cancellationToken)
+        CancellationToken cancellationToken,
+        IReadOnlyDictionary<string, object?>? parameters = null,
+        bool captureActualPlan = false)
     {
+        cancellationToken.ThrowIfCancellationRequested();
+
         using var connection = _connectionFactory.CreateConnection(connectionString);
         await connection.OpenAsync();
 
         // Set context_info using the dedicated service
         await _contextInfoSetter.SetContextInfoAsync(connection, executionNumber);
 
-        // Execute the actual query
+        if (captureActualPlan)
+        {
+            await SetStatisticsXmlAsync(connection, true);
+        }
+
+        var result = new QueryExecutionResult();
+        using (var command = connection.CreateCommand(query))
+        {
+            if (parameters != null)
+            {
+                foreach (var parameter in parameters)
+                {
+                    command.AddParameter(parameter.Key, parameter.Value);
+                }
+            }
+
+            // Cancel the running command on the server when the stress test is cancelled
+            using var cancellationRegistration = cancellationToken.Register(command.Cancel);
+            using var reader = await command.ExecuteReaderAsync();
+
+            if (captureActualPlan)
+            {
+                await ReadResultsWithPlansAsync(reader, result, cancellationToken);
+            }
+            else
+            {
+                // Calculate data size using the dedicated service
+                result.DataSizeBytes = await _dataSizeCalculator.CalculateDataSizeAsync(reader, cancellationToken);
+            }
+        }
+
+        // Pooled connections keep session settings until they are reused
+        if (captureActualPlan)
+        {
+            await SetStatisticsXmlAsync(connection, false);
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Executes a lookup query and returns the values of its first column.
+    /// Used to load the values a lookupQuery parameter generator samples from.
+    /// </summary>
+    public async Task<IReadOnlyList<object?>> ExecuteLookupQueryAsync(
+        string connectionString,
+        string query,
+        CancellationToken cancellationToken)
+    {
+        cancellationToken.ThrowIfCancellationRequested();
+
+        using var connection = _connectionFactory.CreateConnection(connectionString);
+        await connection.OpenAsync();
+
         using var command = connection.CreateCommand(query);
+        using var cancellationRegistration = cancellationToken.Register(command.Cancel);
+        using var reader = await command.ExecuteReaderAsync();
+
+        var values = new List<object?>();
+        while (await reader.ReadAsync())
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            if (reader.FieldCount > 0)
+            {
+                values.Add(reader.IsDBNull(0) ? null : reader.GetValue(0));
+            }
+        }
+
+        return values;
+    }
+
+    /// <summary>
+    /// Reads the cumulative wait statistics of the server. Needs VIEW SERVER STATE
+    /// (VIEW SERVER PERFORMANCE STATE on SQL Server 2022 and later).
+    /// </summary>
+    public async Task<IReadOnlyList<WaitStatistic>> ReadWaitStatisticsAsync(
+        string connectionString,
+        CancellationToken cancellationToken)
+    {
+        cancellationToken.ThrowIfCancellationRequested();
+
+        using var connection = _connectionFactory.CreateConnection(connectionString);
+        await connection.OpenAsync();
+
+        using var command = connection.CreateCommand(WaitStatisticsQuery);
+        using var cancellationRegistration = cancellationToken.Register(command.Cancel);
         using var reader = await command.ExecuteReaderAsync();
 
-        // Calculate data size using the dedicated service
-        return await _dataSizeCalculator.CalculateDataSizeAsync(reader, cancellationToken);
+        var waits = new List<WaitStatistic>();
+        while (await reader.ReadAsync())
+        {
+            waits.Add(new WaitStatistic
+            {
+                WaitType = reader.GetValue(0)?.ToString() ?? string.Empty,
+                WaitingTasksCount = Convert.ToInt64(reader.GetValue(1)),
+                WaitTimeMs = Convert.ToInt64(reader.GetValue(2)),
+                SignalWaitTimeMs = Convert.ToInt64(reader.GetValue(3))
+            });
+        }
+
+        return waits;
+    }
+
+    /// <summary>
+    /// Reads every result set of a query run with SET STATISTICS XML ON. Each statement is
+    /// followed by a single-column result set holding its plan; the others count towards the data size.
+    /// </summary>
+    private async Task ReadResultsWithPlansAsync(
+        ISqlDataReaderWrapper reader,
+        QueryExecutionResult result,
+        CancellationToken cancellationToken)
+    {
+        do
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            if (reader.FieldCount == 1 && reader.GetName(0) == ShowplanColumnName)
+            {
+                while (await reader.ReadAsync())
+                {
+                    if (!reader.IsDBNull(0) && reader.GetValue(0) is string planXml)
+                    {
+                        result.ShowplanXml.Add(planXml);
+                    }
+                }
+            }
+            else
+            {
+                result.DataSizeBytes += await _dataSizeCalculator.CalculateDataSizeAsync(reader, cancellationToken);
+            }
+        }
+        while (await reader.NextResultAsync());
+    }
+
+    private static async Task SetStatisticsXmlAsync(ISqlConnectionWrapper connection, bool enabled)
+    {
+        using var command = connection.CreateCommand(enabled ? "SET STATISTICS XML ON" : "SET STATISTICS XML OFF");
+        await command.ExecuteScalarAsync();
     }
 }
 
+/// <summary>
+/// Outcome of one stress test execution.
+/// </summary>
+public class QueryExecutionResult
+{
+    /// <summary>
+    /// Size in bytes of the returned rows
+    /// </summary>
+    public long DataSizeBytes { get; set; }
+
+    /// <summary>
+    /// Actual plan of each statement, when it was captured
+    /// </summary>
+    public List<string> ShowplanXml { get; } = new();
+}
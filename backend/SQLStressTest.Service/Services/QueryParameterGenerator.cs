@@ -0,0 +1,79 @@
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Produces the parameter values bound to each execution of a stress test.
+/// Sequential values are derived from the execution number, so they do not depend on the
+/// order in which parallel executions start. Lookup query results are loaded by the caller
+/// once before the test and passed in.
+/// Single Responsibility: Per-execution parameter value generation only.
+/// </summary>
+public class QueryParameterGenerator
+{
+    private readonly IReadOnlyList<QueryParameter> _parameters;
+    private readonly IReadOnlyDictionary<string, IReadOnlyList<object?>> _lookupValues;
+
+    public QueryParameterGenerator(
+        IReadOnlyList<QueryParameter> parameters,
+        IReadOnlyDictionary<string, IReadOnlyList<object?>>? lookupValues = null)
+    {
+        _parameters = parameters ?? throw new ArgumentNullException(nameof(parameters));
+        _lookupValues = lookupValues ?? new Dictionary<string, IReadOnlyList<object?>>();
+
+        foreach (var parameter in parameters)
+        {
+            switch (parameter.Generator)
+            {
+                case QueryParameter.SequentialGenerator:
+                case QueryParameter.GuidGenerator:
+                    break;
+                case QueryParameter.RandomRangeGenerator when parameter.Min > parameter.Max:
+                    throw new ArgumentException($"Parameter {parameter.ParameterName} has Min greater than Max", nameof(parameters));
+                case QueryParameter.RandomRangeGenerator:
+                    break;
+                case QueryParameter.CsvListGenerator when parameter.Values is not { Count: > 0 }:
+                    throw new ArgumentException($"Parameter {parameter.ParameterName} has no CSV values", nameof(parameters));
+                case QueryParameter.CsvListGenerator:
+                    break;
+                case QueryParameter.LookupQueryGenerator when !_lookupValues.TryGetValue(parameter.ParameterName, out var values) || values.Count == 0:
+                    throw new ArgumentException($"Lookup query for parameter {parameter.ParameterName} returned no values", nameof(parameters));
+                case QueryParameter.LookupQueryGenerator:
+                    break;
+                default:
+                    throw new ArgumentException($"Unknown generator '{parameter.Generator}' for parameter {parameter.ParameterName}", nameof(parameters));
+            }
+        }
+    }
+
+    /// <summary>
+    /// Returns the values for a 1-based execution number, keyed by parameter name (with '@').
+    /// </summary>
+    public IReadOnlyDictionary<string, object?> Generate(int executionNumber)
+    {
+        if (executionNumber < 1)
+        {
+            throw new ArgumentOutOfRangeException(nameof(executionNumber), "Execution number must be 1 or greater");
+        }
+
+        var values = new Dictionary<string, object?>(StringComparer.OrdinalIgnoreCase);
+        foreach (var parameter in _parameters)
+        {
+            values[parameter.ParameterName] = parameter.Generator switch
+            {
+                QueryParameter.SequentialGenerator => parameter.Start + (executionNumber - 1) * parameter.Step,
+                QueryParameter.RandomRangeGenerator => parameter.Max == long.MaxValue
+                    ? Random.Shared.NextInt64(parameter.Min, parameter.Max)
+                    : Random.Shared.NextInt64(parameter.Min, parameter.Max + 1),
+                QueryParameter.GuidGenerator => Guid.NewGuid(),
+                QueryParameter.CsvListGenerator => Pick(parameter.Values!),
+                QueryParameter.LookupQueryGenerator => Pick(_lookupValues[parameter.ParameterName]),
+                _ => null
+            };
+        }
+
+        return values;
+    }
+
+    private static T Pick<T>(IReadOnlyList<T> values) => values[Random.Shared.Next(values.Count)];
+}
@@ -1,3 +1,4 @@
+using System.Text.RegularExpressions;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Logging;
 using SQLStressTest.Service.Interfaces;
@@ -11,6 +12,8 @@ namespace SQLStressTest.Service.Services;
 /// </summary>
 public class QueryRequestValidator : IQueryRequestValidator
 {
+    private static readonly Regex ParameterNamePattern = new("^@?[A-Za-z_][A-Za-z0-9_]*$", RegexOptions.Compiled);
+
     private readonly ILogger<QueryRequestValidator>? _logger;
 
     public QueryRequestValidator(ILogger<QueryRequestValidator>? logger = null)
@@ -140,8 +143,16 @@ public class QueryRequestValidator : IQueryRequestValidator
             };
         }
 
-        // Validate Query
-        if (string.IsNullOrWhiteSpace(request.Query))
+        // Validate Query - a weighted scenario replaces the single query
+        if (request.Queries is { Count: > 0 })
+        {
+            var scenarioResult = ValidateScenarioQueries(request.Queries);
+            if (!scenarioResult.IsValid)
+            {
+                return scenarioResult;
+            }
+        }
+        else if (string.IsNullOrWhiteSpace(request.Query))
         {
             _logger?.LogWarning("StressTestRequest validation failed: Query is null or empty");
             return new ValidationResult
@@ -151,8 +162,207 @@ public class QueryRequestValidator : IQueryRequestValidator
             };
         }
 
-        _logger?.LogInformation("StressTestRequest validation successful. ConnectionId: {ConnectionId}, ParallelExecutions: {ParallelExecutions}, TotalExecutions: {TotalExecutions}",
-            request.ConnectionId, request.ParallelExecutions, request.TotalExecutions);
+        if (request.Parameters is { Count: > 0 })
+        {
+            var parameterResult = ValidateQueryParameters(request.Parameters);
+            if (!parameterResult.IsValid)
+            {
+                return parameterResult;
+            }
+        }
+
+        if (request.LoadProfile != null)
+        {
+            var loadProfileResult = ValidateLoadProfile(request.LoadProfile);
+            if (!loadProfileResult.IsValid)
+            {
+                return loadProfileResult;
+            }
+        }
+
+        if (request.PlanCapture != null)
+        {
+            var planCaptureResult = ValidatePlanCapture(request.PlanCapture);
+            if (!planCaptureResult.IsValid)
+            {
+                return planCaptureResult;
+            }
+        }
+
+        _logger?.LogInformation("StressTestRequest validation successful. ConnectionId: {ConnectionId}, Queries: {QueryCount}, ParallelExecutions: {ParallelExecutions}, TotalExecutions: {TotalExecutions}",
+            request.ConnectionId, request.Queries?.Count ?? 1, request.ParallelExecutions, request.TotalExecutions);
+
+        return new ValidationResult
+        {
+            IsValid = true
+        };
+    }
+
+    private ValidationResult ValidateScenarioQueries(IReadOnlyList<ScenarioQuery> queries)
+    {
+        string? error = null;
+        if (queries.Any(q => q == null || string.IsNullOrWhiteSpace(q.Name)))
+        {
+            error = "Scenario query name is required";
+        }
+        else if (queries.Any(q => string.IsNullOrWhiteSpace(q.Query)))
+        {
+            error = "Scenario query text is required";
+        }
+        else if (queries.Any(q => q.Weight < 1 || q.Weight > 10000))
+        {
+            error = "Scenario query weight must be between 1 and 10000";
+        }
+        else if (queries.Select(q => q.Name.Trim()).Distinct(StringComparer.OrdinalIgnoreCase).Count() != queries.Count)
+        {
+            error = "Scenario query names must be unique";
+        }
+
+        if (error != null)
+        {
+            _logger?.LogWarning("StressTestRequest validation failed: {Error}", error);
+            return new ValidationResult
+            {
+                IsValid = false,
+                ErrorMessage = error
+            };
+        }
+
+        return new ValidationResult
+        {
+            IsValid = true
+        };
+    }
+
+    private ValidationResult ValidateQueryParameters(IReadOnlyList<QueryParameter> parameters)
+    {
+        string? error = null;
+        foreach (var parameter in parameters)
+        {
+            if (parameter == null || !ParameterNamePattern.IsMatch(parameter.Name ?? string.Empty))
+            {
+                error = $"Parameter name '{parameter?.Name}' is not a valid @name";
+            }
+            else if (!QueryParameter.Generators.Contains(parameter.Generator))
+            {
+                error = $"Unknown generator '{parameter.Generator}' for parameter {parameter.ParameterName}";
+            }
+            else if (parameter.Generator == QueryParameter.RandomRangeGenerator && parameter.Min > parameter.Max)
+            {
+                error = $"Parameter {parameter.ParameterName}: Min must not be greater than Max";
+            }
+            else if (parameter.Generator == QueryParameter.CsvListGenerator && parameter.Values is not { Count: > 0 })
+            {
+                error = $"Parameter {parameter.ParameterName}: CSV list has no values";
+            }
+            else if (parameter.Generator == QueryParameter.LookupQueryGenerator && string.IsNullOrWhiteSpace(parameter.LookupQuery))
+            {
+                error = $"Parameter {parameter.ParameterName}: lookup query is required";
+            }
+
+            if (error != null)
+            {
+                break;
+            }
+        }
+
+        if (error == null && parameters.Select(p => p.ParameterName).Distinct(StringComparer.OrdinalIgnoreCase).Count() != parameters.Count)
+        {
+            error = "Parameter names must be unique";
+        }
+
+        if (error != null)
+        {
+            _logger?.LogWarning("StressTestRequest validation failed: {Error}", error);
+            return new ValidationResult
+            {
+                IsValid = false,
+                ErrorMessage = error
+            };
+        }
+
+        return new ValidationResult
+        {
+            IsValid = true
+        };
+    }
+
+    private ValidationResult ValidateLoadProfile(LoadProfile profile)
+    {
+        string? error = null;
+        if (!LoadProfile.Modes.Contains(profile.Mode))
+        {
+            error = $"Unknown load profile mode '{profile.Mode}'";
+        }
+        else if (profile.Mode != LoadProfile.FixedMode && (profile.DurationSeconds < 1 || profile.DurationSeconds > 86400))
+        {
+            error = "Load profile duration must be between 1 and 86400 seconds";
+        }
+        else if (profile.Mode == LoadProfile.RampMode)
+        {
+            if (profile.StartWorkers < 1 || profile.StartWorkers > 1000 || profile.StepWorkers < 1 || profile.StepWorkers > 1000)
+            {
+                error = "Ramp start and step workers must be between 1 and 1000";
+            }
+            else if (profile.StepIntervalSeconds < 1 || profile.StepIntervalSeconds > 3600)
+            {
+                error = "Ramp step interval must be between 1 and 3600 seconds";
+            }
+            else if (profile.MaxWorkers < profile.StartWorkers || profile.MaxWorkers > 1000)
+            {
+                error = "Ramp max workers must be between the start workers and 1000";
+            }
+            else if (profile.RampShape != LoadProfile.SteppedRamp && profile.RampShape != LoadProfile.LinearRamp)
+            {
+                error = $"Unknown ramp shape '{profile.RampShape}'";
+            }
+        }
+        else if (profile.Mode == LoadProfile.TargetRateMode && (profile.TargetRate <= 0 || profile.TargetRate > 10000))
+        {
+            error = "Target rate must be greater than 0 and at most 10000 executions per second";
+        }
+
+        if (error != null)
+        {
+            _logger?.LogWarning("StressTestRequest validation failed: {Error}", error);
+            return new ValidationResult
+            {
+                IsValid = false,
+                ErrorMessage = error
+            };
+        }
+
+        return new ValidationResult
+        {
+            IsValid = true
+        };
+    }
+
+    private ValidationResult ValidatePlanCapture(ExecutionPlanCapture capture)
+    {
+        string? error = null;
+        if (!ExecutionPlanCapture.Modes.Contains(capture.Mode))
+        {
+            error = $"Unknown execution plan capture mode '{capture.Mode}'";
+        }
+        else if (capture.Mode == ExecutionPlanCapture.SampleMode && (capture.SampleInterval < 1 || capture.SampleInterval > 100000))
+        {
+            error = "Execution plan sample interval must be between 1 and 100000 executions";
+        }
+        else if (capture.Count < 1 || capture.Count > 100)
+        {
+            error = "Execution plan count must be between 1 and 100";
+        }
+
+        if (error != null)
+        {
+            _logger?.LogWarning("StressTestRequest validation failed: {Error}", error);
+            return new ValidationResult
+            {
+                IsValid = false,
+                ErrorMessage = error
+            };
+        }
 
         return new ValidationResult
         {
@@ -0,0 +1,92 @@
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Assigns scenario queries to execution numbers in proportion to their weights.
+/// The assignment is deterministic and interleaved (smooth weighted round-robin), so every
+/// window of executions follows the configured mix rather than running each query in a block.
+/// Single Responsibility: Weighted query selection only.
+/// </summary>
+public class ScenarioQuerySchedule
+{
+    private readonly IReadOnlyList<ScenarioQuery> _queries;
+    private readonly int[] _cycle;
+
+    public ScenarioQuerySchedule(IReadOnlyList<ScenarioQuery> queries)
+    {
+        if (queries == null)
+        {
+            throw new ArgumentNullException(nameof(queries));
+        }
+
+        if (queries.Count == 0)
+        {
+            throw new ArgumentException("Scenario must contain at least one query", nameof(queries));
+        }
+
+        if (queries.Any(q => q.Weight < 1))
+        {
+            throw new ArgumentException("Scenario query weights must be positive", nameof(queries));
+        }
+
+        _queries = queries;
+        _cycle = BuildCycle(queries.Select(q => q.Weight).ToArray());
+    }
+
+    /// <summary>
+    /// Number of executions after which the assignment repeats.
+    /// </summary>
+    public int CycleLength => _cycle.Length;
+
+    /// <summary>
+    /// Returns the query for a 1-based execution number.
+    /// </summary>
+    public ScenarioQuery GetQuery(int executionNumber)
+    {
+        if (executionNumber < 1)
+        {
+            throw new ArgumentOutOfRangeException(nameof(executionNumber), "Execution number must be 1 or greater");
+        }
+
+        return _queries[_cycle[(executionNumber - 1) % _cycle.Length]];
+    }
+
+    private static int[] BuildCycle(int[] weights)
+    {
+        // Reduce by the common divisor so 70/20/10 repeats every 10 executions rather than 100
+        var divisor = weights.Aggregate(GreatestCommonDivisor);
+        var reduced = weights.Select(w => w / divisor).ToArray();
+        var total = reduced.Sum();
+
+        var cycle = new int[total];
+        var current = new int[reduced.Length];
+        for (var slot = 0; slot < total; slot++)
+        {
+            var selected = 0;
+            for (var i = 0; i < reduced.Length; i++)
+            {
+                current[i] += reduced[i];
+                if (current[i] > current[selected])
+                {
+                    selected = i;
+                }
+            }
+
+            current[selected] -= total;
+            cycle[slot] = selected;
+        }
+
+        return cycle;
+    }
+
+    private static int GreatestCommonDivisor(int a, int b)
+    {
+        while (b != 0)
+        {
+            (a, b) = (b, a % b);
+        }
+
+        return a;
+    }
+}
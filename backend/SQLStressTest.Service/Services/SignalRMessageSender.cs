@@ -1,3 +1,4 @@
+using System.Globalization;
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.Extensions.Logging;
 using SQLStressTest.Service.Hubs;
@@ -23,14 +24,17 @@ public class SignalRMessageSender
     }
 
     /// <summary>
-    /// Sends an execution boundary event.
+    /// Sends an execution boundary event. Bound parameter values are sent as text so the
+    /// per-execution summaries can show them.
     /// </summary>
     public async Task SendExecutionBoundaryAsync(
         int executionNumber,
         Guid executionId,
         DateTime timestamp,
         bool isStart,
-        CancellationToken cancellationToken)
+        CancellationToken cancellationToken,
+        string? queryName = null,
+        IReadOnlyDictionary<string, object?>? parameters = null)
     {
         var boundary = new ExecutionBoundary
         {
@@ -39,7 +43,11 @@ public class SignalRMessageSender
             StartTime = isStart ? timestamp : DateTime.MinValue,
             EndTime = isStart ? null : timestamp,
             IsStart = isStart,
-            TimestampMs = ((DateTimeOffset)timestamp).ToUnixTimeMilliseconds()
+            TimestampMs = ((DateTimeOffset)timestamp).ToUnixTimeMilliseconds(),
+            QueryName = queryName,
+            Parameters = parameters?.ToDictionary(
+                p => p.Key,
+                p => p.Value is null or DBNull ? null : Convert.ToString(p.Value, CultureInfo.InvariantCulture))
         };
 
         try
@@ -83,6 +91,59 @@ public class SignalRMessageSender
         }
     }
 
+    /// <summary>
+    /// Sends the current concurrency of a stress test.
+    /// </summary>
+    public async Task SendLoadLevelAsync(int concurrency, CancellationToken cancellationToken)
+    {
+        var timestamp = DateTime.UtcNow;
+        var loadLevel = new LoadLevel
+        {
+            Concurrency = concurrency,
+            Timestamp = timestamp,
+            TimestampMs = ((DateTimeOffset)timestamp).ToUnixTimeMilliseconds()
+        };
+
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("LoadLevel", loadLevel, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Error sending load level. Concurrency: {Concurrency}", concurrency);
+        }
+    }
+
+    /// <summary>
+    /// Sends an actual execution plan kept for a stress test.
+    /// </summary>
+    public async Task SendExecutionPlanAsync(ExecutionPlan plan, CancellationToken cancellationToken)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("ExecutionPlan", plan, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Error sending execution plan. ExecutionNumber: {ExecutionNumber}", plan.ExecutionNumber);
+        }
+    }
+
+    /// <summary>
+    /// Sends the wait statistics of a finished stress test.
+    /// </summary>
+    public async Task SendWaitStatisticsAsync(WaitStatisticsData waitStatistics, CancellationToken cancellationToken)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("WaitStatistics", waitStatistics, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Error sending wait statistics. WaitTypeCount: {WaitTypeCount}", waitStatistics.Waits.Count);
+        }
+    }
+
     /// <summary>
     /// Sends Extended Event data.
     /// </summary>
@@ -100,5 +161,21 @@ public class SignalRMessageSender
                 eventData.EventName, eventData.ExecutionNumber);
         }
     }
-}
 
+    /// <summary>
+    /// Sends the final result of a stress test, including whether it was cancelled.
+    /// </summary>
+    public async Task SendStressTestCompletedAsync(
+        StressTestResponse response,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("StressTestCompleted", response, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Error sending stress test completion. TestId: {TestId}", response.TestId);
+        }
+    }
+}
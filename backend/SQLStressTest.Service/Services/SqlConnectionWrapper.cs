@@ -43,6 +43,13 @@ public class SqlCommandWrapper : ISqlCommandWrapper
         return await _command.ExecuteScalarAsync();
     }
 
+    public void AddParameter(string name, object? value)
+    {
+        _command.Parameters.AddWithValue(name, value ?? DBNull.Value);
+    }
+
+    public void Cancel() => _command.Cancel();
+
     public void Dispose() => _command.Dispose();
 }
 
@@ -60,6 +67,7 @@ public class SqlDataReaderWrapper : ISqlDataReaderWrapper
     public bool IsDBNull(int i) => _reader.IsDBNull(i);
     public object? GetValue(int i) => _reader.GetValue(i);
     public Task<bool> ReadAsync() => _reader.ReadAsync();
+    public Task<bool> NextResultAsync() => _reader.NextResultAsync();
 
     public void Dispose() => _reader.Dispose();
 }
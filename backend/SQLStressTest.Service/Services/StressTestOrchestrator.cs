@@ -1,4 +1,5 @@
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.DependencyInjection;
 using Microsoft.Extensions.Logging;
 using SQLStressTest.Service.Interfaces;
 using SQLStressTest.Service.Models;
@@ -11,25 +12,33 @@ namespace SQLStressTest.Service.Services;
 /// </summary>
 public class StressTestOrchestrator : IStressTestOrchestrator
 {
-    private readonly IStressTestService _stressTestService;
+    private readonly IServiceScopeFactory _scopeFactory;
     private readonly IConnectionCacheService _connectionCacheService;
     private readonly IQueryRequestValidator _requestValidator;
+    private readonly IStressTestRegistry _stressTestRegistry;
+    private readonly SignalRMessageSender _messageSender;
     private readonly ILogger<StressTestOrchestrator> _logger;
 
     public StressTestOrchestrator(
-        IStressTestService stressTestService,
+        IServiceScopeFactory scopeFactory,
         IConnectionCacheService connectionCacheService,
         IQueryRequestValidator requestValidator,
+        IStressTestRegistry stressTestRegistry,
+        SignalRMessageSender messageSender,
         ILogger<StressTestOrchestrator> logger)
     {
-        _stressTestService = stressTestService ?? throw new ArgumentNullException(nameof(stressTestService));
+        _scopeFactory = scopeFactory ?? throw new ArgumentNullException(nameof(scopeFactory));
         _connectionCacheService = connectionCacheService ?? throw new ArgumentNullException(nameof(connectionCacheService));
         _requestValidator = requestValidator ?? throw new ArgumentNullException(nameof(requestValidator));
+        _stressTestRegistry = stressTestRegistry ?? throw new ArgumentNullException(nameof(stressTestRegistry));
+        _messageSender = messageSender ?? throw new ArgumentNullException(nameof(messageSender));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
     }
 
     /// <summary>
-    /// Executes a stress test request, handling validation, connection retrieval, and execution.
+    /// Starts a stress test request, handling validation and connection retrieval.
+    /// The test runs in the background; the response carries the test ID straight away so the
+    /// caller can cancel it. The final result is sent via SignalR as StressTestCompleted.
     /// </summary>
     public async Task<IActionResult> ExecuteStressTestAsync(
         StressTestRequest? request,
@@ -72,13 +81,64 @@ public class StressTestOrchestrator : IStressTestOrchestrator
                 _logger.LogDebug("ExecuteStressTest: Using database from request: {Database}", request.Database);
             }
 
-            var response = await _stressTestService.ExecuteStressTestAsync(
-                connectionConfig,
-                request.Query,
-                request.ParallelExecutions,
-                request.TotalExecutions);
+            var testId = Guid.NewGuid().ToString();
+            var cancellationToken = _stressTestRegistry.Register(testId);
 
-            return new OkObjectResult(response);
+            // The run outlives this request, so it resolves the stress test pipeline from its own scope
+            _ = Task.Run(async () =>
+            {
+                StressTestResponse response;
+                try
+                {
+                    using var scope = _scopeFactory.CreateScope();
+                    var stressTestService = scope.ServiceProvider.GetRequiredService<IStressTestService>();
+
+                    response = request.Queries is { Count: > 0 }
+                        ? await stressTestService.ExecuteScenarioAsync(
+                            connectionConfig,
+                            request.Queries,
+                            request.ParallelExecutions,
+                            request.TotalExecutions,
+                            request.Parameters,
+                            request.LoadProfile,
+                            request.PlanCapture,
+                            testId,
+                            cancellationToken)
+                        : await stressTestService.ExecuteStressTestAsync(
+                            connectionConfig,
+                            request.Query,
+                            request.ParallelExecutions,
+                            request.TotalExecutions,
+                            request.Parameters,
+                            request.LoadProfile,
+                            request.PlanCapture,
+                            testId,
+                            cancellationToken);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Background stress test failed. TestId: {TestId}", testId);
+                    response = new StressTestResponse
+                    {
+                        Success = false,
+                        TestId = testId,
+                        Error = ex.Message
+                    };
+                }
+                finally
+                {
+                    _stressTestRegistry.Complete(testId);
+                }
+
+                await _messageSender.SendStressTestCompletedAsync(response, CancellationToken.None);
+            });
+
+            return new OkObjectResult(new StressTestResponse
+            {
+                Success = true,
+                TestId = testId,
+                Message = "Stress test started"
+            });
         }
         catch (Exception ex)
         {
@@ -93,5 +153,40 @@ public class StressTestOrchestrator : IStressTestOrchestrator
             return new OkObjectResult(errorResponse);
         }
     }
-}
 
+    /// <summary>
+    /// Cancels a running stress test and returns once its in-flight executions have stopped.
+    /// </summary>
+    public async Task<IActionResult> CancelStressTestAsync(string testId, CancellationToken cancellationToken = default)
+    {
+        if (string.IsNullOrWhiteSpace(testId))
+        {
+            return new BadRequestObjectResult(new StressTestResponse
+            {
+                Success = false,
+                Error = "Test ID is required"
+            });
+        }
+
+        _logger.LogInformation("CancelStressTest received request. TestId: {TestId}", testId);
+
+        var cancelled = await _stressTestRegistry.CancelAsync(testId, cancellationToken);
+        if (!cancelled)
+        {
+            return new NotFoundObjectResult(new StressTestResponse
+            {
+                Success = false,
+                TestId = testId,
+                Error = $"Stress test '{testId}' is not running"
+            });
+        }
+
+        return new OkObjectResult(new StressTestResponse
+        {
+            Success = true,
+            Cancelled = true,
+            TestId = testId,
+            Message = "Stress test cancelled"
+        });
+    }
+}
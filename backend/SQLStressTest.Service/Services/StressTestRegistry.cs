@@ -0,0 +1,85 @@
+using System.Collections.Concurrent;
+using Microsoft.Extensions.Logging;
+using SQLStressTest.Service.Interfaces;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Service responsible for tracking running stress tests so they can be cancelled by test ID.
+/// Single Responsibility: Running stress test bookkeeping only.
+/// </summary>
+public class StressTestRegistry : IStressTestRegistry
+{
+    private readonly ConcurrentDictionary<string, RunningStressTest> _runningTests = new();
+    private readonly ILogger<StressTestRegistry>? _logger;
+
+    public StressTestRegistry(ILogger<StressTestRegistry>? logger = null)
+    {
+        _logger = logger;
+    }
+
+    public CancellationToken Register(string testId)
+    {
+        if (string.IsNullOrWhiteSpace(testId))
+        {
+            throw new ArgumentException("Test ID cannot be null or empty", nameof(testId));
+        }
+
+        var runningTest = new RunningStressTest();
+        if (!_runningTests.TryAdd(testId, runningTest))
+        {
+            runningTest.Dispose();
+            throw new InvalidOperationException($"Stress test '{testId}' is already running");
+        }
+
+        _logger?.LogDebug("Stress test registered. TestId: {TestId}", testId);
+        return runningTest.CancellationTokenSource.Token;
+    }
+
+    public void Complete(string testId)
+    {
+        if (_runningTests.TryRemove(testId, out var runningTest))
+        {
+            runningTest.Completion.TrySetResult();
+            runningTest.Dispose();
+            _logger?.LogDebug("Stress test completed and removed from registry. TestId: {TestId}", testId);
+        }
+    }
+
+    public async Task<bool> CancelAsync(string testId, CancellationToken cancellationToken = default)
+    {
+        if (!_runningTests.TryGetValue(testId, out var runningTest))
+        {
+            _logger?.LogWarning("Cancel requested for unknown stress test. TestId: {TestId}", testId);
+            return false;
+        }
+
+        _logger?.LogInformation("Cancelling stress test. TestId: {TestId}", testId);
+        try
+        {
+            runningTest.CancellationTokenSource.Cancel();
+        }
+        catch (ObjectDisposedException)
+        {
+            // Test completed between lookup and cancel
+        }
+
+        // Wait for in-flight executions to observe the cancellation
+        await runningTest.Completion.Task.WaitAsync(cancellationToken);
+        _logger?.LogInformation("Stress test cancelled. TestId: {TestId}", testId);
+        return true;
+    }
+
+    public bool IsRunning(string testId)
+    {
+        return _runningTests.ContainsKey(testId);
+    }
+
+    private sealed class RunningStressTest : IDisposable
+    {
+        public CancellationTokenSource CancellationTokenSource { get; } = new();
+        public TaskCompletionSource Completion { get; } = new(TaskCreationOptions.RunContinuationsAsynchronously);
+
+        public void Dispose() => CancellationTokenSource.Dispose();
+    }
+}
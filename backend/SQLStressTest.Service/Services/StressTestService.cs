@@ -12,6 +12,11 @@ namespace SQLStressTest.Service.Services;
 /// </summary>
 public class StressTestService : IStressTestService
 {
+    /// <summary>
+    /// Scenario query name used when a stress test runs a single query.
+    /// </summary>
+    public const string SingleQueryName = "Query";
+
     private readonly IConnectionStringBuilder _connectionStringBuilder;
     private readonly QueryExecutor _queryExecutor;
     private readonly SignalRMessageSender _messageSender;
@@ -19,6 +24,8 @@ public class StressTestService : IStressTestService
     private readonly ExtendedEventsStore _eventsStore;
     private readonly ILogger<StressTestService> _logger;
     private readonly ILoggerFactory _loggerFactory;
+    private readonly LoadProfileRunner _loadProfileRunner;
+    private readonly WaitStatisticsCalculator _waitStatisticsCalculator;
 
     public StressTestService(
         IConnectionStringBuilder connectionStringBuilder,
@@ -36,6 +43,8 @@ public class StressTestService : IStressTestService
         _eventsStore = eventsStore ?? throw new ArgumentNullException(nameof(eventsStore));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
         _loggerFactory = loggerFactory ?? throw new ArgumentNullException(nameof(loggerFactory));
+        _loadProfileRunner = new LoadProfileRunner(_loggerFactory.CreateLogger<LoadProfileRunner>());
+        _waitStatisticsCalculator = new WaitStatisticsCalculator();
     }
 
     public async Task<StressTestResponse> ExecuteStressTestAsync(
@@ -43,6 +52,10 @@ public class StressTestService : IStressTestService
         string query,
         int parallelExecutions,
         int totalExecutions,
+        IReadOnlyList<QueryParameter>? parameters = null,
+        LoadProfile? loadProfile = null,
+        ExecutionPlanCapture? planCapture = null,
+        string? testId = null,
         CancellationToken cancellationToken = default)
     {
         if (config == null)
@@ -55,51 +68,107 @@ public class StressTestService : IStressTestService
             throw new ArgumentException("Query cannot be null or empty", nameof(query));
         }
 
-        var testId = Guid.NewGuid().ToString();
-        _logger.LogInformation("Starting stress test. TestId: {TestId}, ParallelExecutions: {ParallelExecutions}, TotalExecutions: {TotalExecutions}",
-            testId, parallelExecutions, totalExecutions);
+        var queries = new[] { new ScenarioQuery { Name = SingleQueryName, Query = query, Weight = 1 } };
+        return await ExecuteScenarioAsync(config, queries, parallelExecutions, totalExecutions, parameters, loadProfile, planCapture, testId, cancellationToken);
+    }
+
+    public async Task<StressTestResponse> ExecuteScenarioAsync(
+        ConnectionConfig config,
+        IReadOnlyList<ScenarioQuery> queries,
+        int parallelExecutions,
+        int totalExecutions,
+        IReadOnlyList<QueryParameter>? parameters = null,
+        LoadProfile? loadProfile = null,
+        ExecutionPlanCapture? planCapture = null,
+        string? testId = null,
+        CancellationToken cancellationToken = default)
+    {
+        if (config == null)
+        {
+            throw new ArgumentNullException(nameof(config));
+        }
+
+        if (queries == null || queries.Count == 0)
+        {
+            throw new ArgumentException("Scenario must contain at least one query", nameof(queries));
+        }
+
+        if (queries.Any(q => string.IsNullOrWhiteSpace(q.Query)))
+        {
+            throw new ArgumentException("Scenario queries cannot be null or empty", nameof(queries));
+        }
+
+        var schedule = new ScenarioQuerySchedule(queries);
+        var loadSchedule = new LoadProfileSchedule(loadProfile, parallelExecutions, totalExecutions);
+        var planCollector = new ExecutionPlanCollector(planCapture);
+        testId ??= Guid.NewGuid().ToString();
+        parameters ??= Array.Empty<QueryParameter>();
+        _logger.LogInformation("Starting stress test. TestId: {TestId}, Queries: {QueryCount}, Parameters: {ParameterCount}, LoadProfile: {LoadProfile}, ParallelExecutions: {ParallelExecutions}, TotalExecutions: {TotalExecutions}",
+            testId, queries.Count, parameters.Count, loadSchedule.Mode, parallelExecutions, totalExecutions);
 
         var connectionString = _connectionStringBuilder.Build(config);
         
         // Use shared events dictionary from ExtendedEventsStore (managed by ExtendedEventsService)
         var events = _eventsStore.Events;
+        IReadOnlyList<WaitStatistic>? waitsBefore = null;
+        var waitsStartTime = DateTime.UtcNow;
 
         try
         {
-            // Execute queries in parallel
+            // Lookup queries run once up front; executions sample from their results
+            var parameterGenerator = new QueryParameterGenerator(
+                parameters,
+                await LoadLookupValuesAsync(connectionString, parameters, cancellationToken));
+
+            // Snapshot after the lookup queries so only the executions count towards the waits
+            waitsBefore = await ReadWaitStatisticsAsync(connectionString, cancellationToken);
+            waitsStartTime = DateTime.UtcNow;
+
+            // Execute queries in parallel, paced by the load profile
             var executionGuids = new ConcurrentDictionary<int, Guid>();
             var executionStartTimes = new ConcurrentDictionary<int, DateTime>();
             var executionDataSizes = new ConcurrentDictionary<int, long>();
 
-            var parallelOptions = new ParallelOptions
-            {
-                MaxDegreeOfParallelism = parallelExecutions,
-                CancellationToken = cancellationToken
-            };
-
-            await Parallel.ForEachAsync(
-                Enumerable.Range(1, totalExecutions),
-                parallelOptions,
+            var executedCount = await _loadProfileRunner.RunAsync(
+                loadSchedule,
                 async (executionNumber, ct) =>
                 {
+                    var scenarioQuery = schedule.GetQuery(executionNumber);
+                    var parameterValues = parameterGenerator.Generate(executionNumber);
                     var executionId = Guid.NewGuid();
                     executionGuids[executionNumber] = executionId;
                     var startTime = DateTime.UtcNow;
                     executionStartTimes[executionNumber] = startTime;
 
                     // Send execution boundary (start)
-                    await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, startTime, true, ct);
+                    await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, startTime, true, ct, scenarioQuery.Name, parameterValues);
 
                     try
                     {
                         // Set context_info before executing query and calculate data size
-                        var dataSizeBytes = await _queryExecutor.ExecuteQueryWithContextInfoAsync(connectionString, query, executionNumber, ct);
+                        var captureActualPlan = planCollector.ShouldCapture(executionNumber);
+                        var result = await _queryExecutor.ExecuteQueryWithContextInfoAsync(connectionString, scenarioQuery.Query, executionNumber, ct, parameterValues, captureActualPlan);
+                        var dataSizeBytes = result.DataSizeBytes;
                         executionDataSizes[executionNumber] = dataSizeBytes;
 
                         var endTime = DateTime.UtcNow;
+
+                        if (captureActualPlan && result.ShowplanXml.Count > 0)
+                        {
+                            planCollector.Add(new ExecutionPlan
+                            {
+                                ExecutionNumber = executionNumber,
+                                ExecutionId = executionId,
+                                QueryName = scenarioQuery.Name,
+                                DurationMs = (endTime - startTime).TotalMilliseconds,
+                                ShowplanXml = result.ShowplanXml,
+                                Timestamp = endTime,
+                                TimestampMs = ((DateTimeOffset)endTime).ToUnixTimeMilliseconds()
+                            });
+                        }
                         
                         // Send execution boundary (end) with data size
-                        await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, endTime, false, ct);
+                        await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, endTime, false, ct, scenarioQuery.Name);
                         
                         // Send execution metrics including data size
                         await _messageSender.SendExecutionMetricsAsync(executionNumber, executionId, dataSizeBytes, ct);
@@ -107,13 +176,23 @@ public class StressTestService : IStressTestService
                         // Process and stream events for this execution
                         await _eventProcessor.ProcessAndStreamEventsAsync(executionId, executionNumber, events, ct);
                     }
+                    catch (Exception ex) when (ct.IsCancellationRequested)
+                    {
+                        _logger.LogDebug(ex, "Execution {ExecutionNumber} cancelled", executionNumber);
+                        await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, DateTime.UtcNow, false, CancellationToken.None, scenarioQuery.Name);
+                        throw new OperationCanceledException(ct);
+                    }
                     catch (Exception ex)
                     {
-                        _logger.LogError(ex, "Error executing query for execution {ExecutionNumber}", executionNumber);
+                        _logger.LogError(ex, "Error executing query {QueryName} for execution {ExecutionNumber}", scenarioQuery.Name, executionNumber);
                         var endTime = DateTime.UtcNow;
-                        await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, endTime, false, ct);
+                        await _messageSender.SendExecutionBoundaryAsync(executionNumber, executionId, endTime, false, ct, scenarioQuery.Name);
                     }
-                });
+                },
+                (concurrency, ct) => _messageSender.SendLoadLevelAsync(concurrency, ct),
+                cancellationToken);
+
+            await SendWaitStatisticsAsync(connectionString, waitsBefore, waitsStartTime);
 
             // Wait a bit for any remaining events to be captured
             await Task.Delay(TimeSpan.FromSeconds(2), cancellationToken);
@@ -128,13 +207,30 @@ public class StressTestService : IStressTestService
                 }
             }
 
+            await SendExecutionPlansAsync(planCollector);
             _logger.LogInformation("Stress test completed. TestId: {TestId}", testId);
 
             return new StressTestResponse
             {
                 Success = true,
                 TestId = testId,
-                Message = $"Stress test completed: {totalExecutions} executions with {parallelExecutions} parallel"
+                Message = loadSchedule.Mode == LoadProfile.FixedMode
+                    ? $"Stress test completed: {totalExecutions} executions with {parallelExecutions} parallel"
+                    : $"Stress test completed: {executedCount} executions over {loadSchedule.Duration!.Value.TotalSeconds:0}s ({loadSchedule.Mode} load profile)"
+            };
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            // The plans and waits captured before the cancellation are still worth keeping
+            await SendWaitStatisticsAsync(connectionString, waitsBefore, waitsStartTime);
+            await SendExecutionPlansAsync(planCollector);
+            _logger.LogInformation("Stress test cancelled. TestId: {TestId}", testId);
+            return new StressTestResponse
+            {
+                Success = false,
+                Cancelled = true,
+                TestId = testId,
+                Message = "Stress test cancelled"
             };
         }
         catch (Exception ex)
@@ -149,5 +245,81 @@ public class StressTestService : IStressTestService
         }
     }
 
-}
+    /// <summary>
+    /// Sends the kept plans once the executions are done; the slowest ones are only known then.
+    /// </summary>
+    private async Task SendExecutionPlansAsync(ExecutionPlanCollector planCollector)
+    {
+        var plans = planCollector.GetPlans();
+        foreach (var plan in plans)
+        {
+            await _messageSender.SendExecutionPlanAsync(plan, CancellationToken.None);
+        }
+
+        if (plans.Count > 0)
+        {
+            _logger.LogInformation("Sent {PlanCount} execution plans", plans.Count);
+        }
+    }
+
+    /// <summary>
+    /// Reads a wait statistics snapshot, or null when the login may not read server state.
+    /// The stress test runs either way; only the wait statistics are missing.
+    /// </summary>
+    private async Task<IReadOnlyList<WaitStatistic>?> ReadWaitStatisticsAsync(string connectionString, CancellationToken cancellationToken)
+    {
+        try
+        {
+            return await _queryExecutor.ReadWaitStatisticsAsync(connectionString, cancellationToken);
+        }
+        catch (Exception ex) when (!cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogWarning(ex, "Could not read wait statistics; VIEW SERVER STATE permission is needed");
+            return null;
+        }
+    }
 
+    /// <summary>
+    /// Sends the waits between the snapshot taken before the executions and one taken now.
+    /// </summary>
+    private async Task SendWaitStatisticsAsync(string connectionString, IReadOnlyList<WaitStatistic>? waitsBefore, DateTime startTime)
+    {
+        if (waitsBefore == null)
+        {
+            return;
+        }
+
+        var waitsAfter = await ReadWaitStatisticsAsync(connectionString, CancellationToken.None);
+        if (waitsAfter == null)
+        {
+            return;
+        }
+
+        var endTime = DateTime.UtcNow;
+        var waitStatistics = new WaitStatisticsData
+        {
+            StartTime = startTime,
+            EndTime = endTime,
+            Waits = _waitStatisticsCalculator.CalculateDelta(waitsBefore, waitsAfter).ToList(),
+            TimestampMs = ((DateTimeOffset)endTime).ToUnixTimeMilliseconds()
+        };
+        await _messageSender.SendWaitStatisticsAsync(waitStatistics, CancellationToken.None);
+        _logger.LogInformation("Sent wait statistics for {WaitTypeCount} wait types", waitStatistics.Waits.Count);
+    }
+
+    private async Task<IReadOnlyDictionary<string, IReadOnlyList<object?>>> LoadLookupValuesAsync(
+        string connectionString,
+        IReadOnlyList<QueryParameter> parameters,
+        CancellationToken cancellationToken)
+    {
+        var lookupValues = new Dictionary<string, IReadOnlyList<object?>>(StringComparer.OrdinalIgnoreCase);
+        foreach (var parameter in parameters.Where(p => p.Generator == QueryParameter.LookupQueryGenerator))
+        {
+            var values = await _queryExecutor.ExecuteLookupQueryAsync(connectionString, parameter.LookupQuery!, cancellationToken);
+            _logger.LogInformation("Loaded {ValueCount} lookup values for parameter {ParameterName}", values.Count, parameter.ParameterName);
+            lookupValues[parameter.ParameterName] = values;
+        }
+
+        return lookupValues;
+    }
+}
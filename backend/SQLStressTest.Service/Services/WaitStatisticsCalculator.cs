@@ -0,0 +1,90 @@
+using SQLStressTest.Service.Models;
+
+namespace SQLStressTest.Service.Services;
+
+/// <summary>
+/// Calculates the waits of a stress test from sys.dm_os_wait_stats snapshots taken before and after it.
+/// Background waits that accumulate on an idle server are left out, so the top waits explain the run.
+/// Single Responsibility: Wait statistics calculation only.
+/// </summary>
+public class WaitStatisticsCalculator
+{
+    /// <summary>
+    /// Number of wait types kept for a run.
+    /// </summary>
+    public const int DefaultTopCount = 20;
+
+    // Waits of system tasks that sleep or wait for work, not of the queries under test
+    private static readonly HashSet<string> IdleWaitTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "BROKER_EVENTHANDLER", "BROKER_RECEIVE_WAITFOR", "BROKER_TASK_STOP", "BROKER_TO_FLUSH",
+        "BROKER_TRANSMITTER", "CHECKPOINT_QUEUE", "CHKPT", "CLR_AUTO_EVENT", "CLR_MANUAL_EVENT",
+        "CLR_SEMAPHORE", "DBMIRROR_DBM_EVENT", "DBMIRROR_EVENTS_QUEUE", "DBMIRROR_WORKER_QUEUE",
+        "DBMIRRORING_CMD", "DIRTY_PAGE_POLL", "DISPATCHER_QUEUE_SEMAPHORE", "EXECSYNC", "FSAGENT",
+        "FT_IFTS_SCHEDULER_IDLE_WAIT", "FT_IFTSHC_MUTEX", "HADR_CLUSAPI_CALL",
+        "HADR_FILESTREAM_IOMGR_IOCOMPLETION", "HADR_LOGCAPTURE_WAIT", "HADR_NOTIFICATION_DEQUEUE",
+        "HADR_TIMER_TASK", "HADR_WORK_QUEUE", "KSOURCE_WAKEUP", "LAZYWRITER_SLEEP", "LOGMGR_QUEUE",
+        "MEMORY_ALLOCATION_EXT", "ONDEMAND_TASK_QUEUE", "PARALLEL_REDO_DRAIN_WORKER",
+        "PARALLEL_REDO_LOG_CACHE", "PARALLEL_REDO_TRAN_LIST", "PARALLEL_REDO_WORKER_SYNC",
+        "PARALLEL_REDO_WORKER_WAIT_WORK", "PREEMPTIVE_XE_GETTARGETSTATE", "PWAIT_ALL_COMPONENTS_INITIALIZED",
+        "PWAIT_DIRECTLOGCONSUMER_GETNEXT", "PWAIT_EXTENSIBILITY_CLEANUP_TASK",
+        "QDS_PERSIST_TASK_MAIN_LOOP_SLEEP", "QDS_ASYNC_QUEUE", "QDS_CLEANUP_STALE_QUERIES_TASK_MAIN_LOOP_SLEEP",
+        "QDS_SHUTDOWN_QUEUE", "REDO_THREAD_PENDING_WORK", "REQUEST_FOR_DEADLOCK_SEARCH",
+        "RESOURCE_QUEUE", "SERVER_IDLE_CHECK", "SLEEP_BPOOL_FLUSH", "SLEEP_DBSTARTUP",
+        "SLEEP_DCOMSTARTUP", "SLEEP_MASTERDBREADY", "SLEEP_MASTERMDREADY", "SLEEP_MASTERUPGRADED",
+        "SLEEP_MSDBSTARTUP", "SLEEP_SYSTEMTASK", "SLEEP_TASK", "SLEEP_TEMPDBSTARTUP",
+        "SNI_HTTP_ACCEPT", "SOS_WORK_DISPATCHER", "SP_SERVER_DIAGNOSTICS_SLEEP",
+        "SQLTRACE_BUFFER_FLUSH", "SQLTRACE_INCREMENTAL_FLUSH_SLEEP", "SQLTRACE_WAIT_ENTRIES",
+        "VDI_CLIENT_OTHER", "WAIT_FOR_RESULTS", "WAITFOR", "WAITFOR_TASKSHUTDOWN",
+        "WAIT_XTP_RECOVERY", "WAIT_XTP_HOST_WAIT", "WAIT_XTP_OFFLINE_CKPT_NEW_LOG", "WAIT_XTP_CKPT_CLOSE",
+        "XE_DISPATCHER_JOIN", "XE_DISPATCHER_WAIT", "XE_LIVE_TARGET_TVF", "XE_TIMER_EVENT"
+    };
+
+    /// <summary>
+    /// Returns the wait types that accumulated wait time between the snapshots, longest first.
+    /// A wait type missing from the first snapshot, or whose counters went down because the
+    /// statistics were cleared during the run, counts from zero.
+    /// </summary>
+    public IReadOnlyList<WaitStatistic> CalculateDelta(
+        IReadOnlyList<WaitStatistic> before,
+        IReadOnlyList<WaitStatistic> after,
+        int topCount = DefaultTopCount)
+    {
+        if (before == null)
+        {
+            throw new ArgumentNullException(nameof(before));
+        }
+
+        if (after == null)
+        {
+            throw new ArgumentNullException(nameof(after));
+        }
+
+        var previous = before
+            .GroupBy(w => w.WaitType, StringComparer.OrdinalIgnoreCase)
+            .ToDictionary(g => g.Key, g => g.First(), StringComparer.OrdinalIgnoreCase);
+
+        return after
+            .Where(w => !IdleWaitTypes.Contains(w.WaitType))
+            .Select(w =>
+            {
+                if (!previous.TryGetValue(w.WaitType, out var start) || w.WaitTimeMs < start.WaitTimeMs)
+                {
+                    return w;
+                }
+
+                return new WaitStatistic
+                {
+                    WaitType = w.WaitType,
+                    WaitingTasksCount = Math.Max(w.WaitingTasksCount - start.WaitingTasksCount, 0),
+                    WaitTimeMs = w.WaitTimeMs - start.WaitTimeMs,
+                    SignalWaitTimeMs = Math.Max(w.SignalWaitTimeMs - start.SignalWaitTimeMs, 0)
+                };
+            })
+            .Where(w => w.WaitTimeMs > 0)
+            .OrderByDescending(w => w.WaitTimeMs)
+            .ThenBy(w => w.WaitType, StringComparer.Ordinal)
+            .Take(topCount)
+            .ToList();
+    }
+}
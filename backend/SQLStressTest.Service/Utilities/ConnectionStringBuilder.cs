@@ -1,3 +1,5 @@
+using Microsoft.Data.SqlClient;
+using Microsoft.Extensions.Logging;
 using SQLStressTest.Service.Interfaces;
 using SQLStressTest.Service.Models;
 
@@ -5,9 +7,25 @@ namespace SQLStressTest.Service.Utilities;
 
 public class ConnectionStringBuilder : IConnectionStringBuilder
 {
+    // Keywords for the server, database and login, which only the connection's own settings may set
+    private static readonly HashSet<string> ConnectionFieldKeywords = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "Data Source", "Server", "Address", "Addr", "Network Address",
+        "Initial Catalog", "Database",
+        "User ID", "UID", "User", "Password", "PWD",
+        "Integrated Security", "Trusted_Connection"
+    };
+
+    private readonly ILogger<ConnectionStringBuilder>? _logger;
+
+    public ConnectionStringBuilder(ILogger<ConnectionStringBuilder>? logger = null)
+    {
+        _logger = logger;
+    }
+
     public string Build(ConnectionConfig config)
     {
-        var builder = new Microsoft.Data.SqlClient.SqlConnectionStringBuilder
+        var builder = new SqlConnectionStringBuilder
         {
             DataSource = config.Port.HasValue 
                 ? $"{config.Server},{config.Port.Value}" 
@@ -22,17 +40,27 @@ public class ConnectionStringBuilder : IConnectionStringBuilder
             builder.Password = config.Password ?? string.Empty;
         }
 
-        builder.TrustServerCertificate = true; // For development
-        
-        // Use shorter timeout in testing environment for faster test execution
-        var isTesting = Environment.GetEnvironmentVariable("ASPNETCORE_ENVIRONMENT") == "Testing";
-        builder.ConnectTimeout = isTesting ? 1 : 30;
-        
-        // For testing, also set CommandTimeout to prevent long-running queries
-        if (isTesting)
+        // Free-form keywords go before the options below so the connection's own options take precedence
+        if (config.AdditionalKeywords != null)
+        {
+            foreach (var (keyword, value) in config.AdditionalKeywords)
+            {
+                ApplyAdditionalKeyword(builder, config, keyword.Trim(), value);
+            }
+        }
+
+        builder.TrustServerCertificate = config.TrustServerCertificate ?? true; // Trusted for development unless the connection says otherwise
+        if (TryParseEncrypt(config, out var encrypt))
+        {
+            builder.Encrypt = encrypt;
+        }
+
+        ApplyConnectionOptions(builder, config);
+
+        if (config.CommandTimeout.HasValue)
         {
-            // This will be set on the SqlCommand, but we can't do it here
-            // The connection timeout of 1 second should be sufficient
+            // Default timeout of every command on the connection
+            builder.CommandTimeout = config.CommandTimeout.Value;
         }
 
         return builder.ConnectionString;
@@ -44,7 +72,7 @@ public class ConnectionStringBuilder : IConnectionStringBuilder
     /// </summary>
     public string BuildForExtendedEvents(ConnectionConfig config)
     {
-        var builder = new Microsoft.Data.SqlClient.SqlConnectionStringBuilder
+        var builder = new SqlConnectionStringBuilder
         {
             DataSource = config.Port.HasValue 
                 ? $"{config.Server},{config.Port.Value}" 
@@ -61,12 +89,94 @@ public class ConnectionStringBuilder : IConnectionStringBuilder
 
         // NOTE: Do NOT set TrustServerCertificate here - System.Data.SqlClient doesn't support it
         // Extended Events will work without it, or you can configure the server to trust the certificate
-        
+
+        // System.Data.SqlClient only knows Encrypt=True/False, so Strict falls back to Mandatory.
+        // Command Timeout and the additional keywords are left out for the same reason.
+        if (TryParseEncrypt(config, out var encrypt))
+        {
+            builder.Encrypt = encrypt.Equals(SqlConnectionEncryptOption.Strict) ? SqlConnectionEncryptOption.Mandatory : encrypt;
+        }
+
+        ApplyConnectionOptions(builder, config);
+
+        return builder.ConnectionString;
+    }
+
+    // Options both SqlClient flavours understand
+    private void ApplyConnectionOptions(SqlConnectionStringBuilder builder, ConnectionConfig config)
+    {
         // Use shorter timeout in testing environment for faster test execution
         var isTesting = Environment.GetEnvironmentVariable("ASPNETCORE_ENVIRONMENT") == "Testing";
-        builder.ConnectTimeout = isTesting ? 1 : 30;
+        builder.ConnectTimeout = isTesting ? 1 : config.ConnectTimeout ?? 30;
 
-        return builder.ConnectionString;
+        if (!string.IsNullOrEmpty(config.ApplicationName))
+        {
+            builder.ApplicationName = config.ApplicationName;
+        }
+
+        if (!string.IsNullOrEmpty(config.ApplicationIntent))
+        {
+            if (Enum.TryParse<ApplicationIntent>(config.ApplicationIntent, ignoreCase: true, out var applicationIntent)
+                && Enum.IsDefined(applicationIntent))
+            {
+                builder.ApplicationIntent = applicationIntent;
+            }
+            else
+            {
+                _logger?.LogWarning("Ignoring ApplicationIntent {ApplicationIntent} of connection {ConnectionId}: expected ReadWrite or ReadOnly",
+                    config.ApplicationIntent, config.Id);
+            }
+        }
+
+        if (config.MultiSubnetFailover.HasValue)
+        {
+            builder.MultiSubnetFailover = config.MultiSubnetFailover.Value;
+        }
     }
-}
 
+    // Connections edited by hand or shared through a file may carry keywords SqlClient rejects;
+    // they are skipped so the rest of the connection still works
+    private void ApplyAdditionalKeyword(SqlConnectionStringBuilder builder, ConnectionConfig config, string keyword, string value)
+    {
+        if (ConnectionFieldKeywords.Contains(keyword))
+        {
+            _logger?.LogWarning("Ignoring keyword {Keyword} of connection {ConnectionId}: the server, database and login come from the connection's own settings",
+                keyword, config.Id);
+            return;
+        }
+
+        if (!builder.ContainsKey(keyword))
+        {
+            _logger?.LogWarning("Ignoring keyword {Keyword} of connection {ConnectionId}: SqlClient does not support it", keyword, config.Id);
+            return;
+        }
+
+        try
+        {
+            builder[keyword] = value;
+        }
+        catch (Exception ex) when (ex is ArgumentException or FormatException)
+        {
+            _logger?.LogWarning(ex, "Ignoring keyword {Keyword} of connection {ConnectionId}: SqlClient does not accept the value {Value}",
+                keyword, config.Id, value);
+        }
+    }
+
+    private bool TryParseEncrypt(ConnectionConfig config, out SqlConnectionEncryptOption encrypt)
+    {
+        encrypt = SqlConnectionEncryptOption.Optional;
+        if (string.IsNullOrEmpty(config.Encrypt))
+        {
+            return false;
+        }
+
+        if (SqlConnectionEncryptOption.TryParse(config.Encrypt, out var parsed))
+        {
+            encrypt = parsed;
+            return true;
+        }
+
+        _logger?.LogWarning("Ignoring Encrypt {Encrypt} of connection {ConnectionId}: expected Optional, Mandatory or Strict", config.Encrypt, config.Id);
+        return false;
+    }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { CliUsageError, parseCliArguments } from '../../cli/cliOptions';
+import { parseConnectionsFile } from '../../cli/cliStorageService';
+
+describe('parseCliArguments', () => {
+    it('should parse the definition, reports and thresholds', () => {
+        const options = parseCliArguments([
+            'tests/orders.sqlstress.json',
+            '--connections', 'ci/connections.json',
+            '--backend-url', 'http://localhost:5000/',
+            '--json', 'reports/orders.json',
+            '--junit', 'reports/orders.xml',
+            '--threshold', 'avg duration < 200ms',
+            '--threshold', 'Error Rate <= 1%',
+            '--timeout', '900',
+            '--settle', '0'
+        ]);
+
+        expect(options).toMatchObject({
+            definitionPath: 'tests/orders.sqlstress.json',
+            connectionsPath: 'ci/connections.json',
+            backendUrl: 'http://localhost:5000',
+            jsonReportPath: 'reports/orders.json',
+            junitReportPath: 'reports/orders.xml',
+            timeoutSeconds: 900,
+            settleSeconds: 0,
+            verbose: false
+        });
+        expect(options.thresholds.map(t => [t.metric, t.operator, t.value])).toEqual([
+            ['avgDuration', '<', 200],
+            ['errorRate', '<=', 1]
+        ]);
+    });
+
+    it('should report the first problem found', () => {
+        expect(() => parseCliArguments(['--connections', 'c.json'])).toThrow('Expected exactly one stress test definition file');
+        expect(() => parseCliArguments(['a.sqlstress.json'])).toThrow('--connections is required');
+        expect(() => parseCliArguments(['a.sqlstress.json', '--connections'])).toThrow('--connections needs a value');
+        expect(() => parseCliArguments(['a.sqlstress.json', '--connections', 'c.json', '--timeout', '0']))
+            .toThrow('--timeout must be a positive number of seconds');
+        expect(() => parseCliArguments(['a.sqlstress.json', '--connections', 'c.json', '--threshold', 'p42 duration < 1s']))
+            .toThrow(/Unknown metric "p42 duration"/);
+        expect(() => parseCliArguments(['a.sqlstress.json', '--connections', 'c.json', '--dry-run'])).toThrow(CliUsageError);
+    });
+});
+
+describe('parseConnectionsFile', () => {
+    it('should read passwords from environment variables', () => {
+        const connections = parseConnectionsFile(JSON.stringify([
+            { name: 'Nightly', server: 'sql01', database: 'Shop', username: 'ci', passwordEnv: 'SQL_PASSWORD' },
+            { id: 'local', name: 'Local', server: 'localhost', integratedSecurity: true }
+        ]), { SQL_PASSWORD: 's3cret' });
+
+        expect(connections).toEqual([
+            { id: 'cli-connection-1', name: 'Nightly', server: 'sql01', database: 'Shop', username: 'ci', password: 's3cret', integratedSecurity: false, port: undefined },
+            { id: 'local', name: 'Local', server: 'localhost', database: undefined, username: undefined, password: undefined, integratedSecurity: true, port: undefined }
+        ]);
+    });
+
+    it('should reject passwords in the file and missing variables', () => {
+        expect(() => parseConnectionsFile('[{ "name": "a", "server": "s", "password": "p" }]', {}))
+            .toThrow('Connection "a" must not contain a password; use "passwordEnv" instead');
+        expect(() => parseConnectionsFile('[{ "name": "a", "server": "s", "passwordEnv": "MISSING" }]', {}))
+            .toThrow('Environment variable MISSING for connection "a" is not set');
+        expect(() => parseConnectionsFile('{}', {})).toThrow('Connections file must contain a JSON array');
+    });
+});
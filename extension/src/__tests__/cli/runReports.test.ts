@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { StressTestRunCollector } from '../../cli/stressTestRunCollector';
+import { evaluateAssertions, parseAssertion } from '../../services/runAssertions';
+import { formatJsonReport, formatJUnitReport } from '../../cli/runReports';
+
+// sql_batch_completed reports its duration in microseconds
+function completedEvent(executionNumber: number, duration: number, result: string = 'OK') {
+    return {
+        eventName: 'sql_batch_completed',
+        timestamp: new Date(1700000000000 + executionNumber * 10).toISOString(),
+        executionId: `id-${executionNumber}`,
+        executionNumber,
+        eventFields: { duration: duration * 1000, result },
+        actions: {}
+    };
+}
+
+function collectRun() {
+    const collector = new StressTestRunCollector();
+    collector.addExecutionBoundary({ executionNumber: 1, executionId: 'id-1', startTime: '', isStart: true, timestampMs: 1000, queryName: 'read' });
+    collector.addExtendedEvent(completedEvent(1, 100));
+    collector.addExecutionBoundary({ executionNumber: 2, executionId: 'id-2', startTime: '', isStart: true, timestampMs: 1000, queryName: 'write' });
+    collector.addExtendedEvent(completedEvent(2, 300, 'Error'));
+    collector.addExecutionMetrics({ executionNumber: 2, executionId: 'id-2', dataSizeBytes: 64, timestamp: '', timestampMs: 1300 });
+    // No Extended Event for this one, so its duration comes from the boundaries
+    collector.addExecutionBoundary({ executionNumber: 3, executionId: 'id-3', startTime: '', isStart: true, timestampMs: 2000, queryName: 'read' });
+    collector.addExecutionBoundary({ executionNumber: 3, executionId: 'id-3', startTime: '', isStart: false, timestampMs: 2200 });
+    collector.addExtendedEvent({ ...completedEvent(4, 999), eventName: 'wait_info' });
+
+    return collector.summarize({
+        name: 'Order mix',
+        connection: 'Nightly',
+        testId: 'test-1',
+        status: 'completed',
+        message: 'Stress test completed',
+        startTime: 1700000000000,
+        endTime: 1700000002500
+    });
+}
+
+describe('StressTestRunCollector', () => {
+    it('should summarize executions, failures and scenario queries', () => {
+        const summary = collectRun();
+
+        expect(summary).toMatchObject({
+            executionCount: 3,
+            failedExecutionCount: 1,
+            avgDuration: 200,
+            minDuration: 100,
+            maxDuration: 300,
+            durationPercentiles: { p50: 200, p90: 300, p95: 300, p99: 300 },
+            avgDataSizeBytes: 64,
+            startTime: '2023-11-14T22:13:20.000Z',
+            endTime: '2023-11-14T22:13:22.500Z'
+        });
+        expect(summary.errorRatePercent).toBeCloseTo(33.33, 2);
+        expect(summary.queries).toEqual([
+            { queryName: 'read', executionCount: 2, avgDuration: 150, minDuration: 100, maxDuration: 200 },
+            { queryName: 'write', executionCount: 1, avgDuration: 300, minDuration: 300, maxDuration: 300 }
+        ]);
+    });
+});
+
+describe('runReports', () => {
+    it('should write the verdict of every threshold to the JSON report', () => {
+        const summary = collectRun();
+        const results = evaluateAssertions(summary, [parseAssertion('failed executions < 1')]);
+        const report = JSON.parse(formatJsonReport(summary, results));
+
+        expect(report).toMatchObject({ name: 'Order mix', status: 'completed', executionCount: 3, passed: false });
+        expect(report.thresholds).toEqual([{ expression: 'failed executions < 1', actual: 1, passed: false }]);
+    });
+
+    it('should write a JUnit test case for the run and each threshold', () => {
+        const summary = { ...collectRun(), name: 'Orders <nightly>' };
+        const xml = formatJUnitReport(summary, evaluateAssertions(summary, [
+            parseAssertion('avg duration < 500ms'),
+            parseAssertion('max duration < 250ms')
+        ]));
+
+        expect(xml).toContain('<testsuite name="Orders &lt;nightly&gt;" tests="3" failures="1" errors="0" time="2.500"');
+        expect(xml).toContain('<testcase classname="sqlstress.Orders &lt;nightly&gt;" name="run" time="2.500"></testcase>');
+        expect(xml).toContain('<testcase classname="sqlstress.Orders &lt;nightly&gt;" name="avg duration &lt; 500ms" time="0"></testcase>');
+        expect(xml).toContain('<failure message="Expected max duration &lt; 250ms, was 300ms"/>');
+    });
+
+    it('should fail the run test case when the stress test did not complete', () => {
+        const summary = { ...collectRun(), status: 'cancelled' as const, error: 'Timed out after 60 seconds' };
+        const xml = formatJUnitReport(summary, []);
+
+        expect(xml).toContain('failures="1"');
+        expect(xml).toContain('<failure message="Stress test cancelled: Timed out after 60 seconds"/>');
+    });
+});
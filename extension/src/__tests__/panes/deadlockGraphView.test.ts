@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DeadlockGraphView } from '../../panes/deadlockGraphView';
+import { RunHistoryStorageService } from '../../services/runHistoryStorageService';
+import { HistoricalRun } from '../../services/storage';
+import { BlockingReportEventData } from '../../services/websocketClient';
+
+vi.mock('vscode', () => ({
+    window: {
+        createWebviewPanel: vi.fn(),
+        createOutputChannel: vi.fn(() => ({
+            append: vi.fn(),
+            appendLine: vi.fn(),
+            show: vi.fn(),
+            dispose: vi.fn()
+        })),
+        showQuickPick: vi.fn(),
+        showInformationMessage: vi.fn(),
+        showTextDocument: vi.fn()
+    },
+    workspace: {
+        openTextDocument: vi.fn(async (options: unknown) => options)
+    },
+    ViewColumn: {
+        Active: -1
+    }
+}));
+
+describe('DeadlockGraphView', () => {
+    let mockPanel: any;
+    let messageHandler: (message: any) => Promise<void>;
+    let runHistory: { loadRuns: ReturnType<typeof vi.fn>; loadBlockingReports: ReturnType<typeof vi.fn> };
+    let view: DeadlockGraphView;
+
+    const run = (runId: number, deadlockCount?: number, blockedProcessReportCount?: number): HistoricalRun => ({
+        runId,
+        startTime: Date.now(),
+        endTime: Date.now(),
+        avgDuration: 20,
+        minDuration: 5,
+        maxDuration: 80,
+        executionCount: 10,
+        deadlockCount,
+        blockedProcessReportCount
+    });
+
+    const deadlock = (executionNumber: number): BlockingReportEventData => ({
+        eventName: 'xml_deadlock_report',
+        timestamp: '2026-01-15T09:30:00Z',
+        executionId: `e${executionNumber}`,
+        executionNumber,
+        eventFields: { xml_report: `<deadlock execution="${executionNumber}" />` },
+        actions: {}
+    });
+
+    const blocked: BlockingReportEventData = {
+        eventName: 'blocked_process_report',
+        timestamp: '2026-01-15T09:30:05Z',
+        executionId: 'e4',
+        executionNumber: 4,
+        eventFields: { blocked_process: '<blocked-process-report />', duration: 5000000 },
+        actions: {}
+    };
+
+    const postedMessage = () => mockPanel.webview.postMessage.mock.calls.at(-1)[0];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockPanel = {
+            title: '',
+            webview: {
+                html: '',
+                postMessage: vi.fn(),
+                onDidReceiveMessage: vi.fn((handler) => {
+                    messageHandler = handler;
+                })
+            },
+            reveal: vi.fn(),
+            dispose: vi.fn(),
+            onDidDispose: vi.fn()
+        };
+        (vscode.window.createWebviewPanel as any).mockReturnValue(mockPanel);
+        runHistory = {
+            loadRuns: vi.fn(async () => [run(1, 2, 0), run(2), run(3, 0, 1)]),
+            loadBlockingReports: vi.fn(async (runId: number) => runId === 1 ? [deadlock(1), deadlock(6)] : [blocked])
+        };
+        const context = { extensionPath: path.join(__dirname, '..', '..', '..') } as vscode.ExtensionContext;
+        view = new DeadlockGraphView(context, undefined, runHistory as unknown as RunHistoryStorageService);
+    });
+
+    it('should offer only the runs with reports and show the reports of the picked run', async () => {
+        (vscode.window.showQuickPick as any).mockImplementationOnce(
+            async (items: { run: HistoricalRun }[]) => items.find(i => i.run.runId === 1)
+        );
+
+        await view.show();
+
+        const items = (vscode.window.showQuickPick as any).mock.calls[0][0];
+        expect(items.map((i: { label: string }) => i.label)).toEqual(['Run #3', 'Run #1']);
+        expect(items.map((i: { detail: string }) => i.detail)).toEqual([
+            '0 deadlocks · 1 blocked process report',
+            '2 deadlocks · 0 blocked process reports'
+        ]);
+        expect(runHistory.loadBlockingReports).toHaveBeenCalledWith(1);
+        expect(postedMessage()).toEqual({ command: 'showReports', runId: 1, reports: [deadlock(1), deadlock(6)] });
+        expect(mockPanel.title).toBe('Deadlocks - Run #1');
+        expect(mockPanel.webview.html).toContain('id="reportSelect"');
+    });
+
+    it('should show the given reports without loading them', async () => {
+        await view.show(4, [blocked]);
+
+        expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+        expect(runHistory.loadBlockingReports).not.toHaveBeenCalled();
+        expect(postedMessage().reports).toEqual([blocked]);
+    });
+
+    it('should open the XML of a report in an editor', async () => {
+        await view.show(1);
+
+        await messageHandler({ command: 'openReportXml', index: 1 });
+
+        expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({
+            content: '<deadlock execution="6" />',
+            language: 'xml'
+        });
+        expect(vscode.window.showTextDocument).toHaveBeenCalled();
+    });
+
+    it('should explain when a run has no reports', async () => {
+        runHistory.loadBlockingReports.mockResolvedValue([]);
+
+        await view.show(2);
+
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Run #2 had no deadlocks or blocked processes.');
+        expect(vscode.window.createWebviewPanel).not.toHaveBeenCalled();
+    });
+});
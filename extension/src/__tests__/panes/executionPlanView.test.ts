@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ExecutionPlanView } from '../../panes/executionPlanView';
+import { RunHistoryStorageService } from '../../services/runHistoryStorageService';
+import { HistoricalRun } from '../../services/storage';
+import { ExecutionPlan } from '../../services/websocketClient';
+
+vi.mock('vscode', () => ({
+    window: {
+        createWebviewPanel: vi.fn(),
+        createOutputChannel: vi.fn(() => ({
+            append: vi.fn(),
+            appendLine: vi.fn(),
+            show: vi.fn(),
+            dispose: vi.fn()
+        })),
+        showQuickPick: vi.fn(),
+        showInformationMessage: vi.fn(),
+        showTextDocument: vi.fn()
+    },
+    workspace: {
+        openTextDocument: vi.fn(async (options: unknown) => options)
+    },
+    ViewColumn: {
+        Active: -1
+    }
+}));
+
+describe('ExecutionPlanView', () => {
+    let mockPanel: any;
+    let messageHandler: (message: any) => Promise<void>;
+    let runHistory: { loadRuns: ReturnType<typeof vi.fn>; loadExecutionPlans: ReturnType<typeof vi.fn> };
+    let view: ExecutionPlanView;
+
+    const run = (runId: number, executionPlanCount?: number): HistoricalRun => ({
+        runId,
+        startTime: Date.now(),
+        endTime: Date.now(),
+        avgDuration: 20,
+        minDuration: 5,
+        maxDuration: 80,
+        executionCount: 10,
+        executionPlanCount
+    });
+
+    const plan = (executionNumber: number): ExecutionPlan => ({
+        executionNumber,
+        executionId: `e${executionNumber}`,
+        durationMs: 120,
+        showplanXml: [`<ShowPlanXML execution="${executionNumber}" />`],
+        timestamp: '2026-01-15T09:30:00Z',
+        timestampMs: 1
+    });
+
+    const postedMessage = () => mockPanel.webview.postMessage.mock.calls.at(-1)[0];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockPanel = {
+            title: '',
+            webview: {
+                html: '',
+                postMessage: vi.fn(),
+                onDidReceiveMessage: vi.fn((handler) => {
+                    messageHandler = handler;
+                })
+            },
+            reveal: vi.fn(),
+            dispose: vi.fn(),
+            onDidDispose: vi.fn()
+        };
+        (vscode.window.createWebviewPanel as any).mockReturnValue(mockPanel);
+        runHistory = {
+            loadRuns: vi.fn(async () => [run(1, 2), run(2), run(3, 1)]),
+            loadExecutionPlans: vi.fn(async (runId: number) => runId === 1 ? [plan(1), plan(11)] : [plan(5)])
+        };
+        const context = { extensionPath: path.join(__dirname, '..', '..', '..') } as vscode.ExtensionContext;
+        view = new ExecutionPlanView(context, undefined, runHistory as unknown as RunHistoryStorageService);
+    });
+
+    it('should offer only the runs with execution plans and show the plans of the picked run', async () => {
+        (vscode.window.showQuickPick as any).mockImplementationOnce(
+            async (items: { run: HistoricalRun }[]) => items.find(i => i.run.runId === 1)
+        );
+
+        await view.show();
+
+        const items = (vscode.window.showQuickPick as any).mock.calls[0][0];
+        expect(items.map((i: { label: string }) => i.label)).toEqual(['Run #3', 'Run #1']);
+        expect(items[1].detail).toBe('2 execution plans');
+        expect(runHistory.loadExecutionPlans).toHaveBeenCalledWith(1);
+        expect(postedMessage()).toEqual({ command: 'showPlans', runId: 1, plans: [plan(1), plan(11)] });
+        expect(mockPanel.title).toBe('Execution Plans - Run #1');
+        expect(mockPanel.webview.html).toContain('id="planSelect"');
+    });
+
+    it('should show the given plans without loading them', async () => {
+        await view.show(4, [plan(7)]);
+
+        expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+        expect(runHistory.loadExecutionPlans).not.toHaveBeenCalled();
+        expect(postedMessage().plans).toEqual([plan(7)]);
+    });
+
+    it('should open the showplan XML of an execution in an editor', async () => {
+        await view.show(1);
+
+        await messageHandler({ command: 'openPlanXml', executionNumber: 11 });
+
+        expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith({
+            content: '<ShowPlanXML execution="11" />',
+            language: 'xml'
+        });
+        expect(vscode.window.showTextDocument).toHaveBeenCalled();
+    });
+
+    it('should explain when a run has no execution plans', async () => {
+        runHistory.loadExecutionPlans.mockResolvedValue([]);
+
+        await view.show(2);
+
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Run #2 has no captured execution plans.');
+        expect(vscode.window.createWebviewPanel).not.toHaveBeenCalled();
+    });
+});
@@ -22,14 +22,17 @@ vi.mock('vscode', () => ({
         withProgress: vi.fn()
     },
     workspace: {
-        getConfiguration: vi.fn(),
+        getConfiguration: vi.fn(() => ({
+            get: vi.fn((_key: string, defaultValue?: unknown) => defaultValue)
+        })),
         workspaceState: {
             get: vi.fn(),
             update: vi.fn()
         }
     },
     commands: {
-        registerCommand: vi.fn()
+        registerCommand: vi.fn(),
+        executeCommand: vi.fn()
     },
     ViewColumn: {
         One: 1,
@@ -57,7 +60,7 @@ describe('HistoricalMetricsView', () => {
         mockContext = {
             extensionPath: '/mock/extension/path',
             workspaceState: {
-                get: vi.fn(),
+                get: vi.fn((_key: string, defaultValue?: unknown) => defaultValue),
                 update: vi.fn()
             }
         } as vscode.ExtensionContext;
@@ -85,7 +88,11 @@ describe('HistoricalMetricsView', () => {
             onExecutionBoundary: vi.fn(),
             offExecutionBoundary: vi.fn(),
             onExecutionMetrics: vi.fn(),
-            offExecutionMetrics: vi.fn()
+            offExecutionMetrics: vi.fn(),
+            onExecutionPlan: vi.fn(),
+            offExecutionPlan: vi.fn(),
+            onWaitStatistics: vi.fn(),
+            offWaitStatistics: vi.fn()
         };
 
         view = new HistoricalMetricsView(mockContext, mockWebSocketClient);
@@ -156,7 +163,7 @@ describe('HistoricalMetricsView', () => {
                 executionId: 'test-id',
                 executionNumber: 1,
                 eventFields: {
-                    duration: 100,
+                    duration: 100000,
                     row_count: 50
                 },
                 actions: {}
@@ -268,7 +275,7 @@ describe('HistoricalMetricsView', () => {
                 timestamp: new Date(baseTime1).toISOString(), 
                 executionId: 'batch1-exec1', 
                 executionNumber: 1, 
-                eventFields: { duration: 150 }, 
+                eventFields: { duration: 150000 }, 
                 actions: {} 
             });
             metricsCallback({ 
@@ -332,7 +339,7 @@ describe('HistoricalMetricsView', () => {
             view.startStressTest();
             const baseTime1 = Date.now();
             boundaryCallback({ executionNumber: 1, executionId: 'batch1', startTime: new Date(baseTime1).toISOString(), isStart: true, timestampMs: baseTime1 });
-            eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(baseTime1).toISOString(), executionId: 'batch1', executionNumber: 1, eventFields: { duration: 100 }, actions: {} });
+            eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(baseTime1).toISOString(), executionId: 'batch1', executionNumber: 1, eventFields: { duration: 100000 }, actions: {} });
             metricsCallback({ executionNumber: 1, executionId: 'batch1', dataSizeBytes: 1024, timestamp: new Date(baseTime1).toISOString(), timestampMs: baseTime1 });
             boundaryCallback({ executionNumber: 1, executionId: 'batch1', endTime: new Date(baseTime1 + 100).toISOString(), isStart: false, timestampMs: baseTime1 + 100 });
             view.stopStressTest();
@@ -341,7 +348,7 @@ describe('HistoricalMetricsView', () => {
             view.startStressTest();
             const baseTime2 = Date.now();
             boundaryCallback({ executionNumber: 1, executionId: 'batch2', startTime: new Date(baseTime2).toISOString(), isStart: true, timestampMs: baseTime2 });
-            eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(baseTime2).toISOString(), executionId: 'batch2', executionNumber: 1, eventFields: { duration: 200 }, actions: {} });
+            eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(baseTime2).toISOString(), executionId: 'batch2', executionNumber: 1, eventFields: { duration: 200000 }, actions: {} });
             metricsCallback({ executionNumber: 1, executionId: 'batch2', dataSizeBytes: 2048, timestamp: new Date(baseTime2).toISOString(), timestampMs: baseTime2 });
             boundaryCallback({ executionNumber: 1, executionId: 'batch2', endTime: new Date(baseTime2 + 200).toISOString(), isStart: false, timestampMs: baseTime2 + 200 });
             view.stopStressTest();
@@ -398,7 +405,7 @@ describe('HistoricalMetricsView', () => {
                 timestamp: new Date(now).toISOString(),
                 executionId: 'test-id',
                 executionNumber: 1,
-                eventFields: { duration: 100, row_count: 50 },
+                eventFields: { duration: 100000, row_count: 50 },
                 actions: {}
             });
 
@@ -451,7 +458,7 @@ describe('HistoricalMetricsView', () => {
             for (let i = 1; i <= 3; i++) {
                 const execTime = baseTime1 + (i * 100);
                 boundaryCallback({ executionNumber: i, executionId: `test-id-1-${i}`, startTime: new Date(execTime).toISOString(), isStart: true, timestampMs: execTime });
-                eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(execTime).toISOString(), executionId: `test-id-1-${i}`, executionNumber: i, eventFields: { duration: 100 + i }, actions: {} });
+                eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(execTime).toISOString(), executionId: `test-id-1-${i}`, executionNumber: i, eventFields: { duration: (100 + i) * 1000 }, actions: {} });
                 metricsCallback({ executionNumber: i, executionId: `test-id-1-${i}`, dataSizeBytes: 1024 + i, timestamp: new Date(execTime).toISOString(), timestampMs: execTime });
                 boundaryCallback({ executionNumber: i, executionId: `test-id-1-${i}`, endTime: new Date(execTime + 50).toISOString(), isStart: false, timestampMs: execTime + 50 });
             }
@@ -463,7 +470,7 @@ describe('HistoricalMetricsView', () => {
             for (let i = 1; i <= 3; i++) {
                 const execTime = baseTime2 + (i * 100);
                 boundaryCallback({ executionNumber: i, executionId: `test-id-2-${i}`, startTime: new Date(execTime).toISOString(), isStart: true, timestampMs: execTime });
-                eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(execTime).toISOString(), executionId: `test-id-2-${i}`, executionNumber: i, eventFields: { duration: 200 + i }, actions: {} });
+                eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(execTime).toISOString(), executionId: `test-id-2-${i}`, executionNumber: i, eventFields: { duration: (200 + i) * 1000 }, actions: {} });
                 metricsCallback({ executionNumber: i, executionId: `test-id-2-${i}`, dataSizeBytes: 2048 + i, timestamp: new Date(execTime).toISOString(), timestampMs: execTime });
                 boundaryCallback({ executionNumber: i, executionId: `test-id-2-${i}`, endTime: new Date(execTime + 50).toISOString(), isStart: false, timestampMs: execTime + 50 });
             }
@@ -509,7 +516,7 @@ describe('HistoricalMetricsView', () => {
                 timestamp: new Date(now).toISOString(),
                 executionId: 'test-id',
                 executionNumber: 1,
-                eventFields: { duration: 100, row_count: 50 },
+                eventFields: { duration: 100000, row_count: 50 },
                 actions: {}
             });
 
@@ -535,6 +542,317 @@ describe('HistoricalMetricsView', () => {
             expect(runCard.executionTime).toBeDefined();
             // Data size might be undefined if no ExecutionMetrics received
         });
+
+        it('should break a scenario run down per query and compare with the previous run', () => {
+            view.show();
+
+            const boundaryCallback = mockWebSocketClient.onExecutionBoundary.mock.calls[0][0];
+            const eventCallback = mockWebSocketClient.onExtendedEventData.mock.calls[0][0];
+            const runScenario = (durations: Record<string, number>) => {
+                view.startStressTest();
+                const now = Date.now();
+                // Executions alternate read, read, write as the weighted schedule would assign them
+                [1, 2, 3].forEach(executionNumber => {
+                    const queryName = executionNumber === 3 ? 'write' : 'read';
+                    boundaryCallback({ executionNumber, executionId: `id-${executionNumber}`, startTime: new Date(now).toISOString(), isStart: true, timestampMs: now, queryName });
+                    eventCallback({ eventName: 'sql_batch_completed', timestamp: new Date(now).toISOString(), executionId: `id-${executionNumber}`, executionNumber, eventFields: { duration: (durations[queryName] + executionNumber) * 1000 }, actions: {} });
+                });
+                view.stopStressTest();
+            };
+
+            runScenario({ read: 10, write: 100 });
+            runScenario({ read: 20, write: 100 });
+
+            const lastUpdate = mockPanel.webview.postMessage.mock.calls
+                .map((call: unknown[]) => call[0] as { command: string; cards: { label: string; queries?: unknown[] }[] })
+                .filter((message: { command: string }) => message.command === 'updateMetrics')
+                .pop();
+            const run2Card = lastUpdate.cards.find((c: { label: string }) => c.label === 'Run #2');
+
+            expect(run2Card.queries).toEqual([
+                { queryName: 'read', executionCount: 2, current: 21.5, previous: 11.5, trend: 'up', unit: 'ms', min: 21, max: 22 },
+                { queryName: 'write', executionCount: 1, current: 103, previous: 103, trend: 'stable', unit: 'ms', min: 103, max: 103 }
+            ]);
+        });
+    });
+
+    describe('assertions', () => {
+        const runWithAssertions = (target: HistoricalMetricsView, assertions: string[], durations: number[], logicalReads: number) => {
+            target.show();
+            const eventCallback = mockWebSocketClient.onExtendedEventData.mock.calls[0][0];
+            target.startStressTest({ connectionId: 'conn-1', query: 'SELECT 1', parallelExecutions: 1, totalExecutions: durations.length, assertions });
+            const now = Date.now();
+            durations.forEach((duration, index) => {
+                eventCallback({
+                    eventName: 'sql_batch_completed',
+                    timestamp: new Date(now).toISOString(),
+                    executionId: `id-${index + 1}`,
+                    executionNumber: index + 1,
+                    eventFields: { duration: duration * 1000, logical_reads: logicalReads, result: index === 0 ? 'Error' : 'OK' },
+                    actions: {}
+                });
+            });
+            target.stopStressTest();
+
+            return mockPanel.webview.postMessage.mock.calls
+                .map((call: unknown[]) => call[0] as { command: string; cards: { label: string; assertions?: unknown[] }[] })
+                .filter((message: { command: string }) => message.command === 'updateMetrics')
+                .pop().cards[0];
+        };
+
+        it('should store the verdicts with the run and show them on its card', () => {
+            const notificationService = { notifyAssertionFailures: vi.fn() } as any;
+            view = new HistoricalMetricsView(mockContext, mockWebSocketClient, undefined, notificationService);
+
+            const card = runWithAssertions(view, ['p95 duration < 200ms', 'avg logical reads < 5000'], [100, 150, 350, 120], 4000);
+
+            expect(card.assertions).toEqual([
+                { expression: 'p95 duration < 200ms', passed: false, actual: '350ms' },
+                { expression: 'avg logical reads < 5000', passed: true, actual: '4000' }
+            ]);
+            expect((view as any).historicalRuns[0]).toMatchObject({
+                failedExecutionCount: 1,
+                errorRatePercent: 25,
+                durationPercentiles: { p50: 120, p90: 350, p95: 350, p99: 350 },
+                avgLogicalReads: 4000
+            });
+            expect((view as any).historicalRuns[0].assertions.map((a: { passed: boolean }) => a.passed)).toEqual([false, true]);
+        });
+
+        it('should notify about failed assertions only', () => {
+            const notificationService = { notifyAssertionFailures: vi.fn() } as any;
+            view = new HistoricalMetricsView(mockContext, mockWebSocketClient, undefined, notificationService);
+
+            runWithAssertions(view, ['error rate < 1%', 'max duration < 1s'], [100, 150], 10);
+
+            expect(notificationService.notifyAssertionFailures).toHaveBeenCalledTimes(1);
+            const [runLabel, failures] = notificationService.notifyAssertionFailures.mock.calls[0];
+            expect(runLabel).toBe('Run #1');
+            expect(failures).toEqual([{ expression: 'error rate < 1%', metric: 'errorRate', passed: false, actual: 50 }]);
+        });
+
+        it('should cover executions evicted beyond the retention cap', () => {
+            const durations = Array.from({ length: 1500 }, (_, i) => i + 1);
+
+            const card = runWithAssertions(view, ['executions >= 1500', 'p99 duration > 1400ms'], durations, 10) as any;
+
+            expect(card.assertions.map((a: { passed: boolean }) => a.passed)).toEqual([true, true]);
+            expect(Math.abs(card.executionTime.percentiles.p50 - 750) / 750).toBeLessThanOrEqual(0.01);
+            expect(Math.abs(card.executionTime.percentiles.p99 - 1485) / 1485).toBeLessThanOrEqual(0.01);
+            expect((view as any).historicalRuns[0]).toMatchObject({ executionCount: 1500, minDuration: 1, maxDuration: 1500 });
+        });
+
+        it('should not notify or add verdicts when the run had no assertions', () => {
+            const notificationService = { notifyAssertionFailures: vi.fn() } as any;
+            view = new HistoricalMetricsView(mockContext, mockWebSocketClient, undefined, notificationService);
+
+            const card = runWithAssertions(view, [], [100], 10);
+
+            expect(card.assertions).toBeUndefined();
+            expect(notificationService.notifyAssertionFailures).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('run history', () => {
+        const createWorkspaceState = (initial: Record<string, unknown> = {}) => {
+            const values = new Map<string, unknown>(Object.entries(initial));
+            return {
+                get: vi.fn((key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue),
+                update: vi.fn(async (key: string, value: unknown) => {
+                    values.set(key, value);
+                }),
+                values
+            };
+        };
+
+        const storedRun = (runId: number) => ({
+            runId,
+            startTime: Date.now() - 60000,
+            endTime: Date.now() - 50000,
+            avgDuration: 40,
+            minDuration: 10,
+            maxDuration: 90,
+            executionCount: 25
+        });
+
+        const runOnce = (target: HistoricalMetricsView, durations: number[]) => {
+            const eventCallback = mockWebSocketClient.onExtendedEventData.mock.calls.at(-1)[0];
+            target.startStressTest({ connectionId: 'conn-1', query: 'SELECT * FROM Orders', parallelExecutions: 4, totalExecutions: durations.length, assertions: ['max duration < 1s'] });
+            durations.forEach((duration, index) => {
+                eventCallback({
+                    eventName: 'sql_batch_completed',
+                    timestamp: new Date().toISOString(),
+                    executionId: `id-${index + 1}`,
+                    executionNumber: index + 1,
+                    eventFields: { duration: duration * 1000 },
+                    actions: {}
+                });
+            });
+            target.stopStressTest();
+        };
+
+        const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+        it('should show the runs of earlier sessions and number new runs after them', async () => {
+            const workspaceState = createWorkspaceState({ 'sqlStressTest.runHistory': [storedRun(7), storedRun(8)] });
+            view = new HistoricalMetricsView({ ...mockContext, workspaceState } as unknown as vscode.ExtensionContext, mockWebSocketClient);
+
+            view.show();
+            view.startStressTest();
+            await flush();
+            runOnce(view, [10, 20]);
+            await flush();
+
+            const cards = mockPanel.webview.postMessage.mock.calls
+                .map((call: unknown[]) => call[0] as { command: string; cards: { label: string }[] })
+                .filter((message: { command: string }) => message.command === 'updateMetrics')
+                .pop().cards;
+            expect(cards.map((c: { label: string }) => c.label)).toEqual(['Run #7', 'Run #8', 'Run #10']);
+        });
+
+        it('should store the finished run with its connection, configuration and executions', async () => {
+            const workspaceState = createWorkspaceState({
+                'sqlStressTest.connections': [{ id: 'conn-1', name: 'Local dev', server: 'localhost', password: 'secret' }]
+            });
+            view = new HistoricalMetricsView({ ...mockContext, workspaceState } as unknown as vscode.ExtensionContext, mockWebSocketClient);
+
+            view.show();
+            runOnce(view, [10, 20, 30]);
+            await flush();
+
+            const [run] = workspaceState.values.get('sqlStressTest.runHistory') as any[];
+            expect(run).toMatchObject({
+                runId: 1,
+                executionCount: 3,
+                connection: { id: 'conn-1', name: 'Local dev', server: 'localhost' },
+                configuration: { query: 'SELECT * FROM Orders', parallelExecutions: 4, assertions: ['max duration < 1s'] },
+                assertions: [{ expression: 'max duration < 1s', passed: true }]
+            });
+            expect(JSON.stringify(run)).not.toContain('secret');
+            expect(run.durationHistogram).toMatchObject({ count: 3, min: 10, max: 30 });
+            const executions = workspaceState.values.get('sqlStressTest.runHistory.executions.1') as any[];
+            expect(executions.map(e => e.duration)).toEqual([10, 20, 30]);
+        });
+
+        it('should store the execution plans with the run and open them from its card', async () => {
+            const workspaceState = createWorkspaceState();
+            view = new HistoricalMetricsView({ ...mockContext, workspaceState } as unknown as vscode.ExtensionContext, mockWebSocketClient);
+            const plan = {
+                executionNumber: 2, executionId: 'id-2', durationMs: 20, showplanXml: ['<ShowPlanXML />'],
+                timestamp: new Date().toISOString(), timestampMs: Date.now()
+            };
+
+            view.show();
+            const planCallback = mockWebSocketClient.onExecutionPlan.mock.calls.at(-1)[0];
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls.at(-1)[0];
+            view.startStressTest();
+            await flush();
+            planCallback(plan);
+            messageHandler({ command: 'showExecutionPlans', runId: 1 });
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith('sqlStressTest.showExecutionPlans', 1, [plan]);
+
+            const eventCallback = mockWebSocketClient.onExtendedEventData.mock.calls.at(-1)[0];
+            eventCallback({
+                eventName: 'sql_batch_completed', timestamp: new Date().toISOString(), executionId: 'id-2',
+                executionNumber: 2, eventFields: { duration: 20000 }, actions: {}
+            });
+            view.stopStressTest();
+            await flush();
+
+            const [run] = workspaceState.values.get('sqlStressTest.runHistory') as any[];
+            expect(run.executionPlanCount).toBe(1);
+            expect(workspaceState.values.get('sqlStressTest.runHistory.plans.1')).toEqual([plan]);
+            messageHandler({ command: 'showExecutionPlans', runId: 1 });
+            expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('sqlStressTest.showExecutionPlans', 1, undefined);
+        });
+
+        it('should store the wait statistics with the run and show the top waits against the previous run', async () => {
+            const previousWaits = [
+                { waitType: 'LCK_M_X', waitingTasksCount: 4, waitTimeMs: 400, signalWaitTimeMs: 0 },
+                { waitType: 'PAGEIOLATCH_SH', waitingTasksCount: 10, waitTimeMs: 100, signalWaitTimeMs: 2 }
+            ];
+            const waits = [
+                { waitType: 'PAGEIOLATCH_SH', waitingTasksCount: 30, waitTimeMs: 300, signalWaitTimeMs: 5 },
+                { waitType: 'WRITELOG', waitingTasksCount: 2, waitTimeMs: 100, signalWaitTimeMs: 1 }
+            ];
+            const workspaceState = createWorkspaceState({
+                'sqlStressTest.runHistory': [{ ...storedRun(7), waitStatistics: previousWaits }]
+            });
+            view = new HistoricalMetricsView({ ...mockContext, workspaceState } as unknown as vscode.ExtensionContext, mockWebSocketClient);
+
+            view.show();
+            await flush();
+            const eventCallback = mockWebSocketClient.onExtendedEventData.mock.calls.at(-1)[0];
+            const waitCallback = mockWebSocketClient.onWaitStatistics.mock.calls.at(-1)[0];
+            view.startStressTest();
+            eventCallback({
+                eventName: 'sql_batch_completed', timestamp: new Date().toISOString(), executionId: 'id-1',
+                executionNumber: 1, eventFields: { duration: 20000 }, actions: {}
+            });
+            waitCallback({ startTime: '', endTime: '', waits, timestampMs: Date.now() });
+            view.stopStressTest();
+            await flush();
+
+            const runs = workspaceState.values.get('sqlStressTest.runHistory') as any[];
+            expect(runs[1].waitStatistics).toEqual(waits);
+            const cards = mockPanel.webview.postMessage.mock.calls
+                .map((call: unknown[]) => call[0] as { command: string; cards: any[] })
+                .filter((message: { command: string }) => message.command === 'updateMetrics')
+                .pop().cards;
+            expect(cards[0].waits.map((w: { previous?: number }) => w.previous)).toEqual([undefined, undefined]);
+            expect(cards[1].waits).toEqual([
+                { waitType: 'PAGEIOLATCH_SH', waitTimeMs: 300, waitingTasksCount: 30, percentOfTotal: 75, previous: 100, trend: 'up' },
+                { waitType: 'WRITELOG', waitTimeMs: 100, waitingTasksCount: 2, percentOfTotal: 25, previous: 0, trend: 'up' }
+            ]);
+        });
+
+        it('should count the deadlocks and blocked process reports of the run and store the reports with it', async () => {
+            const workspaceState = createWorkspaceState({
+                'sqlStressTest.runHistory': [{ ...storedRun(7), deadlockCount: 2, blockedProcessReportCount: 0 }]
+            });
+            view = new HistoricalMetricsView({ ...mockContext, workspaceState } as unknown as vscode.ExtensionContext, mockWebSocketClient);
+            const deadlock = {
+                eventName: 'xml_deadlock_report', timestamp: new Date().toISOString(), executionId: 'id-1',
+                executionNumber: 1, eventFields: { xml_report: '<deadlock />' }, actions: {}
+            };
+            const blocked = {
+                eventName: 'blocked_process_report', timestamp: new Date().toISOString(), executionId: 'id-1',
+                executionNumber: 1, eventFields: { blocked_process: '<blocked-process-report />', duration: 5000000 }, actions: {}
+            };
+
+            view.show();
+            await flush();
+            const eventCallback = mockWebSocketClient.onExtendedEventData.mock.calls.at(-1)[0];
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls.at(-1)[0];
+            view.startStressTest();
+            eventCallback({
+                eventName: 'sql_batch_completed', timestamp: new Date().toISOString(), executionId: 'id-1',
+                executionNumber: 1, eventFields: { duration: 20000 }, actions: {}
+            });
+            eventCallback(deadlock);
+            eventCallback(blocked);
+            eventCallback(blocked);
+            messageHandler({ command: 'showBlockingReports', runId: 8 });
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith('sqlStressTest.showDeadlocks', 8, [deadlock, blocked, blocked]);
+            view.stopStressTest();
+            await flush();
+
+            const runs = workspaceState.values.get('sqlStressTest.runHistory') as any[];
+            expect(runs[1]).toMatchObject({ executionCount: 1, deadlockCount: 1, blockedProcessReportCount: 2 });
+            expect(workspaceState.values.get('sqlStressTest.runHistory.blockingReports.8')).toEqual([deadlock, blocked, blocked]);
+            const cards = mockPanel.webview.postMessage.mock.calls
+                .map((call: unknown[]) => call[0] as { command: string; cards: any[] })
+                .filter((message: { command: string }) => message.command === 'updateMetrics')
+                .pop().cards;
+            expect(cards[1].blocking).toEqual({
+                deadlockCount: 1,
+                blockedProcessReportCount: 2,
+                previousDeadlockCount: 2,
+                previousBlockedProcessReportCount: 0
+            });
+            messageHandler({ command: 'showBlockingReports', runId: 8 });
+            expect(vscode.commands.executeCommand).toHaveBeenLastCalledWith('sqlStressTest.showDeadlocks', 8, undefined);
+        });
     });
 
     describe('data flow edge cases', () => {
@@ -549,7 +867,7 @@ describe('HistoricalMetricsView', () => {
                 executionId: 'test-id',
                 executionNumber: 1,
                 eventFields: {
-                    duration: 100,
+                    duration: 100000,
                     row_count: 50
                 },
                 actions: {}
@@ -760,7 +1078,7 @@ describe('HistoricalMetricsView', () => {
                 timestamp: new Date().toISOString(),
                 executionId: 'test-id',
                 executionNumber: 1,
-                eventFields: { duration: 100, row_count: 50 },
+                eventFields: { duration: 100000, row_count: 50 },
                 actions: {}
             });
 
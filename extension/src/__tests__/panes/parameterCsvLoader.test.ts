@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseCsv, toCsvColumns } from '../../panes/queryEditor/ParameterCsvLoader';
+
+vi.mock('vscode', () => ({
+    window: {
+        showOpenDialog: vi.fn()
+    }
+}));
+
+describe('ParameterCsvLoader', () => {
+    describe('parseCsv', () => {
+        it('should split rows and fields', () => {
+            expect(parseCsv('id,city\r\n1,Oslo\n2,Lima\n')).toEqual([
+                ['id', 'city'],
+                ['1', 'Oslo'],
+                ['2', 'Lima']
+            ]);
+        });
+
+        it('should handle quoted fields, escaped quotes and a byte order mark', () => {
+            expect(parseCsv('﻿name\n"Smith, John"\n"say ""hi"""\n"two\nlines"')).toEqual([
+                ['name'],
+                ['Smith, John'],
+                ['say "hi"'],
+                ['two\nlines']
+            ]);
+        });
+
+        it('should skip blank lines', () => {
+            expect(parseCsv('id\n\n1\n   \n2')).toEqual([['id'], ['1'], ['2']]);
+        });
+    });
+
+    describe('toCsvColumns', () => {
+        it('should name columns from the header and skip empty cells', () => {
+            expect(toCsvColumns([
+                ['id', ''],
+                ['1', 'a'],
+                ['', 'b'],
+                ['3']
+            ])).toEqual([
+                { name: 'id', values: ['1', '3'] },
+                { name: 'Column 2', values: ['a', 'b'] }
+            ]);
+        });
+
+        it('should return no columns for an empty file', () => {
+            expect(toCsvColumns([])).toEqual([]);
+        });
+    });
+});
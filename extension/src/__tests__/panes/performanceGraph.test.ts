@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { PerformanceGraph } from '../../panes/performanceGraph';
 import * as vscode from 'vscode';
-import { PerformanceData } from '../../services/websocketClient';
+import { join } from 'path';
+import { ExecutionBoundary, ExtendedEventData, PerformanceData, WebSocketClient } from '../../services/websocketClient';
 
 vi.mock('vscode', () => ({
     window: {
@@ -80,6 +81,8 @@ describe('PerformanceGraph', () => {
             offExtendedEventData: vi.fn(),
             onExecutionBoundary: vi.fn(),
             offExecutionBoundary: vi.fn(),
+            onLoadLevel: vi.fn(),
+            offLoadLevel: vi.fn(),
             isConnected: vi.fn().mockReturnValue(true)
         };
 
@@ -211,6 +214,7 @@ describe('PerformanceGraph', () => {
 
             expect(mockWebSocketClient.onExtendedEventData).toHaveBeenCalled();
             expect(mockWebSocketClient.onExecutionBoundary).toHaveBeenCalled();
+            expect(mockWebSocketClient.onLoadLevel).toHaveBeenCalled();
         });
     });
 
@@ -225,3 +229,84 @@ describe('PerformanceGraph', () => {
     });
 });
 
+describe('PerformanceGraph event units', () => {
+    let graph: PerformanceGraph;
+    let postMessage: ReturnType<typeof vi.fn>;
+    let sendEvent: (data: ExtendedEventData) => void;
+    let sendBoundary: (boundary: ExecutionBoundary) => void;
+
+    // Data of the last chart update sent to the webview
+    const lastChartUpdate = () => postMessage.mock.calls
+        .map(call => call[0])
+        .filter(message => message.command === 'updateExtendedEventsData')
+        .pop();
+
+    // The events report duration and cpu_time in microseconds
+    const batchCompleted = (executionNumber: number, durationUs: number, cpuTimeUs: number): ExtendedEventData => ({
+        eventName: 'sql_batch_completed',
+        timestamp: new Date().toISOString(),
+        executionId: `exec-${executionNumber}`,
+        executionNumber,
+        eventFields: { duration: durationUs, cpu_time: cpuTimeUs, logical_reads: 10 },
+        actions: {}
+    });
+
+    beforeEach(() => {
+        postMessage = vi.fn();
+        vi.mocked(vscode.workspace.getConfiguration).mockReturnValue({ get: vi.fn() } as unknown as vscode.WorkspaceConfiguration);
+        vi.mocked(vscode.window.createWebviewPanel).mockReturnValue({
+            webview: { html: '', postMessage, onDidReceiveMessage: vi.fn() },
+            onDidDispose: vi.fn(),
+            reveal: vi.fn(),
+            dispose: vi.fn()
+        } as unknown as vscode.WebviewPanel);
+
+        const websocketClient = {
+            onExtendedEventData: vi.fn((callback: (data: ExtendedEventData) => void) => { sendEvent = callback; }),
+            offExtendedEventData: vi.fn(),
+            onExecutionBoundary: vi.fn((callback: (boundary: ExecutionBoundary) => void) => { sendBoundary = callback; }),
+            offExecutionBoundary: vi.fn(),
+            onLoadLevel: vi.fn(),
+            offLoadLevel: vi.fn()
+        };
+        const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn(), info: vi.fn(), debug: vi.fn() };
+        const context = { extensionPath: join(__dirname, '../../..') } as vscode.ExtensionContext;
+        graph = new PerformanceGraph(context, websocketClient as unknown as WebSocketClient, logger);
+        graph.show();
+        graph.startStressTest();
+    });
+
+    afterEach(() => {
+        graph.dispose();
+    });
+
+    it('should plot event durations and CPU time in ms', () => {
+        sendEvent(batchCompleted(1, 12500, 8000));
+        sendEvent(batchCompleted(1, 7500, 2000));
+
+        const update = lastChartUpdate();
+        expect(update.eventData[0]).toMatchObject({ duration: 12.5, cpuTime: 8, logicalReads: 10 });
+        expect(update.summaries[0]).toMatchObject({ minDuration: 7.5, maxDuration: 12.5, avgDuration: 10, avgCpuTime: 5 });
+        expect(graph.getRunExport()?.events[0]).toMatchObject({ duration: 12.5, cpuTime: 8 });
+    });
+
+    it('should average the per query breakdown in ms', () => {
+        const queries = ['read', 'read', 'write'];
+        queries.forEach((queryName, index) => sendBoundary({
+            executionNumber: index + 1,
+            executionId: `exec-${index + 1}`,
+            startTime: new Date().toISOString(),
+            isStart: true,
+            timestampMs: Date.now(),
+            queryName
+        }));
+        sendEvent(batchCompleted(1, 12500, 3000));
+        sendEvent(batchCompleted(2, 17500, 5000));
+        sendEvent(batchCompleted(3, 40000, 20000));
+
+        expect(lastChartUpdate().queryBreakdown).toEqual([
+            { queryName: 'read', executionCount: 2, avgDuration: 15, avgLogicalReads: 10, avgWrites: undefined, avgCpuTime: 4 },
+            { queryName: 'write', executionCount: 1, avgDuration: 40, avgLogicalReads: 10, avgWrites: undefined, avgCpuTime: 20 }
+        ]);
+    });
+});
@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { QueryEditor } from '../../panes/queryEditor';
+import { StressTestHandler } from '../../panes/queryEditor/StressTestHandler';
 import * as vscode from 'vscode';
 import { HttpClient, QueryResponse } from '../../services/httpClient';
 import { StorageService } from '../../services/storage';
+import { ILogger } from '../../services/logger';
+import { join } from 'path';
 
 vi.mock('../../services/httpClient');
 vi.mock('../../services/storage');
@@ -25,14 +28,17 @@ vi.mock('vscode', () => ({
         withProgress: vi.fn()
     },
     workspace: {
-        getConfiguration: vi.fn(),
+        getConfiguration: vi.fn(() => ({
+            get: vi.fn((_key: string, defaultValue?: unknown) => defaultValue)
+        })),
         workspaceState: {
             get: vi.fn(),
             update: vi.fn()
         }
     },
     commands: {
-        registerCommand: vi.fn()
+        registerCommand: vi.fn(),
+        executeCommand: vi.fn()
     },
     ViewColumn: {
         One: 1,
@@ -60,6 +66,7 @@ describe('QueryEditor', () => {
 
     beforeEach(() => {
         mockContext = {
+            extensionPath: join(__dirname, '../../..'),
             workspaceState: {
                 get: vi.fn(),
                 update: vi.fn()
@@ -70,26 +77,28 @@ describe('QueryEditor', () => {
             webview: {
                 html: '',
                 postMessage: vi.fn(),
-                onDidReceiveMessage: {
-                    dispose: vi.fn()
-                }
+                onDidReceiveMessage: vi.fn()
             },
             reveal: vi.fn(),
             dispose: vi.fn(),
-            onDidDispose: {
-                dispose: vi.fn()
-            }
+            onDidDispose: vi.fn()
         };
 
         (vscode.window.createWebviewPanel as any).mockReturnValue(mockPanel);
 
         mockWebSocketClient = {
             connect: vi.fn(),
-            disconnect: vi.fn()
+            disconnect: vi.fn(),
+            onStressTestCompleted: vi.fn(),
+            offStressTestCompleted: vi.fn(),
+            onConnectionLost: vi.fn(),
+            offConnectionLost: vi.fn()
         };
 
         mockHttpClient = {
-            executeQuery: vi.fn()
+            executeQuery: vi.fn(),
+            executeStressTest: vi.fn(),
+            cancelStressTest: vi.fn()
         };
 
         mockStorageService = {
@@ -137,7 +146,7 @@ describe('QueryEditor', () => {
     });
 
     describe('executeQuery', () => {
-        it('should execute query but NOT send queryResult message (results removed)', async () => {
+        it('should execute query and send queryResult message with the grid data', async () => {
             editor.show();
 
             const response: QueryResponse = {
@@ -152,64 +161,185 @@ describe('QueryEditor', () => {
 
             // Simulate message from webview
             const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
-            if (messageHandler) {
-                await messageHandler({
-                    command: 'executeQuery',
-                    connectionId: 'test-conn',
-                    query: 'SELECT 1',
-                    database: 'testdb'
-                });
-            }
+            await messageHandler({
+                command: 'executeQuery',
+                connectionId: 'test-conn',
+                query: 'SELECT 1',
+                database: 'testdb'
+            });
+
+            expect(mockHttpClient.executeQuery).toHaveBeenCalledWith({
+                connectionId: 'test-conn',
+                query: 'SELECT 1',
+                database: 'testdb'
+            });
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({ command: 'queryExecuting' });
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+                command: 'queryResult',
+                data: response
+            });
+        });
 
-            // Wait for async operations
-            await new Promise(resolve => setTimeout(resolve, 50));
+        it('should include the result grid in webview HTML', () => {
+            editor.show();
+
+            const html = mockPanel.webview.html;
+
+            expect(html).toContain('id="resultGrid"');
+            expect(html).toContain('id="resultStatus"');
+            expect(html).toContain('window.QueryResultGrid');
+            // Grid module must be defined before queryEditor.js uses it
+            expect(html.indexOf('window.QueryResultGrid = {')).toBeLessThan(html.indexOf('window.QueryResultGrid.create('));
+        });
+
+        it('should send error text as queryResult when execution fails', async () => {
+            editor.show();
+
+            mockHttpClient.executeQuery.mockRejectedValue(new Error('Connection failed'));
+
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            await messageHandler({
+                command: 'executeQuery',
+                connectionId: 'test-conn',
+                query: 'SELECT 1'
+            });
 
-            // Verify query was executed
             expect(mockHttpClient.executeQuery).toHaveBeenCalled();
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+                command: 'queryResult',
+                data: {
+                    success: false,
+                    error: 'Connection failed'
+                }
+            });
+        });
+    });
+
+    describe('stress test cancellation', () => {
+        const startMessage = {
+            command: 'executeStressTest',
+            connectionId: 'test-conn',
+            query: 'SELECT 1',
+            parallelExecutions: 2,
+            totalExecutions: 100
+        };
+
+        it('should cancel the running test on the backend and report stopped after confirmation', async () => {
+            editor.show();
+            mockHttpClient.executeStressTest.mockResolvedValue({ success: true, testId: 'test-123', message: 'Stress test started' });
+            mockHttpClient.cancelStressTest.mockResolvedValue({ success: true, cancelled: true, testId: 'test-123' });
 
-            // Verify queryResult message was NOT sent (results are removed)
-            const queryResultCalls = mockPanel.webview.postMessage.mock.calls.filter(
-                (call: any[]) => call[0]?.command === 'queryResult'
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            const running = messageHandler(startMessage);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            await messageHandler({ command: 'stopStressTest' });
+            await running;
+
+            expect(mockHttpClient.cancelStressTest).toHaveBeenCalledWith('test-123');
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({ command: 'stressTestStopped' });
+            expect(mockPanel.webview.postMessage).not.toHaveBeenCalledWith(
+                expect.objectContaining({ command: 'stressTestResult' })
             );
-            expect(queryResultCalls.length).toBe(0);
+            expect(mockWebSocketClient.offStressTestCompleted).toHaveBeenCalled();
         });
 
-        it('should NOT display query results in webview HTML', () => {
+        it('should report stop failure and keep the test running when cancel fails', async () => {
             editor.show();
+            mockHttpClient.executeStressTest.mockResolvedValue({ success: true, testId: 'test-123' });
+            mockHttpClient.cancelStressTest.mockResolvedValue({ success: false, testId: 'test-123', error: 'Timed out' });
 
-            const html = mockPanel.webview.html;
-            
-            // Verify results div is not in HTML
-            expect(html).not.toContain('id="results"');
-            expect(html).not.toContain('showResults');
-            expect(html).not.toContain('showError');
-            expect(html).not.toContain('escapeHtml');
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            messageHandler(startMessage);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            await messageHandler({ command: 'stopStressTest' });
+
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+                command: 'stressTestStopFailed',
+                error: 'Timed out'
+            });
+            expect(mockPanel.webview.postMessage).not.toHaveBeenCalledWith({ command: 'stressTestStopped' });
         });
 
-        it('should handle query execution errors without displaying them', async () => {
+        it('should not start a test while a run of the shared handler is in progress', async () => {
+            const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn(), info: vi.fn(), debug: vi.fn() } as unknown as ILogger;
+            const sharedHandler = new StressTestHandler(mockHttpClient, mockWebSocketClient, logger);
+            editor.dispose();
+            editor = new QueryEditor(mockContext, mockWebSocketClient, undefined, sharedHandler);
             editor.show();
+            mockHttpClient.executeStressTest.mockResolvedValue({ success: true, testId: 'definition-run' });
 
-            mockHttpClient.executeQuery.mockRejectedValue(new Error('Connection failed'));
+            // Started elsewhere, e.g. from a definition file
+            void sharedHandler.executeStressTest({ connectionId: 'test-conn', query: 'SELECT 1', parallelExecutions: 1, totalExecutions: 1 });
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            await messageHandler(startMessage);
+
+            expect(mockHttpClient.executeStressTest).toHaveBeenCalledTimes(1);
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+                command: 'stressTestResult',
+                data: { success: false, error: 'Another stress test is already running' }
+            });
+        });
+
+        it('should post stressTestResult when the backend reports completion', async () => {
+            editor.show();
+            mockHttpClient.executeStressTest.mockResolvedValue({ success: true, testId: 'test-123' });
 
             const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
-            if (messageHandler) {
-                await messageHandler({
-                    command: 'executeQuery',
-                    connectionId: 'test-conn',
-                    query: 'SELECT 1'
-                });
-            }
+            const running = messageHandler(startMessage);
+            await new Promise(resolve => setTimeout(resolve, 0));
+
+            const completionCallback = mockWebSocketClient.onStressTestCompleted.mock.calls[0][0];
+            completionCallback({ success: true, testId: 'other-test', message: 'ignored' });
+            completionCallback({ success: true, testId: 'test-123', message: 'Stress test completed' });
+            await running;
+
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+                command: 'stressTestResult',
+                data: { success: true, testId: 'test-123', message: 'Stress test completed' }
+            });
+        });
 
-            await new Promise(resolve => setTimeout(resolve, 50));
+        it('should send a non-fixed load profile to the backend', async () => {
+            editor.show();
+            mockHttpClient.executeStressTest.mockResolvedValue({ success: false, error: 'No connection' });
+            const loadProfile = { mode: 'ramp', durationSeconds: 600, startWorkers: 5, stepWorkers: 5, stepIntervalSeconds: 30, maxWorkers: 100, rampShape: 'stepped' };
 
-            // Verify query was attempted
-            expect(mockHttpClient.executeQuery).toHaveBeenCalled();
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            await messageHandler({ ...startMessage, loadProfile });
+            await messageHandler({ ...startMessage, loadProfile: { mode: 'fixed' } });
 
-            // Verify queryResult error message was NOT sent
-            const queryResultCalls = mockPanel.webview.postMessage.mock.calls.filter(
-                (call: any[]) => call[0]?.command === 'queryResult'
-            );
-            expect(queryResultCalls.length).toBe(0);
+            expect(mockHttpClient.executeStressTest).toHaveBeenNthCalledWith(1, expect.objectContaining({ loadProfile }));
+            expect(mockHttpClient.executeStressTest).toHaveBeenNthCalledWith(2, expect.objectContaining({ loadProfile: undefined }));
+        });
+
+        it('should hand the run configuration and assertions to the historical metrics view', async () => {
+            editor.show();
+            mockHttpClient.executeStressTest.mockResolvedValue({ success: false, error: 'No connection' });
+            const assertions = ['p95 duration < 200ms', 'error rate < 1%'];
+
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            await messageHandler({ ...startMessage, assertions });
+
+            expect(vscode.commands.executeCommand).toHaveBeenCalledWith('sqlStressTest.showHistoricalMetrics', 'test-conn', expect.objectContaining({
+                connectionId: 'test-conn',
+                query: startMessage.query,
+                assertions
+            }));
+        });
+
+        it('should not start a run with a malformed assertion', async () => {
+            editor.show();
+
+            const messageHandler = mockPanel.webview.onDidReceiveMessage.mock.calls[0]?.[0];
+            await messageHandler({ ...startMessage, assertions: ['p95 duration < 5%'] });
+
+            expect(mockHttpClient.executeStressTest).not.toHaveBeenCalled();
+            expect(mockPanel.webview.postMessage).toHaveBeenCalledWith({
+                command: 'stressTestResult',
+                data: { success: false, error: 'Assertion "p95 duration < 5%" needs a duration in ms or s' }
+            });
         });
     });
 
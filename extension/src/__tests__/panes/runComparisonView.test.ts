@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { RunComparisonView } from '../../panes/runComparisonView';
+import { RunHistoryStorageService } from '../../services/runHistoryStorageService';
+import { HistoricalRun } from '../../services/storage';
+
+vi.mock('vscode', () => ({
+    window: {
+        createWebviewPanel: vi.fn(),
+        createOutputChannel: vi.fn(() => ({
+            append: vi.fn(),
+            appendLine: vi.fn(),
+            show: vi.fn(),
+            dispose: vi.fn()
+        })),
+        showQuickPick: vi.fn(),
+        showInformationMessage: vi.fn()
+    },
+    ViewColumn: {
+        Active: -1
+    }
+}));
+
+describe('RunComparisonView', () => {
+    let mockPanel: any;
+    let runHistory: { loadRuns: ReturnType<typeof vi.fn> };
+    let view: RunComparisonView;
+
+    const run = (runId: number, avgDuration: number): HistoricalRun => ({
+        runId,
+        startTime: Date.now(),
+        endTime: Date.now(),
+        avgDuration,
+        minDuration: avgDuration,
+        maxDuration: avgDuration,
+        executionCount: 10
+    });
+
+    const postedComparison = () => mockPanel.webview.postMessage.mock.calls.at(-1)[0].comparison;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockPanel = {
+            webview: {
+                html: '',
+                postMessage: vi.fn()
+            },
+            reveal: vi.fn(),
+            dispose: vi.fn(),
+            onDidDispose: vi.fn()
+        };
+        (vscode.window.createWebviewPanel as any).mockReturnValue(mockPanel);
+        runHistory = { loadRuns: vi.fn(async () => [run(1, 100), run(2, 60), run(3, 120)]) };
+        const context = { extensionPath: path.join(__dirname, '..', '..', '..') } as vscode.ExtensionContext;
+        view = new RunComparisonView(context, undefined, runHistory as unknown as RunHistoryStorageService);
+    });
+
+    it('should ask for a baseline and candidates and show the comparison', async () => {
+        (vscode.window.showQuickPick as any)
+            .mockImplementationOnce(async (items: { run: HistoricalRun }[]) => items.find(i => i.run.runId === 1))
+            .mockImplementationOnce(async (items: { run: HistoricalRun }[]) => items);
+
+        await view.compare();
+
+        const candidateItems = (vscode.window.showQuickPick as any).mock.calls[1][0];
+        expect(candidateItems.map((i: { label: string }) => i.label)).toEqual(['Run #3', 'Run #2']);
+        expect(candidateItems[0].picked).toBe(true);
+        const comparison = postedComparison();
+        expect(comparison.baseline.runId).toBe(1);
+        expect(comparison.candidates.map((c: { runId: number }) => c.runId)).toEqual([2, 3]);
+        expect(comparison.rows[0].candidates.map((c: { verdict: string }) => c.verdict)).toEqual(['better', 'worse']);
+    });
+
+    it('should compare the given runs without asking', async () => {
+        await view.compare(2, [3]);
+
+        expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+        expect(postedComparison().rows[0].candidates[0].changePercent).toBe(100);
+    });
+
+    it('should not open the panel when the selection is cancelled', async () => {
+        (vscode.window.showQuickPick as any).mockResolvedValueOnce(undefined);
+
+        await view.compare();
+
+        expect(vscode.window.createWebviewPanel).not.toHaveBeenCalled();
+    });
+
+    it('should explain that two runs are needed', async () => {
+        runHistory.loadRuns.mockResolvedValue([run(1, 100)]);
+
+        await view.compare();
+
+        expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(expect.stringContaining('two finished stress test runs'));
+        expect(vscode.window.createWebviewPanel).not.toHaveBeenCalled();
+    });
+});
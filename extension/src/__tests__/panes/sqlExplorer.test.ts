@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { SqlServerExplorer } from '../../panes/sqlExplorer';
 import * as vscode from 'vscode';
-import { StorageService } from '../../services/storage';
+import { ConnectionConfig, StorageService } from '../../services/storage';
 import { HttpClient } from '../../services/httpClient';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 vi.mock('../../services/storage');
 vi.mock('../../services/httpClient');
@@ -18,13 +21,16 @@ vi.mock('vscode', () => ({
         })),
         showInputBox: vi.fn(),
         showQuickPick: vi.fn(),
+        showOpenDialog: vi.fn(),
         showInformationMessage: vi.fn(),
         showErrorMessage: vi.fn(),
         showWarningMessage: vi.fn(),
         withProgress: vi.fn()
     },
     workspace: {
-        getConfiguration: vi.fn(),
+        getConfiguration: vi.fn(() => ({
+            get: vi.fn((_key: string, defaultValue?: unknown) => defaultValue)
+        })),
         workspaceState: {
             get: vi.fn(),
             update: vi.fn()
@@ -54,6 +60,9 @@ vi.mock('vscode', () => ({
             this.collapsibleState = collapsibleState;
         }
     },
+    ThemeIcon: class ThemeIcon {
+        constructor(public readonly id: string) {}
+    },
     EventEmitter: class EventEmitter<T> {
         private listeners: Array<(data: T) => void> = [];
         fire(data: T): void {
@@ -64,6 +73,12 @@ vi.mock('vscode', () => ({
             return { dispose: () => this.listeners = this.listeners.filter(l => l !== listener) };
         }
     },
+    ProgressLocation: {
+        Notification: 15
+    },
+    DataTransferItem: class DataTransferItem {
+        constructor(public readonly value: unknown) {}
+    },
     ExtensionContext: vi.fn()
 }));
 
@@ -116,11 +131,14 @@ describe('SqlServerExplorer', () => {
                 serverVersion: 'Test Version',
                 authenticatedUser: 'testuser',
                 databases: ['master', 'tempdb']
-            })
+            }),
+            getDatabaseObjects: vi.fn().mockResolvedValue({ success: true, objects: [] })
         };
 
         mockStorageService = {
             loadConnections: vi.fn().mockResolvedValue([]),
+            saveConnections: vi.fn().mockResolvedValue(undefined),
+            resolveConnectionSecrets: vi.fn((connection) => Promise.resolve(connection)),
             addConnection: vi.fn().mockResolvedValue(undefined),
             updateConnection: vi.fn().mockResolvedValue(undefined),
             removeConnection: vi.fn().mockResolvedValue(undefined),
@@ -170,6 +188,175 @@ describe('SqlServerExplorer', () => {
         });
     });
 
+    describe('connection groups', () => {
+        let connections: any[];
+
+        beforeEach(async () => {
+            connections = [
+                { id: 'conn_1', name: 'Orders Prod', server: 'prod-sql-01', group: 'Prod' },
+                { id: 'conn_2', name: 'Local', server: 'localhost' },
+                { id: 'conn_3', name: 'Orders Dev', server: 'dev-sql-01', group: 'Dev' },
+                { id: 'conn_4', name: 'Billing Prod', server: 'prod-sql-02', group: 'Prod' }
+            ];
+            mockStorageService.loadConnections.mockImplementation(() => Promise.resolve(connections));
+            mockStorageService.saveConnections.mockImplementation((saved: any[]) => {
+                connections = saved;
+                return Promise.resolve();
+            });
+            (vscode.window.withProgress as any).mockImplementation((_options: unknown, task: () => unknown) => task());
+            await (explorer as any).loadConnections();
+        });
+
+        const groupNode = async (name: string) => {
+            const roots: any[] = await explorer.getChildren();
+            return roots.find(root => root.contextValue === 'connectionGroup' && root.label === name);
+        };
+
+        it('should list groups alphabetically before the ungrouped servers', async () => {
+            const roots: any[] = await explorer.getChildren();
+
+            expect(roots.map(root => [root.label, root.contextValue])).toEqual([
+                ['Dev', 'connectionGroup'],
+                ['Prod', 'connectionGroup'],
+                ['Local', 'server']
+            ]);
+            expect(roots[1].collapsibleState).toBe(vscode.TreeItemCollapsibleState.Expanded);
+            expect(roots[1].description).toBe('2');
+
+            const prodServers: any[] = await explorer.getChildren(roots[1]);
+            expect(prodServers.map(server => server.connectionId)).toEqual(['conn_1', 'conn_4']);
+        });
+
+        it('should move dragged servers into the group they are dropped on', async () => {
+            const dataTransfer = new Map<string, any>();
+            const [, prod, local] = await explorer.getChildren();
+            const [orders] = await explorer.getChildren(await groupNode('Dev'));
+
+            explorer.handleDrag([local, orders], dataTransfer as any);
+            await explorer.handleDrop(prod, dataTransfer as any);
+
+            expect(mockStorageService.saveConnections).toHaveBeenCalledTimes(1);
+            expect(connections.filter(conn => conn.group === 'Prod').map(conn => conn.id)).toEqual(['conn_1', 'conn_2', 'conn_3', 'conn_4']);
+            const roots: any[] = await explorer.getChildren();
+            expect(roots.map(root => root.label)).toEqual(['Prod']);
+        });
+
+        it('should move servers dropped on empty space to the top level', async () => {
+            const dataTransfer = new Map<string, any>();
+            const [prodServer] = await explorer.getChildren(await groupNode('Prod'));
+
+            explorer.handleDrag([prodServer], dataTransfer as any);
+            await explorer.handleDrop(undefined, dataTransfer as any);
+
+            expect(connections.find(conn => conn.id === 'conn_1').group).toBeUndefined();
+        });
+
+        it('should move a server to a new group', async () => {
+            const [local] = (await explorer.getChildren()).slice(-1);
+            (vscode.window.showQuickPick as any).mockImplementation((items: any[]) => Promise.resolve(items.find(item => item.newGroup)));
+            (vscode.window.showInputBox as any).mockResolvedValue('  QA ');
+
+            await explorer.moveToGroup(local as any);
+
+            expect(connections.find(conn => conn.id === 'conn_2').group).toBe('QA');
+        });
+
+        it('should rename a group for all its connections', async () => {
+            (vscode.window.showInputBox as any).mockResolvedValue('Production');
+
+            await explorer.renameGroup(await groupNode('Prod'));
+
+            expect(connections.filter(conn => conn.group === 'Production').map(conn => conn.id)).toEqual(['conn_1', 'conn_4']);
+            expect(await groupNode('Prod')).toBeUndefined();
+        });
+
+        it('should test every connection in a group and report the failures', async () => {
+            mockHttpClient.testConnection
+                .mockResolvedValueOnce({ success: true })
+                .mockResolvedValueOnce({ success: false, error: 'Login failed' });
+
+            await explorer.testConnectionGroup(await groupNode('Prod'));
+
+            expect(mockHttpClient.testConnection.mock.calls.map((call: any[]) => call[0].id)).toEqual(['conn_1', 'conn_4']);
+            expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('1 of 2 connections in Prod failed: Billing Prod (Login failed)');
+        });
+
+        it('should ask for the passwords of shared SQL logins before testing a group and leave out the ones not given', async () => {
+            connections[0] = { ...connections[0], shared: true, username: 'stress' };
+            connections[3] = { ...connections[3], shared: true, username: 'billing' };
+            mockStorageService.getConnection.mockImplementation((id: string) => Promise.resolve(connections.find(conn => conn.id === id)));
+            mockStorageService.setSharedConnectionPassword = vi.fn().mockResolvedValue(undefined);
+            vi.mocked(vscode.window.showInputBox).mockReset().mockResolvedValueOnce(undefined).mockResolvedValueOnce('s3cret');
+
+            await explorer.testConnectionGroup(await groupNode('Prod'));
+
+            expect(vscode.window.showInputBox).toHaveBeenCalledTimes(2);
+            expect(mockStorageService.setSharedConnectionPassword).toHaveBeenCalledWith('conn_4', 's3cret');
+            expect(mockHttpClient.testConnection.mock.calls.map((call: ConnectionConfig[]) => call[0].id)).toEqual(['conn_4']);
+        });
+    });
+
+    describe('importConnections', () => {
+        let tempDir: string;
+        let connections: any[];
+
+        beforeEach(async () => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlstress-import-'));
+            connections = [{ id: 'conn_1', name: 'Dev', server: 'dev-sql', integratedSecurity: true }];
+            mockStorageService.loadConnections.mockImplementation(() => Promise.resolve(connections));
+            mockStorageService.saveConnections.mockImplementation((saved: any[]) => {
+                connections = [...saved];
+                return Promise.resolve();
+            });
+        });
+
+        afterEach(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        const importFile = (fileName: string, content: string) => {
+            const filePath = path.join(tempDir, fileName);
+            fs.writeFileSync(filePath, content);
+            (vscode.window.showOpenDialog as any).mockResolvedValue([{ fsPath: filePath }]);
+        };
+
+        it('should preview the connections and import the selected ones with unique names', async () => {
+            importFile('settings.json', JSON.stringify({
+                'mssql.connections': [
+                    { server: 'dev-sql', profileName: 'Dev copy', authenticationType: 'Integrated' },
+                    { server: 'qa-sql', profileName: 'Dev', authenticationType: 'SqlLogin', user: 'stress' },
+                    { server: 'qa-sql-02', profileName: 'Dev', authenticationType: 'Integrated' }
+                ]
+            }));
+            (vscode.window.showQuickPick as any).mockImplementation((items: any[]) => Promise.resolve(items.filter(item => item.picked)));
+
+            await explorer.importConnections();
+
+            const [previewItems] = (vscode.window.showQuickPick as any).mock.calls[0];
+            expect(previewItems.map((item: any) => [item.label, item.picked, item.detail])).toEqual([
+                ['Dev copy', false, 'Windows Authentication, already in the explorer'],
+                ['Dev', true, 'SQL login stress'],
+                ['Dev', true, 'Windows Authentication']
+            ]);
+            expect(connections.map(conn => conn.name)).toEqual(['Dev', 'Dev (2)', 'Dev (3)']);
+            expect(new Set(connections.map(conn => conn.id)).size).toBe(3);
+            expect(mockWebSocketClient.notifyConnectionSaved).toHaveBeenCalledTimes(2);
+            expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+                'Imported 2 connections. Edit 1 of them to add the SQL login password.'
+            );
+        });
+
+        it('should report a file without connections', async () => {
+            importFile('Servers.regsrvr', '<model></model>');
+
+            await explorer.importConnections();
+
+            expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Failed to import connections: Servers.regsrvr has no SQL Server connections');
+            expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+            expect(mockStorageService.saveConnections).not.toHaveBeenCalled();
+        });
+    });
+
     describe('addServer', () => {
         it('should not add server if name is cancelled', async () => {
             (vscode.window.showInputBox as any).mockResolvedValue(undefined);
@@ -1294,5 +1481,173 @@ describe('SqlServerExplorer', () => {
             expect(mockPerformanceGraph.show).not.toHaveBeenCalled();
         });
     });
-});
 
+    describe('object hierarchy', () => {
+        const serverNode = {
+            label: 'Test Server',
+            server: 'localhost',
+            connectionId: 'conn_1',
+            contextValue: 'server',
+            collapsibleState: vscode.TreeItemCollapsibleState.Collapsed
+        } as any;
+
+        const respondWith = (...names: Array<string | { name: string; detail?: string }>) => {
+            mockHttpClient.getDatabaseObjects.mockResolvedValueOnce({
+                success: true,
+                objects: names.map(name => typeof name === 'string' ? { name } : name)
+            });
+        };
+
+        const expand = async (node: any, label: string) => {
+            const children: any[] = await explorer.getChildren(node);
+            return children.find(child => child.label === label);
+        };
+
+        beforeEach(() => {
+            (vscode.window.withProgress as any).mockImplementation((_options: unknown, task: () => unknown) => task());
+        });
+
+        it('should load the databases when the Databases folder of a server is expanded', async () => {
+            const [databasesFolder]: any[] = await explorer.getChildren(serverNode);
+            expect(databasesFolder.label).toBe('Databases');
+            expect(mockHttpClient.getDatabaseObjects).not.toHaveBeenCalled();
+
+            respondWith('master', 'Shop');
+            const databases: any[] = await explorer.getChildren(databasesFolder);
+
+            expect(mockHttpClient.getDatabaseObjects).toHaveBeenCalledWith({ connectionId: 'conn_1', objectType: 'databases' });
+            expect(databases.map(database => database.label)).toEqual(['master', 'Shop']);
+            expect(databases[1].contextValue).toBe('database');
+            expect(databases[1].collapsibleState).toBe(vscode.TreeItemCollapsibleState.Collapsed);
+        });
+
+        it('should ask for the password of a shared SQL login before loading its objects', async () => {
+            mockStorageService.getConnection.mockResolvedValue({ id: 'conn_1', name: 'Orders', server: 'localhost', username: 'stress', shared: true });
+            mockStorageService.setSharedConnectionPassword = vi.fn().mockResolvedValue(undefined);
+            const databasesFolder = await expand(serverNode, 'Databases');
+
+            vi.mocked(vscode.window.showInputBox).mockReset().mockResolvedValueOnce(undefined);
+            const [loadError] = await explorer.getChildren(databasesFolder);
+            expect(loadError.contextValue).toBe('loadError');
+            expect(mockHttpClient.getDatabaseObjects).not.toHaveBeenCalled();
+
+            vi.mocked(vscode.window.showInputBox).mockResolvedValueOnce('s3cret');
+            respondWith('master');
+            const databases = await explorer.getChildren(databasesFolder);
+            expect(mockStorageService.setSharedConnectionPassword).toHaveBeenCalledWith('conn_1', 's3cret');
+            expect(databases.map(database => database.label)).toEqual(['master']);
+        });
+
+        it('should walk from a database down to the columns of a table', async () => {
+            const databasesFolder = await expand(serverNode, 'Databases');
+            respondWith('Shop');
+            const shop = await expand(databasesFolder, 'Shop');
+            respondWith('dbo', 'Sales');
+            const sales = await expand(shop, 'Sales');
+
+            const folders: any[] = await explorer.getChildren(sales);
+            expect(folders.map(folder => folder.label)).toEqual(['Tables', 'Views', 'Stored Procedures', 'Functions']);
+
+            respondWith('Orders');
+            const orders = await expand(folders[0], 'Orders');
+            respondWith({ name: 'Id', detail: 'PK, int, not null' }, { name: 'Total', detail: 'decimal(18,2), null' });
+            const columns: any[] = await explorer.getChildren(orders);
+
+            expect(mockHttpClient.getDatabaseObjects.mock.calls.map((call: any[]) => call[0])).toEqual([
+                { connectionId: 'conn_1', objectType: 'databases' },
+                { connectionId: 'conn_1', database: 'Shop', objectType: 'schemas' },
+                { connectionId: 'conn_1', database: 'Shop', schema: 'Sales', objectType: 'tables' },
+                { connectionId: 'conn_1', database: 'Shop', schema: 'Sales', objectName: 'Orders', objectType: 'columns' }
+            ]);
+            expect(columns.map(column => [column.label, column.description])).toEqual([
+                ['Id', 'PK, int, not null'],
+                ['Total', 'decimal(18,2), null']
+            ]);
+            expect(columns[0].collapsibleState).toBe(vscode.TreeItemCollapsibleState.None);
+        });
+
+        it('should list the parameters of a stored procedure', async () => {
+            const databasesFolder = await expand(serverNode, 'Databases');
+            respondWith('Shop');
+            const shop = await expand(databasesFolder, 'Shop');
+            respondWith('dbo');
+            const dbo = await expand(shop, 'dbo');
+            const procedures = await expand(dbo, 'Stored Procedures');
+            respondWith('usp_PlaceOrder');
+            const placeOrder = await expand(procedures, 'usp_PlaceOrder');
+            respondWith({ name: '@customerId', detail: 'int' }, { name: '@orderId', detail: 'int, output' });
+
+            const parameters: any[] = await explorer.getChildren(placeOrder);
+
+            expect(placeOrder.contextValue).toBe('procedure');
+            expect(mockHttpClient.getDatabaseObjects).toHaveBeenLastCalledWith({
+                connectionId: 'conn_1', database: 'Shop', schema: 'dbo', objectName: 'usp_PlaceOrder', objectType: 'parameters'
+            });
+            expect(parameters.map(parameter => parameter.description)).toEqual(['int', 'int, output']);
+            expect(parameters[1].contextValue).toBe('parameter');
+        });
+
+        it('should open the query editor with a generated EXEC for a stored procedure', async () => {
+            const databasesFolder = await expand(serverNode, 'Databases');
+            respondWith('Shop');
+            const shop = await expand(databasesFolder, 'Shop');
+            respondWith('dbo');
+            const dbo = await expand(shop, 'dbo');
+            const procedures = await expand(dbo, 'Stored Procedures');
+            respondWith('usp_PlaceOrder');
+            const placeOrder = await expand(procedures, 'usp_PlaceOrder');
+            mockHttpClient.getDatabaseObjects.mockResolvedValueOnce({
+                success: true,
+                objects: [
+                    { name: '@customerId', dataType: 'uniqueidentifier', isOutput: false },
+                    { name: '@orderId', dataType: 'int', isOutput: true }
+                ]
+            });
+            const queryEditor = { show: vi.fn() };
+
+            await explorer.stressTestProcedure(placeOrder, queryEditor);
+
+            expect(queryEditor.show).toHaveBeenCalledWith('conn_1', {
+                query: [
+                    'DECLARE @orderId int; -- output',
+                    'EXEC [dbo].[usp_PlaceOrder]',
+                    '    @customerId = @customerId,',
+                    '    @orderId = @orderId OUTPUT;'
+                ].join('\n'),
+                parameters: [{ name: '@customerId', generator: 'guid' }],
+                database: 'Shop'
+            });
+        });
+
+        it('should report parameters that cannot be read instead of opening the query editor', async () => {
+            const procedure = { contextValue: 'procedure', connectionId: 'conn_1', location: { connectionId: 'conn_1', database: 'Shop', schema: 'dbo', objectName: 'usp_PlaceOrder' } } as any;
+            mockHttpClient.getDatabaseObjects.mockResolvedValueOnce({ success: false, error: 'Timeout expired' });
+            const queryEditor = { show: vi.fn() };
+
+            await explorer.stressTestProcedure(procedure, queryEditor);
+
+            expect(vscode.window.showErrorMessage).toHaveBeenCalledWith('Failed to load the parameters of dbo.usp_PlaceOrder: Timeout expired');
+            expect(queryEditor.show).not.toHaveBeenCalled();
+        });
+
+        it('should show the error on the node and reload it on refresh', async () => {
+            const databasesFolder = await expand(serverNode, 'Databases');
+            mockHttpClient.getDatabaseObjects.mockResolvedValueOnce({ success: false, error: 'Login failed for user \'stress\'.' });
+
+            const [errorNode]: any[] = await explorer.getChildren(databasesFolder);
+
+            expect(errorNode.label).toBe('Failed to load databases');
+            expect(errorNode.description).toBe('Login failed for user \'stress\'.');
+            expect(errorNode.contextValue).toBe('loadError');
+            expect(errorNode.collapsibleState).toBe(vscode.TreeItemCollapsibleState.None);
+
+            const fire = vi.spyOn((explorer as any)._onDidChangeTreeData, 'fire');
+            explorer.refreshNode(databasesFolder);
+            expect(fire).toHaveBeenCalledWith(databasesFolder);
+
+            respondWith('master');
+            const databases: any[] = await explorer.getChildren(databasesFolder);
+            expect(databases.map(database => database.label)).toEqual(['master']);
+        });
+    });
+});
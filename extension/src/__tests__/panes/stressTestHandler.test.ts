@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StressTestHandler } from '../../panes/queryEditor/StressTestHandler';
+import { HttpClient, StressTestResponse } from '../../services/httpClient';
+import { WebSocketClient } from '../../services/websocketClient';
+import { ILogger } from '../../services/logger';
+
+vi.mock('vscode', () => ({
+    commands: {
+        executeCommand: vi.fn()
+    }
+}));
+
+describe('StressTestHandler', () => {
+    let completionCallbacks: Array<(result: StressTestResponse) => void>;
+    let connectionLostCallbacks: Array<() => void>;
+    let httpClient: { executeStressTest: ReturnType<typeof vi.fn>; cancelStressTest: ReturnType<typeof vi.fn> };
+    let handler: StressTestHandler;
+
+    // Start response that arrives once the test calls respond
+    const deferredStart = () => {
+        let respond!: (response: StressTestResponse) => void;
+        httpClient.executeStressTest.mockReturnValue(new Promise<StressTestResponse>(resolve => { respond = resolve; }));
+        return (response: StressTestResponse) => respond(response);
+    };
+    const complete = (result: StressTestResponse) => completionCallbacks.forEach(callback => callback(result));
+    const loseConnection = () => connectionLostCallbacks.forEach(callback => callback());
+
+    beforeEach(() => {
+        completionCallbacks = [];
+        connectionLostCallbacks = [];
+        httpClient = { executeStressTest: vi.fn(), cancelStressTest: vi.fn() };
+        const websocketClient = {
+            onStressTestCompleted: vi.fn((callback) => completionCallbacks.push(callback)),
+            offStressTestCompleted: vi.fn((callback) => {
+                completionCallbacks = completionCallbacks.filter(c => c !== callback);
+            }),
+            onConnectionLost: vi.fn((callback) => connectionLostCallbacks.push(callback)),
+            offConnectionLost: vi.fn((callback) => {
+                connectionLostCallbacks = connectionLostCallbacks.filter(c => c !== callback);
+            })
+        };
+        const logger = { log: vi.fn(), warn: vi.fn(), error: vi.fn(), info: vi.fn(), debug: vi.fn() } as unknown as ILogger;
+        handler = new StressTestHandler(httpClient as unknown as HttpClient, websocketClient as unknown as WebSocketClient, logger);
+    });
+
+    const request = { connectionId: 'conn_1', query: 'SELECT 1', parallelExecutions: 1, totalExecutions: 1 };
+
+    it('should resolve with a completion that arrives before the start response', async () => {
+        const respond = deferredStart();
+        const run = handler.executeStressTest(request);
+        await Promise.resolve();
+
+        complete({ success: false, testId: 'test-1', error: 'Invalid object name' });
+        respond({ success: true, testId: 'test-1' });
+
+        await expect(run).resolves.toEqual({ success: false, testId: 'test-1', error: 'Invalid object name' });
+        expect(handler.isRunning()).toBe(false);
+    });
+
+    it('should ignore completions of other tests', async () => {
+        const respond = deferredStart();
+        const run = handler.executeStressTest(request);
+        await Promise.resolve();
+
+        complete({ success: true, testId: 'other-test' });
+        respond({ success: true, testId: 'test-1' });
+        await Promise.resolve();
+        expect(handler.isRunning()).toBe(true);
+
+        complete({ success: true, testId: 'test-1', message: 'Done' });
+        await expect(run).resolves.toMatchObject({ testId: 'test-1', message: 'Done' });
+    });
+
+    it('should cancel on the backend when stopped while the start request is in flight', async () => {
+        const respond = deferredStart();
+        httpClient.cancelStressTest.mockResolvedValue({ success: true, testId: 'test-1', cancelled: true });
+        const run = handler.executeStressTest(request);
+        await Promise.resolve();
+
+        const stop = handler.stopStressTest();
+        expect(httpClient.cancelStressTest).not.toHaveBeenCalled();
+        respond({ success: true, testId: 'test-1' });
+
+        await expect(stop).resolves.toMatchObject({ success: true, cancelled: true });
+        expect(httpClient.cancelStressTest).toHaveBeenCalledWith('test-1');
+        await expect(run).resolves.toMatchObject({ success: false, cancelled: true });
+    });
+
+    it('should not cancel on the backend when the stopped test never started', async () => {
+        const respond = deferredStart();
+        const run = handler.executeStressTest(request);
+        await Promise.resolve();
+
+        const stop = handler.stopStressTest();
+        respond({ success: false, error: 'Connection not found' });
+
+        await expect(stop).resolves.toMatchObject({ success: true, cancelled: true });
+        await expect(run).resolves.toEqual({ success: false, error: 'Connection not found' });
+        expect(httpClient.cancelStressTest).not.toHaveBeenCalled();
+    });
+
+    it('should fail the run when the WebSocket drops before the completion arrives', async () => {
+        const respond = deferredStart();
+        const run = handler.executeStressTest(request);
+        await Promise.resolve();
+
+        respond({ success: true, testId: 'test-1' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        loseConnection();
+
+        await expect(run).resolves.toMatchObject({ success: false, testId: 'test-1', error: expect.stringContaining('Lost the connection') });
+        expect(handler.isRunning()).toBe(false);
+        expect(connectionLostCallbacks).toHaveLength(0);
+    });
+
+    it('should fail the run when the WebSocket drops while the start request is in flight', async () => {
+        const respond = deferredStart();
+        const run = handler.executeStressTest(request);
+        await Promise.resolve();
+
+        loseConnection();
+        respond({ success: true, testId: 'test-1' });
+
+        await expect(run).resolves.toMatchObject({ success: false, error: expect.stringContaining('Lost the connection') });
+        expect(handler.isRunning()).toBe(false);
+        expect(handler.getCurrentTestId()).toBeUndefined();
+    });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ConnectionImportError, parseConnectionImportFile, parseDataStudioSettings, parseRegisteredServers } from '../../services/connectionImport';
+
+const registeredServer = (name: string, serverName: string, connectionString: string, parentUri: string, serverType = 'DatabaseEngine') => `
+          <RegisteredServers:RegisteredServer xmlns:RegisteredServers="http://schemas.microsoft.com/sqlserver/RegisteredServers/2007/08">
+            <RegisteredServers:Parent>
+              <sfc:Reference sml:ref="true">
+                <sml:Uri>${parentUri}</sml:Uri>
+              </sfc:Reference>
+            </RegisteredServers:Parent>
+            <RegisteredServers:Name type="string">${name}</RegisteredServers:Name>
+            <RegisteredServers:Description type="string" />
+            <RegisteredServers:ServerName type="string">${serverName}</RegisteredServers:ServerName>
+            <RegisteredServers:ConnectionStringWithEncryptedPassword type="string">${connectionString}</RegisteredServers:ConnectionStringWithEncryptedPassword>
+            <RegisteredServers:ServerType type="ServerType">${serverType}</RegisteredServers:ServerType>
+          </RegisteredServers:RegisteredServer>`;
+
+const REGSRVR = `<?xml version="1.0"?>
+<model xmlns="http://schemas.serviceml.org/smlif/2007/02">
+  <xs:bufferSchema>
+    <definitions>
+      <document>
+        <data>
+          <RegisteredServers:ServerGroup>
+            <RegisteredServers:RegisteredServers>
+              <sml:Uri>/RegisteredServersStore/ServerGroup/DatabaseEngineServerGroup/ServerGroup/Prod/RegisteredServer/Orders</sml:Uri>
+            </RegisteredServers:RegisteredServers>
+          </RegisteredServers:ServerGroup>
+          ${registeredServer('Orders &amp; Billing', 'prod-sql-01\\ORDERS,1444',
+        'data source=prod-sql-01\\ORDERS,1444;integrated security=True;initial catalog=Orders;pooling=False',
+        '/RegisteredServersStore/ServerGroup/DatabaseEngineServerGroup/ServerGroup/Prod/ServerGroup/Team%20A')}
+          ${registeredServer('Reporting', 'report-sql',
+        'data source=report-sql;integrated security=False;user id=report;password="AQAAANCMnd8BFdERjHoAwE/Cl+sBAAAA"',
+        '/RegisteredServersStore/ServerGroup/DatabaseEngineServerGroup')}
+          ${registeredServer('Cube', 'olap-01', 'data source=olap-01', '/RegisteredServersStore/ServerGroup/AnalysisServicesServerGroup', 'AnalysisServices')}
+        </data>
+      </document>
+    </definitions>
+  </xs:bufferSchema>
+</model>`;
+
+describe('connectionImport', () => {
+    it('should read the database engine servers of a Registered Servers export with their groups', () => {
+        expect(parseRegisteredServers(REGSRVR)).toEqual([
+            {
+                name: 'Orders & Billing',
+                server: 'prod-sql-01\\ORDERS',
+                port: 1444,
+                database: 'Orders',
+                integratedSecurity: true,
+                group: 'Prod / Team A'
+            },
+            {
+                // The encrypted password is left behind
+                name: 'Reporting',
+                server: 'report-sql',
+                username: 'report',
+                integratedSecurity: false
+            }
+        ]);
+    });
+
+    it('should read Azure Data Studio connections with nested groups from a settings file with comments', () => {
+        const settings = `{
+            // Azure Data Studio settings
+            "workbench.colorTheme": "Default Dark+",
+            "datasource.connectionGroups": [
+                { "name": "ROOT", "id": "root" },
+                { "name": "QA", "id": "g1", "parentId": "root" },
+                { "name": "Payments", "id": "g2", "parentId": "g1" },
+            ],
+            "datasource.connections": [
+                {
+                    "options": { "connectionName": "Payments QA", "server": "tcp:qa-sql,1433", "database": "Payments",
+                        "authenticationType": "SqlLogin", "user": "stress", "password": "" },
+                    "groupId": "g2",
+                    "providerName": "MSSQL"
+                },
+                { "options": { "server": "pg-01" }, "groupId": "root", "providerName": "PGSQL" },
+                { "options": { "server": "localhost", "authenticationType": "Integrated" }, "groupId": "root", "providerName": "MSSQL" }
+            ]
+        }`;
+
+        expect(parseDataStudioSettings(settings)).toEqual([
+            {
+                name: 'Payments QA',
+                server: 'qa-sql',
+                port: 1433,
+                database: 'Payments',
+                username: 'stress',
+                integratedSecurity: false,
+                group: 'QA / Payments'
+            },
+            { name: 'localhost', server: 'localhost', integratedSecurity: true }
+        ]);
+    });
+
+    it('should read VS Code mssql profiles', () => {
+        expect(parseDataStudioSettings(JSON.stringify({
+            'mssql.connections': [
+                { server: 'dev-sql', profileName: 'Dev', authenticationType: 'SqlLogin', user: 'sa', password: 'secret', savePassword: true }
+            ]
+        }))).toEqual([
+            { name: 'Dev', server: 'dev-sql', username: 'sa', password: 'secret', integratedSecurity: false }
+        ]);
+    });
+
+    it('should reject unknown files and files without connections', () => {
+        expect(() => parseConnectionImportFile('servers.xml', REGSRVR)).toThrow(ConnectionImportError);
+        expect(() => parseConnectionImportFile('settings.json', '{ "editor.fontSize": 14 }'))
+            .toThrow('settings.json has no SQL Server connections');
+        expect(() => parseConnectionImportFile('settings.json', '{ "datasource.connections": [')).toThrow(/^Settings file is not valid JSON/);
+        expect(parseConnectionImportFile('Servers.REGSRVR', REGSRVR)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest';
+import { buildConnectionString, ConnectionStringError, formatAdditionalKeywords, parseAdditionalKeywords, parseConnectionString, pickConnectionOptions, validateConnectionOptions } from '../../services/connectionString';
+import { ConnectionConfig } from '../../services/storage';
+
+describe('connectionString', () => {
+    describe('parseConnectionString', () => {
+        it('should read server, port, database and SQL login', () => {
+            const parsed = parseConnectionString('Data Source=tcp:prod-sql-01\\ORDERS,1444;Initial Catalog=Orders;User ID=stress;Password=s3cret');
+
+            expect(parsed).toEqual({
+                settings: {
+                    server: 'prod-sql-01\\ORDERS',
+                    port: 1444,
+                    database: 'Orders',
+                    username: 'stress',
+                    password: 's3cret',
+                    integratedSecurity: false
+                },
+                options: {},
+                ignoredKeywords: []
+            });
+        });
+
+        it('should accept keyword aliases in any case', () => {
+            const parsed = parseConnectionString('server=localhost; DATABASE=master; Trusted_Connection=yes');
+
+            expect(parsed.settings).toEqual({ server: 'localhost', database: 'master', integratedSecurity: true });
+        });
+
+        it('should accept UID and PWD', () => {
+            const parsed = parseConnectionString('Address=qa-sql;uid=sa;pwd=pass');
+
+            expect(parsed.settings.username).toBe('sa');
+            expect(parsed.settings.password).toBe('pass');
+        });
+
+        it('should unquote values holding separators and quotes', () => {
+            const parsed = parseConnectionString('Server=qa-sql;User Id=stress;Password="p;w""d";Integrated Security=SSPI');
+
+            expect(parsed.settings.password).toBe('p;w"d');
+            expect(parsed.settings.integratedSecurity).toBe(true);
+        });
+
+        it('should read encryption, timeouts, application and failover options', () => {
+            const parsed = parseConnectionString(
+                'Server=ag-listener;Encrypt=Strict;TrustServerCertificate=False;Connection Timeout=45;Command Timeout=120;' +
+                'App=Load test;ApplicationIntent=ReadOnly;MultiSubnetFailover=Yes'
+            );
+
+            expect(parsed.settings).toEqual({
+                server: 'ag-listener',
+                integratedSecurity: false,
+                encrypt: 'Strict',
+                trustServerCertificate: false,
+                connectTimeout: 45,
+                commandTimeout: 120,
+                applicationName: 'Load test',
+                applicationIntent: 'ReadOnly',
+                multiSubnetFailover: true
+            });
+        });
+
+        it('should read Encrypt=True and Encrypt=False as Mandatory and Optional', () => {
+            expect(parseConnectionString('Server=a;Encrypt=True').settings.encrypt).toBe('Mandatory');
+            expect(parseConnectionString('Server=a;Encrypt=no').settings.encrypt).toBe('Optional');
+        });
+
+        it('should return the keywords without a setting of their own as written', () => {
+            const parsed = parseConnectionString('Server=qa-sql;Packet Size=8192;Workstation ID=loadgen-01;');
+
+            expect(parsed.options).toEqual({ 'Packet Size': '8192', 'Workstation ID': 'loadgen-01' });
+        });
+
+        it('should leave out the OLE DB and ODBC keywords SqlClient does not support', () => {
+            const parsed = parseConnectionString('Provider=MSOLEDBSQL;Driver={ODBC Driver 18 for SQL Server};Server=qa-sql;Port=1444;Max Pool Size=200');
+
+            expect(parsed.settings.server).toBe('qa-sql');
+            expect(parsed.options).toEqual({ 'Max Pool Size': '200' });
+            expect(parsed.ignoredKeywords).toEqual(['Provider', 'Driver', 'Port']);
+        });
+
+        it('should reject option values SqlClient would not accept', () => {
+            expect(() => parseConnectionString('Server=a;Encrypt=maybe')).toThrow('Encrypt must be Optional, Mandatory or Strict');
+            expect(() => parseConnectionString('Server=a;Connect Timeout=soon')).toThrow(ConnectionStringError);
+            expect(() => parseConnectionString('Server=a;ApplicationIntent=ReadMostly')).toThrow(ConnectionStringError);
+        });
+
+        it('should reject connection strings without a server', () => {
+            expect(() => parseConnectionString('Initial Catalog=Orders')).toThrow(ConnectionStringError);
+            expect(() => parseConnectionString('')).toThrow(ConnectionStringError);
+        });
+    });
+
+    describe('buildConnectionString', () => {
+        it('should write a SQL login connection without its password', () => {
+            const connectionString = buildConnectionString({
+                id: 'conn_1',
+                name: 'Orders',
+                server: 'prod-sql-01\\ORDERS',
+                port: 1444,
+                database: 'Orders',
+                username: 'stress',
+                password: 's3cret'
+            });
+
+            expect(connectionString).toBe('Data Source=prod-sql-01\\ORDERS,1444;Initial Catalog=Orders;User ID=stress');
+        });
+
+        it('should leave out the default port and the login of Windows Authentication', () => {
+            const connectionString = buildConnectionString({
+                id: 'conn_2', name: 'Local', server: 'localhost', port: 1433, username: 'old', integratedSecurity: true
+            });
+
+            expect(connectionString).toBe('Data Source=localhost;Integrated Security=True');
+        });
+
+        it('should write the options and additional keywords that are set', () => {
+            const connectionString = buildConnectionString({
+                id: 'conn_4',
+                name: 'AG',
+                server: 'ag-listener',
+                integratedSecurity: true,
+                encrypt: 'Strict',
+                trustServerCertificate: false,
+                commandTimeout: 0,
+                applicationIntent: 'ReadOnly',
+                additionalKeywords: { 'Packet Size': '8192' }
+            });
+
+            expect(connectionString).toBe(
+                'Data Source=ag-listener;Integrated Security=True;Encrypt=Strict;Trust Server Certificate=False;' +
+                'Command Timeout=0;Application Intent=ReadOnly;Packet Size=8192'
+            );
+        });
+
+        it('should leave out additional keywords that set the server or login', () => {
+            const connectionString = buildConnectionString({
+                id: 'conn_4', name: 'QA', server: 'qa-sql', username: 'stress',
+                additionalKeywords: { 'Pwd': 'secret', 'Data Source': 'other-sql', 'Packet Size': '8192' }
+            });
+
+            expect(connectionString).toBe('Data Source=qa-sql;User ID=stress;Packet Size=8192');
+        });
+
+        it('should be read back by parseConnectionString', () => {
+            const connectionString = buildConnectionString({
+                id: 'conn_3', name: 'QA', server: 'qa-sql', database: 'Load;Test "A"', username: 'stress'
+            });
+
+            expect(parseConnectionString(connectionString).settings).toEqual({
+                server: 'qa-sql', database: 'Load;Test "A"', username: 'stress', integratedSecurity: false
+            });
+        });
+    });
+
+    describe('additional keywords', () => {
+        it('should read back what formatAdditionalKeywords writes', () => {
+            const keywords = { 'Packet Size': '8192', 'Workstation ID': 'load; gen' };
+
+            expect(formatAdditionalKeywords(keywords)).toBe('Packet Size=8192;Workstation ID="load; gen"');
+            expect(parseAdditionalKeywords(formatAdditionalKeywords(keywords))).toEqual(keywords);
+        });
+
+        it('should write nothing when there are none', () => {
+            expect(formatAdditionalKeywords(undefined)).toBe('');
+            expect(parseAdditionalKeywords('')).toEqual({});
+        });
+    });
+
+    describe('validateConnectionOptions', () => {
+        it('should accept SqlClient keywords and their synonyms in any case', () => {
+            expect(() => validateConnectionOptions({
+                encrypt: 'Strict',
+                applicationIntent: 'ReadOnly',
+                additionalKeywords: { 'packet size': '8192', 'MAX POOL SIZE': '200', 'WSID': 'loadgen-01' }
+            })).not.toThrow();
+        });
+
+        it('should reject keywords SqlClient does not support', () => {
+            expect(() => validateConnectionOptions({ additionalKeywords: { 'Packet Size': '8192', 'Provider': 'SQLOLEDB', 'Port': '1444' } }))
+                .toThrow('SqlClient does not support the keywords Provider, Port');
+            expect(() => validateConnectionOptions({ additionalKeywords: { 'constructor': 'x' } })).toThrow(ConnectionStringError);
+        });
+
+        it('should reject keywords that set the server, database or login', () => {
+            expect(() => validateConnectionOptions({ additionalKeywords: { 'Packet Size': '8192', 'Password': 'secret', 'initial  catalog': 'Other' } }))
+                .toThrow('Set the server, database and login in their own fields, not as the keywords Password, initial  catalog');
+            for (const keyword of ['Pwd', 'User ID', 'UID', 'Data Source', 'Server', 'Addr', 'Database', 'Trusted_Connection']) {
+                expect(() => validateConnectionOptions({ additionalKeywords: { [keyword]: 'x' } })).toThrow(ConnectionStringError);
+            }
+        });
+
+        it('should reject encryption and application intent values SqlClient does not know', () => {
+            expect(() => validateConnectionOptions({ encrypt: 'True' as ConnectionConfig['encrypt'] })).toThrow('Encrypt must be Optional, Mandatory or Strict');
+            expect(() => validateConnectionOptions({ applicationIntent: 'ReadMostly' as ConnectionConfig['applicationIntent'] })).toThrow(ConnectionStringError);
+        });
+    });
+
+    describe('pickConnectionOptions', () => {
+        it('should copy only the options that are set', () => {
+            const options = pickConnectionOptions({
+                id: 'conn_5', name: 'QA', server: 'qa-sql', password: 'secret', encrypt: 'Optional', multiSubnetFailover: false
+            } as ConnectionConfig);
+
+            expect(options).toEqual({ encrypt: 'Optional', multiSubnetFailover: false });
+        });
+    });
+});
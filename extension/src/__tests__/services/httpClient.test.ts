@@ -5,6 +5,14 @@ import * as vscode from 'vscode';
 
 vi.mock('axios');
 vi.mock('vscode', () => ({
+    window: {
+        createOutputChannel: vi.fn(() => ({
+            append: vi.fn(),
+            appendLine: vi.fn(),
+            show: vi.fn(),
+            dispose: vi.fn()
+        }))
+    },
     workspace: {
         getConfiguration: vi.fn(() => ({
             get: vi.fn(() => 'http://localhost:5000')
@@ -128,5 +136,78 @@ describe('HttpClient', () => {
             expect(result).toEqual(mockErrorResponse);
         });
     });
-});
 
+    describe('cancelStressTest', () => {
+        it('should post cancel request for the test id', async () => {
+            const mockResponse = {
+                success: true,
+                cancelled: true,
+                testId: 'test-123',
+                message: 'Stress test cancelled'
+            };
+            const mockPost = vi.fn().mockResolvedValue({ data: mockResponse });
+            (client as any).client = { post: mockPost };
+
+            const result = await client.cancelStressTest('test-123');
+
+            expect(result).toEqual(mockResponse);
+            expect(mockPost).toHaveBeenCalledWith('/api/sql/stress-test/test-123/cancel');
+        });
+
+        it('should return server error response when test is not running', async () => {
+            const mockErrorResponse = {
+                success: false,
+                testId: 'unknown',
+                error: "Stress test 'unknown' is not running"
+            };
+            const mockPost = vi.fn().mockRejectedValue({
+                message: 'Request failed with status code 404',
+                response: { status: 404, data: mockErrorResponse }
+            });
+            (client as any).client = { post: mockPost };
+
+            const result = await client.cancelStressTest('unknown');
+
+            expect(result).toEqual(mockErrorResponse);
+        });
+
+        it('should throw when backend is unreachable', async () => {
+            const mockPost = vi.fn().mockRejectedValue({ message: 'Network Error' });
+            (client as any).client = { post: mockPost };
+
+            await expect(client.cancelStressTest('test-123')).rejects.toThrow('Failed to cancel stress test: Network Error');
+        });
+    });
+
+    describe('getDatabaseObjects', () => {
+        it('should post the explorer node to the objects endpoint', async () => {
+            const mockResponse = {
+                success: true,
+                objects: [{ name: 'Id', detail: 'PK, int, not null' }]
+            };
+            const mockPost = vi.fn().mockResolvedValue({ data: mockResponse });
+            (client as any).client = { post: mockPost };
+            const request = {
+                connectionId: 'conn_1',
+                objectType: 'columns' as const,
+                database: 'Shop',
+                schema: 'dbo',
+                objectName: 'Orders'
+            };
+
+            const result = await client.getDatabaseObjects(request);
+
+            expect(result).toEqual(mockResponse);
+            expect(mockPost).toHaveBeenCalledWith('/api/sql/objects', request);
+        });
+
+        it('should return the error instead of throwing when the backend is unreachable', async () => {
+            const mockPost = vi.fn().mockRejectedValue({ message: 'Network Error' });
+            (client as any).client = { post: mockPost };
+
+            const result = await client.getDatabaseObjects({ connectionId: 'conn_1', objectType: 'databases' });
+
+            expect(result).toEqual({ success: false, error: 'Network Error' });
+        });
+    });
+});
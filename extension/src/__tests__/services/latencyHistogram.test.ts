@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { LatencyHistogram } from '../../services/latencyHistogram';
+import { percentile } from '../../services/runMetrics';
+
+describe('LatencyHistogram', () => {
+    it('should estimate percentiles within the relative accuracy', () => {
+        const histogram = new LatencyHistogram(0.01);
+        const values = Array.from({ length: 20000 }, (_, i) => 0.5 + ((i * 7919) % 20000) * 0.37);
+        values.forEach(value => histogram.record(value));
+        const sorted = [...values].sort((a, b) => a - b);
+
+        [50, 90, 95, 99, 99.9].forEach(p => {
+            const exact = percentile(sorted, p);
+            expect(Math.abs(histogram.percentile(p) - exact) / exact).toBeLessThanOrEqual(0.01);
+        });
+        expect(histogram.count).toBe(20000);
+        expect(histogram.min).toBe(sorted[0]);
+        expect(histogram.max).toBe(sorted[sorted.length - 1]);
+    });
+
+    it('should count zero durations and ignore values that are not numbers', () => {
+        const histogram = new LatencyHistogram();
+        [0, 0, 0, 10, NaN, Infinity].forEach(value => histogram.record(value));
+
+        expect(histogram.count).toBe(4);
+        expect(histogram.percentile(50)).toBe(0);
+        expect(histogram.percentile(99)).toBeCloseTo(10, 0);
+        expect(histogram.mean).toBe(2.5);
+    });
+
+    it('should report zeros and no bins when empty', () => {
+        const histogram = new LatencyHistogram();
+
+        expect(histogram.percentiles()).toEqual({ p50: 0, p90: 0, p95: 0, p99: 0 });
+        expect(histogram.distribution()).toEqual([]);
+    });
+
+    it('should merge histograms with the same accuracy', () => {
+        const first = new LatencyHistogram();
+        const second = new LatencyHistogram();
+        [1, 2, 3].forEach(value => first.record(value));
+        [100, 200].forEach(value => second.record(value));
+
+        first.merge(second);
+
+        expect(first.count).toBe(5);
+        expect(first.max).toBe(200);
+        expect(first.percentile(100)).toBe(200);
+        expect(() => first.merge(new LatencyHistogram(0.05))).toThrow('relative accuracy');
+    });
+
+    it('should spread every recorded duration over equal-width bins', () => {
+        const histogram = new LatencyHistogram();
+        [0, 5, 10, 10, 50, 95, 100].forEach(value => histogram.record(value));
+
+        const bins = histogram.distribution(10);
+
+        expect(bins).toHaveLength(10);
+        expect(bins[0].lowerBound).toBe(0);
+        expect(bins[9].upperBound).toBe(100);
+        expect(bins.reduce((total, bin) => total + bin.count, 0)).toBe(7);
+        expect(bins[9].count).toBe(2);
+    });
+
+    it('should use a single bin when every duration is the same', () => {
+        const histogram = new LatencyHistogram();
+        [4, 4, 4].forEach(value => histogram.record(value));
+
+        expect(histogram.toDistribution()).toEqual({
+            count: 3,
+            percentiles: { p50: 4, p90: 4, p95: 4, p99: 4 },
+            bins: [{ lowerBound: 4, upperBound: 4, count: 3 }]
+        });
+    });
+
+    it('should restore a histogram from its snapshot', () => {
+        const histogram = new LatencyHistogram();
+        [0, 3, 7, 120, 450].forEach(value => histogram.record(value));
+
+        const restored = LatencyHistogram.fromSnapshot(JSON.parse(JSON.stringify(histogram.toSnapshot())));
+
+        expect(restored.percentiles()).toEqual(histogram.percentiles());
+        expect(restored.distribution(5)).toEqual(histogram.distribution(5));
+        expect(restored.mean).toBe(histogram.mean);
+    });
+
+    it('should bin over given bounds so histograms can be compared', () => {
+        const histogram = new LatencyHistogram();
+        [20, 30].forEach(value => histogram.record(value));
+
+        const bins = histogram.distribution(4, 0, 100);
+
+        expect(bins.map(bin => bin.count)).toEqual([1, 1, 0, 0]);
+        expect(bins[3].upperBound).toBe(100);
+    });
+
+    it('should reject a relative accuracy outside (0, 1)', () => {
+        expect(() => new LatencyHistogram(0)).toThrow();
+        expect(() => new LatencyHistogram(1)).toThrow();
+    });
+});
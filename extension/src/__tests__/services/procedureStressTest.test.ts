@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildProcedureStressTest, chooseParameterGenerator } from '../../services/procedureStressTest';
+
+describe('procedureStressTest', () => {
+    it('should pick a generator that fits the parameter type', () => {
+        expect(chooseParameterGenerator('int')).toEqual({ generator: 'sequential', start: 1, step: 1 });
+        expect(chooseParameterGenerator('bit')).toEqual({ generator: 'randomRange', min: 0, max: 1 });
+        expect(chooseParameterGenerator('tinyint')).toEqual({ generator: 'randomRange', min: 0, max: 255 });
+        expect(chooseParameterGenerator('decimal(18,2)')).toEqual({ generator: 'randomRange', min: 1, max: 1000 });
+        expect(chooseParameterGenerator('UNIQUEIDENTIFIER')).toEqual({ generator: 'guid' });
+        expect(chooseParameterGenerator('nvarchar(max)')).toEqual({ generator: 'guid' });
+        expect(chooseParameterGenerator('varchar(50)')).toEqual({ generator: 'guid' });
+        expect(chooseParameterGenerator('char(10)')).toEqual({ generator: 'sequential', start: 1, step: 1 });
+        expect(chooseParameterGenerator('datetime2(7)')).toMatchObject({ generator: 'lookupQuery', lookupQuery: expect.stringContaining('DATEADD(day') });
+        expect(chooseParameterGenerator('time(7)')).toMatchObject({ generator: 'lookupQuery', lookupQuery: expect.stringContaining('AS time') });
+    });
+
+    it('should leave types without a suitable generator unbound', () => {
+        expect(chooseParameterGenerator('varbinary(max)')).toBeUndefined();
+        expect(chooseParameterGenerator('xml')).toBeUndefined();
+        expect(chooseParameterGenerator(undefined)).toBeUndefined();
+    });
+
+    it('should bind input parameters to placeholders and declare output and unsupported parameters', () => {
+        const stressTest = buildProcedureStressTest('Sales', 'usp_PlaceOrder', [
+            { name: '@customerId', dataType: 'int', isOutput: false },
+            { name: '@payload', dataType: 'varbinary(max)', isOutput: false },
+            { name: '@orderId', dataType: 'int', isOutput: true }
+        ]);
+
+        expect(stressTest.query).toBe([
+            'DECLARE @payload varbinary(max); -- no generator for varbinary(max)',
+            'DECLARE @orderId int; -- output',
+            'EXEC [Sales].[usp_PlaceOrder]',
+            '    @customerId = @customerId,',
+            '    @payload = @payload,',
+            '    @orderId = @orderId OUTPUT;'
+        ].join('\n'));
+        expect(stressTest.parameters).toEqual([
+            { name: '@customerId', generator: 'sequential', start: 1, step: 1 }
+        ]);
+    });
+
+    it('should quote names and execute procedures without parameters', () => {
+        expect(buildProcedureStressTest('dbo', 'usp_Odd]Name', [])).toEqual({
+            query: 'EXEC [dbo].[usp_Odd]]Name];',
+            parameters: []
+        });
+    });
+});
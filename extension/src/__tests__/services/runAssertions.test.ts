@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRunMetrics, ExecutionAccumulator, readBatchCompleted } from '../../services/runMetrics';
+import { describeAssertionResult, evaluateAssertions, parseAssertion } from '../../services/runAssertions';
+
+describe('runMetrics', () => {
+    it('should calculate nearest-rank percentiles, error rate and logical reads', () => {
+        const samples = Array.from({ length: 100 }, (_, i) => ({
+            duration: i + 1,
+            logicalReads: i < 50 ? 1000 : 3000,
+            failed: i === 99
+        }));
+
+        const metrics = calculateRunMetrics(samples);
+
+        expect(metrics).toMatchObject({
+            executionCount: 100,
+            failedExecutionCount: 1,
+            errorRatePercent: 1,
+            avgDuration: 50.5,
+            minDuration: 1,
+            maxDuration: 100,
+            durationPercentiles: { p50: 50, p90: 90, p95: 95, p99: 99 },
+            avgLogicalReads: 2000
+        });
+    });
+
+    it('should leave percentiles and logical reads out when nothing was measured', () => {
+        const metrics = calculateRunMetrics([{ failed: false }]);
+
+        expect(metrics.durationPercentiles).toBeUndefined();
+        expect(metrics.avgLogicalReads).toBeUndefined();
+    });
+
+    it('should include executions folded into an accumulator', () => {
+        const earlier = new ExecutionAccumulator();
+        for (let i = 1; i <= 900; i++) {
+            earlier.add({ duration: i, logicalReads: 10, failed: i <= 9 });
+        }
+        const samples = Array.from({ length: 100 }, (_, i) => ({ duration: 901 + i, logicalReads: 30 }));
+
+        const metrics = calculateRunMetrics(samples, earlier);
+
+        expect(metrics).toMatchObject({ executionCount: 1000, failedExecutionCount: 9, minDuration: 1, maxDuration: 1000, avgLogicalReads: 12 });
+        expect(metrics.errorRatePercent).toBeCloseTo(0.9);
+        expect(metrics.avgDuration).toBeCloseTo(500.5);
+        expect(Math.abs(metrics.durationPercentiles!.p50 - 500) / 500).toBeLessThanOrEqual(0.01);
+        expect(Math.abs(metrics.durationPercentiles!.p99 - 990) / 990).toBeLessThanOrEqual(0.01);
+        expect(earlier.executionCount).toBe(900);
+    });
+
+    it('should read duration, logical reads and the result from sql_batch_completed', () => {
+        const sample = readBatchCompleted({
+            eventName: 'sql_batch_completed',
+            timestamp: '',
+            executionId: 'id-1',
+            executionNumber: 1,
+            eventFields: { duration: '12500', logical_reads: 840, writes: 3, cpu_time: 9000, result: 'Abort' },
+            actions: {}
+        });
+
+        expect(sample).toEqual({ duration: 12.5, logicalReads: 840, writes: 3, cpuTime: 9, failed: true });
+    });
+
+    it('should check ms thresholds against the microseconds sql_batch_completed reports', () => {
+        const event = (duration: number, cpuTime: number) => readBatchCompleted({
+            eventName: 'sql_batch_completed',
+            timestamp: '2024-05-02T09:14:03.512Z',
+            executionId: 'id-1',
+            executionNumber: 1,
+            eventFields: { duration, cpu_time: cpuTime, logical_reads: 1842, writes: 0, result: 'OK' },
+            actions: {}
+        });
+        const metrics = calculateRunMetrics([event(48500, 46875), event(151500, 140625)]);
+
+        expect(metrics).toMatchObject({ avgDuration: 100, minDuration: 48.5, maxDuration: 151.5, avgCpuTime: 93.75 });
+        expect(evaluateAssertions(metrics, [parseAssertion('max duration < 200ms'), parseAssertion('avg duration <= 0.1s')]).map(r => r.passed))
+            .toEqual([true, true]);
+    });
+});
+
+describe('runAssertions', () => {
+    const metrics = calculateRunMetrics([
+        { duration: 100, logicalReads: 4000 },
+        { duration: 150, logicalReads: 6000 },
+        { duration: 350, logicalReads: 5000, failed: true }
+    ]);
+
+    it('should convert units and evaluate against the run metrics', () => {
+        const results = evaluateAssertions(metrics, [
+            parseAssertion('avg duration < 0.25s'),
+            parseAssertion('max duration <= 250 ms'),
+            parseAssertion('P95 Duration < 200ms'),
+            parseAssertion('median duration <= 150ms'),
+            parseAssertion('executions >= 3'),
+            parseAssertion('error rate < 1%'),
+            parseAssertion('avg logical reads < 5000')
+        ]);
+
+        expect(results.map(r => r.passed)).toEqual([true, false, false, true, true, false, false]);
+        expect(results[2]).toEqual({ expression: 'P95 Duration < 200ms', metric: 'p95Duration', passed: false, actual: 350 });
+        expect(describeAssertionResult(results[5])).toBe('error rate < 1% (was 33.33%)');
+    });
+
+    it('should fail assertions on metrics the run did not measure', () => {
+        const results = evaluateAssertions(calculateRunMetrics([{ duration: 10 }]), [parseAssertion('avg logical reads < 5000')]);
+
+        expect(results[0]).toMatchObject({ passed: false, actual: undefined });
+        expect(describeAssertionResult(results[0])).toBe('avg logical reads < 5000 (was not measured)');
+    });
+
+    it('should reject malformed assertions', () => {
+        expect(parseAssertion('max duration <= 2s').value).toBe(2000);
+        expect(() => parseAssertion('avg duration < 5%')).toThrow('needs a duration in ms or s');
+        expect(() => parseAssertion('avg logical reads > 10ms')).toThrow('takes no unit');
+        expect(() => parseAssertion('error rate < 2s')).toThrow('needs a percentage');
+        expect(() => parseAssertion('avg duration is fast')).toThrow(/must look like/);
+        expect(() => parseAssertion('cpu < 80%')).toThrow(/Unknown metric "cpu"/);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { compareRuns } from '../../services/runComparison';
+import { LatencyHistogram } from '../../services/latencyHistogram';
+import { HistoricalRun } from '../../services/storage';
+
+const histogramOf = (durations: number[]) => {
+    const histogram = new LatencyHistogram();
+    durations.forEach(duration => histogram.record(duration));
+    return histogram.toSnapshot();
+};
+
+const run = (runId: number, overrides: Partial<HistoricalRun> = {}): HistoricalRun => ({
+    runId,
+    startTime: 1000 * runId,
+    endTime: 1000 * runId + 500,
+    avgDuration: 100,
+    minDuration: 10,
+    maxDuration: 400,
+    executionCount: 50,
+    durationPercentiles: { p50: 80, p90: 200, p95: 300, p99: 390 },
+    avgLogicalReads: 5000,
+    ...overrides
+});
+
+describe('runComparison', () => {
+    it('should show the change of every candidate against the baseline', () => {
+        const baseline = run(1, { connection: { id: 'c1', name: 'Local dev' } });
+        const rewrite = run(2, { avgDuration: 40, durationPercentiles: { p50: 30, p90: 60, p95: 80, p99: 120 }, avgLogicalReads: 5100 });
+        const regression = run(3, { avgDuration: 150, avgLogicalReads: 9000 });
+
+        const comparison = compareRuns(baseline, [rewrite, regression]);
+
+        const avgDuration = comparison.rows.find(r => r.metric === 'avgDuration')!;
+        expect(avgDuration.baseline).toBe(100);
+        expect(avgDuration.candidates).toEqual([
+            { value: 40, changePercent: -60, verdict: 'better' },
+            { value: 150, changePercent: 50, verdict: 'worse' }
+        ]);
+        const reads = comparison.rows.find(r => r.metric === 'avgLogicalReads')!;
+        expect(reads.candidates.map(c => c.verdict)).toEqual(['unchanged', 'worse']);
+        expect(comparison.baseline).toEqual({ runId: 1, startTime: 1000, executionCount: 50, connectionName: 'Local dev' });
+        expect(comparison.candidates.map(c => c.runId)).toEqual([2, 3]);
+    });
+
+    it('should leave out metrics that none of the runs measured and mark one-sided ones', () => {
+        const comparison = compareRuns(run(1), [run(2, { avgWrites: 12 })]);
+
+        const metrics = comparison.rows.map(r => r.metric);
+        expect(metrics).not.toContain('avgCpuTime');
+        expect(metrics).not.toContain('avgDataSizeBytes');
+        expect(comparison.rows.find(r => r.metric === 'avgWrites')!.candidates).toEqual([{ value: 12 }]);
+    });
+
+    it('should overlay the latency distributions over the same bins', () => {
+        const baseline = run(1, { durationHistogram: histogramOf([10, 20, 30, 40]) });
+        const candidate = run(2, { durationHistogram: histogramOf([10, 10, 10, 90]) });
+        const olderRun = run(3);
+
+        const overlay = compareRuns(baseline, [candidate, olderRun], 8).latencyOverlay!;
+
+        expect(overlay.bins).toHaveLength(8);
+        expect(overlay.bins[0].lowerBound).toBe(10);
+        expect(overlay.bins[7].upperBound).toBe(90);
+        expect(overlay.series.map(s => s.runId)).toEqual([1, 2]);
+        overlay.series.forEach(series => {
+            expect(series.percentages.reduce((a, b) => a + b, 0)).toBeCloseTo(100);
+        });
+        expect(overlay.series[1].percentages[0]).toBe(75);
+    });
+
+    it('should not overlay anything when no run has a duration histogram', () => {
+        expect(compareRuns(run(1), [run(2)]).latencyOverlay).toBeUndefined();
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RunExport, createRunExportFiles, eventsToCsv, executionsToCsv, serializeRunExport } from '../../services/runExport';
+import { parseCsv } from '../../panes/queryEditor/ParameterCsvLoader';
+
+vi.mock('vscode', () => ({}));
+
+const START = Date.UTC(2026, 0, 15, 9, 30, 0);
+
+const run = (): RunExport => ({
+    metadata: {
+        connectionId: 'c1',
+        testStartTime: START,
+        exportedAt: START + 60000,
+        executionCount: 2,
+        eventCount: 3,
+        durationPercentiles: { p50: 12, p90: 40, p95: 40, p99: 40 }
+    },
+    executions: [
+        {
+            executionNumber: 1,
+            executionId: 'a1',
+            queryName: 'Get orders',
+            parameters: { '@customerId': '42', '@note': 'says "hi", twice' },
+            startTime: START,
+            endTime: START + 15,
+            eventCount: 2,
+            avgDuration: 12,
+            avgLogicalReads: 300
+        },
+        {
+            executionNumber: 2,
+            startTime: START + 20,
+            eventCount: 1,
+            parameters: { region: null }
+        }
+    ],
+    events: [
+        { timestamp: START + 5, eventName: 'sql_statement_completed', executionNumber: 1, duration: 4, statement: 'SELECT 1,\n2' },
+        { timestamp: START + 15, eventName: 'sql_batch_completed', executionNumber: 1, duration: 12, logicalReads: 300, batch_text: 'EXEC p' },
+        { timestamp: START + 60, eventName: 'sql_batch_completed', executionNumber: 2, duration: 40, result: { code: 0 } }
+    ],
+    boundaries: [],
+    loadLevels: [{ timestampMs: START, concurrency: 4 }]
+});
+
+describe('runExport', () => {
+    it('should write one row per execution with a column per parameter', () => {
+        const rows = parseCsv(executionsToCsv(run()));
+
+        expect(rows[0].slice(0, 6)).toEqual(['executionNumber', 'executionId', 'queryName', 'startTime', 'endTime', 'eventCount']);
+        expect(rows[0].slice(-3)).toEqual(['@customerId', '@note', '@region']);
+        expect(rows).toHaveLength(3);
+        expect(rows[1].slice(0, 5)).toEqual(['1', 'a1', 'Get orders', '2026-01-15T09:30:00.000Z', '2026-01-15T09:30:00.015Z']);
+        expect(rows[1].slice(-3)).toEqual(['42', 'says "hi", twice', '']);
+        expect(rows[2][rows[0].indexOf('avgDuration')]).toBe('');
+    });
+
+    it('should write one row per event with a column for every event field', () => {
+        const csv = eventsToCsv(run());
+        const rows = parseCsv(csv);
+
+        expect(rows[0]).toEqual([
+            'timestamp', 'executionNumber', 'eventName', 'duration', 'logicalReads', 'writes', 'cpuTime', 'physicalReads', 'rowCount',
+            'batch_text', 'result', 'statement'
+        ]);
+        expect(rows).toHaveLength(4);
+        const statement = rows[0].indexOf('statement');
+        expect(rows[1][statement]).toBe('SELECT 1,\n2');
+        expect(rows[2][statement]).toBe('');
+        expect(rows[3][rows[0].indexOf('result')]).toBe('{"code":0}');
+        expect(csv.split('\r\n')[2]).toBe('2026-01-15T09:30:00.015Z,1,sql_batch_completed,12,300,,,,,EXEC p,,');
+    });
+
+    it('should write the header only for a run without records', () => {
+        const empty = { ...run(), executions: [], events: [] };
+
+        expect(eventsToCsv(empty)).toBe('timestamp,executionNumber,eventName,duration,logicalReads,writes,cpuTime,physicalReads,rowCount\r\n');
+        expect(parseCsv(executionsToCsv(empty))).toHaveLength(1);
+    });
+
+    it('should keep every record and the metadata in the JSON export', () => {
+        const exported = JSON.parse(serializeRunExport(run()));
+
+        expect(exported).toEqual(run());
+    });
+
+    it('should name the files after the chosen base name', () => {
+        expect(createRunExportFiles(run()).map(file => file.suffix)).toEqual(['.json', '.executions.csv', '.events.csv']);
+    });
+});
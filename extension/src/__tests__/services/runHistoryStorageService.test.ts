@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as vscode from 'vscode';
+import { RunHistoryStorageService, RunRetention } from '../../services/runHistoryStorageService';
+import { HistoricalRun } from '../../services/storage';
+
+vi.mock('vscode', () => ({
+    workspace: {
+        getConfiguration: vi.fn(() => ({
+            get: vi.fn((_key: string, defaultValue?: unknown) => defaultValue)
+        }))
+    }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RunHistoryStorageService', () => {
+    let values: Map<string, unknown>;
+    let mockContext: vscode.ExtensionContext;
+    let retention: RunRetention;
+    let service: RunHistoryStorageService;
+
+    const run = (runId: number, daysAgo: number = 0): HistoricalRun => ({
+        runId,
+        startTime: Date.now() - daysAgo * DAY_MS - 1000,
+        endTime: Date.now() - daysAgo * DAY_MS,
+        avgDuration: 20,
+        minDuration: 5,
+        maxDuration: 80,
+        executionCount: 10
+    });
+
+    beforeEach(() => {
+        values = new Map();
+        mockContext = {
+            workspaceState: {
+                get: vi.fn((key: string, defaultValue?: unknown) => values.has(key) ? values.get(key) : defaultValue),
+                update: vi.fn(async (key: string, value: unknown) => {
+                    if (value === undefined) {
+                        values.delete(key);
+                    } else {
+                        values.set(key, value);
+                    }
+                })
+            }
+        } as unknown as vscode.ExtensionContext;
+        retention = { maxRuns: 100, maxAgeDays: 90 };
+        service = new RunHistoryStorageService(mockContext, () => retention);
+    });
+
+    it('should save runs with their executions and load them in run order', async () => {
+        await service.saveRun(run(2), [{ executionNumber: 1, startTime: 1, duration: 12 }]);
+        await service.saveRun(run(1), []);
+
+        const runs = await service.loadRuns();
+
+        expect(runs.map(r => r.runId)).toEqual([1, 2]);
+        expect(await service.loadExecutions(2)).toEqual([{ executionNumber: 1, startTime: 1, duration: 12 }]);
+        expect(await service.loadExecutions(3)).toEqual([]);
+    });
+
+    it('should replace a stored run with the same ID', async () => {
+        await service.saveRun(run(1), []);
+        await service.saveRun({ ...run(1), executionCount: 99 }, []);
+
+        const runs = await service.loadRuns();
+
+        expect(runs).toHaveLength(1);
+        expect(runs[0].executionCount).toBe(99);
+    });
+
+    it('should keep only the most recent runs and drop the executions of the others', async () => {
+        retention = { maxRuns: 2, maxAgeDays: 0 };
+
+        for (const runId of [1, 2, 3]) {
+            await service.saveRun(run(runId), [{ executionNumber: 1, startTime: runId }]);
+        }
+
+        expect((await service.loadRuns()).map(r => r.runId)).toEqual([2, 3]);
+        expect(values.has('sqlStressTest.runHistory.executions.1')).toBe(false);
+        expect(values.has('sqlStressTest.runHistory.executions.3')).toBe(true);
+    });
+
+    it('should store the execution plans of a run and drop them with the run', async () => {
+        retention = { maxRuns: 1, maxAgeDays: 0 };
+        const plan = {
+            executionNumber: 3, executionId: 'e3', durationMs: 250, showplanXml: ['<ShowPlanXML />'],
+            timestamp: '2026-01-15T09:30:00Z', timestampMs: 1
+        };
+
+        await service.saveRun({ ...run(1), executionPlanCount: 1 }, [], [plan]);
+
+        expect(await service.loadExecutionPlans(1)).toEqual([plan]);
+        expect(await service.loadExecutionPlans(2)).toEqual([]);
+
+        await service.saveRun(run(2), []);
+
+        expect(values.has('sqlStressTest.runHistory.plans.1')).toBe(false);
+        expect(values.has('sqlStressTest.runHistory.plans.2')).toBe(false);
+    });
+
+    it('should store the blocking reports of a run and drop them with the run', async () => {
+        retention = { maxRuns: 1, maxAgeDays: 0 };
+        const report = {
+            eventName: 'xml_deadlock_report' as const, timestamp: '2026-01-15T09:30:00Z', executionId: 'e3',
+            executionNumber: 3, eventFields: { xml_report: '<deadlock />' }, actions: {}
+        };
+
+        await service.saveRun({ ...run(1), deadlockCount: 1 }, [], [], [report]);
+
+        expect(await service.loadBlockingReports(1)).toEqual([report]);
+        expect(await service.loadBlockingReports(2)).toEqual([]);
+
+        await service.saveRun(run(2), []);
+
+        expect(values.has('sqlStressTest.runHistory.blockingReports.1')).toBe(false);
+        expect(values.has('sqlStressTest.runHistory.blockingReports.2')).toBe(false);
+    });
+
+    it('should drop runs older than the retention period when loading', async () => {
+        await service.saveRun(run(1, 40), []);
+        await service.saveRun(run(2, 2), []);
+        retention = { maxRuns: 0, maxAgeDays: 30 };
+
+        const runs = await service.loadRuns();
+
+        expect(runs.map(r => r.runId)).toEqual([2]);
+        expect((values.get('sqlStressTest.runHistory') as HistoricalRun[]).map(r => r.runId)).toEqual([2]);
+    });
+
+    it('should keep runs of any age when the retention period is 0', async () => {
+        retention = { maxRuns: 0, maxAgeDays: 0 };
+        await service.saveRun(run(1, 400), []);
+
+        expect(await service.loadRuns()).toHaveLength(1);
+    });
+
+    it('should read the retention from the settings by default', async () => {
+        const defaultService = new RunHistoryStorageService(mockContext);
+        await defaultService.saveRun(run(1, 100), []);
+        await defaultService.saveRun(run(2, 10), []);
+
+        expect((await defaultService.loadRuns()).map(r => r.runId)).toEqual([2]);
+        expect(vscode.workspace.getConfiguration).toHaveBeenCalledWith('sqlStressTest');
+    });
+});
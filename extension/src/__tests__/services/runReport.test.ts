@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { RunExport } from '../../services/runExport';
+import { calculateReportMetrics, renderRunReport, selectSlowestExecutions } from '../../services/runReport';
+
+const START = Date.UTC(2026, 0, 15, 9, 30, 0);
+
+// Durations are in ms, as the performance graph exports them
+const batchCompleted = (executionNumber: number, duration: number, result = 'OK') => ({
+    timestamp: START + executionNumber * 100 + duration,
+    eventName: 'sql_batch_completed',
+    executionNumber,
+    duration,
+    logicalReads: 10 * duration,
+    logical_reads: 10 * duration,
+    result
+});
+
+const run = (): RunExport => ({
+    metadata: {
+        connectionId: 'c1',
+        configuration: {
+            connectionId: 'c1',
+            query: 'SELECT * FROM Orders WHERE Id < @id',
+            parallelExecutions: 4,
+            totalExecutions: 3,
+            parameters: [{ name: '@id', generator: 'sequential', start: 1 }],
+            assertions: ['p95 < 100ms']
+        },
+        testStartTime: START,
+        exportedAt: START + 1000,
+        executionCount: 3,
+        eventCount: 4
+    },
+    executions: [
+        { executionNumber: 1, startTime: START + 100, endTime: START + 120, eventCount: 2, maxDuration: 20, parameters: { '@id': '1' } },
+        { executionNumber: 2, startTime: START + 200, endTime: START + 290, eventCount: 1, maxDuration: 90, parameters: { '@id': '<2>' } },
+        { executionNumber: 3, startTime: START + 300, endTime: START + 1100, eventCount: 1, maxDuration: 800 }
+    ],
+    events: [
+        { timestamp: START + 110, eventName: 'sql_statement_completed', executionNumber: 1, duration: 5, statement: 'SELECT <b>' },
+        batchCompleted(1, 20),
+        batchCompleted(2, 90),
+        batchCompleted(3, 800, 'Error')
+    ],
+    boundaries: [],
+    loadLevels: []
+});
+
+describe('runReport', () => {
+    it('should pick the slowest executions with their events', () => {
+        const slowest = selectSlowestExecutions(run(), 2);
+
+        expect(slowest.map(s => s.execution.executionNumber)).toEqual([3, 2]);
+        expect(selectSlowestExecutions(run())[2].events.map(e => e.eventName)).toEqual(['sql_statement_completed', 'sql_batch_completed']);
+    });
+
+    it('should summarize the batch completed events of the run', () => {
+        const metrics = calculateReportMetrics(run());
+
+        expect(metrics.executionCount).toBe(3);
+        expect(metrics.failedExecutionCount).toBe(1);
+        expect(metrics.maxDuration).toBe(800);
+        expect(metrics.avgLogicalReads).toBeCloseTo(3033.33, 2);
+    });
+
+    it('should render a self-contained report without scripts or external resources', () => {
+        const html = renderRunReport({
+            run: run(),
+            environment: { connectionName: 'Prod replica', serverName: 'SQL01', serverVersion: 'Microsoft SQL Server 2022 (RTM)' },
+            charts: { performance: 'data:image/png;base64,AAAA', latency: 'https://example.com/chart.png', background: '#1e1e1e' },
+            generatedAt: START + 2000
+        });
+
+        expect(html).not.toMatch(/<script|<link|src="http/);
+        expect(html).toContain('<img src="data:image/png;base64,AAAA" alt="Performance over time">');
+        expect(html).not.toContain('Latency distribution');
+        expect(html).toContain('Microsoft SQL Server 2022 (RTM)');
+        expect(html).toContain('Execution #3 — 800.00 ms');
+        expect(html).toContain('1 (33.33%)');
+        expect(html).toContain('@id (sequential)');
+        expect(html).toContain('SELECT * FROM Orders WHERE Id &lt; @id');
+        expect(html).toContain('SELECT &lt;b&gt;');
+        expect(html).toContain('@id = &lt;2&gt;');
+    });
+
+    it('should escape chart images that would break out of the attribute', () => {
+        const html = renderRunReport({
+            run: run(),
+            environment: {},
+            charts: { performance: 'data:image/png;base64,AAAA" onerror="alert(1)' },
+            generatedAt: START + 2000
+        });
+
+        expect(html).toContain('<img src="data:image/png;base64,AAAA&quot; onerror=&quot;alert(1)" alt="Performance over time">');
+        expect(html).not.toContain('" onerror="');
+    });
+
+    it('should explain what is missing when the configuration and charts were not captured', () => {
+        const html = renderRunReport({
+            run: { ...run(), metadata: { ...run().metadata, configuration: undefined } },
+            environment: {},
+            generatedAt: START
+        });
+
+        expect(html).toContain('The run configuration was not recorded.');
+        expect(html).toContain('The charts were not available when the report was generated.');
+    });
+});
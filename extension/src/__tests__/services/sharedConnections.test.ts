@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { parseSharedConnections, serializeSharedConnections, SharedConnectionsError } from '../../services/sharedConnections';
+import { ConnectionConfig } from '../../services/storage';
+
+describe('sharedConnections', () => {
+    const orders: ConnectionConfig = {
+        id: 'conn_1',
+        name: 'Orders',
+        server: 'prod-sql-01',
+        port: 1444,
+        database: 'Orders',
+        username: 'stress',
+        password: 'secret',
+        passwordSecretKey: 'sqlStressTest.connection.conn_1.password',
+        group: 'Prod'
+    };
+
+    describe('serializeSharedConnections', () => {
+        it('should leave out passwords and secret references', () => {
+            const json = serializeSharedConnections([orders]);
+
+            expect(json).not.toContain('secret');
+            expect(JSON.parse(json)).toEqual({
+                connections: [
+                    { id: 'conn_1', name: 'Orders', server: 'prod-sql-01', port: 1444, database: 'Orders', username: 'stress', group: 'Prod' }
+                ]
+            });
+            expect(json.endsWith('}\n')).toBe(true);
+        });
+
+        it('should leave out the login of connections using Windows Authentication', () => {
+            const json = serializeSharedConnections([
+                { id: 'conn_2', name: 'Local', server: 'localhost', username: 'old', integratedSecurity: true }
+            ]);
+
+            expect(JSON.parse(json).connections).toEqual([
+                { id: 'conn_2', name: 'Local', server: 'localhost', integratedSecurity: true }
+            ]);
+        });
+
+        it('should keep the advanced connection options', () => {
+            const json = serializeSharedConnections([
+                { ...orders, encrypt: 'Strict', trustServerCertificate: false, additionalKeywords: { 'Packet Size': '8192' } }
+            ]);
+
+            expect(JSON.parse(json).connections[0]).toMatchObject({
+                encrypt: 'Strict',
+                trustServerCertificate: false,
+                additionalKeywords: { 'Packet Size': '8192' }
+            });
+        });
+
+        it('should replace connections with the same id and keep the others in the existing file', () => {
+            const existing = JSON.stringify({
+                connections: [
+                    { id: 'conn_1', name: 'Orders (old)', server: 'old-sql' },
+                    { id: 'team_qa', name: 'QA', server: 'qa-sql' }
+                ]
+            });
+
+            const json = serializeSharedConnections([{ ...orders, id: 'shared:conn_1' }], existing);
+
+            expect(JSON.parse(json).connections.map((c: ConnectionConfig) => [c.id, c.name])).toEqual([
+                ['conn_1', 'Orders'],
+                ['team_qa', 'QA']
+            ]);
+        });
+
+        it('should not overwrite an existing file it cannot read', () => {
+            expect(() => serializeSharedConnections([orders], '{ "servers": [] }')).toThrow(SharedConnectionsError);
+        });
+    });
+
+    describe('parseSharedConnections', () => {
+        it('should read the connections written by serializeSharedConnections', () => {
+            const connections = parseSharedConnections(serializeSharedConnections([orders]));
+
+            expect(connections).toEqual([
+                { id: 'conn_1', name: 'Orders', server: 'prod-sql-01', port: 1444, database: 'Orders', username: 'stress', group: 'Prod' }
+            ]);
+        });
+
+        it('should ignore passwords committed to the file by hand', () => {
+            const connections = parseSharedConnections(JSON.stringify({
+                connections: [{ id: 'qa', name: 'QA', server: 'qa-sql', username: 'sa', password: 'committed', shared: false }]
+            }));
+
+            expect(connections[0].password).toBeUndefined();
+            expect(connections[0].shared).toBeUndefined();
+        });
+
+        it('should reject files that are not valid JSON', () => {
+            expect(() => parseSharedConnections('{ "connections": [')).toThrow('not valid JSON');
+        });
+
+        it('should reject connections without an id, name or server', () => {
+            expect(() => parseSharedConnections('{ "connections": [{ "id": "qa", "name": "QA" }] }'))
+                .toThrow('connections[0] needs a "server"');
+            expect(() => parseSharedConnections('{ "connections": ["qa-sql"] }')).toThrow(SharedConnectionsError);
+        });
+    });
+});
@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { StorageService, ConnectionConfig } from '../../services/storage';
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 describe('StorageService', () => {
     let storageService: StorageService;
@@ -11,6 +14,11 @@ describe('StorageService', () => {
             workspaceState: {
                 get: vi.fn(),
                 update: vi.fn()
+            },
+            secrets: {
+                get: vi.fn(),
+                store: vi.fn(),
+                delete: vi.fn()
             }
         } as unknown as vscode.ExtensionContext;
 
@@ -289,5 +297,170 @@ describe('StorageService', () => {
             expect(afterAdd[0].server).toBe('testserver');
         });
     });
-});
 
+    describe('password secret storage', () => {
+        it('should store password in secret storage and keep only a reference in workspace state', async () => {
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([]);
+
+            await storageService.addConnection({
+                id: '1',
+                name: 'Server 1',
+                server: 'localhost',
+                username: 'sa',
+                password: 'secret'
+            });
+
+            expect(mockContext.secrets.store).toHaveBeenCalledWith('sqlStressTest.connection.1.password', 'secret');
+            expect(mockContext.workspaceState.update).toHaveBeenCalledWith(
+                'sqlStressTest.connections',
+                [{
+                    id: '1',
+                    name: 'Server 1',
+                    server: 'localhost',
+                    username: 'sa',
+                    passwordSecretKey: 'sqlStressTest.connection.1.password'
+                }]
+            );
+        });
+
+        it('should resolve password from secret storage in getConnection', async () => {
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([
+                { id: '1', name: 'Server 1', server: 'localhost', passwordSecretKey: 'sqlStressTest.connection.1.password' }
+            ]);
+            vi.mocked(mockContext.secrets.get).mockResolvedValue('secret');
+
+            const result = await storageService.getConnection('1');
+
+            expect(mockContext.secrets.get).toHaveBeenCalledWith('sqlStressTest.connection.1.password');
+            expect(result).toEqual({ id: '1', name: 'Server 1', server: 'localhost', password: 'secret' });
+        });
+
+        it('should not resolve passwords in loadConnections', async () => {
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([
+                { id: '1', name: 'Server 1', server: 'localhost', passwordSecretKey: 'sqlStressTest.connection.1.password' }
+            ]);
+
+            const result = await storageService.loadConnections();
+
+            expect(result[0].password).toBeUndefined();
+            expect(mockContext.secrets.get).not.toHaveBeenCalled();
+        });
+
+        it('should delete secret when connection is removed', async () => {
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([
+                { id: '1', name: 'Server 1', server: 'localhost', passwordSecretKey: 'sqlStressTest.connection.1.password' }
+            ]);
+
+            await storageService.removeConnection('1');
+
+            expect(mockContext.secrets.delete).toHaveBeenCalledWith('sqlStressTest.connection.1.password');
+        });
+
+        it('should migrate plain-text passwords to secret storage', async () => {
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([
+                { id: '1', name: 'Server 1', server: 'localhost', password: 'legacy' },
+                { id: '2', name: 'Server 2', server: 'remote', integratedSecurity: true }
+            ]);
+
+            const migrated = await storageService.migratePasswordsToSecretStorage();
+
+            expect(migrated).toBe(1);
+            expect(mockContext.secrets.store).toHaveBeenCalledWith('sqlStressTest.connection.1.password', 'legacy');
+            expect(mockContext.workspaceState.update).toHaveBeenCalledWith(
+                'sqlStressTest.connections',
+                [
+                    { id: '1', name: 'Server 1', server: 'localhost', passwordSecretKey: 'sqlStressTest.connection.1.password' },
+                    { id: '2', name: 'Server 2', server: 'remote', integratedSecurity: true }
+                ]
+            );
+        });
+
+        it('should not write workspace state when nothing needs migrating', async () => {
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([
+                { id: '1', name: 'Server 1', server: 'localhost', passwordSecretKey: 'sqlStressTest.connection.1.password' }
+            ]);
+
+            const migrated = await storageService.migratePasswordsToSecretStorage();
+
+            expect(migrated).toBe(0);
+            expect(mockContext.workspaceState.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('shared connections', () => {
+        let workspaceFolder: string;
+
+        const writeSharedFile = (content: string) => {
+            fs.mkdirSync(path.join(workspaceFolder, '.vscode'), { recursive: true });
+            fs.writeFileSync(path.join(workspaceFolder, '.vscode', 'sqlstress-connections.json'), content);
+        };
+
+        beforeEach(() => {
+            workspaceFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlstress-shared-'));
+            storageService = new StorageService(mockContext, {
+                extensionPath: workspaceFolder,
+                getWorkspaceFolder: () => workspaceFolder
+            });
+            vi.mocked(mockContext.workspaceState.get).mockReturnValue([
+                { id: '1', name: 'Server 1', server: 'localhost' }
+            ]);
+        });
+
+        afterEach(() => {
+            fs.rmSync(workspaceFolder, { recursive: true, force: true });
+        });
+
+        it('should list the shared connections after the personal ones, marked as shared', async () => {
+            writeSharedFile(JSON.stringify({
+                connections: [
+                    { id: 'qa', name: 'QA', server: 'qa-sql', username: 'stress' },
+                    { id: 'dev', name: 'Dev', server: 'dev-sql', integratedSecurity: true }
+                ]
+            }));
+
+            const result = await storageService.loadConnections();
+
+            expect(result).toEqual([
+                { id: '1', name: 'Server 1', server: 'localhost' },
+                { id: 'shared:qa', name: 'QA', server: 'qa-sql', username: 'stress', shared: true, passwordSecretKey: 'sqlStressTest.connection.shared:qa.password' },
+                { id: 'shared:dev', name: 'Dev', server: 'dev-sql', integratedSecurity: true, shared: true }
+            ]);
+        });
+
+        it('should resolve the password each user stored for a shared connection', async () => {
+            writeSharedFile(JSON.stringify({ connections: [{ id: 'qa', name: 'QA', server: 'qa-sql', username: 'stress' }] }));
+
+            await storageService.setSharedConnectionPassword('shared:qa', 'mine');
+            vi.mocked(mockContext.secrets.get).mockResolvedValue('mine');
+            const result = await storageService.getConnection('shared:qa');
+
+            expect(mockContext.secrets.store).toHaveBeenCalledWith('sqlStressTest.connection.shared:qa.password', 'mine');
+            expect(result?.password).toBe('mine');
+        });
+
+        it('should never save shared connections to workspace state', async () => {
+            writeSharedFile(JSON.stringify({ connections: [{ id: 'qa', name: 'QA', server: 'qa-sql' }] }));
+
+            await storageService.saveConnections(await storageService.loadConnections());
+
+            expect(mockContext.workspaceState.update).toHaveBeenCalledWith(
+                'sqlStressTest.connections',
+                [{ id: '1', name: 'Server 1', server: 'localhost' }]
+            );
+        });
+
+        it('should skip an invalid shared connections file in loadConnections but report it in loadSharedConnections', async () => {
+            writeSharedFile('{ "connections": [{ "id": "qa" }] }');
+
+            expect(await storageService.loadConnections()).toHaveLength(1);
+            await expect(storageService.loadSharedConnections()).rejects.toThrow('connections[0] needs a "name"');
+        });
+
+        it('should return no shared connections without a workspace folder', async () => {
+            storageService = new StorageService(mockContext);
+
+            expect(await storageService.loadSharedConnections()).toEqual([]);
+            expect(storageService.getSharedConnectionsFile()).toBeUndefined();
+        });
+    });
+});
@@ -221,7 +221,8 @@ describe('WebSocketClient', () => {
             const mockStorageService = {
                 loadConnections: vi.fn().mockResolvedValue([
                     { id: 'conn1', name: 'Test', server: 'localhost' }
-                ])
+                ]),
+                resolveConnectionSecrets: vi.fn((c: any) => Promise.resolve(c))
             };
 
             // Register handlers BEFORE connecting
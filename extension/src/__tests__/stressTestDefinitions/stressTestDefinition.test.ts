@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+    isDefinitionFile,
+    parseStressTestDefinition,
+    serializeStressTestDefinition,
+    StressTestDefinitionError
+} from '../../stressTestDefinitions/StressTestDefinition';
+
+describe('StressTestDefinition', () => {
+    describe('isDefinitionFile', () => {
+        it('should match the definition file suffix in any case', () => {
+            expect(isDefinitionFile('/repo/tests/orders.sqlstress.json')).toBe(true);
+            expect(isDefinitionFile('C:\\repo\\Orders.SQLSTRESS.JSON')).toBe(true);
+            expect(isDefinitionFile('/repo/package.json')).toBe(false);
+        });
+    });
+
+    describe('parseStressTestDefinition', () => {
+        it('should parse a scenario with parameters and a load profile', () => {
+            const definition = parseStressTestDefinition(JSON.stringify({
+                name: 'Order mix',
+                connection: 'Local dev',
+                database: 'Shop',
+                queries: [
+                    { name: 'read', query: 'SELECT * FROM orders WHERE id = @id', weight: 70 },
+                    { name: 'write', query: 'UPDATE orders SET status = 1 WHERE id = @id' }
+                ],
+                parameters: [{ name: '@id', generator: 'randomRange', min: 1, max: 1000 }],
+                parallelExecutions: 10,
+                loadProfile: { mode: 'ramp', durationSeconds: 600, startWorkers: 5, stepWorkers: 5, stepIntervalSeconds: 30, maxWorkers: 100 }
+            }));
+
+            expect(definition).toMatchObject({
+                name: 'Order mix',
+                connection: 'Local dev',
+                database: 'Shop',
+                parallelExecutions: 10,
+                totalExecutions: 1,
+                loadProfile: { mode: 'ramp', durationSeconds: 600, maxWorkers: 100 }
+            });
+            expect(definition.queries).toEqual([
+                { name: 'read', query: 'SELECT * FROM orders WHERE id = @id', weight: 70 },
+                { name: 'write', query: 'UPDATE orders SET status = 1 WHERE id = @id', weight: 1 }
+            ]);
+            expect(definition.parameters?.[0]).toMatchObject({ name: '@id', generator: 'randomRange', min: 1, max: 1000 });
+        });
+
+        it('should report the first problem found', () => {
+            const parse = (value: unknown) => () => parseStressTestDefinition(JSON.stringify(value));
+
+            expect(() => parseStressTestDefinition('{ "connection": ')).toThrow(/not valid JSON/);
+            expect(parse([])).toThrow('Definition must be a JSON object');
+            expect(parse({ query: 'SELECT 1' })).toThrow('"connection" is required');
+            expect(parse({ connection: 'dev' })).toThrow('Definition needs a "query" or a "queries" scenario');
+            expect(parse({ connection: 'dev', query: 'SELECT 1', parallelExecutions: 0 }))
+                .toThrow('"parallelExecutions" must be a whole number between 1 and 1000');
+            expect(parse({ connection: 'dev', queries: [{ name: 'a', query: 'SELECT 1' }, { name: 'A', query: 'SELECT 2' }] }))
+                .toThrow('Scenario query names must be unique');
+            expect(parse({ connection: 'dev', query: 'SELECT 1', loadProfile: { mode: 'burst' } }))
+                .toThrow('Unknown load profile mode "burst"');
+            expect(parse({ connection: 'dev', query: 'SELECT 1', planCapture: { mode: 'slowest', count: 500 } }))
+                .toThrow('"count" must be a whole number between 1 and 100');
+            expect(parse({ connection: 'dev', query: 'SELECT @id', parameters: [{ name: '@id', generator: 'fibonacci' }] }))
+                .toThrow(StressTestDefinitionError);
+            expect(parse({ connection: 'dev', query: 'SELECT 1', assertions: 'p95 duration < 200ms' }))
+                .toThrow('"assertions" must be an array of strings');
+            expect(parse({ connection: 'dev', query: 'SELECT 1', assertions: ['p95 latency < 200ms'] }))
+                .toThrow(/Unknown metric "p95 latency"/);
+        });
+
+        it('should parse the execution plan capture', () => {
+            const definition = parseStressTestDefinition(JSON.stringify({
+                connection: 'dev',
+                query: 'SELECT 1',
+                planCapture: { mode: 'sample', sampleInterval: 100, count: 5 }
+            }));
+
+            expect(definition.planCapture).toEqual({ mode: 'sample', sampleInterval: 100, count: 5 });
+        });
+
+        it('should keep valid assertions as written', () => {
+            const definition = parseStressTestDefinition(JSON.stringify({
+                connection: 'dev',
+                query: 'SELECT 1',
+                assertions: ['p95 duration < 200ms', 'Error Rate < 1%']
+            }));
+
+            expect(definition.assertions).toEqual(['p95 duration < 200ms', 'Error Rate < 1%']);
+        });
+    });
+
+    describe('serializeStressTestDefinition', () => {
+        it('should leave out empty optional fields and round-trip', () => {
+            const text = serializeStressTestDefinition({
+                connection: 'Local dev',
+                database: '',
+                query: 'SELECT 1',
+                queries: [],
+                parameters: [],
+                parallelExecutions: 4,
+                totalExecutions: 100,
+                loadProfile: { mode: 'fixed' },
+                assertions: []
+            });
+
+            expect(JSON.parse(text)).toEqual({
+                connection: 'Local dev',
+                query: 'SELECT 1',
+                parallelExecutions: 4,
+                totalExecutions: 100
+            });
+            expect(text.endsWith('\n')).toBe(true);
+            expect(parseStressTestDefinition(text)).toMatchObject({ connection: 'Local dev', query: 'SELECT 1', parallelExecutions: 4 });
+        });
+    });
+});
@@ -0,0 +1,16 @@
+import * as path from 'path';
+import { IHostEnvironment } from '../services/interfaces/IHostEnvironment';
+
+/**
+ * Host environment of the command line runner: the extension folder this script was built into
+ * and the directory the pipeline runs in.
+ * Single Responsibility: Host paths lookup outside VS Code.
+ */
+export class CliHostEnvironment implements IHostEnvironment {
+    // Compiled to out/cli, two levels below the extension folder
+    readonly extensionPath = path.resolve(__dirname, '..', '..');
+
+    getWorkspaceFolder(): string | undefined {
+        return process.cwd();
+    }
+}
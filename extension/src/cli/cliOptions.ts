@@ -0,0 +1,129 @@
+import { AssertionParseError, parseAssertion, RunAssertion } from '../services/runAssertions';
+
+export interface CliOptions {
+    definitionPath: string;
+    connectionsPath: string;
+    backendUrl?: string; // Use a running backend instead of starting one
+    jsonReportPath?: string;
+    junitReportPath?: string;
+    thresholds: RunAssertion[];
+    timeoutSeconds?: number; // Cancel the run when it takes longer
+    settleSeconds: number; // Keep collecting Extended Events after the run completes
+    verbose: boolean;
+}
+
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+    }
+}
+
+export const USAGE = `Usage: sqlstress <definition.sqlstress.json> --connections <connections.json> [options]
+
+Runs a saved stress test without VS Code and exits with 1 when it fails or misses a threshold.
+
+Options:
+  --connections <file>     JSON array of connections; the definition's "connection" is looked up by name
+  --backend-url <url>      Use a running backend instead of starting one
+  --json <file>            Write a JSON summary
+  --junit <file>           Write a JUnit XML summary
+  --threshold <assertion>  Fail the run unless it holds, e.g. "p95 duration < 200ms" (repeatable,
+                           added to the definition's assertions)
+  --timeout <seconds>      Cancel the run after this many seconds
+  --settle <seconds>       Keep collecting Extended Events after the run completes (default 5)
+  --verbose                Log backend and client details
+  --help                   Show this help`;
+
+/**
+ * Parses the command line arguments (without the node and script paths).
+ * Throws CliUsageError describing the first problem found.
+ */
+export function parseCliArguments(argv: string[]): CliOptions {
+    const positional: string[] = [];
+    const thresholds: RunAssertion[] = [];
+    let connectionsPath: string | undefined;
+    let backendUrl: string | undefined;
+    let jsonReportPath: string | undefined;
+    let junitReportPath: string | undefined;
+    let timeoutSeconds: number | undefined;
+    let settleSeconds = 5;
+    let verbose = false;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = (): string => {
+            const next = argv[++i];
+            if (next === undefined || next.startsWith('--')) {
+                throw new CliUsageError(`${arg} needs a value`);
+            }
+            return next;
+        };
+
+        switch (arg) {
+            case '--connections':
+                connectionsPath = value();
+                break;
+            case '--backend-url':
+                backendUrl = value().replace(/\/+$/, '');
+                break;
+            case '--json':
+                jsonReportPath = value();
+                break;
+            case '--junit':
+                junitReportPath = value();
+                break;
+            case '--threshold':
+                try {
+                    thresholds.push(parseAssertion(value()));
+                } catch (error) {
+                    if (error instanceof AssertionParseError) {
+                        throw new CliUsageError(error.message);
+                    }
+                    throw error;
+                }
+                break;
+            case '--timeout':
+                timeoutSeconds = positiveNumber(arg, value());
+                break;
+            case '--settle':
+                settleSeconds = positiveNumber(arg, value(), true);
+                break;
+            case '--verbose':
+                verbose = true;
+                break;
+            default:
+                if (arg.startsWith('--')) {
+                    throw new CliUsageError(`Unknown option ${arg}`);
+                }
+                positional.push(arg);
+        }
+    }
+
+    if (positional.length !== 1) {
+        throw new CliUsageError('Expected exactly one stress test definition file');
+    }
+    if (!connectionsPath) {
+        throw new CliUsageError('--connections is required');
+    }
+
+    return {
+        definitionPath: positional[0],
+        connectionsPath,
+        backendUrl,
+        jsonReportPath,
+        junitReportPath,
+        thresholds,
+        timeoutSeconds,
+        settleSeconds,
+        verbose
+    };
+}
+
+function positiveNumber(option: string, text: string, allowZero: boolean = false): number {
+    const number = Number(text);
+    if (!Number.isFinite(number) || number < 0 || (!allowZero && number === 0)) {
+        throw new CliUsageError(`${option} must be a ${allowZero ? 'non-negative' : 'positive'} number of seconds`);
+    }
+    return number;
+}
@@ -0,0 +1,123 @@
+import { ConnectionConfig, PerformanceMetrics, QueryResult, TimeRange } from '../services/storage';
+import { IStorageService } from '../services/interfaces/IStorageService';
+import { pickConnectionOptions } from '../services/connectionString';
+import { CliUsageError } from './cliOptions';
+
+/**
+ * Storage for command line runs. Connections come from a JSON file with passwords read from
+ * environment variables (passwordEnv), so pipelines never keep secrets in the repository.
+ * Results the backend saves only live for the duration of the run.
+ * Single Responsibility: Answering the backend's storage requests outside VS Code.
+ */
+export class CliStorageService implements IStorageService {
+    private connections: ConnectionConfig[];
+    private queryResults: QueryResult[] = [];
+    private performanceMetrics: PerformanceMetrics[] = [];
+    private connectionsLoadedCallbacks: (() => void)[] = [];
+
+    constructor(connections: ConnectionConfig[]) {
+        this.connections = [...connections];
+    }
+
+    findConnection(name: string): ConnectionConfig | undefined {
+        return this.connections.find(c => c.name.toLowerCase() === name.trim().toLowerCase());
+    }
+
+    /**
+     * Resolves once the backend has loaded the connections, which it does when the WebSocket connects.
+     */
+    whenConnectionsLoaded(): Promise<void> {
+        return new Promise(resolve => this.connectionsLoadedCallbacks.push(resolve));
+    }
+
+    async loadConnections(): Promise<ConnectionConfig[]> {
+        const callbacks = this.connectionsLoadedCallbacks;
+        this.connectionsLoadedCallbacks = [];
+        // Let the response reach the backend before anyone acts on it
+        setImmediate(() => callbacks.forEach(callback => callback()));
+        return [...this.connections];
+    }
+
+    async addConnection(connection: ConnectionConfig): Promise<void> {
+        this.connections.push(connection);
+    }
+
+    async removeConnection(id: string): Promise<void> {
+        this.connections = this.connections.filter(c => c.id !== id);
+    }
+
+    async updateConnection(id: string, connection: ConnectionConfig): Promise<void> {
+        this.connections = this.connections.map(c => c.id === id ? connection : c);
+    }
+
+    async resolveConnectionSecrets(connection: ConnectionConfig): Promise<ConnectionConfig> {
+        return connection;
+    }
+
+    async saveQueryResult(result: QueryResult): Promise<void> {
+        this.queryResults.push(result);
+    }
+
+    async loadQueryResults(connectionId: string): Promise<QueryResult[]> {
+        return this.queryResults.filter(r => r.connectionId === connectionId);
+    }
+
+    async savePerformanceMetrics(metrics: PerformanceMetrics): Promise<void> {
+        this.performanceMetrics.push(metrics);
+    }
+
+    async loadPerformanceMetrics(connectionId: string, timeRange: TimeRange): Promise<PerformanceMetrics[]> {
+        return this.performanceMetrics.filter(m =>
+            m.connectionId === connectionId &&
+            (!timeRange.startTime || m.timestamp >= timeRange.startTime) &&
+            (!timeRange.endTime || m.timestamp <= timeRange.endTime)
+        );
+    }
+}
+
+/**
+ * Parses a connections file: a JSON array of { name, server, database?, username?, passwordEnv?,
+ * integratedSecurity?, port? } plus the connection options of ConnectionConfig, such as encrypt. Passwords are read from the named environment variables.
+ * Throws CliUsageError describing the first problem found.
+ */
+export function parseConnectionsFile(text: string, env: NodeJS.ProcessEnv = process.env): ConnectionConfig[] {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : 'Unknown error';
+        throw new CliUsageError(`Connections file is not valid JSON: ${detail}`);
+    }
+    if (!Array.isArray(value)) {
+        throw new CliUsageError('Connections file must contain a JSON array');
+    }
+
+    return value.map((entry, index) => {
+        if (typeof entry !== 'object' || entry === null || typeof entry.name !== 'string' || typeof entry.server !== 'string') {
+            throw new CliUsageError(`Connection ${index + 1} needs a "name" and a "server"`);
+        }
+        if ('password' in entry) {
+            throw new CliUsageError(`Connection "${entry.name}" must not contain a password; use "passwordEnv" instead`);
+        }
+
+        let password: string | undefined;
+        if (entry.passwordEnv !== undefined) {
+            password = env[String(entry.passwordEnv)];
+            if (password === undefined) {
+                throw new CliUsageError(`Environment variable ${entry.passwordEnv} for connection "${entry.name}" is not set`);
+            }
+        }
+
+        return {
+            id: typeof entry.id === 'string' ? entry.id : `cli-connection-${index + 1}`,
+            name: entry.name,
+            server: entry.server,
+            database: entry.database,
+            username: entry.username,
+            password,
+            integratedSecurity: entry.integratedSecurity === true,
+            port: entry.port,
+            ...pickConnectionOptions(entry)
+        };
+    });
+}
@@ -0,0 +1,36 @@
+import { IErrorNotificationService } from '../services/interfaces/IErrorNotificationService';
+import { ExtendedEventsErrorDetails, SpawnErrorDetails, PrematureExitErrorDetails } from '../services/interfaces/IErrorDetectionService';
+import { ILogger } from '../services/logger';
+import { AssertionResult, describeAssertionResult } from '../services/runAssertions';
+
+/**
+ * Reports backend failures on the console for command line runs.
+ * Single Responsibility: User-facing error notifications outside VS Code.
+ */
+export class ConsoleErrorNotificationService implements IErrorNotificationService {
+    constructor(private readonly logger: ILogger) {}
+
+    notifyExtendedEventsFailure(errorDetails: ExtendedEventsErrorDetails): void {
+        this.logger.error(`Extended Events service failed to start (${errorDetails.errorType}): ${errorDetails.specificError}. ${errorDetails.userAction}`);
+    }
+
+    notifySpawnFailure(errorDetails: SpawnErrorDetails): void {
+        this.logger.error(`Failed to start backend process: ${errorDetails.errorMessage}`);
+    }
+
+    notifyPrematureExit(errorDetails: PrematureExitErrorDetails): void {
+        this.logger.error(`Backend process exited before startup completed: ${errorDetails.errorMessage}`);
+    }
+
+    notifyRestartFailure(errorMessage: string, attemptNumber: number, maxAttempts: number): void {
+        this.logger.error(`Backend service failed to restart (attempt ${attemptNumber} of ${maxAttempts}): ${errorMessage}`);
+    }
+
+    notifyStartupFailure(errorMessage: string, attemptNumber: number, maxAttempts: number): void {
+        this.logger.error(`Backend service failed to start (attempt ${attemptNumber} of ${maxAttempts}): ${errorMessage}`);
+    }
+
+    notifyAssertionFailures(runLabel: string, failures: AssertionResult[]): void {
+        this.logger.error(`${runLabel} failed its assertions: ${failures.map(describeAssertionResult).join('; ')}`);
+    }
+}
@@ -0,0 +1,78 @@
+import { RunSummary } from './stressTestRunCollector';
+import { AssertionResult, formatMetricValue } from '../services/runAssertions';
+
+/**
+ * JSON report of a command line run: the run summary plus the verdict of every threshold.
+ */
+export function formatJsonReport(summary: RunSummary, thresholdResults: AssertionResult[]): string {
+    const report = {
+        ...summary,
+        passed: isRunPassed(summary, thresholdResults),
+        thresholds: thresholdResults.map(result => ({
+            expression: result.expression,
+            actual: result.actual,
+            passed: result.passed
+        }))
+    };
+    return JSON.stringify(report, null, 2) + '\n';
+}
+
+/**
+ * JUnit XML report so CI servers show the run as a test suite: one test case for the run
+ * itself and one per threshold.
+ */
+export function formatJUnitReport(summary: RunSummary, thresholdResults: AssertionResult[]): string {
+    const durationSeconds = (new Date(summary.endTime).getTime() - new Date(summary.startTime).getTime()) / 1000;
+    const className = `sqlstress.${summary.name}`;
+    const cases: string[] = [];
+
+    const runFailure = summary.status === 'completed'
+        ? ''
+        : `\n      <failure message="${escapeXml(`Stress test ${summary.status}: ${summary.error || summary.message || 'no details'}`)}"/>\n    `;
+    cases.push(`    <testcase classname="${escapeXml(className)}" name="run" time="${durationSeconds.toFixed(3)}">${runFailure}</testcase>`);
+
+    for (const result of thresholdResults) {
+        const failure = result.passed
+            ? ''
+            : `\n      <failure message="${escapeXml(`Expected ${result.expression}, was ${formatMetricValue(result.metric, result.actual)}`)}"/>\n    `;
+        cases.push(`    <testcase classname="${escapeXml(className)}" name="${escapeXml(result.expression)}" time="0">${failure}</testcase>`);
+    }
+
+    const failures = (summary.status === 'completed' ? 0 : 1) + thresholdResults.filter(r => !r.passed).length;
+    const systemOut = [
+        `executions: ${summary.executionCount}`,
+        `failed executions: ${summary.failedExecutionCount}`,
+        `avg duration: ${formatMetricValue('avgDuration', summary.avgDuration)}`,
+        `min duration: ${formatMetricValue('minDuration', summary.minDuration)}`,
+        `max duration: ${formatMetricValue('maxDuration', summary.maxDuration)}`,
+        `p95 duration: ${formatMetricValue('p95Duration', summary.durationPercentiles?.p95)}`,
+        `avg logical reads: ${formatMetricValue('avgLogicalReads', summary.avgLogicalReads)}`
+    ].join('\n');
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites tests="${cases.length}" failures="${failures}" time="${durationSeconds.toFixed(3)}">`,
+        `  <testsuite name="${escapeXml(summary.name)}" tests="${cases.length}" failures="${failures}" errors="0" time="${durationSeconds.toFixed(3)}" timestamp="${summary.startTime}">`,
+        ...cases,
+        `    <system-out>${escapeXml(systemOut)}</system-out>`,
+        '  </testsuite>',
+        '</testsuites>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * A run passes when it completed and met every threshold.
+ */
+export function isRunPassed(summary: RunSummary, thresholdResults: AssertionResult[]): boolean {
+    return summary.status === 'completed' && thresholdResults.every(r => r.passed);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,246 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { BackendServiceManager } from '../services/backendServiceManager';
+import { ConsoleLogger } from '../services/consoleLogger';
+import { describeAssertionResult, evaluateAssertions, formatMetricValue, parseAssertion } from '../services/runAssertions';
+import { HttpClient, StressTestResponse } from '../services/httpClient';
+import { WebSocketClient } from '../services/websocketClient';
+import { parseStressTestDefinition, StressTestDefinition, StressTestDefinitionError } from '../stressTestDefinitions/StressTestDefinition';
+import { CliHostEnvironment } from './cliHostEnvironment';
+import { CliOptions, CliUsageError, parseCliArguments, USAGE } from './cliOptions';
+import { CliStorageService, parseConnectionsFile } from './cliStorageService';
+import { ConsoleErrorNotificationService } from './consoleErrorNotificationService';
+import { formatJsonReport, formatJUnitReport, isRunPassed } from './runReports';
+import { RunOutcome, StressTestRunCollector } from './stressTestRunCollector';
+
+export const EXIT_PASSED = 0;
+export const EXIT_FAILED = 1; // The run failed, was cancelled or missed a threshold
+export const EXIT_USAGE = 2; // Bad arguments, definition or connections file
+
+const CONNECTIONS_LOAD_TIMEOUT_MS = 15000;
+
+/**
+ * Runs a *.sqlstress.json definition without VS Code: starts the backend (unless --backend-url
+ * is given), runs the stress test, collects the streamed execution data, writes the reports
+ * and returns the process exit code.
+ */
+export async function main(argv: string[]): Promise<number> {
+    if (argv.includes('--help') || argv.length === 0) {
+        console.log(USAGE);
+        return argv.length === 0 ? EXIT_USAGE : EXIT_PASSED;
+    }
+
+    let options: CliOptions;
+    let definition: StressTestDefinition;
+    let storageService: CliStorageService;
+    try {
+        options = parseCliArguments(argv);
+        definition = parseStressTestDefinition(readFile(options.definitionPath, 'definition'));
+        storageService = new CliStorageService(parseConnectionsFile(readFile(options.connectionsPath, 'connections')));
+    } catch (error) {
+        if (error instanceof CliUsageError || error instanceof StressTestDefinitionError) {
+            console.error(`sqlstress: ${error.message}`);
+            console.error(USAGE);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+
+    const connection = storageService.findConnection(definition.connection);
+    if (!connection) {
+        console.error(`sqlstress: Connection "${definition.connection}" not found in ${options.connectionsPath}`);
+        return EXIT_USAGE;
+    }
+
+    const logger = new ConsoleLogger('sqlstress', options.verbose);
+    const name = definition.name || path.basename(options.definitionPath);
+    const collector = new StressTestRunCollector();
+    const startTime = Date.now();
+    let backendServiceManager: BackendServiceManager | undefined;
+    let websocketClient: WebSocketClient | undefined;
+    let outcome: RunOutcome;
+
+    try {
+        let backendUrl = options.backendUrl;
+        if (!backendUrl) {
+            backendServiceManager = new BackendServiceManager(
+                new CliHostEnvironment(),
+                logger,
+                new ConsoleErrorNotificationService(logger)
+            );
+            backendUrl = (await backendServiceManager.start()).url;
+        }
+
+        websocketClient = new WebSocketClient(backendUrl, logger);
+        websocketClient.onExtendedEventData(data => collector.addExtendedEvent(data));
+        websocketClient.onExecutionBoundary(boundary => collector.addExecutionBoundary(boundary));
+        websocketClient.onExecutionMetrics(metrics => collector.addExecutionMetrics(metrics));
+        websocketClient.registerStorageHandlers(storageService);
+
+        const connectionsLoaded = storageService.whenConnectionsLoaded();
+        await websocketClient.connect();
+        await withTimeout(connectionsLoaded, CONNECTIONS_LOAD_TIMEOUT_MS, 'Backend did not load the connections');
+
+        console.log(`Running stress test "${name}" on ${connection.name}...`);
+        const result = await runStressTest(new HttpClient(backendUrl, logger), websocketClient, definition, connection.id, options, logger);
+        outcome = {
+            name,
+            connection: connection.name,
+            testId: result.testId,
+            status: result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed',
+            message: result.message,
+            error: result.error,
+            startTime,
+            endTime: Date.now()
+        };
+
+        // Extended Events are dispatched in batches, so the last ones can trail the completion message
+        if (options.settleSeconds > 0 && result.testId) {
+            await delay(options.settleSeconds * 1000);
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Stress test run failed', error);
+        outcome = { name, connection: connection.name, status: 'failed', error: errorMessage, startTime, endTime: Date.now() };
+    } finally {
+        await websocketClient?.disconnect();
+        await backendServiceManager?.stop();
+    }
+
+    const summary = collector.summarize(outcome);
+    // Assertions saved with the definition apply to every run, --threshold adds to them
+    const assertions = [...(definition.assertions ?? []).map(parseAssertion), ...options.thresholds];
+    const thresholdResults = evaluateAssertions(summary, assertions);
+    const passed = isRunPassed(summary, thresholdResults);
+
+    if (options.jsonReportPath) {
+        writeReport(options.jsonReportPath, formatJsonReport(summary, thresholdResults));
+    }
+    if (options.junitReportPath) {
+        writeReport(options.junitReportPath, formatJUnitReport(summary, thresholdResults));
+    }
+
+    console.log(`Stress test "${name}" ${summary.status}${summary.error ? `: ${summary.error}` : summary.message ? `: ${summary.message}` : ''}`);
+    console.log(`  executions: ${summary.executionCount} (${summary.failedExecutionCount} failed)`);
+    console.log(`  duration: avg ${formatMetricValue('avgDuration', summary.avgDuration)}, ` +
+        `min ${formatMetricValue('minDuration', summary.minDuration)}, max ${formatMetricValue('maxDuration', summary.maxDuration)}`);
+    for (const result of thresholdResults) {
+        console.log(`  ${result.passed ? 'PASS' : 'FAIL'} ${describeAssertionResult(result)}`);
+    }
+
+    return passed ? EXIT_PASSED : EXIT_FAILED;
+}
+
+/**
+ * Starts the run and resolves with the completion message sent over the WebSocket,
+ * cancelling the run on timeout or Ctrl+C.
+ */
+async function runStressTest(
+    httpClient: HttpClient,
+    websocketClient: WebSocketClient,
+    definition: StressTestDefinition,
+    connectionId: string,
+    options: CliOptions,
+    logger: ConsoleLogger
+): Promise<StressTestResponse> {
+    // Listen before starting so a fast completion is not missed
+    const completedResults = new Map<string, StressTestResponse>();
+    let resolveCompletion: ((result: StressTestResponse) => void) | undefined;
+    let testId: string | undefined;
+    const completionCallback = (result: StressTestResponse) => {
+        if (result.testId && result.testId === testId) {
+            resolveCompletion?.(result);
+        } else if (result.testId) {
+            completedResults.set(result.testId, result);
+        }
+    };
+    websocketClient.onStressTestCompleted(completionCallback);
+
+    let timeoutTimer: NodeJS.Timeout | undefined;
+    const cancel = async (reason: string) => {
+        if (!testId) {
+            return;
+        }
+        logger.warn(`Cancelling stress test: ${reason}`);
+        const response = await httpClient.cancelStressTest(testId).catch(error => ({
+            success: false,
+            testId,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        }) as StressTestResponse);
+        // The completion message may be lost while stopping, so settle the run here
+        resolveCompletion?.({ ...response, success: false, cancelled: true, error: reason });
+    };
+    const onInterrupt = () => void cancel('Interrupted');
+
+    try {
+        const response = await httpClient.executeStressTest({
+            connectionId,
+            query: definition.query ?? '',
+            parallelExecutions: definition.parallelExecutions,
+            totalExecutions: definition.totalExecutions,
+            database: definition.database,
+            queries: definition.queries && definition.queries.length > 0 ? definition.queries : undefined,
+            parameters: definition.parameters && definition.parameters.length > 0 ? definition.parameters : undefined,
+            loadProfile: definition.loadProfile && definition.loadProfile.mode !== 'fixed' ? definition.loadProfile : undefined
+        });
+        if (!response.success || !response.testId) {
+            return response;
+        }
+
+        testId = response.testId;
+        const completion = new Promise<StressTestResponse>(resolve => { resolveCompletion = resolve; });
+        const earlyResult = completedResults.get(testId);
+        if (earlyResult) {
+            return earlyResult;
+        }
+
+        process.once('SIGINT', onInterrupt);
+        if (options.timeoutSeconds) {
+            timeoutTimer = setTimeout(() => void cancel(`Timed out after ${options.timeoutSeconds} seconds`), options.timeoutSeconds * 1000);
+        }
+        return await completion;
+    } finally {
+        if (timeoutTimer) {
+            clearTimeout(timeoutTimer);
+        }
+        process.removeListener('SIGINT', onInterrupt);
+        websocketClient.offStressTestCompleted(completionCallback);
+    }
+}
+
+function readFile(filePath: string, description: string): string {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : 'Unknown error';
+        throw new CliUsageError(`Cannot read ${description} file ${filePath}: ${detail}`);
+    }
+}
+
+function writeReport(filePath: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+    console.log(`Wrote ${filePath}`);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`${message} within ${timeoutMs / 1000} seconds`)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2))
+        .then(exitCode => process.exit(exitCode))
+        .catch(error => {
+            console.error('sqlstress:', error instanceof Error ? error.message : error);
+            process.exit(EXIT_FAILED);
+        });
+}
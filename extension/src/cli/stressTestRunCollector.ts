@@ -0,0 +1,134 @@
+import { calculateRunMetrics, readBatchCompleted, RunMetrics } from '../services/runMetrics';
+import { ExecutionBoundary, ExecutionMetrics, ExtendedEventData } from '../services/websocketClient';
+
+export type RunStatus = 'completed' | 'cancelled' | 'failed';
+
+interface ExecutionSummary {
+    executionNumber: number;
+    queryName?: string; // Scenario query run by this execution
+    startTime?: number;
+    endTime?: number;
+    duration?: number; // in ms
+    dataSizeBytes?: number;
+    logicalReads?: number;
+    failed: boolean;
+}
+
+export interface QueryRunSummary {
+    queryName: string;
+    executionCount: number;
+    avgDuration: number; // in ms
+    minDuration: number;
+    maxDuration: number;
+}
+
+/**
+ * Outcome of one stress test run, as written to the JSON report.
+ */
+export interface RunSummary extends RunMetrics {
+    name: string;
+    connection: string;
+    testId?: string;
+    status: RunStatus;
+    message?: string;
+    error?: string;
+    startTime: string; // ISO date string
+    endTime: string; // ISO date string
+    avgDataSizeBytes?: number;
+    queries?: QueryRunSummary[]; // Per scenario query breakdown
+}
+
+export interface RunOutcome {
+    name: string;
+    connection: string;
+    testId?: string;
+    status: RunStatus;
+    message?: string;
+    error?: string;
+    startTime: number;
+    endTime: number;
+}
+
+/**
+ * Collects the per-execution data streamed over the WebSocket during a command line run,
+ * the same way the Historical Metrics view builds its run summaries.
+ * Single Responsibility: Aggregating execution data into a run summary.
+ */
+export class StressTestRunCollector {
+    private executionSummaries: Map<number, ExecutionSummary> = new Map();
+
+    addExtendedEvent(data: ExtendedEventData): void {
+        if (data.eventName !== 'sql_batch_completed') {
+            return;
+        }
+
+        const summary = this.getSummary(data.executionNumber);
+        summary.startTime = summary.startTime ?? new Date(data.timestamp).getTime();
+
+        const sample = readBatchCompleted(data);
+        summary.duration = sample.duration ?? summary.duration;
+        summary.logicalReads = sample.logicalReads ?? summary.logicalReads;
+        summary.failed = summary.failed || !!sample.failed;
+    }
+
+    addExecutionBoundary(boundary: ExecutionBoundary): void {
+        const summary = this.getSummary(boundary.executionNumber);
+        if (boundary.queryName) {
+            summary.queryName = boundary.queryName;
+        }
+
+        if (boundary.isStart) {
+            summary.startTime = boundary.timestampMs;
+        } else {
+            summary.endTime = boundary.timestampMs;
+            if (summary.startTime !== undefined && summary.duration === undefined) {
+                summary.duration = boundary.timestampMs - summary.startTime;
+            }
+        }
+    }
+
+    addExecutionMetrics(metrics: ExecutionMetrics): void {
+        this.getSummary(metrics.executionNumber).dataSizeBytes = metrics.dataSizeBytes;
+    }
+
+    summarize(outcome: RunOutcome): RunSummary {
+        const summaries = Array.from(this.executionSummaries.values())
+            .filter(s => s.duration !== undefined || s.endTime !== undefined || s.dataSizeBytes !== undefined);
+        const dataSizes = summaries.map(s => s.dataSizeBytes).filter((d): d is number => d !== undefined);
+
+        const runSummary: RunSummary = {
+            name: outcome.name,
+            connection: outcome.connection,
+            testId: outcome.testId,
+            status: outcome.status,
+            message: outcome.message,
+            error: outcome.error,
+            startTime: new Date(outcome.startTime).toISOString(),
+            endTime: new Date(outcome.endTime).toISOString(),
+            ...calculateRunMetrics(summaries)
+        };
+
+        if (dataSizes.length > 0) {
+            runSummary.avgDataSizeBytes = dataSizes.reduce((a, b) => a + b, 0) / dataSizes.length;
+        }
+
+        const queryNames = Array.from(new Set(summaries.map(s => s.queryName).filter((n): n is string => !!n)));
+        if (queryNames.length > 0) {
+            runSummary.queries = queryNames.map(queryName => {
+                const { executionCount, avgDuration, minDuration, maxDuration } = calculateRunMetrics(summaries.filter(s => s.queryName === queryName));
+                return { queryName, executionCount, avgDuration, minDuration, maxDuration };
+            });
+        }
+
+        return runSummary;
+    }
+
+    private getSummary(executionNumber: number): ExecutionSummary {
+        let summary = this.executionSummaries.get(executionNumber);
+        if (!summary) {
+            summary = { executionNumber, failed: false };
+            this.executionSummaries.set(executionNumber, summary);
+        }
+        return summary;
+    }
+}
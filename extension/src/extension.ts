@@ -4,17 +4,31 @@ import { PerformanceGraph } from './panes/performanceGraph';
 import { QueryEditor } from './panes/queryEditor';
 import { HistoricalMetricsView } from './panes/historicalMetricsView';
 import { EEReaderStatusView } from './panes/eeReaderStatusView';
+import { RunComparisonView } from './panes/runComparisonView';
+import { ExecutionPlanView } from './panes/executionPlanView';
+import { DeadlockGraphView } from './panes/deadlockGraphView';
 import { StatusBar } from './statusBar';
-import { WebSocketClient } from './services/websocketClient';
+import { BlockingReportEventData, ExecutionPlan, WebSocketClient } from './services/websocketClient';
 import { BackendServiceManager } from './services/backendServiceManager';
+import { ErrorNotificationService } from './services/errorNotificationService';
+import { ExtensionHostEnvironment, getConfiguredBackendUrl } from './services/extensionHostEnvironment';
 import { Logger } from './services/logger';
-import { StorageService } from './services/storage';
+import { StorageService, StressTestConfiguration } from './services/storage';
+import { HttpClient } from './services/httpClient';
+import { StressTestHandler } from './panes/queryEditor/StressTestHandler';
+import { StressTestDefinitionRunner } from './stressTestDefinitions/StressTestDefinitionRunner';
+import { RUN_DEFINITION_COMMAND, StressTestCodeLensProvider } from './stressTestDefinitions/StressTestCodeLensProvider';
 
 let sqlExplorer: SqlServerExplorer;
 let performanceGraph: PerformanceGraph | undefined;
 let queryEditor: QueryEditor | undefined;
 let historicalMetricsView: HistoricalMetricsView | undefined;
+let runComparisonView: RunComparisonView | undefined;
+let executionPlanView: ExecutionPlanView | undefined;
+let deadlockGraphView: DeadlockGraphView | undefined;
 let eeReaderStatusView: EEReaderStatusView | undefined;
+let stressTestDefinitionRunner: StressTestDefinitionRunner | undefined;
+let stressTestHandler: StressTestHandler | undefined;
 let statusBar: StatusBar;
 let websocketClient: WebSocketClient;
 let backendServiceManager: BackendServiceManager;
@@ -44,7 +58,11 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize backend service manager
     logger.info('Initializing BackendServiceManager...');
     console.log('[SQL Stress Test] Creating BackendServiceManager...');
-    backendServiceManager = new BackendServiceManager(context, logger);
+    backendServiceManager = new BackendServiceManager(
+        new ExtensionHostEnvironment(context),
+        logger,
+        new ErrorNotificationService(logger)
+    );
     logger.info('BackendServiceManager initialized');
     console.log('[SQL Stress Test] BackendServiceManager created');
     
@@ -61,7 +79,8 @@ export async function activate(context: vscode.ExtensionContext) {
         statusBar = new StatusBar(websocketClient, logger);
         
         // Initialize storage service
-        storageService = new StorageService(context);
+        storageService = new StorageService(context, new ExtensionHostEnvironment(context));
+        await migrateConnectionPasswords();
         
         // Initialize SQL Server Explorer
         sqlExplorer = new SqlServerExplorer(context, websocketClient, logger);
@@ -70,10 +89,14 @@ export async function activate(context: vscode.ExtensionContext) {
         // Without this registration, VS Code doesn't know about the tree view,
         // so refresh events won't trigger UI updates
         const treeView = vscode.window.createTreeView('sqlServerExplorer', {
-            treeDataProvider: sqlExplorer
+            treeDataProvider: sqlExplorer,
+            dragAndDropController: sqlExplorer,
+            canSelectMany: true,
+            showCollapseAll: true
         });
         context.subscriptions.push(treeView);
         context.subscriptions.push(sqlExplorer);
+        context.subscriptions.push(sqlExplorer.watchSharedConnections());
 
         // Register tree view selection listener to open query editor and performance graph
         treeView.onDidChangeSelection(async (e) => {
@@ -81,7 +104,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 const selectedItem = e.selection[0];
                 // Ensure queryEditor and performanceGraph are initialized
                 if (!queryEditor) {
-                    queryEditor = new QueryEditor(context, websocketClient, logger);
+                    queryEditor = new QueryEditor(context, websocketClient, logger, getStressTestHandler());
                 }
                 if (!performanceGraph) {
                     performanceGraph = new PerformanceGraph(context, websocketClient, logger);
@@ -113,11 +136,12 @@ export async function activate(context: vscode.ExtensionContext) {
         // Fallback: try to connect to default localhost URL if backend is already running
         logger.info('Attempting to connect to default backend URL as fallback...');
         console.log('[SQL Stress Test] Attempting fallback connection...');
-        websocketClient = new WebSocketClient(undefined, logger);
+        websocketClient = new WebSocketClient(getConfiguredBackendUrl(), logger);
         statusBar = new StatusBar(websocketClient, logger);
         
         // Initialize storage service
-        storageService = new StorageService(context);
+        storageService = new StorageService(context, new ExtensionHostEnvironment(context));
+        await migrateConnectionPasswords();
         
         sqlExplorer = new SqlServerExplorer(context, websocketClient, logger);
         
@@ -125,10 +149,14 @@ export async function activate(context: vscode.ExtensionContext) {
         // Without this registration, VS Code doesn't know about the tree view,
         // so refresh events won't trigger UI updates
         const treeView = vscode.window.createTreeView('sqlServerExplorer', {
-            treeDataProvider: sqlExplorer
+            treeDataProvider: sqlExplorer,
+            dragAndDropController: sqlExplorer,
+            canSelectMany: true,
+            showCollapseAll: true
         });
         context.subscriptions.push(treeView);
         context.subscriptions.push(sqlExplorer);
+        context.subscriptions.push(sqlExplorer.watchSharedConnections());
 
         // Register tree view selection listener to open query editor and performance graph
         treeView.onDidChangeSelection(async (e) => {
@@ -136,7 +164,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 const selectedItem = e.selection[0];
                 // Ensure queryEditor and performanceGraph are initialized
                 if (!queryEditor) {
-                    queryEditor = new QueryEditor(context, websocketClient, logger);
+                    queryEditor = new QueryEditor(context, websocketClient, logger, getStressTestHandler());
                 }
                 if (!performanceGraph) {
                     performanceGraph = new PerformanceGraph(context, websocketClient, logger);
@@ -149,26 +177,41 @@ export async function activate(context: vscode.ExtensionContext) {
     // Register commands
     const commands = [
         vscode.commands.registerCommand('sqlStressTest.addServer', () => sqlExplorer.addServer()),
+        vscode.commands.registerCommand('sqlStressTest.importConnections', () => sqlExplorer.importConnections()),
+        vscode.commands.registerCommand('sqlStressTest.exportConnections', (item, selectedItems) => sqlExplorer.exportConnections(item, selectedItems)),
+        vscode.commands.registerCommand('sqlStressTest.setSharedConnectionPassword', (item) => sqlExplorer.setSharedConnectionPassword(item)),
+        vscode.commands.registerCommand('sqlStressTest.copyConnectionString', (item) => sqlExplorer.copyConnectionString(item)),
         vscode.commands.registerCommand('sqlStressTest.removeServer', (item) => sqlExplorer.removeServer(item)),
         vscode.commands.registerCommand('sqlStressTest.editServer', (item) => sqlExplorer.editServer(item)),
         vscode.commands.registerCommand('sqlStressTest.testConnection', (item) => sqlExplorer.testConnection(item)),
+        vscode.commands.registerCommand('sqlStressTest.moveToConnectionGroup', (item, selectedItems) => sqlExplorer.moveToGroup(item, selectedItems)),
+        vscode.commands.registerCommand('sqlStressTest.renameConnectionGroup', (item) => sqlExplorer.renameGroup(item)),
+        vscode.commands.registerCommand('sqlStressTest.removeConnectionGroup', (item) => sqlExplorer.removeGroup(item)),
+        vscode.commands.registerCommand('sqlStressTest.testConnectionGroup', (item) => sqlExplorer.testConnectionGroup(item)),
         vscode.commands.registerCommand('sqlStressTest.refreshExplorer', () => sqlExplorer.refresh()),
+        vscode.commands.registerCommand('sqlStressTest.refreshExplorerNode', (item) => sqlExplorer.refreshNode(item)),
+        vscode.commands.registerCommand('sqlStressTest.stressTestProcedure', async (item) => {
+            if (!queryEditor) {
+                queryEditor = new QueryEditor(context, websocketClient, logger, getStressTestHandler());
+            }
+            await sqlExplorer.stressTestProcedure(item, queryEditor);
+        }),
         vscode.commands.registerCommand('sqlStressTest.openPerformanceGraph', () => {
             if (!performanceGraph) {
                 performanceGraph = new PerformanceGraph(context, websocketClient, logger);
             }
             performanceGraph.show();
         }),
-        vscode.commands.registerCommand('sqlStressTest.showPerformanceGraph', (connectionId?: string) => {
+        vscode.commands.registerCommand('sqlStressTest.showPerformanceGraph', (connectionId?: string, configuration?: StressTestConfiguration) => {
             if (!performanceGraph) {
                 performanceGraph = new PerformanceGraph(context, websocketClient, logger);
             }
             performanceGraph.show(connectionId);
-            performanceGraph.startStressTest();
+            performanceGraph.startStressTest(configuration);
         }),
         vscode.commands.registerCommand('sqlStressTest.openQueryEditor', () => {
             if (!queryEditor) {
-                queryEditor = new QueryEditor(context, websocketClient, logger);
+                queryEditor = new QueryEditor(context, websocketClient, logger, getStressTestHandler());
             }
             queryEditor.show();
         }),
@@ -178,19 +221,67 @@ export async function activate(context: vscode.ExtensionContext) {
             }
             historicalMetricsView.show();
         }),
-        vscode.commands.registerCommand('sqlStressTest.showHistoricalMetrics', (connectionId?: string) => {
+        vscode.commands.registerCommand('sqlStressTest.showHistoricalMetrics', (connectionId?: string, configuration?: StressTestConfiguration) => {
             if (!historicalMetricsView) {
                 historicalMetricsView = new HistoricalMetricsView(context, websocketClient, logger);
             }
             historicalMetricsView.show(connectionId);
-            historicalMetricsView.startStressTest();
+            historicalMetricsView.startStressTest(configuration);
+        }),
+        vscode.commands.registerCommand('sqlStressTest.compareRuns', (baselineRunId?: number, candidateRunIds?: number[]) => {
+            if (!runComparisonView) {
+                runComparisonView = new RunComparisonView(context, logger);
+            }
+            return runComparisonView.compare(baselineRunId, candidateRunIds);
+        }),
+        vscode.commands.registerCommand('sqlStressTest.showExecutionPlans', (runId?: number, plans?: ExecutionPlan[]) => {
+            if (!executionPlanView) {
+                executionPlanView = new ExecutionPlanView(context, logger);
+            }
+            return executionPlanView.show(runId, plans);
+        }),
+        vscode.commands.registerCommand('sqlStressTest.showDeadlocks', (runId?: number, reports?: BlockingReportEventData[]) => {
+            if (!deadlockGraphView) {
+                deadlockGraphView = new DeadlockGraphView(context, logger);
+            }
+            return deadlockGraphView.show(runId, reports);
+        }),
+        vscode.commands.registerCommand('sqlStressTest.exportRun', () => {
+            if (!performanceGraph) {
+                vscode.window.showInformationMessage('There is no stress test run to export yet.');
+                return;
+            }
+            return performanceGraph.exportRun();
+        }),
+        vscode.commands.registerCommand('sqlStressTest.generateReport', () => {
+            if (!performanceGraph) {
+                vscode.window.showInformationMessage('There is no stress test run to report on yet.');
+                return;
+            }
+            return performanceGraph.generateReport();
+        }),
+        vscode.commands.registerCommand('sqlStressTest.stopPerformanceGraph', () => {
+            performanceGraph?.stopStressTest();
+        }),
+        vscode.commands.registerCommand('sqlStressTest.stopHistoricalMetrics', () => {
+            historicalMetricsView?.stopStressTest();
         }),
         vscode.commands.registerCommand('sqlStressTest.openEEReaderStatus', () => {
             if (!eeReaderStatusView) {
                 eeReaderStatusView = new EEReaderStatusView(context, websocketClient, logger);
             }
             eeReaderStatusView.show();
-        })
+        }),
+        vscode.commands.registerCommand(RUN_DEFINITION_COMMAND, (uri?: vscode.Uri) => {
+            if (!stressTestDefinitionRunner) {
+                stressTestDefinitionRunner = new StressTestDefinitionRunner(storageService, getStressTestHandler(), logger);
+            }
+            return stressTestDefinitionRunner.run(uri);
+        }),
+        vscode.languages.registerCodeLensProvider(
+            { language: 'json', pattern: '**/*.sqlstress.json' },
+            new StressTestCodeLensProvider()
+        )
     ];
     
     context.subscriptions.push(...commands);
@@ -239,11 +330,41 @@ export async function activate(context: vscode.ExtensionContext) {
     statusBar.initialize();
 }
 
+/**
+ * The stress test handler shared by the query editor and the definition runner,
+ * so only one stress test runs at a time whichever of them started it.
+ */
+function getStressTestHandler(): StressTestHandler {
+    if (!stressTestHandler) {
+        stressTestHandler = new StressTestHandler(new HttpClient(getConfiguredBackendUrl(), logger), websocketClient, logger);
+    }
+    return stressTestHandler;
+}
+
+/**
+ * Moves passwords saved in workspaceState by earlier versions into SecretStorage.
+ * Failures are logged but never block activation.
+ */
+async function migrateConnectionPasswords(): Promise<void> {
+    try {
+        const migrated = await storageService.migratePasswordsToSecretStorage();
+        if (migrated > 0) {
+            logger.info('Migrated connection passwords to SecretStorage', { count: migrated });
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to migrate connection passwords to SecretStorage', { error: errorMessage });
+    }
+}
+
 export async function deactivate() {
     websocketClient?.disconnect();
     performanceGraph?.dispose();
     queryEditor?.dispose();
     historicalMetricsView?.dispose();
+    runComparisonView?.dispose();
+    executionPlanView?.dispose();
+    deadlockGraphView?.dispose();
     // Note: EEReaderStatusView doesn't have a dispose method, but panel cleanup is handled internally
     statusBar?.dispose();
     await backendServiceManager?.dispose();
@@ -0,0 +1,260 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger, Logger } from '../services/logger';
+import { RunHistoryStorageService } from '../services/runHistoryStorageService';
+import { HistoricalRun } from '../services/storage';
+import { BlockingReportEventData, isDeadlockReport } from '../services/websocketClient';
+
+interface RunQuickPickItem extends vscode.QuickPickItem {
+    run: HistoricalRun;
+}
+
+/**
+ * Shows the deadlock graphs and blocked process reports of a stress test run:
+ * the victim, the locked resources and the SQL text of every session involved.
+ * Single Responsibility: Deadlock graph panel only.
+ */
+export class DeadlockGraphView {
+    private panel: vscode.WebviewPanel | undefined;
+    private logger: ILogger;
+    private runHistory: RunHistoryStorageService;
+    private reports: BlockingReportEventData[] = [];
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        logger?: ILogger,
+        runHistory?: RunHistoryStorageService
+    ) {
+        this.logger = logger || new Logger('SQL Stress Test - Deadlocks');
+        this.runHistory = runHistory || new RunHistoryStorageService(context);
+        this.logger.log('DeadlockGraphView initialized');
+    }
+
+    /**
+     * Shows the given reports, the reports stored with a run, or asks for a run with reports from the run history.
+     */
+    async show(runId?: number, reports?: BlockingReportEventData[]): Promise<void> {
+        if (reports === undefined) {
+            if (runId === undefined) {
+                runId = await this.pickRun();
+                if (runId === undefined) {
+                    return;
+                }
+            }
+            reports = await this.runHistory.loadBlockingReports(runId);
+        }
+
+        if (reports.length === 0) {
+            vscode.window.showInformationMessage(
+                runId !== undefined
+                    ? `Run #${runId} had no deadlocks or blocked processes.`
+                    : 'No deadlocks or blocked processes have been reported yet.'
+            );
+            return;
+        }
+
+        this.logger.log('Showing blocking reports', { runId, reportCount: reports.length });
+        this.reports = reports;
+        this.showPanel();
+        this.panel!.title = runId !== undefined ? `Deadlocks - Run #${runId}` : 'Deadlocks';
+        this.panel!.webview.postMessage({
+            command: 'showReports',
+            runId,
+            reports
+        });
+    }
+
+    private async pickRun(): Promise<number | undefined> {
+        const runs = (await this.runHistory.loadRuns())
+            .filter(run => (run.deadlockCount ?? 0) > 0 || (run.blockedProcessReportCount ?? 0) > 0);
+        if (runs.length === 0) {
+            vscode.window.showInformationMessage('No stored stress test run had deadlocks or blocked processes.');
+            return undefined;
+        }
+
+        const items: RunQuickPickItem[] = [...runs].reverse().map(run => {
+            const deadlocks = run.deadlockCount ?? 0;
+            const blocked = run.blockedProcessReportCount ?? 0;
+            return {
+                label: `Run #${run.runId}`,
+                description: [run.connection?.name, new Date(run.startTime).toLocaleString()].filter(Boolean).join(' · '),
+                detail: `${deadlocks} deadlock${deadlocks === 1 ? '' : 's'} · ${blocked} blocked process report${blocked === 1 ? '' : 's'}`,
+                run
+            };
+        });
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the run whose deadlocks to show'
+        });
+        return picked?.run.runId;
+    }
+
+    /**
+     * Opens the XML of a report in an editor, e.g. to save a deadlock graph as an .xdl file.
+     */
+    private async openReportXml(index: number): Promise<void> {
+        const report = this.reports[index];
+        if (!report) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument({
+            content: isDeadlockReport(report) ? report.eventFields.xml_report : report.eventFields.blocked_process,
+            language: 'xml'
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    private showPanel(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'deadlockGraphs',
+            'Deadlocks',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        this.panel.webview.html = this.getWebviewContent();
+        this.panel.webview.onDidReceiveMessage(async (message) => {
+            if (message.command === 'openReportXml') {
+                await this.openReportXml(message.index);
+            }
+        });
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+    }
+
+    private getDeadlockGraphStyles(): string {
+        return `
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            background-color: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .report-toolbar {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 15px;
+        }
+        select, button {
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            padding: 4px 8px;
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            cursor: pointer;
+        }
+        .report-summary {
+            font-weight: bold;
+            margin-bottom: 10px;
+        }
+        .participant {
+            border-left: 3px solid var(--vscode-input-border);
+            padding-left: 10px;
+            margin-bottom: 15px;
+        }
+        .participant.victim,
+        .participant.blocked {
+            border-left-color: var(--vscode-errorForeground);
+        }
+        .participant.blocking {
+            border-left-color: var(--vscode-editorWarning-foreground);
+        }
+        .participant-name {
+            font-weight: bold;
+        }
+        .role {
+            font-weight: normal;
+            font-size: 11px;
+            text-transform: uppercase;
+            color: var(--vscode-descriptionForeground);
+            margin-left: 6px;
+        }
+        .participant-details {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: 4px 0;
+        }
+        .sql-text {
+            white-space: pre-wrap;
+            font-family: var(--vscode-editor-font-family);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            margin: 0;
+        }
+        .resource-table {
+            border-collapse: collapse;
+            width: 100%;
+            font-size: 13px;
+        }
+        .resource-table th,
+        .resource-table td {
+            border-bottom: 1px solid var(--vscode-input-border);
+            padding: 4px 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        .empty-state {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    `;
+    }
+
+    private getDeadlockGraphBody(): string {
+        return `
+    <h2>Deadlocks and Blocked Processes</h2>
+    <div class="report-toolbar">
+        <label for="reportSelect">Report</label>
+        <select id="reportSelect"></select>
+        <button id="openXmlBtn" title="Open the report XML in an editor">Open XML</button>
+    </div>
+    <div id="reportContainer">
+        <div class="empty-state">Loading reports...</div>
+    </div>
+    `;
+    }
+
+    private getDeadlockGraphScript(): string {
+        const scriptPath = path.join(this.context.extensionPath, 'webviews', 'deadlockGraphView.js');
+        try {
+            return fs.readFileSync(scriptPath, 'utf8');
+        } catch (error) {
+            this.logger.error('Failed to load deadlockGraphView.js', error);
+            return '// Error loading script';
+        }
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Deadlocks</title>
+    <style>${this.getDeadlockGraphStyles()}</style>
+</head>
+<body>${this.getDeadlockGraphBody()}
+    <script>${this.getDeadlockGraphScript()}</script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.logger.log('Disposing deadlock graph view');
+        this.panel?.dispose();
+        this.panel = undefined;
+    }
+}
@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger, Logger } from '../services/logger';
+import { RunHistoryStorageService } from '../services/runHistoryStorageService';
+import { HistoricalRun } from '../services/storage';
+import { ExecutionPlan } from '../services/websocketClient';
+
+interface RunQuickPickItem extends vscode.QuickPickItem {
+    run: HistoricalRun;
+}
+
+/**
+ * Shows the actual execution plans captured during a stress test run as operator trees.
+ * Single Responsibility: Execution plan panel only.
+ */
+export class ExecutionPlanView {
+    private panel: vscode.WebviewPanel | undefined;
+    private logger: ILogger;
+    private runHistory: RunHistoryStorageService;
+    private plans: ExecutionPlan[] = [];
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        logger?: ILogger,
+        runHistory?: RunHistoryStorageService
+    ) {
+        this.logger = logger || new Logger('SQL Stress Test - Execution Plans');
+        this.runHistory = runHistory || new RunHistoryStorageService(context);
+        this.logger.log('ExecutionPlanView initialized');
+    }
+
+    /**
+     * Shows the given plans, the plans stored with a run, or asks for a run with plans from the run history.
+     */
+    async show(runId?: number, plans?: ExecutionPlan[]): Promise<void> {
+        if (plans === undefined) {
+            if (runId === undefined) {
+                runId = await this.pickRun();
+                if (runId === undefined) {
+                    return;
+                }
+            }
+            plans = await this.runHistory.loadExecutionPlans(runId);
+        }
+
+        if (plans.length === 0) {
+            vscode.window.showInformationMessage(
+                runId !== undefined
+                    ? `Run #${runId} has no captured execution plans.`
+                    : 'No execution plans have been captured yet.'
+            );
+            return;
+        }
+
+        this.logger.log('Showing execution plans', { runId, planCount: plans.length });
+        this.plans = plans;
+        this.showPanel();
+        this.panel!.title = runId !== undefined ? `Execution Plans - Run #${runId}` : 'Execution Plans';
+        this.panel!.webview.postMessage({
+            command: 'showPlans',
+            runId,
+            plans
+        });
+    }
+
+    private async pickRun(): Promise<number | undefined> {
+        const runs = (await this.runHistory.loadRuns()).filter(run => (run.executionPlanCount ?? 0) > 0);
+        if (runs.length === 0) {
+            vscode.window.showInformationMessage(
+                'No stored stress test run has execution plans. Enable execution plan capture in the query editor before running a stress test.'
+            );
+            return undefined;
+        }
+
+        const items: RunQuickPickItem[] = [...runs].reverse().map(run => ({
+            label: `Run #${run.runId}`,
+            description: [run.connection?.name, new Date(run.startTime).toLocaleString()].filter(Boolean).join(' · '),
+            detail: `${run.executionPlanCount} execution plan${run.executionPlanCount === 1 ? '' : 's'}`,
+            run
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select the run whose execution plans to show'
+        });
+        return picked?.run.runId;
+    }
+
+    /**
+     * Opens the showplan XML of an execution in an editor, e.g. to save it as a .sqlplan file.
+     */
+    private async openPlanXml(executionNumber: number): Promise<void> {
+        const plan = this.plans.find(p => p.executionNumber === executionNumber);
+        if (!plan) {
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument({
+            content: plan.showplanXml.join('\n'),
+            language: 'xml'
+        });
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+
+    private showPanel(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'executionPlans',
+            'Execution Plans',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        this.panel.webview.html = this.getWebviewContent();
+        this.panel.webview.onDidReceiveMessage(async (message) => {
+            if (message.command === 'openPlanXml') {
+                await this.openPlanXml(message.executionNumber);
+            }
+        });
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+    }
+
+    private getExecutionPlanStyles(): string {
+        return `
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            background-color: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .plan-toolbar {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 15px;
+        }
+        select, button {
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            padding: 4px 8px;
+        }
+        button {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            cursor: pointer;
+        }
+        .statement {
+            margin-bottom: 30px;
+        }
+        .statement-text {
+            white-space: pre-wrap;
+            font-family: var(--vscode-editor-font-family);
+            background-color: var(--vscode-textCodeBlock-background);
+            padding: 8px;
+            margin: 0 0 6px 0;
+        }
+        .statement-details {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 8px;
+        }
+        .operator-table {
+            border-collapse: collapse;
+            width: 100%;
+            font-size: 13px;
+        }
+        .operator-table th,
+        .operator-table td {
+            border-bottom: 1px solid var(--vscode-input-border);
+            padding: 4px 8px;
+            text-align: left;
+            vertical-align: top;
+        }
+        .operator-table .number {
+            text-align: right;
+        }
+        .logical-op {
+            color: var(--vscode-descriptionForeground);
+        }
+        .misestimate {
+            color: var(--vscode-errorForeground);
+            font-weight: bold;
+        }
+        .warning {
+            color: var(--vscode-editorWarning-foreground);
+            font-size: 12px;
+        }
+        .empty-state {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    `;
+    }
+
+    private getExecutionPlanBody(): string {
+        return `
+    <h2>Execution Plans</h2>
+    <div class="plan-toolbar">
+        <label for="planSelect">Execution</label>
+        <select id="planSelect"></select>
+        <button id="openXmlBtn" title="Open the showplan XML in an editor">Open XML</button>
+    </div>
+    <div id="planContainer">
+        <div class="empty-state">Loading execution plans...</div>
+    </div>
+    `;
+    }
+
+    private getExecutionPlanScript(): string {
+        const scriptPath = path.join(this.context.extensionPath, 'webviews', 'executionPlanView.js');
+        try {
+            return fs.readFileSync(scriptPath, 'utf8');
+        } catch (error) {
+            this.logger.error('Failed to load executionPlanView.js', error);
+            return '// Error loading script';
+        }
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Execution Plans</title>
+    <style>${this.getExecutionPlanStyles()}</style>
+</head>
+<body>${this.getExecutionPlanBody()}
+    <script>${this.getExecutionPlanScript()}</script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.logger.log('Disposing execution plan view');
+        this.panel?.dispose();
+        this.panel = undefined;
+    }
+}
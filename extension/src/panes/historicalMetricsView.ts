@@ -1,29 +1,27 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { WebSocketClient, ExtendedEventData, ExecutionBoundary, ExecutionMetrics } from '../services/websocketClient';
+import { WebSocketClient, BlockingReportEventData, ExtendedEventData, ExecutionBoundary, ExecutionMetrics, ExecutionPlan, isBlockedProcessReport, isDeadlockReport, WaitStatistic, WaitStatisticsData } from '../services/websocketClient';
 import { ILogger, Logger } from '../services/logger';
+import { ErrorNotificationService } from '../services/errorNotificationService';
+import { IErrorNotificationService } from '../services/interfaces/IErrorNotificationService';
+import { calculateRunMetrics, DurationPercentiles, ExecutionAccumulator, readBatchCompleted, RunMetrics } from '../services/runMetrics';
+import { AssertionParseError, evaluateAssertions, formatMetricValue, parseAssertion, RunAssertion } from '../services/runAssertions';
+import { ExecutionSummary, HistoricalRun, QueryRunMetrics, StressTestConfiguration } from '../services/storage';
+import { RunHistoryStorageService } from '../services/runHistoryStorageService';
+import { LatencyHistogram } from '../services/latencyHistogram';
+import { ConnectionStorageService } from '../services/connectionStorageService';
+import { ExtensionHostEnvironment } from '../services/extensionHostEnvironment';
 
-interface ExecutionSummary {
-    executionNumber: number;
-    startTime: number;
-    endTime?: number;
-    duration?: number; // in ms
-    rowCount?: number;
-    dataSizeBytes?: number;
-}
-
-interface HistoricalRun {
-    runId: number; // Sequential run number
-    startTime: number;
-    endTime: number;
-    avgDuration: number;
-    minDuration: number;
-    maxDuration: number;
-    avgDataSizeBytes?: number;
-    minDataSizeBytes?: number;
-    maxDataSizeBytes?: number;
+interface QueryMetricCardData {
+    queryName: string;
     executionCount: number;
+    current: number;
+    previous?: number;
+    trend: 'up' | 'down' | 'stable';
+    unit: string;
+    min: number;
+    max: number;
 }
 
 interface MetricCardData {
@@ -35,6 +33,8 @@ interface MetricCardData {
     min?: number;
     max?: number;
     runId?: number; // Run identifier for display
+    startTime?: number;
+    connectionName?: string;
     // For combined cards
     executionTime?: {
         current: number;
@@ -43,6 +43,7 @@ interface MetricCardData {
         unit: string;
         min?: number;
         max?: number;
+        percentiles?: DurationPercentiles;
     };
     dataSize?: {
         current: number;
@@ -52,6 +53,34 @@ interface MetricCardData {
         min?: number;
         max?: number;
     };
+    queries?: QueryMetricCardData[];
+    assertions?: AssertionCardData[];
+    executionPlanCount?: number;
+    waits?: WaitCardData[];
+    blocking?: BlockingCardData;
+}
+
+interface WaitCardData {
+    waitType: string;
+    waitTimeMs: number;
+    waitingTasksCount: number;
+    percentOfTotal: number; // Share of the run's total wait time
+    previous?: number; // Wait time of the previous run, 0 if it did not wait on this type
+    trend: 'up' | 'down' | 'stable';
+}
+
+// Deadlocks and blocked process reports of a run, against the previous run
+interface BlockingCardData {
+    deadlockCount: number;
+    blockedProcessReportCount: number;
+    previousDeadlockCount?: number;
+    previousBlockedProcessReportCount?: number;
+}
+
+interface AssertionCardData {
+    expression: string;
+    passed: boolean;
+    actual: string; // Formatted in the assertion's unit
 }
 
 export class HistoricalMetricsView {
@@ -59,26 +88,46 @@ export class HistoricalMetricsView {
     private extendedEventDataCallback: ((data: ExtendedEventData) => void) | null = null;
     private executionBoundaryCallback: ((boundary: ExecutionBoundary) => void) | null = null;
     private executionMetricsCallback: ((metrics: ExecutionMetrics) => void) | null = null;
+    private executionPlanCallback: ((plan: ExecutionPlan) => void) | null = null;
+    private waitStatisticsCallback: ((data: WaitStatisticsData) => void) | null = null;
     private executionSummaries: Map<number, ExecutionSummary> = new Map();
     private readonly maxExecutions = 1000;
+    private readonly maxWaitsPerCard = 5;
+    // Executions of the current run dropped from executionSummaries by the maxExecutions cap
+    private evictedExecutions = new ExecutionAccumulator();
     private logger: ILogger;
     private selectedConnectionId: string | undefined;
     private isStressTestActive = false;
     private historicalRuns: HistoricalRun[] = [];
     private currentRunId: number = 0;
     private currentRunStartTime: number | undefined;
+    private currentRunAssertions: RunAssertion[] = [];
+    private currentRunConfiguration: StressTestConfiguration | undefined;
+    private currentRunPlans: ExecutionPlan[] = [];
+    private currentRunWaits: WaitStatistic[] | undefined;
+    private currentRunBlockingReports: BlockingReportEventData[] = [];
+    private errorNotificationService: IErrorNotificationService;
+    private runHistory: RunHistoryStorageService;
+    private connectionStorage: ConnectionStorageService;
+    private historyLoad: Promise<void> | undefined;
 
     constructor(
         private context: vscode.ExtensionContext,
         private websocketClient: WebSocketClient,
-        logger?: ILogger
+        logger?: ILogger,
+        errorNotificationService?: IErrorNotificationService,
+        runHistory?: RunHistoryStorageService
     ) {
         this.logger = logger || new Logger('SQL Stress Test - Historical Metrics');
+        this.errorNotificationService = errorNotificationService || new ErrorNotificationService(this.logger);
+        this.runHistory = runHistory || new RunHistoryStorageService(context);
+        this.connectionStorage = new ConnectionStorageService(context, new ExtensionHostEnvironment(context));
         this.logger.log('HistoricalMetricsView initialized');
     }
 
     show(connectionId?: string): void {
         this.selectedConnectionId = connectionId;
+        this.loadHistory();
         
         if (this.panel) {
             this.panel.reveal();
@@ -100,6 +149,15 @@ export class HistoricalMetricsView {
         this.panel.onDidDispose(() => {
             this.dispose();
         });
+        this.panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'compareRuns') {
+                vscode.commands.executeCommand('sqlStressTest.compareRuns');
+            } else if (message.command === 'showExecutionPlans') {
+                this.showExecutionPlans(message.runId);
+            } else if (message.command === 'showBlockingReports') {
+                this.showBlockingReports(message.runId);
+            }
+        });
 
         // Register callbacks
         this.extendedEventDataCallback = (data: ExtendedEventData) => {
@@ -139,16 +197,41 @@ export class HistoricalMetricsView {
             this.updateView();
         };
 
+        this.executionPlanCallback = (plan: ExecutionPlan) => {
+            this.logger.log('ExecutionPlan received', {
+                executionNumber: plan.executionNumber,
+                durationMs: plan.durationMs,
+                isStressTestActive: this.isStressTestActive
+            });
+            this.currentRunPlans.push(plan);
+            this.updateView();
+        };
+
+        this.waitStatisticsCallback = (data: WaitStatisticsData) => {
+            this.logger.log('WaitStatistics received', {
+                waitTypeCount: data.waits.length,
+                isStressTestActive: this.isStressTestActive
+            });
+            this.currentRunWaits = data.waits;
+            this.updateView();
+        };
+
         this.websocketClient.onExtendedEventData(this.extendedEventDataCallback);
         this.websocketClient.onExecutionBoundary(this.executionBoundaryCallback);
         this.websocketClient.onExecutionMetrics(this.executionMetricsCallback);
+        this.websocketClient.onExecutionPlan(this.executionPlanCallback);
+        this.websocketClient.onWaitStatistics(this.waitStatisticsCallback);
 
         // Update view immediately to show any existing historical runs
         // This ensures historical runs are displayed when the webview is first shown or refreshed
         this.updateView();
     }
 
-    startStressTest(): void {
+    /**
+     * Starts a new run. Assertions such as "p95 duration < 200ms" are checked when the run is finalized.
+     * The configuration is stored with the run in the run history.
+     */
+    startStressTest(configuration?: StressTestConfiguration): void {
         // If a stress test is already active, finalize the previous run first
         if (this.isStressTestActive && this.currentRunStartTime !== undefined) {
             this.logger.log('Starting new stress test while previous one is active - finalizing previous run first', {
@@ -162,8 +245,14 @@ export class HistoricalMetricsView {
         // Start a new run - increment run ID and track start time
         this.currentRunId++;
         this.currentRunStartTime = Date.now();
+        this.currentRunAssertions = this.parseAssertions(configuration?.assertions ?? []);
+        this.currentRunConfiguration = configuration;
+        this.currentRunPlans = [];
+        this.currentRunWaits = undefined;
+        this.currentRunBlockingReports = [];
         // Clear only current run's execution summaries (keep historical runs)
         this.executionSummaries.clear();
+        this.evictedExecutions = new ExecutionAccumulator();
         this.logger.log('Stress test started - starting new run', { 
             runId: this.currentRunId,
             historicalRunsCount: this.historicalRuns.length,
@@ -196,6 +285,7 @@ export class HistoricalMetricsView {
             });
             // Ensure state is completely clean
             this.executionSummaries.clear();
+            this.evictedExecutions = new ExecutionAccumulator();
             this.currentRunStartTime = undefined; // Explicitly clear even if already undefined
             this.updateView();
             return;
@@ -211,62 +301,118 @@ export class HistoricalMetricsView {
         }
         
         // Calculate aggregate metrics from current execution summaries
-        const summaries = Array.from(this.executionSummaries.values())
-            .filter(s => s.startTime && (s.duration !== undefined || s.endTime !== undefined || s.dataSizeBytes !== undefined));
+        const summaries = this.getCurrentRunSummaries();
         
-        if (summaries.length === 0) {
+        if (summaries.length === 0 && this.evictedExecutions.executionCount === 0) {
             this.logger.log('No valid executions to aggregate for current run', {
                 runId: this.currentRunId
             });
             this.currentRunStartTime = undefined;
+            this.currentRunAssertions = [];
+            this.currentRunConfiguration = undefined;
+            this.currentRunPlans = [];
+            this.currentRunWaits = undefined;
+            this.currentRunBlockingReports = [];
             this.executionSummaries.clear();
             this.updateView();
             return;
         }
         
-        const durations = summaries.map(e => e.duration).filter((d): d is number => d !== undefined);
-        const dataSizes = summaries.map(e => e.dataSizeBytes).filter((d): d is number => d !== undefined);
-        
-        const endTime = Date.now();
-        const avgDuration = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0;
-        const minDuration = durations.length > 0 ? Math.min(...durations) : 0;
-        const maxDuration = durations.length > 0 ? Math.max(...durations) : 0;
-        
-        const historicalRun: HistoricalRun = {
-            runId: this.currentRunId,
-            startTime: this.currentRunStartTime,
-            endTime: endTime,
-            avgDuration: avgDuration,
-            minDuration: minDuration,
-            maxDuration: maxDuration,
-            executionCount: summaries.length
-        };
-        
-        if (dataSizes.length > 0) {
-            historicalRun.avgDataSizeBytes = dataSizes.reduce((a, b) => a + b, 0) / dataSizes.length;
-            historicalRun.minDataSizeBytes = Math.min(...dataSizes);
-            historicalRun.maxDataSizeBytes = Math.max(...dataSizes);
+        const { run: historicalRun, metrics } = this.buildRun(summaries, this.currentRunStartTime, Date.now());
+        const connectionId = this.currentRunConfiguration?.connectionId ?? this.selectedConnectionId;
+        historicalRun.connection = connectionId ? { id: connectionId } : undefined;
+        historicalRun.configuration = this.currentRunConfiguration;
+        historicalRun.durationHistogram = this.getRunDurations(summaries).toSnapshot();
+
+        if (this.currentRunAssertions.length > 0) {
+            historicalRun.assertions = evaluateAssertions(metrics, this.currentRunAssertions);
+            const failures = historicalRun.assertions.filter(a => !a.passed);
+            if (failures.length > 0) {
+                this.errorNotificationService.notifyAssertionFailures(`Run #${historicalRun.runId}`, failures);
+            }
         }
         
-        // Add to historical runs
+        // Add to historical runs and the run history of the workspace
         this.historicalRuns.push(historicalRun);
+        this.saveRun(historicalRun, summaries, this.currentRunPlans, this.currentRunBlockingReports);
         this.logger.log('Run finalized', {
             runId: this.currentRunId,
-            executionCount: summaries.length,
-            avgDuration: avgDuration,
+            executionCount: historicalRun.executionCount,
+            avgDuration: historicalRun.avgDuration,
             totalHistoricalRuns: this.historicalRuns.length,
+            failedAssertions: historicalRun.assertions?.filter(a => !a.passed).length ?? 0,
             isStressTestActive: this.isStressTestActive
         });
         
         // Clear current run data for next run
         this.executionSummaries.clear();
+        this.evictedExecutions = new ExecutionAccumulator();
         this.currentRunStartTime = undefined;
+        this.currentRunAssertions = [];
+        this.currentRunConfiguration = undefined;
+        this.currentRunPlans = [];
+        this.currentRunWaits = undefined;
+        this.currentRunBlockingReports = [];
         
         // Update view to show all historical runs
         this.updateView();
     }
 
+    /**
+     * Loads the runs of earlier sessions once. Runs of this session are numbered after them.
+     */
+    private loadHistory(): Promise<void> {
+        if (!this.historyLoad) {
+            this.historyLoad = this.runHistory.loadRuns().then(storedRuns => {
+                const lastStoredRunId = storedRuns.reduce((max, run) => Math.max(max, run.runId), 0);
+                // A run may have started before the history was loaded
+                this.historicalRuns.forEach(run => run.runId += lastStoredRunId);
+                this.currentRunId += lastStoredRunId;
+                this.historicalRuns = [...storedRuns, ...this.historicalRuns];
+                this.logger.log('Run history loaded', {
+                    storedRunsCount: storedRuns.length,
+                    currentRunId: this.currentRunId
+                });
+                this.updateView();
+            }).catch(error => {
+                this.logger.error('Failed to load run history', error);
+            });
+        }
+        return this.historyLoad;
+    }
+
+    private async saveRun(
+        run: HistoricalRun,
+        executions: ExecutionSummary[],
+        plans: ExecutionPlan[],
+        blockingReports: BlockingReportEventData[]
+    ): Promise<void> {
+        try {
+            // The run ID is only final once the history is loaded
+            await this.loadHistory();
+            if (run.connection) {
+                const connections = await this.connectionStorage.loadConnections();
+                const connection = connections.find(c => c.id === run.connection!.id);
+                run.connection = { id: run.connection.id, name: connection?.name, server: connection?.server };
+            }
+            await this.runHistory.saveRun(run, executions, plans, blockingReports);
+            this.logger.log('Run saved to run history', { runId: run.runId, executionCount: executions.length, planCount: plans.length });
+        } catch (error) {
+            this.logger.error('Failed to save run to run history', error);
+        }
+    }
+
     private addEventData(data: ExtendedEventData): boolean {
+        // Reports are counted per run; their execution only tells which run they belong to
+        if (isDeadlockReport(data) || isBlockedProcessReport(data)) {
+            this.currentRunBlockingReports.push(data);
+            this.logger.log('Blocking report received', {
+                eventName: data.eventName,
+                executionNumber: data.executionNumber
+            });
+            return true;
+        }
+
         if (data.eventName !== 'sql_batch_completed') {
             this.logger.log('Ignoring non-sql_batch_completed event', { 
                 eventName: data.eventName,
@@ -287,11 +433,16 @@ export class HistoricalMetricsView {
             });
         }
 
-        const duration = data.eventFields['duration'] || data.eventFields['total_duration'];
+        const sample = readBatchCompleted(data);
         const rowCount = data.eventFields['row_count'];
 
-        if (duration !== undefined && duration !== null) {
-            summary.duration = typeof duration === 'number' ? duration : parseFloat(String(duration));
+        summary.logicalReads = sample.logicalReads;
+        summary.writes = sample.writes;
+        summary.cpuTime = sample.cpuTime;
+        summary.failed = sample.failed;
+
+        if (sample.duration !== undefined) {
+            summary.duration = sample.duration;
             this.logger.log('Updated duration from event', { 
                 executionNumber: data.executionNumber,
                 duration: summary.duration 
@@ -311,9 +462,13 @@ export class HistoricalMetricsView {
             });
         }
 
-        // Limit size
+        // Limit size; the oldest execution still counts towards the run's metrics
         if (this.executionSummaries.size > this.maxExecutions) {
             const firstKey = Math.min(...Array.from(this.executionSummaries.keys()));
+            const evicted = this.executionSummaries.get(firstKey)!;
+            if (this.hasExecutionData(evicted)) {
+                this.evictedExecutions.add(evicted);
+            }
             this.executionSummaries.delete(firstKey);
         }
         
@@ -335,6 +490,10 @@ export class HistoricalMetricsView {
             });
         }
 
+        if (boundary.queryName) {
+            summary.queryName = boundary.queryName;
+        }
+
         if (boundary.isStart) {
             summary.startTime = boundary.timestampMs;
             this.logger.log('Updated execution start time', { 
@@ -384,34 +543,10 @@ export class HistoricalMetricsView {
         // If stress test is active and has data, create a temporary run from current summaries
         // Double-check isStressTestActive to ensure we don't show a current run if test was stopped
         if (this.isStressTestActive && this.currentRunStartTime !== undefined) {
-            const summaries = Array.from(this.executionSummaries.values())
-                .filter(s => s.startTime && (s.duration !== undefined || s.endTime !== undefined || s.dataSizeBytes !== undefined));
+            const summaries = this.getCurrentRunSummaries();
             
             if (summaries.length > 0) {
-                const durations = summaries.map(e => e.duration).filter((d): d is number => d !== undefined);
-                const dataSizes = summaries.map(e => e.dataSizeBytes).filter((d): d is number => d !== undefined);
-                
-                const avgDuration = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0;
-                const minDuration = durations.length > 0 ? Math.min(...durations) : 0;
-                const maxDuration = durations.length > 0 ? Math.max(...durations) : 0;
-                
-                const currentRun: HistoricalRun = {
-                    runId: this.currentRunId,
-                    startTime: this.currentRunStartTime,
-                    endTime: Date.now(),
-                    avgDuration: avgDuration,
-                    minDuration: minDuration,
-                    maxDuration: maxDuration,
-                    executionCount: summaries.length
-                };
-                
-                if (dataSizes.length > 0) {
-                    currentRun.avgDataSizeBytes = dataSizes.reduce((a, b) => a + b, 0) / dataSizes.length;
-                    currentRun.minDataSizeBytes = Math.min(...dataSizes);
-                    currentRun.maxDataSizeBytes = Math.max(...dataSizes);
-                }
-                
-                runsToDisplay.push(currentRun);
+                runsToDisplay.push(this.buildRun(summaries, this.currentRunStartTime, Date.now()).run);
             }
         }
 
@@ -462,6 +597,67 @@ export class HistoricalMetricsView {
         });
     }
 
+    private getCurrentRunSummaries(): ExecutionSummary[] {
+        return Array.from(this.executionSummaries.values()).filter(s => this.hasExecutionData(s));
+    }
+
+    private hasExecutionData(summary: ExecutionSummary): boolean {
+        return !!summary.startTime && (summary.duration !== undefined || summary.endTime !== undefined || summary.dataSizeBytes !== undefined);
+    }
+
+    private getRunDurations(summaries: ExecutionSummary[]): LatencyHistogram {
+        const durations = this.evictedExecutions.durations.clone();
+        summaries.forEach(summary => {
+            if (summary.duration !== undefined) {
+                durations.record(summary.duration);
+            }
+        });
+        return durations;
+    }
+
+    /**
+     * Aggregates the current run, including the executions dropped by the maxExecutions cap.
+     * Data sizes are only known for the executions still kept.
+     */
+    private buildRun(summaries: ExecutionSummary[], startTime: number, endTime: number): { run: HistoricalRun; metrics: RunMetrics } {
+        const metrics = calculateRunMetrics(summaries, this.evictedExecutions);
+        const dataSizes = summaries.map(e => e.dataSizeBytes).filter((d): d is number => d !== undefined);
+
+        const run: HistoricalRun = {
+            runId: this.currentRunId,
+            startTime,
+            endTime,
+            avgDuration: metrics.avgDuration,
+            minDuration: metrics.minDuration,
+            maxDuration: metrics.maxDuration,
+            executionCount: metrics.executionCount,
+            failedExecutionCount: metrics.failedExecutionCount,
+            errorRatePercent: metrics.errorRatePercent,
+            durationPercentiles: metrics.durationPercentiles,
+            avgLogicalReads: metrics.avgLogicalReads,
+            avgWrites: metrics.avgWrites,
+            avgCpuTime: metrics.avgCpuTime,
+            queries: this.calculateQueryMetrics(summaries),
+            executionPlanCount: this.currentRunPlans.length > 0 ? this.currentRunPlans.length : undefined,
+            waitStatistics: this.currentRunWaits
+        };
+
+        const deadlockCount = this.currentRunBlockingReports.filter(isDeadlockReport).length;
+        const blockedProcessReportCount = this.currentRunBlockingReports.filter(isBlockedProcessReport).length;
+        if (deadlockCount > 0 || blockedProcessReportCount > 0) {
+            run.deadlockCount = deadlockCount;
+            run.blockedProcessReportCount = blockedProcessReportCount;
+        }
+
+        if (dataSizes.length > 0) {
+            run.avgDataSizeBytes = dataSizes.reduce((a, b) => a + b, 0) / dataSizes.length;
+            run.minDataSizeBytes = dataSizes.reduce((a, b) => Math.min(a, b));
+            run.maxDataSizeBytes = dataSizes.reduce((a, b) => Math.max(a, b));
+        }
+
+        return { run, metrics };
+    }
+
     private calculateMetricCards(runs: HistoricalRun[]): MetricCardData[] {
         if (runs.length === 0) {
             return [];
@@ -481,6 +677,8 @@ export class HistoricalMetricsView {
                 cards.push({
                     label: `Run #${run.runId}`,
                     runId: run.runId,
+                    startTime: run.startTime,
+                    connectionName: run.connection?.name,
                     current: hasExecutionTime ? run.avgDuration : run.avgDataSizeBytes!,
                     previous: hasExecutionTime 
                         ? previousRun?.avgDuration 
@@ -497,7 +695,8 @@ export class HistoricalMetricsView {
                         trend: this.calculateTrend(run.avgDuration, previousRun?.avgDuration),
                         unit: 'ms',
                         min: run.minDuration,
-                        max: run.maxDuration
+                        max: run.maxDuration,
+                        percentiles: run.durationPercentiles
                     } : undefined,
                     dataSize: hasDataSize ? {
                         current: run.avgDataSizeBytes!,
@@ -506,7 +705,29 @@ export class HistoricalMetricsView {
                         unit: 'bytes',
                         min: run.minDataSizeBytes,
                         max: run.maxDataSizeBytes
-                    } : undefined
+                    } : undefined,
+                    executionPlanCount: run.executionPlanCount,
+                    waits: this.calculateWaitCards(run, previousRun),
+                    blocking: this.calculateBlockingCard(run, previousRun),
+                    assertions: run.assertions?.map(assertion => ({
+                        expression: assertion.expression,
+                        passed: assertion.passed,
+                        actual: formatMetricValue(assertion.metric, assertion.actual)
+                    })),
+                    queries: run.queries?.map(query => {
+                        // Compare against the same scenario query in the previous run
+                        const previousQuery = previousRun?.queries?.find(q => q.queryName === query.queryName);
+                        return {
+                            queryName: query.queryName,
+                            executionCount: query.executionCount,
+                            current: query.avgDuration,
+                            previous: previousQuery?.avgDuration,
+                            trend: this.calculateTrend(query.avgDuration, previousQuery?.avgDuration),
+                            unit: 'ms',
+                            min: query.minDuration,
+                            max: query.maxDuration
+                        };
+                    })
                 });
             }
         }
@@ -514,6 +735,106 @@ export class HistoricalMetricsView {
         return cards;
     }
 
+    /**
+     * The top waits of a run with their change against the previous run. A previous run
+     * without wait statistics has nothing to compare with.
+     */
+    private calculateWaitCards(run: HistoricalRun, previousRun?: HistoricalRun): WaitCardData[] | undefined {
+        if (!run.waitStatistics || run.waitStatistics.length === 0) {
+            return undefined;
+        }
+
+        const totalWaitTimeMs = run.waitStatistics.reduce((total, wait) => total + wait.waitTimeMs, 0);
+        return run.waitStatistics.slice(0, this.maxWaitsPerCard).map(wait => {
+            const previous = previousRun?.waitStatistics
+                ? previousRun.waitStatistics.find(w => w.waitType === wait.waitType)?.waitTimeMs ?? 0
+                : undefined;
+            return {
+                waitType: wait.waitType,
+                waitTimeMs: wait.waitTimeMs,
+                waitingTasksCount: wait.waitingTasksCount,
+                percentOfTotal: totalWaitTimeMs > 0 ? wait.waitTimeMs / totalWaitTimeMs * 100 : 0,
+                previous,
+                trend: this.calculateTrend(wait.waitTimeMs, previous)
+            };
+        });
+    }
+
+    /**
+     * The deadlock and blocked process report counts of a run that had any, against the previous run.
+     */
+    private calculateBlockingCard(run: HistoricalRun, previousRun?: HistoricalRun): BlockingCardData | undefined {
+        if (run.deadlockCount === undefined && run.blockedProcessReportCount === undefined) {
+            return undefined;
+        }
+
+        return {
+            deadlockCount: run.deadlockCount ?? 0,
+            blockedProcessReportCount: run.blockedProcessReportCount ?? 0,
+            previousDeadlockCount: previousRun ? previousRun.deadlockCount ?? 0 : undefined,
+            previousBlockedProcessReportCount: previousRun ? previousRun.blockedProcessReportCount ?? 0 : undefined
+        };
+    }
+
+    /**
+     * Opens the deadlock viewer. The reports of the current run are not in the run history until it is finalized.
+     */
+    private showBlockingReports(runId: number): void {
+        const isCurrentRun = runId === this.currentRunId && this.currentRunStartTime !== undefined;
+        vscode.commands.executeCommand('sqlStressTest.showDeadlocks', runId, isCurrentRun ? this.currentRunBlockingReports : undefined);
+    }
+
+    /**
+     * Opens the plan viewer. The plans of the current run are not in the run history until it is finalized.
+     */
+    private showExecutionPlans(runId: number): void {
+        const isCurrentRun = runId === this.currentRunId && this.currentRunStartTime !== undefined;
+        vscode.commands.executeCommand('sqlStressTest.showExecutionPlans', runId, isCurrentRun ? this.currentRunPlans : undefined);
+    }
+
+    private calculateQueryMetrics(summaries: ExecutionSummary[]): QueryRunMetrics[] | undefined {
+        const summariesByQuery = new Map<string, ExecutionSummary[]>();
+        summaries.forEach(summary => {
+            if (!summary.queryName) {
+                return;
+            }
+            const querySummaries = summariesByQuery.get(summary.queryName) || [];
+            querySummaries.push(summary);
+            summariesByQuery.set(summary.queryName, querySummaries);
+        });
+
+        if (summariesByQuery.size === 0) {
+            return undefined;
+        }
+
+        return Array.from(summariesByQuery.entries()).map(([queryName, querySummaries]) => {
+            const durations = querySummaries.map(e => e.duration).filter((d): d is number => d !== undefined);
+            return {
+                queryName,
+                executionCount: querySummaries.length,
+                avgDuration: durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : 0,
+                minDuration: durations.length > 0 ? Math.min(...durations) : 0,
+                maxDuration: durations.length > 0 ? Math.max(...durations) : 0
+            };
+        });
+    }
+
+    private parseAssertions(assertions: string[]): RunAssertion[] {
+        const parsed: RunAssertion[] = [];
+        for (const assertion of assertions) {
+            try {
+                parsed.push(parseAssertion(assertion));
+            } catch (error) {
+                if (!(error instanceof AssertionParseError)) {
+                    throw error;
+                }
+                // The query editor and definition files validate assertions, so this only skips stale ones
+                this.logger.warn('Ignoring invalid assertion', { assertion, error: error.message });
+            }
+        }
+        return parsed;
+    }
+
     private calculateTrend(current: number, previous?: number): 'up' | 'down' | 'stable' {
         if (previous === undefined) {
             return 'stable';
@@ -535,6 +856,27 @@ export class HistoricalMetricsView {
             background-color: var(--vscode-editor-background);
             color: var(--vscode-editor-foreground);
         }
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+        }
+        .btn {
+            padding: 6px 12px;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-size: 12px;
+        }
+        .btn:hover {
+            background: var(--vscode-button-secondaryHoverBackground);
+        }
+        .execution-plans-btn,
+        .blocking-reports-btn {
+            margin-top: 10px;
+        }
         .metrics-container {
             display: flex;
             flex-direction: column;
@@ -575,6 +917,10 @@ export class HistoricalMetricsView {
         .trend.up { color: var(--vscode-errorForeground); }
         .trend.down { color: var(--vscode-textLink-foreground); }
         .trend.stable { color: var(--vscode-descriptionForeground); }
+        .metric-stats.run-details {
+            margin-top: 0;
+            margin-bottom: 8px;
+        }
         .combined-metrics {
             display: grid;
             grid-template-columns: 1fr 1fr;
@@ -590,6 +936,58 @@ export class HistoricalMetricsView {
             font-weight: bold;
             margin-bottom: 4px;
         }
+        .query-breakdown {
+            margin-top: 15px;
+            border-top: 1px solid var(--vscode-input-border);
+            padding-top: 10px;
+        }
+        .query-row {
+            display: grid;
+            grid-template-columns: 2fr 1fr 2fr 2fr;
+            gap: 10px;
+            font-size: 12px;
+            padding: 2px 0;
+        }
+        .query-row.header {
+            color: var(--vscode-descriptionForeground);
+        }
+        .wait-breakdown {
+            margin-top: 15px;
+            border-top: 1px solid var(--vscode-input-border);
+            padding-top: 10px;
+        }
+        .wait-row {
+            display: grid;
+            grid-template-columns: 3fr 2fr 1fr 2fr;
+            gap: 10px;
+            font-size: 12px;
+            padding: 2px 0;
+        }
+        .wait-row.header {
+            color: var(--vscode-descriptionForeground);
+        }
+        .wait-type {
+            font-family: var(--vscode-editor-font-family);
+        }
+        .blocking-counts {
+            margin-top: 15px;
+            border-top: 1px solid var(--vscode-input-border);
+            padding-top: 10px;
+            font-size: 12px;
+        }
+        .blocking-count.deadlocks { color: var(--vscode-errorForeground); }
+        .assertions {
+            margin-top: 15px;
+            border-top: 1px solid var(--vscode-input-border);
+            padding-top: 10px;
+            font-size: 12px;
+        }
+        .assertion.passed { color: var(--vscode-testing-iconPassed, var(--vscode-textLink-foreground)); }
+        .assertion.failed { color: var(--vscode-errorForeground); }
+        .assertion-actual {
+            color: var(--vscode-descriptionForeground);
+            margin-left: 6px;
+        }
         .empty-state {
             text-align: center;
             padding: 40px;
@@ -600,7 +998,10 @@ export class HistoricalMetricsView {
 
     private getHistoricalMetricsBody(): string {
         return `
-    <h2>Historical Metrics</h2>
+    <div class="header">
+        <h2>Historical Metrics</h2>
+        <button class="btn" id="compareRunsBtn" title="Compare a baseline run with other runs">Compare Runs...</button>
+    </div>
     <div id="metricsContainer" class="metrics-container">
         <div class="empty-state">Waiting for stress test data...</div>
     </div>
@@ -643,6 +1044,12 @@ export class HistoricalMetricsView {
         if (this.executionMetricsCallback) {
             this.websocketClient.offExecutionMetrics(this.executionMetricsCallback);
         }
+        if (this.executionPlanCallback) {
+            this.websocketClient.offExecutionPlan(this.executionPlanCallback);
+        }
+        if (this.waitStatisticsCallback) {
+            this.websocketClient.offWaitStatistics(this.waitStatisticsCallback);
+        }
         this.panel?.dispose();
         this.panel = undefined;
         this.executionSummaries.clear();
@@ -1,8 +1,19 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { WebSocketClient, ExtendedEventData, ExecutionBoundary } from '../services/websocketClient';
+import { WebSocketClient, ExtendedEventData, ExecutionBoundary, isBlockedProcessReport, isDeadlockReport, LoadLevel } from '../services/websocketClient';
 import { ILogger, Logger } from '../services/logger';
+import { LatencyHistogram } from '../services/latencyHistogram';
+import { readBatchCompleted } from '../services/runMetrics';
+import { RunExport, createRunExportFiles } from '../services/runExport';
+import { RunReportCharts, RunReportEnvironment, renderRunReport } from '../services/runReport';
+import { StressTestConfiguration } from '../services/storage';
+import { ConnectionStorageService } from '../services/connectionStorageService';
+import { HttpClient } from '../services/httpClient';
+import { ExtensionHostEnvironment, getConfiguredBackendUrl } from '../services/extensionHostEnvironment';
+
+// How long a report waits for the webview to send the chart images
+const CHART_CAPTURE_TIMEOUT_MS = 5000;
 
 interface ExtendedEventDataPoint {
     timestamp: number;
@@ -19,6 +30,8 @@ interface ExtendedEventDataPoint {
 
 interface ExecutionSummary {
     executionNumber: number;
+    queryName?: string; // Scenario query run by this execution
+    parameters?: { [name: string]: string | null }; // Values bound to @param placeholders
     startTime: number;
     endTime?: number;
     events: ExtendedEventDataPoint[];
@@ -35,18 +48,50 @@ interface ExecutionSummary {
     avgRowCount?: number;
 }
 
+// Deadlock or blocked process report, drawn as a marker on the timeline
+interface BlockingMarker {
+    timestampMs: number;
+    eventName: 'xml_deadlock_report' | 'blocked_process_report';
+    executionNumber: number;
+    blockedDurationMs?: number; // How long the blocked session had waited, for blocked process reports
+}
+
+// Per scenario query averages, correlated to executions by executionNumber
+interface QueryBreakdown {
+    queryName: string;
+    executionCount: number;
+    avgDuration?: number; // in ms
+    avgLogicalReads?: number;
+    avgWrites?: number;
+    avgCpuTime?: number; // in ms
+}
+
 export class PerformanceGraph {
     private panel: vscode.WebviewPanel | undefined;
     private extendedEventDataCallback: ((data: ExtendedEventData) => void) | null = null;
     private executionBoundaryCallback: ((boundary: ExecutionBoundary) => void) | null = null;
+    private loadLevelCallback: ((loadLevel: LoadLevel) => void) | null = null;
     private eventDataPoints: ExtendedEventDataPoint[] = [];
     private executionBoundaries: ExecutionBoundary[] = [];
     private executionSummaries: Map<number, ExecutionSummary> = new Map();
+    private executionQueryNames: Map<number, string> = new Map();
+    private executionParameters: Map<number, { [name: string]: string | null }> = new Map();
+    // Concurrency changes of the running test, overlaid on the chart
+    private loadLevels: { timestampMs: number; concurrency: number }[] = [];
+    private blockingMarkers: BlockingMarker[] = [];
+    // Every event name seen in the run, offered by the chart's event picker
+    private eventNames: Set<string> = new Set();
+    // Every duration of the run, including those beyond maxDataPoints, for percentiles and the latency histogram
+    private durationHistogram = new LatencyHistogram();
     private readonly maxDataPoints = 1000;
     private logger: ILogger;
     private selectedConnectionId: string | undefined;
     private isStressTestActive = false;
     private testStartTime: number | null = null;
+    private configuration: StressTestConfiguration | undefined;
+    private pendingChartCapture: ((charts: RunReportCharts | undefined) => void) | undefined;
+    private connectionStorage: ConnectionStorageService;
+    private httpClient: HttpClient;
 
     constructor(
         private context: vscode.ExtensionContext,
@@ -54,6 +99,8 @@ export class PerformanceGraph {
         logger?: ILogger
     ) {
         this.logger = logger || new Logger('SQL Stress Test - Performance Graph');
+        this.connectionStorage = new ConnectionStorageService(context, new ExtensionHostEnvironment(context));
+        this.httpClient = new HttpClient(getConfiguredBackendUrl(), this.logger);
         this.logger.log('PerformanceGraph initialized');
     }
 
@@ -81,6 +128,16 @@ export class PerformanceGraph {
             this.dispose();
         });
 
+        this.panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'exportRun') {
+                vscode.commands.executeCommand('sqlStressTest.exportRun');
+            } else if (message.command === 'generateReport') {
+                vscode.commands.executeCommand('sqlStressTest.generateReport');
+            } else if (message.command === 'chartImages') {
+                this.pendingChartCapture?.(message.charts);
+            }
+        });
+
         // Register for Extended Events data updates
         this.extendedEventDataCallback = (data: ExtendedEventData) => {
             this.logger.log('ExtendedEventData received in PerformanceGraph', { 
@@ -109,15 +166,22 @@ export class PerformanceGraph {
             this.updateChart();
         };
 
+        this.loadLevelCallback = (loadLevel: LoadLevel) => {
+            this.logger.log('LoadLevel received in PerformanceGraph', { concurrency: loadLevel.concurrency });
+            this.loadLevels.push({ timestampMs: loadLevel.timestampMs, concurrency: loadLevel.concurrency });
+            this.updateChart();
+        };
+
         this.websocketClient.onExtendedEventData(this.extendedEventDataCallback);
         this.websocketClient.onExecutionBoundary(this.executionBoundaryCallback);
+        this.websocketClient.onLoadLevel(this.loadLevelCallback);
         this.logger.log('Performance graph panel opened and registered for Extended Events updates', { 
             connectionId,
             isStressTestActive: this.isStressTestActive 
         });
     }
 
-    startStressTest(): void {
+    startStressTest(configuration?: StressTestConfiguration): void {
         this.logger.log('PerformanceGraph.startStressTest() called', { 
             previousState: this.isStressTestActive,
             eventDataPointsCount: this.eventDataPoints.length,
@@ -125,9 +189,16 @@ export class PerformanceGraph {
         });
         this.isStressTestActive = true;
         this.testStartTime = Date.now();
+        this.configuration = configuration;
         this.eventDataPoints = [];
         this.executionBoundaries = [];
         this.executionSummaries.clear();
+        this.executionQueryNames.clear();
+        this.executionParameters.clear();
+        this.loadLevels = [];
+        this.blockingMarkers = [];
+        this.eventNames.clear();
+        this.durationHistogram = new LatencyHistogram();
         this.logger.log('Stress test started - clearing previous data', { 
             testStartTime: this.testStartTime,
             isStressTestActive: this.isStressTestActive 
@@ -157,6 +228,175 @@ export class PerformanceGraph {
         this.logger.log('Stress test stopped', { isStressTestActive: this.isStressTestActive });
     }
 
+    /**
+     * Every record collected for the current run, or undefined when nothing has been collected.
+     * Events are taken from the execution summaries, which keep all of them unlike the capped chart data.
+     */
+    getRunExport(): RunExport | undefined {
+        if (this.executionSummaries.size === 0 && this.executionBoundaries.length === 0) {
+            return undefined;
+        }
+
+        const executionIds = new Map(this.executionBoundaries.map(b => [b.executionNumber, b.executionId]));
+        const summaries = Array.from(this.executionSummaries.values()).sort((a, b) => a.executionNumber - b.executionNumber);
+        const executions = summaries.map(({ events, ...summary }) => ({
+            ...summary,
+            executionId: executionIds.get(summary.executionNumber),
+            eventCount: events.length
+        }));
+        const events = summaries.flatMap(summary => summary.events).sort((a, b) => a.timestamp - b.timestamp);
+
+        return {
+            metadata: {
+                connectionId: this.selectedConnectionId,
+                configuration: this.configuration,
+                testStartTime: this.testStartTime ?? undefined,
+                exportedAt: Date.now(),
+                executionCount: executions.length,
+                eventCount: events.length,
+                durationPercentiles: this.durationHistogram.count > 0 ? this.durationHistogram.percentiles() : undefined
+            },
+            executions,
+            events,
+            boundaries: [...this.executionBoundaries],
+            loadLevels: [...this.loadLevels]
+        };
+    }
+
+    /**
+     * Writes the current run to a JSON file and, next to it, CSV files of its executions and events.
+     */
+    async exportRun(): Promise<void> {
+        const run = this.getRunExport();
+        if (!run) {
+            vscode.window.showInformationMessage('There is no stress test run to export yet.');
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const startTime = new Date(run.metadata.testStartTime ?? run.metadata.exportedAt);
+        const fileName = `stress-run-${startTime.toISOString().replace(/[:.]/g, '-')}.json`;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: { 'Stress test runs': ['json'] },
+            saveLabel: 'Export Run'
+        });
+        if (!uri) {
+            return;
+        }
+
+        const basePath = uri.path.replace(/\.json$/i, '');
+        try {
+            for (const file of createRunExportFiles(run)) {
+                await vscode.workspace.fs.writeFile(uri.with({ path: basePath + file.suffix }), Buffer.from(file.content, 'utf8'));
+            }
+            this.logger.log('Exported stress test run', {
+                path: uri.fsPath,
+                executions: run.metadata.executionCount,
+                events: run.metadata.eventCount
+            });
+            vscode.window.showInformationMessage(
+                `Exported ${run.metadata.executionCount} executions and ${run.metadata.eventCount} events to ${vscode.workspace.asRelativePath(uri)}`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to export stress test run', error);
+            vscode.window.showErrorMessage(`Failed to export stress test run: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Writes the current run to a single offline HTML file with its configuration, environment,
+     * summary statistics, the charts as images and the slowest executions.
+     */
+    async generateReport(): Promise<void> {
+        const run = this.getRunExport();
+        if (!run) {
+            vscode.window.showInformationMessage('There is no stress test run to report on yet.');
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const startTime = new Date(run.metadata.testStartTime ?? run.metadata.exportedAt);
+        const fileName = `stress-report-${startTime.toISOString().replace(/[:.]/g, '-')}.html`;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: { 'HTML reports': ['html'] },
+            saveLabel: 'Generate Report'
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            const [environment, charts] = await Promise.all([this.getReportEnvironment(run), this.captureCharts()]);
+            const html = renderRunReport({ run, environment, charts, generatedAt: Date.now() });
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(html, 'utf8'));
+            this.logger.log('Generated stress test report', { path: uri.fsPath, hasCharts: charts !== undefined });
+            const action = await vscode.window.showInformationMessage(
+                `Report written to ${vscode.workspace.asRelativePath(uri)}`, 'Open in Browser');
+            if (action === 'Open in Browser') {
+                await vscode.env.openExternal(uri);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to generate stress test report', error);
+            vscode.window.showErrorMessage(`Failed to generate stress test report: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Server details of the run's connection. The report is still written when the server
+     * cannot be reached; it then only shows what is stored with the connection.
+     */
+    private async getReportEnvironment(run: RunExport): Promise<RunReportEnvironment> {
+        const environment: RunReportEnvironment = {
+            database: run.metadata.configuration?.database,
+            vscodeVersion: vscode.version
+        };
+        const connection = run.metadata.connectionId ? await this.connectionStorage.getConnection(run.metadata.connectionId) : undefined;
+        if (!connection) {
+            return environment;
+        }
+
+        environment.connectionName = connection.name;
+        environment.server = connection.server;
+        environment.database = environment.database ?? connection.database;
+        try {
+            const result = await this.httpClient.testConnection(connection);
+            if (result.success) {
+                environment.serverName = result.serverName;
+                environment.serverVersion = result.serverVersion;
+                environment.authenticatedUser = result.authenticatedUser;
+            } else {
+                this.logger.warn('Could not read the server version for the report', { error: result.error });
+            }
+        } catch (error) {
+            this.logger.warn('Could not read the server version for the report', error);
+        }
+        return environment;
+    }
+
+    // Asks the webview for its charts as images; resolves without charts if it does not answer in time
+    private captureCharts(): Promise<RunReportCharts | undefined> {
+        const panel = this.panel;
+        if (!panel) {
+            return Promise.resolve(undefined);
+        }
+        return new Promise(resolve => {
+            const timeout = setTimeout(() => {
+                this.pendingChartCapture = undefined;
+                this.logger.warn('The performance graph did not send its charts in time');
+                resolve(undefined);
+            }, CHART_CAPTURE_TIMEOUT_MS);
+            this.pendingChartCapture = charts => {
+                clearTimeout(timeout);
+                this.pendingChartCapture = undefined;
+                resolve(charts);
+            };
+            panel.webview.postMessage({ command: 'captureCharts' });
+        });
+    }
+
     private addEventDataPoint(data: ExtendedEventData): void {
         this.logger.log('Adding event data point', { 
             eventName: data.eventName,
@@ -164,18 +404,31 @@ export class PerformanceGraph {
             currentDataPointsCount: this.eventDataPoints.length 
         });
         const timestamp = new Date(data.timestamp).getTime();
+
+        // Reports describe other sessions too, so they are markers rather than metrics of the execution
+        if (isDeadlockReport(data) || isBlockedProcessReport(data)) {
+            const duration = isBlockedProcessReport(data) ? Number(data.eventFields.duration) : NaN;
+            this.blockingMarkers.push({
+                timestampMs: timestamp,
+                eventName: data.eventName,
+                executionNumber: data.executionNumber,
+                blockedDurationMs: Number.isFinite(duration) ? duration / 1000 : undefined
+            });
+            return;
+        }
         const point: ExtendedEventDataPoint = {
             timestamp,
             eventName: data.eventName,
             executionNumber: data.executionNumber
         };
 
-        // Extract common fields from eventFields
+        // Extract common fields from eventFields; the events report duration and cpu_time in microseconds
         if (data.eventFields) {
-            point.duration = data.eventFields['duration'] || data.eventFields['total_duration'];
+            const sample = readBatchCompleted(data);
+            point.duration = sample.duration;
             point.logicalReads = data.eventFields['logical_reads'] || data.eventFields['reads'];
             point.writes = data.eventFields['writes'];
-            point.cpuTime = data.eventFields['cpu_time'];
+            point.cpuTime = sample.cpuTime;
             point.physicalReads = data.eventFields['physical_reads'];
             point.rowCount = data.eventFields['row_count'];
             
@@ -198,6 +451,11 @@ export class PerformanceGraph {
             this.logger.log('WARNING: No eventFields in ExtendedEventData');
         }
 
+        if (data.eventName === 'sql_batch_completed' && point.duration !== undefined) {
+            this.durationHistogram.record(point.duration);
+        }
+
+        this.eventNames.add(data.eventName);
         this.eventDataPoints.push(point);
         if (this.eventDataPoints.length > this.maxDataPoints) {
             this.eventDataPoints.shift();
@@ -213,6 +471,8 @@ export class PerformanceGraph {
         if (!summary) {
             summary = {
                 executionNumber: data.executionNumber,
+                queryName: this.executionQueryNames.get(data.executionNumber),
+                parameters: this.executionParameters.get(data.executionNumber),
                 startTime: timestamp,
                 events: []
             };
@@ -279,6 +539,22 @@ export class PerformanceGraph {
             currentBoundariesCount: this.executionBoundaries.length 
         });
         this.executionBoundaries.push(boundary);
+
+        // Boundaries may arrive before or after the events of the same execution
+        if (boundary.queryName) {
+            this.executionQueryNames.set(boundary.executionNumber, boundary.queryName);
+            const summary = this.executionSummaries.get(boundary.executionNumber);
+            if (summary) {
+                summary.queryName = boundary.queryName;
+            }
+        }
+        if (boundary.parameters) {
+            this.executionParameters.set(boundary.executionNumber, boundary.parameters);
+            const summary = this.executionSummaries.get(boundary.executionNumber);
+            if (summary) {
+                summary.parameters = boundary.parameters;
+            }
+        }
         
         // Update execution summary end time
         if (!boundary.isStart && boundary.endTime) {
@@ -318,6 +594,11 @@ export class PerformanceGraph {
             eventData: batchCompletedEvents,
             boundaries: this.executionBoundaries,
             summaries: Array.from(this.executionSummaries.values()),
+            queryBreakdown: this.calculateQueryBreakdown(),
+            loadLevels: this.loadLevels,
+            blockingMarkers: this.blockingMarkers,
+            eventNames: Array.from(this.eventNames).sort(),
+            latencyDistribution: this.durationHistogram.count > 0 ? this.durationHistogram.toDistribution() : undefined,
             testStartTime: this.testStartTime
         });
         
@@ -328,6 +609,32 @@ export class PerformanceGraph {
         });
     }
 
+    private calculateQueryBreakdown(): QueryBreakdown[] {
+        const summariesByQuery = new Map<string, ExecutionSummary[]>();
+        this.executionSummaries.forEach(summary => {
+            if (!summary.queryName) {
+                return;
+            }
+            const summaries = summariesByQuery.get(summary.queryName) || [];
+            summaries.push(summary);
+            summariesByQuery.set(summary.queryName, summaries);
+        });
+
+        const average = (summaries: ExecutionSummary[], key: 'avgDuration' | 'avgLogicalReads' | 'avgWrites' | 'avgCpuTime') => {
+            const values = summaries.map(s => s[key]).filter((v): v is number => v !== undefined);
+            return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+        };
+
+        return Array.from(summariesByQuery.entries()).map(([queryName, summaries]) => ({
+            queryName,
+            executionCount: summaries.length,
+            avgDuration: average(summaries, 'avgDuration'),
+            avgLogicalReads: average(summaries, 'avgLogicalReads'),
+            avgWrites: average(summaries, 'avgWrites'),
+            avgCpuTime: average(summaries, 'avgCpuTime')
+        }));
+    }
+
     private getPerformanceGraphStyles(): string {
         return `
         * {
@@ -404,6 +711,61 @@ export class PerformanceGraph {
             color: var(--vscode-textLink-foreground);
         }
         
+        .latency-distribution {
+            padding: 12px;
+            background: var(--vscode-editor-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+        }
+        
+        .latency-distribution .section-title {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+            margin-bottom: 8px;
+        }
+        
+        .histogram-container {
+            position: relative;
+            height: 220px;
+            width: 100%;
+        }
+        
+        .query-breakdown {
+            padding: 12px;
+            background: var(--vscode-editor-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.1);
+        }
+        
+        .query-breakdown table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 12px;
+        }
+        
+        .query-breakdown th,
+        .query-breakdown td {
+            padding: 4px 8px;
+            text-align: right;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        
+        .query-breakdown th:first-child,
+        .query-breakdown td:first-child {
+            text-align: left;
+        }
+        
+        .query-breakdown th {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+        
         .controls-panel {
             display: flex;
             flex-wrap: wrap;
@@ -452,6 +814,41 @@ export class PerformanceGraph {
             margin: 0;
         }
         
+        .chart-options {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 8px;
+            font-size: 12px;
+        }
+        
+        .chart-options select {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            padding: 4px;
+            font-size: 12px;
+        }
+        
+        .option-label {
+            margin-left: 8px;
+        }
+        
+        .event-names {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 8px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .event-name {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            color: var(--vscode-foreground);
+            cursor: pointer;
+        }
+        
         .metric-color {
             width: 12px;
             height: 12px;
@@ -527,6 +924,8 @@ export class PerformanceGraph {
             <div>
                 <button class="btn btn-secondary" id="resetZoomBtn" title="Reset Zoom">Reset Zoom</button>
                 <button class="btn btn-secondary" id="exportBtn" title="Export Chart">Export</button>
+                <button class="btn btn-secondary" id="generateReportBtn" title="Write an HTML report of the run that opens in any browser">Generate Report...</button>
+                <button class="btn btn-secondary" id="exportRunBtn" title="Export every execution and event of the run to CSV and JSON">Export Run...</button>
             </div>
         </div>
         
@@ -543,12 +942,30 @@ export class PerformanceGraph {
                 <div class="stat-label">Avg Duration</div>
                 <div class="stat-value" id="statAvgDuration">0 ms</div>
             </div>
+            <div class="stat-card">
+                <div class="stat-label">P50 Duration</div>
+                <div class="stat-value" id="statP50">-</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-label">P90 Duration</div>
+                <div class="stat-value" id="statP90">-</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-label">P95 Duration</div>
+                <div class="stat-value" id="statP95">-</div>
+            </div>
+            <div class="stat-card">
+                <div class="stat-label">P99 Duration</div>
+                <div class="stat-value" id="statP99">-</div>
+            </div>
             <div class="stat-card">
                 <div class="stat-label">Total Time</div>
                 <div class="stat-value" id="statTotalTime">0s</div>
             </div>
         </div>
         
+        <div class="query-breakdown" id="queryBreakdown" style="display: none;"></div>
+        
         <div class="controls-panel">
             <div class="metric-group">
                 <div class="metric-checkbox">
@@ -581,6 +998,24 @@ export class PerformanceGraph {
                     <input type="checkbox" id="showRowCount">
                     <label for="showRowCount">Row Count</label>
                 </div>
+                <div class="metric-checkbox">
+                    <div class="metric-color" style="background: rgb(201, 203, 207);"></div>
+                    <input type="checkbox" id="showConcurrency" checked>
+                    <label for="showConcurrency">Concurrency</label>
+                </div>
+            </div>
+            <div class="chart-options">
+                <label for="chartAggregation">Plot</label>
+                <select id="chartAggregation" title="Plot every execution, or the average of the executions started in each time bucket">
+                    <option value="0" selected>Per execution</option>
+                    <option value="1">Per 1 s</option>
+                    <option value="5">Per 5 s</option>
+                    <option value="10">Per 10 s</option>
+                    <option value="30">Per 30 s</option>
+                    <option value="60">Per 1 min</option>
+                </select>
+                <span class="option-label">Events</span>
+                <div class="event-names" id="chartEventNames" title="Extended Events whose fields are plotted">No events yet</div>
             </div>
         </div>
         
@@ -588,6 +1023,13 @@ export class PerformanceGraph {
             <canvas id="performanceChart"></canvas>
         </div>
         
+        <div class="latency-distribution" id="latencyDistribution" style="display: none;">
+            <div class="section-title">Latency Distribution</div>
+            <div class="histogram-container">
+                <canvas id="latencyHistogramChart"></canvas>
+            </div>
+        </div>
+        
         <div class="status-bar">
             <span id="statusText">Ready</span>
             <span id="timeRangeText">-</span>
@@ -632,10 +1074,14 @@ export class PerformanceGraph {
         if (this.executionBoundaryCallback) {
             this.websocketClient.offExecutionBoundary(this.executionBoundaryCallback);
         }
+        if (this.loadLevelCallback) {
+            this.websocketClient.offLoadLevel(this.loadLevelCallback);
+        }
         this.panel?.dispose();
         this.panel = undefined;
         this.eventDataPoints = [];
         this.executionBoundaries = [];
         this.executionSummaries.clear();
+        this.durationHistogram = new LatencyHistogram();
     }
 }
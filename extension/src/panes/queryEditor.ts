@@ -1,43 +1,68 @@
 import * as vscode from 'vscode';
 import { WebSocketClient } from '../services/websocketClient';
-import { HttpClient } from '../services/httpClient';
+import { HttpClient, QueryParameter, StressTestRequest } from '../services/httpClient';
+import { ExtensionHostEnvironment, getConfiguredBackendUrl } from '../services/extensionHostEnvironment';
 import { StorageService } from '../services/storage';
 import { ILogger, Logger } from '../services/logger';
 import { QueryEditorWebviewManager } from './queryEditor/QueryEditorWebviewManager';
 import { QueryExecutionHandler } from './queryEditor/QueryExecutionHandler';
 import { StressTestHandler } from './queryEditor/StressTestHandler';
 import { QueryEditorUI } from './queryEditor/QueryEditorUI';
+import { ParameterCsvLoader } from './queryEditor/ParameterCsvLoader';
+import { DEFINITION_FILE_SUFFIX, serializeStressTestDefinition } from '../stressTestDefinitions/StressTestDefinition';
+import { parseAssertion } from '../services/runAssertions';
+
+/**
+ * Stress test settings posted by the webview: the backend request plus the
+ * assertions the Historical Metrics view checks when the run finishes.
+ */
+type StressTestMessage = StressTestRequest & { assertions?: string[] };
+
+/**
+ * A query, its parameter generators and the database to run it in, loaded into the
+ * editor in place of the default query, e.g. a generated procedure stress test.
+ */
+export interface QueryEditorDraft {
+    query: string;
+    parameters?: QueryParameter[];
+    database?: string;
+}
 
 export class QueryEditor {
     private webviewManager: QueryEditorWebviewManager;
     private queryExecutionHandler: QueryExecutionHandler;
     private stressTestHandler: StressTestHandler;
     private ui: QueryEditorUI;
+    private parameterCsvLoader: ParameterCsvLoader;
     private httpClient: HttpClient;
     private storageService: StorageService;
     private logger: ILogger;
     private selectedConnectionId: string | undefined;
+    private draft: QueryEditorDraft | undefined;
 
     constructor(
         private context: vscode.ExtensionContext,
         private websocketClient: WebSocketClient,
-        logger?: ILogger
+        logger?: ILogger,
+        stressTestHandler?: StressTestHandler
     ) {
         this.logger = logger || new Logger('SQL Stress Test - Query Editor');
-        this.httpClient = new HttpClient(undefined, this.logger);
-        this.storageService = new StorageService(context);
+        this.httpClient = new HttpClient(getConfiguredBackendUrl(), this.logger);
+        this.storageService = new StorageService(context, new ExtensionHostEnvironment(context));
         
         // Create extracted services
         this.webviewManager = new QueryEditorWebviewManager(context, this.logger);
-        this.queryExecutionHandler = new QueryExecutionHandler(this.httpClient, this.logger);
-        this.stressTestHandler = new StressTestHandler(this.httpClient, this.logger);
+        this.queryExecutionHandler = new QueryExecutionHandler(this.httpClient, this.webviewManager, this.logger);
+        this.stressTestHandler = stressTestHandler || new StressTestHandler(this.httpClient, this.websocketClient, this.logger);
         this.ui = new QueryEditorUI(context, this.logger);
+        this.parameterCsvLoader = new ParameterCsvLoader(this.logger);
         
         this.logger.log('QueryEditor initialized');
     }
 
-    show(connectionId?: string): void {
+    show(connectionId?: string, draft?: QueryEditorDraft): void {
         this.selectedConnectionId = connectionId;
+        this.draft = draft;
         
         const panel = this.webviewManager.getPanel();
         if (panel) {
@@ -61,18 +86,20 @@ export class QueryEditor {
                     await this.queryExecutionHandler.executeQuery(message.connectionId, message.query, message.database);
                     break;
                 case 'executeStressTest':
-                    try {
-                        const response = await this.stressTestHandler.executeStressTest(
-                            message.connectionId,
-                            message.query,
-                            message.parallelExecutions,
-                            message.totalExecutions,
-                            message.database
-                        );
+                    if (this.stressTestHandler.isRunning()) {
+                        // The handler is shared with the definition runner, which may have started a run
                         this.webviewManager.postMessage({
                             command: 'stressTestResult',
-                            data: response
+                            data: { success: false, error: 'Another stress test is already running' }
                         });
+                        break;
+                    }
+                    try {
+                        this.validateAssertions(message.assertions);
+                        const response = await this.stressTestHandler.executeStressTest(message);
+                        this.webviewManager.postMessage(response.cancelled
+                            ? { command: 'stressTestStopped' }
+                            : { command: 'stressTestResult', data: response });
                     } catch (error) {
                         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                         this.webviewManager.postMessage({
@@ -84,11 +111,25 @@ export class QueryEditor {
                         });
                     }
                     break;
-                case 'stopStressTest':
-                    this.stressTestHandler.stopStressTest();
-                    this.webviewManager.postMessage({
-                        command: 'stressTestStopped'
-                    });
+                case 'stopStressTest': {
+                    // Resolves only after the backend confirms the in-flight executions were cancelled;
+                    // the running executeStressTest then reports stressTestStopped
+                    const stopResult = await this.stressTestHandler.stopStressTest();
+                    if (!stopResult) {
+                        this.webviewManager.postMessage({ command: 'stressTestStopped' });
+                    } else if (!stopResult.success) {
+                        this.webviewManager.postMessage({
+                            command: 'stressTestStopFailed',
+                            error: stopResult.error || 'Unknown error'
+                        });
+                    }
+                    break;
+                }
+                case 'saveStressTestDefinition':
+                    await this.saveStressTestDefinition(message);
+                    break;
+                case 'loadParameterCsv':
+                    await this.loadParameterCsv(message.parameterName);
                     break;
                 case 'getConnections':
                     await this.sendConnections();
@@ -116,6 +157,96 @@ export class QueryEditor {
             data: connections,
             selectedConnectionId: this.selectedConnectionId
         });
+
+        // Sent after the connection so the webview can pick the database once it is listed
+        if (this.draft) {
+            this.webviewManager.postMessage({ command: 'loadDraft', ...this.draft });
+        }
+    }
+
+    /**
+     * Saves the webview's stress test settings as a *.sqlstress.json file and opens it.
+     * The connection is saved by name so the file works in other workspaces.
+     */
+    private async saveStressTestDefinition(message: StressTestMessage): Promise<void> {
+        try {
+            this.validateAssertions(message.assertions);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(`Failed to save stress test definition: ${errorMessage}`);
+            return;
+        }
+
+        const connection = await this.storageService.getConnection(message.connectionId);
+        if (!connection) {
+            vscode.window.showErrorMessage('Connection not found');
+            return;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const fileName = connection.name.replace(/[^A-Za-z0-9_-]+/g, '-').toLowerCase() + DEFINITION_FILE_SUFFIX;
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, fileName) : undefined,
+            filters: { 'Stress test definitions': ['sqlstress.json'] },
+            saveLabel: 'Save Definition'
+        });
+        if (!uri) {
+            return;
+        }
+
+        const content = serializeStressTestDefinition({
+            connection: connection.name,
+            database: message.database,
+            query: message.query,
+            queries: message.queries,
+            parameters: message.parameters,
+            parallelExecutions: message.parallelExecutions,
+            totalExecutions: message.totalExecutions,
+            loadProfile: message.loadProfile,
+            planCapture: message.planCapture,
+            assertions: message.assertions
+        });
+
+        try {
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+            this.logger.log('Saved stress test definition', { path: uri.fsPath });
+            this.webviewManager.postMessage({ command: 'stressTestDefinitionSaved', fileName: vscode.workspace.asRelativePath(uri) });
+            await vscode.window.showTextDocument(uri, { viewColumn: vscode.ViewColumn.One, preview: false });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to save stress test definition', error);
+            vscode.window.showErrorMessage(`Failed to save stress test definition: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Throws AssertionParseError for the first malformed assertion, before anything is started or saved.
+     */
+    private validateAssertions(assertions?: string[]): void {
+        (assertions ?? []).forEach(assertion => parseAssertion(assertion));
+    }
+
+    private async loadParameterCsv(parameterName: string): Promise<void> {
+        try {
+            const csv = await this.parameterCsvLoader.pickCsv();
+            if (!csv) {
+                return;
+            }
+            this.webviewManager.postMessage({
+                command: 'parameterCsvLoaded',
+                parameterName,
+                fileName: csv.fileName,
+                columns: csv.columns
+            });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to load parameter CSV', error);
+            this.webviewManager.postMessage({
+                command: 'parameterCsvFailed',
+                parameterName,
+                error: errorMessage
+            });
+        }
     }
 
     private async getDatabases(connectionId: string): Promise<void> {
@@ -127,8 +258,7 @@ export class QueryEditor {
         this.logger.log('Fetching databases', { connectionId });
         
         try {
-            const connections = await this.storageService.loadConnections();
-            const connection = connections.find(c => c.id === connectionId);
+            const connection = await this.storageService.getConnection(connectionId);
             
             if (!connection) {
                 this.logger.warn('Connection not found for database fetch', { connectionId });
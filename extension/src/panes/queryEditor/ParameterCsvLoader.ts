@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ILogger } from '../../services/logger';
+
+export interface CsvColumn {
+    name: string;
+    values: string[];
+}
+
+export interface ParameterCsv {
+    fileName: string;
+    columns: CsvColumn[];
+}
+
+/**
+ * Parses CSV text into rows of fields. Supports quoted fields with embedded
+ * separators, quotes ("") and line breaks.
+ */
+export function parseCsv(content: string): string[][] {
+    // Excel writes a byte order mark at the start of UTF-8 files
+    const text = content.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines carry no values
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Turns parsed CSV rows into columns. The first row holds the column names;
+ * empty cells are skipped so every value can be bound to a parameter.
+ */
+export function toCsvColumns(rows: string[][]): CsvColumn[] {
+    if (rows.length === 0) {
+        return [];
+    }
+
+    const [header, ...dataRows] = rows;
+    return header.map((name, index) => ({
+        name: name.trim() || `Column ${index + 1}`,
+        values: dataRows
+            .map(r => r[index])
+            .filter((value): value is string => value !== undefined && value.trim() !== '')
+    }));
+}
+
+/**
+ * Lets the user pick the CSV file a csvList parameter generator picks its values from.
+ * Single Responsibility: CSV parameter value loading only.
+ */
+export class ParameterCsvLoader {
+    constructor(private logger: ILogger) {}
+
+    /**
+     * Prompts for a CSV file and returns its columns, or undefined when the user cancels.
+     */
+    async pickCsv(): Promise<ParameterCsv | undefined> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Use Values',
+            filters: { 'CSV files': ['csv'], 'All files': ['*'] }
+        });
+        if (!uris || uris.length === 0) {
+            return undefined;
+        }
+
+        const filePath = uris[0].fsPath;
+        const text = await fs.promises.readFile(filePath, 'utf8');
+        const columns = toCsvColumns(parseCsv(text));
+        if (columns.every(column => column.values.length === 0)) {
+            throw new Error(`${path.basename(filePath)} has no values below its header row`);
+        }
+
+        this.logger.log('Loaded parameter CSV', {
+            filePath,
+            columns: columns.map(column => ({ name: column.name, valueCount: column.values.length }))
+        });
+        return { fileName: path.basename(filePath), columns };
+    }
+}
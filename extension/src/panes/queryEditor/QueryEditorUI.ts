@@ -58,6 +58,190 @@ export class QueryEditorUI {
             height: 300px;
             border: 1px solid var(--vscode-input-border);
         }
+        #resultStatus {
+            margin-top: 10px;
+            margin-bottom: 5px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        #resultStatus.error {
+            color: var(--vscode-errorForeground);
+        }
+        #resultGrid {
+            position: relative;
+            height: 300px;
+            min-height: 100px;
+            resize: vertical;
+            overflow: auto;
+            border: 1px solid var(--vscode-input-border);
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+        }
+        .result-grid-header {
+            position: sticky;
+            top: 0;
+            z-index: 1;
+            display: flex;
+            background-color: var(--vscode-editorGroupHeader-tabsBackground);
+            font-weight: bold;
+        }
+        .result-grid-body {
+            position: relative;
+        }
+        .result-grid-row {
+            position: absolute;
+            left: 0;
+            display: flex;
+        }
+        .result-grid-row:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        .result-grid-cell {
+            flex: none;
+            box-sizing: border-box;
+            padding: 3px 6px;
+            overflow: hidden;
+            white-space: nowrap;
+            text-overflow: ellipsis;
+            border-right: 1px solid var(--vscode-editorGroup-border);
+            border-bottom: 1px solid var(--vscode-editorGroup-border);
+        }
+        .result-grid-cell.sortable {
+            cursor: pointer;
+        }
+        .result-grid-cell.row-number {
+            color: var(--vscode-editorLineNumber-foreground);
+            text-align: right;
+        }
+        .result-grid-cell.null {
+            color: var(--vscode-descriptionForeground);
+            font-style: italic;
+        }
+        #scenarioEditor {
+            margin-bottom: 10px;
+        }
+        #scenarioToolbar {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 5px;
+        }
+        .scenario-row {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            padding: 2px 0;
+            font-size: 12px;
+        }
+        .scenario-name {
+            min-width: 120px;
+            font-weight: bold;
+        }
+        .scenario-weight {
+            width: 60px;
+            padding: 2px;
+        }
+        .scenario-percentage {
+            min-width: 50px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .scenario-preview {
+            flex: 1;
+            overflow: hidden;
+            white-space: nowrap;
+            text-overflow: ellipsis;
+            font-family: var(--vscode-editor-font-family);
+        }
+        .scenario-empty {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        #loadProfileEditor {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 10px;
+        }
+        #loadProfile,
+        .load-profile-options {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            font-size: 12px;
+        }
+        .load-profile-number {
+            width: 70px;
+            margin-left: 5px;
+            padding: 2px;
+        }
+        .load-profile-hint {
+            color: var(--vscode-descriptionForeground);
+        }
+        #parameterEditor {
+            margin-bottom: 10px;
+        }
+        #assertionEditor {
+            display: flex;
+            gap: 10px;
+            align-items: flex-start;
+            margin-bottom: 10px;
+        }
+        #planCaptureEditor {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 10px;
+            font-size: 12px;
+        }
+        .plan-capture-number {
+            width: 70px;
+            margin-left: 5px;
+            padding: 2px;
+        }
+        #assertions {
+            flex: 1;
+            padding: 3px;
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+        }
+        #parameterToolbar {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            margin-bottom: 5px;
+        }
+        .parameter-row {
+            display: flex;
+            gap: 10px;
+            align-items: center;
+            padding: 2px 0;
+            font-size: 12px;
+        }
+        .parameter-name {
+            min-width: 120px;
+            font-weight: bold;
+            font-family: var(--vscode-editor-font-family);
+        }
+        .parameter-options {
+            display: flex;
+            flex: 1;
+            gap: 10px;
+            align-items: center;
+        }
+        .parameter-number {
+            width: 80px;
+            padding: 2px;
+        }
+        .parameter-lookup {
+            flex: 1;
+            padding: 2px;
+            font-family: var(--vscode-editor-font-family);
+        }
+        .parameter-file,
+        .parameter-empty {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
     `;
     }
 
@@ -85,19 +269,72 @@ export class QueryEditorUI {
             </label>
             <button id="stressTestBtn" style="padding: 5px 15px;">Run Stress Test</button>
             <button id="stopStressTestBtn" style="padding: 5px 15px; display: none;">Stop Run</button>
+            <button id="saveDefinitionBtn" style="padding: 5px 15px;" title="Save these settings as a *.sqlstress.json file">Save Definition</button>
+        </div>
+        <div id="loadProfileEditor">
+            <strong>Load Profile</strong>
+            <div id="loadProfile"></div>
+        </div>
+        <div id="scenarioEditor">
+            <div id="scenarioToolbar">
+                <strong>Scenario</strong>
+                <input type="text" id="scenarioQueryName" placeholder="Query name" style="width: 140px; padding: 3px;">
+                <label>
+                    Weight:
+                    <input type="number" id="scenarioQueryWeight" value="1" min="1" max="10000" style="width: 60px; margin-left: 5px; padding: 3px;">
+                </label>
+                <button id="addScenarioQueryBtn" title="Add the editor query to the scenario">Add Editor Query</button>
+            </div>
+            <div id="scenarioQueries"></div>
+        </div>
+        <div id="parameterEditor">
+            <div id="parameterToolbar">
+                <strong>Parameters</strong>
+                <button id="detectParametersBtn" title="Find the @param placeholders in the queries to run">Detect Parameters</button>
+            </div>
+            <div id="queryParameters"></div>
+        </div>
+        <div id="planCaptureEditor">
+            <strong>Execution Plans</strong>
+            <select id="planCaptureMode" title="Capture the actual execution plan of some executions">
+                <option value="">Off</option>
+                <option value="sample">Sample</option>
+                <option value="slowest">Slowest</option>
+            </select>
+            <label id="planSampleIntervalLabel" style="display: none;">
+                Every Nth execution:
+                <input type="number" id="planSampleInterval" class="plan-capture-number" value="10" min="1" max="100000">
+            </label>
+            <label id="planCountLabel" style="display: none;">
+                Plans:
+                <input type="number" id="planCount" class="plan-capture-number" value="5" min="1" max="100">
+            </label>
+        </div>
+        <div id="assertionEditor">
+            <strong>Assertions</strong>
+            <textarea id="assertions" rows="2" placeholder="One per line, e.g. p95 duration &lt; 200ms, error rate &lt; 1%, avg logical reads &lt; 5000"></textarea>
         </div>
         <div id="stressTestStatus" style="font-size: 12px; color: var(--vscode-descriptionForeground);"></div>
     </div>
     <div id="editor"></div>
+    <div id="resultStatus"></div>
+    <div id="resultGrid"></div>
     `;
     }
 
     private getScript(): string {
-        const scriptPath = path.join(this.context.extensionPath, 'webviews', 'queryEditor.js');
+        // Component modules must load first; queryEditor.js creates them on startup
+        return ['queryResultGrid.js', 'scenarioEditor.js', 'parameterEditor.js', 'loadProfileEditor.js', 'queryEditor.js']
+            .map(fileName => this.readScript(fileName))
+            .join('\n');
+    }
+
+    private readScript(fileName: string): string {
+        const scriptPath = path.join(this.context.extensionPath, 'webviews', fileName);
         try {
             return fs.readFileSync(scriptPath, 'utf8');
         } catch (error) {
-            this.logger.error('Failed to load queryEditor.js', error);
+            this.logger.error(`Failed to load ${fileName}`, error);
             return '// Error loading script';
         }
     }
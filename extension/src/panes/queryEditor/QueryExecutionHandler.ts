@@ -1,17 +1,19 @@
 import { HttpClient, QueryRequest, QueryResponse } from '../../services/httpClient';
 import { ILogger } from '../../services/logger';
+import { QueryEditorWebviewManager } from './QueryEditorWebviewManager';
 
 /**
- * Handles query execution operations.
+ * Handles query execution operations and posts results to the webview grid.
  * Single Responsibility: Query execution only.
  */
 export class QueryExecutionHandler {
     constructor(
         private httpClient: HttpClient,
+        private webviewManager: QueryEditorWebviewManager,
         private logger: ILogger
     ) {}
 
-    async executeQuery(connectionId: string, query: string, database?: string): Promise<void> {
+    async executeQuery(connectionId: string, query: string, database?: string): Promise<QueryResponse> {
         this.logger.log('Executing query', { connectionId, queryLength: query.length, database });
         const request: QueryRequest = {
             connectionId,
@@ -19,21 +21,28 @@ export class QueryExecutionHandler {
             database
         };
 
+        this.webviewManager.postMessage({ command: 'queryExecuting' });
+
+        let response: QueryResponse;
         try {
-            const response = await this.httpClient.executeQuery(request);
+            response = await this.httpClient.executeQuery(request);
             this.logger.log('Query execution completed', { 
                 success: response.success, 
                 rowCount: response.rowCount,
                 executionTimeMs: response.executionTimeMs 
             });
-            // Query results are no longer displayed
-            this.logger.log('Query executed successfully (results not displayed)', { 
-                rowCount: response.rowCount,
-                executionTimeMs: response.executionTimeMs 
-            });
         } catch (error) {
-            this.logger.error('Query execution failed (error not displayed)', error);
+            this.logger.error('Query execution failed', error);
+            response = {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            };
         }
+
+        this.webviewManager.postMessage({
+            command: 'queryResult',
+            data: response
+        });
+        return response;
     }
 }
-
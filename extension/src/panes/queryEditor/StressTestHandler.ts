@@ -1,87 +1,209 @@
 import * as vscode from 'vscode';
-import { HttpClient } from '../../services/httpClient';
+import { HttpClient, StressTestRequest, StressTestResponse } from '../../services/httpClient';
+import { StressTestConfiguration } from '../../services/storage';
+import { WebSocketClient } from '../../services/websocketClient';
 import { ILogger } from '../../services/logger';
 
 /**
  * Handles stress test execution operations.
+ * The backend starts the test and returns its ID immediately; the final result arrives
+ * over the WebSocket, or from the cancel request when the test is stopped. A run whose
+ * WebSocket drops before the result arrives finishes as failed.
  * Single Responsibility: Stress test execution only.
  */
 export class StressTestHandler {
     private isStressTestRunning: boolean = false;
+    private currentTestId: string | undefined;
+    private resolveCompletion: ((result: StressTestResponse) => void) | undefined;
+    private completionCallback: ((result: StressTestResponse) => void) | undefined;
+    private connectionLostCallback: (() => void) | undefined;
+    // Completions that arrived before the start response told us the testId
+    private earlyCompletions = new Map<string, StressTestResponse>();
+    // Set while Stop waits for the start response; receives the testId, or undefined if the test did not start
+    private resolvePendingStop: ((testId: string | undefined) => void) | undefined;
 
     constructor(
         private httpClient: HttpClient,
+        private websocketClient: WebSocketClient,
         private logger: ILogger
     ) {}
 
-    async executeStressTest(
-        connectionId: string, 
-        query: string,
-        parallelExecutions: number,
-        totalExecutions: number,
-        database?: string
-    ): Promise<{
-        success: boolean;
-        testId?: string;
-        error?: string;
-        message?: string;
-    }> {
+    /**
+     * Starts a stress test and resolves with its final result once it completes or is cancelled.
+     * The assertions stay in the extension: the Historical Metrics view checks them when the run finishes.
+     */
+    async executeStressTest(configuration: StressTestConfiguration): Promise<StressTestResponse> {
         this.isStressTestRunning = true;
 
+        const { connectionId, query, parallelExecutions, totalExecutions, database, queries, parameters, loadProfile, assertions, planCapture } = configuration;
         this.logger.log('Executing stress test', { 
             connectionId, 
             queryLength: query.length,
+            scenarioQueryCount: queries?.length ?? 0,
+            parameterCount: parameters?.length ?? 0,
+            loadProfile: loadProfile?.mode ?? 'fixed',
+            assertionCount: assertions?.length ?? 0,
+            planCapture: planCapture?.mode ?? 'off',
             parallelExecutions,
             totalExecutions
         });
 
+        const request: StressTestRequest = {
+            connectionId,
+            query,
+            parallelExecutions,
+            totalExecutions,
+            database,
+            queries: queries && queries.length > 0 ? queries : undefined,
+            parameters: parameters && parameters.length > 0 ? parameters : undefined,
+            loadProfile: loadProfile && loadProfile.mode !== 'fixed' ? loadProfile : undefined,
+            planCapture
+        };
+
         // Notify that stress test is starting (this will be handled by extension.ts to start PerformanceGraph and HistoricalMetricsView)
-        vscode.commands.executeCommand('sqlStressTest.showPerformanceGraph', connectionId);
-        vscode.commands.executeCommand('sqlStressTest.showHistoricalMetrics', connectionId);
+        const runConfiguration: StressTestConfiguration = { ...request, assertions };
+        vscode.commands.executeCommand('sqlStressTest.showPerformanceGraph', connectionId, runConfiguration);
+        vscode.commands.executeCommand('sqlStressTest.showHistoricalMetrics', connectionId, runConfiguration);
+
+        // Listen before starting so a fast completion is not missed
+        const completion = this.waitForCompletion();
 
         try {
-            const response = await this.httpClient.executeStressTest({
-                connectionId,
-                query,
-                parallelExecutions,
-                totalExecutions,
-                database
-            });
-            
-            this.isStressTestRunning = false;
+            const response = await this.httpClient.executeStressTest(request);
+
+            if (!response.success || !response.testId) {
+                this.logger.warn('Stress test did not start', { error: response.error });
+                this.finish();
+                return response;
+            }
+
+            if (!this.isStressTestRunning) {
+                // The WebSocket dropped while the start request was in flight
+                return await completion;
+            }
+
+            this.currentTestId = response.testId;
+            this.logger.log('Stress test started', { testId: response.testId });
+
+            const earlyResult = this.earlyCompletions.get(response.testId);
+            if (earlyResult) {
+                this.resolveCompletion?.(earlyResult);
+            } else {
+                this.resolvePendingStop?.(response.testId);
+                this.resolvePendingStop = undefined;
+            }
+
+            const result = await completion;
             this.logger.log('Stress test execution completed', { 
-                success: response.success, 
-                testId: response.testId,
-                message: response.message,
-                error: response.error
+                success: result.success, 
+                testId: result.testId,
+                cancelled: result.cancelled,
+                message: result.message,
+                error: result.error
             });
-            
-            return response;
+            return result;
         } catch (error) {
-            this.isStressTestRunning = false;
+            this.finish();
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             this.logger.error('Stress test execution error', error);
             throw new Error(errorMessage);
         }
     }
 
-    stopStressTest(): void {
+    /**
+     * Cancels the running stress test on the backend and resolves once the backend
+     * confirms that in-flight executions were cancelled.
+     */
+    async stopStressTest(): Promise<StressTestResponse | undefined> {
         if (!this.isStressTestRunning) {
             this.logger.log('Stop stress test called but no test is running');
-            return;
+            return undefined;
+        }
+
+        let testId = this.currentTestId;
+        if (!testId) {
+            // The start request is still in flight; cancel as soon as it returns the testId
+            this.logger.log('Stop requested while the stress test is starting');
+            testId = await new Promise<string | undefined>(resolve => { this.resolvePendingStop = resolve; });
+            if (!testId) {
+                // Not started, or already finished; executeStressTest reports the outcome
+                return { success: true, cancelled: true, message: 'Stress test cancelled' };
+            }
+        }
+
+        this.logger.log('Stopping stress test', { testId });
+
+        let result: StressTestResponse;
+        try {
+            result = await this.httpClient.cancelStressTest(testId);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to cancel stress test', error);
+            return { success: false, testId, error: errorMessage };
+        }
+        if (!result.success) {
+            this.logger.warn('Backend did not cancel stress test', { testId, error: result.error });
+            return result;
         }
 
-        this.logger.log('Stopping stress test');
-        
         // Call stopStressTest on HistoricalMetricsView and PerformanceGraph
         vscode.commands.executeCommand('sqlStressTest.stopHistoricalMetrics');
         vscode.commands.executeCommand('sqlStressTest.stopPerformanceGraph');
 
-        this.isStressTestRunning = false;
+        // The completion message may be lost if the WebSocket is down, so settle the run here
+        this.resolveCompletion?.({ ...result, success: false, cancelled: true });
+        return result;
     }
 
     isRunning(): boolean {
         return this.isStressTestRunning;
     }
-}
 
+    getCurrentTestId(): string | undefined {
+        return this.currentTestId;
+    }
+
+    private waitForCompletion(): Promise<StressTestResponse> {
+        return new Promise<StressTestResponse>((resolve) => {
+            this.resolveCompletion = (result) => {
+                this.finish();
+                resolve(result);
+            };
+            this.completionCallback = (result) => {
+                if (this.currentTestId && result.testId === this.currentTestId) {
+                    this.resolveCompletion?.(result);
+                } else if (!this.currentTestId && result.testId) {
+                    this.earlyCompletions.set(result.testId, result);
+                }
+            };
+            // The completion message is not replayed after a reconnect, so the run would never finish
+            this.connectionLostCallback = () => {
+                this.logger.warn('WebSocket connection lost while the stress test was running', { testId: this.currentTestId });
+                this.resolveCompletion?.({
+                    success: false,
+                    testId: this.currentTestId,
+                    error: 'Lost the connection to the backend before the stress test completed'
+                });
+            };
+            this.websocketClient.onStressTestCompleted(this.completionCallback);
+            this.websocketClient.onConnectionLost(this.connectionLostCallback);
+        });
+    }
+
+    private finish(): void {
+        if (this.completionCallback) {
+            this.websocketClient.offStressTestCompleted(this.completionCallback);
+        }
+        if (this.connectionLostCallback) {
+            this.websocketClient.offConnectionLost(this.connectionLostCallback);
+        }
+        this.completionCallback = undefined;
+        this.connectionLostCallback = undefined;
+        this.resolveCompletion = undefined;
+        this.earlyCompletions.clear();
+        this.resolvePendingStop?.(undefined);
+        this.resolvePendingStop = undefined;
+        this.currentTestId = undefined;
+        this.isStressTestRunning = false;
+    }
+}
@@ -0,0 +1,209 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger, Logger } from '../services/logger';
+import { RunHistoryStorageService } from '../services/runHistoryStorageService';
+import { compareRuns } from '../services/runComparison';
+import { HistoricalRun } from '../services/storage';
+
+interface RunQuickPickItem extends vscode.QuickPickItem {
+    run: HistoricalRun;
+}
+
+/**
+ * Shows a baseline run and one or more candidate runs from the run history side by side.
+ * Single Responsibility: Run comparison panel only.
+ */
+export class RunComparisonView {
+    private panel: vscode.WebviewPanel | undefined;
+    private logger: ILogger;
+    private runHistory: RunHistoryStorageService;
+
+    constructor(
+        private context: vscode.ExtensionContext,
+        logger?: ILogger,
+        runHistory?: RunHistoryStorageService
+    ) {
+        this.logger = logger || new Logger('SQL Stress Test - Run Comparison');
+        this.runHistory = runHistory || new RunHistoryStorageService(context);
+        this.logger.log('RunComparisonView initialized');
+    }
+
+    /**
+     * Compares the given runs, or asks for a baseline and candidates from the run history.
+     */
+    async compare(baselineRunId?: number, candidateRunIds?: number[]): Promise<void> {
+        const runs = await this.runHistory.loadRuns();
+        if (runs.length < 2) {
+            vscode.window.showInformationMessage('At least two finished stress test runs are needed for a comparison.');
+            return;
+        }
+
+        const baseline = baselineRunId !== undefined
+            ? runs.find(r => r.runId === baselineRunId)
+            : await this.pickBaseline(runs);
+        if (!baseline) {
+            return;
+        }
+
+        const candidates = candidateRunIds !== undefined
+            ? runs.filter(r => candidateRunIds.includes(r.runId) && r.runId !== baseline.runId)
+            : await this.pickCandidates(runs, baseline);
+        if (candidates.length === 0) {
+            return;
+        }
+
+        this.logger.log('Comparing runs', {
+            baselineRunId: baseline.runId,
+            candidateRunIds: candidates.map(r => r.runId)
+        });
+        this.show();
+        this.panel!.webview.postMessage({
+            command: 'showComparison',
+            comparison: compareRuns(baseline, candidates)
+        });
+    }
+
+    private async pickBaseline(runs: HistoricalRun[]): Promise<HistoricalRun | undefined> {
+        const picked = await vscode.window.showQuickPick(this.toQuickPickItems([...runs].reverse()), {
+            placeHolder: 'Select the baseline run'
+        });
+        return picked?.run;
+    }
+
+    private async pickCandidates(runs: HistoricalRun[], baseline: HistoricalRun): Promise<HistoricalRun[]> {
+        const items = this.toQuickPickItems(runs.filter(r => r.runId !== baseline.runId).reverse());
+        // The most recent run is the usual candidate
+        if (items.length > 0) {
+            items[0].picked = true;
+        }
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: `Select the runs to compare with Run #${baseline.runId}`,
+            canPickMany: true
+        });
+        return (picked ?? []).map(item => item.run).sort((a, b) => a.runId - b.runId);
+    }
+
+    private toQuickPickItems(runs: HistoricalRun[]): RunQuickPickItem[] {
+        return runs.map(run => ({
+            label: `Run #${run.runId}`,
+            description: [run.connection?.name, new Date(run.startTime).toLocaleString()].filter(Boolean).join(' · '),
+            detail: `${run.executionCount} executions, avg ${run.avgDuration.toFixed(2)} ms`,
+            run
+        }));
+    }
+
+    private show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'runComparison',
+            'Run Comparison',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        this.panel.webview.html = this.getWebviewContent();
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+    }
+
+    private getRunComparisonStyles(): string {
+        return `
+        body {
+            font-family: var(--vscode-font-family);
+            padding: 20px;
+            background-color: var(--vscode-editor-background);
+            color: var(--vscode-editor-foreground);
+        }
+        .comparison-table {
+            border-collapse: collapse;
+            width: 100%;
+            font-size: 13px;
+        }
+        .comparison-table th,
+        .comparison-table td {
+            border-bottom: 1px solid var(--vscode-input-border);
+            padding: 6px 10px;
+            text-align: right;
+        }
+        .comparison-table th:first-child,
+        .comparison-table td:first-child {
+            text-align: left;
+        }
+        .run-details {
+            display: block;
+            font-size: 11px;
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+        .change {
+            margin-left: 6px;
+            font-size: 11px;
+        }
+        .change.better { color: var(--vscode-testing-iconPassed, var(--vscode-textLink-foreground)); font-weight: bold; }
+        .change.worse { color: var(--vscode-errorForeground); font-weight: bold; }
+        .change.unchanged { color: var(--vscode-descriptionForeground); }
+        .latency-overlay {
+            margin-top: 30px;
+            height: 300px;
+            position: relative;
+        }
+        .empty-state {
+            text-align: center;
+            padding: 40px;
+            color: var(--vscode-descriptionForeground);
+        }
+    `;
+    }
+
+    private getRunComparisonBody(): string {
+        return `
+    <h2>Run Comparison</h2>
+    <div id="comparisonContainer">
+        <div class="empty-state">Select runs to compare...</div>
+    </div>
+    <div class="latency-overlay" id="latencyOverlay" style="display: none;">
+        <canvas id="latencyOverlayChart"></canvas>
+    </div>
+    `;
+    }
+
+    private getRunComparisonScript(): string {
+        const scriptPath = path.join(this.context.extensionPath, 'webviews', 'runComparisonView.js');
+        try {
+            return fs.readFileSync(scriptPath, 'utf8');
+        } catch (error) {
+            this.logger.error('Failed to load runComparisonView.js', error);
+            return '// Error loading script';
+        }
+    }
+
+    private getWebviewContent(): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Run Comparison</title>
+    <script src="https://cdn.jsdelivr.net/npm/chart.js@4.4.0/dist/chart.umd.min.js"></script>
+    <style>${this.getRunComparisonStyles()}</style>
+</head>
+<body>${this.getRunComparisonBody()}
+    <script>${this.getRunComparisonScript()}</script>
+</body>
+</html>`;
+    }
+
+    dispose(): void {
+        this.logger.log('Disposing run comparison view');
+        this.panel?.dispose();
+        this.panel = undefined;
+    }
+}
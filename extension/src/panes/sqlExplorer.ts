@@ -1,12 +1,78 @@
 import * as vscode from 'vscode';
-import { StorageService, ConnectionConfig } from '../services/storage';
-import { HttpClient } from '../services/httpClient';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StorageService, ConnectionConfig, ConnectionEncryption, ApplicationIntent } from '../services/storage';
+import { HttpClient, DatabaseObject, DatabaseObjectType } from '../services/httpClient';
+import { ExtensionHostEnvironment, getConfiguredBackendUrl } from '../services/extensionHostEnvironment';
 import { WebSocketClient } from '../services/websocketClient';
 import { ILogger, Logger } from '../services/logger';
+import { buildProcedureStressTest } from '../services/procedureStressTest';
+import { ImportedConnection, parseConnectionImportFile } from '../services/connectionImport';
+import { buildConnectionString, ConnectionOptions, formatAdditionalKeywords, parseAdditionalKeywords, parseConnectionString, pickConnectionOptions, validateConnectionOptions } from '../services/connectionString';
+import { SHARED_CONNECTIONS_FILE, serializeSharedConnections } from '../services/sharedConnections';
+import { QueryEditorDraft } from './queryEditor';
 
-export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<ServerTreeItem | undefined | null | void> = new vscode.EventEmitter<ServerTreeItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<ServerTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+/**
+ * Where an explorer node sits: its connection and, below the server, the database, schema and object it belongs to.
+ */
+interface ObjectLocation {
+    connectionId: string;
+    database?: string;
+    schema?: string;
+    objectName?: string;
+}
+
+interface ObjectNodeKind {
+    contextValue: string;
+    icon: string;
+    locationKey?: keyof ObjectLocation; // Part of the location the object's name fills
+    childType?: DatabaseObjectType; // Objects loaded when the node is expanded
+    expandable: boolean;
+}
+
+// The node each kind of loaded object becomes in the tree
+const OBJECT_NODE_KINDS: Record<DatabaseObjectType, ObjectNodeKind> = {
+    databases: { contextValue: 'database', icon: 'database', locationKey: 'database', childType: 'schemas', expandable: true },
+    schemas: { contextValue: 'schema', icon: 'symbol-namespace', locationKey: 'schema', expandable: true },
+    tables: { contextValue: 'table', icon: 'table', locationKey: 'objectName', childType: 'columns', expandable: true },
+    views: { contextValue: 'view', icon: 'eye', locationKey: 'objectName', childType: 'columns', expandable: true },
+    procedures: { contextValue: 'procedure', icon: 'symbol-method', locationKey: 'objectName', childType: 'parameters', expandable: true },
+    functions: { contextValue: 'function', icon: 'symbol-function', locationKey: 'objectName', childType: 'parameters', expandable: true },
+    columns: { contextValue: 'column', icon: 'symbol-field', expandable: false },
+    parameters: { contextValue: 'parameter', icon: 'symbol-parameter', expandable: false }
+};
+
+// Folders shown below each schema
+const SCHEMA_FOLDERS: { label: string; objectType: DatabaseObjectType }[] = [
+    { label: 'Tables', objectType: 'tables' },
+    { label: 'Views', objectType: 'views' },
+    { label: 'Stored Procedures', objectType: 'procedures' },
+    { label: 'Functions', objectType: 'functions' }
+];
+
+// Advanced option fields as the connection dialog posts them
+interface ConnectionDialogOptions {
+    encrypt?: string;
+    trustServerCertificate?: boolean;
+    connectTimeout?: string | number;
+    commandTimeout?: string | number;
+    applicationName?: string;
+    applicationIntent?: string;
+    multiSubnetFailover?: boolean;
+    additionalKeywords?: string;
+}
+
+type ExplorerTreeItem = ConnectionGroupTreeItem | ServerTreeItem | DatabaseObjectTreeItem;
+
+// Connection ids dragged between groups; VS Code requires the lower-cased view id
+const CONNECTION_MIME_TYPE = 'application/vnd.code.tree.sqlserverexplorer';
+
+export class SqlServerExplorer implements vscode.TreeDataProvider<ExplorerTreeItem>, vscode.TreeDragAndDropController<ExplorerTreeItem> {
+    readonly dragMimeTypes = [CONNECTION_MIME_TYPE];
+    readonly dropMimeTypes = [CONNECTION_MIME_TYPE];
+
+    private _onDidChangeTreeData: vscode.EventEmitter<ExplorerTreeItem | undefined | null | void> = new vscode.EventEmitter<ExplorerTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ExplorerTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
 
     private storageService: StorageService;
     private httpClient: HttpClient;
@@ -19,8 +85,8 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
         logger?: ILogger
     ) {
         this.logger = logger || new Logger('SQL Stress Test - SQL Explorer');
-        this.storageService = new StorageService(context);
-        this.httpClient = new HttpClient(undefined, this.logger);
+        this.storageService = new StorageService(context, new ExtensionHostEnvironment(context));
+        this.httpClient = new HttpClient(getConfiguredBackendUrl(), this.logger);
         this.logger.log('SqlServerExplorer initialized');
         this.loadConnections();
     }
@@ -35,6 +101,18 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Reloads the objects below a node, e.g. after a table was added. Expanded nodes below it reload as well.
+     */
+    refreshNode(item?: ExplorerTreeItem): void {
+        if (!item) {
+            this.refresh();
+            return;
+        }
+        this.logger.log('Refreshing explorer node', { label: item.label, contextValue: item.contextValue });
+        this._onDidChangeTreeData.fire(item);
+    }
+
     /**
      * Makes a connection name unique by appending a number if a duplicate exists.
      * Examples: "local" -> "local (2)", "local (2)" -> "local (3)", etc.
@@ -80,31 +158,88 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
         return uniqueName;
     }
 
-    getTreeItem(element: ServerTreeItem): vscode.TreeItem {
+    getTreeItem(element: ExplorerTreeItem): vscode.TreeItem {
         return element;
     }
 
-    async getChildren(element?: ServerTreeItem): Promise<ServerTreeItem[]> {
+    async getChildren(element?: ExplorerTreeItem): Promise<ExplorerTreeItem[]> {
         if (!element) {
-            // Root level - show all servers
-            return this.connections.map(conn => new ServerTreeItem(
-                conn.name,
-                conn.server,
-                conn.id,
-                vscode.TreeItemCollapsibleState.Collapsed
+            // Root level - groups first, then the servers that are not in a group
+            const groups = this.getGroupNames().map(group => new ConnectionGroupTreeItem(
+                group,
+                this.connections.filter(conn => conn.group === group).length
             ));
+            return [...groups, ...this.getServerItems(undefined)];
         }
 
-        if (element.contextValue === 'server') {
-            // Server level - show databases (placeholder for now)
+        if (element instanceof ConnectionGroupTreeItem) {
+            return this.getServerItems(element.groupName);
+        }
+
+        if (element instanceof ServerTreeItem || element.contextValue === 'server') {
+            // Server level - the databases are loaded when the folder is expanded
             return [
-                new ServerTreeItem('Databases', '', '', vscode.TreeItemCollapsibleState.None, 'database')
+                new DatabaseObjectTreeItem('Databases', 'databases', { connectionId: element.connectionId }, 'folder', 'databases')
             ];
         }
 
+        if (element instanceof DatabaseObjectTreeItem) {
+            return this.getObjectChildren(element);
+        }
+
         return [];
     }
 
+    private getServerItems(group: string | undefined): ServerTreeItem[] {
+        return this.connections
+            .filter(conn => conn.group === group)
+            .map(conn => new ServerTreeItem(
+                conn.name,
+                conn.server,
+                conn.id,
+                vscode.TreeItemCollapsibleState.Collapsed,
+                conn.shared ? 'sharedServer' : 'server'
+            ));
+    }
+
+    private getGroupNames(): string[] {
+        const groups = new Set(this.connections.map(conn => conn.group).filter((group): group is string => !!group));
+        return [...groups].sort((a, b) => a.localeCompare(b));
+    }
+
+    private async getObjectChildren(element: DatabaseObjectTreeItem): Promise<ExplorerTreeItem[]> {
+        if (element.contextValue === 'schema') {
+            return SCHEMA_FOLDERS.map(folder => new DatabaseObjectTreeItem(
+                folder.label,
+                'objectFolder',
+                element.location,
+                'folder',
+                folder.objectType
+            ));
+        }
+
+        const objectType = element.childType;
+        if (!objectType) {
+            return [];
+        }
+        if (!await this.ensureSharedPassword(element.location.connectionId)) {
+            return [DatabaseObjectTreeItem.loadError(element, objectType, 'No password entered for the shared connection')];
+        }
+
+        // Shows a progress bar on the view while the backend reads the catalog
+        const response = await vscode.window.withProgress(
+            { location: { viewId: 'sqlServerExplorer' } },
+            () => this.httpClient.getDatabaseObjects({ ...element.location, objectType })
+        );
+        if (!response?.success) {
+            const error = response?.error || 'Unknown error';
+            this.logger.error('Failed to load explorer objects', { ...element.location, objectType, error });
+            return [DatabaseObjectTreeItem.loadError(element, objectType, error)];
+        }
+
+        return (response.objects ?? []).map(object => DatabaseObjectTreeItem.fromObject(object, objectType, element.location));
+    }
+
     async addServer(): Promise<void> {
         await this.showConnectionDialog();
     }
@@ -151,10 +286,12 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                                 username: message.username || undefined,
                                 password: message.password || undefined,
                                 integratedSecurity: message.integratedSecurity === true,
-                                port: message.port
+                                port: message.port,
+                                ...this.readConnectionOptions(message)
                             };
 
                             try {
+                                validateConnectionOptions(testConfig);
                                 this.logger.log('Testing connection from dialog', { server: testConfig.server, name: testConfig.name });
                                 const testResult = await this.httpClient.testConnection(testConfig);
                                 
@@ -177,6 +314,24 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                                 });
                             }
                             break;
+                        case 'parseConnectionString':
+                            try {
+                                const parsed = parseConnectionString(message.connectionString || '');
+                                panel.webview.postMessage({
+                                    command: 'connectionStringParsed',
+                                    success: true,
+                                    settings: parsed.settings,
+                                    additionalKeywords: formatAdditionalKeywords(parsed.options),
+                                    ignoredKeywords: parsed.ignoredKeywords
+                                });
+                            } catch (error) {
+                                panel.webview.postMessage({
+                                    command: 'connectionStringParsed',
+                                    success: false,
+                                    error: error instanceof Error ? error.message : 'Invalid connection string'
+                                });
+                            }
+                            break;
                         case 'save':
                             // Load current connections to check for duplicates
                             const currentConnections = await this.storageService.loadConnections();
@@ -205,11 +360,13 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                                 id: editConnection?.id || `conn_${Date.now()}`,
                                 name: connectionName,
                                 server: message.server || '',
+                                group: message.group?.trim() || undefined,
                                 database: message.database || undefined,
                                 username: message.username || undefined,
                                 password: message.password || undefined,
                                 integratedSecurity: message.integratedSecurity === true,
-                                port: message.port ? parseInt(message.port, 10) : undefined
+                                port: message.port ? parseInt(message.port, 10) : undefined,
+                                ...this.readConnectionOptions(message)
                             };
 
                             if (!config.name || !config.server) {
@@ -221,6 +378,18 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                                 return;
                             }
 
+                            // SqlClient would reject the whole connection for an option it does not know
+                            try {
+                                validateConnectionOptions(config);
+                            } catch (error) {
+                                panel.webview.postMessage({
+                                    command: 'saveResult',
+                                    success: false,
+                                    error: error instanceof Error ? error.message : 'Invalid advanced options'
+                                });
+                                return;
+                            }
+
                             // Show saving state in dialog
                             panel.webview.postMessage({
                                 command: 'saving',
@@ -381,6 +550,26 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
         });
     }
 
+    // Empty fields are left unset
+    private readConnectionOptions(message: ConnectionDialogOptions): ConnectionOptions {
+        const readSeconds = (value: string | number | undefined): number | undefined => {
+            const seconds = parseInt(String(value ?? ''), 10);
+            return Number.isNaN(seconds) || seconds < 0 ? undefined : seconds;
+        };
+        const additionalKeywords = parseAdditionalKeywords(message.additionalKeywords || '');
+        return pickConnectionOptions({
+            encrypt: (message.encrypt || undefined) as ConnectionEncryption | undefined,
+            // Trusted is the default, so only an untrusted certificate is stored
+            trustServerCertificate: message.trustServerCertificate === false ? false : undefined,
+            connectTimeout: readSeconds(message.connectTimeout),
+            commandTimeout: readSeconds(message.commandTimeout),
+            applicationName: message.applicationName?.trim() || undefined,
+            applicationIntent: (message.applicationIntent || undefined) as ApplicationIntent | undefined,
+            multiSubnetFailover: message.multiSubnetFailover === true ? true : undefined,
+            additionalKeywords: Object.keys(additionalKeywords).length > 0 ? additionalKeywords : undefined
+        });
+    }
+
     private getConnectionDialogHtml(connection: ConnectionConfig, isEdit: boolean): string {
         return `<!DOCTYPE html>
 <html lang="en">
@@ -560,16 +749,67 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
             opacity: 0.5;
             cursor: not-allowed;
         }
+        .connection-string-section {
+            padding-bottom: 15px;
+            border-bottom: 1px solid var(--vscode-input-border);
+        }
+        .connection-string-row {
+            display: flex;
+            gap: 10px;
+        }
+        #connectionStringStatus.error {
+            color: var(--vscode-errorForeground);
+        }
+        select,
+        textarea {
+            width: 100%;
+            padding: 8px;
+            box-sizing: border-box;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border);
+            border-radius: 2px;
+            font-family: var(--vscode-font-family);
+        }
+        .advanced-section {
+            margin-top: 10px;
+            padding-top: 10px;
+            border-top: 1px solid var(--vscode-input-border);
+        }
+        .advanced-section summary {
+            cursor: pointer;
+            font-weight: 500;
+            margin-bottom: 10px;
+        }
     </style>
 </head>
 <body>
     <form id="connectionForm">
+        <div class="form-group connection-string-section">
+            <label for="connectionString">Paste Connection String</label>
+            <div class="connection-string-row">
+                <input type="text" id="connectionString" placeholder="Data Source=server,1433;Initial Catalog=database;Integrated Security=True" autocomplete="off" spellcheck="false">
+                <button type="button" class="btn-secondary" id="applyConnectionStringBtn">Fill In</button>
+            </div>
+            <div class="help-text">ADO.NET / SqlClient connection string; fills in the server, port, database, authentication and advanced options below</div>
+            <div id="connectionStringStatus" class="help-text"></div>
+        </div>
+
         <div class="form-group">
             <label for="name">Connection Name <span class="required">*</span></label>
             <input type="text" id="name" name="name" value="${this.escapeHtml(connection.name)}" required placeholder="My SQL Server">
             <div class="help-text">A friendly name to identify this connection</div>
         </div>
 
+        <div class="form-group">
+            <label for="group">Group</label>
+            <input type="text" id="group" name="group" value="${this.escapeHtml(connection.group || '')}" list="groupOptions" placeholder="Dev, QA, Prod...">
+            <datalist id="groupOptions">
+                ${this.getGroupNames().map(group => `<option value="${this.escapeHtml(group)}"></option>`).join('')}
+            </datalist>
+            <div class="help-text">Explorer folder to list this connection under (optional)</div>
+        </div>
+
         <div class="form-group">
             <label for="server">Server <span class="required">*</span></label>
             <input type="text" id="server" name="server" value="${this.escapeHtml(connection.server)}" required placeholder="localhost or server\\instance">
@@ -609,6 +849,67 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
             </div>
         </div>
 
+        <details class="advanced-section" id="advancedSection" ${Object.keys(pickConnectionOptions(connection)).length > 0 ? 'open' : ''}>
+            <summary>Advanced Options</summary>
+
+            <div class="form-group">
+                <label for="encrypt">Encrypt</label>
+                <select id="encrypt" name="encrypt">
+                    <option value="" ${connection.encrypt ? '' : 'selected'}>Default (Mandatory)</option>
+                    <option value="Optional" ${connection.encrypt === 'Optional' ? 'selected' : ''}>Optional</option>
+                    <option value="Mandatory" ${connection.encrypt === 'Mandatory' ? 'selected' : ''}>Mandatory</option>
+                    <option value="Strict" ${connection.encrypt === 'Strict' ? 'selected' : ''}>Strict (TDS 8.0)</option>
+                </select>
+                <div class="help-text">Strict is required by servers that enforce TDS 8.0 encryption</div>
+            </div>
+
+            <div class="form-group">
+                <div class="checkbox-group">
+                    <input type="checkbox" id="trustServerCertificate" name="trustServerCertificate" ${connection.trustServerCertificate !== false ? 'checked' : ''}>
+                    <label for="trustServerCertificate">Trust server certificate without validating it</label>
+                </div>
+            </div>
+
+            <div class="form-group">
+                <label for="connectTimeout">Connect Timeout (seconds)</label>
+                <input type="number" id="connectTimeout" name="connectTimeout" value="${connection.connectTimeout ?? ''}" min="0" placeholder="30">
+            </div>
+
+            <div class="form-group">
+                <label for="commandTimeout">Command Timeout (seconds)</label>
+                <input type="number" id="commandTimeout" name="commandTimeout" value="${connection.commandTimeout ?? ''}" min="0" placeholder="30">
+                <div class="help-text">Default time a query may run; 0 waits indefinitely</div>
+            </div>
+
+            <div class="form-group">
+                <label for="applicationName">Application Name</label>
+                <input type="text" id="applicationName" name="applicationName" value="${this.escapeHtml(connection.applicationName || '')}" placeholder="Core Microsoft SqlClient Data Provider">
+            </div>
+
+            <div class="form-group">
+                <label for="applicationIntent">Application Intent</label>
+                <select id="applicationIntent" name="applicationIntent">
+                    <option value="" ${connection.applicationIntent ? '' : 'selected'}>Default (ReadWrite)</option>
+                    <option value="ReadWrite" ${connection.applicationIntent === 'ReadWrite' ? 'selected' : ''}>ReadWrite</option>
+                    <option value="ReadOnly" ${connection.applicationIntent === 'ReadOnly' ? 'selected' : ''}>ReadOnly</option>
+                </select>
+                <div class="help-text">ReadOnly routes the connection to a readable secondary of an availability group</div>
+            </div>
+
+            <div class="form-group">
+                <div class="checkbox-group">
+                    <input type="checkbox" id="multiSubnetFailover" name="multiSubnetFailover" ${connection.multiSubnetFailover ? 'checked' : ''}>
+                    <label for="multiSubnetFailover">Multi-subnet failover</label>
+                </div>
+            </div>
+
+            <div class="form-group">
+                <label for="additionalKeywords">Additional Keywords</label>
+                <textarea id="additionalKeywords" name="additionalKeywords" rows="3" placeholder="Packet Size=8192;Workstation ID=loadgen-01">${this.escapeHtml(formatAdditionalKeywords(connection.additionalKeywords))}</textarea>
+                <div class="help-text">Further SqlClient keywords, written as Keyword=Value and separated by semicolons</div>
+            </div>
+        </details>
+
         <div class="button-group">
             <button type="button" class="btn-test" id="testBtn">Test Connection</button>
             <button type="button" class="btn-secondary" id="cancelBtn">Cancel</button>
@@ -631,10 +932,78 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
         const testResults = document.getElementById('testResults');
         const saveStatus = document.getElementById('saveStatus');
 
+        const connectionStringInput = document.getElementById('connectionString');
+        const connectionStringStatus = document.getElementById('connectionStringStatus');
+
         integratedSecurityCheckbox.addEventListener('change', (e) => {
             authSection.style.display = e.target.checked ? 'none' : 'block';
         });
 
+        function applyConnectionString() {
+            if (!connectionStringInput.value.trim()) {
+                return;
+            }
+            vscode.postMessage({
+                command: 'parseConnectionString',
+                connectionString: connectionStringInput.value
+            });
+        }
+
+        document.getElementById('applyConnectionStringBtn').addEventListener('click', applyConnectionString);
+        connectionStringInput.addEventListener('paste', () => {
+            // The pasted text is in the input once the event has been handled
+            setTimeout(applyConnectionString, 0);
+        });
+        connectionStringInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                applyConnectionString();
+            }
+        });
+
+        function readAdvancedOptions(formData) {
+            return {
+                encrypt: formData.get('encrypt'),
+                trustServerCertificate: document.getElementById('trustServerCertificate').checked,
+                connectTimeout: formData.get('connectTimeout'),
+                commandTimeout: formData.get('commandTimeout'),
+                applicationName: formData.get('applicationName'),
+                applicationIntent: formData.get('applicationIntent'),
+                multiSubnetFailover: document.getElementById('multiSubnetFailover').checked,
+                additionalKeywords: formData.get('additionalKeywords')
+            };
+        }
+
+        function fillFromConnectionString(settings, additionalKeywords, ignoredKeywords) {
+            const nameInput = document.getElementById('name');
+            if (!nameInput.value) {
+                nameInput.value = settings.server;
+            }
+            document.getElementById('server').value = settings.server;
+            document.getElementById('port').value = settings.port || 1433;
+            document.getElementById('database').value = settings.database || '';
+            integratedSecurityCheckbox.checked = settings.integratedSecurity;
+            authSection.style.display = settings.integratedSecurity ? 'none' : 'block';
+            document.getElementById('username').value = settings.username || '';
+            document.getElementById('password').value = settings.password || '';
+            document.getElementById('encrypt').value = settings.encrypt || '';
+            document.getElementById('trustServerCertificate').checked = settings.trustServerCertificate !== false;
+            document.getElementById('connectTimeout').value = settings.connectTimeout ?? '';
+            document.getElementById('commandTimeout').value = settings.commandTimeout ?? '';
+            document.getElementById('applicationName').value = settings.applicationName || '';
+            document.getElementById('applicationIntent').value = settings.applicationIntent || '';
+            document.getElementById('multiSubnetFailover').checked = settings.multiSubnetFailover === true;
+            document.getElementById('additionalKeywords').value = additionalKeywords;
+
+            if (ignoredKeywords.length > 0) {
+                connectionStringStatus.className = 'help-text error';
+                connectionStringStatus.textContent = 'Filled in. Left out keywords SqlClient does not support: ' + ignoredKeywords.join(', ');
+            } else {
+                connectionStringStatus.className = 'help-text';
+                connectionStringStatus.textContent = 'Filled in.';
+            }
+        }
+
         testBtn.addEventListener('click', () => {
             const formData = new FormData(form);
             const data = {
@@ -644,7 +1013,8 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                 database: formData.get('database') || undefined,
                 username: formData.get('username') || undefined,
                 password: formData.get('password') || undefined,
-                integratedSecurity: integratedSecurityCheckbox.checked
+                integratedSecurity: integratedSecurityCheckbox.checked,
+                ...readAdvancedOptions(formData)
             };
 
             if (!data.name || !data.server) {
@@ -668,12 +1038,14 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
             const formData = new FormData(form);
             const data = {
                 name: formData.get('name'),
+                group: formData.get('group'),
                 server: formData.get('server'),
                 port: formData.get('port'),
                 database: formData.get('database'),
                 username: formData.get('username'),
                 password: formData.get('password'),
-                integratedSecurity: integratedSecurityCheckbox.checked
+                integratedSecurity: integratedSecurityCheckbox.checked,
+                ...readAdvancedOptions(formData)
             };
 
             // Disable form while saving
@@ -743,6 +1115,13 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                 } else {
                     showTestError(message.error || 'Connection test failed');
                 }
+            } else if (message.command === 'connectionStringParsed') {
+                if (message.success) {
+                    fillFromConnectionString(message.settings, message.additionalKeywords || '', message.ignoredKeywords || []);
+                } else {
+                    connectionStringStatus.className = 'help-text error';
+                    connectionStringStatus.textContent = message.error || 'Invalid connection string';
+                }
             } else if (message.command === 'nameUpdated') {
                 // Connection name was automatically made unique due to duplicate
                 const nameInput = document.getElementById('name');
@@ -791,7 +1170,7 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
                     // Keep test button disabled since save is complete
                     testBtn.disabled = true;
                     // Disable form fields to prevent further editing
-                    form.querySelectorAll('input, select').forEach((el) => {
+                    form.querySelectorAll('input, select, textarea').forEach((el) => {
                         el.disabled = true;
                     });
                 } else {
@@ -822,6 +1201,9 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
     }
 
     async removeServer(item: ServerTreeItem): Promise<void> {
+        if (this.isSharedServer(item)) {
+            return;
+        }
         const result = await vscode.window.showWarningMessage(
             `Are you sure you want to remove ${item.label}?`,
             'Yes',
@@ -836,6 +1218,9 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
     }
 
     async editServer(item: ServerTreeItem): Promise<void> {
+        if (this.isSharedServer(item)) {
+            return;
+        }
         const connection = await this.storageService.getConnection(item.connectionId);
         if (!connection) {
             this.logger.error('Connection not found for edit', { connectionId: item.connectionId });
@@ -850,6 +1235,9 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
     }
 
     async testConnection(item: ServerTreeItem): Promise<void> {
+        if (!await this.ensureSharedPassword(item.connectionId)) {
+            return;
+        }
         const connection = await this.storageService.getConnection(item.connectionId);
         if (!connection) {
             this.logger.error('Connection not found for test', { connectionId: item.connectionId });
@@ -877,24 +1265,438 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
         );
     }
 
+    /**
+     * Copies the connection as a SqlClient connection string, without its password.
+     */
+    async copyConnectionString(item: ServerTreeItem): Promise<void> {
+        const connection = this.connections.find(conn => conn.id === item.connectionId);
+        if (!connection) {
+            this.logger.error('Connection not found for copy', { connectionId: item.connectionId });
+            vscode.window.showErrorMessage('Connection not found');
+            return;
+        }
+
+        await vscode.env.clipboard.writeText(buildConnectionString(connection));
+        vscode.window.showInformationMessage(`Copied the connection string of ${connection.name} without its password.`);
+    }
+
+    /**
+     * Imports connections from an SSMS Registered Servers export or an Azure Data Studio settings file.
+     * The user picks the connections to import from a preview; ones already in the explorer start unselected.
+     */
+    async importConnections(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Import',
+            filters: {
+                'Registered Servers or settings': ['regsrvr', 'json'],
+                'All files': ['*']
+            }
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        const fileName = path.basename(uris[0].fsPath);
+        let imported: ImportedConnection[];
+        try {
+            imported = parseConnectionImportFile(fileName, await fs.promises.readFile(uris[0].fsPath, 'utf8'));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to read connections to import', { fileName, error: errorMessage });
+            vscode.window.showErrorMessage(`Failed to import connections: ${errorMessage}`);
+            return;
+        }
+
+        this.connections = await this.storageService.loadConnections();
+        const picks = imported.map(connection => {
+            const existing = this.connections.some(conn => isSameServer(conn, connection));
+            const details = [
+                connection.integratedSecurity ? 'Windows Authentication' : `SQL login ${connection.username || ''}`.trim(),
+                connection.group ? `group ${connection.group}` : undefined,
+                existing ? 'already in the explorer' : undefined
+            ];
+            return {
+                label: connection.name,
+                description: [connection.server, connection.database].filter(Boolean).join(' / '),
+                detail: details.filter(Boolean).join(', '),
+                picked: !existing,
+                connection
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(picks, {
+            canPickMany: true,
+            matchOnDescription: true,
+            placeHolder: `Select the connections to import from ${fileName}`
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const added: ConnectionConfig[] = [];
+        for (const { connection } of selected) {
+            const config: ConnectionConfig = {
+                ...connection,
+                id: `conn_${Date.now()}_${added.length}`,
+                name: this.makeConnectionNameUnique(connection.name)
+            };
+            // Later names in the batch must not collide with this one
+            this.connections.push(config);
+            added.push(config);
+        }
+        await this.storageService.saveConnections(this.connections);
+        this.logger.log('Connections imported', { fileName, count: added.length });
+        await this.loadConnections();
+
+        for (const config of added) {
+            try {
+                await this.websocketClient.notifyConnectionSaved(config.id);
+            } catch (error) {
+                // The backend reloads its cache on the next save; the import itself succeeded
+                this.logger.error('Failed to notify backend of imported connection', { connectionId: config.id, error: String(error) });
+            }
+        }
+
+        const withoutPassword = added.filter(config => !config.integratedSecurity && !config.password).length;
+        vscode.window.showInformationMessage(withoutPassword > 0
+            ? `Imported ${added.length} connections. Edit ${withoutPassword} of them to add the SQL login password.`
+            : `Imported ${added.length} connections.`);
+    }
+
+    /**
+     * Writes connections to a JSON file without their passwords. Saving over the workspace's
+     * .vscode/sqlstress-connections.json shares them with everyone who opens the workspace;
+     * connections already in the file are kept unless they are exported again.
+     */
+    async exportConnections(item?: ServerTreeItem, selectedItems?: readonly ExplorerTreeItem[]): Promise<void> {
+        const connections = (await this.storageService.loadConnections()).filter(conn => !conn.shared);
+        if (connections.length === 0) {
+            vscode.window.showInformationMessage('There are no connections to export.');
+            return;
+        }
+
+        const selectedIds = (selectedItems && selectedItems.length > 0 ? selectedItems : item ? [item] : [])
+            .filter((selected): selected is ServerTreeItem => selected instanceof ServerTreeItem)
+            .map(selected => selected.connectionId);
+        const picks = connections.map(connection => ({
+            label: connection.name,
+            description: [connection.server, connection.database].filter(Boolean).join(' / '),
+            detail: connection.group ? `group ${connection.group}` : undefined,
+            picked: selectedIds.length === 0 || selectedIds.includes(connection.id),
+            connection
+        }));
+        const selected = await vscode.window.showQuickPick(picks, {
+            canPickMany: true,
+            matchOnDescription: true,
+            placeHolder: 'Select the connections to export (passwords are left out)'
+        });
+        if (!selected || selected.length === 0) {
+            return;
+        }
+
+        const sharedFile = this.storageService.getSharedConnectionsFile();
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: sharedFile ? vscode.Uri.file(sharedFile) : undefined,
+            saveLabel: 'Export',
+            filters: { 'JSON files': ['json'] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        const fileName = path.basename(uri.fsPath);
+        try {
+            const existing = fs.existsSync(uri.fsPath) ? await fs.promises.readFile(uri.fsPath, 'utf8') : undefined;
+            await fs.promises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+            await fs.promises.writeFile(uri.fsPath, serializeSharedConnections(selected.map(pick => pick.connection), existing), 'utf8');
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to export connections', { fileName, error: errorMessage });
+            vscode.window.showErrorMessage(`Failed to export connections: ${errorMessage}`);
+            return;
+        }
+
+        this.logger.log('Connections exported', { fileName, count: selected.length });
+        if (uri.fsPath === sharedFile) {
+            await this.loadConnections();
+        }
+        vscode.window.showInformationMessage(`Exported ${selected.length} connections to ${fileName} without their passwords.`);
+    }
+
+    /**
+     * Asks for this user's password of a shared SQL login connection and stores it in SecretStorage.
+     */
+    async setSharedConnectionPassword(item: ServerTreeItem): Promise<void> {
+        const connection = await this.storageService.getConnection(item.connectionId);
+        if (!connection?.shared) {
+            this.logger.warn('Set password ignored - not a shared connection', { connectionId: item.connectionId });
+            return;
+        }
+        await this.promptSharedPassword(connection);
+    }
+
+    /**
+     * Reloads the explorer whenever the workspace's shared connections file changes, e.g. after a pull.
+     */
+    watchSharedConnections(): vscode.Disposable {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${SHARED_CONNECTIONS_FILE}`);
+        const reload = async () => {
+            await this.reportInvalidSharedConnections();
+            await this.loadConnections();
+        };
+        watcher.onDidCreate(reload);
+        watcher.onDidChange(reload);
+        watcher.onDidDelete(reload);
+        void this.reportInvalidSharedConnections();
+        return watcher;
+    }
+
+    // loadConnections leaves out a shared connections file it cannot read; say why once it changes
+    private async reportInvalidSharedConnections(): Promise<void> {
+        try {
+            await this.storageService.loadSharedConnections();
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.error('Failed to load shared connections', { error: errorMessage });
+            vscode.window.showWarningMessage(`Shared connections were not loaded: ${errorMessage}`);
+        }
+    }
+
+    private isSharedServer(item: ServerTreeItem): boolean {
+        if (item.contextValue !== 'sharedServer') {
+            return false;
+        }
+        vscode.window.showInformationMessage(`${item.label} is shared through ${SHARED_CONNECTIONS_FILE} and cannot be changed here.`);
+        return true;
+    }
+
+    // Shared SQL logins come without a password; each user enters theirs the first time they connect
+    private async ensureSharedPassword(connectionId: string): Promise<boolean> {
+        const connection = await this.storageService.getConnection(connectionId);
+        if (!connection?.shared || connection.integratedSecurity || connection.password) {
+            return true;
+        }
+        return await this.promptSharedPassword(connection);
+    }
+
+    private async promptSharedPassword(connection: ConnectionConfig): Promise<boolean> {
+        const password = await vscode.window.showInputBox({
+            prompt: `Password of ${connection.username || 'the SQL login'} for the shared connection ${connection.name}`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (password === undefined) {
+            return false;
+        }
+
+        await this.storageService.setSharedConnectionPassword(connection.id, password);
+        this.logger.log('Shared connection password stored', { connectionId: connection.id });
+        try {
+            await this.websocketClient.notifyConnectionSaved(connection.id);
+        } catch (error) {
+            this.logger.error('Failed to notify backend of shared connection password', { connectionId: connection.id, error: String(error) });
+        }
+        return true;
+    }
+
+    handleDrag(source: readonly ExplorerTreeItem[], dataTransfer: vscode.DataTransfer): void {
+        const connectionIds = source
+            .filter((item): item is ServerTreeItem => item instanceof ServerTreeItem && item.contextValue === 'server')
+            .map(item => item.connectionId);
+        if (connectionIds.length > 0) {
+            dataTransfer.set(CONNECTION_MIME_TYPE, new vscode.DataTransferItem(connectionIds));
+        }
+    }
+
+    /**
+     * Moves dropped connections into the group they were dropped on. Dropping on a server joins
+     * that server's group; dropping on empty space moves them to the top level.
+     */
+    async handleDrop(target: ExplorerTreeItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const connectionIds: unknown = dataTransfer.get(CONNECTION_MIME_TYPE)?.value;
+        if (!Array.isArray(connectionIds) || target instanceof DatabaseObjectTreeItem) {
+            return;
+        }
+
+        const group = target instanceof ConnectionGroupTreeItem
+            ? target.groupName
+            : this.connections.find(conn => conn.id === target?.connectionId)?.group;
+        await this.moveConnectionsToGroup(connectionIds, group);
+    }
+
+    /**
+     * Moves the selected servers to an existing group, a new group or back to the top level.
+     */
+    async moveToGroup(item: ServerTreeItem, selectedItems?: readonly ExplorerTreeItem[]): Promise<void> {
+        const servers = (selectedItems && selectedItems.length > 0 ? selectedItems : [item])
+            .filter((selected): selected is ServerTreeItem => selected instanceof ServerTreeItem && selected.contextValue === 'server');
+        const connectionIds = servers.map(server => server.connectionId);
+        const grouped = this.connections.some(conn => connectionIds.includes(conn.id) && conn.group);
+
+        const picks: Array<vscode.QuickPickItem & { group?: string; newGroup?: boolean }> = [
+            ...this.getGroupNames().map(group => ({ label: group, group })),
+            { label: '$(add) New Group...', newGroup: true }
+        ];
+        if (grouped) {
+            picks.push({ label: '$(close) Remove from Group' });
+        }
+
+        const pick = await vscode.window.showQuickPick(picks, { placeHolder: 'Move to group' });
+        if (!pick) {
+            return;
+        }
+        const group = pick.newGroup ? await this.promptGroupName('Name of the new group') : pick.group;
+        if (pick.newGroup && !group) {
+            return;
+        }
+        await this.moveConnectionsToGroup(connectionIds, group);
+    }
+
+    /**
+     * Renames a group. Renaming to the name of another group merges the two.
+     */
+    async renameGroup(item: ConnectionGroupTreeItem): Promise<void> {
+        const newName = await this.promptGroupName(`Rename group "${item.groupName}"`, item.groupName);
+        if (!newName || newName === item.groupName) {
+            return;
+        }
+        const connectionIds = this.connections.filter(conn => conn.group === item.groupName).map(conn => conn.id);
+        await this.moveConnectionsToGroup(connectionIds, newName);
+    }
+
+    /**
+     * Removes a group, moving its connections to the top level.
+     */
+    async removeGroup(item: ConnectionGroupTreeItem): Promise<void> {
+        const connectionIds = this.connections.filter(conn => conn.group === item.groupName).map(conn => conn.id);
+        await this.moveConnectionsToGroup(connectionIds, undefined);
+    }
+
+    /**
+     * Tests every connection in a group at once and reports the ones that failed.
+     */
+    async testConnectionGroup(item: ConnectionGroupTreeItem): Promise<void> {
+        // Shared connections ask for their passwords one at a time before the tests run together
+        const connections: ConnectionConfig[] = [];
+        for (const connection of this.connections.filter(conn => conn.group === item.groupName)) {
+            if (await this.ensureSharedPassword(connection.id)) {
+                connections.push(connection);
+            }
+        }
+        if (connections.length === 0) {
+            return;
+        }
+        this.logger.log('Testing connection group', { group: item.groupName, count: connections.length });
+
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Testing connections in ${item.groupName}...`,
+                cancellable: false
+            },
+            async () => {
+                const results = await Promise.all(connections.map(async connection => {
+                    const resolved = await this.storageService.resolveConnectionSecrets(connection);
+                    const result = await this.httpClient.testConnection(resolved);
+                    return { name: connection.name, error: result.success ? undefined : result.error || 'Unknown error' };
+                }));
+
+                const failures = results.filter(result => result.error !== undefined);
+                if (failures.length === 0) {
+                    vscode.window.showInformationMessage(`All ${results.length} connections in ${item.groupName} successful!`);
+                    return;
+                }
+                this.logger.error('Connection group test failed', { group: item.groupName, failures });
+                vscode.window.showErrorMessage(
+                    `${failures.length} of ${results.length} connections in ${item.groupName} failed: ` +
+                    failures.map(failure => `${failure.name} (${failure.error})`).join(', ')
+                );
+            }
+        );
+    }
+
+    private async moveConnectionsToGroup(connectionIds: string[], group: string | undefined): Promise<void> {
+        const connections = await this.storageService.loadConnections();
+        // Shared connections keep the group they have in the shared connections file
+        const moved = connections.filter(conn => connectionIds.includes(conn.id) && !conn.shared && conn.group !== group);
+        if (moved.length === 0) {
+            return;
+        }
+
+        for (const connection of moved) {
+            if (group) {
+                connection.group = group;
+            } else {
+                delete connection.group;
+            }
+        }
+        await this.storageService.saveConnections(connections);
+        this.logger.log('Connections moved to group', { group, connectionIds: moved.map(conn => conn.id) });
+        await this.loadConnections();
+    }
+
+    private async promptGroupName(prompt: string, value?: string): Promise<string | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt,
+            value,
+            placeHolder: 'e.g. Dev, QA or Prod',
+            validateInput: input => input.trim() ? undefined : 'Group name is required'
+        });
+        return name?.trim() || undefined;
+    }
+
+    /**
+     * Opens the query editor on a procedure's connection and database with an EXEC statement
+     * whose parameters are bound to generators chosen from their types.
+     */
+    async stressTestProcedure(
+        item: DatabaseObjectTreeItem,
+        queryEditor: { show: (connectionId?: string, draft?: QueryEditorDraft) => void }
+    ): Promise<void> {
+        const { database, schema, objectName } = item.location;
+        if (item.contextValue !== 'procedure' || !database || !schema || !objectName) {
+            this.logger.warn('Stress test ignored - not a procedure node', { contextValue: item.contextValue });
+            return;
+        }
+
+        const response = await vscode.window.withProgress(
+            { location: { viewId: 'sqlServerExplorer' } },
+            () => this.httpClient.getDatabaseObjects({ ...item.location, objectType: 'parameters' })
+        );
+        if (!response?.success) {
+            const error = response?.error || 'Unknown error';
+            this.logger.error('Failed to load procedure parameters', { ...item.location, error });
+            vscode.window.showErrorMessage(`Failed to load the parameters of ${schema}.${objectName}: ${error}`);
+            return;
+        }
+
+        const stressTest = buildProcedureStressTest(schema, objectName, response.objects ?? []);
+        this.logger.log('Opening procedure stress test', { ...item.location, parameters: stressTest.parameters.length });
+        queryEditor.show(item.connectionId, { ...stressTest, database });
+    }
+
     async handleServerSelection(
-        serverTreeItem: ServerTreeItem,
+        serverTreeItem: ExplorerTreeItem,
         queryEditor?: { show: (connectionId?: string) => void },
         performanceGraph?: { show: (connectionId?: string) => void }
     ): Promise<void> {
         // Only handle server nodes, not other node types
-        if (serverTreeItem.contextValue !== 'server') {
+        if (serverTreeItem.contextValue !== 'server' && serverTreeItem.contextValue !== 'sharedServer') {
             this.logger.log('Selection ignored - not a server node', { contextValue: serverTreeItem.contextValue });
             return;
         }
 
-        const connectionId = serverTreeItem.connectionId;
+        const connectionId = 'connectionId' in serverTreeItem ? serverTreeItem.connectionId : undefined;
         if (!connectionId) {
             this.logger.warn('Server node selected but no connectionId found', { label: serverTreeItem.label });
             return;
         }
 
         this.logger.log('Server node selected', { connectionId, label: serverTreeItem.label });
+        if (!await this.ensureSharedPassword(connectionId)) {
+            return;
+        }
 
         // Open both panels together - they are intrinsically related
         if (queryEditor) {
@@ -910,6 +1712,34 @@ export class SqlServerExplorer implements vscode.TreeDataProvider<ServerTreeItem
     }
 }
 
+// Same server, database and login, whatever the connection is called
+function isSameServer(a: ImportedConnection, b: ImportedConnection): boolean {
+    const same = (x?: string, y?: string) => (x || '').toLowerCase() === (y || '').toLowerCase();
+    return same(a.server, b.server)
+        && (a.port || 1433) === (b.port || 1433)
+        && same(a.database, b.database)
+        && !!a.integratedSecurity === !!b.integratedSecurity
+        && same(a.username, b.username);
+}
+
+/**
+ * A user-defined folder of servers, e.g. Dev, QA or Prod.
+ */
+class ConnectionGroupTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly groupName: string,
+        connectionCount: number
+    ) {
+        super(groupName, vscode.TreeItemCollapsibleState.Expanded);
+        // A stable id lets VS Code remember whether the group is collapsed
+        this.id = `connectionGroup:${groupName}`;
+        this.contextValue = 'connectionGroup';
+        this.iconPath = new vscode.ThemeIcon('folder');
+        this.description = `${connectionCount}`;
+        this.tooltip = `${groupName} - ${connectionCount} connection${connectionCount === 1 ? '' : 's'}`;
+    }
+}
+
 class ServerTreeItem extends vscode.TreeItem {
     constructor(
         public readonly label: string,
@@ -921,6 +1751,49 @@ class ServerTreeItem extends vscode.TreeItem {
         super(label, collapsibleState);
         this.tooltip = `${this.label} - ${this.server}`;
         this.description = this.server;
+        if (contextValue === 'sharedServer') {
+            this.tooltip += `\nShared through ${SHARED_CONNECTIONS_FILE} (read-only)`;
+            this.description = `${this.server} · shared`;
+        }
     }
 }
 
+/**
+ * A folder, database, schema, object, column or parameter below a server.
+ */
+class DatabaseObjectTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly contextValue: string,
+        public readonly location: ObjectLocation,
+        icon: string,
+        public readonly childType?: DatabaseObjectType,
+        expandable = true
+    ) {
+        super(label, expandable ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        this.id = JSON.stringify([location.connectionId, location.database, location.schema, location.objectName, contextValue, label]);
+        this.iconPath = new vscode.ThemeIcon(icon);
+    }
+
+    get connectionId(): string {
+        return this.location.connectionId;
+    }
+
+    static fromObject(object: DatabaseObject, objectType: DatabaseObjectType, parentLocation: ObjectLocation): DatabaseObjectTreeItem {
+        const kind = OBJECT_NODE_KINDS[objectType];
+        const location = kind.locationKey ? { ...parentLocation, [kind.locationKey]: object.name } : parentLocation;
+        const item = new DatabaseObjectTreeItem(object.name, kind.contextValue, location, kind.icon, kind.childType, kind.expandable);
+        if (object.detail) {
+            item.description = object.detail;
+            item.tooltip = `${object.name} (${object.detail})`;
+        }
+        return item;
+    }
+
+    static loadError(parent: DatabaseObjectTreeItem, objectType: DatabaseObjectType, error: string): DatabaseObjectTreeItem {
+        const item = new DatabaseObjectTreeItem(`Failed to load ${objectType}`, 'loadError', parent.location, 'error', undefined, false);
+        item.description = error;
+        item.tooltip = `${error}\nUse Refresh on "${parent.label}" to try again.`;
+        return item;
+    }
+}
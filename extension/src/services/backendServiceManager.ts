@@ -1,4 +1,3 @@
-import * as vscode from 'vscode';
 import { ILogger } from './logger';
 import { PathResolver } from './pathResolver';
 import { PortFinder } from './portFinder';
@@ -7,8 +6,8 @@ import { ProcessManager } from './processManager';
 import { LogDirectoryManager } from './logDirectoryManager';
 import { IErrorDetectionService } from './interfaces/IErrorDetectionService';
 import { IErrorNotificationService } from './interfaces/IErrorNotificationService';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
 import { ErrorDetectionService } from './errorDetectionService';
-import { ErrorNotificationService } from './errorNotificationService';
 
 export interface BackendServiceInfo {
     url: string;
@@ -18,6 +17,8 @@ export interface BackendServiceInfo {
 
 /**
  * Orchestrates backend service lifecycle using specialized services.
+ * Has no dependency on VS Code so the command line runner can start the backend too;
+ * the host decides where paths come from and how failures are reported.
  * Single Responsibility: Coordination and orchestration only.
  */
 export class BackendServiceManager {
@@ -40,19 +41,19 @@ export class BackendServiceManager {
     private startupError: Error | null = null;
 
     constructor(
-        context: vscode.ExtensionContext,
+        host: IHostEnvironment,
         logger: ILogger,
-        errorDetectionService?: IErrorDetectionService,
-        errorNotificationService?: IErrorNotificationService
+        errorNotificationService: IErrorNotificationService,
+        errorDetectionService?: IErrorDetectionService
     ) {
         this.logger = logger;
-        this.pathResolver = new PathResolver(context, logger);
+        this.pathResolver = new PathResolver(host, logger);
         this.portFinder = new PortFinder(logger);
         this.healthChecker = new HealthChecker(logger);
-        this.logDirectoryManager = new LogDirectoryManager(context, logger, this.pathResolver);
-        this.processManager = new ProcessManager(context, logger, this.pathResolver, this.logDirectoryManager);
+        this.logDirectoryManager = new LogDirectoryManager(host, logger, this.pathResolver);
+        this.processManager = new ProcessManager(host, logger, this.pathResolver, this.logDirectoryManager);
         this.errorDetectionService = errorDetectionService || new ErrorDetectionService(logger);
-        this.errorNotificationService = errorNotificationService || new ErrorNotificationService(logger);
+        this.errorNotificationService = errorNotificationService;
     }
 
 
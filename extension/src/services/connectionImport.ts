@@ -0,0 +1,263 @@
+import { ConnectionConfig } from './storage';
+import { parseConnectionStringSettings, parseServerAddress } from './connectionString';
+
+/**
+ * A connection read from another tool, before it gets an id and a name that is unique in the explorer.
+ */
+export type ImportedConnection = Omit<ConnectionConfig, 'id' | 'passwordSecretKey'>;
+
+export class ConnectionImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConnectionImportError';
+    }
+}
+
+// Nested groups of the source tool become one explorer group, e.g. "Prod / Team A"
+const GROUP_SEPARATOR = ' / ';
+
+/**
+ * Reads the connections of an SSMS Registered Servers export (*.regsrvr) or an Azure Data Studio
+ * or VS Code settings file (*.json with datasource.connections or mssql.connections).
+ * Throws ConnectionImportError when the file cannot be read or holds no SQL Server connections.
+ */
+export function parseConnectionImportFile(fileName: string, content: string): ImportedConnection[] {
+    const extension = fileName.toLowerCase().split('.').pop();
+    let connections: ImportedConnection[];
+    if (extension === 'regsrvr') {
+        connections = parseRegisteredServers(content);
+    } else if (extension === 'json') {
+        connections = parseDataStudioSettings(content);
+    } else {
+        throw new ConnectionImportError(`${fileName} is not a Registered Servers export (.regsrvr) or a settings file (.json)`);
+    }
+
+    if (connections.length === 0) {
+        throw new ConnectionImportError(`${fileName} has no SQL Server connections`);
+    }
+    return connections;
+}
+
+/**
+ * Reads the database engine servers of an SSMS Registered Servers export. Passwords are
+ * encrypted for the exporting Windows user, so SQL logins are imported without one.
+ */
+export function parseRegisteredServers(xml: string): ImportedConnection[] {
+    const connections: ImportedConnection[] = [];
+    const serverPattern = /<([\w.-]+:)?RegisteredServer\b[^>]*>([\s\S]*?)<\/\1?RegisteredServer>/g;
+    let match: RegExpExecArray | null;
+    while ((match = serverPattern.exec(xml)) !== null) {
+        const element = match[2];
+        const serverType = readElement(element, 'ServerType');
+        if (serverType && serverType !== 'DatabaseEngine') {
+            continue;
+        }
+
+        const settings = parseConnectionStringSettings(readElement(element, 'ConnectionStringWithEncryptedPassword') || '');
+        const address = readElement(element, 'ServerName') || settings.get('data source') || settings.get('server');
+        if (!address) {
+            continue;
+        }
+
+        const integratedSecurity = ['true', 'sspi', 'yes'].includes((settings.get('integrated security') || '').toLowerCase());
+        connections.push(withoutUndefined({
+            name: readElement(element, 'Name') || address,
+            ...parseServerAddress(address),
+            database: settings.get('initial catalog') || settings.get('database') || undefined,
+            username: integratedSecurity ? undefined : settings.get('user id') || settings.get('uid') || undefined,
+            integratedSecurity,
+            group: readRegisteredServerGroup(readElement(element, 'Uri'))
+        }));
+    }
+    return connections;
+}
+
+/**
+ * Reads the SQL Server connections of an Azure Data Studio (datasource.connections) or
+ * VS Code mssql extension (mssql.connections) settings file, with their connection groups.
+ */
+export function parseDataStudioSettings(json: string): ImportedConnection[] {
+    let settings: unknown;
+    try {
+        settings = JSON.parse(stripJsonComments(json));
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new ConnectionImportError(`Settings file is not valid JSON: ${detail}`);
+    }
+    if (!isRecord(settings)) {
+        throw new ConnectionImportError('Settings file must be a JSON object');
+    }
+
+    const dataStudioGroups = readGroupPaths(settings['datasource.connectionGroups']);
+    const mssqlGroups = readGroupPaths(settings['mssql.connectionGroups']);
+    const connections: ImportedConnection[] = [];
+
+    for (const entry of asArray(settings['datasource.connections'])) {
+        // Azure Data Studio keeps the connection settings in "options"
+        if (!isRecord(entry) || !isRecord(entry.options) || (entry.providerName && entry.providerName !== 'MSSQL')) {
+            continue;
+        }
+        const connection = toImportedConnection(entry.options, dataStudioGroups.get(String(entry.groupId)));
+        if (connection) {
+            connections.push(connection);
+        }
+    }
+
+    for (const profile of asArray(settings['mssql.connections'])) {
+        if (!isRecord(profile)) {
+            continue;
+        }
+        const connection = toImportedConnection(profile, mssqlGroups.get(String(profile.groupId)));
+        if (connection) {
+            connections.push(connection);
+        }
+    }
+    return connections;
+}
+
+function toImportedConnection(options: Record<string, unknown>, group: string | undefined): ImportedConnection | undefined {
+    const address = optionalString(options.server);
+    if (!address) {
+        return undefined;
+    }
+
+    const integratedSecurity = options.authenticationType === 'Integrated';
+    const serverAddress = parseServerAddress(address);
+    const port = typeof options.port === 'number' ? options.port : Number(options.port) || serverAddress.port;
+    return withoutUndefined({
+        name: optionalString(options.connectionName) || optionalString(options.profileName) || address,
+        server: serverAddress.server,
+        port,
+        database: optionalString(options.database),
+        username: integratedSecurity ? undefined : optionalString(options.user),
+        password: integratedSecurity ? undefined : optionalString(options.password),
+        integratedSecurity,
+        group
+    });
+}
+
+// Full names of the connection groups by id; the root group itself is not part of the name
+function readGroupPaths(value: unknown): Map<string, string> {
+    const groups = new Map<string, { name: string; parentId?: string }>();
+    for (const group of asArray(value)) {
+        if (isRecord(group) && group.id !== undefined && typeof group.name === 'string') {
+            groups.set(String(group.id), { name: group.name, parentId: group.parentId === undefined ? undefined : String(group.parentId) });
+        }
+    }
+
+    const paths = new Map<string, string>();
+    for (const id of groups.keys()) {
+        const names: string[] = [];
+        const visited = new Set<string>();
+        let current = groups.get(id);
+        let currentId: string | undefined = id;
+        while (current && currentId !== undefined && !visited.has(currentId)) {
+            visited.add(currentId);
+            if (current.name.toUpperCase() !== 'ROOT' || current.parentId !== undefined) {
+                names.unshift(current.name);
+            }
+            currentId = current.parentId;
+            current = currentId !== undefined ? groups.get(currentId) : undefined;
+        }
+        if (names.length > 0) {
+            paths.set(id, names.join(GROUP_SEPARATOR));
+        }
+    }
+    return paths;
+}
+
+// The parent URI ends in the group path, e.g. .../DatabaseEngineServerGroup/ServerGroup/Prod/ServerGroup/Team%20A
+function readRegisteredServerGroup(parentUri: string | undefined): string | undefined {
+    const segments = (parentUri || '').split('/');
+    const rootIndex = segments.indexOf('DatabaseEngineServerGroup');
+    if (rootIndex < 0) {
+        return undefined;
+    }
+
+    const names: string[] = [];
+    for (let i = rootIndex + 1; i + 1 < segments.length; i += 2) {
+        if (segments[i] === 'ServerGroup' && segments[i + 1]) {
+            names.push(decodeUriSegment(segments[i + 1]));
+        }
+    }
+    return names.length > 0 ? names.join(GROUP_SEPARATOR) : undefined;
+}
+
+// Text of the first element with the given local name, whatever its namespace prefix
+function readElement(xml: string, localName: string): string | undefined {
+    const pattern = new RegExp(`<([\\w.-]+:)?${localName}\\b[^>]*?(?:\\/>|>([\\s\\S]*?)<\\/\\1?${localName}>)`);
+    const match = pattern.exec(xml);
+    const text = match?.[2] !== undefined ? decodeXmlEntities(match[2].trim()) : undefined;
+    return text || undefined;
+}
+
+function decodeXmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+        switch (code.toLowerCase()) {
+            case 'amp': return '&';
+            case 'lt': return '<';
+            case 'gt': return '>';
+            case 'quot': return '"';
+            case 'apos': return '\'';
+        }
+        const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    });
+}
+
+function decodeUriSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+}
+
+// settings.json allows comments and trailing commas
+function stripJsonComments(text: string): string {
+    let result = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            const start = i;
+            for (i++; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\') {
+                    i++;
+                }
+            }
+            result += text.slice(start, i + 1);
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') {
+                i++;
+            }
+            result += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 1;
+            result += ' ';
+        } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+            // Trailing comma
+            continue;
+        } else {
+            result += char;
+        }
+    }
+    return result;
+}
+
+// Leaves unset settings out, as the connection dialog does
+function withoutUndefined(connection: ImportedConnection): ImportedConnection {
+    return Object.fromEntries(Object.entries(connection).filter(([, value]) => value !== undefined)) as ImportedConnection;
+}
+
+function optionalString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,22 +1,82 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { ConnectionConfig } from './storage';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
+import { parseSharedConnections, SHARED_CONNECTION_ID_PREFIX, SHARED_CONNECTIONS_FILE } from './sharedConnections';
 
 const STORAGE_KEY_CONNECTIONS = 'sqlStressTest.connections';
+const SECRET_KEY_PREFIX = 'sqlStressTest.connection.';
 
 /**
  * Service responsible for managing connection storage.
+ * Passwords are kept in SecretStorage; workspaceState only holds a reference to the secret.
+ * Connections shared through the workspace's .vscode/sqlstress-connections.json are listed
+ * after the personal ones and are read-only.
  * Single Responsibility: Connection storage operations only.
  */
 export class ConnectionStorageService {
-    constructor(private context: vscode.ExtensionContext) {}
+    constructor(
+        private context: vscode.ExtensionContext,
+        private hostEnvironment?: IHostEnvironment
+    ) {}
 
+    /**
+     * Saves the personal connections, moving any plain-text password into SecretStorage.
+     * Shared connections in the list are skipped; they live in the shared connections file.
+     */
     async saveConnections(connections: ConnectionConfig[]): Promise<void> {
-        await this.context.workspaceState.update(STORAGE_KEY_CONNECTIONS, connections);
+        const stored: ConnectionConfig[] = [];
+        for (const connection of connections.filter(c => !c.shared)) {
+            stored.push(await this.storeSecret(connection));
+        }
+        await this.context.workspaceState.update(STORAGE_KEY_CONNECTIONS, stored);
     }
 
+    /**
+     * Loads the personal connections as stored, followed by the shared ones. Passwords are not
+     * resolved; use getConnection or resolveSecrets when the password is actually needed.
+     * An invalid shared connections file is skipped; loadSharedConnections reports why.
+     */
     async loadConnections(): Promise<ConnectionConfig[]> {
         const connections = this.context.workspaceState.get<ConnectionConfig[]>(STORAGE_KEY_CONNECTIONS, []);
-        return connections;
+        const shared = await this.loadSharedConnections().catch(() => []);
+        return shared.length > 0 ? [...connections, ...shared] : connections;
+    }
+
+    /**
+     * Reads the connections of the workspace's shared connections file, marked as shared.
+     * Throws SharedConnectionsError when the file is not valid.
+     */
+    async loadSharedConnections(): Promise<ConnectionConfig[]> {
+        const filePath = this.getSharedConnectionsFile();
+        if (!filePath || !fs.existsSync(filePath)) {
+            return [];
+        }
+
+        const connections = parseSharedConnections(await fs.promises.readFile(filePath, 'utf8'));
+        return connections.map(connection => {
+            const id = `${SHARED_CONNECTION_ID_PREFIX}${connection.id}`;
+            // Each user keeps their own password for a shared SQL login
+            return connection.integratedSecurity
+                ? { ...connection, id, shared: true }
+                : { ...connection, id, shared: true, passwordSecretKey: this.getSecretKey(id) };
+        });
+    }
+
+    /**
+     * Stores this user's password for a shared connection.
+     */
+    async setSharedConnectionPassword(id: string, password: string): Promise<void> {
+        await this.context.secrets.store(this.getSecretKey(id), password);
+    }
+
+    /**
+     * Path of the workspace's shared connections file, whether or not it exists yet.
+     */
+    getSharedConnectionsFile(): string | undefined {
+        const folder = this.hostEnvironment?.getWorkspaceFolder();
+        return folder ? path.join(folder, SHARED_CONNECTIONS_FILE) : undefined;
     }
 
     async addConnection(connection: ConnectionConfig): Promise<void> {
@@ -37,6 +97,7 @@ export class ConnectionStorageService {
         const connections = await this.loadConnections();
         const filtered = connections.filter(c => c.id !== id);
         await this.saveConnections(filtered);
+        await this.context.secrets.delete(this.getSecretKey(id));
     }
 
     async updateConnection(id: string, connection: ConnectionConfig): Promise<void> {
@@ -45,12 +106,68 @@ export class ConnectionStorageService {
         if (index >= 0) {
             connections[index] = connection;
             await this.saveConnections(connections);
+            if (!connection.password && !connection.passwordSecretKey) {
+                // Password was cleared while editing
+                await this.context.secrets.delete(this.getSecretKey(id));
+            }
         }
     }
 
+    /**
+     * Gets a connection with its password resolved from SecretStorage.
+     */
     async getConnection(id: string): Promise<ConnectionConfig | undefined> {
         const connections = await this.loadConnections();
-        return connections.find(c => c.id === id);
+        const connection = connections.find(c => c.id === id);
+        return connection ? await this.resolveSecrets(connection) : undefined;
+    }
+
+    /**
+     * Returns a copy of the connection with the password read from SecretStorage.
+     */
+    async resolveSecrets(connection: ConnectionConfig): Promise<ConnectionConfig> {
+        if (!connection.passwordSecretKey) {
+            return connection;
+        }
+        const resolved: ConnectionConfig = { ...connection };
+        resolved.password = await this.context.secrets.get(connection.passwordSecretKey);
+        delete resolved.passwordSecretKey;
+        return resolved;
     }
-}
 
+    /**
+     * Moves plain-text passwords left in workspaceState by earlier versions into SecretStorage.
+     * Returns the number of connections migrated.
+     */
+    async migratePasswordsToSecretStorage(): Promise<number> {
+        const connections = await this.loadConnections();
+        const migrated = connections.filter(c => c.password !== undefined).length;
+        if (migrated > 0) {
+            await this.saveConnections(connections);
+        }
+        return migrated;
+    }
+
+    private async storeSecret(connection: ConnectionConfig): Promise<ConnectionConfig> {
+        if (connection.password === undefined) {
+            return connection;
+        }
+
+        const stored: ConnectionConfig = { ...connection };
+        delete stored.password;
+        const secretKey = this.getSecretKey(connection.id);
+        if (connection.password) {
+            await this.context.secrets.store(secretKey, connection.password);
+            stored.passwordSecretKey = secretKey;
+        } else {
+            // An empty password clears any previously stored secret
+            await this.context.secrets.delete(secretKey);
+            delete stored.passwordSecretKey;
+        }
+        return stored;
+    }
+
+    private getSecretKey(connectionId: string): string {
+        return `${SECRET_KEY_PREFIX}${connectionId}.password`;
+    }
+}
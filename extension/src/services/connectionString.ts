@@ -0,0 +1,346 @@
+import { ApplicationIntent, ConnectionConfig, ConnectionEncryption } from './storage';
+
+/**
+ * SqlClient options a connection carries besides server, database and login.
+ */
+export type ConnectionOptions = Pick<ConnectionConfig,
+    'encrypt' | 'trustServerCertificate' | 'connectTimeout' | 'commandTimeout' |
+    'applicationName' | 'applicationIntent' | 'multiSubnetFailover' | 'additionalKeywords'>;
+
+/**
+ * The connection dialog fields a connection string fills in.
+ */
+export type ConnectionStringSettings = Pick<ConnectionConfig, 'server' | 'port' | 'database' | 'username' | 'password' | 'integratedSecurity'>
+    & Omit<ConnectionOptions, 'additionalKeywords'>;
+
+export interface ParsedConnectionString {
+    settings: ConnectionStringSettings;
+    /** Keywords without a connection setting of their own, as written in the connection string */
+    options: Record<string, string>;
+    /** Keywords SqlClient does not support, e.g. Provider or Driver of OLE DB and ODBC strings; left out of options */
+    ignoredKeywords: string[];
+}
+
+export class ConnectionStringError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConnectionStringError';
+    }
+}
+
+const CONNECTION_OPTION_KEYS: Array<keyof ConnectionOptions> = [
+    'encrypt', 'trustServerCertificate', 'connectTimeout', 'commandTimeout',
+    'applicationName', 'applicationIntent', 'multiSubnetFailover', 'additionalKeywords'
+];
+
+// SqlClient keyword aliases, lower-cased with single spaces
+const KEYWORD_ALIASES: Record<string, keyof ConnectionStringSettings> = {
+    'data source': 'server',
+    'server': 'server',
+    'address': 'server',
+    'addr': 'server',
+    'network address': 'server',
+    'initial catalog': 'database',
+    'database': 'database',
+    'user id': 'username',
+    'uid': 'username',
+    'user': 'username',
+    'password': 'password',
+    'pwd': 'password',
+    'integrated security': 'integratedSecurity',
+    'trusted_connection': 'integratedSecurity',
+    'encrypt': 'encrypt',
+    'trustservercertificate': 'trustServerCertificate',
+    'trust server certificate': 'trustServerCertificate',
+    'connect timeout': 'connectTimeout',
+    'connection timeout': 'connectTimeout',
+    'timeout': 'connectTimeout',
+    'command timeout': 'commandTimeout',
+    'application name': 'applicationName',
+    'app': 'applicationName',
+    'applicationintent': 'applicationIntent',
+    'application intent': 'applicationIntent',
+    'multisubnetfailover': 'multiSubnetFailover',
+    'multi subnet failover': 'multiSubnetFailover'
+};
+
+// The other keywords SqlClient accepts, in the same form; anything else makes it throw
+const OTHER_SQLCLIENT_KEYWORDS = new Set([
+    'attachdbfilename', 'extended properties', 'initial file name', 'attestation protocol', 'authentication',
+    'column encryption setting', 'connect retry count', 'connectretrycount', 'connect retry interval',
+    'connectretryinterval', 'current language', 'language', 'enclave attestation url', 'enlist',
+    'failover partner', 'failover partner spn', 'failoverpartnerspn', 'host name in certificate',
+    'hostnameincertificate', 'ip address preference', 'ipaddresspreference', 'load balance timeout',
+    'connection lifetime', 'max pool size', 'min pool size', 'multiple active result sets',
+    'multipleactiveresultsets', 'packet size', 'persist security info', 'persistsecurityinfo',
+    'pool blocking period', 'poolblockingperiod', 'pooling', 'replication', 'server certificate',
+    'servercertificate', 'server spn', 'serverspn', 'transaction binding', 'type system version',
+    'user instance', 'workstation id', 'wsid'
+]);
+
+// Settings that only their own dialog fields may set, so a password never ends up in plain text
+const CONNECTION_FIELD_SETTINGS: Array<keyof ConnectionStringSettings> = ['server', 'database', 'username', 'password', 'integratedSecurity'];
+
+const ENCRYPTION_VALUES: ConnectionEncryption[] = ['Optional', 'Mandatory', 'Strict'];
+const APPLICATION_INTENT_VALUES: ApplicationIntent[] = ['ReadWrite', 'ReadOnly'];
+
+/**
+ * Reads an ADO.NET / SqlClient connection string, e.g.
+ * "Data Source=tcp:sql01,1444;Initial Catalog=Orders;User ID=stress;Password=...".
+ * Throws ConnectionStringError when it names no server or a value cannot be read.
+ */
+export function parseConnectionString(connectionString: string): ParsedConnectionString {
+    const settings: Partial<ConnectionStringSettings> = {};
+    const options: Record<string, string> = {};
+    const ignoredKeywords: string[] = [];
+    for (const [keyword, value] of readPairs(connectionString)) {
+        switch (KEYWORD_ALIASES[normalizeKeyword(keyword)]) {
+            case 'server':
+                Object.assign(settings, parseServerAddress(value));
+                break;
+            case 'database':
+                settings.database = value || undefined;
+                break;
+            case 'username':
+                settings.username = value || undefined;
+                break;
+            case 'password':
+                settings.password = value || undefined;
+                break;
+            case 'integratedSecurity':
+                settings.integratedSecurity = isTrue(value);
+                break;
+            case 'encrypt':
+                settings.encrypt = parseEncryption(keyword, value);
+                break;
+            case 'trustServerCertificate':
+                settings.trustServerCertificate = parseBoolean(keyword, value);
+                break;
+            case 'connectTimeout':
+                settings.connectTimeout = parseSeconds(keyword, value);
+                break;
+            case 'commandTimeout':
+                settings.commandTimeout = parseSeconds(keyword, value);
+                break;
+            case 'applicationName':
+                settings.applicationName = value || undefined;
+                break;
+            case 'applicationIntent':
+                settings.applicationIntent = parseApplicationIntent(keyword, value);
+                break;
+            case 'multiSubnetFailover':
+                settings.multiSubnetFailover = parseBoolean(keyword, value);
+                break;
+            default:
+                if (isSqlClientKeyword(keyword)) {
+                    options[keyword] = value;
+                } else {
+                    ignoredKeywords.push(keyword);
+                }
+        }
+    }
+
+    if (!settings.server) {
+        throw new ConnectionStringError('Connection string needs a Data Source or Server');
+    }
+    return {
+        settings: { ...settings, server: settings.server, integratedSecurity: settings.integratedSecurity === true },
+        options,
+        ignoredKeywords
+    };
+}
+
+/**
+ * Writes a connection as a SqlClient connection string. The password is left out.
+ */
+export function buildConnectionString(connection: ConnectionConfig): string {
+    const pairs: Array<[string, string]> = [
+        ['Data Source', connection.port && connection.port !== 1433 ? `${connection.server},${connection.port}` : connection.server]
+    ];
+    if (connection.database) {
+        pairs.push(['Initial Catalog', connection.database]);
+    }
+    if (connection.integratedSecurity) {
+        pairs.push(['Integrated Security', 'True']);
+    } else if (connection.username) {
+        pairs.push(['User ID', connection.username]);
+    }
+    if (connection.encrypt) {
+        pairs.push(['Encrypt', connection.encrypt]);
+    }
+    if (connection.trustServerCertificate !== undefined) {
+        pairs.push(['Trust Server Certificate', connection.trustServerCertificate ? 'True' : 'False']);
+    }
+    if (connection.connectTimeout !== undefined) {
+        pairs.push(['Connect Timeout', String(connection.connectTimeout)]);
+    }
+    if (connection.commandTimeout !== undefined) {
+        pairs.push(['Command Timeout', String(connection.commandTimeout)]);
+    }
+    if (connection.applicationName) {
+        pairs.push(['Application Name', connection.applicationName]);
+    }
+    if (connection.applicationIntent) {
+        pairs.push(['Application Intent', connection.applicationIntent]);
+    }
+    if (connection.multiSubnetFailover !== undefined) {
+        pairs.push(['Multi Subnet Failover', connection.multiSubnetFailover ? 'True' : 'False']);
+    }
+    pairs.push(...Object.entries(connection.additionalKeywords || {}).filter(([keyword]) => !isConnectionFieldKeyword(keyword)));
+    return formatPairs(pairs);
+}
+
+/**
+ * Copies the SqlClient options that are set on a connection, leaving out the unset ones.
+ */
+export function pickConnectionOptions(connection: ConnectionOptions): ConnectionOptions {
+    const options: ConnectionOptions = {};
+    for (const key of CONNECTION_OPTION_KEYS) {
+        if (connection[key] !== undefined) {
+            Object.assign(options, { [key]: connection[key] });
+        }
+    }
+    return options;
+}
+
+/**
+ * Checks options entered by hand before they are saved: SqlClient rejects the whole
+ * connection string for one keyword or value it does not know.
+ * Throws ConnectionStringError naming what it would reject.
+ */
+export function validateConnectionOptions(options: ConnectionOptions): void {
+    if (options.encrypt !== undefined && !ENCRYPTION_VALUES.includes(options.encrypt)) {
+        throw new ConnectionStringError(`Encrypt must be Optional, Mandatory or Strict, not "${options.encrypt}"`);
+    }
+    if (options.applicationIntent !== undefined && !APPLICATION_INTENT_VALUES.includes(options.applicationIntent)) {
+        throw new ConnectionStringError(`Application Intent must be ReadWrite or ReadOnly, not "${options.applicationIntent}"`);
+    }
+    const keywords = Object.keys(options.additionalKeywords || {});
+    const fieldKeywords = keywords.filter(isConnectionFieldKeyword);
+    if (fieldKeywords.length > 0) {
+        throw new ConnectionStringError(`Set the server, database and login in their own fields, not as the keyword${fieldKeywords.length > 1 ? 's' : ''} ${fieldKeywords.join(', ')}`);
+    }
+    const unsupported = keywords.filter(keyword => !isSqlClientKeyword(keyword));
+    if (unsupported.length > 0) {
+        throw new ConnectionStringError(`SqlClient does not support the keyword${unsupported.length > 1 ? 's' : ''} ${unsupported.join(', ')}`);
+    }
+}
+
+/**
+ * Reads free-form keywords written as "Keyword=Value;Keyword=Value", keeping their casing.
+ */
+export function parseAdditionalKeywords(text: string): Record<string, string> {
+    return Object.fromEntries(readPairs(text).map(([keyword, value]) => [keyword.trim(), value]));
+}
+
+/**
+ * Writes free-form keywords the way parseAdditionalKeywords reads them.
+ */
+export function formatAdditionalKeywords(keywords: Record<string, string> | undefined): string {
+    return formatPairs(Object.entries(keywords || {}));
+}
+
+/**
+ * Settings of a connection string keyed by lower-cased keyword; values may be quoted with " or '.
+ */
+export function parseConnectionStringSettings(connectionString: string): Map<string, string> {
+    return new Map(readPairs(connectionString).map(([keyword, value]) => [keyword.toLowerCase(), value]));
+}
+
+/**
+ * Splits a server address into server and port: "tcp:sql01\\inst,1433" -> sql01\\inst on port 1433.
+ */
+export function parseServerAddress(address: string): { server: string; port?: number } {
+    const withoutProtocol = address.trim().replace(/^(tcp|np|lpc):/i, '');
+    const portMatch = /^(.*),\s*(\d+)$/.exec(withoutProtocol);
+    return portMatch
+        ? { server: portMatch[1].trim(), port: parseInt(portMatch[2], 10) }
+        : { server: withoutProtocol };
+}
+
+function readPairs(connectionString: string): Array<[string, string]> {
+    const pairs: Array<[string, string]> = [];
+    const pairPattern = /\s*([^=;]+?)\s*=\s*("(?:[^"]|"")*"|'(?:[^']|'')*'|[^;]*)\s*(?:;|$)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pairPattern.exec(connectionString)) !== null && match[0] !== '') {
+        let value = match[2].trim();
+        if (/^(".*"|'.*')$/.test(value)) {
+            const quote = value[0];
+            value = value.slice(1, -1).split(quote + quote).join(quote);
+        }
+        pairs.push([match[1], value]);
+    }
+    return pairs;
+}
+
+function formatPairs(pairs: Array<[string, string]>): string {
+    return pairs.map(([keyword, value]) => `${keyword}=${quoteValue(value)}`).join(';');
+}
+
+function normalizeKeyword(keyword: string): string {
+    return keyword.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isSqlClientKeyword(keyword: string): boolean {
+    const normalized = normalizeKeyword(keyword);
+    return Object.prototype.hasOwnProperty.call(KEYWORD_ALIASES, normalized) || OTHER_SQLCLIENT_KEYWORDS.has(normalized);
+}
+
+function isConnectionFieldKeyword(keyword: string): boolean {
+    const setting = KEYWORD_ALIASES[normalizeKeyword(keyword)];
+    return setting !== undefined && CONNECTION_FIELD_SETTINGS.includes(setting);
+}
+
+function isTrue(value: string): boolean {
+    return ['true', 'sspi', 'yes'].includes(value.trim().toLowerCase());
+}
+
+function parseBoolean(keyword: string, value: string): boolean {
+    const normalized = value.trim().toLowerCase();
+    if (['true', 'yes'].includes(normalized)) {
+        return true;
+    }
+    if (['false', 'no'].includes(normalized)) {
+        return false;
+    }
+    throw new ConnectionStringError(`${keyword} must be True or False, not "${value}"`);
+}
+
+// Encrypt=True/False are the names SqlClient used before Strict existed
+function parseEncryption(keyword: string, value: string): ConnectionEncryption {
+    switch (value.trim().toLowerCase()) {
+        case 'true':
+        case 'yes':
+        case 'mandatory':
+            return 'Mandatory';
+        case 'false':
+        case 'no':
+        case 'optional':
+            return 'Optional';
+        case 'strict':
+            return 'Strict';
+    }
+    throw new ConnectionStringError(`${keyword} must be Optional, Mandatory or Strict, not "${value}"`);
+}
+
+function parseApplicationIntent(keyword: string, value: string): ApplicationIntent {
+    switch (value.trim().toLowerCase()) {
+        case 'readwrite':
+            return 'ReadWrite';
+        case 'readonly':
+            return 'ReadOnly';
+    }
+    throw new ConnectionStringError(`${keyword} must be ReadWrite or ReadOnly, not "${value}"`);
+}
+
+function parseSeconds(keyword: string, value: string): number {
+    if (!/^\s*\d+\s*$/.test(value)) {
+        throw new ConnectionStringError(`${keyword} must be a number of seconds, not "${value}"`);
+    }
+    return parseInt(value, 10);
+}
+
+// Values with separators, quotes or surrounding spaces are quoted the way SqlClient reads them back
+function quoteValue(value: string): string {
+    return /[;"']|^\s|\s$/.test(value) ? `"${value.split('"').join('""')}"` : value;
+}
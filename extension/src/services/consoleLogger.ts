@@ -0,0 +1,46 @@
+import { ILogger } from './logger';
+
+/**
+ * Logger that writes to the console only, for services used outside VS Code.
+ * Single Responsibility: Console logging only.
+ */
+export class ConsoleLogger implements ILogger {
+    constructor(
+        private readonly channelName: string,
+        private readonly verbose: boolean = true
+    ) {}
+
+    log(message: string, data?: unknown): void {
+        if (this.verbose) {
+            console.log(this.format(message, data));
+        }
+    }
+
+    error(message: string, error?: unknown): void {
+        const details = error instanceof Error ? error.message : error;
+        console.error(this.format(`ERROR: ${message}`, details));
+    }
+
+    warn(message: string, data?: unknown): void {
+        console.warn(this.format(`WARN: ${message}`, data));
+    }
+
+    info(message: string, data?: unknown): void {
+        if (this.verbose) {
+            console.info(this.format(`INFO: ${message}`, data));
+        }
+    }
+
+    showOutputChannel(): void {
+        // There is no output channel outside VS Code
+    }
+
+    getLogFilePath(): string | null {
+        return null;
+    }
+
+    private format(message: string, data?: unknown): string {
+        const timestamp = new Date().toISOString();
+        return `[${timestamp}] [${this.channelName}] ${message}${data !== undefined ? ` | ${JSON.stringify(data)}` : ''}`;
+    }
+}
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { IErrorNotificationService } from './interfaces/IErrorNotificationService';
 import { ExtendedEventsErrorDetails, SpawnErrorDetails, PrematureExitErrorDetails } from './interfaces/IErrorDetectionService';
 import { ILogger } from './logger';
+import { AssertionResult, describeAssertionResult } from './runAssertions';
 
 /**
  * Service responsible for notifying users about errors.
@@ -99,5 +100,17 @@ export class ErrorNotificationService implements IErrorNotificationService {
 
         vscode.window.showErrorMessage(fullErrorMessage);
     }
+
+    notifyAssertionFailures(runLabel: string, failures: AssertionResult[]): void {
+        const fullErrorMessage = `${runLabel} failed ${failures.length} assertion${failures.length === 1 ? '' : 's'}: ` +
+                                failures.map(describeAssertionResult).join('; ');
+
+        this.logger.error('Stress test run failed its assertions', {
+            runLabel,
+            failures: failures.map(f => ({ expression: f.expression, actual: f.actual }))
+        });
+
+        vscode.window.showErrorMessage(fullErrorMessage);
+    }
 }
 
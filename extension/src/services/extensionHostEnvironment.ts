@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
+import { DEFAULT_BACKEND_URL } from './httpClient';
+
+/**
+ * Host environment backed by the VS Code extension context.
+ * Single Responsibility: Adapting vscode.ExtensionContext to IHostEnvironment.
+ */
+export class ExtensionHostEnvironment implements IHostEnvironment {
+    constructor(private readonly context: vscode.ExtensionContext) {}
+
+    get extensionPath(): string {
+        return this.context.extensionPath;
+    }
+
+    getWorkspaceFolder(): string | undefined {
+        return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    }
+}
+
+/**
+ * Backend URL from the sqlStressTest.backendUrl setting, used when no backend was started by the extension.
+ */
+export function getConfiguredBackendUrl(): string {
+    return vscode.workspace.getConfiguration('sqlStressTest').get<string>('backendUrl', DEFAULT_BACKEND_URL);
+}
@@ -1,6 +1,6 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import * as vscode from 'vscode';
-import { ILogger, Logger } from './logger';
+import { ILogger } from './logger';
+import { ConsoleLogger } from './consoleLogger';
 
 export interface QueryRequest {
     connectionId: string;
@@ -17,15 +17,103 @@ export interface QueryResponse {
     error?: string;
 }
 
+export interface ScenarioQuery {
+    name: string;
+    query: string;
+    weight: number; // Relative share of the executions, e.g. 70/20/10
+}
+
+export type QueryParameterGenerator = 'sequential' | 'randomRange' | 'guid' | 'csvList' | 'lookupQuery';
+
+// Binds a generated value to a @param placeholder on every execution
+export interface QueryParameter {
+    name: string; // Placeholder name, e.g. @customerId
+    generator: QueryParameterGenerator;
+    start?: number; // sequential
+    step?: number; // sequential
+    min?: number; // randomRange, inclusive
+    max?: number; // randomRange, inclusive
+    values?: string[]; // csvList, read from the chosen CSV file
+    lookupQuery?: string; // lookupQuery, run once before the test
+}
+
+export type LoadProfileMode = 'fixed' | 'duration' | 'ramp' | 'targetRate';
+
+// How load is applied over time; every mode except fixed runs for durationSeconds
+export interface LoadProfile {
+    mode: LoadProfileMode;
+    durationSeconds?: number;
+    startWorkers?: number; // ramp
+    stepWorkers?: number; // ramp, added every stepIntervalSeconds
+    stepIntervalSeconds?: number; // ramp
+    maxWorkers?: number; // ramp
+    rampShape?: 'stepped' | 'linear'; // ramp
+    targetRate?: number; // targetRate, executions per second capped by parallelExecutions
+}
+
+export type ExecutionPlanCaptureMode = 'sample' | 'slowest';
+
+// Collects actual execution plans: every sampleInterval-th execution, or the slowest of all executions
+export interface ExecutionPlanCapture {
+    mode: ExecutionPlanCaptureMode;
+    sampleInterval?: number; // sample, defaults to 10
+    count?: number; // Plans kept for the run, defaults to 5
+}
+
+export interface StressTestRequest {
+    connectionId: string;
+    query: string;
+    queries?: ScenarioQuery[]; // Weighted scenario; replaces query when provided
+    parameters?: QueryParameter[];
+    loadProfile?: LoadProfile; // Defaults to fixed: totalExecutions with parallelExecutions workers
+    planCapture?: ExecutionPlanCapture;
+    parallelExecutions: number;
+    totalExecutions: number;
+    database?: string;
+}
+
+export interface StressTestResponse {
+    success: boolean;
+    testId?: string;
+    error?: string;
+    message?: string;
+    cancelled?: boolean;
+}
+
+// Children of a node in the SQL Servers explorer
+export type DatabaseObjectType = 'databases' | 'schemas' | 'tables' | 'views' | 'procedures' | 'functions' | 'columns' | 'parameters';
+
+export interface DatabaseObjectsRequest {
+    connectionId: string;
+    objectType: DatabaseObjectType;
+    database?: string; // Required for everything but databases
+    schema?: string; // Required below the schema level
+    objectName?: string; // Table or view for columns, procedure or function for parameters
+}
+
+export interface DatabaseObject {
+    name: string;
+    detail?: string; // e.g. "PK, int, not null" for a column
+    dataType?: string; // Declared type of a column or parameter, e.g. nvarchar(50)
+    isOutput?: boolean; // Parameters only
+}
+
+export interface DatabaseObjectsResponse {
+    success: boolean;
+    objects?: DatabaseObject[];
+    error?: string;
+}
+
+export const DEFAULT_BACKEND_URL = 'http://localhost:5000';
+
 export class HttpClient {
     private client: AxiosInstance;
     private readonly baseUrl: string;
     private logger: ILogger;
 
     constructor(baseUrl?: string, logger?: ILogger) {
-        const config = vscode.workspace.getConfiguration('sqlStressTest');
-        this.baseUrl = baseUrl || config.get<string>('backendUrl', 'http://localhost:5000');
-        this.logger = logger || new Logger('SQL Stress Test - HTTP Client');
+        this.baseUrl = baseUrl || DEFAULT_BACKEND_URL;
+        this.logger = logger || new ConsoleLogger('SQL Stress Test - HTTP Client');
         
         this.client = axios.create({
             baseURL: this.baseUrl,
@@ -63,32 +151,24 @@ export class HttpClient {
         }
     }
 
-    async executeStressTest(request: {
-        connectionId: string;
-        query: string;
-        parallelExecutions: number;
-        totalExecutions: number;
-        database?: string;
-    }): Promise<{
-        success: boolean;
-        testId?: string;
-        error?: string;
-        message?: string;
-    }> {
+    /**
+     * Starts a stress test. The backend responds as soon as the test is running;
+     * the final result arrives over SignalR as StressTestCompleted.
+     */
+    async executeStressTest(request: StressTestRequest): Promise<StressTestResponse> {
         this.logger.log('Executing stress test', { 
             connectionId: request.connectionId, 
             parallelExecutions: request.parallelExecutions,
             totalExecutions: request.totalExecutions,
-            queryLength: request.query.length 
+            queryLength: request.query.length,
+            scenarioQueries: request.queries?.map(q => ({ name: q.name, weight: q.weight })),
+            parameters: request.parameters?.map(p => ({ name: p.name, generator: p.generator })),
+            loadProfile: request.loadProfile,
+            planCapture: request.planCapture
         });
         try {
-            const response = await this.client.post<{
-                success: boolean;
-                testId?: string;
-                error?: string;
-                message?: string;
-            }>('/api/sql/stress-test', request);
-            this.logger.log('Stress test executed', { 
+            const response = await this.client.post<StressTestResponse>('/api/sql/stress-test', request);
+            this.logger.log('Stress test started', { 
                 success: response.data.success, 
                 testId: response.data.testId,
                 message: response.data.message,
@@ -110,6 +190,63 @@ export class HttpClient {
         }
     }
 
+    /**
+     * Cancels a running stress test. Resolves once the backend confirms that
+     * in-flight executions have been cancelled.
+     */
+    async cancelStressTest(testId: string): Promise<StressTestResponse> {
+        this.logger.log('Cancelling stress test', { testId });
+        try {
+            const response = await this.client.post<StressTestResponse>(
+                `/api/sql/stress-test/${encodeURIComponent(testId)}/cancel`
+            );
+            this.logger.log('Stress test cancelled', { testId, message: response.data.message });
+            return response.data;
+        } catch (error) {
+            const axiosError = error as AxiosError<StressTestResponse>;
+            this.logger.error('Stress test cancellation failed', {
+                testId,
+                message: axiosError.message,
+                status: axiosError.response?.status,
+                data: axiosError.response?.data
+            });
+            if (axiosError.response?.data) {
+                return axiosError.response.data;
+            }
+            throw new Error(`Failed to cancel stress test: ${axiosError.message}`);
+        }
+    }
+
+    /**
+     * Lists the databases, schemas, objects, columns or parameters below an explorer node.
+     * Server errors come back as success: false rather than being thrown.
+     */
+    async getDatabaseObjects(request: DatabaseObjectsRequest): Promise<DatabaseObjectsResponse> {
+        this.logger.log('Loading database objects', request);
+        try {
+            const response = await this.client.post<DatabaseObjectsResponse>('/api/sql/objects', request);
+            this.logger.log('Database objects loaded', {
+                objectType: request.objectType,
+                success: response.data.success,
+                count: response.data.objects?.length,
+                error: response.data.error
+            });
+            return response.data;
+        } catch (error) {
+            const axiosError = error as AxiosError<DatabaseObjectsResponse>;
+            this.logger.error('Loading database objects failed', {
+                ...request,
+                message: axiosError.message,
+                status: axiosError.response?.status,
+                data: axiosError.response?.data
+            });
+            if (axiosError.response?.data) {
+                return axiosError.response.data;
+            }
+            return { success: false, error: axiosError.message };
+        }
+    }
+
     async testConnection(connectionConfig: any): Promise<{
         success: boolean;
         error?: string;
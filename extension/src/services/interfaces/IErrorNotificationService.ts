@@ -1,4 +1,5 @@
 import { ExtendedEventsErrorDetails, SpawnErrorDetails, PrematureExitErrorDetails } from '../interfaces/IErrorDetectionService';
+import { AssertionResult } from '../runAssertions';
 
 /**
  * Interface for notifying users about errors.
@@ -39,5 +40,12 @@ export interface IErrorNotificationService {
      * @param maxAttempts - Maximum restart attempts
      */
     notifyStartupFailure(errorMessage: string, attemptNumber: number, maxAttempts: number): void;
+
+    /**
+     * Show error for a stress test run that failed its assertions.
+     * @param runLabel - Run shown in the message, e.g. "Run #3"
+     * @param failures - Assertions the run did not meet
+     */
+    notifyAssertionFailures(runLabel: string, failures: AssertionResult[]): void;
 }
 
@@ -0,0 +1,16 @@
+/**
+ * Interface for the host the services run in: the VS Code extension or the command line.
+ * Single Responsibility: Host paths lookup.
+ */
+export interface IHostEnvironment {
+    /**
+     * Directory the extension is installed in; bundled backend executables live under resources/backend.
+     */
+    readonly extensionPath: string;
+
+    /**
+     * Folder the user is working in, used as a fallback when the project root cannot be found.
+     * @returns Folder path, or undefined when there is none
+     */
+    getWorkspaceFolder(): string | undefined;
+}
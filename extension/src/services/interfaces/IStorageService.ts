@@ -0,0 +1,24 @@
+import { ConnectionConfig, PerformanceMetrics, QueryResult, TimeRange } from '../storage';
+
+/**
+ * Interface for the storage the backend reads and writes through the WebSocket.
+ * Single Responsibility: Storage operations requested by the backend.
+ */
+export interface IStorageService {
+    loadConnections(): Promise<ConnectionConfig[]>;
+    addConnection(connection: ConnectionConfig): Promise<void>;
+    removeConnection(id: string): Promise<void>;
+    updateConnection(id: string, connection: ConnectionConfig): Promise<void>;
+
+    /**
+     * Fill in secrets such as the password before the connection is sent to the backend.
+     * @param connection - Stored connection
+     * @returns Connection with its secrets resolved
+     */
+    resolveConnectionSecrets(connection: ConnectionConfig): Promise<ConnectionConfig>;
+
+    saveQueryResult(result: QueryResult): Promise<void>;
+    loadQueryResults(connectionId: string): Promise<QueryResult[]>;
+    savePerformanceMetrics(metrics: PerformanceMetrics): Promise<void>;
+    loadPerformanceMetrics(connectionId: string, timeRange: TimeRange): Promise<PerformanceMetrics[]>;
+}
@@ -0,0 +1,226 @@
+import { DurationPercentiles } from './runMetrics';
+
+/**
+ * One bar of a latency distribution chart.
+ */
+export interface LatencyBin {
+    lowerBound: number; // in ms, inclusive
+    upperBound: number; // in ms, exclusive except for the last bin
+    count: number;
+}
+
+/**
+ * What the performance graph plots: the estimated percentiles and the distribution of durations.
+ */
+export interface LatencyDistribution {
+    count: number;
+    percentiles: DurationPercentiles;
+    bins: LatencyBin[];
+}
+
+/**
+ * JSON form of a histogram, stored with a finished run.
+ */
+export interface LatencyHistogramSnapshot {
+    relativeAccuracy: number;
+    buckets: [number, number][]; // Bucket index and count
+    zeroCount: number;
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+}
+
+const MIN_INDEXABLE_VALUE = 1e-6; // Smaller durations are counted as zero
+
+/**
+ * Streaming duration histogram with logarithmic buckets (the DDSketch layout), so percentiles
+ * of any number of executions are estimated in constant memory. Every estimate is within
+ * the relative accuracy of the true value; count, mean, min and max are exact.
+ * Single Responsibility: Duration distribution of a run.
+ */
+export class LatencyHistogram {
+    private readonly gamma: number;
+    private readonly logGamma: number;
+    private buckets: Map<number, number> = new Map(); // Bucket index -> count
+    private zeroCount = 0;
+    private total = 0;
+    private sum = 0;
+    private minimum = Infinity;
+    private maximum = -Infinity;
+
+    constructor(private readonly relativeAccuracy: number = 0.01) {
+        if (relativeAccuracy <= 0 || relativeAccuracy >= 1) {
+            throw new Error('Relative accuracy must be between 0 and 1');
+        }
+        this.gamma = (1 + relativeAccuracy) / (1 - relativeAccuracy);
+        this.logGamma = Math.log(this.gamma);
+    }
+
+    get count(): number {
+        return this.total;
+    }
+
+    get mean(): number {
+        return this.total > 0 ? this.sum / this.total : 0;
+    }
+
+    get min(): number {
+        return this.total > 0 ? this.minimum : 0;
+    }
+
+    get max(): number {
+        return this.total > 0 ? this.maximum : 0;
+    }
+
+    record(value: number): void {
+        if (!Number.isFinite(value)) {
+            return;
+        }
+        const duration = Math.max(value, 0);
+        if (duration < MIN_INDEXABLE_VALUE) {
+            this.zeroCount++;
+        } else {
+            const index = this.indexOf(duration);
+            this.buckets.set(index, (this.buckets.get(index) ?? 0) + 1);
+        }
+        this.total++;
+        this.sum += duration;
+        this.minimum = Math.min(this.minimum, duration);
+        this.maximum = Math.max(this.maximum, duration);
+    }
+
+    /**
+     * Adds the values recorded by another histogram with the same relative accuracy.
+     */
+    merge(other: LatencyHistogram): void {
+        if (other.relativeAccuracy !== this.relativeAccuracy) {
+            throw new Error('Cannot merge histograms with a different relative accuracy');
+        }
+        other.buckets.forEach((count, index) => {
+            this.buckets.set(index, (this.buckets.get(index) ?? 0) + count);
+        });
+        this.zeroCount += other.zeroCount;
+        this.total += other.total;
+        this.sum += other.sum;
+        this.minimum = Math.min(this.minimum, other.minimum);
+        this.maximum = Math.max(this.maximum, other.maximum);
+    }
+
+    clone(): LatencyHistogram {
+        const copy = new LatencyHistogram(this.relativeAccuracy);
+        copy.merge(this);
+        return copy;
+    }
+
+    toSnapshot(): LatencyHistogramSnapshot {
+        return {
+            relativeAccuracy: this.relativeAccuracy,
+            buckets: this.sortedIndexes().map(index => [index, this.buckets.get(index)!]),
+            zeroCount: this.zeroCount,
+            count: this.total,
+            sum: this.sum,
+            min: this.min,
+            max: this.max
+        };
+    }
+
+    static fromSnapshot(snapshot: LatencyHistogramSnapshot): LatencyHistogram {
+        const histogram = new LatencyHistogram(snapshot.relativeAccuracy);
+        histogram.buckets = new Map(snapshot.buckets);
+        histogram.zeroCount = snapshot.zeroCount;
+        histogram.total = snapshot.count;
+        histogram.sum = snapshot.sum;
+        if (snapshot.count > 0) {
+            histogram.minimum = snapshot.min;
+            histogram.maximum = snapshot.max;
+        }
+        return histogram;
+    }
+
+    /**
+     * Estimated nearest-rank percentile, clamped to the exact min and max.
+     */
+    percentile(percent: number): number {
+        if (this.total === 0) {
+            return 0;
+        }
+        const rank = Math.min(Math.max(Math.ceil((percent / 100) * this.total), 1), this.total);
+        if (rank <= this.zeroCount) {
+            return this.min;
+        }
+        if (rank === this.total) {
+            return this.max;
+        }
+
+        let seen = this.zeroCount;
+        for (const index of this.sortedIndexes()) {
+            seen += this.buckets.get(index)!;
+            if (seen >= rank) {
+                return this.clamp(this.valueOf(index));
+            }
+        }
+        return this.max;
+    }
+
+    percentiles(): DurationPercentiles {
+        return {
+            p50: this.percentile(50),
+            p90: this.percentile(90),
+            p95: this.percentile(95),
+            p99: this.percentile(99)
+        };
+    }
+
+    /**
+     * Spreads the recorded durations over equal-width bins between min and max for charting.
+     * Histograms that are compared pass the same bounds, so their bins line up.
+     */
+    distribution(binCount: number = 20, lowerBound: number = this.min, upperBound: number = this.max): LatencyBin[] {
+        if (this.total === 0) {
+            return [];
+        }
+        if (upperBound <= lowerBound) {
+            return [{ lowerBound, upperBound: lowerBound, count: this.total }];
+        }
+
+        const width = (upperBound - lowerBound) / binCount;
+        const bins: LatencyBin[] = Array.from({ length: binCount }, (_, i) => ({
+            lowerBound: lowerBound + i * width,
+            upperBound: i === binCount - 1 ? upperBound : lowerBound + (i + 1) * width,
+            count: 0
+        }));
+        const binOf = (value: number) => Math.min(Math.max(Math.floor((value - lowerBound) / width), 0), binCount - 1);
+
+        bins[0].count += this.zeroCount;
+        this.buckets.forEach((count, index) => {
+            bins[binOf(this.clamp(this.valueOf(index)))].count += count;
+        });
+        return bins;
+    }
+
+    toDistribution(binCount?: number): LatencyDistribution {
+        return {
+            count: this.total,
+            percentiles: this.percentiles(),
+            bins: this.distribution(binCount)
+        };
+    }
+
+    private indexOf(value: number): number {
+        return Math.ceil(Math.log(value) / this.logGamma);
+    }
+
+    // Midpoint of the bucket, within the relative accuracy of every value in it
+    private valueOf(index: number): number {
+        return (2 * Math.pow(this.gamma, index)) / (this.gamma + 1);
+    }
+
+    private clamp(value: number): number {
+        return Math.min(Math.max(value, this.min), this.max);
+    }
+
+    private sortedIndexes(): number[] {
+        return Array.from(this.buckets.keys()).sort((a, b) => a - b);
+    }
+}
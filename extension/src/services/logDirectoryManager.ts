@@ -1,8 +1,8 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ILogger } from './logger';
 import { PathResolver } from './pathResolver';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
 
 /**
  * Service responsible for managing log directory paths.
@@ -10,7 +10,7 @@ import { PathResolver } from './pathResolver';
  */
 export class LogDirectoryManager {
     constructor(
-        private readonly extensionContext: vscode.ExtensionContext,
+        private readonly host: IHostEnvironment,
         private readonly logger: ILogger,
         private readonly pathResolver: PathResolver
     ) {}
@@ -21,7 +21,7 @@ export class LogDirectoryManager {
      */
     getLogDirectory(): string {
         // Try to find project root (where masterun.ps1 or .git exists)
-        const extensionPath = this.extensionContext.extensionPath;
+        const extensionPath = this.host.extensionPath;
         // Extension path is: /path/to/SQLStressTest/extension
         // Project root is: /path/to/SQLStressTest (one level up)
         let projectRoot = path.resolve(extensionPath, '..');
@@ -75,7 +75,7 @@ export class LogDirectoryManager {
         }
         
         // Fallback to workspace folder (should also be project root in most cases)
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const workspaceFolder = this.host.getWorkspaceFolder();
         if (workspaceFolder) {
             const workspaceLogsDir = path.join(workspaceFolder, 'logs');
             try {
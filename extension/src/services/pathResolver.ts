@@ -1,8 +1,8 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { ILogger } from './logger';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
 
 /**
  * Service responsible for resolving file system paths for backend executables and project roots.
@@ -10,7 +10,7 @@ import { ILogger } from './logger';
  */
 export class PathResolver {
     constructor(
-        private readonly extensionContext: vscode.ExtensionContext,
+        private readonly host: IHostEnvironment,
         private readonly logger: ILogger
     ) {}
 
@@ -39,7 +39,7 @@ export class PathResolver {
         }
 
         // Get extension path and construct backend executable path
-        const extensionPath = this.extensionContext.extensionPath;
+        const extensionPath = this.host.extensionPath;
         const backendPath = path.join(extensionPath, 'resources', 'backend', platformDir);
         
         // Determine executable name based on platform
@@ -134,7 +134,7 @@ export class PathResolver {
      * Tries: 1) Walking from extension path, 2) Workspace folder, 3) null
      */
     getProjectRoot(): string | null {
-        const extensionPath = this.extensionContext.extensionPath;
+        const extensionPath = this.host.extensionPath;
         
         // Method 1: Walk up from extension path
         const foundRoot = this.findProjectRoot(extensionPath);
@@ -143,7 +143,7 @@ export class PathResolver {
         }
 
         // Method 2: Try workspace folder as fallback
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const workspaceFolder = this.host.getWorkspaceFolder();
         if (workspaceFolder) {
             // Verify workspace folder has project markers
             const masterScript = path.join(workspaceFolder, 'masterun.ps1');
@@ -0,0 +1,108 @@
+import { DatabaseObject, QueryParameter } from './httpClient';
+
+/**
+ * A ready-to-run stress test for a stored procedure: an EXEC statement with every
+ * input parameter bound to a placeholder, and a generator for each placeholder.
+ */
+export interface ProcedureStressTest {
+    query: string;
+    parameters: QueryParameter[];
+}
+
+export type ParameterGeneratorSettings = Omit<QueryParameter, 'name'>;
+
+const INTEGER_TYPES = ['smallint', 'int', 'bigint'];
+const FRACTIONAL_TYPES = ['decimal', 'numeric', 'money', 'smallmoney', 'float', 'real'];
+const DATE_TYPES = ['date', 'datetime', 'datetime2', 'smalldatetime', 'datetimeoffset'];
+const STRING_TYPES = ['char', 'varchar', 'nchar', 'nvarchar'];
+
+// Long enough for a GUID in its 36 character string form
+const GUID_STRING_LENGTH = 36;
+
+// Every day of the past year, read once before the test
+const PAST_YEAR_DATES_QUERY =
+    'SELECT TOP (365) DATEADD(day, -ROW_NUMBER() OVER (ORDER BY (SELECT NULL)), CAST(SYSDATETIME() AS date)) FROM sys.all_objects';
+
+// Every minute of a day
+const TIMES_OF_DAY_QUERY =
+    'SELECT TOP (1440) CAST(DATEADD(minute, ROW_NUMBER() OVER (ORDER BY (SELECT NULL)) - 1, 0) AS time) FROM sys.all_objects';
+
+/**
+ * Picks a generator whose values fit a parameter of the given SQL type, e.g. a GUID for a
+ * uniqueidentifier or a sequence for an int. Returns undefined for types no generator can
+ * produce, such as binary, xml or table types.
+ */
+export function chooseParameterGenerator(dataType: string | undefined): ParameterGeneratorSettings | undefined {
+    const match = /^\s*([a-z0-9_]+)\s*(?:\(\s*(max|\d+)?)?/i.exec(dataType || '');
+    if (!match) {
+        return undefined;
+    }
+    const baseType = match[1].toLowerCase();
+    const length = match[2];
+
+    if (baseType === 'uniqueidentifier') {
+        return { generator: 'guid' };
+    }
+    if (baseType === 'bit') {
+        return { generator: 'randomRange', min: 0, max: 1 };
+    }
+    if (baseType === 'tinyint') {
+        return { generator: 'randomRange', min: 0, max: 255 };
+    }
+    if (INTEGER_TYPES.includes(baseType)) {
+        return { generator: 'sequential', start: 1, step: 1 };
+    }
+    if (FRACTIONAL_TYPES.includes(baseType)) {
+        return { generator: 'randomRange', min: 1, max: 1000 };
+    }
+    if (DATE_TYPES.includes(baseType)) {
+        return { generator: 'lookupQuery', lookupQuery: PAST_YEAR_DATES_QUERY };
+    }
+    if (baseType === 'time') {
+        return { generator: 'lookupQuery', lookupQuery: TIMES_OF_DAY_QUERY };
+    }
+    if (STRING_TYPES.includes(baseType)) {
+        // Unique values where they fit, otherwise numbers, which fit any string
+        const fitsGuid = length?.toLowerCase() === 'max' || Number(length) >= GUID_STRING_LENGTH;
+        return fitsGuid ? { generator: 'guid' } : { generator: 'sequential', start: 1, step: 1 };
+    }
+    return undefined;
+}
+
+/**
+ * Builds the EXEC statement and parameter generators for a procedure. Input parameters are
+ * bound to a placeholder of the same name; OUTPUT parameters and parameters without a
+ * suitable generator are bound to a DECLAREd variable, which the placeholder detection skips.
+ */
+export function buildProcedureStressTest(schema: string, procedure: string, parameters: DatabaseObject[]): ProcedureStressTest {
+    const declarations: string[] = [];
+    const bindings: string[] = [];
+    const generators: QueryParameter[] = [];
+
+    for (const parameter of parameters) {
+        const generator = parameter.isOutput ? undefined : chooseParameterGenerator(parameter.dataType);
+        if (generator) {
+            generators.push({ name: parameter.name, ...generator });
+            bindings.push(`${parameter.name} = ${parameter.name}`);
+            continue;
+        }
+
+        const reason = parameter.isOutput ? 'output' : `no generator for ${parameter.dataType || 'unknown type'}`;
+        declarations.push(`DECLARE ${parameter.name} ${parameter.dataType || 'sql_variant'}; -- ${reason}`);
+        bindings.push(parameter.isOutput ? `${parameter.name} = ${parameter.name} OUTPUT` : `${parameter.name} = ${parameter.name}`);
+    }
+
+    const procedureName = `${quoteName(schema)}.${quoteName(procedure)}`;
+    const exec = bindings.length === 0
+        ? `EXEC ${procedureName};`
+        : `EXEC ${procedureName}\n${bindings.map(binding => `    ${binding}`).join(',\n')};`;
+
+    return {
+        query: [...declarations, exec].join('\n'),
+        parameters: generators
+    };
+}
+
+function quoteName(name: string): string {
+    return `[${name.replace(/]/g, ']]')}]`;
+}
@@ -1,5 +1,4 @@
 import { ChildProcess } from 'child_process';
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ILogger } from './logger';
@@ -7,6 +6,7 @@ import { PathResolver } from './pathResolver';
 import { LogDirectoryManager } from './logDirectoryManager';
 import { IProcessSpawner } from './interfaces/IProcessSpawner';
 import { ProcessSpawner } from './processSpawner';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
 
 /**
  * Service responsible for managing backend process lifecycle.
@@ -19,7 +19,7 @@ export class ProcessManager {
     private readonly processSpawner: IProcessSpawner;
 
     constructor(
-        private readonly extensionContext: vscode.ExtensionContext,
+        private readonly host: IHostEnvironment,
         private readonly logger: ILogger,
         private readonly pathResolver: PathResolver,
         private readonly logDirectoryManager: LogDirectoryManager,
@@ -102,8 +102,8 @@ export class ProcessManager {
                 cwd = path.dirname(executablePath);
                 this.logger.warn('Project root not found, using executable directory as working directory', {
                     executableDir: cwd,
-                    extensionPath: this.extensionContext.extensionPath,
-                    workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+                    extensionPath: this.host.extensionPath,
+                    workspaceFolder: this.host.getWorkspaceFolder()
                 });
             }
         }
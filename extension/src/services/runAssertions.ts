@@ -0,0 +1,173 @@
+import { RunMetrics } from './runMetrics';
+
+export type AssertionMetric =
+    | 'avgDuration' | 'minDuration' | 'maxDuration'
+    | 'p50Duration' | 'p90Duration' | 'p95Duration' | 'p99Duration'
+    | 'errorRate' | 'executions' | 'failedExecutions' | 'avgLogicalReads';
+export type AssertionOperator = '<' | '<=' | '>' | '>=';
+
+/**
+ * A pass/fail condition on a finished run, written like "p95 duration < 200ms" or "error rate < 1%".
+ * Durations are compared in milliseconds and the error rate in percent.
+ */
+export interface RunAssertion {
+    expression: string;
+    metric: AssertionMetric;
+    operator: AssertionOperator;
+    value: number;
+}
+
+/**
+ * Verdict of one assertion, stored with the run.
+ */
+export interface AssertionResult {
+    expression: string;
+    metric: AssertionMetric;
+    passed: boolean;
+    actual?: number; // Undefined when the run did not measure the metric
+}
+
+export class AssertionParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AssertionParseError';
+    }
+}
+
+const METRIC_NAMES = new Map<string, AssertionMetric>([
+    ['avg duration', 'avgDuration'],
+    ['average duration', 'avgDuration'],
+    ['min duration', 'minDuration'],
+    ['max duration', 'maxDuration'],
+    ['p50 duration', 'p50Duration'],
+    ['median duration', 'p50Duration'],
+    ['p90 duration', 'p90Duration'],
+    ['p95 duration', 'p95Duration'],
+    ['p99 duration', 'p99Duration'],
+    ['error rate', 'errorRate'],
+    ['executions', 'executions'],
+    ['failed executions', 'failedExecutions'],
+    ['avg logical reads', 'avgLogicalReads'],
+    ['average logical reads', 'avgLogicalReads']
+]);
+
+const DURATION_METRICS: AssertionMetric[] = ['avgDuration', 'minDuration', 'maxDuration', 'p50Duration', 'p90Duration', 'p95Duration', 'p99Duration'];
+
+const ASSERTION_PATTERN = /^([a-z][a-z0-9 ]*?)\s*(<=|>=|<|>)\s*(-?\d+(?:\.\d+)?)\s*(ms|s|%)?$/;
+
+/**
+ * Parses an assertion such as "max duration <= 2s" or "avg logical reads < 5000".
+ * Throws AssertionParseError when the metric, operator or unit is not recognised.
+ */
+export function parseAssertion(expression: string): RunAssertion {
+    const normalized = expression.trim().toLowerCase().replace(/\s+/g, ' ');
+    const match = ASSERTION_PATTERN.exec(normalized);
+    if (!match) {
+        throw new AssertionParseError(`Assertion "${expression}" must look like "<metric> <operator> <value>", e.g. "p95 duration < 200ms"`);
+    }
+
+    const [, metricName, operator, number, unit] = match;
+    const metric = METRIC_NAMES.get(metricName.trim());
+    if (!metric) {
+        throw new AssertionParseError(`Unknown metric "${metricName.trim()}" in assertion "${expression}". Use one of: ${Array.from(METRIC_NAMES.keys()).join(', ')}`);
+    }
+
+    let value = parseFloat(number);
+    if (DURATION_METRICS.includes(metric)) {
+        if (unit === '%') {
+            throw new AssertionParseError(`Assertion "${expression}" needs a duration in ms or s`);
+        }
+        value = unit === 's' ? value * 1000 : value;
+    } else if (metric === 'errorRate') {
+        if (unit !== undefined && unit !== '%') {
+            throw new AssertionParseError(`Assertion "${expression}" needs a percentage`);
+        }
+    } else if (unit !== undefined) {
+        throw new AssertionParseError(`Assertion "${expression}" is a count and takes no unit`);
+    }
+
+    return { expression: expression.trim(), metric, operator: operator as AssertionOperator, value };
+}
+
+/**
+ * Checks every assertion against the run metrics. An assertion on a metric the run
+ * did not measure fails, so a missing Extended Events field cannot hide a regression.
+ */
+export function evaluateAssertions(metrics: RunMetrics, assertions: RunAssertion[]): AssertionResult[] {
+    return assertions.map(assertion => {
+        const actual = getMetricValue(metrics, assertion.metric);
+        return {
+            expression: assertion.expression,
+            metric: assertion.metric,
+            passed: actual !== undefined && compare(actual, assertion.operator, assertion.value),
+            actual
+        };
+    });
+}
+
+/**
+ * Formats a metric value in the unit its assertions are written in.
+ */
+export function formatMetricValue(metric: AssertionMetric, value: number | undefined): string {
+    if (value === undefined) {
+        return 'not measured';
+    }
+    if (DURATION_METRICS.includes(metric)) {
+        return `${round(value)}ms`;
+    }
+    if (metric === 'errorRate') {
+        return `${round(value)}%`;
+    }
+    return String(round(value));
+}
+
+/**
+ * One-line description of a verdict, e.g. "p95 duration < 200ms (was 350ms)".
+ */
+export function describeAssertionResult(result: AssertionResult): string {
+    return `${result.expression} (was ${formatMetricValue(result.metric, result.actual)})`;
+}
+
+function getMetricValue(metrics: RunMetrics, metric: AssertionMetric): number | undefined {
+    switch (metric) {
+        case 'avgDuration':
+            return metrics.avgDuration;
+        case 'minDuration':
+            return metrics.minDuration;
+        case 'maxDuration':
+            return metrics.maxDuration;
+        case 'p50Duration':
+            return metrics.durationPercentiles?.p50;
+        case 'p90Duration':
+            return metrics.durationPercentiles?.p90;
+        case 'p95Duration':
+            return metrics.durationPercentiles?.p95;
+        case 'p99Duration':
+            return metrics.durationPercentiles?.p99;
+        case 'errorRate':
+            return metrics.errorRatePercent;
+        case 'executions':
+            return metrics.executionCount;
+        case 'failedExecutions':
+            return metrics.failedExecutionCount;
+        case 'avgLogicalReads':
+            return metrics.avgLogicalReads;
+    }
+}
+
+function compare(actual: number, operator: AssertionOperator, expected: number): boolean {
+    switch (operator) {
+        case '<':
+            return actual < expected;
+        case '<=':
+            return actual <= expected;
+        case '>':
+            return actual > expected;
+        case '>=':
+            return actual >= expected;
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,137 @@
+import { LatencyBin, LatencyHistogram } from './latencyHistogram';
+import { HistoricalRun } from './storage';
+
+export type ComparisonMetric =
+    | 'avgDuration' | 'p50Duration' | 'p95Duration' | 'p99Duration'
+    | 'avgLogicalReads' | 'avgWrites' | 'avgCpuTime' | 'avgDataSizeBytes';
+
+export type ComparisonVerdict = 'better' | 'worse' | 'unchanged';
+
+/**
+ * Changes smaller than this are treated as noise, like the trend arrows of the metric cards.
+ */
+export const SIGNIFICANT_CHANGE_PERCENT = 5;
+
+/**
+ * A candidate run's value of one metric, relative to the baseline.
+ */
+export interface MetricDelta {
+    value?: number;
+    changePercent?: number; // Undefined when either run did not measure the metric
+    verdict?: ComparisonVerdict;
+}
+
+export interface ComparisonRow {
+    metric: ComparisonMetric;
+    label: string;
+    unit: 'ms' | 'bytes' | 'count';
+    baseline?: number;
+    candidates: MetricDelta[]; // In the order of RunComparison.candidates
+}
+
+export interface ComparedRun {
+    runId: number;
+    startTime: number;
+    executionCount: number;
+    connectionName?: string;
+}
+
+/**
+ * Latency distributions of the compared runs over the same bins, as a percentage of each run's executions.
+ */
+export interface LatencyOverlay {
+    bins: Omit<LatencyBin, 'count'>[];
+    series: { runId: number; percentages: number[] }[];
+}
+
+export interface RunComparison {
+    baseline: ComparedRun;
+    candidates: ComparedRun[];
+    rows: ComparisonRow[];
+    latencyOverlay?: LatencyOverlay; // Only runs stored with a duration histogram are overlaid
+}
+
+const METRICS: { metric: ComparisonMetric; label: string; unit: ComparisonRow['unit']; read: (run: HistoricalRun) => number | undefined }[] = [
+    { metric: 'avgDuration', label: 'Avg Duration', unit: 'ms', read: run => run.executionCount > 0 ? run.avgDuration : undefined },
+    { metric: 'p50Duration', label: 'P50 Duration', unit: 'ms', read: run => run.durationPercentiles?.p50 },
+    { metric: 'p95Duration', label: 'P95 Duration', unit: 'ms', read: run => run.durationPercentiles?.p95 },
+    { metric: 'p99Duration', label: 'P99 Duration', unit: 'ms', read: run => run.durationPercentiles?.p99 },
+    { metric: 'avgLogicalReads', label: 'Avg Logical Reads', unit: 'count', read: run => run.avgLogicalReads },
+    { metric: 'avgWrites', label: 'Avg Writes', unit: 'count', read: run => run.avgWrites },
+    { metric: 'avgCpuTime', label: 'Avg CPU Time', unit: 'ms', read: run => run.avgCpuTime },
+    { metric: 'avgDataSizeBytes', label: 'Avg Data Size', unit: 'bytes', read: run => run.avgDataSizeBytes }
+];
+
+/**
+ * Compares one or more candidate runs with a baseline run. Every metric is better when lower,
+ * so a query rewrite that cuts duration or reads shows as a negative change marked better.
+ */
+export function compareRuns(baseline: HistoricalRun, candidates: HistoricalRun[], binCount: number = 20): RunComparison {
+    const rows = METRICS
+        .map(({ metric, label, unit, read }) => {
+            const baselineValue = read(baseline);
+            return {
+                metric,
+                label,
+                unit,
+                baseline: baselineValue,
+                candidates: candidates.map(candidate => compareValue(baselineValue, read(candidate)))
+            };
+        })
+        // Leave out metrics that none of the runs measured
+        .filter(row => row.baseline !== undefined || row.candidates.some(c => c.value !== undefined));
+
+    return {
+        baseline: toComparedRun(baseline),
+        candidates: candidates.map(toComparedRun),
+        rows,
+        latencyOverlay: createLatencyOverlay([baseline, ...candidates], binCount)
+    };
+}
+
+function compareValue(baseline: number | undefined, value: number | undefined): MetricDelta {
+    if (baseline === undefined || value === undefined) {
+        return { value };
+    }
+    if (baseline === 0) {
+        return { value, verdict: value === 0 ? 'unchanged' : 'worse' };
+    }
+
+    const changePercent = ((value - baseline) / baseline) * 100;
+    let verdict: ComparisonVerdict = 'unchanged';
+    if (Math.abs(changePercent) >= SIGNIFICANT_CHANGE_PERCENT) {
+        verdict = changePercent < 0 ? 'better' : 'worse';
+    }
+    return { value, changePercent, verdict };
+}
+
+function createLatencyOverlay(runs: HistoricalRun[], binCount: number): LatencyOverlay | undefined {
+    const histograms = runs
+        .filter(run => run.durationHistogram && run.durationHistogram.count > 0)
+        .map(run => ({ runId: run.runId, histogram: LatencyHistogram.fromSnapshot(run.durationHistogram!) }));
+    if (histograms.length === 0) {
+        return undefined;
+    }
+
+    const lowerBound = Math.min(...histograms.map(h => h.histogram.min));
+    const upperBound = Math.max(...histograms.map(h => h.histogram.max));
+    let bins: LatencyBin[] = [];
+    const series = histograms.map(({ runId, histogram }) => {
+        bins = histogram.distribution(binCount, lowerBound, upperBound);
+        return { runId, percentages: bins.map(bin => (bin.count / histogram.count) * 100) };
+    });
+
+    return {
+        bins: bins.map(({ lowerBound, upperBound }) => ({ lowerBound, upperBound })),
+        series
+    };
+}
+
+function toComparedRun(run: HistoricalRun): ComparedRun {
+    return {
+        runId: run.runId,
+        startTime: run.startTime,
+        executionCount: run.executionCount,
+        connectionName: run.connection?.name
+    };
+}
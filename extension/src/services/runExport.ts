@@ -0,0 +1,152 @@
+import { DurationPercentiles } from './runMetrics';
+import { ExecutionBoundary } from './websocketClient';
+import { StressTestConfiguration } from './storage';
+
+/**
+ * One Extended Events record of a run: the common metrics plus every other field the event carried.
+ */
+export interface RunExportEvent {
+    timestamp: number; // Unix timestamp in milliseconds
+    eventName: string;
+    executionNumber: number;
+    duration?: number; // in ms
+    logicalReads?: number;
+    writes?: number;
+    cpuTime?: number; // in ms
+    physicalReads?: number;
+    rowCount?: number;
+    [field: string]: unknown;
+}
+
+/**
+ * Per-execution summary, as shown by the performance graph.
+ */
+export interface RunExportExecution {
+    executionNumber: number;
+    executionId?: string;
+    queryName?: string;
+    parameters?: { [name: string]: string | null };
+    startTime: number; // Unix timestamp in milliseconds
+    endTime?: number;
+    eventCount: number;
+    minDuration?: number; // in ms
+    maxDuration?: number;
+    avgDuration?: number;
+    totalReads?: number;
+    totalWrites?: number;
+    avgLogicalReads?: number;
+    avgWrites?: number;
+    avgCpuTime?: number;
+    avgPhysicalReads?: number;
+    avgRowCount?: number;
+}
+
+export interface RunExportMetadata {
+    connectionId?: string;
+    configuration?: StressTestConfiguration; // The request the run was started with
+    testStartTime?: number; // Unix timestamp in milliseconds
+    exportedAt: number;
+    executionCount: number;
+    eventCount: number;
+    durationPercentiles?: DurationPercentiles; // Over every sql_batch_completed duration of the run
+}
+
+/**
+ * Everything collected for one stress test run, in the shape written to the JSON export.
+ */
+export interface RunExport {
+    metadata: RunExportMetadata;
+    executions: RunExportExecution[];
+    events: RunExportEvent[];
+    boundaries: ExecutionBoundary[];
+    loadLevels: { timestampMs: number; concurrency: number }[];
+}
+
+/**
+ * A file of an export, named by appending the suffix to the chosen base name.
+ */
+export interface RunExportFile {
+    suffix: string;
+    content: string;
+}
+
+const EXECUTION_COLUMNS: (keyof RunExportExecution)[] = [
+    'executionNumber', 'executionId', 'queryName', 'startTime', 'endTime', 'eventCount',
+    'minDuration', 'maxDuration', 'avgDuration', 'totalReads', 'totalWrites',
+    'avgLogicalReads', 'avgWrites', 'avgCpuTime', 'avgPhysicalReads', 'avgRowCount'
+];
+
+const EVENT_COLUMNS = [
+    'timestamp', 'executionNumber', 'eventName',
+    'duration', 'logicalReads', 'writes', 'cpuTime', 'physicalReads', 'rowCount'
+];
+
+const TIMESTAMP_COLUMNS = new Set(['timestamp', 'startTime', 'endTime']);
+
+/**
+ * Formats one CSV field following RFC 4180: fields containing separators, quotes or line breaks are quoted.
+ * Timestamps are written as ISO 8601 so spreadsheets and pandas parse them as dates.
+ */
+function toCsvField(value: unknown, isTimestamp = false): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    let text: string;
+    if (isTimestamp && typeof value === 'number') {
+        text = new Date(value).toISOString();
+    } else if (typeof value === 'object') {
+        text = JSON.stringify(value);
+    } else {
+        text = String(value);
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: string[][]): string {
+    return [header, ...rows].map(row => row.join(',')).join('\r\n') + '\r\n';
+}
+
+// Parameters get their own columns, named like the @param placeholders they were bound to
+function parameterColumn(name: string): string {
+    return name.startsWith('@') ? name : `@${name}`;
+}
+
+/**
+ * One row per execution, with a column for every parameter bound by any execution.
+ */
+export function executionsToCsv(run: RunExport): string {
+    const parameterNames = Array.from(new Set(run.executions.flatMap(e => Object.keys(e.parameters ?? {})))).sort();
+    const header = [...EXECUTION_COLUMNS, ...parameterNames.map(parameterColumn)];
+    const rows = run.executions.map(execution => [
+        ...EXECUTION_COLUMNS.map(column => toCsvField(execution[column], TIMESTAMP_COLUMNS.has(column))),
+        ...parameterNames.map(name => toCsvField(execution.parameters?.[name]))
+    ]);
+    return toCsv(header, rows);
+}
+
+/**
+ * One row per Extended Events record. Fields beyond the common metrics differ per event type,
+ * so every field seen in the run gets a column, left empty for events without it.
+ */
+export function eventsToCsv(run: RunExport): string {
+    const fixed = new Set(EVENT_COLUMNS);
+    const extraColumns = Array.from(new Set(run.events.flatMap(e => Object.keys(e).filter(key => !fixed.has(key))))).sort();
+    const header = [...EVENT_COLUMNS, ...extraColumns];
+    const rows = run.events.map(event => header.map(column => toCsvField(event[column], TIMESTAMP_COLUMNS.has(column))));
+    return toCsv(header, rows);
+}
+
+export function serializeRunExport(run: RunExport): string {
+    return JSON.stringify(run, null, 2) + '\n';
+}
+
+/**
+ * The JSON export with the run metadata and every record, plus a CSV file each for executions and events.
+ */
+export function createRunExportFiles(run: RunExport): RunExportFile[] {
+    return [
+        { suffix: '.json', content: serializeRunExport(run) },
+        { suffix: '.executions.csv', content: executionsToCsv(run) },
+        { suffix: '.events.csv', content: eventsToCsv(run) }
+    ];
+}
@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import { ExecutionSummary, HistoricalRun } from './storage';
+import { BlockingReportEventData, ExecutionPlan } from './websocketClient';
+
+const STORAGE_KEY_RUN_HISTORY = 'sqlStressTest.runHistory';
+const STORAGE_KEY_RUN_EXECUTIONS = 'sqlStressTest.runHistory.executions';
+const STORAGE_KEY_RUN_PLANS = 'sqlStressTest.runHistory.plans';
+const STORAGE_KEY_RUN_BLOCKING_REPORTS = 'sqlStressTest.runHistory.blockingReports';
+const DEFAULT_MAX_RUNS = 100;
+const DEFAULT_MAX_AGE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How many finished runs are kept, and for how long. 0 disables a limit.
+ */
+export interface RunRetention {
+    maxRuns: number;
+    maxAgeDays: number;
+}
+
+/**
+ * Service responsible for the history of finished stress test runs.
+ * The per-execution summaries, execution plans and blocking reports of a run are stored under their own keys,
+ * so listing the runs does not load every execution. Retention is applied on every load and save.
+ * Single Responsibility: Run history storage operations only.
+ */
+export class RunHistoryStorageService {
+    constructor(
+        private context: vscode.ExtensionContext,
+        private getRetention: () => RunRetention = getConfiguredRunRetention
+    ) {}
+
+    /**
+     * Saves a finished run, replacing a stored run with the same ID.
+     */
+    async saveRun(
+        run: HistoricalRun,
+        executions: ExecutionSummary[],
+        plans: ExecutionPlan[] = [],
+        blockingReports: BlockingReportEventData[] = []
+    ): Promise<void> {
+        const runs = this.getStoredRuns().filter(r => r.runId !== run.runId);
+        runs.push(run);
+        await this.context.workspaceState.update(this.getExecutionsKey(run.runId), executions);
+        await this.context.workspaceState.update(this.getPlansKey(run.runId), plans.length > 0 ? plans : undefined);
+        await this.context.workspaceState.update(
+            this.getBlockingReportsKey(run.runId),
+            blockingReports.length > 0 ? blockingReports : undefined
+        );
+        await this.saveRuns(runs);
+    }
+
+    /**
+     * Loads the runs within the retention limits, oldest first.
+     */
+    async loadRuns(): Promise<HistoricalRun[]> {
+        const runs = this.getStoredRuns();
+        const kept = this.applyRetention(runs);
+        if (kept.length < runs.length) {
+            await this.saveRuns(runs);
+        }
+        return kept;
+    }
+
+    async loadExecutions(runId: number): Promise<ExecutionSummary[]> {
+        return this.context.workspaceState.get<ExecutionSummary[]>(this.getExecutionsKey(runId), []) ?? [];
+    }
+
+    async loadExecutionPlans(runId: number): Promise<ExecutionPlan[]> {
+        return this.context.workspaceState.get<ExecutionPlan[]>(this.getPlansKey(runId), []) ?? [];
+    }
+
+    /**
+     * Loads the deadlock and blocked process reports of a run, in the order they were received.
+     */
+    async loadBlockingReports(runId: number): Promise<BlockingReportEventData[]> {
+        return this.context.workspaceState.get<BlockingReportEventData[]>(this.getBlockingReportsKey(runId), []) ?? [];
+    }
+
+    private getStoredRuns(): HistoricalRun[] {
+        return [...(this.context.workspaceState.get<HistoricalRun[]>(STORAGE_KEY_RUN_HISTORY, []) ?? [])];
+    }
+
+    private async saveRuns(runs: HistoricalRun[]): Promise<void> {
+        const kept = this.applyRetention(runs);
+        const keptIds = new Set(kept.map(r => r.runId));
+        for (const run of runs) {
+            if (!keptIds.has(run.runId)) {
+                await this.context.workspaceState.update(this.getExecutionsKey(run.runId), undefined);
+                await this.context.workspaceState.update(this.getPlansKey(run.runId), undefined);
+                await this.context.workspaceState.update(this.getBlockingReportsKey(run.runId), undefined);
+            }
+        }
+        await this.context.workspaceState.update(STORAGE_KEY_RUN_HISTORY, kept);
+    }
+
+    private applyRetention(runs: HistoricalRun[]): HistoricalRun[] {
+        const { maxRuns, maxAgeDays } = this.getRetention();
+        const oldestEndTime = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : -Infinity;
+        const kept = runs
+            .filter(r => r.endTime >= oldestEndTime)
+            .sort((a, b) => a.runId - b.runId);
+        return maxRuns > 0 ? kept.slice(-maxRuns) : kept;
+    }
+
+    private getExecutionsKey(runId: number): string {
+        return `${STORAGE_KEY_RUN_EXECUTIONS}.${runId}`;
+    }
+
+    private getPlansKey(runId: number): string {
+        return `${STORAGE_KEY_RUN_PLANS}.${runId}`;
+    }
+
+    private getBlockingReportsKey(runId: number): string {
+        return `${STORAGE_KEY_RUN_BLOCKING_REPORTS}.${runId}`;
+    }
+}
+
+/**
+ * Retention from the sqlStressTest.runHistory.maxRuns and sqlStressTest.runHistory.maxAgeDays settings.
+ */
+export function getConfiguredRunRetention(): RunRetention {
+    const config = vscode.workspace.getConfiguration('sqlStressTest');
+    return {
+        maxRuns: config.get<number>('runHistory.maxRuns', DEFAULT_MAX_RUNS),
+        maxAgeDays: config.get<number>('runHistory.maxAgeDays', DEFAULT_MAX_AGE_DAYS)
+    };
+}
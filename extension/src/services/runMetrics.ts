@@ -0,0 +1,207 @@
+import { LatencyHistogram } from './latencyHistogram';
+import { ExtendedEventData } from './websocketClient';
+
+/**
+ * What one execution contributed to a run.
+ */
+export interface ExecutionSample {
+    duration?: number; // in ms
+    logicalReads?: number;
+    writes?: number;
+    cpuTime?: number; // in ms
+    failed?: boolean;
+}
+
+export interface DurationPercentiles {
+    p50: number;
+    p90: number;
+    p95: number;
+    p99: number;
+}
+
+/**
+ * Aggregate metrics of a run that assertions are checked against.
+ */
+export interface RunMetrics {
+    executionCount: number;
+    failedExecutionCount: number;
+    errorRatePercent: number;
+    avgDuration: number; // in ms
+    minDuration: number;
+    maxDuration: number;
+    durationPercentiles?: DurationPercentiles; // Only when durations were measured
+    avgLogicalReads?: number; // Only when the events reported logical reads
+    avgWrites?: number;
+    avgCpuTime?: number;
+}
+
+/**
+ * Reads the fields of a sql_batch_completed event that feed the run metrics.
+ * The event reports duration and cpu_time in microseconds; the sample holds them in ms.
+ * The result field is 0/OK for success and 1/Error or 2/Abort otherwise.
+ */
+export function readBatchCompleted(data: ExtendedEventData): ExecutionSample {
+    const duration = data.eventFields['duration'] ?? data.eventFields['total_duration'];
+    const logicalReads = data.eventFields['logical_reads'] ?? data.eventFields['reads'];
+    const result = data.eventFields['result'];
+
+    return {
+        duration: microsecondsToMs(toNumber(duration)),
+        logicalReads: toNumber(logicalReads),
+        writes: toNumber(data.eventFields['writes']),
+        cpuTime: microsecondsToMs(toNumber(data.eventFields['cpu_time'])),
+        failed: result !== undefined && result !== null && String(result) !== '0' && String(result).toUpperCase() !== 'OK'
+    };
+}
+
+// Mean of the measured values of a metric that not every event reports
+class RunningAverage {
+    private total = 0;
+    private count = 0;
+
+    add(value: number | undefined): void {
+        if (value !== undefined) {
+            this.total += value;
+            this.count++;
+        }
+    }
+
+    get value(): number | undefined {
+        return this.count > 0 ? this.total / this.count : undefined;
+    }
+
+    clone(): RunningAverage {
+        const copy = new RunningAverage();
+        copy.total = this.total;
+        copy.count = this.count;
+        return copy;
+    }
+}
+
+/**
+ * Running totals of the executions a view no longer keeps individually, so metrics of long
+ * runs still cover every execution. Durations go into a streaming histogram.
+ */
+export class ExecutionAccumulator {
+    executionCount = 0;
+    failedExecutionCount = 0;
+    readonly durations = new LatencyHistogram();
+    private logicalReads = new RunningAverage();
+    private writes = new RunningAverage();
+    private cpuTime = new RunningAverage();
+
+    add(sample: ExecutionSample): void {
+        this.executionCount++;
+        if (sample.failed) {
+            this.failedExecutionCount++;
+        }
+        if (sample.duration !== undefined) {
+            this.durations.record(sample.duration);
+        }
+        this.logicalReads.add(sample.logicalReads);
+        this.writes.add(sample.writes);
+        this.cpuTime.add(sample.cpuTime);
+    }
+
+    clone(): ExecutionAccumulator {
+        const copy = new ExecutionAccumulator();
+        copy.executionCount = this.executionCount;
+        copy.failedExecutionCount = this.failedExecutionCount;
+        copy.durations.merge(this.durations);
+        copy.logicalReads = this.logicalReads.clone();
+        copy.writes = this.writes.clone();
+        copy.cpuTime = this.cpuTime.clone();
+        return copy;
+    }
+
+    toRunMetrics(): RunMetrics {
+        const metrics: RunMetrics = {
+            executionCount: this.executionCount,
+            failedExecutionCount: this.failedExecutionCount,
+            errorRatePercent: this.executionCount > 0 ? (this.failedExecutionCount / this.executionCount) * 100 : 0,
+            avgDuration: this.durations.mean,
+            minDuration: this.durations.min,
+            maxDuration: this.durations.max
+        };
+        if (this.durations.count > 0) {
+            metrics.durationPercentiles = this.durations.percentiles();
+        }
+        metrics.avgLogicalReads = this.logicalReads.value;
+        metrics.avgWrites = this.writes.value;
+        metrics.avgCpuTime = this.cpuTime.value;
+        return metrics;
+    }
+}
+
+/**
+ * Aggregates the samples of a run. Percentiles are exact unless earlier executions were folded
+ * into an accumulator, in which case they are estimated over all executions from its histogram.
+ */
+export function calculateRunMetrics(samples: ExecutionSample[], earlier?: ExecutionAccumulator): RunMetrics {
+    if (earlier && earlier.executionCount > 0) {
+        const all = earlier.clone();
+        samples.forEach(sample => all.add(sample));
+        return all.toRunMetrics();
+    }
+
+    const durations = samples.map(s => s.duration).filter((d): d is number => d !== undefined);
+    const failedCount = samples.filter(s => s.failed).length;
+
+    const metrics: RunMetrics = {
+        executionCount: samples.length,
+        failedExecutionCount: failedCount,
+        errorRatePercent: samples.length > 0 ? (failedCount / samples.length) * 100 : 0,
+        avgDuration: 0,
+        minDuration: 0,
+        maxDuration: 0
+    };
+
+    if (durations.length > 0) {
+        // Long runs can have far more executions than Math.min(...spread) accepts
+        const sorted = [...durations].sort((a, b) => a - b);
+        metrics.avgDuration = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+        metrics.minDuration = sorted[0];
+        metrics.maxDuration = sorted[sorted.length - 1];
+        metrics.durationPercentiles = {
+            p50: percentile(sorted, 50),
+            p90: percentile(sorted, 90),
+            p95: percentile(sorted, 95),
+            p99: percentile(sorted, 99)
+        };
+    }
+
+    metrics.avgLogicalReads = average(samples.map(s => s.logicalReads));
+    metrics.avgWrites = average(samples.map(s => s.writes));
+    metrics.avgCpuTime = average(samples.map(s => s.cpuTime));
+
+    return metrics;
+}
+
+/**
+ * Nearest-rank percentile of values sorted in ascending order.
+ */
+export function percentile(sortedValues: number[], percent: number): number {
+    if (sortedValues.length === 0) {
+        return 0;
+    }
+    const rank = Math.ceil((percent / 100) * sortedValues.length);
+    return sortedValues[Math.min(Math.max(rank, 1), sortedValues.length) - 1];
+}
+
+function average(values: (number | undefined)[]): number | undefined {
+    const average = new RunningAverage();
+    values.forEach(value => average.add(value));
+    return average.value;
+}
+
+function toNumber(value: unknown): number | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    const number = typeof value === 'number' ? value : parseFloat(String(value));
+    return Number.isNaN(number) ? undefined : number;
+}
+
+function microsecondsToMs(value: number | undefined): number | undefined {
+    return value === undefined ? undefined : value / 1000;
+}
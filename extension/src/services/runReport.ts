@@ -0,0 +1,263 @@
+import { ExtendedEventData } from './websocketClient';
+import { RunMetrics, calculateRunMetrics, readBatchCompleted } from './runMetrics';
+import { RunExport, RunExportEvent, RunExportExecution } from './runExport';
+
+/**
+ * Where the run was executed, as far as the extension could find out when the report was generated.
+ */
+export interface RunReportEnvironment {
+    connectionName?: string;
+    server?: string;
+    serverName?: string; // As reported by the server, from HttpClient.testConnection
+    serverVersion?: string;
+    authenticatedUser?: string;
+    database?: string;
+    vscodeVersion?: string;
+}
+
+/**
+ * PNG data URLs of the performance graph's charts, drawn on the given background color.
+ */
+export interface RunReportCharts {
+    performance?: string;
+    latency?: string;
+    background?: string;
+}
+
+export interface RunReport {
+    run: RunExport;
+    environment: RunReportEnvironment;
+    charts?: RunReportCharts;
+    generatedAt: number;
+}
+
+export interface SlowExecution {
+    execution: RunExportExecution;
+    events: RunExportEvent[];
+}
+
+export const SLOWEST_EXECUTION_COUNT = 10;
+
+/**
+ * The executions with the longest event durations, slowest first, with their events in order.
+ */
+export function selectSlowestExecutions(run: RunExport, count = SLOWEST_EXECUTION_COUNT): SlowExecution[] {
+    return run.executions
+        .filter(execution => execution.maxDuration !== undefined)
+        .sort((a, b) => b.maxDuration! - a.maxDuration! || a.executionNumber - b.executionNumber)
+        .slice(0, count)
+        .map(execution => ({
+            execution,
+            events: run.events
+                .filter(event => event.executionNumber === execution.executionNumber)
+                .sort((a, b) => a.timestamp - b.timestamp)
+        }));
+}
+
+/**
+ * Metrics over every sql_batch_completed event of the run. The exported events keep their raw
+ * fields (logical_reads, result, ...), so they are read the same way as live events, except for
+ * duration and cpuTime, which the performance graph already converted to ms.
+ */
+export function calculateReportMetrics(run: RunExport): RunMetrics {
+    const samples = run.events
+        .filter(event => event.eventName === 'sql_batch_completed')
+        .map(event => ({
+            ...readBatchCompleted({ eventFields: event } as unknown as ExtendedEventData),
+            duration: event.duration,
+            cpuTime: event.cpuTime
+        }));
+    return calculateRunMetrics(samples);
+}
+
+function escapeHtml(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null || value === '') {
+        return '-';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    }
+    return escapeHtml(typeof value === 'object' ? JSON.stringify(value) : value);
+}
+
+function formatMs(value: number | undefined): string {
+    return value === undefined ? '-' : `${value.toFixed(2)} ms`;
+}
+
+function formatTime(timestamp: number | undefined): string {
+    return timestamp === undefined ? '-' : new Date(timestamp).toISOString().replace('T', ' ').replace('Z', ' UTC');
+}
+
+function definitionList(rows: [string, string][]): string {
+    return `<table class="properties">${rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${value}</td></tr>`).join('')}</table>`;
+}
+
+function renderConfiguration(run: RunExport): string {
+    const configuration = run.metadata.configuration;
+    if (!configuration) {
+        return '<p class="empty">The run configuration was not recorded.</p>';
+    }
+
+    const loadProfile = configuration.loadProfile;
+    const rows: [string, string][] = [
+        ['Parallel executions', formatValue(configuration.parallelExecutions)],
+        ['Total executions', loadProfile ? 'Not used by the load profile' : formatValue(configuration.totalExecutions)],
+        ['Load profile', loadProfile ? escapeHtml(Object.entries(loadProfile).map(([key, value]) => `${key}: ${value}`).join(', ')) : 'fixed'],
+        ['Database', formatValue(configuration.database)]
+    ];
+    if (configuration.parameters?.length) {
+        rows.push(['Parameters', configuration.parameters
+            .map(parameter => `${escapeHtml(parameter.name)} (${escapeHtml(parameter.generator)})`).join('<br>')]);
+    }
+    if (configuration.assertions?.length) {
+        rows.push(['Assertions', configuration.assertions.map(escapeHtml).join('<br>')]);
+    }
+
+    const queries = configuration.queries?.length
+        ? `<table class="data"><thead><tr><th>Query</th><th>Weight</th><th>SQL</th></tr></thead><tbody>${configuration.queries
+            .map(query => `<tr><td>${escapeHtml(query.name)}</td><td>${query.weight}</td><td><pre>${escapeHtml(query.query)}</pre></td></tr>`)
+            .join('')}</tbody></table>`
+        : `<pre>${escapeHtml(configuration.query)}</pre>`;
+
+    return definitionList(rows) + queries;
+}
+
+function renderEnvironment(report: RunReport): string {
+    const environment = report.environment;
+    return definitionList([
+        ['Connection', formatValue(environment.connectionName)],
+        ['Server', formatValue(environment.serverName ?? environment.server)],
+        ['Server version', environment.serverVersion ? `<pre>${escapeHtml(environment.serverVersion)}</pre>` : '-'],
+        ['Authenticated user', formatValue(environment.authenticatedUser)],
+        ['Database', formatValue(environment.database)],
+        ['VS Code', formatValue(environment.vscodeVersion)],
+        ['Test started', formatTime(report.run.metadata.testStartTime)],
+        ['Report generated', formatTime(report.generatedAt)]
+    ]);
+}
+
+function renderSummary(run: RunExport): string {
+    const metrics = calculateReportMetrics(run);
+    // Long runs can have far more executions than Math.min(...spread) accepts
+    const firstStart = run.executions.reduce((first, e) => Math.min(first, e.startTime), Infinity);
+    const lastEnd = run.executions.reduce((last, e) => Math.max(last, e.endTime ?? e.startTime), -Infinity);
+    const elapsedMs = run.executions.length > 0 ? lastEnd - firstStart : 0;
+    const percentiles = metrics.durationPercentiles;
+
+    return definitionList([
+        ['Executions', formatValue(run.executions.length)],
+        ['Failed executions', `${formatValue(metrics.failedExecutionCount)} (${metrics.errorRatePercent.toFixed(2)}%)`],
+        ['Extended Events records', formatValue(run.events.length)],
+        ['Elapsed time', `${(elapsedMs / 1000).toFixed(1)} s`],
+        ['Executions/sec', elapsedMs > 0 ? (run.executions.length / (elapsedMs / 1000)).toFixed(1) : '-'],
+        ['Avg duration', formatMs(percentiles ? metrics.avgDuration : undefined)],
+        ['Min / max duration', percentiles ? `${formatMs(metrics.minDuration)} / ${formatMs(metrics.maxDuration)}` : '-'],
+        ['P50 / P90 / P95 / P99 duration', percentiles
+            ? [percentiles.p50, percentiles.p90, percentiles.p95, percentiles.p99].map(formatMs).join(' / ')
+            : '-'],
+        ['Avg logical reads', formatValue(metrics.avgLogicalReads)],
+        ['Avg writes', formatValue(metrics.avgWrites)],
+        ['Avg CPU time', formatMs(metrics.avgCpuTime)]
+    ]);
+}
+
+function renderCharts(charts: RunReportCharts | undefined): string {
+    const images = [
+        { title: 'Performance over time', image: charts?.performance },
+        { title: 'Latency distribution', image: charts?.latency }
+    ].filter(chart => chart.image && chart.image.startsWith('data:image/'));
+    if (images.length === 0) {
+        return '<p class="empty">The charts were not available when the report was generated.</p>';
+    }
+    const background = charts?.background ? ` style="background: ${escapeHtml(charts.background)};"` : '';
+    return images.map(chart => `<figure class="chart"${background}><img src="${escapeHtml(chart.image)}" alt="${escapeHtml(chart.title)}"><figcaption>${escapeHtml(chart.title)}</figcaption></figure>`).join('');
+}
+
+// Every field of the execution's events gets a column, as event types report different fields
+function renderEvents(events: RunExportEvent[]): string {
+    const columns = Array.from(new Set(events.flatMap(event => Object.keys(event))))
+        .filter(column => column !== 'timestamp' && column !== 'eventName' && column !== 'executionNumber');
+    const header = ['Time', 'Event', ...columns].map(column => `<th>${escapeHtml(column)}</th>`).join('');
+    const rows = events.map(event => `<tr><td>${formatTime(event.timestamp)}</td><td>${escapeHtml(event.eventName)}</td>${columns
+        .map(column => `<td>${formatValue(event[column])}</td>`).join('')}</tr>`);
+    return `<div class="scroll"><table class="data"><thead><tr>${header}</tr></thead><tbody>${rows.join('')}</tbody></table></div>`;
+}
+
+function renderSlowestExecutions(run: RunExport): string {
+    const slowest = selectSlowestExecutions(run);
+    if (slowest.length === 0) {
+        return '<p class="empty">No execution reported a duration.</p>';
+    }
+    return slowest.map(({ execution, events }) => {
+        const parameters = Object.entries(execution.parameters ?? {})
+            .map(([name, value]) => `${escapeHtml(name)} = ${value === null ? 'NULL' : escapeHtml(value)}`);
+        const details = [
+            execution.queryName ? escapeHtml(execution.queryName) : undefined,
+            `started ${formatTime(execution.startTime)}`,
+            parameters.length > 0 ? parameters.join(', ') : undefined
+        ].filter(Boolean).join(' · ');
+        return `<section class="execution"><h3>Execution #${execution.executionNumber} — ${formatMs(execution.maxDuration)}</h3>`
+            + `<p class="details">${details}</p>${renderEvents(events)}</section>`;
+    }).join('');
+}
+
+const REPORT_STYLES = `
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #1f1f1f; margin: 0 auto; max-width: 1200px; padding: 24px; }
+    h1 { margin-bottom: 4px; }
+    h2 { border-bottom: 1px solid #d0d0d0; padding-bottom: 4px; margin-top: 32px; }
+    h3 { margin-bottom: 4px; }
+    .subtitle, .details, .empty { color: #616161; }
+    table { border-collapse: collapse; font-size: 13px; }
+    .properties th { text-align: left; padding: 4px 16px 4px 0; font-weight: 600; vertical-align: top; white-space: nowrap; }
+    .properties td { padding: 4px 0; }
+    .data { margin-top: 8px; }
+    .data th, .data td { border: 1px solid #d0d0d0; padding: 4px 8px; text-align: left; vertical-align: top; }
+    .data th { background: #f3f3f3; }
+    pre { margin: 0; white-space: pre-wrap; font-family: Consolas, 'Courier New', monospace; font-size: 12px; }
+    .scroll { overflow-x: auto; }
+    .chart { margin: 16px 0; padding: 12px; border-radius: 4px; }
+    .chart img { max-width: 100%; display: block; }
+    .chart figcaption { color: #9e9e9e; font-size: 12px; margin-top: 4px; }
+    @media print { .chart, .execution { break-inside: avoid; } }
+`;
+
+/**
+ * Renders a run as a single HTML file without scripts or external resources, so it can be opened
+ * from a shared drive in any browser. The charts are embedded as images.
+ */
+export function renderRunReport(report: RunReport): string {
+    const title = `Stress Test Report — ${formatTime(report.run.metadata.testStartTime ?? report.generatedAt)}`;
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>${REPORT_STYLES}</style>
+</head>
+<body>
+    <h1>${escapeHtml(title)}</h1>
+    <p class="subtitle">${formatValue(report.environment.connectionName)} · ${formatValue(report.run.executions.length)} executions</p>
+    <h2>Summary</h2>
+    ${renderSummary(report.run)}
+    <h2>Charts</h2>
+    ${renderCharts(report.charts)}
+    <h2>Configuration</h2>
+    ${renderConfiguration(report.run)}
+    <h2>Environment</h2>
+    ${renderEnvironment(report)}
+    <h2>Slowest Executions</h2>
+    ${renderSlowestExecutions(report.run)}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,93 @@
+import { ConnectionConfig } from './storage';
+import { pickConnectionOptions } from './connectionString';
+
+/**
+ * Workspace file the team commits to share connection profiles, relative to the workspace folder.
+ */
+export const SHARED_CONNECTIONS_FILE = '.vscode/sqlstress-connections.json';
+
+/**
+ * Prefix of the ids of shared connections, so they never collide with personal ones.
+ */
+export const SHARED_CONNECTION_ID_PREFIX = 'shared:';
+
+export class SharedConnectionsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SharedConnectionsError';
+    }
+}
+
+/**
+ * Reads the connections of a shared connections file. Ids are returned as written in the file.
+ * Throws SharedConnectionsError when the file is not valid.
+ */
+export function parseSharedConnections(json: string): ConnectionConfig[] {
+    let file: unknown;
+    try {
+        file = JSON.parse(json);
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        throw new SharedConnectionsError(`Shared connections file is not valid JSON: ${detail}`);
+    }
+    if (!isRecord(file) || !Array.isArray(file.connections)) {
+        throw new SharedConnectionsError('Shared connections file needs a "connections" array');
+    }
+
+    return file.connections.map((entry: unknown, index: number) => {
+        if (!isRecord(entry)) {
+            throw new SharedConnectionsError(`connections[${index}] must be an object`);
+        }
+        for (const field of ['id', 'name', 'server']) {
+            if (typeof entry[field] !== 'string' || (entry[field] as string).trim() === '') {
+                throw new SharedConnectionsError(`connections[${index}] needs a "${field}"`);
+            }
+        }
+        return toSharedProfile(entry as unknown as ConnectionConfig);
+    });
+}
+
+/**
+ * Writes connections as a shared connections file, without their passwords. Connections already
+ * in the existing file are replaced when they have the same id and kept otherwise.
+ */
+export function serializeSharedConnections(connections: ConnectionConfig[], existingJson?: string): string {
+    const merged = new Map<string, ConnectionConfig>();
+    if (existingJson !== undefined) {
+        parseSharedConnections(existingJson).forEach(connection => merged.set(connection.id, connection));
+    }
+    connections.forEach(connection => {
+        const profile = toSharedProfile(connection);
+        merged.set(profile.id, profile);
+    });
+    return JSON.stringify({ connections: [...merged.values()] }, null, 2) + '\n';
+}
+
+// Only the settings the team shares; secrets and local state stay behind
+function toSharedProfile(connection: ConnectionConfig): ConnectionConfig {
+    const profile: ConnectionConfig = {
+        id: connection.id.startsWith(SHARED_CONNECTION_ID_PREFIX) ? connection.id.slice(SHARED_CONNECTION_ID_PREFIX.length) : connection.id,
+        name: connection.name,
+        server: connection.server
+    };
+    if (connection.port !== undefined) {
+        profile.port = connection.port;
+    }
+    if (connection.database) {
+        profile.database = connection.database;
+    }
+    if (connection.integratedSecurity) {
+        profile.integratedSecurity = true;
+    } else if (connection.username) {
+        profile.username = connection.username;
+    }
+    Object.assign(profile, pickConnectionOptions(connection));
+    if (connection.group) {
+        profile.group = connection.group;
+    }
+    return profile;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -2,6 +2,17 @@ import * as vscode from 'vscode';
 import { ConnectionStorageService } from './connectionStorageService';
 import { QueryResultStorageService } from './queryResultStorageService';
 import { PerformanceMetricsStorageService } from './performanceMetricsStorageService';
+import { IStorageService } from './interfaces/IStorageService';
+import { IHostEnvironment } from './interfaces/IHostEnvironment';
+import { StressTestRequest } from './httpClient';
+import { DurationPercentiles } from './runMetrics';
+import { LatencyHistogramSnapshot } from './latencyHistogram';
+import { AssertionResult } from './runAssertions';
+import { WaitStatistic } from './websocketClient';
+
+export type ConnectionEncryption = 'Optional' | 'Mandatory' | 'Strict';
+
+export type ApplicationIntent = 'ReadWrite' | 'ReadOnly';
 
 export interface ConnectionConfig {
     id: string;
@@ -10,8 +21,27 @@ export interface ConnectionConfig {
     database?: string;
     username?: string;
     password?: string;
+    /** SecretStorage key holding the password; the password itself is never persisted in workspaceState */
+    passwordSecretKey?: string;
     integratedSecurity?: boolean;
     port?: number;
+    /** SqlClient's Encrypt keyword; SqlClient's default (Mandatory) when unset */
+    encrypt?: ConnectionEncryption;
+    /** Trusted when unset */
+    trustServerCertificate?: boolean;
+    /** Seconds to wait for the connection to open; 30 when unset */
+    connectTimeout?: number;
+    /** Default seconds a command may run; SqlClient's default (30) when unset */
+    commandTimeout?: number;
+    applicationName?: string;
+    applicationIntent?: ApplicationIntent;
+    multiSubnetFailover?: boolean;
+    /** Further SqlClient keywords passed through as written, e.g. { "Packet Size": "8192" } */
+    additionalKeywords?: Record<string, string>;
+    /** Explorer group the connection is listed under, e.g. "Prod"; top level when unset */
+    group?: string;
+    /** Read from the workspace's shared connections file; never saved to workspaceState */
+    shared?: boolean;
 }
 
 export interface QueryResult {
@@ -41,18 +71,85 @@ export interface TimeRange {
     endTime?: Date;
 }
 
+/**
+ * A stress test as it was started: the request sent to the backend and the assertions checked afterwards.
+ */
+export type StressTestConfiguration = StressTestRequest & { assertions?: string[] };
+
+/**
+ * The connection a run used, without its credentials.
+ */
+export interface RunConnection {
+    id: string;
+    name?: string;
+    server?: string;
+}
+
+export interface ExecutionSummary {
+    executionNumber: number;
+    queryName?: string; // Scenario query run by this execution
+    startTime: number;
+    endTime?: number;
+    duration?: number; // in ms
+    rowCount?: number;
+    dataSizeBytes?: number;
+    logicalReads?: number;
+    writes?: number;
+    cpuTime?: number; // in ms
+    failed?: boolean;
+}
+
+export interface QueryRunMetrics {
+    queryName: string;
+    executionCount: number;
+    avgDuration: number;
+    minDuration: number;
+    maxDuration: number;
+}
+
+export interface HistoricalRun {
+    runId: number; // Sequential run number, continued across sessions
+    startTime: number;
+    endTime: number;
+    avgDuration: number;
+    minDuration: number;
+    maxDuration: number;
+    avgDataSizeBytes?: number;
+    minDataSizeBytes?: number;
+    maxDataSizeBytes?: number;
+    executionCount: number;
+    failedExecutionCount?: number;
+    errorRatePercent?: number;
+    durationPercentiles?: DurationPercentiles;
+    durationHistogram?: LatencyHistogramSnapshot; // Every duration of the run, set when the run is finalized
+    avgLogicalReads?: number;
+    avgWrites?: number;
+    avgCpuTime?: number; // in ms
+    queries?: QueryRunMetrics[]; // Per scenario query breakdown
+    assertions?: AssertionResult[]; // Verdicts, set when the run is finalized
+    connection?: RunConnection;
+    configuration?: StressTestConfiguration; // Query text, load settings and assertions of the run
+    executionPlanCount?: number; // Actual plans stored with the run, see RunHistoryStorageService.loadExecutionPlans
+    waitStatistics?: WaitStatistic[]; // Server waits during the run, longest first; missing without VIEW SERVER STATE
+    deadlockCount?: number; // Deadlocks involving the run's sessions, see RunHistoryStorageService.loadBlockingReports
+    blockedProcessReportCount?: number; // Blocked process reports of the run's sessions
+}
+
 /**
  * Facade service that delegates to specialized storage services.
  * Maintains backward compatibility while using separated services internally.
  * Single Responsibility: Facade/coordination only.
  */
-export class StorageService {
+export class StorageService implements IStorageService {
     private readonly connectionStorage: ConnectionStorageService;
     private readonly queryResultStorage: QueryResultStorageService;
     private readonly performanceMetricsStorage: PerformanceMetricsStorageService;
 
-    constructor(context: vscode.ExtensionContext) {
-        this.connectionStorage = new ConnectionStorageService(context);
+    /**
+     * @param hostEnvironment - Locates the workspace's shared connections file; without it only personal connections load
+     */
+    constructor(context: vscode.ExtensionContext, hostEnvironment?: IHostEnvironment) {
+        this.connectionStorage = new ConnectionStorageService(context, hostEnvironment);
         this.queryResultStorage = new QueryResultStorageService(context);
         this.performanceMetricsStorage = new PerformanceMetricsStorageService(context);
     }
@@ -82,6 +179,26 @@ export class StorageService {
         return await this.connectionStorage.getConnection(id);
     }
 
+    async resolveConnectionSecrets(connection: ConnectionConfig): Promise<ConnectionConfig> {
+        return await this.connectionStorage.resolveSecrets(connection);
+    }
+
+    async loadSharedConnections(): Promise<ConnectionConfig[]> {
+        return await this.connectionStorage.loadSharedConnections();
+    }
+
+    async setSharedConnectionPassword(id: string, password: string): Promise<void> {
+        await this.connectionStorage.setSharedConnectionPassword(id, password);
+    }
+
+    getSharedConnectionsFile(): string | undefined {
+        return this.connectionStorage.getSharedConnectionsFile();
+    }
+
+    async migratePasswordsToSecretStorage(): Promise<number> {
+        return await this.connectionStorage.migratePasswordsToSecretStorage();
+    }
+
     // Query result methods - delegate to QueryResultStorageService
     async saveQueryResult(result: QueryResult): Promise<void> {
         await this.queryResultStorage.saveQueryResult(result);
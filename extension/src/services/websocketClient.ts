@@ -1,7 +1,9 @@
 import * as signalR from '@microsoft/signalr';
-import * as vscode from 'vscode';
-import { ILogger, Logger } from './logger';
-import { StorageService, QueryResult, PerformanceMetrics } from './storage';
+import { ILogger } from './logger';
+import { ConsoleLogger } from './consoleLogger';
+import { ApplicationIntent, ConnectionEncryption, QueryResult, PerformanceMetrics } from './storage';
+import { IStorageService } from './interfaces/IStorageService';
+import { DEFAULT_BACKEND_URL, StressTestResponse } from './httpClient';
 
 export interface PerformanceData {
     timestamp: number;
@@ -22,6 +24,28 @@ export interface ExtendedEventData {
     actions: { [key: string]: any }; // Actions captured with the event
 }
 
+// Deadlock graph of a deadlock with a session of the execution, preferably the victim
+export interface DeadlockReportEventData extends ExtendedEventData {
+    eventName: 'xml_deadlock_report';
+    eventFields: { xml_report: string };
+}
+
+// Raised while a session of the execution waits on a lock longer than the server's blocked process threshold
+export interface BlockedProcessReportEventData extends ExtendedEventData {
+    eventName: 'blocked_process_report';
+    eventFields: { blocked_process: string; duration?: number }; // duration in microseconds
+}
+
+export type BlockingReportEventData = DeadlockReportEventData | BlockedProcessReportEventData;
+
+export function isDeadlockReport(data: ExtendedEventData): data is DeadlockReportEventData {
+    return data.eventName === 'xml_deadlock_report';
+}
+
+export function isBlockedProcessReport(data: ExtendedEventData): data is BlockedProcessReportEventData {
+    return data.eventName === 'blocked_process_report';
+}
+
 export interface ExecutionBoundary {
     executionNumber: number;
     executionId: string; // GUID
@@ -29,6 +53,8 @@ export interface ExecutionBoundary {
     endTime?: string; // ISO date string (null if still running)
     isStart: boolean;
     timestampMs: number; // Unix timestamp in milliseconds
+    queryName?: string; // Scenario query run by this execution
+    parameters?: { [name: string]: string | null }; // Values bound to @param placeholders (start boundary only)
 }
 
 export interface ExecutionMetrics {
@@ -39,6 +65,40 @@ export interface ExecutionMetrics {
     timestampMs: number; // Unix timestamp in milliseconds
 }
 
+// Sent whenever the concurrency of a stress test changes
+export interface LoadLevel {
+    concurrency: number; // Workers running, or executions in flight at a target rate
+    timestamp: string; // ISO date string
+    timestampMs: number; // Unix timestamp in milliseconds
+}
+
+// Actual execution plan kept for a stress test with a plan capture, sent before the test completes
+export interface ExecutionPlan {
+    executionNumber: number;
+    executionId: string; // GUID
+    queryName?: string; // Scenario query run by this execution
+    durationMs: number;
+    showplanXml: string[]; // One ShowPlanXML document per statement
+    timestamp: string; // ISO date string
+    timestampMs: number; // Unix timestamp in milliseconds
+}
+
+// Totals of one wait type from sys.dm_os_wait_stats over a stress test
+export interface WaitStatistic {
+    waitType: string;
+    waitingTasksCount: number;
+    waitTimeMs: number; // Includes the signal wait time
+    signalWaitTimeMs: number;
+}
+
+// Server-wide waits between snapshots taken before and after a stress test, sent before it completes
+export interface WaitStatisticsData {
+    startTime: string; // ISO date string
+    endTime: string; // ISO date string
+    waits: WaitStatistic[]; // Longest total wait time first, idle waits left out
+    timestampMs: number; // Unix timestamp in milliseconds
+}
+
 // Storage request/response interfaces matching backend DTOs
 export interface StorageResponse<T = any> {
     success: boolean;
@@ -55,6 +115,14 @@ export interface ConnectionConfigDto {
     password?: string;
     integratedSecurity: boolean;
     port?: number;
+    encrypt?: ConnectionEncryption;
+    trustServerCertificate?: boolean;
+    connectTimeout?: number;
+    commandTimeout?: number;
+    applicationName?: string;
+    applicationIntent?: ApplicationIntent;
+    multiSubnetFailover?: boolean;
+    additionalKeywords?: Record<string, string>;
 }
 
 export interface SaveConnectionRequest {
@@ -125,19 +193,22 @@ export class WebSocketClient {
     private isConnecting = false;
     private isIntentionallyDisconnected = false;
     private logger: ILogger;
-    private pendingStorageService: StorageService | null = null;
+    private pendingStorageService: IStorageService | null = null;
 
     private onPerformanceDataCallbacks: ((data: PerformanceData) => void)[] = [];
     private onHeartbeatCallbacks: ((message: HeartbeatMessage) => void)[] = [];
     private onExtendedEventDataCallbacks: ((data: ExtendedEventData) => void)[] = [];
     private onExecutionBoundaryCallbacks: ((boundary: ExecutionBoundary) => void)[] = [];
     private onExecutionMetricsCallbacks: ((metrics: ExecutionMetrics) => void)[] = [];
+    private onLoadLevelCallbacks: ((loadLevel: LoadLevel) => void)[] = [];
+    private onExecutionPlanCallbacks: ((plan: ExecutionPlan) => void)[] = [];
+    private onWaitStatisticsCallbacks: ((data: WaitStatisticsData) => void)[] = [];
+    private onStressTestCompletedCallbacks: ((result: StressTestResponse) => void)[] = [];
+    private onConnectionLostCallbacks: (() => void)[] = [];
 
     constructor(baseUrl?: string, logger?: ILogger) {
-        // Default to localhost, can be configured via settings
-        const config = vscode.workspace.getConfiguration('sqlStressTest');
-        this.baseUrl = baseUrl || config.get<string>('backendUrl', 'http://localhost:5000');
-        this.logger = logger || new Logger('SQL Stress Test - WebSocket');
+        this.baseUrl = baseUrl || DEFAULT_BACKEND_URL;
+        this.logger = logger || new ConsoleLogger('SQL Stress Test - WebSocket');
         
         this.logger.log('WebSocketClient initialized', { baseUrl: this.baseUrl });
     }
@@ -216,6 +287,23 @@ export class WebSocketClient {
                 this.onExecutionMetricsCallbacks.forEach(callback => callback(metrics));
             });
 
+            this.connection.on('LoadLevel', (loadLevel: LoadLevel) => {
+                this.onLoadLevelCallbacks.forEach(callback => callback(loadLevel));
+            });
+
+            this.connection.on('ExecutionPlan', (plan: ExecutionPlan) => {
+                this.onExecutionPlanCallbacks.forEach(callback => callback(plan));
+            });
+
+            this.connection.on('WaitStatistics', (data: WaitStatisticsData) => {
+                this.onWaitStatisticsCallbacks.forEach(callback => callback(data));
+            });
+
+            this.connection.on('StressTestCompleted', (result: StressTestResponse) => {
+                this.logger.log('Stress test completed', { testId: result.testId, success: result.success, cancelled: result.cancelled });
+                this.onStressTestCompletedCallbacks.forEach(callback => callback(result));
+            });
+
             this.connection.onclose(async (error) => {
                 this.isConnecting = false;
                 if (error) {
@@ -223,6 +311,7 @@ export class WebSocketClient {
                 } else {
                     this.logger.log('WebSocket connection closed normally');
                 }
+                this.onConnectionLostCallbacks.forEach(callback => callback());
                 
                 // Attempt to reconnect if connection was closed unexpectedly
                 // Only reconnect if we're not already disconnected intentionally
@@ -261,6 +350,7 @@ export class WebSocketClient {
 
             this.connection.onreconnecting((error) => {
                 this.logger.log('WebSocket reconnecting', { error: error?.message });
+                this.onConnectionLostCallbacks.forEach(callback => callback());
             });
 
             this.connection.onreconnected((connectionId) => {
@@ -293,12 +383,9 @@ export class WebSocketClient {
             this.isConnecting = false;
             this.logger.error('Failed to connect WebSocket', error);
             
-            // Check for 403 specifically
+            // Check for 403 specifically; callers decide how to show the failure
             if (error?.statusCode === 403 || error?.code === 403 || error?.response?.status === 403) {
-                this.logger.error('403 Forbidden error detected', error);
-                vscode.window.showErrorMessage(
-                    `WebSocket connection failed with 403 Forbidden. Check CORS configuration on backend. URL: ${this.baseUrl}/sqlhub`
-                );
+                this.logger.error(`403 Forbidden error detected. Check CORS configuration on backend. URL: ${this.baseUrl}/sqlhub`, error);
             }
             
             throw error;
@@ -394,11 +481,69 @@ export class WebSocketClient {
         }
     }
 
+    onLoadLevel(callback: (loadLevel: LoadLevel) => void): void {
+        this.onLoadLevelCallbacks.push(callback);
+    }
+
+    offLoadLevel(callback: (loadLevel: LoadLevel) => void): void {
+        const index = this.onLoadLevelCallbacks.indexOf(callback);
+        if (index > -1) {
+            this.onLoadLevelCallbacks.splice(index, 1);
+        }
+    }
+
+    onExecutionPlan(callback: (plan: ExecutionPlan) => void): void {
+        this.onExecutionPlanCallbacks.push(callback);
+    }
+
+    offExecutionPlan(callback: (plan: ExecutionPlan) => void): void {
+        const index = this.onExecutionPlanCallbacks.indexOf(callback);
+        if (index >= 0) {
+            this.onExecutionPlanCallbacks.splice(index, 1);
+        }
+    }
+
+    onWaitStatistics(callback: (data: WaitStatisticsData) => void): void {
+        this.onWaitStatisticsCallbacks.push(callback);
+    }
+
+    offWaitStatistics(callback: (data: WaitStatisticsData) => void): void {
+        const index = this.onWaitStatisticsCallbacks.indexOf(callback);
+        if (index >= 0) {
+            this.onWaitStatisticsCallbacks.splice(index, 1);
+        }
+    }
+
+    onStressTestCompleted(callback: (result: StressTestResponse) => void): void {
+        this.onStressTestCompletedCallbacks.push(callback);
+    }
+
+    offStressTestCompleted(callback: (result: StressTestResponse) => void): void {
+        const index = this.onStressTestCompletedCallbacks.indexOf(callback);
+        if (index >= 0) {
+            this.onStressTestCompletedCallbacks.splice(index, 1);
+        }
+    }
+
+    /**
+     * Called when the connection drops or starts reconnecting; messages sent meanwhile are lost.
+     */
+    onConnectionLost(callback: () => void): void {
+        this.onConnectionLostCallbacks.push(callback);
+    }
+
+    offConnectionLost(callback: () => void): void {
+        const index = this.onConnectionLostCallbacks.indexOf(callback);
+        if (index >= 0) {
+            this.onConnectionLostCallbacks.splice(index, 1);
+        }
+    }
+
     /**
      * Register storage operation handlers that the backend can invoke
      * @param storageService The storage service to use for operations
      */
-    registerStorageHandlers(storageService: StorageService): void {
+    registerStorageHandlers(storageService: IStorageService): void {
         // Store the storage service reference even if connection doesn't exist yet
         this.pendingStorageService = storageService;
         
@@ -414,7 +559,7 @@ export class WebSocketClient {
      * Internal method to actually register the storage handlers on the connection
      * @param storageService The storage service to use for operations
      */
-    private registerStorageHandlersInternal(storageService: StorageService): void {
+    private registerStorageHandlersInternal(storageService: IStorageService): void {
         if (!this.connection) {
             this.logger.error('Cannot register storage handlers: connection is null');
             return;
@@ -443,7 +588,11 @@ export class WebSocketClient {
         this.connection.on('LoadConnections', async (request: LoadConnectionsRequest): Promise<StorageResponse<ConnectionConfigDto[]>> => {
             try {
                 this.logger.log('LoadConnections request received');
-                const connections = await storageService.loadConnections();
+                const storedConnections = await storageService.loadConnections();
+                // Passwords live in SecretStorage and are only resolved when the backend asks for them
+                const connections = await Promise.all(
+                    storedConnections.map(c => storageService.resolveConnectionSecrets(c))
+                );
                 // Convert to DTO format (integratedSecurity is required in DTO)
                 const dtoConnections: ConnectionConfigDto[] = connections.map(c => ({
                     id: c.id,
@@ -453,7 +602,15 @@ export class WebSocketClient {
                     username: c.username,
                     password: c.password,
                     integratedSecurity: c.integratedSecurity ?? false,
-                    port: c.port
+                    port: c.port,
+                    encrypt: c.encrypt,
+                    trustServerCertificate: c.trustServerCertificate,
+                    connectTimeout: c.connectTimeout,
+                    commandTimeout: c.commandTimeout,
+                    applicationName: c.applicationName,
+                    applicationIntent: c.applicationIntent,
+                    multiSubnetFailover: c.multiSubnetFailover,
+                    additionalKeywords: c.additionalKeywords
                 }));
                 return { success: true, data: dtoConnections };
             } catch (error: any) {
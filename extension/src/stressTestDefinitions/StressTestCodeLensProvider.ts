@@ -0,0 +1,24 @@
+import * as vscode from 'vscode';
+import { isDefinitionFile } from './StressTestDefinition';
+
+export const RUN_DEFINITION_COMMAND = 'sqlStressTest.runStressTestDefinition';
+
+/**
+ * Shows a "Run stress test" CodeLens at the top of *.sqlstress.json files.
+ * Single Responsibility: CodeLens placement only; validation happens when the test runs.
+ */
+export class StressTestCodeLensProvider implements vscode.CodeLensProvider {
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!isDefinitionFile(document.fileName)) {
+            return [];
+        }
+
+        return [
+            new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+                title: '$(play) Run stress test',
+                command: RUN_DEFINITION_COMMAND,
+                arguments: [document.uri]
+            })
+        ];
+    }
+}
@@ -0,0 +1,270 @@
+import { ExecutionPlanCapture, ExecutionPlanCaptureMode, LoadProfile, LoadProfileMode, QueryParameter, QueryParameterGenerator, ScenarioQuery } from '../services/httpClient';
+import { AssertionParseError, parseAssertion } from '../services/runAssertions';
+
+export const DEFINITION_FILE_SUFFIX = '.sqlstress.json';
+
+/**
+ * A stress test saved as a *.sqlstress.json workspace file, so it can be reviewed in git
+ * and re-run the same way. The connection is referenced by name because connection IDs
+ * are local to each workspace.
+ */
+export interface StressTestDefinition {
+    name?: string;
+    connection: string; // Name of a connection in the SQL Servers explorer
+    database?: string;
+    query?: string; // Required unless queries describes a scenario
+    queries?: ScenarioQuery[];
+    parameters?: QueryParameter[];
+    parallelExecutions: number;
+    totalExecutions: number;
+    loadProfile?: LoadProfile;
+    planCapture?: ExecutionPlanCapture;
+    assertions?: string[]; // e.g. "p95 duration < 200ms", checked when the run finishes
+}
+
+export class StressTestDefinitionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StressTestDefinitionError';
+    }
+}
+
+const LOAD_PROFILE_MODES: LoadProfileMode[] = ['fixed', 'duration', 'ramp', 'targetRate'];
+const PLAN_CAPTURE_MODES: ExecutionPlanCaptureMode[] = ['sample', 'slowest'];
+const PARAMETER_GENERATORS: QueryParameterGenerator[] = ['sequential', 'randomRange', 'guid', 'csvList', 'lookupQuery'];
+
+export function isDefinitionFile(fileName: string): boolean {
+    return fileName.toLowerCase().endsWith(DEFINITION_FILE_SUFFIX);
+}
+
+/**
+ * Parses and validates the text of a definition file.
+ * Throws StressTestDefinitionError describing the first problem found.
+ */
+export function parseStressTestDefinition(text: string): StressTestDefinition {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : 'Unknown error';
+        throw new StressTestDefinitionError(`Definition is not valid JSON: ${detail}`);
+    }
+
+    if (!isObject(value)) {
+        throw new StressTestDefinitionError('Definition must be a JSON object');
+    }
+
+    const definition: StressTestDefinition = {
+        name: optionalString(value, 'name'),
+        connection: requiredString(value, 'connection'),
+        database: optionalString(value, 'database'),
+        query: optionalString(value, 'query'),
+        queries: parseQueries(value.queries),
+        parameters: parseParameters(value.parameters),
+        parallelExecutions: optionalInteger(value, 'parallelExecutions', 1, 1000) ?? 1,
+        totalExecutions: optionalInteger(value, 'totalExecutions', 1, 100000) ?? 1,
+        loadProfile: parseLoadProfile(value.loadProfile),
+        planCapture: parsePlanCapture(value.planCapture),
+        assertions: parseAssertions(value.assertions)
+    };
+
+    if (!definition.queries && !definition.query?.trim()) {
+        throw new StressTestDefinitionError('Definition needs a "query" or a "queries" scenario');
+    }
+
+    return definition;
+}
+
+/**
+ * Formats a definition the way it is saved to disk, leaving out empty optional fields.
+ */
+export function serializeStressTestDefinition(definition: StressTestDefinition): string {
+    const ordered: StressTestDefinition = {
+        name: definition.name || undefined,
+        connection: definition.connection,
+        database: definition.database || undefined,
+        query: definition.queries && definition.queries.length > 0 ? undefined : definition.query,
+        queries: definition.queries && definition.queries.length > 0 ? definition.queries : undefined,
+        parameters: definition.parameters && definition.parameters.length > 0 ? definition.parameters : undefined,
+        parallelExecutions: definition.parallelExecutions,
+        totalExecutions: definition.totalExecutions,
+        loadProfile: definition.loadProfile && definition.loadProfile.mode !== 'fixed' ? definition.loadProfile : undefined,
+        planCapture: definition.planCapture,
+        assertions: definition.assertions && definition.assertions.length > 0 ? definition.assertions : undefined
+    };
+    return JSON.stringify(ordered, null, 2) + '\n';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requiredString(value: Record<string, unknown>, field: string): string {
+    const text = optionalString(value, field);
+    if (!text || !text.trim()) {
+        throw new StressTestDefinitionError(`"${field}" is required`);
+    }
+    return text;
+}
+
+function optionalString(value: Record<string, unknown>, field: string): string | undefined {
+    const text = value[field];
+    if (text === undefined || text === null) {
+        return undefined;
+    }
+    if (typeof text !== 'string') {
+        throw new StressTestDefinitionError(`"${field}" must be a string`);
+    }
+    return text;
+}
+
+function optionalInteger(value: Record<string, unknown>, field: string, min: number, max: number): number | undefined {
+    const number = value[field];
+    if (number === undefined || number === null) {
+        return undefined;
+    }
+    if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+        throw new StressTestDefinitionError(`"${field}" must be a whole number between ${min} and ${max}`);
+    }
+    return number;
+}
+
+function optionalNumber(value: Record<string, unknown>, field: string): number | undefined {
+    const number = value[field];
+    if (number === undefined || number === null) {
+        return undefined;
+    }
+    if (typeof number !== 'number' || Number.isNaN(number)) {
+        throw new StressTestDefinitionError(`"${field}" must be a number`);
+    }
+    return number;
+}
+
+function parseQueries(value: unknown): ScenarioQuery[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new StressTestDefinitionError('"queries" must be a non-empty array');
+    }
+
+    const queries = value.map((entry, index) => {
+        if (!isObject(entry)) {
+            throw new StressTestDefinitionError(`queries[${index}] must be an object`);
+        }
+        return {
+            name: requiredString(entry, 'name'),
+            query: requiredString(entry, 'query'),
+            weight: optionalInteger(entry, 'weight', 1, 10000) ?? 1
+        };
+    });
+
+    const names = new Set(queries.map(q => q.name.trim().toLowerCase()));
+    if (names.size !== queries.length) {
+        throw new StressTestDefinitionError('Scenario query names must be unique');
+    }
+    return queries;
+}
+
+function parseParameters(value: unknown): QueryParameter[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Array.isArray(value)) {
+        throw new StressTestDefinitionError('"parameters" must be an array');
+    }
+
+    return value.map((entry, index) => {
+        if (!isObject(entry)) {
+            throw new StressTestDefinitionError(`parameters[${index}] must be an object`);
+        }
+        const generator = requiredString(entry, 'generator') as QueryParameterGenerator;
+        if (!PARAMETER_GENERATORS.includes(generator)) {
+            throw new StressTestDefinitionError(`Unknown generator "${generator}" in parameters[${index}]`);
+        }
+        const values = entry.values;
+        if (values !== undefined && (!Array.isArray(values) || values.some(v => typeof v !== 'string'))) {
+            throw new StressTestDefinitionError(`parameters[${index}].values must be an array of strings`);
+        }
+        return {
+            name: requiredString(entry, 'name'),
+            generator,
+            start: optionalNumber(entry, 'start'),
+            step: optionalNumber(entry, 'step'),
+            min: optionalNumber(entry, 'min'),
+            max: optionalNumber(entry, 'max'),
+            values: values as string[] | undefined,
+            lookupQuery: optionalString(entry, 'lookupQuery')
+        };
+    });
+}
+
+function parseLoadProfile(value: unknown): LoadProfile | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!isObject(value)) {
+        throw new StressTestDefinitionError('"loadProfile" must be an object');
+    }
+
+    const mode = requiredString(value, 'mode') as LoadProfileMode;
+    if (!LOAD_PROFILE_MODES.includes(mode)) {
+        throw new StressTestDefinitionError(`Unknown load profile mode "${mode}"`);
+    }
+    const rampShape = optionalString(value, 'rampShape');
+    if (rampShape !== undefined && rampShape !== 'stepped' && rampShape !== 'linear') {
+        throw new StressTestDefinitionError(`Unknown ramp shape "${rampShape}"`);
+    }
+
+    // Ranges are checked by the backend, which reports them when the test starts
+    return {
+        mode,
+        durationSeconds: optionalNumber(value, 'durationSeconds'),
+        startWorkers: optionalNumber(value, 'startWorkers'),
+        stepWorkers: optionalNumber(value, 'stepWorkers'),
+        stepIntervalSeconds: optionalNumber(value, 'stepIntervalSeconds'),
+        maxWorkers: optionalNumber(value, 'maxWorkers'),
+        rampShape,
+        targetRate: optionalNumber(value, 'targetRate')
+    };
+}
+
+function parsePlanCapture(value: unknown): ExecutionPlanCapture | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!isObject(value)) {
+        throw new StressTestDefinitionError('"planCapture" must be an object');
+    }
+
+    const mode = requiredString(value, 'mode') as ExecutionPlanCaptureMode;
+    if (!PLAN_CAPTURE_MODES.includes(mode)) {
+        throw new StressTestDefinitionError(`Unknown execution plan capture mode "${mode}"`);
+    }
+    return {
+        mode,
+        sampleInterval: optionalInteger(value, 'sampleInterval', 1, 100000),
+        count: optionalInteger(value, 'count', 1, 100)
+    };
+}
+
+function parseAssertions(value: unknown): string[] | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (!Array.isArray(value) || value.some(a => typeof a !== 'string')) {
+        throw new StressTestDefinitionError('"assertions" must be an array of strings');
+    }
+
+    for (const assertion of value as string[]) {
+        try {
+            parseAssertion(assertion);
+        } catch (error) {
+            if (error instanceof AssertionParseError) {
+                throw new StressTestDefinitionError(error.message);
+            }
+            throw error;
+        }
+    }
+    return value as string[];
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { StorageService } from '../services/storage';
+import { StressTestResponse } from '../services/httpClient';
+import { ILogger } from '../services/logger';
+import { StressTestHandler } from '../panes/queryEditor/StressTestHandler';
+import { isDefinitionFile, parseStressTestDefinition, StressTestDefinition } from './StressTestDefinition';
+
+/**
+ * Runs the stress test described by a *.sqlstress.json file, showing progress with a
+ * Cancel button in a notification while the performance graph follows the run.
+ * Single Responsibility: Running saved stress test definitions only.
+ */
+export class StressTestDefinitionRunner {
+    constructor(
+        private storageService: StorageService,
+        private stressTestHandler: StressTestHandler,
+        private logger: ILogger
+    ) {}
+
+    /**
+     * Runs the definition in the given file, or in the active editor when no URI is given.
+     */
+    async run(uri?: vscode.Uri): Promise<StressTestResponse | undefined> {
+        const document = uri
+            ? await vscode.workspace.openTextDocument(uri)
+            : vscode.window.activeTextEditor?.document;
+
+        if (!document || !isDefinitionFile(document.fileName)) {
+            vscode.window.showErrorMessage('Open a *.sqlstress.json file to run its stress test');
+            return undefined;
+        }
+
+        if (this.stressTestHandler.isRunning()) {
+            vscode.window.showWarningMessage('A stress test is already running');
+            return undefined;
+        }
+
+        let definition: StressTestDefinition;
+        try {
+            definition = parseStressTestDefinition(document.getText());
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.logger.warn('Invalid stress test definition', { fileName: document.fileName, error: errorMessage });
+            vscode.window.showErrorMessage(`Invalid stress test definition: ${errorMessage}`);
+            return undefined;
+        }
+
+        const connections = await this.storageService.loadConnections();
+        const connection = connections.find(c => c.name.toLowerCase() === definition.connection.trim().toLowerCase());
+        if (!connection) {
+            vscode.window.showErrorMessage(`Connection "${definition.connection}" not found. Add it in the SQL Servers explorer first.`);
+            return undefined;
+        }
+
+        const title = definition.name || vscode.workspace.asRelativePath(document.uri);
+        this.logger.log('Running stress test definition', { fileName: document.fileName, connectionId: connection.id });
+
+        const result = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Stress test: ${title}`,
+                cancellable: true
+            },
+            async (progress, token) => {
+                progress.report({ message: 'Running...' });
+                const cancellation = token.onCancellationRequested(() => {
+                    progress.report({ message: 'Stopping...' });
+                    this.stressTestHandler.stopStressTest();
+                });
+                try {
+                    return await this.stressTestHandler.executeStressTest({
+                        ...definition,
+                        connectionId: connection.id,
+                        query: definition.query ?? ''
+                    });
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                    return { success: false, error: errorMessage } as StressTestResponse;
+                } finally {
+                    cancellation.dispose();
+                }
+            }
+        );
+
+        if (result.cancelled) {
+            vscode.window.showInformationMessage(`Stress test "${title}" stopped`);
+        } else if (result.success) {
+            vscode.window.showInformationMessage(`Stress test "${title}" completed: ${result.message || 'Success'}`);
+        } else {
+            vscode.window.showErrorMessage(`Stress test "${title}" failed: ${result.error || 'Unknown error'}`);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('deadlockGraphView.js', () => {
+    let mockVsCodeApi;
+
+    const deadlockGraph = `<deadlock>
+  <victim-list><victimProcess id="process2" /></victim-list>
+  <process-list>
+    <process id="process1" spid="61" lockMode="X" waitresource="KEY: 5:72057594043236352 (8194443284a0)" waittime="4210"
+             isolationlevel="read committed (2)" clientapp="SQL Stress Test" hostname="build-01" loginname="stress">
+      <executionStack><frame procname="adhoc" line="1">UPDATE Customers SET Name = @name</frame></executionStack>
+      <inputbuf>
+UPDATE Orders SET Status = 1 WHERE Id = 7; UPDATE Customers SET Name = 'x' WHERE Id = 3
+      </inputbuf>
+    </process>
+    <process id="process2" spid="62" lockMode="U" waittime="4100">
+      <executionStack><frame procname="dbo.usp_Ship" line="4">UPDATE Orders SET Status = 2 WHERE Id = 7</frame></executionStack>
+      <inputbuf></inputbuf>
+    </process>
+  </process-list>
+  <resource-list>
+    <keylock hobtid="72057594043236352" dbid="5" objectname="Shop.dbo.Orders" indexname="PK_Orders" id="lock1" mode="X">
+      <owner-list><owner id="process1" mode="X" /></owner-list>
+      <waiter-list><waiter id="process2" mode="U" requestType="wait" /></waiter-list>
+    </keylock>
+    <keylock hobtid="72057594043301888" dbid="5" objectname="Shop.dbo.Customers" indexname="PK_Customers" id="lock2" mode="X">
+      <owner-list><owner id="process2" mode="X" /></owner-list>
+      <waiter-list><waiter id="process1" mode="X" requestType="wait" /></waiter-list>
+    </keylock>
+  </resource-list>
+</deadlock>`;
+
+    const blockedProcessReport = `<blocked-process-report monitorLoop="42">
+  <blocked-process>
+    <process id="process3" spid="70" waitresource="OBJECT: 5:245575913:0" waittime="5250" lockMode="S">
+      <inputbuf>SELECT COUNT(*) FROM Orders</inputbuf>
+    </process>
+  </blocked-process>
+  <blocking-process>
+    <process status="sleeping" spid="71"><inputbuf>BEGIN TRAN; UPDATE Orders SET Status = 3</inputbuf></process>
+  </blocking-process>
+</blocked-process-report>`;
+
+    const reports = [
+        { eventName: 'xml_deadlock_report', executionNumber: 3, eventFields: { xml_report: deadlockGraph }, actions: {} },
+        { eventName: 'blocked_process_report', executionNumber: 8, eventFields: { blocked_process: blockedProcessReport, duration: 5250000 }, actions: {} },
+        { eventName: 'xml_deadlock_report', executionNumber: 9, eventFields: { xml_report: '<deadlock' }, actions: {} }
+    ];
+
+    const sendReports = (data) => {
+        window.dispatchEvent(new MessageEvent('message', { data: { command: 'showReports', runId: 3, reports: data } }));
+    };
+
+    const selectReport = (index) => {
+        const reportSelect = document.getElementById('reportSelect');
+        reportSelect.value = String(index);
+        reportSelect.dispatchEvent(new Event('change'));
+    };
+
+    const participants = () => Array.from(document.querySelectorAll('.participant'));
+
+    beforeEach(() => {
+        mockVsCodeApi = { postMessage: vi.fn() };
+        global.acquireVsCodeApi = vi.fn(() => mockVsCodeApi);
+
+        document.body.innerHTML = `
+            <select id="reportSelect"></select>
+            <button id="openXmlBtn">Open XML</button>
+            <div id="reportContainer"></div>
+        `;
+
+        const scriptContent = readFileSync(join(__dirname, '../deadlockGraphView.js'), 'utf8');
+        eval(scriptContent);
+    });
+
+    it('should list the reports of the run', () => {
+        sendReports(reports);
+
+        const options = Array.from(document.querySelectorAll('#reportSelect option')).map(o => o.textContent);
+        expect(options).toEqual(['#1 Deadlock · Execution #3', '#2 Blocked process · Execution #8', '#3 Deadlock · Execution #9']);
+    });
+
+    it('should show the victim and the SQL text of every session of a deadlock', () => {
+        sendReports(reports);
+
+        expect(document.querySelector('.report-summary').textContent).toBe('Victim: session 62 · 2 sessions · 2 resources');
+        const sessions = participants();
+        expect(sessions.map(s => s.dataset.spid)).toEqual(['61', '62']);
+        expect(sessions[1].classList.contains('victim')).toBe(true);
+        expect(sessions[0].querySelector('.participant-details').textContent).toBe(
+            'lock mode X · waited 4,210 ms on KEY: 5:72057594043236352 (8194443284a0) · read committed (2) · SQL Stress Test / build-01 / stress'
+        );
+        expect(sessions[0].querySelector('.sql-text').textContent)
+            .toBe("UPDATE Orders SET Status = 1 WHERE Id = 7; UPDATE Customers SET Name = 'x' WHERE Id = 3");
+        // Without an input buffer the statements of the stack are shown
+        expect(sessions[1].querySelector('.sql-text').textContent).toBe('UPDATE Orders SET Status = 2 WHERE Id = 7');
+    });
+
+    it('should show which session holds and which waits for each resource', () => {
+        sendReports(reports);
+
+        const rows = Array.from(document.querySelectorAll('.resource-table tbody tr'))
+            .map(row => Array.from(row.querySelectorAll('td')).map(td => td.textContent));
+        expect(rows).toEqual([
+            ['Key lock', 'Shop.dbo.Orders · PK_Orders', 'Session 61 (X)', 'Session 62 (U, wait)'],
+            ['Key lock', 'Shop.dbo.Customers · PK_Customers', 'Session 62 (X)', 'Session 61 (X, wait)']
+        ]);
+    });
+
+    it('should show the blocked and the blocking session of a blocked process report', () => {
+        sendReports(reports);
+        selectReport(1);
+
+        expect(document.querySelector('.report-summary').textContent).toBe('Session 70 blocked for 5.3 s by session 71');
+        const sessions = participants();
+        expect(sessions.map(s => s.querySelector('.role').textContent)).toEqual(['blocked', 'blocking']);
+        expect(sessions[1].querySelector('.sql-text').textContent).toBe('BEGIN TRAN; UPDATE Orders SET Status = 3');
+        const cells = Array.from(document.querySelectorAll('.resource-table tbody td')).map(td => td.textContent);
+        expect(cells).toEqual(['Wait resource', 'OBJECT: 5:245575913:0', 'Session 71', 'Session 70 (S)']);
+    });
+
+    it('should report a graph that cannot be read and open the XML of the selected report', () => {
+        sendReports(reports);
+        selectReport(2);
+
+        expect(participants()).toHaveLength(0);
+        expect(document.querySelector('.empty-state').textContent).toBe('The report is not valid XML');
+
+        document.getElementById('openXmlBtn').click();
+        expect(mockVsCodeApi.postMessage).toHaveBeenCalledWith({ command: 'openReportXml', index: 2 });
+    });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('executionPlanView.js', () => {
+    let mockVsCodeApi;
+
+    const showplan = `<?xml version="1.0" encoding="utf-16"?>
+<ShowPlanXML xmlns="http://schemas.microsoft.com/sqlserver/2004/07/showplan" Version="1.564">
+  <BatchSequence><Batch><Statements>
+    <StmtSimple StatementText="SELECT o.Id FROM Orders o JOIN Customers c ON c.Id = o.CustomerId" StatementType="SELECT" StatementSubTreeCost="2">
+      <QueryPlan DegreeOfParallelism="1">
+        <Warnings><PlanAffectingConvert ConvertIssue="Seek Plan" Expression="CONVERT_IMPLICIT(int,[o].[CustomerId],0)" /></Warnings>
+        <QueryTimeStats CpuTime="12" ElapsedTime="40" />
+        <RelOp NodeId="0" PhysicalOp="Nested Loops" LogicalOp="Inner Join" EstimateRows="10" EstimatedTotalSubtreeCost="2">
+          <RunTimeInformation><RunTimeCountersPerThread Thread="0" ActualRows="500" ActualExecutions="1" /></RunTimeInformation>
+          <NestedLoops Optimized="0">
+            <RelOp NodeId="1" PhysicalOp="Clustered Index Scan" LogicalOp="Clustered Index Scan" EstimateRows="10" EstimatedTotalSubtreeCost="1.5">
+              <Warnings><ColumnsWithNoStatistics><ColumnReference Table="[o]" Column="CustomerId" /></ColumnsWithNoStatistics></Warnings>
+              <RunTimeInformation>
+                <RunTimeCountersPerThread Thread="1" ActualRows="6" ActualExecutions="1" />
+                <RunTimeCountersPerThread Thread="2" ActualRows="6" ActualExecutions="1" />
+              </RunTimeInformation>
+              <IndexScan Ordered="0"><Object Schema="[dbo]" Table="[Orders]" Index="[PK_Orders]" Alias="[o]" /></IndexScan>
+            </RelOp>
+            <RelOp NodeId="2" PhysicalOp="Clustered Index Seek" LogicalOp="Clustered Index Seek" EstimateRows="1" EstimateRebinds="9" EstimatedTotalSubtreeCost="0.3">
+              <RunTimeInformation><RunTimeCountersPerThread Thread="0" ActualRows="12" ActualExecutions="12" /></RunTimeInformation>
+              <IndexScan Ordered="1"><Object Schema="[dbo]" Table="[Customers]" Index="[PK_Customers]" Alias="[c]" /></IndexScan>
+            </RelOp>
+          </NestedLoops>
+        </RelOp>
+      </QueryPlan>
+    </StmtSimple>
+  </Statements></Batch></BatchSequence>
+</ShowPlanXML>`;
+
+    const plans = [
+        { executionNumber: 1, executionId: 'e1', queryName: 'Orders', durationMs: 45.5, showplanXml: [showplan], timestamp: '', timestampMs: 1 },
+        { executionNumber: 11, executionId: 'e11', durationMs: 12, showplanXml: ['<ShowPlanXML'], timestamp: '', timestampMs: 2 }
+    ];
+
+    const sendPlans = (data) => {
+        window.dispatchEvent(new MessageEvent('message', { data: { command: 'showPlans', runId: 3, plans: data } }));
+    };
+
+    const operatorRows = () => Array.from(document.querySelectorAll('.operator-table tbody tr'));
+
+    beforeEach(() => {
+        mockVsCodeApi = { postMessage: vi.fn() };
+        global.acquireVsCodeApi = vi.fn(() => mockVsCodeApi);
+
+        document.body.innerHTML = `
+            <select id="planSelect"></select>
+            <button id="openXmlBtn">Open XML</button>
+            <div id="planContainer"></div>
+        `;
+
+        const scriptContent = readFileSync(join(__dirname, '../executionPlanView.js'), 'utf8');
+        eval(scriptContent);
+    });
+
+    it('should list the captured executions', () => {
+        sendPlans(plans);
+
+        const options = Array.from(document.querySelectorAll('#planSelect option')).map(o => o.textContent);
+        expect(options).toEqual(['Execution #1 · 45.50 ms · Orders', 'Execution #11 · 12.00 ms']);
+    });
+
+    it('should show the operator tree with costs and estimated and actual rows', () => {
+        sendPlans(plans);
+
+        expect(document.querySelector('.statement-text').textContent).toContain('SELECT o.Id FROM Orders');
+        expect(document.querySelector('.statement-details').textContent).toBe('Estimated cost 2 · elapsed 40 ms · CPU 12 ms');
+
+        const rows = operatorRows();
+        expect(rows.map(row => row.dataset.nodeId)).toEqual(['0', '1', '2']);
+        const cells = rows.map(row => Array.from(row.querySelectorAll('td')).map(td => td.textContent));
+        expect(cells[0].slice(0, 7)).toEqual(['Nested Loops (Inner Join)', '', '10.0%', '2', '10', '500', '1']);
+        expect(cells[1].slice(0, 7)).toEqual(['Clustered Index Scan', '[dbo].[Orders].[PK_Orders]', '75.0%', '1.5', '10', '12', '2']);
+        // The seek runs once per outer row, so its estimate covers all ten expected executions
+        expect(cells[2].slice(0, 5)).toEqual(['Clustered Index Seek', '[dbo].[Customers].[PK_Customers]', '15.0%', '0.3', '10']);
+        expect(rows[1].querySelector('.operator').style.paddingLeft).toBe('24px');
+    });
+
+    it('should flag rows that are far off the estimate and show warnings', () => {
+        sendPlans(plans);
+
+        const rows = operatorRows();
+        expect(rows[0].querySelector('.misestimate')).not.toBeNull();
+        expect(rows[1].querySelector('.misestimate')).toBeNull();
+        expect(rows[1].querySelector('.warning').textContent).toBe('⚠ Columns with no statistics: [o].CustomerId');
+        expect(document.querySelector('.statement > .warning').textContent)
+            .toContain('Type conversion in expression may affect the plan "Seek Plan"');
+    });
+
+    it('should switch plans and report plans that cannot be read', () => {
+        sendPlans(plans);
+
+        const planSelect = document.getElementById('planSelect');
+        planSelect.value = '1';
+        planSelect.dispatchEvent(new Event('change'));
+
+        expect(operatorRows()).toHaveLength(0);
+        expect(document.querySelector('.empty-state').textContent).toBe('The execution plan is not valid XML');
+    });
+
+    it('should ask to open the XML of the selected execution', () => {
+        sendPlans(plans);
+
+        document.getElementById('openXmlBtn').click();
+
+        expect(mockVsCodeApi.postMessage).toHaveBeenCalledWith({ command: 'openPlanXml', executionNumber: 1 });
+    });
+});
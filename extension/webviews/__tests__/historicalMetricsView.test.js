@@ -114,6 +114,157 @@ describe('historicalMetricsView.js', () => {
             expect(cardElement.innerHTML).toContain('1.00 KB');
         });
 
+        it('should add a per query breakdown for scenario runs', () => {
+            const createCard = window.createCard;
+            const card = {
+                label: 'Run #2',
+                executionTime: { current: 20, trend: 'stable', unit: 'ms', min: 5, max: 60 },
+                queries: [
+                    { queryName: 'read', executionCount: 70, current: 10, previous: 12, trend: 'down', unit: 'ms', min: 5, max: 20 },
+                    { queryName: '<write>', executionCount: 30, current: 43, trend: 'stable', unit: 'ms', min: 30, max: 60 }
+                ]
+            };
+
+            const cardElement = createCard(card);
+            const rows = cardElement.querySelectorAll('.query-row:not(.header)');
+
+            expect(rows.length).toBe(2);
+            expect(rows[0].textContent).toContain('read');
+            expect(rows[0].textContent).toContain('10.00 ms↓');
+            expect(rows[1].textContent).toContain('<write>');
+            expect(rows[1].innerHTML).toContain('&lt;write&gt;');
+        });
+
+        it('should not add a breakdown when the run has a single query', () => {
+            const createCard = window.createCard;
+            const card = {
+                label: 'Run #1',
+                executionTime: { current: 20, trend: 'stable', unit: 'ms', min: 5, max: 60 },
+                queries: [
+                    { queryName: 'Query', executionCount: 10, current: 20, trend: 'stable', unit: 'ms', min: 5, max: 60 }
+                ]
+            };
+
+            expect(createCard(card).querySelector('.query-breakdown')).toBeNull();
+        });
+
+        it('should show the duration percentiles of the run', () => {
+            const createCard = window.createCard;
+            const card = {
+                label: 'Run #4',
+                executionTime: {
+                    current: 20, trend: 'stable', unit: 'ms', min: 5, max: 90,
+                    percentiles: { p50: 12, p90: 30, p95: 41, p99: 80 }
+                }
+            };
+
+            const percentiles = createCard(card).querySelector('.percentiles');
+
+            expect(percentiles.textContent).toBe('p50 12.00 ms · p90 30.00 ms · p95 41.00 ms · p99 80.00 ms');
+        });
+
+        it('should show the connection and start time of the run', () => {
+            const createCard = window.createCard;
+            const startTime = new Date(2026, 9, 12, 14, 3).getTime();
+            const card = {
+                label: 'Run #12',
+                startTime,
+                connectionName: 'Local <dev>',
+                executionTime: { current: 20, trend: 'stable', unit: 'ms', min: 5, max: 90 }
+            };
+
+            const details = createCard(card).querySelector('.run-details');
+
+            expect(details.textContent).toBe(`Local <dev> · ${new Date(startTime).toLocaleString()}`);
+            expect(details.innerHTML).toContain('Local &lt;dev&gt;');
+        });
+
+        it('should show the verdict of every assertion', () => {
+            const createCard = window.createCard;
+            const card = {
+                label: 'Run #3',
+                executionTime: { current: 120, trend: 'stable', unit: 'ms', min: 40, max: 400 },
+                assertions: [
+                    { expression: 'p95 duration < 200ms', passed: false, actual: '350ms' },
+                    { expression: 'error rate < 1%', passed: true, actual: '0%' }
+                ]
+            };
+
+            const cardElement = createCard(card);
+            const verdicts = cardElement.querySelectorAll('.assertion');
+
+            expect(cardElement.querySelector('.assertions .metric-label').textContent).toBe('Assertions: 1 of 2 failed');
+            expect(verdicts.length).toBe(2);
+            expect(verdicts[0].className).toBe('assertion failed');
+            expect(verdicts[0].textContent).toBe('✗ p95 duration < 200mswas 350ms');
+            expect(verdicts[0].innerHTML).toContain('&lt; 200ms');
+            expect(verdicts[1].className).toBe('assertion passed');
+        });
+
+        it('should not add verdicts when the run had no assertions', () => {
+            const createCard = window.createCard;
+            const card = { label: 'Run #1', current: 20, trend: 'stable', unit: 'ms' };
+
+            expect(createCard(card).querySelector('.assertions')).toBeNull();
+        });
+
+        it('should open the execution plans of the run from its card', () => {
+            const createCard = window.createCard;
+            const container = document.getElementById('metricsContainer');
+
+            container.appendChild(createCard({ label: 'Run #3', runId: 3, current: 20, trend: 'stable', unit: 'ms', executionPlanCount: 5 }));
+            const button = container.querySelector('.execution-plans-btn');
+            button.click();
+
+            expect(button.textContent).toBe('5 Execution Plans');
+            expect(postMessageSpy).toHaveBeenCalledWith({ command: 'showExecutionPlans', runId: 3 });
+            expect(createCard({ label: 'Run #4', runId: 4, current: 20, trend: 'stable', unit: 'ms' }).querySelector('.execution-plans-btn')).toBeNull();
+        });
+
+        it('should count the deadlocks and blocked process reports of the run and open them from its card', () => {
+            const createCard = window.createCard;
+            const container = document.getElementById('metricsContainer');
+
+            container.appendChild(createCard({
+                label: 'Run #3',
+                runId: 3,
+                executionTime: { current: 20, trend: 'stable', unit: 'ms' },
+                blocking: { deadlockCount: 2, blockedProcessReportCount: 0, previousDeadlockCount: 1, previousBlockedProcessReportCount: 4 }
+            }));
+            const counts = Array.from(container.querySelectorAll('.blocking-count'));
+            container.querySelector('.blocking-reports-btn').click();
+
+            expect(counts.map(count => count.textContent)).toEqual([
+                'Deadlocks: 2 (previous 1)',
+                'Blocked process reports: 0 (previous 4)'
+            ]);
+            expect(counts[0].classList.contains('deadlocks')).toBe(true);
+            expect(postMessageSpy).toHaveBeenCalledWith({ command: 'showBlockingReports', runId: 3 });
+            expect(createCard({ label: 'Run #4', runId: 4, current: 20, trend: 'stable', unit: 'ms' }).querySelector('.blocking-counts')).toBeNull();
+        });
+
+        it('should show the top waits of the run with the change against the previous run', () => {
+            const card = window.createCard({
+                label: 'Run #3',
+                runId: 3,
+                executionTime: { current: 20, trend: 'stable', unit: 'ms' },
+                waits: [
+                    { waitType: 'PAGEIOLATCH_SH', waitTimeMs: 300, waitingTasksCount: 30, percentOfTotal: 75, previous: 100, trend: 'up' },
+                    { waitType: 'WRITELOG', waitTimeMs: 100, waitingTasksCount: 2, percentOfTotal: 25, previous: 0, trend: 'up' },
+                    { waitType: 'LCK_M_<X>', waitTimeMs: 1, waitingTasksCount: 1, percentOfTotal: 0, trend: 'stable' }
+                ]
+            });
+
+            const rows = Array.from(card.querySelectorAll('.wait-row:not(.header)'))
+                .map(row => Array.from(row.children).map(cell => cell.textContent));
+            expect(rows).toEqual([
+                ['PAGEIOLATCH_SH', '300.00 ms↑', '75.0%', '100.00 ms (+200.0%)'],
+                ['WRITELOG', '100.00 ms↑', '25.0%', 'new'],
+                ['LCK_M_<X>', '1.00 ms→', '0.0%', '-']
+            ]);
+            expect(window.createCard({ label: 'Run #4', current: 20, trend: 'stable', unit: 'ms' }).querySelector('.wait-breakdown')).toBeNull();
+        });
+
         it('should show trend indicators correctly', () => {
             const createCard = window.createCard;
             
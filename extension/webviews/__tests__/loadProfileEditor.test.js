@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('loadProfileEditor.js', () => {
+    let LoadProfileEditor;
+    let container;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<div id="loadProfile"></div>';
+        container = document.getElementById('loadProfile');
+
+        const scriptPath = join(__dirname, '../loadProfileEditor.js');
+        new Function(readFileSync(scriptPath, 'utf8'))();
+        LoadProfileEditor = window.LoadProfileEditor;
+    });
+
+    function setField(field, value) {
+        const input = container.querySelector('.load-profile-number[data-field="' + field + '"]');
+        input.value = value;
+        input.dispatchEvent(new Event('change'));
+    }
+
+    function setMode(mode) {
+        const select = container.querySelector('.load-profile-mode');
+        select.value = mode;
+        select.dispatchEvent(new Event('change'));
+    }
+
+    describe('LoadProfileValidator', () => {
+        it('should accept valid profiles', () => {
+            const validator = LoadProfileEditor.LoadProfileValidator;
+
+            expect(validator.validate({ mode: 'fixed' })).toBeNull();
+            expect(validator.validate({ mode: 'duration', durationSeconds: 600 })).toBeNull();
+            expect(validator.validate({
+                mode: 'ramp', durationSeconds: 600, startWorkers: 5, stepWorkers: 5, stepIntervalSeconds: 30, maxWorkers: 100, rampShape: 'linear'
+            })).toBeNull();
+            expect(validator.validate({ mode: 'targetRate', durationSeconds: 60, targetRate: 2.5 })).toBeNull();
+        });
+
+        it('should reject out of range durations, ramps and rates', () => {
+            const validator = LoadProfileEditor.LoadProfileValidator;
+
+            expect(validator.validate({ mode: 'duration', durationSeconds: 0 }))
+                .toBe('Duration must be between 1 and 86400 seconds');
+            expect(validator.validate({
+                mode: 'ramp', durationSeconds: 60, startWorkers: 10, stepWorkers: 1, stepIntervalSeconds: 30, maxWorkers: 5
+            })).toBe('Ramp max workers must be between the start workers and 1000');
+            expect(validator.validate({ mode: 'targetRate', durationSeconds: 60, targetRate: NaN }))
+                .toContain('Target rate must be greater than 0');
+            expect(validator.validate({ mode: 'burst' })).toBe('Unknown load profile "burst"');
+        });
+    });
+
+    describe('create', () => {
+        it('should default to the fixed mode', () => {
+            const editor = LoadProfileEditor.create(container);
+
+            expect(editor.getMode()).toBe('fixed');
+            expect(editor.getProfile()).toEqual({ mode: 'fixed' });
+            expect(container.querySelector('.load-profile-number')).toBeNull();
+        });
+
+        it('should show the fields of the selected mode and notify the change', () => {
+            const onChange = vi.fn();
+            const editor = LoadProfileEditor.create(container, onChange);
+
+            setMode('targetRate');
+            setField('durationSeconds', '120');
+            setField('targetRate', '12.5');
+
+            expect(onChange).toHaveBeenCalledWith('targetRate');
+            expect(editor.getProfile()).toEqual({ mode: 'targetRate', durationSeconds: 120, targetRate: 12.5 });
+            expect(editor.validate()).toBeNull();
+        });
+
+        it('should keep shared fields when switching modes', () => {
+            const editor = LoadProfileEditor.create(container);
+
+            setMode('duration');
+            setField('durationSeconds', '300');
+            setMode('ramp');
+            setField('maxWorkers', '2');
+
+            expect(editor.getProfile()).toMatchObject({ mode: 'ramp', durationSeconds: 300, startWorkers: 5, maxWorkers: 2 });
+            expect(editor.validate()).toBe('Ramp max workers must be between the start workers and 1000');
+        });
+    });
+});
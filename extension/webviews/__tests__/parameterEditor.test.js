@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('parameterEditor.js', () => {
+    let ParameterEditor;
+    let container;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<div id="queryParameters"></div>';
+        container = document.getElementById('queryParameters');
+
+        const scriptPath = join(__dirname, '../parameterEditor.js');
+        new Function(readFileSync(scriptPath, 'utf8'))();
+        ParameterEditor = window.ParameterEditor;
+    });
+
+    describe('PlaceholderParser', () => {
+        it('should find each placeholder once, in order of appearance', () => {
+            expect(ParameterEditor.PlaceholderParser.parse(
+                'SELECT * FROM orders WHERE customer_id = @customerId AND status = @status OR customer_id = @CUSTOMERID'
+            )).toEqual(['@customerId', '@status']);
+        });
+
+        it('should ignore system functions, declared variables, comments and literals', () => {
+            expect(ParameterEditor.PlaceholderParser.parse([
+                'DECLARE @total int = @seed, @other int;',
+                'SELECT @@ROWCOUNT, \'@notParam\', @total + @other -- @commented',
+                '/* @blockComment */ FROM t WHERE id = @id'
+            ].join('\n'))).toEqual(['@seed', '@id']);
+        });
+    });
+
+    describe('ParameterValidator', () => {
+        it('should accept a valid parameter set', () => {
+            expect(ParameterEditor.ParameterValidator.validate([
+                { name: '@id', generator: 'sequential', start: 1, step: 1 },
+                { name: '@qty', generator: 'randomRange', min: 1, max: 10 },
+                { name: '@key', generator: 'guid' },
+                { name: '@city', generator: 'csvList', values: ['Oslo'] },
+                { name: '@customerId', generator: 'lookupQuery', lookupQuery: 'SELECT Id FROM Customers' }
+            ])).toBeNull();
+        });
+
+        it('should reject invalid ranges, missing values and missing lookup queries', () => {
+            expect(ParameterEditor.ParameterValidator.validate([{ name: '@qty', generator: 'randomRange', min: 10, max: 1 }]))
+                .toBe('Min for @qty must not be greater than max');
+            expect(ParameterEditor.ParameterValidator.validate([{ name: '@city', generator: 'csvList', values: [] }]))
+                .toBe('Choose a CSV file with values for @city');
+            expect(ParameterEditor.ParameterValidator.validate([{ name: '@customerId', generator: 'lookupQuery', lookupQuery: ' ' }]))
+                .toBe('Enter a lookup query for @customerId');
+            expect(ParameterEditor.ParameterValidator.validate([{ name: '@id', generator: 'sequential', start: NaN, step: 1 }]))
+                .toContain('must be whole numbers');
+        });
+    });
+
+    describe('create', () => {
+        it('should show an empty state until placeholders are set', () => {
+            ParameterEditor.create(container);
+
+            expect(container.querySelector('.parameter-empty')).not.toBeNull();
+        });
+
+        it('should default to a sequential generator and keep configuration across updates', () => {
+            const editor = ParameterEditor.create(container);
+            editor.setPlaceholders(['@id']);
+
+            const generator = container.querySelector('.parameter-generator');
+            generator.value = 'randomRange';
+            generator.dispatchEvent(new Event('change'));
+            const [min, max] = container.querySelectorAll('.parameter-number');
+            min.value = '5';
+            min.dispatchEvent(new Event('change'));
+            max.value = '50';
+            max.dispatchEvent(new Event('change'));
+
+            editor.setPlaceholders(['@id', '@key']);
+
+            expect(editor.getParameters()).toEqual([
+                { name: '@id', generator: 'randomRange', min: 5, max: 50 },
+                { name: '@key', generator: 'sequential', start: 1, step: 1 }
+            ]);
+            expect(editor.getUnconfigured(['@id', '@other'])).toEqual(['@other']);
+        });
+
+        it('should replace the definitions with the given parameters', () => {
+            const editor = ParameterEditor.create(container);
+            editor.setPlaceholders(['@old']);
+
+            editor.setParameters([
+                { name: '@id', generator: 'guid' },
+                { name: '@date', generator: 'lookupQuery', lookupQuery: 'SELECT d FROM dates' }
+            ]);
+
+            expect(container.querySelectorAll('.parameter-row').length).toBe(2);
+            expect(editor.getParameters()).toEqual([
+                { name: '@id', generator: 'guid' },
+                { name: '@date', generator: 'lookupQuery', lookupQuery: 'SELECT d FROM dates' }
+            ]);
+            expect(editor.getUnconfigured(['@old'])).toEqual(['@old']);
+        });
+
+        it('should request a CSV file and bind the selected column', () => {
+            const onLoadCsv = vi.fn();
+            const editor = ParameterEditor.create(container, onLoadCsv);
+            editor.setPlaceholders(['@city']);
+
+            const generator = container.querySelector('.parameter-generator');
+            generator.value = 'csvList';
+            generator.dispatchEvent(new Event('change'));
+            expect(editor.validate()).toBe('Choose a CSV file with values for @city');
+
+            container.querySelector('.parameter-csv').click();
+            expect(onLoadCsv).toHaveBeenCalledWith('@city');
+
+            editor.setCsvColumns('@city', 'customers.csv', [
+                { name: 'name', values: ['Ada', 'Linus'] },
+                { name: 'city', values: ['Oslo', 'Lima'] }
+            ]);
+            const column = container.querySelector('.parameter-column');
+            column.value = '1';
+            column.dispatchEvent(new Event('change'));
+
+            expect(editor.validate()).toBeNull();
+            expect(editor.getParameters()).toEqual([
+                { name: '@city', generator: 'csvList', values: ['Oslo', 'Lima'] }
+            ]);
+        });
+    });
+});
@@ -55,6 +55,8 @@ describe('performanceGraph.js', () => {
                     <div>
                         <button class="btn btn-secondary" id="resetZoomBtn">Reset Zoom</button>
                         <button class="btn btn-secondary" id="exportBtn">Export</button>
+                        <button class="btn btn-secondary" id="generateReportBtn">Generate Report...</button>
+                        <button class="btn btn-secondary" id="exportRunBtn">Export Run...</button>
                     </div>
                 </div>
                 <div class="stats-panel" id="statsPanel">
@@ -74,6 +76,22 @@ describe('performanceGraph.js', () => {
                         <div class="stat-label">Total Time</div>
                         <div class="stat-value" id="statTotalTime">0s</div>
                     </div>
+                    <div class="stat-card">
+                        <div class="stat-label">P50 Duration</div>
+                        <div class="stat-value" id="statP50">-</div>
+                    </div>
+                    <div class="stat-card">
+                        <div class="stat-label">P90 Duration</div>
+                        <div class="stat-value" id="statP90">-</div>
+                    </div>
+                    <div class="stat-card">
+                        <div class="stat-label">P95 Duration</div>
+                        <div class="stat-value" id="statP95">-</div>
+                    </div>
+                    <div class="stat-card">
+                        <div class="stat-label">P99 Duration</div>
+                        <div class="stat-value" id="statP99">-</div>
+                    </div>
                 </div>
                 <div class="controls-panel">
                     <div class="metric-group">
@@ -102,10 +120,23 @@ describe('performanceGraph.js', () => {
                             <label for="showRowCount">Row Count</label>
                         </div>
                     </div>
+                    <div class="chart-options">
+                        <select id="chartAggregation">
+                            <option value="0" selected>Per execution</option>
+                            <option value="5">Per 5 s</option>
+                        </select>
+                        <div class="event-names" id="chartEventNames"></div>
+                    </div>
                 </div>
+                <div class="query-breakdown" id="queryBreakdown" style="display: none;"></div>
                 <div class="chart-container">
                     <canvas id="performanceChart"></canvas>
                 </div>
+                <div class="latency-distribution" id="latencyDistribution" style="display: none;">
+                    <div class="histogram-container">
+                        <canvas id="latencyHistogramChart"></canvas>
+                    </div>
+                </div>
                 <div class="status-bar">
                     <span id="statusText">Ready</span>
                     <span id="timeRangeText">-</span>
@@ -157,6 +188,153 @@ describe('performanceGraph.js', () => {
         });
     });
 
+    describe('ParameterFormatter', () => {
+        it('should format one line per bound parameter', () => {
+            const result = window.PerformanceGraphModule.ParameterFormatter.formatLines({ '@id': '42', '@city': null });
+
+            expect(result).toEqual(['@id = 42', '@city = NULL']);
+        });
+
+        it('should return no lines when the execution has no parameters', () => {
+            expect(window.PerformanceGraphModule.ParameterFormatter.formatLines(undefined)).toEqual([]);
+        });
+    });
+
+    describe('DataProcessor.createConcurrencyDataset', () => {
+        it('should step through the load levels on the concurrency axis up to the last boundary', () => {
+            const dataset = window.PerformanceGraphModule.DataProcessor.createConcurrencyDataset(
+                [{ timestampMs: 1000, concurrency: 5 }, { timestampMs: 31000, concurrency: 10 }],
+                [{ executionNumber: 1, isStart: true, timestampMs: 1200 }, { executionNumber: 1, isStart: false, timestampMs: 45000 }]
+            );
+
+            expect(dataset.yAxisID).toBe('yConcurrency');
+            expect(dataset.stepped).toBe(true);
+            expect(dataset.data.map(point => [point.x, point.y])).toEqual([[1000, 5], [31000, 10], [45000, 10]]);
+        });
+
+        it('should return an empty dataset without load levels', () => {
+            expect(window.PerformanceGraphModule.DataProcessor.createConcurrencyDataset(undefined, []).data).toEqual([]);
+        });
+    });
+
+    describe('DataProcessor.createBlockingAnnotations', () => {
+        it('should draw a labelled line at each deadlock and blocked process report', () => {
+            const annotations = window.PerformanceGraphModule.DataProcessor.createBlockingAnnotations([
+                { timestampMs: 5000, eventName: 'xml_deadlock_report', executionNumber: 7 },
+                { timestampMs: 9000, eventName: 'blocked_process_report', executionNumber: 12, blockedDurationMs: 5250 }
+            ]);
+
+            expect(annotations.map(a => [a.type, a.xMin, a.xMax, a.label.content])).toEqual([
+                ['line', 5000, 5000, 'Deadlock #7'],
+                ['line', 9000, 9000, 'Blocked #12 (5.3s)']
+            ]);
+            expect(annotations[0].borderColor).not.toBe(annotations[1].borderColor);
+        });
+
+        it('should return no annotations without markers', () => {
+            expect(window.PerformanceGraphModule.DataProcessor.createBlockingAnnotations(undefined)).toEqual([]);
+        });
+    });
+
+    describe('DataProcessor chart metrics', () => {
+        const summaries = [
+            {
+                executionNumber: 1,
+                startTime: 1000,
+                endTime: 1400,
+                events: [
+                    { eventName: 'sql_statement_completed', timestamp: 1100, duration: 10, logicalReads: 5 },
+                    { eventName: 'sql_statement_completed', timestamp: 1200, duration: 30, logicalReads: 15 },
+                    { eventName: 'sql_batch_completed', timestamp: 1400, duration: 400, logicalReads: 20 }
+                ]
+            },
+            {
+                executionNumber: 2,
+                startTime: 3000,
+                endTime: 3200,
+                events: [{ eventName: 'sql_batch_completed', timestamp: 3200, duration: 200, writes: 4 }]
+            },
+            {
+                executionNumber: 3,
+                startTime: 7000,
+                endTime: 7100,
+                events: [{ eventName: 'sql_batch_completed', timestamp: 7100, duration: 100 }]
+            }
+        ];
+
+        it('should plot the batch completed events unless other events are picked', () => {
+            const { DataProcessor } = window.PerformanceGraphModule;
+
+            expect(DataProcessor.selectEventNames(['rpc_completed', 'sql_batch_completed'], null)).toEqual(['sql_batch_completed']);
+            expect(DataProcessor.selectEventNames(['rpc_completed'], null)).toEqual(['rpc_completed']);
+            expect(DataProcessor.selectEventNames(['rpc_completed', 'sql_batch_completed'], ['rpc_completed'])).toEqual(['rpc_completed']);
+        });
+
+        it('should average every metric over the picked events of each execution', () => {
+            const values = window.PerformanceGraphModule.DataProcessor.calculateExecutionValues(
+                summaries,
+                [{ executionNumber: 1, isStart: true, timestampMs: 990 }],
+                ['sql_statement_completed']
+            );
+
+            expect(values).toEqual([{ executionNumber: 1, startTime: 990, endTime: 1400, values: { duration: 20, logicalReads: 10 } }]);
+        });
+
+        it('should average the executions started in each time bucket', () => {
+            const { DataProcessor } = window.PerformanceGraphModule;
+            const values = DataProcessor.calculateExecutionValues(summaries, [], ['sql_batch_completed']);
+
+            const buckets = DataProcessor.aggregateByTimeBucket(values, 5000, 0);
+
+            expect(buckets).toEqual([
+                { startTime: 0, endTime: 5000, executionCount: 2, values: { duration: 300, logicalReads: 20, writes: 4 } },
+                { startTime: 5000, endTime: 10000, executionCount: 1, values: { duration: 100 } }
+            ]);
+        });
+
+        it('should plot metrics in their own unit on the time or count axis', () => {
+            const { DataProcessor, CHART_METRICS } = window.PerformanceGraphModule;
+            const values = DataProcessor.calculateExecutionValues(summaries, [], ['sql_batch_completed']);
+            const duration = CHART_METRICS.find(metric => metric.key === 'duration');
+            const writes = CHART_METRICS.find(metric => metric.key === 'writes');
+
+            const durationDataset = DataProcessor.createMetricDataset(duration, values);
+            const writesDataset = DataProcessor.createMetricDataset(writes, values, true);
+
+            expect(durationDataset.yAxisID).toBe('y');
+            expect(durationDataset.data.map(point => [point.x, point.y])).toEqual([
+                [1000, 400], [1400, 400], [2999, null], [3000, 200], [3200, 200], [6999, null], [7000, 100], [7100, 100]
+            ]);
+            expect(writesDataset.yAxisID).toBe('yCount');
+            expect(writesDataset.hidden).toBe(true);
+            expect(writesDataset.data.map(point => point.y)).toEqual([4, 4]);
+        });
+    });
+
+    describe('DataProcessor.createLatencyHistogramData', () => {
+        it('should label each bin with its duration range', () => {
+            const data = window.PerformanceGraphModule.DataProcessor.createLatencyHistogramData({
+                count: 6,
+                percentiles: { p50: 4, p90: 20, p95: 20, p99: 20 },
+                bins: [
+                    { lowerBound: 2, upperBound: 8.5, count: 4 },
+                    { lowerBound: 8.5, upperBound: 15, count: 0 },
+                    { lowerBound: 15, upperBound: 21.5, count: 2 }
+                ]
+            });
+
+            expect(data.labels).toEqual(['2.0-8.5 ms', '8.5-15 ms', '15-22 ms']);
+            expect(data.datasets[0].data).toEqual([4, 0, 2]);
+        });
+
+        it('should return no bars without a distribution', () => {
+            const data = window.PerformanceGraphModule.DataProcessor.createLatencyHistogramData(null);
+
+            expect(data.labels).toEqual([]);
+            expect(data.datasets[0].data).toEqual([]);
+        });
+    });
+
     describe('StatisticsCalculator', () => {
         it('should calculate percentiles correctly', () => {
             const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
@@ -219,6 +397,28 @@ describe('performanceGraph.js', () => {
             expect(mockChartInstance.toBase64Image).toHaveBeenCalled();
             expect(createElementSpy).toHaveBeenCalledWith('a');
             expect(clickSpy).toHaveBeenCalled();
+            createElementSpy.mockRestore();
+        });
+
+        it('should ask the extension to export the run when exportRunBtn is clicked', () => {
+            document.getElementById('exportRunBtn').click();
+
+            expect(postMessageSpy).toHaveBeenCalledWith({ command: 'exportRun' });
+        });
+
+        it('should ask the extension for a report when generateReportBtn is clicked', () => {
+            document.getElementById('generateReportBtn').click();
+
+            expect(postMessageSpy).toHaveBeenCalledWith({ command: 'generateReport' });
+        });
+
+        it('should send the chart images when the extension captures them for a report', () => {
+            window.dispatchEvent(new MessageEvent('message', { data: { command: 'captureCharts' } }));
+
+            expect(postMessageSpy).toHaveBeenCalledWith({
+                command: 'chartImages',
+                charts: { performance: 'data:image/png;base64,test', latency: undefined, background: undefined }
+            });
         });
     });
 
@@ -304,6 +504,110 @@ describe('performanceGraph.js', () => {
             expect(mockChartInstance.update).toHaveBeenCalled();
         });
 
+        it('should mark the deadlocks of the run on the timeline', () => {
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    command: 'updateExtendedEventsData',
+                    eventData: [],
+                    boundaries: [],
+                    summaries: [],
+                    blockingMarkers: [{ timestampMs: 5000, eventName: 'xml_deadlock_report', executionNumber: 3 }],
+                    testStartTime: 1000
+                }
+            }));
+
+            const annotations = mockChartInstance.options.plugins.annotation.annotations;
+            expect(annotations).toHaveLength(1);
+            expect(annotations[0].label.content).toBe('Deadlock #3');
+        });
+
+        it('should plot the latency distribution and show its percentiles', () => {
+            const event = new MessageEvent('message', {
+                data: {
+                    command: 'updateExtendedEventsData',
+                    eventData: [],
+                    boundaries: [],
+                    summaries: [],
+                    testStartTime: Date.now() - 1000,
+                    latencyDistribution: {
+                        count: 3,
+                        percentiles: { p50: 12.4, p90: 30.2, p95: 41, p99: 79.6 },
+                        bins: [{ lowerBound: 10, upperBound: 80, count: 3 }]
+                    }
+                }
+            });
+            window.dispatchEvent(event);
+
+            expect(document.getElementById('latencyDistribution').style.display).toBe('block');
+            expect(document.getElementById('statP50').textContent).toBe('12 ms');
+            expect(document.getElementById('statP99').textContent).toBe('80 ms');
+            expect(window.PerformanceGraphModule.getState().latencyChart.data.datasets[0].data).toEqual([3]);
+        });
+
+        it('should hide the latency distribution when the chart is cleared', () => {
+            window.PerformanceGraphModule.PerformanceGraphApp.updateLatencyHistogram({
+                count: 1,
+                percentiles: { p50: 5, p90: 5, p95: 5, p99: 5 },
+                bins: [{ lowerBound: 5, upperBound: 5, count: 1 }]
+            });
+
+            window.dispatchEvent(new MessageEvent('message', { data: { command: 'clearChart' } }));
+
+            expect(document.getElementById('latencyDistribution').style.display).toBe('none');
+            expect(document.getElementById('statP95').textContent).toBe('-');
+        });
+
+        it('should offer the event names of the run and replot the picked ones', () => {
+            const summaries = [{
+                executionNumber: 1,
+                startTime: 1000,
+                endTime: 2000,
+                events: [
+                    { eventName: 'rpc_completed', timestamp: 1500, duration: 7 },
+                    { eventName: 'sql_batch_completed', timestamp: 2000, duration: 50 }
+                ]
+            }];
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    command: 'updateExtendedEventsData',
+                    boundaries: [],
+                    summaries,
+                    eventNames: ['rpc_completed', 'sql_batch_completed'],
+                    testStartTime: 1000
+                }
+            }));
+            const durationData = () => mockChartInstance.data.datasets.find(d => d.label === 'Duration (ms)').data;
+            expect(durationData()[0].y).toBe(50);
+
+            const checkboxes = document.querySelectorAll('#chartEventNames input');
+            expect(Array.from(checkboxes).map(c => [c.value, c.checked])).toEqual([['rpc_completed', false], ['sql_batch_completed', true]]);
+            checkboxes[0].checked = true;
+            checkboxes[1].checked = false;
+            checkboxes[0].dispatchEvent(new Event('change', { bubbles: true }));
+
+            expect(window.PerformanceGraphModule.getState().chartOptions.eventNames).toEqual(['rpc_completed']);
+            expect(durationData()[0].y).toBe(7);
+        });
+
+        it('should replot per time bucket when an aggregation is picked', () => {
+            const summaries = [1, 2, 3].map(n => ({
+                executionNumber: n,
+                startTime: 1000 + n * 1000,
+                endTime: 1100 + n * 1000,
+                events: [{ eventName: 'sql_batch_completed', timestamp: 1100 + n * 1000, duration: n * 10 }]
+            }));
+            window.dispatchEvent(new MessageEvent('message', {
+                data: { command: 'updateExtendedEventsData', boundaries: [], summaries, eventNames: ['sql_batch_completed'], testStartTime: 1000 }
+            }));
+
+            const aggregation = document.getElementById('chartAggregation');
+            aggregation.value = '5';
+            aggregation.dispatchEvent(new Event('change'));
+
+            const data = mockChartInstance.data.datasets.find(d => d.label === 'Duration (ms)').data;
+            expect(data.map(point => [point.x, point.y, point.executionCount])).toEqual([[1000, 20, 3], [6000, 20, 3]]);
+        });
+
         it('should update statistics panel', () => {
             const statExecutions = document.getElementById('statExecutions');
             
@@ -353,6 +657,39 @@ describe('performanceGraph.js', () => {
             expect(statExecutions.textContent).toBe('2');
             expect(statExecRate.textContent).toBeDefined();
         });
+
+        it('should render a per query breakdown for scenario runs', () => {
+            window.PerformanceGraphModule.UIUpdater.updateQueryBreakdown([
+                { queryName: 'read', executionCount: 7, avgDuration: 12.4, avgLogicalReads: 40 },
+                { queryName: 'write', executionCount: 3, avgDuration: 30.6 }
+            ], document);
+
+            const container = document.getElementById('queryBreakdown');
+            const rows = Array.from(container.querySelectorAll('tbody tr'))
+                .map(row => Array.from(row.querySelectorAll('td')).map(cell => cell.textContent));
+            expect(container.style.display).toBe('block');
+            expect(rows[0]).toEqual(['read', '7', '70%', '12 ms', '40', '-', '-']);
+            expect(rows[1]).toEqual(['write', '3', '30%', '31 ms', '-', '-', '-']);
+        });
+
+        it('should show the breakdown durations and CPU time in ms', () => {
+            window.PerformanceGraphModule.UIUpdater.updateQueryBreakdown([
+                { queryName: 'read', executionCount: 2, avgDuration: 15, avgCpuTime: 4 },
+                { queryName: 'write', executionCount: 1, avgDuration: 1250.4, avgCpuTime: 20 }
+            ], document);
+
+            const cells = Array.from(document.querySelectorAll('#queryBreakdown tbody tr'))
+                .map(row => Array.from(row.querySelectorAll('td')).map(cell => cell.textContent));
+            expect(cells.map(row => [row[3], row[6]])).toEqual([['15 ms', '4 ms'], [(1250).toLocaleString() + ' ms', '20 ms']]);
+        });
+
+        it('should hide the breakdown when the run has a single query', () => {
+            window.PerformanceGraphModule.UIUpdater.updateQueryBreakdown([
+                { queryName: 'Query', executionCount: 10, avgDuration: 5 }
+            ], document);
+
+            expect(document.getElementById('queryBreakdown').style.display).toBe('none');
+        });
     });
 });
 
@@ -54,12 +54,36 @@ describe('queryEditor.js', () => {
             <button id="executeBtn">Execute</button>
             <button id="stressTestBtn">Run Stress Test</button>
             <button id="stopStressTestBtn" style="display: none;">Stop Run</button>
+            <button id="saveDefinitionBtn">Save Definition</button>
             <input type="number" id="parallelExecutions" value="1">
             <input type="number" id="totalExecutions" value="10">
+            <input type="text" id="scenarioQueryName">
+            <input type="number" id="scenarioQueryWeight" value="1">
+            <button id="addScenarioQueryBtn">Add Editor Query</button>
+            <div id="scenarioQueries"></div>
+            <button id="detectParametersBtn">Detect Parameters</button>
+            <div id="queryParameters"></div>
+            <div id="loadProfile"></div>
+            <select id="planCaptureMode">
+                <option value="">Off</option>
+                <option value="sample">Sample</option>
+                <option value="slowest">Slowest</option>
+            </select>
+            <label id="planSampleIntervalLabel" style="display: none;"><input type="number" id="planSampleInterval" value="10"></label>
+            <label id="planCountLabel" style="display: none;"><input type="number" id="planCount" value="5"></label>
+            <textarea id="assertions"></textarea>
             <div id="stressTestStatus"></div>
             <div id="editor"></div>
+            <div id="resultStatus"></div>
+            <div id="resultGrid"></div>
         `;
 
+        // queryEditor.js depends on the component modules, which are inlined before it
+        new Function(readFileSync(join(__dirname, '../queryResultGrid.js'), 'utf8'))();
+        new Function(readFileSync(join(__dirname, '../scenarioEditor.js'), 'utf8'))();
+        new Function(readFileSync(join(__dirname, '../parameterEditor.js'), 'utf8'))();
+        new Function(readFileSync(join(__dirname, '../loadProfileEditor.js'), 'utf8'))();
+
         // Ensure require.config is available before script execution
         if (!global.require.config) {
             global.require.config = vi.fn(() => {});
@@ -306,6 +330,174 @@ describe('queryEditor.js', () => {
             });
         });
 
+        it('should send the scenario queries instead of the editor query', () => {
+            const connectionSelect = document.getElementById('connectionSelect');
+            const scenarioQueryName = document.getElementById('scenarioQueryName');
+            const scenarioQueryWeight = document.getElementById('scenarioQueryWeight');
+            const addScenarioQueryBtn = document.getElementById('addScenarioQueryBtn');
+
+            mockEditor.getValue.mockReturnValue('SELECT * FROM orders');
+            scenarioQueryName.value = 'read';
+            scenarioQueryWeight.value = '70';
+            addScenarioQueryBtn.click();
+            mockEditor.getValue.mockReturnValue('UPDATE orders SET status = 1');
+            scenarioQueryName.value = 'write';
+            scenarioQueryWeight.value = '30';
+            addScenarioQueryBtn.click();
+
+            expect(scenarioQueryName.value).toBe('');
+            expect(document.querySelectorAll('#scenarioQueries .scenario-row').length).toBe(2);
+
+            connectionSelect.innerHTML += '<option value="conn1">Connection 1</option>';
+            connectionSelect.value = 'conn1';
+            document.getElementById('stressTestBtn').click();
+
+            expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+                command: 'executeStressTest',
+                queries: [
+                    { name: 'read', query: 'SELECT * FROM orders', weight: 70 },
+                    { name: 'write', query: 'UPDATE orders SET status = 1', weight: 30 }
+                ]
+            }));
+        });
+
+        it('should require generators for the detected placeholders and send them', () => {
+            const connectionSelect = document.getElementById('connectionSelect');
+            connectionSelect.innerHTML += '<option value="conn1">Connection 1</option>';
+            connectionSelect.value = 'conn1';
+            mockEditor.getValue.mockReturnValue('SELECT * FROM orders WHERE id = @orderId');
+
+            document.getElementById('stressTestBtn').click();
+            expect(alert).toHaveBeenCalledWith('Configure generators for @orderId (Detect Parameters)');
+            expect(postMessageSpy).not.toHaveBeenCalledWith(expect.objectContaining({ command: 'executeStressTest' }));
+
+            document.getElementById('detectParametersBtn').click();
+            expect(document.querySelectorAll('#queryParameters .parameter-row').length).toBe(1);
+
+            document.getElementById('stressTestBtn').click();
+            expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+                command: 'executeStressTest',
+                parameters: [{ name: '@orderId', generator: 'sequential', start: 1, step: 1 }]
+            }));
+        });
+
+        it('should send a ramp load profile and ignore total executions', () => {
+            const connectionSelect = document.getElementById('connectionSelect');
+            const totalExecutionsInput = document.getElementById('totalExecutions');
+            const parallelExecutionsInput = document.getElementById('parallelExecutions');
+            connectionSelect.innerHTML += '<option value="conn1">Connection 1</option>';
+            connectionSelect.value = 'conn1';
+            mockEditor.getValue.mockReturnValue('SELECT 1');
+            totalExecutionsInput.value = '0';
+
+            const mode = document.querySelector('#loadProfile .load-profile-mode');
+            mode.value = 'ramp';
+            mode.dispatchEvent(new Event('change'));
+            expect(totalExecutionsInput.disabled).toBe(true);
+            expect(parallelExecutionsInput.disabled).toBe(true);
+
+            document.getElementById('stressTestBtn').click();
+
+            expect(alert).not.toHaveBeenCalled();
+            expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+                command: 'executeStressTest',
+                loadProfile: {
+                    mode: 'ramp',
+                    durationSeconds: 600,
+                    startWorkers: 5,
+                    stepWorkers: 5,
+                    stepIntervalSeconds: 30,
+                    maxWorkers: 100,
+                    rampShape: 'stepped'
+                }
+            }));
+        });
+
+        it('should send the execution plan capture settings', () => {
+            const connectionSelect = document.getElementById('connectionSelect');
+            const planCaptureMode = document.getElementById('planCaptureMode');
+            const planCount = document.getElementById('planCount');
+            connectionSelect.innerHTML += '<option value="conn1">Connection 1</option>';
+            connectionSelect.value = 'conn1';
+            mockEditor.getValue.mockReturnValue('SELECT 1');
+
+            planCaptureMode.value = 'slowest';
+            planCaptureMode.dispatchEvent(new Event('change'));
+            expect(document.getElementById('planSampleIntervalLabel').style.display).toBe('none');
+            expect(document.getElementById('planCountLabel').style.display).toBe('inline');
+
+            planCount.value = '500';
+            document.getElementById('stressTestBtn').click();
+            expect(alert).toHaveBeenCalledWith('Execution plan count must be between 1 and 100');
+            expect(postMessageSpy).not.toHaveBeenCalledWith(expect.objectContaining({ command: 'executeStressTest' }));
+
+            planCount.value = '3';
+            document.getElementById('stressTestBtn').click();
+            expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+                command: 'executeStressTest',
+                planCapture: { mode: 'slowest', count: 3 }
+            }));
+        });
+
+        it('should send the stress test settings to save as a definition', () => {
+            const connectionSelect = document.getElementById('connectionSelect');
+            connectionSelect.innerHTML += '<option value="conn1">Connection 1</option>';
+            connectionSelect.value = 'conn1';
+            document.getElementById('parallelExecutions').value = '4';
+            mockEditor.getValue.mockReturnValue('SELECT 1');
+
+            document.getElementById('saveDefinitionBtn').click();
+
+            expect(postMessageSpy).toHaveBeenCalledWith(expect.objectContaining({
+                command: 'saveStressTestDefinition',
+                connectionId: 'conn1',
+                query: 'SELECT 1',
+                parallelExecutions: 4,
+                totalExecutions: 10
+            }));
+            expect(postMessageSpy).not.toHaveBeenCalledWith(expect.objectContaining({ command: 'executeStressTest' }));
+
+            window.dispatchEvent(new MessageEvent('message', {
+                data: { command: 'stressTestDefinitionSaved', fileName: 'tests/conn1.sqlstress.json' }
+            }));
+            expect(document.getElementById('stressTestStatus').textContent)
+                .toBe('Saved stress test definition tests/conn1.sqlstress.json');
+        });
+
+        it('should request a CSV file for a csvList parameter and use the loaded column', () => {
+            mockEditor.getValue.mockReturnValue('SELECT * FROM customers WHERE city = @city');
+            document.getElementById('detectParametersBtn').click();
+
+            const generator = document.querySelector('#queryParameters .parameter-generator');
+            generator.value = 'csvList';
+            generator.dispatchEvent(new Event('change'));
+            document.querySelector('#queryParameters .parameter-csv').click();
+            expect(postMessageSpy).toHaveBeenCalledWith({ command: 'loadParameterCsv', parameterName: '@city' });
+
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    command: 'parameterCsvLoaded',
+                    parameterName: '@city',
+                    fileName: 'cities.csv',
+                    columns: [{ name: 'city', values: ['Oslo', 'Lima'] }]
+                }
+            }));
+            expect(document.querySelector('#queryParameters .parameter-file').textContent).toBe('cities.csv');
+        });
+
+        it('should reject a scenario query with a duplicate name', () => {
+            const scenarioQueryName = document.getElementById('scenarioQueryName');
+            const addScenarioQueryBtn = document.getElementById('addScenarioQueryBtn');
+
+            scenarioQueryName.value = 'read';
+            addScenarioQueryBtn.click();
+            scenarioQueryName.value = 'READ';
+            addScenarioQueryBtn.click();
+
+            expect(alert).toHaveBeenCalledWith('Scenario query names must be unique: READ');
+            expect(document.querySelectorAll('#scenarioQueries .scenario-row').length).toBe(1);
+        });
+
         it('should handle stop stress test', () => {
             const stopStressTestBtn = document.getElementById('stopStressTestBtn');
             const stressTestStatus = document.getElementById('stressTestStatus');
@@ -360,6 +552,24 @@ describe('queryEditor.js', () => {
             expect(databaseSelect.disabled).toBe(false);
         });
 
+        it('should load a draft query with its generators and select its database once listed', () => {
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    command: 'loadDraft',
+                    query: 'EXEC [dbo].[usp_GetOrder]\n    @orderId = @orderId;',
+                    parameters: [{ name: '@orderId', generator: 'randomRange', min: 1, max: 1000 }],
+                    database: 'Shop'
+                }
+            }));
+            window.dispatchEvent(new MessageEvent('message', {
+                data: { command: 'databases', data: ['master', 'Shop'], error: null }
+            }));
+
+            expect(mockEditor.setValue).toHaveBeenCalledWith('EXEC [dbo].[usp_GetOrder]\n    @orderId = @orderId;');
+            expect(document.getElementById('databaseSelect').value).toBe('Shop');
+            expect(document.querySelectorAll('#queryParameters .parameter-row').length).toBe(1);
+        });
+
         it('should show error when database fetch fails', () => {
             const databaseSelect = document.getElementById('databaseSelect');
 
@@ -453,6 +663,55 @@ describe('queryEditor.js', () => {
             expect(stressTestBtn.disabled).toBe(false);
             expect(stopStressTestBtn.style.display).toBe('none');
         });
+
+        it('should show executing state on queryExecuting', () => {
+            const executeBtn = document.getElementById('executeBtn');
+            const resultStatus = document.getElementById('resultStatus');
+
+            window.dispatchEvent(new MessageEvent('message', {
+                data: { command: 'queryExecuting' }
+            }));
+
+            expect(executeBtn.disabled).toBe(true);
+            expect(resultStatus.textContent).toBe('Executing query...');
+        });
+
+        it('should render queryResult in the result grid', () => {
+            const executeBtn = document.getElementById('executeBtn');
+            const resultStatus = document.getElementById('resultStatus');
+            const resultGrid = document.getElementById('resultGrid');
+
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    command: 'queryResult',
+                    data: {
+                        success: true,
+                        columns: ['name', 'object_id'],
+                        rows: [['sysobjects', 1], ['syscolumns', 2]],
+                        rowCount: 2,
+                        executionTimeMs: 15
+                    }
+                }
+            }));
+
+            expect(executeBtn.disabled).toBe(false);
+            expect(resultStatus.textContent).toBe('2 rows · 15 ms');
+            expect(resultGrid.textContent).toContain('sysobjects');
+            expect(resultGrid.textContent).toContain('object_id');
+        });
+
+        it('should show error text for failed queryResult', () => {
+            const resultStatus = document.getElementById('resultStatus');
+
+            window.dispatchEvent(new MessageEvent('message', {
+                data: {
+                    command: 'queryResult',
+                    data: { success: false, error: 'Invalid object name' }
+                }
+            }));
+
+            expect(resultStatus.textContent).toBe('Error: Invalid object name');
+            expect(resultStatus.classList.contains('error')).toBe(true);
+        });
     });
 });
-
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('queryResultGrid.js', () => {
+    let QueryResultGrid;
+    let container;
+    let statusElement;
+
+    beforeEach(() => {
+        document.body.innerHTML = `
+            <div id="resultStatus"></div>
+            <div id="resultGrid" style="height: 300px;"></div>
+        `;
+        container = document.getElementById('resultGrid');
+        statusElement = document.getElementById('resultStatus');
+
+        const scriptPath = join(__dirname, '../queryResultGrid.js');
+        new Function(readFileSync(scriptPath, 'utf8'))();
+        QueryResultGrid = window.QueryResultGrid;
+    });
+
+    describe('CellFormatter', () => {
+        it('should format null values as NULL', () => {
+            expect(QueryResultGrid.CellFormatter.format(null)).toBe('NULL');
+            expect(QueryResultGrid.CellFormatter.format(undefined)).toBe('NULL');
+        });
+
+        it('should format objects as JSON', () => {
+            expect(QueryResultGrid.CellFormatter.format({ a: 1 })).toBe('{"a":1}');
+        });
+    });
+
+    describe('RowSorter', () => {
+        const rows = [[3, 'b'], [1, null], [2, 'a10'], [10, 'a2']];
+
+        it('should sort numbers numerically', () => {
+            expect(QueryResultGrid.RowSorter.sort(rows, 0, 'asc')).toEqual([1, 2, 0, 3]);
+            expect(QueryResultGrid.RowSorter.sort(rows, 0, 'desc')).toEqual([3, 0, 2, 1]);
+        });
+
+        it('should sort strings naturally and put nulls last', () => {
+            expect(QueryResultGrid.RowSorter.sort(rows, 1, 'asc')).toEqual([3, 2, 0, 1]);
+        });
+
+        it('should return original order when unsorted', () => {
+            expect(QueryResultGrid.RowSorter.sort(rows, -1, null)).toEqual([0, 1, 2, 3]);
+        });
+
+        it('should cycle sort direction asc -> desc -> none', () => {
+            expect(QueryResultGrid.RowSorter.nextDirection(null)).toBe('asc');
+            expect(QueryResultGrid.RowSorter.nextDirection('asc')).toBe('desc');
+            expect(QueryResultGrid.RowSorter.nextDirection('desc')).toBe(null);
+        });
+    });
+
+    describe('Viewport', () => {
+        it('should limit the visible range to the viewport plus overscan', () => {
+            const rowHeight = QueryResultGrid.ROW_HEIGHT;
+            const range = QueryResultGrid.Viewport.getVisibleRange(rowHeight * 1000, rowHeight * 20, 100000);
+
+            expect(range.first).toBe(990);
+            expect(range.last).toBe(1030);
+        });
+
+        it('should clamp the range to the row count', () => {
+            const range = QueryResultGrid.Viewport.getVisibleRange(0, 1000, 5);
+
+            expect(range).toEqual({ first: 0, last: 5 });
+        });
+    });
+
+    describe('StatusFormatter', () => {
+        it('should show row count and execution time', () => {
+            expect(QueryResultGrid.StatusFormatter.format({ success: true, rowCount: 1, executionTimeMs: 5 }))
+                .toBe('1 row · 5 ms');
+        });
+
+        it('should show error text for failed results', () => {
+            expect(QueryResultGrid.StatusFormatter.format({ success: false, error: 'Timeout' }))
+                .toBe('Error: Timeout');
+        });
+    });
+
+    describe('grid', () => {
+        it('should only render a window of rows for large results', () => {
+            const grid = QueryResultGrid.create(container, statusElement);
+            const rows = [];
+            for (let i = 0; i < 100000; i++) {
+                rows.push([i, 'row ' + i]);
+            }
+
+            grid.setResult({ success: true, columns: ['id', 'name'], rows: rows, rowCount: rows.length, executionTimeMs: 120 });
+
+            const state = grid.getState();
+            expect(state.order).toHaveLength(100000);
+            expect(state.renderedRowCount).toBeLessThan(100);
+            expect(statusElement.textContent).toBe('100,000 rows · 120 ms');
+        });
+
+        it('should sort when a header cell is clicked', () => {
+            const grid = QueryResultGrid.create(container, statusElement);
+            grid.setResult({ success: true, columns: ['id'], rows: [[2], [1], [3]], rowCount: 3 });
+
+            container.querySelector('[data-column-index="0"]').click();
+            expect(grid.getState().order).toEqual([1, 0, 2]);
+            expect(grid.getState().sortDirection).toBe('asc');
+
+            container.querySelector('[data-column-index="0"]').click();
+            expect(grid.getState().order).toEqual([2, 0, 1]);
+            expect(grid.getState().sortDirection).toBe('desc');
+        });
+
+        it('should clear rows and show error for failed results', () => {
+            const grid = QueryResultGrid.create(container, statusElement);
+            grid.setResult({ success: true, columns: ['id'], rows: [[1]], rowCount: 1 });
+            grid.setResult({ success: false, error: 'Syntax error' });
+
+            expect(grid.getState().order).toHaveLength(0);
+            expect(statusElement.textContent).toBe('Error: Syntax error');
+            expect(statusElement.classList.contains('error')).toBe(true);
+        });
+    });
+});
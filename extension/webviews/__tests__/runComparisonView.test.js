@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('runComparisonView.js', () => {
+    let mockChartInstance;
+
+    const comparison = {
+        baseline: { runId: 4, startTime: Date.now(), executionCount: 1200, connectionName: 'Local <dev>' },
+        candidates: [
+            { runId: 6, startTime: Date.now(), executionCount: 1000 },
+            { runId: 7, startTime: Date.now(), executionCount: 900 }
+        ],
+        rows: [
+            {
+                metric: 'p95Duration', label: 'P95 Duration', unit: 'ms', baseline: 300,
+                candidates: [
+                    { value: 120, changePercent: -60, verdict: 'better' },
+                    { value: 306, changePercent: 2, verdict: 'unchanged' }
+                ]
+            },
+            {
+                metric: 'avgWrites', label: 'Avg Writes', unit: 'count',
+                candidates: [{ value: 12 }, { value: 15 }]
+            }
+        ],
+        latencyOverlay: {
+            bins: [{ lowerBound: 5, upperBound: 50 }, { lowerBound: 50, upperBound: 95 }],
+            series: [{ runId: 4, percentages: [40, 60] }, { runId: 6, percentages: [90, 10] }]
+        }
+    };
+
+    const sendComparison = (data) => {
+        window.dispatchEvent(new MessageEvent('message', { data: { command: 'showComparison', comparison: data } }));
+    };
+
+    beforeEach(() => {
+        global.acquireVsCodeApi = vi.fn(() => ({ postMessage: vi.fn() }));
+        mockChartInstance = { data: null, update: vi.fn() };
+        global.Chart = vi.fn(() => mockChartInstance);
+
+        document.body.innerHTML = `
+            <div id="comparisonContainer"></div>
+            <div class="latency-overlay" id="latencyOverlay" style="display: none;">
+                <canvas id="latencyOverlayChart"></canvas>
+            </div>
+        `;
+
+        const scriptContent = readFileSync(join(__dirname, '../runComparisonView.js'), 'utf8');
+        eval(scriptContent);
+    });
+
+    it('should show every run side by side with the change against the baseline', () => {
+        sendComparison(comparison);
+
+        const headers = Array.from(document.querySelectorAll('thead th')).map(th => th.firstChild.textContent);
+        expect(headers).toEqual(['Metric', 'Run #4', 'Run #6', 'Run #7']);
+        expect(document.querySelector('thead .run-details').innerHTML).toContain('Local &lt;dev&gt;');
+
+        const cells = Array.from(document.querySelectorAll('tr[data-metric="p95Duration"] td')).map(td => td.textContent);
+        expect(cells).toEqual(['P95 Duration', '300.00 ms', '120.00 ms-60.0%', '306.00 ms+2.0%']);
+        expect(document.querySelector('tr[data-metric="p95Duration"] .change.better').textContent).toBe('-60.0%');
+        expect(document.querySelector('tr[data-metric="p95Duration"] .change.unchanged')).not.toBeNull();
+    });
+
+    it('should show a dash for a metric the baseline did not measure', () => {
+        sendComparison(comparison);
+
+        const cells = Array.from(document.querySelectorAll('tr[data-metric="avgWrites"] td')).map(td => td.textContent);
+        expect(cells).toEqual(['Avg Writes', '-', '12', '15']);
+    });
+
+    it('should overlay one latency line per run', () => {
+        sendComparison(comparison);
+
+        expect(document.getElementById('latencyOverlay').style.display).toBe('block');
+        const data = global.Chart.mock.calls[0][1].data;
+        expect(data.labels).toEqual(['5.0-50 ms', '50-95 ms']);
+        expect(data.datasets.map(d => d.label)).toEqual(['Run #4', 'Run #6']);
+        expect(data.datasets[1].data).toEqual([90, 10]);
+    });
+
+    it('should hide the overlay when no run has a latency distribution', () => {
+        sendComparison({ ...comparison, latencyOverlay: undefined });
+
+        expect(document.getElementById('latencyOverlay').style.display).toBe('none');
+        expect(global.Chart).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+describe('scenarioEditor.js', () => {
+    let ScenarioEditor;
+    let container;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<div id="scenarioQueries"></div>';
+        container = document.getElementById('scenarioQueries');
+
+        const scriptPath = join(__dirname, '../scenarioEditor.js');
+        new Function(readFileSync(scriptPath, 'utf8'))();
+        ScenarioEditor = window.ScenarioEditor;
+    });
+
+    describe('ScenarioValidator', () => {
+        it('should accept a valid scenario', () => {
+            expect(ScenarioEditor.ScenarioValidator.validate([
+                { name: 'read', query: 'SELECT 1', weight: 70 },
+                { name: 'write', query: 'UPDATE t SET c = 1', weight: 30 }
+            ])).toBeNull();
+        });
+
+        it('should reject empty names, empty queries and invalid weights', () => {
+            expect(ScenarioEditor.ScenarioValidator.validate([{ name: ' ', query: 'SELECT 1', weight: 1 }]))
+                .toBe('Every scenario query needs a name');
+            expect(ScenarioEditor.ScenarioValidator.validate([{ name: 'read', query: '', weight: 1 }]))
+                .toBe('Scenario query "read" is empty');
+            expect(ScenarioEditor.ScenarioValidator.validate([{ name: 'read', query: 'SELECT 1', weight: 0 }]))
+                .toContain('must be a whole number');
+            expect(ScenarioEditor.ScenarioValidator.validate([{ name: 'read', query: 'SELECT 1', weight: NaN }]))
+                .toContain('must be a whole number');
+        });
+    });
+
+    describe('WeightCalculator', () => {
+        it('should convert weights to percentages of the executions', () => {
+            expect(ScenarioEditor.WeightCalculator.toPercentages([
+                { weight: 7 }, { weight: 2 }, { weight: 1 }
+            ])).toEqual([70, 20, 10]);
+            expect(ScenarioEditor.WeightCalculator.toPercentages([
+                { weight: 1 }, { weight: 2 }
+            ])).toEqual([33.3, 66.7]);
+        });
+    });
+
+    describe('QueryPreview', () => {
+        it('should collapse whitespace and truncate long queries', () => {
+            expect(ScenarioEditor.QueryPreview.format('SELECT *\n  FROM t')).toBe('SELECT * FROM t');
+            expect(ScenarioEditor.QueryPreview.format('x'.repeat(100))).toBe('x'.repeat(60) + '…');
+        });
+    });
+
+    describe('create', () => {
+        it('should show an empty state until a query is added', () => {
+            ScenarioEditor.create(container);
+
+            expect(container.querySelector('.scenario-empty')).not.toBeNull();
+        });
+
+        it('should add queries with a default name and render their share', () => {
+            const editor = ScenarioEditor.create(container);
+
+            expect(editor.addQuery('', 'SELECT 1', 3)).toBeNull();
+            expect(editor.addQuery('write', 'UPDATE t SET c = 1', 1)).toBeNull();
+
+            expect(editor.getQueries()).toEqual([
+                { name: 'Query 1', query: 'SELECT 1', weight: 3 },
+                { name: 'write', query: 'UPDATE t SET c = 1', weight: 1 }
+            ]);
+            const percentages = Array.from(container.querySelectorAll('.scenario-percentage')).map(e => e.textContent);
+            expect(percentages).toEqual(['75%', '25%']);
+        });
+
+        it('should return the validation error and not add an invalid query', () => {
+            const editor = ScenarioEditor.create(container);
+
+            expect(editor.addQuery('read', 'SELECT 1', 20000)).toContain('between 1 and 10000');
+            expect(editor.getQueries()).toEqual([]);
+        });
+
+        it('should update weights and remove queries', () => {
+            const editor = ScenarioEditor.create(container);
+            editor.addQuery('read', 'SELECT 1', 1);
+            editor.addQuery('write', 'UPDATE t SET c = 1', 1);
+
+            const weightInput = container.querySelectorAll('.scenario-weight')[0];
+            weightInput.value = '4';
+            weightInput.dispatchEvent(new Event('change'));
+            expect(editor.getQueries()[0].weight).toBe(4);
+
+            container.querySelectorAll('.scenario-remove')[1].click();
+            expect(editor.getQueries().map(q => q.name)).toEqual(['read']);
+        });
+    });
+});
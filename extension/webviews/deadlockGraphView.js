@@ -0,0 +1,272 @@
+const vscode = acquireVsCodeApi();
+const reportSelect = document.getElementById('reportSelect');
+const openXmlBtn = document.getElementById('openXmlBtn');
+const reportContainer = document.getElementById('reportContainer');
+
+// Event field holding the XML of each report event
+const REPORT_FIELDS = {
+    xml_deadlock_report: 'xml_report',
+    blocked_process_report: 'blocked_process'
+};
+
+// Readable names of the resources of a deadlock graph; others are shown by element name
+const RESOURCE_LABELS = {
+    keylock: 'Key lock',
+    pagelock: 'Page lock',
+    ridlock: 'RID lock',
+    objectlock: 'Object lock',
+    hobtlock: 'HoBT lock',
+    databaselock: 'Database lock',
+    filelock: 'File lock',
+    applicationlock: 'Application lock',
+    metadatalock: 'Metadata lock',
+    exchangeEvent: 'Parallel exchange',
+    threadpool: 'Worker threads'
+};
+
+let reports = [];
+
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+function descendantElements(element, localName) {
+    return Array.from(element.getElementsByTagName('*')).filter(child => child.localName === localName);
+}
+
+function childElements(element, localName) {
+    return Array.from(element.children).filter(child => child.localName === localName);
+}
+
+function readNumber(element, attribute) {
+    const value = element.getAttribute(attribute);
+    return value === null || value === '' ? undefined : Number(value);
+}
+
+function parseXml(xml) {
+    const document = new DOMParser().parseFromString(xml || '', 'application/xml');
+    if (!xml || document.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The report is not valid XML');
+    }
+    return document;
+}
+
+// The batch the session was running, or the statements of its stack when the input buffer is empty
+function readSqlText(process) {
+    const inputbuf = descendantElements(process, 'inputbuf')[0];
+    const text = inputbuf ? inputbuf.textContent.trim() : '';
+    if (text) {
+        return text;
+    }
+    return descendantElements(process, 'frame')
+        .map(frame => frame.textContent.trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+function parseProcess(process) {
+    return {
+        id: process.getAttribute('id') || '',
+        spid: process.getAttribute('spid') || '?',
+        lockMode: process.getAttribute('lockMode') || undefined,
+        waitResource: process.getAttribute('waitresource') || undefined,
+        waitTimeMs: readNumber(process, 'waittime'),
+        isolationLevel: process.getAttribute('isolationlevel') || undefined,
+        status: process.getAttribute('status') || undefined,
+        clientApp: process.getAttribute('clientapp') || undefined,
+        hostName: process.getAttribute('hostname') || undefined,
+        loginName: process.getAttribute('loginname') || undefined,
+        sqlText: readSqlText(process)
+    };
+}
+
+/**
+ * Victim, sessions and locked resources of an xml_deadlock_report. Reports saved from
+ * system_health wrap the graph in deadlock-list and name the victim in an attribute.
+ */
+function parseDeadlock(document) {
+    const deadlock = descendantElements(document, 'deadlock')[0];
+    if (!deadlock) {
+        throw new Error('The report has no deadlock graph');
+    }
+    const victimIds = new Set(descendantElements(deadlock, 'victimProcess').map(victim => victim.getAttribute('id')));
+    if (deadlock.getAttribute('victim')) {
+        victimIds.add(deadlock.getAttribute('victim'));
+    }
+
+    const processes = descendantElements(deadlock, 'process').map(element => {
+        const process = parseProcess(element);
+        process.role = victimIds.has(process.id) ? 'victim' : undefined;
+        return process;
+    });
+    const sessionOf = id => {
+        const process = processes.find(p => p.id === id);
+        return process ? `Session ${process.spid}` : id;
+    };
+
+    const resourceList = descendantElements(deadlock, 'resource-list')[0];
+    const resources = resourceList ? Array.from(resourceList.children).map(resource => {
+        const describeLocks = (listName, itemName) => descendantElements(resource, listName)
+            .flatMap(list => childElements(list, itemName))
+            .map(lock => {
+                const mode = [lock.getAttribute('mode'), lock.getAttribute('requestType')].filter(Boolean).join(', ');
+                return mode ? `${sessionOf(lock.getAttribute('id'))} (${mode})` : sessionOf(lock.getAttribute('id'));
+            });
+        const object = [resource.getAttribute('objectname'), resource.getAttribute('indexname')].filter(Boolean).join(' · ');
+        return {
+            type: RESOURCE_LABELS[resource.localName] || resource.localName,
+            object: object || resource.getAttribute('id') || '',
+            owners: describeLocks('owner-list', 'owner'),
+            waiters: describeLocks('waiter-list', 'waiter')
+        };
+    }) : [];
+
+    const victims = processes.filter(p => p.role === 'victim').map(p => `session ${p.spid}`);
+    return {
+        summary: `Victim: ${victims.length > 0 ? victims.join(', ') : 'unknown'} · ${processes.length} sessions · ${resources.length} resources`,
+        processes,
+        resources
+    };
+}
+
+// The blocked session and the session holding the lock it waits for
+function parseBlockedProcessReport(document) {
+    const blockedElement = descendantElements(document, 'blocked-process')
+        .flatMap(element => childElements(element, 'process'))[0];
+    if (!blockedElement) {
+        throw new Error('The report has no blocked process');
+    }
+    const blocked = { ...parseProcess(blockedElement), role: 'blocked' };
+    const blocking = descendantElements(document, 'blocking-process')
+        .flatMap(element => childElements(element, 'process'))
+        .map(element => ({ ...parseProcess(element), role: 'blocking' }));
+
+    let summary = `Session ${blocked.spid} blocked`;
+    if (blocked.waitTimeMs !== undefined) {
+        summary += ` for ${(blocked.waitTimeMs / 1000).toFixed(1)} s`;
+    }
+    if (blocking.length > 0) {
+        summary += ` by session ${blocking[0].spid}`;
+    }
+    return {
+        summary,
+        processes: [blocked, ...blocking],
+        resources: blocked.waitResource ? [{
+            type: 'Wait resource',
+            object: blocked.waitResource,
+            owners: blocking.map(process => `Session ${process.spid}`),
+            waiters: [blocked.lockMode ? `Session ${blocked.spid} (${blocked.lockMode})` : `Session ${blocked.spid}`]
+        }] : []
+    };
+}
+
+function parseReport(report) {
+    const document = parseXml(report.eventFields[REPORT_FIELDS[report.eventName]]);
+    return report.eventName === 'xml_deadlock_report'
+        ? parseDeadlock(document)
+        : parseBlockedProcessReport(document);
+}
+
+function createProcess(process) {
+    const details = [];
+    if (process.lockMode) {
+        details.push(`lock mode ${process.lockMode}`);
+    }
+    if (process.waitResource) {
+        details.push(process.waitTimeMs !== undefined
+            ? `waited ${process.waitTimeMs.toLocaleString('en-US')} ms on ${process.waitResource}`
+            : `waits on ${process.waitResource}`);
+    }
+    if (process.isolationLevel) {
+        details.push(process.isolationLevel);
+    }
+    if (process.status) {
+        details.push(process.status);
+    }
+    const client = [process.clientApp, process.hostName, process.loginName].filter(Boolean).join(' / ');
+    if (client) {
+        details.push(client);
+    }
+
+    const roleClass = process.role ? ` ${process.role}` : '';
+    let html = `<section class="participant${roleClass}" data-spid="${escapeHtml(process.spid)}">`;
+    html += `<div class="participant-name">Session ${escapeHtml(process.spid)}`;
+    if (process.role) {
+        html += ` <span class="role">${process.role}</span>`;
+    }
+    html += '</div>';
+    html += `<div class="participant-details">${escapeHtml(details.join(' · '))}</div>`;
+    html += `<pre class="sql-text">${escapeHtml(process.sqlText || 'No SQL text in the report')}</pre>`;
+    html += '</section>';
+    return html;
+}
+
+function createResourceTable(resources) {
+    if (resources.length === 0) {
+        return '';
+    }
+    let html = '<h3>Resources</h3>';
+    html += '<table class="resource-table"><thead><tr>';
+    html += '<th>Resource</th><th>Object</th><th>Held by</th><th>Waited for by</th>';
+    html += '</tr></thead><tbody>';
+    resources.forEach(resource => {
+        html += '<tr>';
+        html += `<td>${escapeHtml(resource.type)}</td>`;
+        html += `<td>${escapeHtml(resource.object)}</td>`;
+        html += `<td>${escapeHtml(resource.owners.join(', '))}</td>`;
+        html += `<td>${escapeHtml(resource.waiters.join(', '))}</td>`;
+        html += '</tr>';
+    });
+    html += '</tbody></table>';
+    return html;
+}
+
+function renderReport(report) {
+    if (!report) {
+        reportContainer.innerHTML = '<div class="empty-state">No report selected</div>';
+        return;
+    }
+    try {
+        const parsed = parseReport(report);
+        let html = `<div class="report-summary">${escapeHtml(parsed.summary)}</div>`;
+        html += '<h3>Sessions</h3>';
+        html += parsed.processes.map(createProcess).join('');
+        html += createResourceTable(parsed.resources);
+        reportContainer.innerHTML = html;
+    } catch (error) {
+        reportContainer.innerHTML = `<div class="empty-state">${escapeHtml(error.message)}</div>`;
+    }
+}
+
+function describeReport(report, index) {
+    const parts = [`#${index + 1} ${report.eventName === 'xml_deadlock_report' ? 'Deadlock' : 'Blocked process'}`];
+    parts.push(`Execution #${report.executionNumber}`);
+    return parts.join(' · ');
+}
+
+function showReports(newReports) {
+    reports = newReports;
+    reportSelect.innerHTML = reports
+        .map((report, index) => `<option value="${index}">${escapeHtml(describeReport(report, index))}</option>`)
+        .join('');
+    renderReport(reports[0]);
+}
+
+reportSelect.addEventListener('change', () => {
+    renderReport(reports[Number(reportSelect.value)]);
+});
+
+openXmlBtn.addEventListener('click', () => {
+    if (reports[Number(reportSelect.value)]) {
+        vscode.postMessage({ command: 'openReportXml', index: Number(reportSelect.value) });
+    }
+});
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.command === 'showReports') {
+        showReports(message.reports);
+    }
+});
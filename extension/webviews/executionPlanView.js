@@ -0,0 +1,294 @@
+const vscode = acquireVsCodeApi();
+const planSelect = document.getElementById('planSelect');
+const openXmlBtn = document.getElementById('openXmlBtn');
+const planContainer = document.getElementById('planContainer');
+
+// Actual rows this many times off the estimate, either way, are flagged
+const MISESTIMATE_FACTOR = 10;
+
+// Readable names of the warnings SQL Server adds to a plan; others are shown by element name
+const WARNING_LABELS = {
+    NoJoinPredicate: 'No join predicate',
+    ColumnsWithNoStatistics: 'Columns with no statistics',
+    SpillToTempDb: 'Spill to tempdb',
+    SortSpillDetails: 'Sort spill',
+    HashSpillDetails: 'Hash spill',
+    ExchangeSpillDetails: 'Exchange spill',
+    PlanAffectingConvert: 'Type conversion in expression may affect the plan',
+    MemoryGrantWarning: 'Memory grant warning',
+    UnmatchedIndexes: 'Unmatched filtered indexes',
+    Wait: 'Wait',
+    FullUpdateForOnlineIndexBuild: 'Full update for online index build'
+};
+
+let plans = [];
+
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+function readNumber(element, attribute) {
+    const value = element.getAttribute(attribute);
+    return value === null || value === '' ? undefined : Number(value);
+}
+
+// Showplans use a default namespace, so elements are matched by local name
+function descendantElements(element, localName) {
+    return Array.from(element.getElementsByTagName('*')).filter(child => child.localName === localName);
+}
+
+function childElements(element, localName) {
+    return Array.from(element.children).filter(child => child.localName === localName);
+}
+
+// The RelOps directly below an operator. They are nested in the operator-specific element
+// (NestedLoops, Hash, IndexScan, ...), so every branch is searched down to the next RelOp.
+function findChildOperators(element) {
+    const operators = [];
+    Array.from(element.children).forEach(child => {
+        if (child.localName === 'RelOp') {
+            operators.push(child);
+        } else {
+            operators.push(...findChildOperators(child));
+        }
+    });
+    return operators;
+}
+
+// First element with the given name in the operator's own part of the tree, not in its children
+function findOwnElement(element, localName) {
+    for (const child of Array.from(element.children)) {
+        if (child.localName === 'RelOp') {
+            continue;
+        }
+        if (child.localName === localName) {
+            return child;
+        }
+        const found = findOwnElement(child, localName);
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
+
+function describeWarning(element) {
+    const label = WARNING_LABELS[element.localName] || element.localName;
+    switch (element.localName) {
+        case 'ColumnsWithNoStatistics': {
+            const columns = descendantElements(element, 'ColumnReference')
+                .map(column => [column.getAttribute('Table'), column.getAttribute('Column')].filter(Boolean).join('.'));
+            return `${label}: ${columns.join(', ')}`;
+        }
+        case 'SpillToTempDb':
+            return element.getAttribute('SpillLevel') ? `${label} (level ${element.getAttribute('SpillLevel')})` : label;
+        case 'PlanAffectingConvert':
+            return `${label} "${element.getAttribute('ConvertIssue')}": ${element.getAttribute('Expression')}`;
+        case 'MemoryGrantWarning':
+            return `${label}: ${element.getAttribute('GrantWarningKind')}`;
+        case 'Wait':
+            return `${label}: ${element.getAttribute('WaitType')} ${element.getAttribute('WaitTime')} ms`;
+        default:
+            return label;
+    }
+}
+
+// Warnings are child elements of <Warnings>; older plans also set flags such as NoJoinPredicate="1" on it
+function readWarnings(element) {
+    const warnings = [];
+    childElements(element, 'Warnings').forEach(warningsElement => {
+        Array.from(warningsElement.attributes)
+            .filter(attribute => attribute.value === '1' || attribute.value === 'true')
+            .forEach(attribute => warnings.push(WARNING_LABELS[attribute.name] || attribute.name));
+        Array.from(warningsElement.children).forEach(warning => warnings.push(describeWarning(warning)));
+    });
+    return warnings;
+}
+
+// Actual rows and executions are reported per thread of a parallel operator
+function readRuntime(element) {
+    const runtime = childElements(element, 'RunTimeInformation')[0];
+    if (!runtime) {
+        return {};
+    }
+    const threads = childElements(runtime, 'RunTimeCountersPerThread');
+    const sum = attribute => threads.reduce((total, thread) => total + (readNumber(thread, attribute) ?? 0), 0);
+    const elapsed = threads.map(thread => readNumber(thread, 'ActualElapsedms')).filter(value => value !== undefined);
+    return {
+        actualRows: sum('ActualRows'),
+        actualExecutions: sum('ActualExecutions'),
+        actualElapsedMs: elapsed.length > 0 ? elapsed.reduce((max, value) => Math.max(max, value)) : undefined
+    };
+}
+
+function readObjectName(element) {
+    const object = findOwnElement(element, 'Object');
+    if (!object) {
+        return undefined;
+    }
+    return ['Schema', 'Table', 'Index']
+        .map(attribute => object.getAttribute(attribute))
+        .filter(Boolean)
+        .join('.') || undefined;
+}
+
+function parseOperator(element, statementCost) {
+    const children = findChildOperators(element).map(child => parseOperator(child, statementCost));
+    const subtreeCost = readNumber(element, 'EstimatedTotalSubtreeCost') ?? 0;
+    const childrenCost = children.reduce((total, child) => total + child.subtreeCost, 0);
+    const cost = Math.max(subtreeCost - childrenCost, 0);
+    const estimateRows = readNumber(element, 'EstimateRows') ?? 0;
+    // EstimateRows is per execution; the actual rows add up over every rebind and rewind
+    const estimatedExecutions = 1 + (readNumber(element, 'EstimateRebinds') ?? 0) + (readNumber(element, 'EstimateRewinds') ?? 0);
+    return {
+        nodeId: readNumber(element, 'NodeId'),
+        physicalOp: element.getAttribute('PhysicalOp'),
+        logicalOp: element.getAttribute('LogicalOp'),
+        object: readObjectName(element),
+        estimatedRows: estimateRows * estimatedExecutions,
+        subtreeCost,
+        cost,
+        costPercent: statementCost > 0 ? cost / statementCost * 100 : 0,
+        warnings: readWarnings(element),
+        ...readRuntime(element),
+        children
+    };
+}
+
+function parseStatement(element) {
+    const queryPlan = childElements(element, 'QueryPlan')[0];
+    const rootOperator = queryPlan ? childElements(queryPlan, 'RelOp')[0] : undefined;
+    const statementCost = readNumber(element, 'StatementSubTreeCost')
+        ?? (rootOperator ? readNumber(rootOperator, 'EstimatedTotalSubtreeCost') : undefined)
+        ?? 0;
+    const timeStats = queryPlan ? childElements(queryPlan, 'QueryTimeStats')[0] : undefined;
+    return {
+        text: element.getAttribute('StatementText') || '',
+        type: element.getAttribute('StatementType'),
+        cost: statementCost,
+        cpuTimeMs: timeStats ? readNumber(timeStats, 'CpuTime') : undefined,
+        elapsedTimeMs: timeStats ? readNumber(timeStats, 'ElapsedTime') : undefined,
+        warnings: queryPlan ? readWarnings(queryPlan) : [],
+        root: rootOperator ? parseOperator(rootOperator, statementCost) : undefined
+    };
+}
+
+/**
+ * Parses a ShowPlanXML document into its statements and their operator trees.
+ * Statements without a plan (SET, DECLARE, ...) are left out.
+ */
+function parseShowplan(xml) {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('The execution plan is not valid XML');
+    }
+    return descendantElements(document, 'StmtSimple')
+        .map(parseStatement)
+        .filter(statement => statement.root);
+}
+
+function isMisestimate(operator) {
+    if (operator.actualRows === undefined) {
+        return false;
+    }
+    const high = Math.max(operator.actualRows, operator.estimatedRows);
+    const low = Math.max(Math.min(operator.actualRows, operator.estimatedRows), 1);
+    return high / low >= MISESTIMATE_FACTOR;
+}
+
+function formatNumber(value, fractionDigits = 0) {
+    if (value === undefined) {
+        return '-';
+    }
+    return value.toLocaleString('en-US', { maximumFractionDigits: fractionDigits });
+}
+
+function createOperatorRows(operator, depth) {
+    const name = operator.logicalOp && operator.logicalOp !== operator.physicalOp
+        ? `${escapeHtml(operator.physicalOp)} <span class="logical-op">(${escapeHtml(operator.logicalOp)})</span>`
+        : escapeHtml(operator.physicalOp);
+    const rowsClass = isMisestimate(operator) ? ' class="misestimate"' : '';
+    const warnings = operator.warnings.map(warning => `<div class="warning">⚠ ${escapeHtml(warning)}</div>`).join('');
+    let html = `<tr data-node-id="${operator.nodeId}">`;
+    html += `<td class="operator" style="padding-left: ${8 + depth * 16}px;">${name}</td>`;
+    html += `<td>${operator.object ? escapeHtml(operator.object) : ''}</td>`;
+    html += `<td class="number">${operator.costPercent.toFixed(1)}%</td>`;
+    html += `<td class="number">${formatNumber(operator.subtreeCost, 4)}</td>`;
+    html += `<td class="number">${formatNumber(operator.estimatedRows, 1)}</td>`;
+    html += `<td class="number"><span${rowsClass}>${formatNumber(operator.actualRows)}</span></td>`;
+    html += `<td class="number">${formatNumber(operator.actualExecutions)}</td>`;
+    html += `<td>${warnings}</td>`;
+    html += '</tr>';
+    return html + operator.children.map(child => createOperatorRows(child, depth + 1)).join('');
+}
+
+function createStatement(statement) {
+    const details = [`Estimated cost ${formatNumber(statement.cost, 4)}`];
+    if (statement.elapsedTimeMs !== undefined) {
+        details.push(`elapsed ${formatNumber(statement.elapsedTimeMs)} ms`);
+    }
+    if (statement.cpuTimeMs !== undefined) {
+        details.push(`CPU ${formatNumber(statement.cpuTimeMs)} ms`);
+    }
+    let html = '<section class="statement">';
+    html += `<pre class="statement-text">${escapeHtml(statement.text)}</pre>`;
+    html += `<div class="statement-details">${details.join(' · ')}</div>`;
+    html += statement.warnings.map(warning => `<div class="warning">⚠ ${escapeHtml(warning)}</div>`).join('');
+    html += '<table class="operator-table"><thead><tr>';
+    html += '<th>Operator</th><th>Object</th><th>Cost</th><th>Subtree Cost</th><th>Est. Rows</th><th>Actual Rows</th><th>Executions</th><th>Warnings</th>';
+    html += '</tr></thead><tbody>';
+    html += createOperatorRows(statement.root, 0);
+    html += '</tbody></table></section>';
+    return html;
+}
+
+function renderPlan(plan) {
+    if (!plan) {
+        planContainer.innerHTML = '<div class="empty-state">No execution plan selected</div>';
+        return;
+    }
+    try {
+        const statements = plan.showplanXml.flatMap(parseShowplan);
+        planContainer.innerHTML = statements.length > 0
+            ? statements.map(createStatement).join('')
+            : '<div class="empty-state">The plan has no statements with operators</div>';
+    } catch (error) {
+        planContainer.innerHTML = `<div class="empty-state">${escapeHtml(error.message)}</div>`;
+    }
+}
+
+function describePlan(plan) {
+    const parts = [`Execution #${plan.executionNumber}`, `${plan.durationMs.toFixed(2)} ms`];
+    if (plan.queryName) {
+        parts.push(plan.queryName);
+    }
+    return parts.join(' · ');
+}
+
+function showPlans(newPlans) {
+    plans = newPlans;
+    planSelect.innerHTML = plans
+        .map((plan, index) => `<option value="${index}">${escapeHtml(describePlan(plan))}</option>`)
+        .join('');
+    renderPlan(plans[0]);
+}
+
+planSelect.addEventListener('change', () => {
+    renderPlan(plans[Number(planSelect.value)]);
+});
+
+openXmlBtn.addEventListener('click', () => {
+    const plan = plans[Number(planSelect.value)];
+    if (plan) {
+        vscode.postMessage({ command: 'openPlanXml', executionNumber: plan.executionNumber });
+    }
+});
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.command === 'showPlans') {
+        showPlans(message.plans);
+    }
+});
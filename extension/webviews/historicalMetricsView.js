@@ -1,5 +1,26 @@
 const vscode = acquireVsCodeApi();
 const container = document.getElementById('metricsContainer');
+const compareRunsBtn = document.getElementById('compareRunsBtn');
+
+if (compareRunsBtn) {
+    compareRunsBtn.addEventListener('click', () => {
+        vscode.postMessage({ command: 'compareRuns' });
+    });
+}
+
+// Cards are re-rendered on every update, so their buttons are handled on the container
+if (container) {
+    container.addEventListener('click', event => {
+        const button = event.target.closest('.execution-plans-btn');
+        if (button) {
+            vscode.postMessage({ command: 'showExecutionPlans', runId: Number(button.dataset.runId) });
+        }
+        const blockingButton = event.target.closest('.blocking-reports-btn');
+        if (blockingButton) {
+            vscode.postMessage({ command: 'showBlockingReports', runId: Number(blockingButton.dataset.runId) });
+        }
+    });
+}
 
 function formatValue(value, unit) {
     if (unit === 'bytes') {
@@ -16,6 +37,126 @@ function formatValue(value, unit) {
     return Math.round(value).toLocaleString();
 }
 
+// Tail latency of the run, e.g. "p50 12.00 ms · p90 30.00 ms · p95 41.00 ms · p99 80.00 ms"
+function formatPercentiles(percentiles, unit) {
+    return ['p50', 'p90', 'p95', 'p99']
+        .map(key => `${key} ${formatValue(percentiles[key], unit)}`)
+        .join(' · ');
+}
+
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+// When and against which connection the run was made, as runs are kept across sessions
+function createRunDetails(card) {
+    const details = [];
+    if (card.connectionName) {
+        details.push(escapeHtml(card.connectionName));
+    }
+    if (card.startTime !== undefined) {
+        details.push(new Date(card.startTime).toLocaleString());
+    }
+    return details.length > 0 ? `<div class="metric-stats run-details">${details.join(' · ')}</div>` : '';
+}
+
+// Per scenario query rows; only shown when the run mixed several queries
+function createQueryBreakdown(queries) {
+    if (!queries || queries.length < 2) {
+        return '';
+    }
+    let html = '<div class="query-breakdown">';
+    html += '<div class="query-row header"><span>Query</span><span>Executions</span><span>Avg Execution Time</span><span>Range</span></div>';
+    queries.forEach(query => {
+        const trendSymbol = query.trend === 'up' ? '↑' : query.trend === 'down' ? '↓' : '→';
+        html += '<div class="query-row">';
+        html += `<span>${escapeHtml(query.queryName)}</span>`;
+        html += `<span>${query.executionCount.toLocaleString()}</span>`;
+        html += `<span>${formatValue(query.current, query.unit)}<span class="trend ${query.trend}">${trendSymbol}</span></span>`;
+        html += `<span>${formatValue(query.min, query.unit)} - ${formatValue(query.max, query.unit)}</span>`;
+        html += '</div>';
+    });
+    html += '</div>';
+    return html;
+}
+
+// Top server waits of the run, with the change against the previous run's wait time of the same type
+function createWaitBreakdown(waits) {
+    if (!waits || waits.length === 0) {
+        return '';
+    }
+    let html = '<div class="wait-breakdown">';
+    html += '<div class="metric-label">Top Waits</div>';
+    html += '<div class="wait-row header"><span>Wait Type</span><span>Wait Time</span><span>Share</span><span>Previous</span></div>';
+    waits.forEach(wait => {
+        const trendSymbol = wait.trend === 'up' ? '↑' : wait.trend === 'down' ? '↓' : '→';
+        let previous = '-';
+        if (wait.previous === 0) {
+            previous = 'new';
+        } else if (wait.previous !== undefined) {
+            const change = ((wait.waitTimeMs - wait.previous) / wait.previous * 100).toFixed(1);
+            previous = `${formatValue(wait.previous, 'ms')} (${change > 0 ? '+' : ''}${change}%)`;
+        }
+        html += `<div class="wait-row" data-wait-type="${escapeHtml(wait.waitType)}">`;
+        html += `<span class="wait-type" title="${wait.waitingTasksCount.toLocaleString()} waits">${escapeHtml(wait.waitType)}</span>`;
+        html += `<span>${formatValue(wait.waitTimeMs, 'ms')}<span class="trend ${wait.trend}">${trendSymbol}</span></span>`;
+        html += `<span>${wait.percentOfTotal.toFixed(1)}%</span>`;
+        html += `<span>${previous}</span>`;
+        html += '</div>';
+    });
+    html += '</div>';
+    return html;
+}
+
+// Deadlocks and blocked process reports of the run's sessions, with the counts of the previous run
+function createBlockingCounts(card) {
+    const blocking = card.blocking;
+    if (!blocking) {
+        return '';
+    }
+    const formatCount = (count, previous) =>
+        previous === undefined ? `${count}` : `${count} (previous ${previous})`;
+    let html = '<div class="blocking-counts">';
+    html += '<div class="metric-label">Blocking</div>';
+    html += `<div class="blocking-count${blocking.deadlockCount > 0 ? ' deadlocks' : ''}">Deadlocks: ${formatCount(blocking.deadlockCount, blocking.previousDeadlockCount)}</div>`;
+    html += `<div class="blocking-count">Blocked process reports: ${formatCount(blocking.blockedProcessReportCount, blocking.previousBlockedProcessReportCount)}</div>`;
+    if (card.runId !== undefined) {
+        html += `<button class="btn blocking-reports-btn" data-run-id="${card.runId}">Show Deadlocks</button>`;
+    }
+    html += '</div>';
+    return html;
+}
+
+// Pass/fail verdict of every assertion checked when the run finished
+function createAssertionVerdicts(assertions) {
+    if (!assertions || assertions.length === 0) {
+        return '';
+    }
+    const failedCount = assertions.filter(assertion => !assertion.passed).length;
+    let html = '<div class="assertions">';
+    html += `<div class="metric-label">Assertions: ${failedCount === 0 ? 'all passed' : `${failedCount} of ${assertions.length} failed`}</div>`;
+    assertions.forEach(assertion => {
+        const verdict = assertion.passed ? 'passed' : 'failed';
+        html += `<div class="assertion ${verdict}">`;
+        html += `${assertion.passed ? '✓' : '✗'} ${escapeHtml(assertion.expression)}`;
+        html += `<span class="assertion-actual">was ${escapeHtml(assertion.actual)}</span>`;
+        html += '</div>';
+    });
+    html += '</div>';
+    return html;
+}
+
+// Opens the actual execution plans captured during the run
+function createExecutionPlansButton(card) {
+    if (!card.executionPlanCount || card.runId === undefined) {
+        return '';
+    }
+    const label = card.executionPlanCount === 1 ? '1 Execution Plan' : `${card.executionPlanCount} Execution Plans`;
+    return `<button class="btn execution-plans-btn" data-run-id="${card.runId}">${label}</button>`;
+}
+
 function createCard(card) {
     const cardDiv = document.createElement('div');
     const isCombined = card.executionTime || card.dataSize;
@@ -24,6 +165,7 @@ function createCard(card) {
     // Handle combined card (Execution Time & Data Size)
     if (isCombined) {
         let html = `<div class="metric-label">${card.label}</div>`;
+        html += createRunDetails(card);
         html += '<div class="combined-metrics">';
         
         // Execution Time section
@@ -40,6 +182,9 @@ function createCard(card) {
             if (card.executionTime.min !== undefined && card.executionTime.max !== undefined) {
                 html += `<div class="metric-stats">Range: ${formatValue(card.executionTime.min, card.executionTime.unit)} - ${formatValue(card.executionTime.max, card.executionTime.unit)}</div>`;
             }
+            if (card.executionTime.percentiles) {
+                html += `<div class="metric-stats percentiles">${formatPercentiles(card.executionTime.percentiles, card.executionTime.unit)}</div>`;
+            }
             html += '</div>';
         }
         
@@ -61,6 +206,11 @@ function createCard(card) {
         }
         
         html += '</div>';
+        html += createQueryBreakdown(card.queries);
+        html += createWaitBreakdown(card.waits);
+        html += createBlockingCounts(card);
+        html += createAssertionVerdicts(card.assertions);
+        html += createExecutionPlansButton(card);
         
         cardDiv.innerHTML = html;
     } else {
@@ -69,6 +219,7 @@ function createCard(card) {
         const trendClass = card.trend;
         
         let html = `<div class="metric-label">${card.label}</div>`;
+        html += createRunDetails(card);
         html += `<div class="metric-value">${formatValue(card.current, card.unit)}<span class="trend ${trendClass}">${trendSymbol}</span></div>`;
         
         if (card.previous !== undefined) {
@@ -79,6 +230,10 @@ function createCard(card) {
         if (card.min !== undefined && card.max !== undefined) {
             html += `<div class="metric-stats">Range: ${formatValue(card.min, card.unit)} - ${formatValue(card.max, card.unit)}</div>`;
         }
+        html += createWaitBreakdown(card.waits);
+        html += createBlockingCounts(card);
+        html += createAssertionVerdicts(card.assertions);
+        html += createExecutionPlansButton(card);
         
         cardDiv.innerHTML = html;
     }
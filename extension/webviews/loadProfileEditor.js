@@ -0,0 +1,178 @@
+// Load Profile Editor Module - how load is applied over the course of a stress test
+// Fixed runs Total Executions; duration, ramp and target rate run for a set time
+
+(function() {
+    'use strict';
+
+    const MODES = [
+        { value: 'fixed', label: 'Fixed executions' },
+        { value: 'duration', label: 'Duration' },
+        { value: 'ramp', label: 'Ramp' },
+        { value: 'targetRate', label: 'Target rate' }
+    ];
+    const RAMP_SHAPES = [
+        { value: 'stepped', label: 'Stepped' },
+        { value: 'linear', label: 'Linear' }
+    ];
+    const MAX_WORKERS = 1000;
+    const MAX_DURATION_SECONDS = 86400;
+    const MAX_TARGET_RATE = 10000;
+
+    function isWhole(value, min, max) {
+        return Number.isInteger(value) && value >= min && value <= max;
+    }
+
+    // Validation - pure functions, mirrors the backend request validation
+    const LoadProfileValidator = {
+        validate: function(profile) {
+            if (!MODES.some(mode => mode.value === profile.mode)) return 'Unknown load profile "' + profile.mode + '"';
+            if (profile.mode === 'fixed') return null;
+
+            if (!isWhole(profile.durationSeconds, 1, MAX_DURATION_SECONDS)) {
+                return 'Duration must be between 1 and ' + MAX_DURATION_SECONDS + ' seconds';
+            }
+            if (profile.mode === 'ramp') {
+                if (!isWhole(profile.startWorkers, 1, MAX_WORKERS) || !isWhole(profile.stepWorkers, 1, MAX_WORKERS)) {
+                    return 'Ramp start and step workers must be between 1 and ' + MAX_WORKERS;
+                }
+                if (!isWhole(profile.stepIntervalSeconds, 1, 3600)) {
+                    return 'Ramp step interval must be between 1 and 3600 seconds';
+                }
+                if (!isWhole(profile.maxWorkers, profile.startWorkers, MAX_WORKERS)) {
+                    return 'Ramp max workers must be between the start workers and ' + MAX_WORKERS;
+                }
+            }
+            if (profile.mode === 'targetRate') {
+                if (!(profile.targetRate > 0 && profile.targetRate <= MAX_TARGET_RATE)) {
+                    return 'Target rate must be greater than 0 and at most ' + MAX_TARGET_RATE + ' executions per second';
+                }
+            }
+            return null;
+        }
+    };
+
+    function createDefinition() {
+        return {
+            mode: 'fixed',
+            durationSeconds: 600,
+            startWorkers: 5,
+            stepWorkers: 5,
+            stepIntervalSeconds: 30,
+            maxWorkers: 100,
+            rampShape: 'stepped',
+            targetRate: 10
+        };
+    }
+
+    // Request shape - only the fields of the selected mode travel to the backend
+    function toProfile(definition) {
+        const profile = { mode: definition.mode };
+        if (definition.mode === 'fixed') return profile;
+
+        profile.durationSeconds = definition.durationSeconds;
+        if (definition.mode === 'ramp') {
+            profile.startWorkers = definition.startWorkers;
+            profile.stepWorkers = definition.stepWorkers;
+            profile.stepIntervalSeconds = definition.stepIntervalSeconds;
+            profile.maxWorkers = definition.maxWorkers;
+            profile.rampShape = definition.rampShape;
+        } else if (definition.mode === 'targetRate') {
+            profile.targetRate = definition.targetRate;
+        }
+        return profile;
+    }
+
+    function select(className, entries, value, onChange) {
+        const element = document.createElement('select');
+        element.className = className;
+        entries.forEach(entry => {
+            const option = document.createElement('option');
+            option.value = entry.value;
+            option.textContent = entry.label;
+            option.selected = entry.value === value;
+            element.appendChild(option);
+        });
+        element.addEventListener('change', () => onChange(element.value));
+        return element;
+    }
+
+    // onChange(mode) lets the page enable the execution inputs that apply to the mode
+    function create(container, onChange) {
+        const definition = createDefinition();
+
+        function numberInput(label, field, parse) {
+            const wrapper = document.createElement('label');
+            wrapper.textContent = label + ' ';
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.className = 'load-profile-number';
+            input.dataset.field = field;
+            input.value = String(definition[field]);
+            input.addEventListener('change', () => { definition[field] = parse(input.value); });
+            wrapper.appendChild(input);
+            return wrapper;
+        }
+
+        function wholeNumberInput(label, field) {
+            return numberInput(label, field, value => parseInt(value, 10));
+        }
+
+        function render() {
+            container.innerHTML = '';
+
+            const mode = select('load-profile-mode', MODES, definition.mode, value => {
+                definition.mode = value;
+                render();
+                if (onChange) onChange(value);
+            });
+            container.appendChild(mode);
+
+            const options = document.createElement('span');
+            options.className = 'load-profile-options';
+            if (definition.mode === 'fixed') {
+                const hint = document.createElement('span');
+                hint.className = 'load-profile-hint';
+                hint.textContent = 'Runs Total Executions with Parallel Executions workers.';
+                options.appendChild(hint);
+            } else {
+                options.appendChild(wholeNumberInput('Duration (s)', 'durationSeconds'));
+            }
+
+            if (definition.mode === 'ramp') {
+                options.appendChild(wholeNumberInput('Start workers', 'startWorkers'));
+                options.appendChild(wholeNumberInput('Add', 'stepWorkers'));
+                options.appendChild(wholeNumberInput('every (s)', 'stepIntervalSeconds'));
+                options.appendChild(wholeNumberInput('up to', 'maxWorkers'));
+                options.appendChild(select('load-profile-shape', RAMP_SHAPES, definition.rampShape, value => {
+                    definition.rampShape = value;
+                }));
+            } else if (definition.mode === 'targetRate') {
+                options.appendChild(numberInput('Executions/s', 'targetRate', value => parseFloat(value)));
+                const hint = document.createElement('span');
+                hint.className = 'load-profile-hint';
+                hint.textContent = 'Parallel Executions caps the executions in flight.';
+                options.appendChild(hint);
+            }
+            container.appendChild(options);
+        }
+
+        render();
+
+        return {
+            getMode: function() {
+                return definition.mode;
+            },
+            getProfile: function() {
+                return toProfile(definition);
+            },
+            validate: function() {
+                return LoadProfileValidator.validate(toProfile(definition));
+            }
+        };
+    }
+
+    window.LoadProfileEditor = {
+        create: create,
+        LoadProfileValidator: LoadProfileValidator
+    };
+})();
@@ -0,0 +1,271 @@
+// Parameter Editor Module - generators for the @param placeholders in stress test queries
+// Every execution binds a freshly generated value to each placeholder
+
+(function() {
+    'use strict';
+
+    const GENERATORS = [
+        { value: 'sequential', label: 'Sequential int' },
+        { value: 'randomRange', label: 'Random range' },
+        { value: 'guid', label: 'GUID' },
+        { value: 'csvList', label: 'List from CSV' },
+        { value: 'lookupQuery', label: 'Lookup query' }
+    ];
+    const NAME_PATTERN = /^@[A-Za-z_][A-Za-z0-9_]*$/;
+
+    // Placeholder detection - ignores @@ system functions, DECLAREd variables, comments and literals
+    const PlaceholderParser = {
+        parse: function(text) {
+            const code = (text || '')
+                .replace(/--[^\n]*/g, ' ')
+                .replace(/\/\*[\s\S]*?\*\//g, ' ')
+                .replace(/'(?:[^']|'')*'/g, ' ');
+
+            const declared = new Set();
+            const declarePattern = /\bDECLARE\b([^;\n]*)/gi;
+            let declaration;
+            while ((declaration = declarePattern.exec(code)) !== null) {
+                // Only the declared names count, not variables used in initializers
+                const namePattern = /(?:^|,)\s*(@[A-Za-z_][A-Za-z0-9_]*)/g;
+                let declaredName;
+                while ((declaredName = namePattern.exec(declaration[1])) !== null) {
+                    declared.add(declaredName[1].toLowerCase());
+                }
+            }
+
+            const names = [];
+            const seen = new Set();
+            const placeholderPattern = /(^|[^@\w])(@[A-Za-z_][A-Za-z0-9_]*)/g;
+            let match;
+            while ((match = placeholderPattern.exec(code)) !== null) {
+                const name = match[2];
+                const key = name.toLowerCase();
+                if (!declared.has(key) && !seen.has(key)) {
+                    seen.add(key);
+                    names.push(name);
+                }
+            }
+            return names;
+        }
+    };
+
+    // Validation - pure functions, mirrors the backend request validation
+    const ParameterValidator = {
+        validate: function(parameters) {
+            const names = new Set();
+            for (const parameter of parameters) {
+                if (!NAME_PATTERN.test(parameter.name || '')) return 'Parameter name "' + parameter.name + '" is not a valid @name';
+                if (names.has(parameter.name.toLowerCase())) return 'Parameter names must be unique: ' + parameter.name;
+                names.add(parameter.name.toLowerCase());
+                switch (parameter.generator) {
+                    case 'sequential':
+                        if (!Number.isInteger(parameter.start) || !Number.isInteger(parameter.step)) {
+                            return 'Start and step for ' + parameter.name + ' must be whole numbers';
+                        }
+                        break;
+                    case 'randomRange':
+                        if (!Number.isInteger(parameter.min) || !Number.isInteger(parameter.max)) {
+                            return 'Min and max for ' + parameter.name + ' must be whole numbers';
+                        }
+                        if (parameter.min > parameter.max) return 'Min for ' + parameter.name + ' must not be greater than max';
+                        break;
+                    case 'guid':
+                        break;
+                    case 'csvList':
+                        if (!parameter.values || parameter.values.length === 0) return 'Choose a CSV file with values for ' + parameter.name;
+                        break;
+                    case 'lookupQuery':
+                        if (!parameter.lookupQuery || !parameter.lookupQuery.trim()) return 'Enter a lookup query for ' + parameter.name;
+                        break;
+                    default:
+                        return 'Unknown generator for ' + parameter.name;
+                }
+            }
+            return null;
+        }
+    };
+
+    function createDefinition(name) {
+        return { name: name, generator: 'sequential', start: 1, step: 1, min: 1, max: 100, lookupQuery: '', csv: null };
+    }
+
+    // Request shape - only the fields of the selected generator travel to the backend
+    function toParameter(definition) {
+        const parameter = { name: definition.name, generator: definition.generator };
+        switch (definition.generator) {
+            case 'sequential':
+                parameter.start = definition.start;
+                parameter.step = definition.step;
+                break;
+            case 'randomRange':
+                parameter.min = definition.min;
+                parameter.max = definition.max;
+                break;
+            case 'csvList':
+                parameter.values = definition.csv ? definition.csv.columns[definition.csv.columnIndex].values : [];
+                break;
+            case 'lookupQuery':
+                parameter.lookupQuery = definition.lookupQuery;
+                break;
+        }
+        return parameter;
+    }
+
+    function create(container, onLoadCsv) {
+        const state = {
+            definitions: []
+        };
+
+        function numberInput(label, value, onChange) {
+            const wrapper = document.createElement('label');
+            wrapper.textContent = label + ' ';
+            const input = document.createElement('input');
+            input.type = 'number';
+            input.className = 'parameter-number';
+            input.value = String(value);
+            input.addEventListener('change', () => onChange(parseInt(input.value, 10)));
+            wrapper.appendChild(input);
+            return wrapper;
+        }
+
+        function renderOptions(definition, options) {
+            switch (definition.generator) {
+                case 'sequential':
+                    options.appendChild(numberInput('Start', definition.start, value => { definition.start = value; }));
+                    options.appendChild(numberInput('Step', definition.step, value => { definition.step = value; }));
+                    break;
+                case 'randomRange':
+                    options.appendChild(numberInput('Min', definition.min, value => { definition.min = value; }));
+                    options.appendChild(numberInput('Max', definition.max, value => { definition.max = value; }));
+                    break;
+                case 'csvList': {
+                    const choose = document.createElement('button');
+                    choose.className = 'parameter-csv';
+                    choose.textContent = definition.csv ? 'Change CSV...' : 'Choose CSV...';
+                    choose.addEventListener('click', () => onLoadCsv && onLoadCsv(definition.name));
+                    options.appendChild(choose);
+
+                    if (definition.csv) {
+                        const column = document.createElement('select');
+                        column.className = 'parameter-column';
+                        definition.csv.columns.forEach((entry, index) => {
+                            const option = document.createElement('option');
+                            option.value = String(index);
+                            option.textContent = entry.name + ' (' + entry.values.length + ' values)';
+                            option.selected = index === definition.csv.columnIndex;
+                            column.appendChild(option);
+                        });
+                        column.addEventListener('change', () => { definition.csv.columnIndex = parseInt(column.value, 10); });
+                        options.appendChild(column);
+
+                        const fileName = document.createElement('span');
+                        fileName.className = 'parameter-file';
+                        fileName.textContent = definition.csv.fileName;
+                        options.appendChild(fileName);
+                    }
+                    break;
+                }
+                case 'lookupQuery': {
+                    const lookup = document.createElement('input');
+                    lookup.type = 'text';
+                    lookup.className = 'parameter-lookup';
+                    lookup.placeholder = 'SELECT Id FROM ... (first column is sampled)';
+                    lookup.value = definition.lookupQuery;
+                    lookup.addEventListener('change', () => { definition.lookupQuery = lookup.value; });
+                    options.appendChild(lookup);
+                    break;
+                }
+            }
+        }
+
+        function render() {
+            container.innerHTML = '';
+            if (state.definitions.length === 0) {
+                const empty = document.createElement('div');
+                empty.className = 'parameter-empty';
+                empty.textContent = 'No @param placeholders - every execution sends the same query text.';
+                container.appendChild(empty);
+                return;
+            }
+
+            state.definitions.forEach(definition => {
+                const row = document.createElement('div');
+                row.className = 'parameter-row';
+
+                const name = document.createElement('span');
+                name.className = 'parameter-name';
+                name.textContent = definition.name;
+                row.appendChild(name);
+
+                const generator = document.createElement('select');
+                generator.className = 'parameter-generator';
+                GENERATORS.forEach(entry => {
+                    const option = document.createElement('option');
+                    option.value = entry.value;
+                    option.textContent = entry.label;
+                    option.selected = entry.value === definition.generator;
+                    generator.appendChild(option);
+                });
+                generator.addEventListener('change', () => {
+                    definition.generator = generator.value;
+                    render();
+                });
+                row.appendChild(generator);
+
+                const options = document.createElement('span');
+                options.className = 'parameter-options';
+                renderOptions(definition, options);
+                row.appendChild(options);
+
+                container.appendChild(row);
+            });
+        }
+
+        function find(name) {
+            return state.definitions.find(d => d.name.toLowerCase() === (name || '').toLowerCase());
+        }
+
+        // Keeps the configuration of placeholders that are still present
+        function setPlaceholders(names) {
+            state.definitions = names.map(name => find(name) || createDefinition(name));
+            render();
+        }
+
+        // Replaces every definition, e.g. with the generators of a generated stress test
+        function setParameters(parameters) {
+            state.definitions = parameters.map(parameter => Object.assign(createDefinition(parameter.name), parameter));
+            render();
+        }
+
+        function setCsvColumns(name, fileName, columns) {
+            const definition = find(name);
+            if (!definition || !columns || columns.length === 0) return;
+            definition.csv = { fileName: fileName, columns: columns, columnIndex: 0 };
+            render();
+        }
+
+        render();
+
+        return {
+            setPlaceholders: setPlaceholders,
+            setParameters: setParameters,
+            setCsvColumns: setCsvColumns,
+            getParameters: function() {
+                return state.definitions.map(toParameter);
+            },
+            // Placeholders in the given names that have no generator configured yet
+            getUnconfigured: function(names) {
+                return names.filter(name => !find(name));
+            },
+            validate: function() {
+                return ParameterValidator.validate(state.definitions.map(toParameter));
+            }
+        };
+    }
+
+    window.ParameterEditor = {
+        create: create,
+        PlaceholderParser: PlaceholderParser,
+        ParameterValidator: ParameterValidator
+    };
+})();
@@ -15,9 +15,34 @@
     // State management - single source of truth
     const state = {
         chart: null,
+        latencyChart: null,
         executionSummaries: [],
         testStartTime: null,
-        boundaries: []
+        boundaries: [],
+        loadLevels: [],
+        blockingMarkers: [], // Deadlocks and blocked process reports of the run
+        eventNames: [], // Every event name of the run, for the event picker
+        chartOptions: {
+            bucketSeconds: 0, // 0 plots every execution, otherwise averages per time bucket
+            eventNames: null // Event names feeding the chart, null for the default
+        }
+    };
+    
+    // Fields of the Extended Events records that can be plotted; times share the left axis, counts the right one
+    const CHART_METRICS = [
+        { key: 'duration', label: 'Duration (ms)', checkboxId: 'showDuration', color: 'rgb(75, 192, 192)', axis: 'y' },
+        { key: 'logicalReads', label: 'Logical Reads', checkboxId: 'showReads', color: 'rgb(255, 99, 132)', axis: 'yCount' },
+        { key: 'writes', label: 'Writes', checkboxId: 'showWrites', color: 'rgb(54, 162, 235)', axis: 'yCount' },
+        { key: 'cpuTime', label: 'CPU Time (ms)', checkboxId: 'showCpuTime', color: 'rgb(255, 206, 86)', axis: 'y' },
+        { key: 'physicalReads', label: 'Physical Reads', checkboxId: 'showPhysicalReads', color: 'rgb(153, 102, 255)', axis: 'yCount' },
+        { key: 'rowCount', label: 'Row Count', checkboxId: 'showRowCount', color: 'rgb(255, 159, 64)', axis: 'yCount' }
+    ];
+    const DEFAULT_CHART_EVENT = 'sql_batch_completed';
+    
+    // Timeline markers of the reports of blocked sessions
+    const BLOCKING_MARKERS = {
+        xml_deadlock_report: { label: 'Deadlock', color: 'rgb(255, 99, 71)', borderDash: [] },
+        blocked_process_report: { label: 'Blocked', color: 'rgb(255, 165, 0)', borderDash: [4, 4] }
     };
     
     // Utility Functions - Pure functions, easily testable (Single Responsibility Principle)
@@ -35,6 +60,15 @@
         }
     };
     
+    // Values bound to the @param placeholders of an execution, one tooltip line each
+    const ParameterFormatter = {
+        formatLines: function(parameters) {
+            if (!parameters) return [];
+            return Object.keys(parameters).map(name =>
+                `${name} = ${parameters[name] === null ? 'NULL' : parameters[name]}`);
+        }
+    };
+    
     const StatisticsCalculator = {
         calculatePercentiles: function(values, percentiles = [50, 95, 99]) {
             const sorted = [...values].sort((a, b) => a - b);
@@ -104,6 +138,96 @@
             }
         },
         
+        // Per scenario query table; hidden unless the run mixes several queries
+        updateQueryBreakdown: function(queryBreakdown, doc) {
+            const container = doc.getElementById('queryBreakdown');
+            if (!container) return;
+            if (!queryBreakdown || queryBreakdown.length < 2) {
+                container.style.display = 'none';
+                container.innerHTML = '';
+                return;
+            }
+            
+            const formatAverage = (value, unit) => value === undefined || value === null
+                ? '-'
+                : Math.round(value).toLocaleString() + (unit ? ' ' + unit : '');
+            const totalExecutions = queryBreakdown.reduce((sum, entry) => sum + entry.executionCount, 0);
+            
+            const appendRow = (parent, cellTag, values) => {
+                const row = doc.createElement('tr');
+                values.forEach(text => {
+                    const cell = doc.createElement(cellTag);
+                    cell.textContent = text;
+                    row.appendChild(cell);
+                });
+                parent.appendChild(row);
+            };
+            
+            const table = doc.createElement('table');
+            const head = doc.createElement('thead');
+            const body = doc.createElement('tbody');
+            table.appendChild(head);
+            table.appendChild(body);
+            appendRow(head, 'th', ['Query', 'Executions', 'Share', 'Avg Duration', 'Avg Logical Reads', 'Avg Writes', 'Avg CPU Time']);
+            
+            queryBreakdown.forEach(entry => {
+                const share = totalExecutions > 0 ? Math.round((entry.executionCount / totalExecutions) * 100) + '%' : '-';
+                appendRow(body, 'td', [
+                    entry.queryName,
+                    entry.executionCount.toLocaleString(),
+                    share,
+                    formatAverage(entry.avgDuration, 'ms'),
+                    formatAverage(entry.avgLogicalReads),
+                    formatAverage(entry.avgWrites),
+                    formatAverage(entry.avgCpuTime, 'ms')
+                ]);
+            });
+            
+            container.innerHTML = '';
+            container.appendChild(table);
+            container.style.display = 'block';
+        },
+        
+        // Percentiles are estimated by the extension over every execution of the run
+        updatePercentiles: function(latencyDistribution, doc) {
+            const percentiles = latencyDistribution ? latencyDistribution.percentiles : null;
+            [['statP50', 'p50'], ['statP90', 'p90'], ['statP95', 'p95'], ['statP99', 'p99']].forEach(([id, key]) => {
+                const element = doc.getElementById(id);
+                if (element) {
+                    element.textContent = percentiles ? Math.round(percentiles[key]) + ' ms' : '-';
+                }
+            });
+        },
+        
+        // One checkbox per event name of the run; rebuilt only when a new event name shows up
+        updateEventNamePicker: function(availableEventNames, selectedEventNames, doc) {
+            const container = doc.getElementById('chartEventNames');
+            if (!container) return;
+            
+            const key = availableEventNames.join(',');
+            if (container.dataset.eventNames !== key) {
+                container.dataset.eventNames = key;
+                container.innerHTML = '';
+                if (availableEventNames.length === 0) {
+                    container.textContent = 'No events yet';
+                }
+                availableEventNames.forEach(name => {
+                    const label = doc.createElement('label');
+                    label.className = 'event-name';
+                    const checkbox = doc.createElement('input');
+                    checkbox.type = 'checkbox';
+                    checkbox.value = name;
+                    label.appendChild(checkbox);
+                    label.appendChild(doc.createTextNode(name));
+                    container.appendChild(label);
+                });
+            }
+            
+            container.querySelectorAll('input[type="checkbox"]').forEach(checkbox => {
+                checkbox.checked = selectedEventNames.includes(checkbox.value);
+            });
+        },
+        
         updateStatusBar: function(chart, doc) {
             if (chart && chart.scales && chart.scales.x) {
                 const min = chart.scales.x.min;
@@ -118,126 +242,113 @@
     
     // Data Processing - Business logic separated (Single Responsibility Principle)
     const DataProcessor = {
-        normalizeValue: function(value, min, max) {
-            if (min === max) return 50;
-            return ((value - min) / (max - min)) * 100;
+        // Events plotted unless others are picked: sql_batch_completed when the run has it, otherwise every event
+        selectEventNames: function(availableEventNames, chosenEventNames) {
+            if (chosenEventNames) return chosenEventNames;
+            return availableEventNames.includes(DEFAULT_CHART_EVENT) ? [DEFAULT_CHART_EVENT] : availableEventNames;
         },
         
-        calculateMetricRanges: function(executionSummaries) {
-            const metricRanges = {};
-            const metricKeys = ['avgDuration', 'avgLogicalReads', 'avgWrites', 'avgCpuTime', 'avgPhysicalReads', 'avgRowCount'];
-            
-            metricKeys.forEach(key => {
-                const values = executionSummaries
-                    .map(s => s[key])
-                    .filter(v => v !== undefined && v !== null && !isNaN(v));
-                
-                if (values.length > 0) {
-                    metricRanges[key] = {
-                        min: Math.min(...values),
-                        max: Math.max(...values),
-                        percentiles: StatisticsCalculator.calculatePercentiles(values)
-                    };
+        // Average of every metric over the execution's events of the given names, spanning the execution's time
+        calculateExecutionValues: function(executionSummaries, boundaries, eventNames) {
+            const selected = new Set(eventNames);
+            const startTimes = new Map();
+            const endTimes = new Map();
+            (boundaries || []).forEach(b => (b.isStart ? startTimes : endTimes).set(b.executionNumber, b.timestampMs));
+            
+            return executionSummaries
+                .map(summary => {
+                    const events = (summary.events || []).filter(e => selected.has(e.eventName));
+                    if (events.length === 0) return null;
+                    
+                    const values = {};
+                    CHART_METRICS.forEach(metric => {
+                        const measured = events.map(e => e[metric.key]).filter(v => typeof v === 'number' && !isNaN(v));
+                        if (measured.length > 0) {
+                            values[metric.key] = measured.reduce((a, b) => a + b, 0) / measured.length;
+                        }
+                    });
+                    
+                    const startTime = startTimes.get(summary.executionNumber) || summary.startTime;
+                    const endTime = endTimes.get(summary.executionNumber) || summary.endTime ||
+                        events.reduce((last, e) => Math.max(last, e.timestamp), startTime);
+                    return { executionNumber: summary.executionNumber, startTime, endTime, values };
+                })
+                .filter(execution => execution !== null)
+                .sort((a, b) => a.startTime - b.startTime || a.executionNumber - b.executionNumber);
+        },
+        
+        // Executions grouped by the time bucket they started in, counted from the test start, averaged per metric
+        aggregateByTimeBucket: function(executionValues, bucketMs, origin) {
+            if (executionValues.length === 0) return [];
+            const firstStart = origin ?? executionValues[0].startTime;
+            const buckets = new Map();
+            
+            executionValues.forEach(execution => {
+                const startTime = firstStart + Math.floor((execution.startTime - firstStart) / bucketMs) * bucketMs;
+                let bucket = buckets.get(startTime);
+                if (!bucket) {
+                    bucket = { startTime, endTime: startTime + bucketMs, executionCount: 0, totals: {}, counts: {} };
+                    buckets.set(startTime, bucket);
                 }
+                bucket.executionCount++;
+                Object.keys(execution.values).forEach(key => {
+                    bucket.totals[key] = (bucket.totals[key] || 0) + execution.values[key];
+                    bucket.counts[key] = (bucket.counts[key] || 0) + 1;
+                });
             });
             
-            return metricRanges;
+            return Array.from(buckets.values())
+                .sort((a, b) => a.startTime - b.startTime)
+                .map(bucket => {
+                    const values = {};
+                    Object.keys(bucket.totals).forEach(key => {
+                        values[key] = bucket.totals[key] / bucket.counts[key];
+                    });
+                    return { startTime: bucket.startTime, endTime: bucket.endTime, executionCount: bucket.executionCount, values };
+                });
         },
         
-        createAveragedDataset: function(label, summaryAvgKey, color, executionSummaries, boundaries, metricRanges, hidden = false) {
+        // One flat segment per execution or time bucket in the metric's own unit, with gaps between them
+        createMetricDataset: function(metric, periods, hidden = false) {
+            const values = periods.map(p => p.values[metric.key]).filter(v => v !== undefined);
+            const percentiles = values.length > 0 ? StatisticsCalculator.calculatePercentiles(values) : null;
             const dataPoints = [];
-            const range = metricRanges[summaryAvgKey];
             
-            if (!range) return {
-                label: label,
-                data: [],
-                borderColor: color,
-                backgroundColor: 'transparent',
-                fill: false,
-                tension: 0,
-                pointRadius: 0,
-                pointHoverRadius: 5,
-                spanGaps: false,
-                hidden: hidden
-            };
-            
-            const sortedSummaries = executionSummaries
-                .filter(s => {
-                    if (summaryAvgKey === 'avgDuration') return s.avgDuration !== undefined;
-                    if (summaryAvgKey === 'avgLogicalReads') return s.avgLogicalReads !== undefined;
-                    if (summaryAvgKey === 'avgWrites') return s.avgWrites !== undefined;
-                    if (summaryAvgKey === 'avgCpuTime') return s.avgCpuTime !== undefined;
-                    if (summaryAvgKey === 'avgPhysicalReads') return s.avgPhysicalReads !== undefined;
-                    if (summaryAvgKey === 'avgRowCount') return s.avgRowCount !== undefined;
-                    return false;
-                })
-                .sort((a, b) => a.executionNumber - b.executionNumber);
-            
-            sortedSummaries.forEach((summary, index) => {
-                const avg = summary[summaryAvgKey];
-                if (avg === undefined || avg === null) return;
-                
-                const normalizedValue = DataProcessor.normalizeValue(avg, range.min, range.max);
+            periods.forEach(period => {
+                const value = period.values[metric.key];
+                if (value === undefined) return;
                 
-                // Determine percentile
                 let percentile = null;
-                if (range.percentiles) {
-                    if (avg <= range.percentiles[50]) percentile = 50;
-                    else if (avg <= range.percentiles[95]) percentile = 95;
-                    else if (avg <= range.percentiles[99]) percentile = 99;
+                if (percentiles) {
+                    if (value <= percentiles[50]) percentile = 50;
+                    else if (value <= percentiles[95]) percentile = 95;
+                    else if (value <= percentiles[99]) percentile = 99;
                 }
                 
-                const startBoundary = boundaries.find(b => 
-                    b.executionNumber === summary.executionNumber && b.isStart
-                );
-                const endBoundary = boundaries.find(b => 
-                    b.executionNumber === summary.executionNumber && !b.isStart
-                );
-                
-                const startTime = startBoundary?.timestampMs || summary.startTime;
-                const endTime = endBoundary?.timestampMs || summary.endTime || 
-                               (summary.events && summary.events.length > 0 ? Math.max(...summary.events.map(e => e.timestamp)) : startTime);
-                
-                if (index > 0 && dataPoints.length > 0) {
-                    const lastPoint = dataPoints[dataPoints.length - 1];
-                    if (startTime > lastPoint.x) {
-                        dataPoints.push({
-                            x: startTime - 1,
-                            y: null,
-                            executionNumber: summary.executionNumber
-                        });
-                    }
+                const lastPoint = dataPoints[dataPoints.length - 1];
+                if (lastPoint && period.startTime > lastPoint.x) {
+                    dataPoints.push({ x: period.startTime - 1, y: null, executionNumber: period.executionNumber });
                 }
                 
-                dataPoints.push({
-                    x: startTime,
-                    y: normalizedValue,
-                    originalValue: avg,
-                    executionNumber: summary.executionNumber,
-                    min: range.min,
-                    max: range.max,
-                    percentile: percentile,
-                    range: range
-                });
-                dataPoints.push({
-                    x: endTime,
-                    y: normalizedValue,
-                    originalValue: avg,
-                    executionNumber: summary.executionNumber,
-                    min: range.min,
-                    max: range.max,
-                    percentile: percentile,
-                    range: range
-                });
+                const point = {
+                    y: value,
+                    originalValue: value,
+                    executionNumber: period.executionNumber,
+                    executionCount: period.executionCount,
+                    periodStart: period.startTime,
+                    periodEnd: period.endTime,
+                    percentile: percentile
+                };
+                dataPoints.push({ x: period.startTime, ...point });
+                dataPoints.push({ x: Math.max(period.endTime, period.startTime), ...point });
             });
             
-            const rgbaColor = color.replace('rgb(', 'rgba(').replace(')', ', 0.2)');
-            
             return {
-                label: label,
+                label: metric.label,
                 data: dataPoints,
-                borderColor: color,
-                backgroundColor: rgbaColor,
+                yAxisID: metric.axis,
+                borderColor: metric.color,
+                backgroundColor: metric.color.replace('rgb(', 'rgba(').replace(')', ', 0.2)'),
                 fill: true,
                 tension: 0,
                 pointRadius: 0,
@@ -245,7 +356,85 @@
                 borderWidth: 2,
                 spanGaps: false,
                 hidden: hidden,
-                _originalColor: color
+                _originalColor: metric.color
+            };
+        },
+        
+        // Bars of the latency histogram, one per duration bin
+        createLatencyHistogramData: function(latencyDistribution) {
+            const bins = latencyDistribution ? latencyDistribution.bins : [];
+            const formatBound = value => value < 10 ? value.toFixed(1) : Math.round(value).toString();
+            return {
+                labels: bins.map(bin => `${formatBound(bin.lowerBound)}-${formatBound(bin.upperBound)} ms`),
+                datasets: [{
+                    label: 'Executions',
+                    data: bins.map(bin => bin.count),
+                    backgroundColor: 'rgba(75, 192, 192, 0.6)',
+                    borderColor: 'rgb(75, 192, 192)',
+                    borderWidth: 1
+                }]
+            };
+        },
+        
+        // One vertical line per deadlock or blocked process report, labelled with the execution it involved
+        createBlockingAnnotations: function(blockingMarkers) {
+            return (blockingMarkers || [])
+                .filter(marker => BLOCKING_MARKERS[marker.eventName])
+                .map(marker => {
+                    const style = BLOCKING_MARKERS[marker.eventName];
+                    let content = `${style.label} #${marker.executionNumber}`;
+                    if (marker.blockedDurationMs !== undefined) {
+                        content += ` (${(marker.blockedDurationMs / 1000).toFixed(1)}s)`;
+                    }
+                    return {
+                        type: 'line',
+                        xMin: marker.timestampMs,
+                        xMax: marker.timestampMs,
+                        borderColor: style.color,
+                        borderWidth: 2,
+                        borderDash: style.borderDash,
+                        label: {
+                            display: true,
+                            content: content,
+                            position: 'start',
+                            backgroundColor: style.color,
+                            color: 'rgb(0, 0, 0)',
+                            font: { size: 10 }
+                        }
+                    };
+                });
+        },
+        
+        // Stepped line of the load level on its own axis, held until the last execution
+        createConcurrencyDataset: function(loadLevels, boundaries, hidden = false) {
+            const dataPoints = (loadLevels || []).map(level => ({
+                x: level.timestampMs,
+                y: level.concurrency,
+                concurrency: level.concurrency
+            }));
+            
+            if (dataPoints.length > 0) {
+                const lastPoint = dataPoints[dataPoints.length - 1];
+                const lastBoundary = Math.max(...(boundaries || []).map(b => b.timestampMs || 0), 0);
+                if (lastBoundary > lastPoint.x) {
+                    dataPoints.push({ x: lastBoundary, y: lastPoint.y, concurrency: lastPoint.concurrency });
+                }
+            }
+            
+            return {
+                label: 'Concurrency (workers)',
+                data: dataPoints,
+                yAxisID: 'yConcurrency',
+                borderColor: 'rgb(201, 203, 207)',
+                backgroundColor: 'transparent',
+                borderDash: [6, 4],
+                borderWidth: 2,
+                fill: false,
+                stepped: true,
+                tension: 0,
+                pointRadius: 0,
+                pointHoverRadius: 4,
+                hidden: hidden
             };
         }
     };
@@ -280,6 +469,41 @@
             return '#ffffff';
         },
         
+        createLatencyHistogramConfig: function() {
+            const textColor = this.getComputedColor('var(--vscode-editor-foreground)');
+        
+            return {
+                type: 'bar',
+                data: DataProcessor.createLatencyHistogramData(null),
+                options: {
+                    responsive: true,
+                    maintainAspectRatio: false,
+                    animation: false,
+                    plugins: {
+                        legend: { display: false },
+                        tooltip: {
+                            callbacks: {
+                                label: function(context) {
+                                    return `${context.parsed.y} executions`;
+                                }
+                            }
+                        }
+                    },
+                    scales: {
+                        x: {
+                            title: { display: true, text: 'Duration', color: textColor },
+                            ticks: { color: textColor, font: { size: 10 } }
+                        },
+                        y: {
+                            beginAtZero: true,
+                            title: { display: true, text: 'Executions', color: textColor },
+                            ticks: { precision: 0, color: textColor }
+                        }
+                    }
+                }
+            };
+        },
+        
         createConfig: function(formatRelativeTimeFn) {
             // Get computed text color from CSS variable
             const textColor = this.getComputedColor('var(--vscode-editor-foreground)');
@@ -338,6 +562,15 @@
                             callbacks: {
                                 title: function(context) {
                                     const dataPoint = context[0].raw;
+                                    if (dataPoint.concurrency !== undefined) {
+                                        return `Concurrency - ${formatRelativeTimeFn(dataPoint.x)}`;
+                                    }
+                                    if (dataPoint.executionCount !== undefined) {
+                                        return [
+                                            `${formatRelativeTimeFn(dataPoint.periodStart)} - ${formatRelativeTimeFn(dataPoint.periodEnd)}`,
+                                            `${dataPoint.executionCount} executions (avg)`
+                                        ];
+                                    }
                                     const executionNumber = dataPoint.executionNumber;
                                     const summary = state.executionSummaries.find(s => s.executionNumber === executionNumber);
                                     const relativeTime = formatRelativeTimeFn(dataPoint.x);
@@ -347,7 +580,8 @@
                                             `Execution #${executionNumber}`,
                                             `Time: ${relativeTime}`,
                                             `Duration: ${summary.avgDuration?.toFixed(2) || 'N/A'} ms (avg)`,
-                                            `Range: ${summary.minDuration?.toFixed(2) || 'N/A'} - ${summary.maxDuration?.toFixed(2) || 'N/A'} ms`
+                                            `Range: ${summary.minDuration?.toFixed(2) || 'N/A'} - ${summary.maxDuration?.toFixed(2) || 'N/A'} ms`,
+                                            ...ParameterFormatter.formatLines(summary.parameters)
                                         ];
                                     }
                                     return `Execution #${executionNumber} - ${relativeTime}`;
@@ -355,22 +589,20 @@
                                 label: function(context) {
                                     const datasetLabel = context.dataset.label;
                                     const dataPoint = context.raw;
-                                    const percentage = context.parsed.y;
                                     const originalValue = dataPoint.originalValue;
                                     
+                                    if (dataPoint.concurrency !== undefined) {
+                                        return `${datasetLabel}: ${dataPoint.concurrency}`;
+                                    }
                                     if (originalValue !== undefined && originalValue !== null) {
-                                        const range = dataPoint.range;
                                         const percentile = dataPoint.percentile;
-                                        let label = `${datasetLabel}: ${originalValue?.toFixed(2) || 'N/A'}`;
-                                        if (range) {
-                                            label += ` (${percentage?.toFixed(1)}% of range)`;
-                                        }
+                                        let label = `${datasetLabel}: ${originalValue.toFixed(2)}`;
                                         if (percentile) {
                                             label += ` [P${percentile}]`;
                                         }
                                         return label;
                                     }
-                                    return `${datasetLabel}: ${percentage?.toFixed(1)}%`;
+                                    return `${datasetLabel}: ${context.parsed.y?.toFixed(2) ?? 'N/A'}`;
                                 },
                                 afterBody: function(context) {
                                     const dataPoint = context[0].raw;
@@ -434,13 +666,14 @@
                                 drawBorder: false
                             }
                         },
+                        // Time metrics; each axis is shown only while one of its metrics is plotted
                         y: {
+                            display: 'auto',
+                            position: 'left',
                             beginAtZero: true,
-                            min: 0,
-                            max: 100,
                             title: {
                                 display: true,
-                                text: 'Percentage (%)',
+                                text: 'Time (ms)',
                                 font: {
                                     size: 12,
                                     weight: 'bold'
@@ -448,9 +681,6 @@
                                 color: textColor
                             },
                             ticks: {
-                                callback: function(value) {
-                                    return value + '%';
-                                },
                                 font: {
                                     size: 11
                                 },
@@ -461,6 +691,56 @@
                                 lineWidth: 1,
                                 drawBorder: false
                             }
+                        },
+                        // Reads, writes and row counts
+                        yCount: {
+                            display: 'auto',
+                            position: 'right',
+                            beginAtZero: true,
+                            title: {
+                                display: true,
+                                text: 'Count',
+                                font: {
+                                    size: 12,
+                                    weight: 'bold'
+                                },
+                                color: textColor
+                            },
+                            ticks: {
+                                precision: 0,
+                                font: {
+                                    size: 11
+                                },
+                                color: textColor
+                            },
+                            grid: {
+                                drawOnChartArea: false
+                            }
+                        },
+                        // Shown only while the concurrency overlay has data
+                        yConcurrency: {
+                            display: 'auto',
+                            position: 'right',
+                            beginAtZero: true,
+                            title: {
+                                display: true,
+                                text: 'Workers',
+                                font: {
+                                    size: 12,
+                                    weight: 'bold'
+                                },
+                                color: textColor
+                            },
+                            ticks: {
+                                precision: 0,
+                                font: {
+                                    size: 11
+                                },
+                                color: textColor
+                            },
+                            grid: {
+                                drawOnChartArea: false
+                            }
                         }
                     }
                 }
@@ -509,6 +789,42 @@
                 });
             }
             
+            // HTML report - the extension asks for the chart images once the file is chosen
+            const generateReportBtn = doc.getElementById('generateReportBtn');
+            if (generateReportBtn) {
+                generateReportBtn.addEventListener('click', () => {
+                    dependencies.vscode.postMessage({ command: 'generateReport' });
+                });
+            }
+            
+            // Export run data - the extension asks where to write the files
+            const exportRunBtn = doc.getElementById('exportRunBtn');
+            if (exportRunBtn) {
+                exportRunBtn.addEventListener('click', () => {
+                    dependencies.vscode.postMessage({ command: 'exportRun' });
+                });
+            }
+
+            // Per execution or per time bucket
+            const chartAggregation = doc.getElementById('chartAggregation');
+            if (chartAggregation) {
+                chartAggregation.addEventListener('change', () => {
+                    state.chartOptions.bucketSeconds = Number(chartAggregation.value) || 0;
+                    this.renderChart();
+                });
+            }
+            
+            // Event names feeding the chart
+            const chartEventNames = doc.getElementById('chartEventNames');
+            if (chartEventNames) {
+                chartEventNames.addEventListener('change', () => {
+                    state.chartOptions.eventNames = Array.from(chartEventNames.querySelectorAll('input[type="checkbox"]'))
+                        .filter(checkbox => checkbox.checked)
+                        .map(checkbox => checkbox.value);
+                    this.renderChart();
+                });
+            }
+            
             // Metric visibility toggles
             const updateMetricVisibility = () => {
                 if (!state.chart) return;
@@ -518,6 +834,7 @@
                 const showCpuTime = doc.getElementById('showCpuTime')?.checked || false;
                 const showPhysicalReads = doc.getElementById('showPhysicalReads')?.checked || false;
                 const showRowCount = doc.getElementById('showRowCount')?.checked || false;
+                const showConcurrency = doc.getElementById('showConcurrency')?.checked || false;
                 
                 state.chart.data.datasets.forEach(dataset => {
                     dataset.hidden = !(
@@ -526,13 +843,14 @@
                         (dataset.label.includes('Writes') && showWrites) ||
                         (dataset.label.includes('CPU Time') && showCpuTime) ||
                         (dataset.label.includes('Physical Reads') && showPhysicalReads) ||
-                        (dataset.label.includes('Row Count') && showRowCount)
+                        (dataset.label.includes('Row Count') && showRowCount) ||
+                        (dataset.label.includes('Concurrency') && showConcurrency)
                     );
                 });
                 state.chart.update();
             };
             
-            ['showDuration', 'showReads', 'showWrites', 'showCpuTime', 'showPhysicalReads', 'showRowCount'].forEach(id => {
+            ['showDuration', 'showReads', 'showWrites', 'showCpuTime', 'showPhysicalReads', 'showRowCount', 'showConcurrency'].forEach(id => {
                 const element = doc.getElementById(id);
                 if (element) {
                     element.addEventListener('change', updateMetricVisibility);
@@ -552,13 +870,85 @@
             }
         },
         
+        // Plots the picked metrics of the picked events, per execution or per time bucket
+        renderChart: function() {
+            if (!state.chart) return;
+            const doc = dependencies.document;
+            const eventNames = DataProcessor.selectEventNames(state.eventNames, state.chartOptions.eventNames);
+            UIUpdater.updateEventNamePicker(state.eventNames, eventNames, doc);
+            
+            const executionValues = DataProcessor.calculateExecutionValues(state.executionSummaries, state.boundaries, eventNames);
+            const bucketMs = state.chartOptions.bucketSeconds * 1000;
+            const periods = bucketMs > 0
+                ? DataProcessor.aggregateByTimeBucket(executionValues, bucketMs, state.testStartTime)
+                : executionValues;
+            
+            const datasets = CHART_METRICS.map(metric => {
+                const checkbox = doc.getElementById(metric.checkboxId);
+                return DataProcessor.createMetricDataset(metric, periods, checkbox ? !checkbox.checked : false);
+            });
+            const showConcurrency = doc.getElementById('showConcurrency');
+            datasets.push(DataProcessor.createConcurrencyDataset(state.loadLevels, state.boundaries, showConcurrency ? !showConcurrency.checked : false));
+            
+            state.chart.data.datasets = datasets;
+            
+            // Execution boundaries are not drawn, only the blocking markers
+            state.chart.options.plugins.annotation.annotations = DataProcessor.createBlockingAnnotations(state.blockingMarkers);
+            state.chart.update('none');
+            
+            dependencies.setTimeout(() => {
+                ChartOperations.updateGradients(state.chart);
+            }, 100);
+        },
+        
+        // Shown once the run has durations; the chart is created on first use
+        updateLatencyHistogram: function(latencyDistribution) {
+            const doc = dependencies.document;
+            const container = doc.getElementById('latencyDistribution');
+            const canvas = doc.getElementById('latencyHistogramChart');
+            UIUpdater.updatePercentiles(latencyDistribution, doc);
+            if (!container || !canvas) return;
+            
+            if (!latencyDistribution || latencyDistribution.count === 0) {
+                container.style.display = 'none';
+                return;
+            }
+            
+            container.style.display = 'block';
+            if (!state.latencyChart) {
+                state.latencyChart = ChartOperations.createChart(canvas, ChartConfigFactory.createLatencyHistogramConfig());
+            }
+            state.latencyChart.data = DataProcessor.createLatencyHistogramData(latencyDistribution);
+            state.latencyChart.update('none');
+        },
+        
         handleMessage: function(message) {
+            if (message.command === 'captureCharts') {
+                // Images for the HTML report, drawn with the current theme colors
+                const background = getComputedStyle(dependencies.document.body).getPropertyValue('--vscode-editor-background').trim();
+                dependencies.vscode.postMessage({
+                    command: 'chartImages',
+                    charts: {
+                        performance: state.chart ? state.chart.toBase64Image() : undefined,
+                        latency: state.latencyChart ? state.latencyChart.toBase64Image() : undefined,
+                        background: background || undefined
+                    }
+                });
+                return;
+            }
+            
             if (message.command === 'clearChart') {
                 ChartOperations.clearChart(state.chart);
+                this.updateLatencyHistogram(null);
                 state.executionSummaries = [];
                 state.boundaries = [];
+                state.loadLevels = [];
+                state.blockingMarkers = [];
+                state.eventNames = [];
                 state.testStartTime = null;
+                UIUpdater.updateEventNamePicker([], [], dependencies.document);
                 UIUpdater.updateStatistics(state.executionSummaries, state.testStartTime, dependencies.document);
+                UIUpdater.updateQueryBreakdown([], dependencies.document);
                 UIUpdater.updateStatusBar(state.chart, dependencies.document);
                 const statusText = dependencies.document.getElementById('statusText');
                 if (statusText) statusText.textContent = 'Chart cleared';
@@ -579,27 +969,14 @@
                     state.testStartTime = message.testStartTime;
                 }
                 
-                const metricRanges = DataProcessor.calculateMetricRanges(state.executionSummaries);
-                
-                const datasets = [];
-                datasets.push(DataProcessor.createAveragedDataset('Duration (ms)', 'avgDuration', 'rgb(75, 192, 192)', state.executionSummaries, state.boundaries, metricRanges));
-                datasets.push(DataProcessor.createAveragedDataset('Logical Reads', 'avgLogicalReads', 'rgb(255, 99, 132)', state.executionSummaries, state.boundaries, metricRanges));
-                datasets.push(DataProcessor.createAveragedDataset('Writes', 'avgWrites', 'rgb(54, 162, 235)', state.executionSummaries, state.boundaries, metricRanges));
-                datasets.push(DataProcessor.createAveragedDataset('CPU Time (ms)', 'avgCpuTime', 'rgb(255, 206, 86)', state.executionSummaries, state.boundaries, metricRanges));
-                datasets.push(DataProcessor.createAveragedDataset('Physical Reads', 'avgPhysicalReads', 'rgb(153, 102, 255)', state.executionSummaries, state.boundaries, metricRanges, true));
-                datasets.push(DataProcessor.createAveragedDataset('Row Count', 'avgRowCount', 'rgb(255, 159, 64)', state.executionSummaries, state.boundaries, metricRanges, true));
-                
-                state.chart.data.datasets = datasets;
-                
-                // Boundaries removed - no annotations
-                state.chart.options.plugins.annotation.annotations = [];
-                state.chart.update('none');
-                
-                dependencies.setTimeout(() => {
-                    ChartOperations.updateGradients(state.chart);
-                }, 100);
+                state.loadLevels = message.loadLevels || [];
+                state.blockingMarkers = message.blockingMarkers || [];
+                state.eventNames = message.eventNames || [];
+                this.renderChart();
                 
                 UIUpdater.updateStatistics(state.executionSummaries, state.testStartTime, dependencies.document);
+                UIUpdater.updateQueryBreakdown(message.queryBreakdown, dependencies.document);
+                this.updateLatencyHistogram(message.latencyDistribution);
                 UIUpdater.updateStatusBar(state.chart, dependencies.document);
                 const statusText = dependencies.document.getElementById('statusText');
                 if (statusText) statusText.textContent = `${state.executionSummaries.length} executions`;
@@ -614,16 +991,21 @@
     // Only expose what's needed for testing, not internal implementation
     window.PerformanceGraphModule = {
         TimeFormatter: TimeFormatter,
+        ParameterFormatter: ParameterFormatter,
         StatisticsCalculator: StatisticsCalculator,
         ChartOperations: ChartOperations,
         UIUpdater: UIUpdater,
         DataProcessor: DataProcessor,
+        CHART_METRICS: CHART_METRICS,
+        PerformanceGraphApp: PerformanceGraphApp,
         getState: function() {
             return {
                 chart: state.chart,
+                latencyChart: state.latencyChart,
                 executionSummaries: [...state.executionSummaries],
                 testStartTime: state.testStartTime,
-                boundaries: [...state.boundaries]
+                boundaries: [...state.boundaries],
+                chartOptions: { ...state.chartOptions }
             };
         },
         setState: function(newState) {
@@ -1,10 +1,13 @@
 const vscode = acquireVsCodeApi();
 let editor;
+// A draft query that arrived before Monaco loaded, and a draft database not listed yet
+let pendingQuery;
+let pendingDatabase;
 
 require.config({ paths: { vs: 'https://cdn.jsdelivr.net/npm/monaco-editor@0.45.0/min/vs' } });
 require(['vs/editor/editor.main'], function() {
     editor = monaco.editor.create(document.getElementById('editor'), {
-        value: 'SELECT * FROM sys.tables;',
+        value: pendingQuery !== undefined ? pendingQuery : 'SELECT * FROM sys.tables;',
         language: 'sql',
         theme: 'vs-dark',
         automaticLayout: true
@@ -16,9 +19,68 @@ const databaseSelect = document.getElementById('databaseSelect');
 const executeBtn = document.getElementById('executeBtn');
 const stressTestBtn = document.getElementById('stressTestBtn');
 const stopStressTestBtn = document.getElementById('stopStressTestBtn');
+const saveDefinitionBtn = document.getElementById('saveDefinitionBtn');
 const parallelExecutionsInput = document.getElementById('parallelExecutions');
 const totalExecutionsInput = document.getElementById('totalExecutions');
+const assertionsInput = document.getElementById('assertions');
+const planCaptureModeSelect = document.getElementById('planCaptureMode');
+const planSampleIntervalInput = document.getElementById('planSampleInterval');
+const planCountInput = document.getElementById('planCount');
 const stressTestStatus = document.getElementById('stressTestStatus');
+const resultGrid = window.QueryResultGrid.create(
+    document.getElementById('resultGrid'),
+    document.getElementById('resultStatus')
+);
+const scenarioQueryNameInput = document.getElementById('scenarioQueryName');
+const scenarioQueryWeightInput = document.getElementById('scenarioQueryWeight');
+const addScenarioQueryBtn = document.getElementById('addScenarioQueryBtn');
+const scenarioEditor = window.ScenarioEditor.create(document.getElementById('scenarioQueries'));
+const detectParametersBtn = document.getElementById('detectParametersBtn');
+const parameterEditor = window.ParameterEditor.create(
+    document.getElementById('queryParameters'),
+    parameterName => vscode.postMessage({ command: 'loadParameterCsv', parameterName: parameterName })
+);
+const loadProfileEditor = window.LoadProfileEditor.create(document.getElementById('loadProfile'), updateExecutionInputs);
+
+// Timed load profiles ignore Total Executions; a ramp sets its own worker count
+function updateExecutionInputs(mode) {
+    totalExecutionsInput.disabled = mode !== 'fixed';
+    parallelExecutionsInput.disabled = mode === 'ramp';
+}
+
+// The sample interval only applies to sampling; the count caps both modes
+planCaptureModeSelect.addEventListener('change', () => {
+    const mode = planCaptureModeSelect.value;
+    document.getElementById('planSampleIntervalLabel').style.display = mode === 'sample' ? 'inline' : 'none';
+    document.getElementById('planCountLabel').style.display = mode ? 'inline' : 'none';
+});
+
+// Execution plan capture settings, or a message about the first invalid one
+function collectPlanCapture() {
+    const mode = planCaptureModeSelect.value;
+    if (!mode) {
+        return { planCapture: undefined };
+    }
+    const count = parseInt(planCountInput.value, 10);
+    if (!(count >= 1 && count <= 100)) {
+        return { error: 'Execution plan count must be between 1 and 100' };
+    }
+    if (mode === 'slowest') {
+        return { planCapture: { mode: mode, count: count } };
+    }
+    const sampleInterval = parseInt(planSampleIntervalInput.value, 10);
+    if (!(sampleInterval >= 1 && sampleInterval <= 100000)) {
+        return { error: 'Execution plan sample interval must be between 1 and 100000' };
+    }
+    return { planCapture: { mode: mode, sampleInterval: sampleInterval, count: count } };
+}
+
+// Placeholders of the queries a stress test would run - the scenario, or else the editor query
+function findPlaceholders(query) {
+    const queries = scenarioEditor.getQueries();
+    const text = queries.length > 0 ? queries.map(entry => entry.query).join('\n') : query;
+    return window.ParameterEditor.PlaceholderParser.parse(text);
+}
 
 // Handle connection change - fetch databases
 connectionSelect.addEventListener('change', () => {
@@ -59,49 +121,138 @@ executeBtn.addEventListener('click', () => {
     });
 });
 
-stressTestBtn.addEventListener('click', () => {
+addScenarioQueryBtn.addEventListener('click', () => {
+    const query = editor.getValue();
+    if (!query.trim()) {
+        alert('Please enter a query');
+        return;
+    }
+
+    const error = scenarioEditor.addQuery(
+        scenarioQueryNameInput.value,
+        query,
+        parseInt(scenarioQueryWeightInput.value, 10)
+    );
+    if (error) {
+        alert(error);
+        return;
+    }
+    scenarioQueryNameInput.value = '';
+});
+
+detectParametersBtn.addEventListener('click', () => {
+    const query = editor.getValue();
+    parameterEditor.setPlaceholders(findPlaceholders(query));
+});
+
+// Stress test settings from the inputs, or null after alerting about the first problem
+function collectStressTestConfig() {
     const connectionId = connectionSelect.value;
     const database = databaseSelect.value || undefined;
     const query = editor.getValue();
+    const queries = scenarioEditor.getQueries();
     const parallelExecutions = parseInt(parallelExecutionsInput.value) || 1;
     const totalExecutions = parseInt(totalExecutionsInput.value) || 10;
     
     if (!connectionId) {
         alert('Please select a connection');
-        return;
+        return null;
     }
     
-    if (!query.trim()) {
+    // A scenario replaces the editor query
+    if (queries.length > 0) {
+        const scenarioError = scenarioEditor.validate();
+        if (scenarioError) {
+            alert(scenarioError);
+            return null;
+        }
+    } else if (!query.trim()) {
         alert('Please enter a query');
-        return;
+        return null;
     }
 
+    const placeholders = findPlaceholders(query);
+    const unconfigured = parameterEditor.getUnconfigured(placeholders);
+    if (unconfigured.length > 0) {
+        alert('Configure generators for ' + unconfigured.join(', ') + ' (Detect Parameters)');
+        return null;
+    }
+    // Drops generators of placeholders that were removed from the query text
+    parameterEditor.setPlaceholders(placeholders);
+
+    const parameterError = parameterEditor.validate();
+    if (parameterError) {
+        alert(parameterError);
+        return null;
+    }
+    const parameters = parameterEditor.getParameters();
+
+    const loadProfileError = loadProfileEditor.validate();
+    if (loadProfileError) {
+        alert(loadProfileError);
+        return null;
+    }
+    const loadProfile = loadProfileEditor.getProfile();
+
     if (parallelExecutions < 1 || parallelExecutions > 1000) {
         alert('Parallel executions must be between 1 and 1000');
-        return;
+        return null;
     }
 
-    if (totalExecutions < 1 || totalExecutions > 100000) {
+    if (loadProfile.mode === 'fixed' && (totalExecutions < 1 || totalExecutions > 100000)) {
         alert('Total executions must be between 1 and 100000');
-        return;
+        return null;
     }
 
-    stressTestStatus.textContent = 'Starting stress test...';
-    stressTestBtn.disabled = true;
-    stopStressTestBtn.style.display = 'inline-block';
-    stopStressTestBtn.disabled = false;
+    const { planCapture, error: planCaptureError } = collectPlanCapture();
+    if (planCaptureError) {
+        alert(planCaptureError);
+        return null;
+    }
 
-    vscode.postMessage({
-        command: 'executeStressTest',
+    // Checked by the extension, which reports malformed assertions as a failed run
+    const assertions = assertionsInput.value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+
+    return {
         connectionId: connectionId,
         query: query,
+        queries: queries.length > 0 ? queries : undefined,
+        parameters: parameters.length > 0 ? parameters : undefined,
+        loadProfile: loadProfile.mode !== 'fixed' ? loadProfile : undefined,
+        assertions: assertions.length > 0 ? assertions : undefined,
+        planCapture: planCapture,
         parallelExecutions: parallelExecutions,
         totalExecutions: totalExecutions,
         database: database
-    });
+    };
+}
+
+stressTestBtn.addEventListener('click', () => {
+    const config = collectStressTestConfig();
+    if (!config) {
+        return;
+    }
+
+    stressTestStatus.textContent = 'Starting stress test...';
+    stressTestBtn.disabled = true;
+    stopStressTestBtn.style.display = 'inline-block';
+    stopStressTestBtn.disabled = false;
+
+    vscode.postMessage({ command: 'executeStressTest', ...config });
+});
+
+// Saves the settings as a *.sqlstress.json file that can be reviewed and re-run
+saveDefinitionBtn.addEventListener('click', () => {
+    const config = collectStressTestConfig();
+    if (!config) {
+        return;
+    }
+
+    vscode.postMessage({ command: 'saveStressTestDefinition', ...config });
 });
 
 stopStressTestBtn.addEventListener('click', () => {
+    // Stays disabled until the backend confirms the cancellation
     stopStressTestBtn.disabled = true;
     stressTestStatus.textContent = 'Stopping stress test...';
     
@@ -127,8 +278,16 @@ window.addEventListener('message', event => {
         case 'databases':
             updateDatabases(message.data, message.error);
             break;
+        case 'loadDraft':
+            loadDraft(message);
+            break;
+        case 'queryExecuting':
+            executeBtn.disabled = true;
+            resultGrid.setLoading();
+            break;
         case 'queryResult':
-            // Query results are no longer displayed
+            executeBtn.disabled = false;
+            resultGrid.setResult(message.data);
             break;
         case 'stressTestStarted':
             stressTestBtn.disabled = true;
@@ -141,6 +300,21 @@ window.addEventListener('message', event => {
             stressTestBtn.disabled = false;
             stopStressTestBtn.style.display = 'none';
             break;
+        case 'stressTestStopFailed':
+            stressTestStatus.textContent = 'Failed to stop stress test: ' + (message.error || 'Unknown error');
+            stressTestStatus.style.color = 'var(--vscode-errorForeground)';
+            stopStressTestBtn.disabled = false;
+            break;
+        case 'parameterCsvLoaded':
+            parameterEditor.setCsvColumns(message.parameterName, message.fileName, message.columns);
+            break;
+        case 'stressTestDefinitionSaved':
+            stressTestStatus.textContent = 'Saved stress test definition ' + message.fileName;
+            stressTestStatus.style.color = 'var(--vscode-descriptionForeground)';
+            break;
+        case 'parameterCsvFailed':
+            alert('Failed to load CSV: ' + (message.error || 'Unknown error'));
+            break;
         case 'stressTestResult':
             if (message.data.success) {
                 stressTestStatus.textContent = 'Stress test completed: ' + (message.data.message || 'Success');
@@ -168,6 +342,18 @@ function updateConnections(connections, selectedConnectionId) {
     });
 }
 
+// Replaces the query and its parameter generators; the database is selected once the connection lists it
+function loadDraft(draft) {
+    if (editor) {
+        editor.setValue(draft.query);
+    } else {
+        pendingQuery = draft.query;
+    }
+    parameterEditor.setParameters(draft.parameters || []);
+    // The connections message before the draft has already started reloading the databases
+    pendingDatabase = draft.database;
+}
+
 function updateDatabases(databases, error) {
     databaseSelect.innerHTML = '<option value="">Select database...</option>';
     
@@ -189,6 +375,10 @@ function updateDatabases(databases, error) {
             databaseSelect.appendChild(option);
         });
         databaseSelect.disabled = false;
+        if (pendingDatabase && databases.includes(pendingDatabase)) {
+            databaseSelect.value = pendingDatabase;
+            pendingDatabase = undefined;
+        }
     } else {
         const noDbOption = document.createElement('option');
         noDbOption.value = '';
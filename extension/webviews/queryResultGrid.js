@@ -0,0 +1,257 @@
+// Query Result Grid Module - virtualized, sortable result grid for the query editor
+// Only the rows inside the viewport are in the DOM, so large result sets stay responsive
+
+(function() {
+    'use strict';
+
+    const ROW_HEIGHT = 22;
+    const OVERSCAN_ROWS = 10;
+    const COLUMN_WIDTH = 160;
+    const ROW_NUMBER_WIDTH = 60;
+
+    // Value formatting - pure functions
+    const CellFormatter = {
+        format: function(value) {
+            if (value === null || value === undefined) return 'NULL';
+            if (typeof value === 'object') return JSON.stringify(value);
+            return String(value);
+        },
+
+        isNull: function(value) {
+            return value === null || value === undefined;
+        }
+    };
+
+    // Sorting - sorts an index array so the original rows are never copied
+    const RowSorter = {
+        collator: new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' }),
+
+        compareValues: function(a, b) {
+            const aNull = CellFormatter.isNull(a);
+            const bNull = CellFormatter.isNull(b);
+            if (aNull || bNull) return aNull === bNull ? 0 : (aNull ? 1 : -1);
+            if (typeof a === 'number' && typeof b === 'number') return a - b;
+            if (typeof a === 'boolean' && typeof b === 'boolean') return (a ? 1 : 0) - (b ? 1 : 0);
+            return RowSorter.collator.compare(CellFormatter.format(a), CellFormatter.format(b));
+        },
+
+        createOrder: function(rowCount) {
+            const order = new Array(rowCount);
+            for (let i = 0; i < rowCount; i++) order[i] = i;
+            return order;
+        },
+
+        sort: function(rows, columnIndex, direction) {
+            const order = RowSorter.createOrder(rows.length);
+            if (columnIndex < 0 || !direction) return order;
+            const multiplier = direction === 'desc' ? -1 : 1;
+            order.sort((x, y) => {
+                const result = RowSorter.compareValues(rows[x][columnIndex], rows[y][columnIndex]);
+                // Fall back to the original position so sorting is stable
+                return result !== 0 ? result * multiplier : x - y;
+            });
+            return order;
+        },
+
+        nextDirection: function(current) {
+            if (current === 'asc') return 'desc';
+            if (current === 'desc') return null;
+            return 'asc';
+        }
+    };
+
+    // Viewport calculation - which rows need to be rendered for a scroll position
+    const Viewport = {
+        getVisibleRange: function(scrollTop, viewportHeight, rowCount) {
+            const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+            const last = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+            return { first: first, last: last };
+        }
+    };
+
+    // Status line - row count, execution time and error text
+    const StatusFormatter = {
+        format: function(result) {
+            if (!result) return '';
+            if (!result.success) return 'Error: ' + (result.error || 'Unknown error');
+            const rowCount = result.rowCount !== undefined && result.rowCount !== null
+                ? result.rowCount
+                : (result.rows ? result.rows.length : 0);
+            let text = rowCount.toLocaleString() + (rowCount === 1 ? ' row' : ' rows');
+            if (result.executionTimeMs !== undefined && result.executionTimeMs !== null) {
+                text += ' · ' + result.executionTimeMs.toLocaleString() + ' ms';
+            }
+            return text;
+        }
+    };
+
+    function create(container, statusElement) {
+        const state = {
+            columns: [],
+            rows: [],
+            order: [],
+            sortColumn: -1,
+            sortDirection: null,
+            renderedRange: null
+        };
+
+        container.innerHTML = '';
+        const header = document.createElement('div');
+        header.className = 'result-grid-header';
+        const body = document.createElement('div');
+        body.className = 'result-grid-body';
+        container.appendChild(header);
+        container.appendChild(body);
+
+        function setStatus(text, isError) {
+            if (!statusElement) return;
+            statusElement.textContent = text;
+            statusElement.classList.toggle('error', !!isError);
+        }
+
+        function getTotalWidth() {
+            return ROW_NUMBER_WIDTH + state.columns.length * COLUMN_WIDTH;
+        }
+
+        function renderHeader() {
+            header.innerHTML = '';
+            header.style.width = getTotalWidth() + 'px';
+            if (state.columns.length === 0) return;
+
+            const rowNumberCell = document.createElement('div');
+            rowNumberCell.className = 'result-grid-cell row-number';
+            rowNumberCell.style.width = ROW_NUMBER_WIDTH + 'px';
+            rowNumberCell.textContent = '#';
+            header.appendChild(rowNumberCell);
+
+            state.columns.forEach((column, index) => {
+                const cell = document.createElement('div');
+                cell.className = 'result-grid-cell sortable';
+                cell.style.width = COLUMN_WIDTH + 'px';
+                cell.title = column;
+                let indicator = '';
+                if (index === state.sortColumn && state.sortDirection) {
+                    indicator = state.sortDirection === 'asc' ? ' ▲' : ' ▼';
+                }
+                cell.textContent = (column || '(No column name)') + indicator;
+                cell.dataset.columnIndex = String(index);
+                cell.addEventListener('click', () => sortBy(index));
+                header.appendChild(cell);
+            });
+        }
+
+        function renderRow(displayIndex) {
+            const rowIndex = state.order[displayIndex];
+            const row = state.rows[rowIndex];
+            const rowElement = document.createElement('div');
+            rowElement.className = 'result-grid-row';
+            rowElement.style.top = (displayIndex * ROW_HEIGHT) + 'px';
+            rowElement.style.height = ROW_HEIGHT + 'px';
+
+            const rowNumberCell = document.createElement('div');
+            rowNumberCell.className = 'result-grid-cell row-number';
+            rowNumberCell.style.width = ROW_NUMBER_WIDTH + 'px';
+            rowNumberCell.textContent = String(rowIndex + 1);
+            rowElement.appendChild(rowNumberCell);
+
+            for (let c = 0; c < state.columns.length; c++) {
+                const value = row[c];
+                const text = CellFormatter.format(value);
+                const cell = document.createElement('div');
+                cell.className = CellFormatter.isNull(value) ? 'result-grid-cell null' : 'result-grid-cell';
+                cell.style.width = COLUMN_WIDTH + 'px';
+                cell.textContent = text;
+                cell.title = text;
+                rowElement.appendChild(cell);
+            }
+            return rowElement;
+        }
+
+        function renderRows(force) {
+            const range = Viewport.getVisibleRange(container.scrollTop, container.clientHeight, state.order.length);
+            if (!force && state.renderedRange &&
+                state.renderedRange.first === range.first && state.renderedRange.last === range.last) {
+                return;
+            }
+            state.renderedRange = range;
+
+            const fragment = document.createDocumentFragment();
+            for (let i = range.first; i < range.last; i++) {
+                fragment.appendChild(renderRow(i));
+            }
+            body.innerHTML = '';
+            body.appendChild(fragment);
+        }
+
+        function render() {
+            body.style.height = (state.order.length * ROW_HEIGHT) + 'px';
+            body.style.width = getTotalWidth() + 'px';
+            renderHeader();
+            renderRows(true);
+        }
+
+        function sortBy(columnIndex) {
+            const direction = columnIndex === state.sortColumn
+                ? RowSorter.nextDirection(state.sortDirection)
+                : 'asc';
+            state.sortColumn = direction ? columnIndex : -1;
+            state.sortDirection = direction;
+            state.order = RowSorter.sort(state.rows, state.sortColumn, state.sortDirection);
+            render();
+        }
+
+        let scrollFrame = null;
+        container.addEventListener('scroll', () => {
+            if (scrollFrame !== null) return;
+            scrollFrame = requestAnimationFrame(() => {
+                scrollFrame = null;
+                renderRows(false);
+            });
+        });
+
+        return {
+            setResult: function(result) {
+                state.columns = (result && result.success && result.columns) || [];
+                state.rows = (result && result.success && result.rows) || [];
+                state.sortColumn = -1;
+                state.sortDirection = null;
+                state.order = RowSorter.createOrder(state.rows.length);
+                state.renderedRange = null;
+                container.scrollTop = 0;
+                container.scrollLeft = 0;
+                setStatus(StatusFormatter.format(result), !!(result && !result.success));
+                render();
+            },
+
+            setLoading: function() {
+                state.columns = [];
+                state.rows = [];
+                state.order = [];
+                state.renderedRange = null;
+                setStatus('Executing query...', false);
+                render();
+            },
+
+            sortBy: sortBy,
+
+            getState: function() {
+                return {
+                    columns: [...state.columns],
+                    order: [...state.order],
+                    sortColumn: state.sortColumn,
+                    sortDirection: state.sortDirection,
+                    renderedRowCount: body.children.length
+                };
+            }
+        };
+    }
+
+    window.QueryResultGrid = {
+        create: create,
+        CellFormatter: CellFormatter,
+        RowSorter: RowSorter,
+        Viewport: Viewport,
+        StatusFormatter: StatusFormatter,
+        ROW_HEIGHT: ROW_HEIGHT
+    };
+})();
@@ -0,0 +1,150 @@
+const container = document.getElementById('comparisonContainer');
+let latencyChart = null;
+
+const RUN_COLORS = ['rgb(75, 192, 192)', 'rgb(255, 99, 132)', 'rgb(54, 162, 235)', 'rgb(255, 206, 86)', 'rgb(153, 102, 255)', 'rgb(255, 159, 64)'];
+
+function formatValue(value, unit) {
+    if (value === undefined || value === null) {
+        return '-';
+    }
+    if (unit === 'bytes') {
+        if (value >= 1024 * 1024) {
+            return (value / (1024 * 1024)).toFixed(2) + ' MB';
+        } else if (value >= 1024) {
+            return (value / 1024).toFixed(2) + ' KB';
+        }
+        return Math.round(value) + ' bytes';
+    }
+    if (unit === 'ms') {
+        return value.toFixed(2) + ' ms';
+    }
+    return Math.round(value).toLocaleString();
+}
+
+function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+}
+
+// Percentage change against the baseline, e.g. "-42.5%", highlighted when it is significant
+function formatChange(delta) {
+    if (delta.changePercent === undefined) {
+        return '';
+    }
+    const sign = delta.changePercent > 0 ? '+' : '';
+    return `<span class="change ${delta.verdict}">${sign}${delta.changePercent.toFixed(1)}%</span>`;
+}
+
+function createRunHeader(run, role) {
+    const details = [role];
+    if (run.connectionName) {
+        details.push(escapeHtml(run.connectionName));
+    }
+    details.push(new Date(run.startTime).toLocaleString());
+    details.push(`${run.executionCount.toLocaleString()} executions`);
+    return `<th>Run #${run.runId}<span class="run-details">${details.join(' · ')}</span></th>`;
+}
+
+function createComparisonTable(comparison) {
+    const table = document.createElement('table');
+    table.className = 'comparison-table';
+
+    let html = '<thead><tr><th>Metric</th>';
+    html += createRunHeader(comparison.baseline, 'Baseline');
+    comparison.candidates.forEach(candidate => {
+        html += createRunHeader(candidate, 'Candidate');
+    });
+    html += '</tr></thead><tbody>';
+
+    comparison.rows.forEach(row => {
+        html += `<tr data-metric="${row.metric}"><td>${row.label}</td>`;
+        html += `<td>${formatValue(row.baseline, row.unit)}</td>`;
+        row.candidates.forEach(delta => {
+            html += `<td>${formatValue(delta.value, row.unit)}${formatChange(delta)}</td>`;
+        });
+        html += '</tr>';
+    });
+    html += '</tbody>';
+
+    table.innerHTML = html;
+    return table;
+}
+
+function formatBound(value) {
+    return value < 10 ? value.toFixed(1) : Math.round(value).toString();
+}
+
+// One line per run over the same duration bins, so the shapes can be compared directly
+function createLatencyOverlayData(overlay) {
+    return {
+        labels: overlay.bins.map(bin => `${formatBound(bin.lowerBound)}-${formatBound(bin.upperBound)} ms`),
+        datasets: overlay.series.map((series, index) => ({
+            label: `Run #${series.runId}`,
+            data: series.percentages,
+            borderColor: RUN_COLORS[index % RUN_COLORS.length],
+            backgroundColor: RUN_COLORS[index % RUN_COLORS.length],
+            fill: false,
+            tension: 0.2
+        }))
+    };
+}
+
+function renderLatencyOverlay(overlay) {
+    const overlayContainer = document.getElementById('latencyOverlay');
+    if (!overlayContainer) {
+        return;
+    }
+    if (!overlay || overlay.series.length === 0) {
+        overlayContainer.style.display = 'none';
+        return;
+    }
+
+    overlayContainer.style.display = 'block';
+    const data = createLatencyOverlayData(overlay);
+    if (latencyChart) {
+        latencyChart.data = data;
+        latencyChart.update('none');
+        return;
+    }
+
+    const textColor = getComputedStyle(document.body).getPropertyValue('--vscode-editor-foreground') || '#cccccc';
+    latencyChart = new Chart(document.getElementById('latencyOverlayChart'), {
+        type: 'line',
+        data,
+        options: {
+            responsive: true,
+            maintainAspectRatio: false,
+            animation: false,
+            plugins: {
+                title: { display: true, text: 'Latency Distribution', color: textColor },
+                legend: { labels: { color: textColor } },
+                tooltip: {
+                    callbacks: {
+                        label: context => `${context.dataset.label}: ${context.parsed.y.toFixed(1)}% of executions`
+                    }
+                }
+            },
+            scales: {
+                x: {
+                    title: { display: true, text: 'Duration', color: textColor },
+                    ticks: { color: textColor, font: { size: 10 } }
+                },
+                y: {
+                    beginAtZero: true,
+                    title: { display: true, text: '% of executions', color: textColor },
+                    ticks: { color: textColor }
+                }
+            }
+        }
+    });
+}
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.command === 'showComparison') {
+        container.innerHTML = '';
+        container.appendChild(createComparisonTable(message.comparison));
+        renderLatencyOverlay(message.comparison.latencyOverlay);
+    }
+});
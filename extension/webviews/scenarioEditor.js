@@ -0,0 +1,151 @@
+// Scenario Editor Module - weighted mix of named queries for a stress test
+// Executions are shared between the scenario queries in proportion to their weights
+
+(function() {
+    'use strict';
+
+    const MIN_WEIGHT = 1;
+    const MAX_WEIGHT = 10000;
+    const PREVIEW_LENGTH = 60;
+
+    // Validation - pure functions, mirrors the backend request validation
+    const ScenarioValidator = {
+        validate: function(queries) {
+            const names = new Set();
+            for (const entry of queries) {
+                const name = (entry.name || '').trim();
+                if (!name) return 'Every scenario query needs a name';
+                if (names.has(name.toLowerCase())) return 'Scenario query names must be unique: ' + name;
+                names.add(name.toLowerCase());
+                if (!entry.query || !entry.query.trim()) return 'Scenario query "' + name + '" is empty';
+                if (!Number.isInteger(entry.weight) || entry.weight < MIN_WEIGHT || entry.weight > MAX_WEIGHT) {
+                    return 'Weight for "' + name + '" must be a whole number between ' + MIN_WEIGHT + ' and ' + MAX_WEIGHT;
+                }
+            }
+            return null;
+        }
+    };
+
+    // Weight display - share of the executions each query receives
+    const WeightCalculator = {
+        toPercentages: function(queries) {
+            const total = queries.reduce((sum, entry) => sum + (entry.weight > 0 ? entry.weight : 0), 0);
+            return queries.map(entry => total > 0 && entry.weight > 0
+                ? Math.round((entry.weight / total) * 1000) / 10
+                : 0);
+        }
+    };
+
+    const QueryPreview = {
+        format: function(query) {
+            const singleLine = (query || '').replace(/\s+/g, ' ').trim();
+            return singleLine.length > PREVIEW_LENGTH
+                ? singleLine.substring(0, PREVIEW_LENGTH) + '…'
+                : singleLine;
+        }
+    };
+
+    function create(container) {
+        const state = {
+            queries: []
+        };
+
+        function render() {
+            container.innerHTML = '';
+            if (state.queries.length === 0) {
+                const empty = document.createElement('div');
+                empty.className = 'scenario-empty';
+                empty.textContent = 'No scenario queries - the stress test runs the editor query.';
+                container.appendChild(empty);
+                return;
+            }
+
+            const percentages = WeightCalculator.toPercentages(state.queries);
+            state.queries.forEach((entry, index) => {
+                const row = document.createElement('div');
+                row.className = 'scenario-row';
+
+                const name = document.createElement('span');
+                name.className = 'scenario-name';
+                name.textContent = entry.name;
+                row.appendChild(name);
+
+                const weight = document.createElement('input');
+                weight.type = 'number';
+                weight.className = 'scenario-weight';
+                weight.min = String(MIN_WEIGHT);
+                weight.max = String(MAX_WEIGHT);
+                weight.value = String(entry.weight);
+                weight.title = 'Weight';
+                weight.addEventListener('change', () => setWeight(index, parseInt(weight.value, 10)));
+                row.appendChild(weight);
+
+                const percentage = document.createElement('span');
+                percentage.className = 'scenario-percentage';
+                percentage.textContent = percentages[index] + '%';
+                row.appendChild(percentage);
+
+                const preview = document.createElement('span');
+                preview.className = 'scenario-preview';
+                preview.textContent = QueryPreview.format(entry.query);
+                preview.title = entry.query;
+                row.appendChild(preview);
+
+                const remove = document.createElement('button');
+                remove.className = 'scenario-remove';
+                remove.textContent = 'Remove';
+                remove.addEventListener('click', () => removeQuery(index));
+                row.appendChild(remove);
+
+                container.appendChild(row);
+            });
+        }
+
+        function addQuery(name, query, weight) {
+            const entry = {
+                name: (name || '').trim() || 'Query ' + (state.queries.length + 1),
+                query: query || '',
+                weight: weight
+            };
+            const error = ScenarioValidator.validate([...state.queries, entry]);
+            if (error) return error;
+            state.queries.push(entry);
+            render();
+            return null;
+        }
+
+        function removeQuery(index) {
+            state.queries.splice(index, 1);
+            render();
+        }
+
+        function setWeight(index, weight) {
+            if (!state.queries[index]) return;
+            if (Number.isInteger(weight) && weight >= MIN_WEIGHT && weight <= MAX_WEIGHT) {
+                state.queries[index].weight = weight;
+            }
+            render();
+        }
+
+        render();
+
+        return {
+            addQuery: addQuery,
+            removeQuery: removeQuery,
+            setWeight: setWeight,
+            getQueries: function() {
+                return state.queries.map(entry => ({ ...entry }));
+            },
+            validate: function() {
+                return ScenarioValidator.validate(state.queries);
+            }
+        };
+    }
+
+    window.ScenarioEditor = {
+        create: create,
+        ScenarioValidator: ScenarioValidator,
+        WeightCalculator: WeightCalculator,
+        QueryPreview: QueryPreview
+    };
+})();